@@ -52,9 +52,11 @@ const Network = lazy(() => import('./pages/Settings/Network'));
 const Moderation = lazy(() => import('./pages/Settings/Moderation'));
 const NostrWalletConnect = lazy(() => import('./pages/Settings/NostrWalletConnect'));
 const BreezWallet = lazy(() => import('./pages/Settings/BreezWallet'));
+const CashuWallet = lazy(() => import('./pages/Settings/CashuWallet'));
 const Menu = lazy(() => import('./pages/Settings/Menu'));
 const BlossomSettings = lazy(() => import('./pages/Settings/Blossom'));
 const Wallet = lazy(() => import('./pages/WalletNew'));
+const LiveStudio = lazy(() => import('./pages/LiveStudio'));
 // const Landing = lazy(() => import('./pages/Landing'));
 const AppDownloadQr = lazy(() => import('./pages/appDownloadQr'));
 
@@ -166,11 +168,13 @@ const AppRouter: Component = () => {
             <Route path="/filters" component={Moderation} />
             <Route path="/nwc" component={NostrWalletConnect} />
             <Route path="/breez" component={BreezWallet} />
+            <Route path="/cashu" component={CashuWallet} />
             <Route path="/devtools" component={DevTools} />
             <Route path="/uploads" component={Blossom} />
           </Route>
           <Route path="/bookmarks" component={Bookmarks} />
           <Route path="/wallet" component={Wallet} />
+          <Route path="/live-studio/:identifier?" component={LiveStudio} />
           <Route path="/settings/profile" component={EditProfile} />
           <Route path="/profile/:npub?" component={Profile} />
           <Route path="/p/:npub?">
@@ -14,6 +14,7 @@ import { hookForDev } from '../../lib/devTools';
 import { sendEvent } from '../../lib/notes';
 import { humanizeNumber } from '../../lib/stats';
 import { zapSubscription } from '../../lib/zap';
+import { addRecurringZap } from '../../lib/recurringZaps';
 import { nip05Verification, userName } from '../../stores/profile';
 import { PrimalArticle, PrimalUser, ZapOption } from '../../types/primal';
 import { isDev, uuidv4 } from '../../utils';
@@ -94,7 +95,10 @@ const AuthorSubscribe: Component<{
 
       if (!isZapped) {
         unsubscribe(note.id);
+        return;
       }
+
+      addRecurringZap(note, a, tier.title, exchangeRate);
     }
   }
 
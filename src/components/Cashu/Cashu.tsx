@@ -9,14 +9,16 @@ import { useAppContext } from '../../contexts/AppContext';
 import Loader from '../Loader/Loader';
 import { logError } from '../../lib/logger';
 import { useIntl } from '@cookbook/solid-intl';
-import { cashuInvoice } from '../../translations';
+import { cashuInvoice, cashuWallet as tCashu } from '../../translations';
 import { getDecodedToken, Token, TokenEntry } from "@cashu/cashu-ts";
-import { useAccountContext } from '../../contexts/AccountContext';
+import { useToastContext } from '../Toaster/Toaster';
+import { cashuWallet, redeemCashuToken } from '../../lib/cashu/cashuWallet';
+import { spentProofs } from '../../lib/cashu/proofs';
 
 
 const Cashu: Component< { id?: string, token: string, alternative?: boolean, noBack?: boolean } > = (props) => {
 
-  const account = useAccountContext();
+  const toast = useToastContext();
   const app = useAppContext();
   const intl = useIntl();
 
@@ -31,14 +33,9 @@ const Cashu: Component< { id?: string, token: string, alternative?: boolean, noB
     let statuses: boolean[] = [];
 
     for (const entry of entries) {
-      const mint = app?.actions.getCashuMint(entry.mint);
-      if (!mint) continue;
+      const spent = await spentProofs(entry.mint, entry.proofs);
 
-      const spent = await mint.check({ proofs: entry.proofs.map((p) => ({ secret: p.secret })) });
-
-      const data = spent.spendable.map(s => s);
-
-      statuses = [ ...statuses, ...data];
+      statuses = [ ...statuses, spent.length === 0];
     }
 
     setCashuSpendable(() => !statuses.includes(false));
@@ -84,13 +81,25 @@ const Cashu: Component< { id?: string, token: string, alternative?: boolean, noB
     },
   });
 
-  const redeemCashu = () => {
-    const lnurl = account?.activeUser?.lud16 ?? '';
-    const url = `https://redeem.cashu.me?token=${encodeURIComponent(props.token)}&lightning=${encodeURIComponent(
-      lnurl,
-    )}&autopay=yes`;
+  const redeemCashu = async () => {
+    if (!cashuWallet.isLoaded) {
+      toast?.sendWarning(intl.formatMessage(tCashu.noWallet));
+      return;
+    }
+
+    setPaymentInProgress(true);
 
-    window.open(url, 'blank_');
+    try {
+      const received = await redeemCashuToken(props.token);
+
+      setCashuSpendable(false);
+      toast?.sendSuccess(intl.formatMessage(tCashu.received, { amount: received }));
+    } catch (reason) {
+      logError('Failed to redeem cashu token: ', reason);
+      toast?.sendWarning(intl.formatMessage(tCashu.failed, { reason: `${reason}` }));
+    } finally {
+      setPaymentInProgress(false);
+    }
   };
 
   const klass = () => {
@@ -4,9 +4,9 @@ import { defaultZap, defaultZapOptions, Kind } from '../../constants';
 import { useAccountContext } from '../../contexts/AccountContext';
 import { useSettingsContext } from '../../contexts/SettingsContext';
 import { hookForDev } from '../../lib/devTools';
-import { zapArticle, zapDVM, zapNote, zapProfile, zapStream } from '../../lib/zap';
+import { lastZapError, lastZapSplits, zapArticle, zapDVM, zapNote, zapProfile, zapStream } from '../../lib/zap';
 import { userName } from '../../stores/profile';
-import { toastZapFail, zapCustomOption, actions as tActions, placeholders as tPlaceholders, zapCustomAmount, toast as toastText } from '../../translations';
+import { toastZapFail, zapCustomOption, actions as tActions, placeholders as tPlaceholders, zapCustomAmount, toast as toastText, zapSplits as tZapSplits } from '../../translations';
 import { PrimalDVM, PrimalNote, PrimalUser, ZapOption } from '../../types/primal';
 import { debounce } from '../../utils';
 import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
@@ -142,7 +142,7 @@ const CustomZap: Component<{
           account.activeWalletType,
         );
 
-        handleZap(success);
+        handleZap(success, true);
       }, lottieDuration());
       return;
     }
@@ -215,7 +215,15 @@ const CustomZap: Component<{
     }
   };
 
-  const handleZap = (success = true) => {
+  const handleZap = (success = true, mayBeSplit = false) => {
+    const failedSplits = mayBeSplit ? lastZapSplits.filter(r => !r.success).length : 0;
+
+    if (success && failedSplits > 0) {
+      toast?.sendWarning(
+        `${intl.formatMessage(tZapSplits.partial, { paid: lastZapSplits.length - failedSplits, total: lastZapSplits.length })}\n${lastZapError}`,
+      );
+    }
+
     if (success) {
       props.onSuccess(selectedValue());
       return;
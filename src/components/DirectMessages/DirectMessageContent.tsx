@@ -17,6 +17,8 @@ import DirectMessageParsedContent from './DirectMessageParsedContent';
 import { linebreakRegex } from '../../constants';
 import Lnbc from '../Lnbc/Lnbc';
 import Cashu from '../Cashu/Cashu';
+import { useIntl } from '@cookbook/solid-intl';
+import { messages as tMessages } from '../../translations';
 
 const recentTime = 900;
 
@@ -30,6 +32,7 @@ const DirectMessageConversation: Component<{
   const account = useAccountContext();
   const app = useAppContext();
   const dms = useDMContext();
+  const intl = useIntl();
 
   const isFromPreviusSender = () => props.message.sender === props.previousMessage?.sender;
   const isLastRecent = () => props.message.created_at - (props.nextMessage?.created_at || 0) > recentTime;
@@ -39,6 +42,19 @@ const DirectMessageConversation: Component<{
 
   const isMe = () => props.message.sender === account?.publicKey;
 
+  const protocolBadge = () => {
+    const isPrivate = props.message.protocol === 'nip17';
+
+    return (
+      <span
+        class={`${styles.protocolBadge} ${isPrivate ? styles.private : ''}`}
+        title={intl.formatMessage(isPrivate ? tMessages.protocolNip17Hint : tMessages.protocolNip04Hint)}
+      >
+        {intl.formatMessage(isPrivate ? tMessages.protocolNip17 : tMessages.protocolNip04)}
+      </span>
+    );
+  };
+
   const getThreadStatus = () => {
     if (isFromPreviusSender() && isRecent()) return 'old';
 
@@ -59,6 +75,7 @@ const DirectMessageConversation: Component<{
             content={msg.content}
             sender={msg.sender}
           />
+          {protocolBadge()}
         </div>
       );
     };
@@ -72,7 +89,7 @@ const DirectMessageConversation: Component<{
     let sectionIndex = 0;
 
     tokens.forEach((t) => {
-      if (t.startsWith('lnbc') || t.startsWith('cashuA')) {
+      if (t.startsWith('lnbc') || t.startsWith('cashuA') || t.startsWith('cashuB')) {
         if (sections[sectionIndex]) sectionIndex++;
 
         sections[sectionIndex] = t;
@@ -108,6 +125,7 @@ const DirectMessageConversation: Component<{
                 content={section}
                 sender={msg.sender}
               />
+              {protocolBadge()}
             </div>
           }>
             <Match when={section.startsWith('lnbc')}>
@@ -117,15 +135,17 @@ const DirectMessageConversation: Component<{
                 title={date(msg.created_at || 0).date.toLocaleString()}
               >
                 <Lnbc lnbc={section} noBack={true} alternative={isMe()} />
+                {protocolBadge()}
               </div>
             </Match>
-            <Match when={section.startsWith('cashuA')}>
+            <Match when={section.startsWith('cashuA') || section.startsWith('cashuB')}>
               <div
                 class={`${styles.messageLn} ${messageClass()}`}
                 data-event-id={msg.id}
                 title={date(msg.created_at || 0).date.toLocaleString()}
               >
                 <Cashu token={section} noBack={true} alternative={isMe()} />
+                {protocolBadge()}
               </div>
             </Match>
           </Switch>
@@ -77,11 +77,12 @@ const DirectMessageComposer: Component<{
 
     const content = prepareMessageForSending(text);
 
-    const msg = {
+    const msg: DirectMessage = {
       id: `N_M_${props.messageCount}`,
       sender: account?.publicKey || '',
       content,
       created_at: Math.floor((new Date()).getTime() / 1000),
+      protocol: dms?.dmProtocol || 'nip04',
     };
 
     const success = await dms?.actions.sendMessage(props.pubkey, msg);
@@ -102,6 +103,10 @@ const DirectMessageComposer: Component<{
     }
   }
 
+  const toggleProtocol = () => {
+    dms?.actions.setDmProtocol(dms.dmProtocol === 'nip17' ? 'nip04' : 'nip17');
+  };
+
   const sendButtonClass = () => {
     return inputFocused() && message().trim().length > 0 ? styles.primaryButton : styles.secondaryButton;
   };
@@ -555,7 +560,7 @@ const DirectMessageComposer: Component<{
   };
 
   const msgHasCashu = (msg: DirectMessage) => {
-    const r =/(\s+|\r\n|\r|\n|^)cashuA[a-zA-Z0-9]+/;
+    const r =/(\s+|\r\n|\r|\n|^)cashu[AB][a-zA-Z0-9]+/;
     const test = r.test(msg.content);
 
     return test
@@ -602,6 +607,13 @@ const DirectMessageComposer: Component<{
           onInput={onInput}
         ></textarea>
       </div>
+      <button
+        class={`${styles.protocolToggle} ${dms?.dmProtocol === 'nip17' ? styles.private : ''}`}
+        onClick={toggleProtocol}
+        title={intl.formatMessage(dms?.dmProtocol === 'nip17' ? tMessages.protocolNip17Hint : tMessages.protocolNip04Hint)}
+      >
+        {intl.formatMessage(dms?.dmProtocol === 'nip17' ? tMessages.protocolNip17 : tMessages.protocolNip04)}
+      </button>
       <button
         class={sendButtonClass()}
         onClick={sendMessage}
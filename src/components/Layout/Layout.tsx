@@ -21,6 +21,12 @@ import { useSettingsContext } from '../../contexts/SettingsContext';
 import EnterPinModal from '../EnterPinModal/EnterPinModal';
 import CreateAccountModal from '../CreateAccountModal/CreateAccountModal';
 import LoginModal from '../LoginModal/LoginModal';
+import RemoteSignerPrompt from '../RemoteSignerPrompt/RemoteSignerPrompt';
+import RelayOnlyBanner from '../RelayOnlyBanner/RelayOnlyBanner';
+import RelayAuthPrompt from '../RelayAuthPrompt/RelayAuthPrompt';
+import MissedScheduledPrompt from '../ScheduledPosts/MissedScheduledPrompt';
+import RecurringZapReminder from '../RecurringZaps/RecurringZapReminder';
+import SparkUnlockPrompt from '../SparkSpendingGuard/SparkUnlockPrompt';
 import { unwrap } from 'solid-js/store';
 import { followWarning, forgotPin } from '../../translations';
 import { useIntl } from '@cookbook/solid-intl';
@@ -231,6 +237,12 @@ const Layout: Component<any> = (props) => {
           open={account?.showLogin}
           onAbort={() => account?.actions.setFlag('showLogin', false)}
         />
+        <RemoteSignerPrompt />
+        <RelayAuthPrompt />
+        <MissedScheduledPrompt />
+        <RecurringZapReminder />
+        <SparkUnlockPrompt />
+        <RelayOnlyBanner />
         <ConfirmModal
           open={account?.followData.openDialog}
           title={intl.formatMessage(followWarning.title)}
@@ -569,7 +569,7 @@ const ChatMessageComposer: Component<{
   };
 
   const msgHasCashu = (msg: DirectMessage) => {
-    const r =/(\s+|\r\n|\r|\n|^)cashuA[a-zA-Z0-9]+/;
+    const r =/(\s+|\r\n|\r|\n|^)cashu[AB][a-zA-Z0-9]+/;
     const test = r.test(msg.content);
 
     return test
@@ -15,8 +15,15 @@ import FollowButtonChat from '../FollowButton/FollowButtonChat';
 import { actions as tActions, toastZapProfile } from '../../translations';
 import { useIntl } from '@cookbook/solid-intl';
 import { useToastContext } from '../Toaster/Toaster';
+import { StreamModerationAction, streamTimeoutDuration } from '../../lib/streamModeration';
 
 
+export type ChatMessageModeration = {
+  isAuthorModerator: boolean,
+  isBanned: boolean,
+  isPinned: boolean,
+};
+
 export type ChatMessageConfig = {
   author: PrimalUser | undefined,
   message: NostrLiveChat,
@@ -29,6 +36,8 @@ const ChatMessageDetails: Component<{
   config: ChatMessageConfig | undefined,
   onClose: () => void,
   onMute: (pubkey: string, unmute?: boolean) => void,
+  moderation?: ChatMessageModeration,
+  onModerate?: (action: StreamModerationAction) => void,
 }> = (props) => {
   const account = useAccountContext();
   const app = useAppContext();
@@ -217,6 +226,26 @@ const ChatMessageDetails: Component<{
             <div class={styles.iconReport}>b</div>
             <div>Report message</div>
           </button>
+          <Show when={props.moderation}>
+            {moderation => (
+              <>
+                <button onClick={() => props.onModerate?.({ type: 'pin', id: moderation().isPinned ? undefined : props.config?.message.id })}>
+                  {moderation().isPinned ? 'Unpin' : 'Pin message'}
+                </button>
+                <Show when={!moderation().isAuthorModerator}>
+                  <button onClick={() => props.onModerate?.({ type: 'hide', id: props.config?.message.id || '', hidden: true })}>
+                    Hide message
+                  </button>
+                  <button onClick={() => props.onModerate?.({ type: 'timeout', pubkey: props.config?.message.pubkey || '', duration: streamTimeoutDuration })}>
+                    Time out 10 min
+                  </button>
+                  <button onClick={() => props.onModerate?.({ type: 'ban', pubkey: props.config?.message.pubkey || '', banned: !moderation().isBanned })}>
+                    {moderation().isBanned ? 'Unban' : 'Ban'}
+                  </button>
+                </Show>
+              </>
+            )}
+          </Show>
         </div>
       </div>
 
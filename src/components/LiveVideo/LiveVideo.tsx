@@ -1,4 +1,4 @@
-import { Component, createEffect, createSignal, Match, on, onMount, Show, Switch } from 'solid-js';
+import { Component, createEffect, createSignal, For, Match, on, onMount, Show, Switch } from 'solid-js';
 import { useMediaContext } from '../../contexts/MediaContext';
 import { hookForDev } from '../../lib/devTools';
 import Hls from 'hls.js';
@@ -8,12 +8,16 @@ import { StreamingData } from '../../lib/streaming';
 import { PrimalUser } from '../../types/primal';
 import { useAppContext } from '../../contexts/AppContext';
 import { logInfo } from '../../lib/logger';
+import { ReplayChapter } from '../../lib/streamReplay';
+import { humanizeNumber } from '../../lib/stats';
 
 const LiveVideo: Component<{
   src: string,
   stream: StreamingData,
   streamAuthor: PrimalUser | undefined,
   onRemove: () => void,
+  chapters?: ReplayChapter[],
+  onReplayTime?: (time: number) => void,
 }> = (props) => {
   const app = useAppContext();
 
@@ -69,6 +73,34 @@ const LiveVideo: Component<{
 
   const [showReplay, setShowReplay] = createSignal(false);
 
+  let replayMedia: HTMLMediaElement | undefined;
+
+  const [replayDuration, setReplayDuration] = createSignal(0);
+
+  // Reports the playback position of the recording so the chat can follow it
+  const onReplayTimeUpdate = (e: Event) => {
+    if (!showReplay()) return;
+
+    replayMedia = e.currentTarget as HTMLMediaElement;
+
+    setReplayDuration(() => isFinite(replayMedia?.duration || 0) ? replayMedia?.duration || 0 : 0);
+    props.onReplayTime && props.onReplayTime(replayMedia.currentTime);
+  };
+
+  const seekToChapter = (chapter: ReplayChapter) => {
+    if (!replayMedia) return;
+
+    replayMedia.currentTime = chapter.offset;
+  };
+
+  const formatOffset = (offset: number) => {
+    const h = Math.floor(offset / 3_600);
+    const m = Math.floor(offset % 3_600 / 60);
+    const s = Math.floor(offset % 60);
+
+    return [h, m, s].map(n => `${n}`.padStart(2, '0')).join(':');
+  };
+
   return (
     <div class={styles.liveVideo} >
       <Switch
@@ -102,6 +134,7 @@ const LiveVideo: Component<{
                   onloadeddata={() => {
                     setIsMediaLoaded(true);
                   }}
+                  ontimeupdate={onReplayTimeUpdate}
                 ></videojs-video>
               }
             >
@@ -146,11 +179,28 @@ const LiveVideo: Component<{
                 onloadeddata={() => {
                   logInfo('HLS data loaded')
                 }}
+                ontimeupdate={onReplayTimeUpdate}
               ></hls-video>
             </Show>
             <media-loading-indicator slot="centered-chrome" noautohide></media-loading-indicator>
             <media-control-bar class={styles.controllBar}>
               <div>
+                <Show when={showReplay() && replayDuration() > 0 && props.chapters?.length}>
+                  <div class={styles.chapters}>
+                    <For each={props.chapters}>
+                      {chapter => (
+                        <button
+                          class={styles.chapter}
+                          style={`left: ${Math.min(100, chapter.offset / replayDuration() * 100)}%;`}
+                          title={`${formatOffset(chapter.offset)} · ${humanizeNumber(chapter.sats)} sats in ${chapter.zaps} zaps`}
+                          onClick={() => seekToChapter(chapter)}
+                        >
+                          <div class={styles.chapterIcon}></div>
+                        </button>
+                      )}
+                    </For>
+                  </div>
+                </Show>
                 <Show
                   when={isLive()}
                   fallback={
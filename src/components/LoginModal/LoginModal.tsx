@@ -1,5 +1,5 @@
 import { useIntl } from '@cookbook/solid-intl';
-import { Component, createEffect, createSignal, Match, Switch } from 'solid-js';
+import { Component, createEffect, createSignal, Match, on, onCleanup, Show, Switch } from 'solid-js';
 import { useAccountContext } from '../../contexts/AccountContext';
 import Modal from '../Modal/Modal';
 
@@ -13,6 +13,9 @@ import TextInput from '../TextInput/TextInput';
 import { nip19 } from '../../lib/nTools';
 import { storeSec } from '../../lib/localStore';
 import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
+import QrCode from '../QrCode/QrCode';
+import { connectWithBunkerUri, listenForNostrConnect, parseBunkerUri, remoteSignerStatus } from '../../lib/remoteSigner';
+import { logError } from '../../lib/logger';
 
 const LoginModal: Component<{
   id?: string,
@@ -23,8 +26,13 @@ const LoginModal: Component<{
   const intl = useIntl();
   const account = useAccountContext();
 
-  const [step, setStep] = createSignal<'login' | 'pin' | 'none'>('login')
+  const [step, setStep] = createSignal<'login' | 'pin' | 'remote' | 'none'>('login')
   const [enteredKey, setEnteredKey] = createSignal('');
+  const [bunkerUri, setBunkerUri] = createSignal('');
+  const [nostrConnectUri, setNostrConnectUri] = createSignal('');
+  const [isConnecting, setIsConnecting] = createSignal(false);
+
+  let cancelNostrConnect: (() => void) | undefined;
 
   let loginInput: HTMLInputElement | undefined;
 
@@ -43,11 +51,82 @@ const LoginModal: Component<{
   }
 
   const onAbort = () => {
+    stopNostrConnect();
     setStep(() => 'login');
     setEnteredKey('');
+    setBunkerUri('');
     props.onAbort && props.onAbort();
   }
 
+  const onRemoteSignerConnected = (pubkey: string) => {
+    setIsConnecting(false);
+    account?.actions.setRemoteSignerLogin(pubkey);
+    onAbort();
+  };
+
+  const startNostrConnect = () => {
+    stopNostrConnect();
+
+    const { uri, connected, cancel } = listenForNostrConnect();
+
+    cancelNostrConnect = cancel;
+    setNostrConnectUri(uri);
+
+    connected.then(onRemoteSignerConnected).catch((e) => {
+      logError('Failed to pair with remote signer: ', e);
+    });
+  };
+
+  const stopNostrConnect = () => {
+    cancelNostrConnect && cancelNostrConnect();
+    cancelNostrConnect = undefined;
+    setNostrConnectUri('');
+  };
+
+  const onBunkerLogin = async () => {
+    if (!isValidBunkerUri() || isConnecting()) return;
+
+    setIsConnecting(true);
+
+    try {
+      stopNostrConnect();
+      const pubkey = await connectWithBunkerUri(bunkerUri());
+      onRemoteSignerConnected(pubkey);
+    } catch (e) {
+      logError('Failed to login with bunker: ', e);
+      setIsConnecting(false);
+    }
+  };
+
+  const isValidBunkerUri = () => !!parseBunkerUri(bunkerUri());
+
+  const remoteStatusLabel = () => {
+    const status = remoteSignerStatus();
+
+    switch (status.state) {
+      case 'connecting':
+      case 'pending':
+        return intl.formatMessage(tLogin.remoteWaiting);
+      case 'timeout':
+        return intl.formatMessage(tLogin.remoteTimeout);
+      case 'error':
+        return intl.formatMessage(tLogin.remoteError, { error: status.error || '' });
+      default:
+        return '';
+    }
+  };
+
+  createEffect(on(step, (s) => {
+    if (s === 'remote' && props.open) {
+      startNostrConnect();
+    }
+    else {
+      stopNostrConnect();
+    }
+  }));
+
+  onCleanup(stopNostrConnect);
+
   const isValidNsec: () => boolean = () => {
     const key = enteredKey();
 
@@ -80,6 +159,12 @@ const LoginModal: Component<{
     }
   };
 
+  const onBunkerKeyUp = (e: KeyboardEvent) => {
+    if (e.code === 'Enter') {
+      onBunkerLogin();
+    }
+  };
+
   return (
     <Switch>
       <Match when={step() === 'login'}>
@@ -116,6 +201,71 @@ const LoginModal: Component<{
                 {intl.formatMessage(tActions.login)}
               </ButtonPrimary>
             </div>
+            <button
+              class={styles.alternative}
+              onClick={() => setStep(() => 'remote')}
+            >
+              {intl.formatMessage(tLogin.useRemoteSigner)}
+            </button>
+          </div>
+        </AdvancedSearchDialog>
+      </Match>
+
+      <Match when={step() === 'remote'}>
+        <AdvancedSearchDialog
+          open={props.open}
+          setOpen={(isOpen: boolean) => !isOpen && onAbort()}
+          title={
+            <div class={styles.title}>
+              {intl.formatMessage(tLogin.remoteTitle)}
+            </div>
+          }
+          triggerClass={styles.hidden}
+        >
+          <div id={props.id} class={styles.modal}>
+            <div class={styles.description}>
+              {intl.formatMessage(tLogin.remoteDescription)}
+            </div>
+            <div class={styles.inputs}>
+              <TextInput
+                value={bunkerUri()}
+                placeholder="bunker://..."
+                onKeyUp={onBunkerKeyUp}
+                onChange={setBunkerUri}
+                validationState={bunkerUri().length === 0 || isValidBunkerUri() ? 'valid' : 'invalid'}
+                errorMessage={intl.formatMessage(tLogin.invalidBunker)}
+              />
+            </div>
+            <div class={styles.actions}>
+              <ButtonPrimary
+                onClick={onBunkerLogin}
+                disabled={!isValidBunkerUri() || isConnecting()}
+              >
+                {intl.formatMessage(tActions.login)}
+              </ButtonPrimary>
+            </div>
+
+            <Show when={nostrConnectUri().length > 0}>
+              <div class={styles.description}>
+                {intl.formatMessage(tLogin.remoteScan)}
+              </div>
+              <div class={styles.qrCode}>
+                <QrCode data={nostrConnectUri()} />
+              </div>
+            </Show>
+
+            <Show when={remoteStatusLabel().length > 0}>
+              <div class={styles.remoteStatus}>
+                {remoteStatusLabel()}
+              </div>
+            </Show>
+
+            <button
+              class={styles.alternative}
+              onClick={() => setStep(() => 'login')}
+            >
+              {intl.formatMessage(tLogin.useNsec)}
+            </button>
           </div>
         </AdvancedSearchDialog>
       </Match>
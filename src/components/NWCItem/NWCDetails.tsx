@@ -0,0 +1,184 @@
+import { Component, For, Show, createEffect, createSignal, on, onCleanup } from 'solid-js';
+import styles from './NWCItem.module.scss';
+
+import { useIntl } from '@cookbook/solid-intl';
+import { nwcWallet as t } from '../../translations';
+import { useAccountContext } from '../../contexts/AccountContext';
+import { longDate } from '../../lib/dates';
+import { hookForDev } from '../../lib/devTools';
+import { logWarning } from '../../lib/logger';
+import {
+  nwcBudgets,
+  nwcBudgetSpent,
+  nwcConfigOf,
+  nwcConnections,
+  refreshNWCConnection,
+  removeNWCBudget,
+  setNWCBudget,
+  watchNWCNotifications,
+} from '../../lib/nwc';
+import { NWCBudgetPeriod, NWCMethod } from '../../types/primal';
+import ButtonLink from '../Buttons/ButtonLink';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+
+const budgetPeriods: NWCBudgetPeriod[] = ['daily', 'weekly', 'monthly', 'never'];
+
+const NWCDetails: Component<{ name: string, nwcEnc: string }> = (props) => {
+  const intl = useIntl();
+  const account = useAccountContext();
+
+  const [isOpen, setIsOpen] = createSignal(false);
+  const [limit, setLimit] = createSignal('');
+  const [period, setPeriod] = createSignal<NWCBudgetPeriod>('daily');
+
+  let stopWatching = () => {};
+
+  const state = () => nwcConnections[props.name];
+
+  const supports = (method: NWCMethod) =>
+    (state()?.capabilities?.methods || []).includes(method);
+
+  const refresh = async () => {
+    const pubkey = account?.publicKey;
+
+    if (!pubkey) return;
+
+    stopWatching();
+
+    try {
+      const config = await nwcConfigOf(pubkey, props.nwcEnc);
+
+      await refreshNWCConnection(props.name, config);
+
+      if (isOpen()) {
+        stopWatching = watchNWCNotifications(props.name, config);
+      }
+    } catch (e) {
+      logWarning('Failed to open NWC connection: ', props.name, e);
+    }
+  };
+
+  createEffect(on(isOpen, (open) => {
+    if (open) {
+      const budget = nwcBudgets[props.name];
+
+      setLimit(budget ? `${budget.limit}` : '');
+      setPeriod(budget?.period || 'daily');
+
+      refresh();
+      return;
+    }
+
+    stopWatching();
+  }));
+
+  onCleanup(() => stopWatching());
+
+  const saveBudget = () => {
+    const amount = parseInt(limit());
+
+    if (isNaN(amount) || amount <= 0) {
+      removeNWCBudget(props.name);
+      setLimit('');
+      return;
+    }
+
+    setNWCBudget(props.name, amount, period());
+  };
+
+  const transactionAmount = (amount: number) => Math.floor(amount / 1_000).toLocaleString();
+
+  return (
+    <div class={styles.nwcDetails}>
+      <ButtonLink onClick={() => setIsOpen(open => !open)}>
+        {intl.formatMessage(isOpen() ? t.hideDetails : t.showDetails)}
+      </ButtonLink>
+
+      <Show when={isOpen()}>
+        <Show when={state()?.error}>
+          <div class={styles.detailsError}>
+            {intl.formatMessage(t.failed, { reason: state()?.error || '' })}
+          </div>
+        </Show>
+
+        <div class={styles.detailsRow}>
+          <div class={styles.detailsCaption}>{intl.formatMessage(t.balance)}</div>
+          <div>
+            <Show
+              when={state()?.balance !== undefined}
+              fallback={intl.formatMessage(supports('get_balance') || state()?.isLoading ? t.loading : t.notSupported)}
+            >
+              {intl.formatMessage(t.sats, { amount: state()?.balance || 0 })}
+            </Show>
+          </div>
+          <ButtonLink onClick={refresh} disabled={state()?.isLoading}>
+            {intl.formatMessage(t.refresh)}
+          </ButtonLink>
+        </div>
+
+        <div class={styles.detailsRow}>
+          <div class={styles.detailsCaption}>{intl.formatMessage(t.capabilities)}</div>
+          <div class={styles.capabilities}>
+            <For each={[ ...(state()?.capabilities?.methods || []), ...(state()?.capabilities?.notifications || []) ]}>
+              {capability => <div class={styles.capability}>{capability}</div>}
+            </For>
+          </div>
+        </div>
+
+        <div class={styles.detailsRow}>
+          <div class={styles.detailsCaption}>{intl.formatMessage(t.budget)}</div>
+          <input
+            class={styles.budgetInput}
+            type="number"
+            min={0}
+            placeholder={intl.formatMessage(t.noBudget)}
+            value={limit()}
+            onInput={(e) => setLimit(e.currentTarget.value)}
+          />
+          <select
+            class={styles.budgetInput}
+            value={period()}
+            onChange={(e) => setPeriod(e.currentTarget.value as NWCBudgetPeriod)}
+          >
+            <For each={budgetPeriods}>
+              {p => <option value={p}>{intl.formatMessage(t.periods[p])}</option>}
+            </For>
+          </select>
+          <ButtonSecondary onClick={saveBudget} shrink={true}>
+            {intl.formatMessage(t.saveBudget)}
+          </ButtonSecondary>
+        </div>
+        <Show when={nwcBudgets[props.name]}>
+          <div class={styles.detailsNote}>
+            {intl.formatMessage(t.spent, {
+              spent: nwcBudgetSpent(props.name),
+              limit: nwcBudgets[props.name]?.limit || 0,
+            })}
+          </div>
+        </Show>
+
+        <Show when={supports('list_transactions')}>
+          <div class={styles.detailsCaption}>{intl.formatMessage(t.history)}</div>
+          <Show
+            when={(state()?.transactions || []).length > 0}
+            fallback={<div class={styles.detailsNote}>{intl.formatMessage(t.noHistory)}</div>}
+          >
+            <For each={state()?.transactions}>
+              {transaction => (
+                <div class={styles.transaction}>
+                  <div class={styles.transactionAmount} data-type={transaction.type}>
+                    {transaction.type === 'incoming' ? '+' : '-'}{transactionAmount(transaction.amount)}
+                  </div>
+                  <div class={styles.transactionDesc}>{transaction.description || ''}</div>
+                  <div class={styles.detailsNote}>{longDate(transaction.settled_at || transaction.created_at)}</div>
+                </div>
+              )}
+            </For>
+          </Show>
+        </Show>
+      </Show>
+    </div>
+  );
+};
+
+export default hookForDev(NWCDetails);
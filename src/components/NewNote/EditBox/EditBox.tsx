@@ -3,7 +3,7 @@ import { Router, useLocation } from "@solidjs/router";
 import { nip19 } from "../../../lib/nTools";
 import { Component, createEffect, createSignal, For, Match, onCleanup, onMount, Show, Switch } from "solid-js";
 import { createStore, reconcile, unwrap } from "solid-js/store";
-import { noteRegex, profileRegex, Kind, editMentionRegex, emojiSearchLimit, profileRegexG, linebreakRegex, addrRegex, addrRegexG, eventRegexG, profileRegexEdit, profileRegexEditG } from "../../../constants";
+import { day, pollMinOptions, noteRegex, profileRegex, Kind, editMentionRegex, emojiSearchLimit, profileRegexG, linebreakRegex, addrRegex, addrRegexG, eventRegexG, profileRegexEdit, profileRegexEditG } from "../../../constants";
 import { useAccountContext } from "../../../contexts/AccountContext";
 import { useSearchContext } from "../../../contexts/SearchContext";
 import { TranslatorProvider } from "../../../contexts/TranslatorContext";
@@ -13,7 +13,7 @@ import { getUserProfiles, getUsersRelayInfo } from "../../../lib/profile";
 import { subsTo } from "../../../sockets";
 import { convertToArticles, convertToLiveEvents, convertToNotes, referencesToTags } from "../../../stores/note";
 import { convertToUser, emptyUser, nip05Verification, truncateNpub, userName } from "../../../stores/profile";
-import { EmojiOption, FeedPage, NostrMentionContent, NostrNoteContent, NostrStatsContent, NostrUserContent, PrimalArticle, PrimalNote, PrimalUser, SendNoteResult } from "../../../types/primal";
+import { EmojiOption, FeedPage, NostrMentionContent, NostrNoteContent, NostrStatsContent, NostrUserContent, PollDraft, PrimalArticle, PrimalNote, MediaMeta, PrimalUser, SendNoteResult, UploadJob, ZapSplit } from "../../../types/primal";
 import { debounce, getScreenCordinates, isVisibleInContainer, replaceAsync, uuidv4 } from "../../../utils";
 import Avatar from "../../Avatar/Avatar";
 import EmbeddedNote from "../../EmbeddedNote/EmbeddedNote";
@@ -31,6 +31,9 @@ import {
   search as tSearch,
   actions as tActions,
   upload as tUpload,
+  poll as tPoll,
+  scheduled as tScheduled,
+  zapSplits as tZapSplits,
 } from "../../../translations";
 import { useMediaContext } from "../../../contexts/MediaContext";
 import { hookForDev } from "../../../lib/devTools";
@@ -40,9 +43,9 @@ import { useProfileContext } from "../../../contexts/ProfileContext";
 import ButtonGhost from "../../Buttons/ButtonGhost";
 import EmojiPickPopover from "../../EmojiPickModal/EmojiPickPopover";
 import ConfirmAlternativeModal from "../../ConfirmModal/ConfirmAlternativeModal";
-import { readNoteDraft, readNoteDraftUserRefs, readSecFromStorage, saveNoteDraft, saveNoteDraftUserRefs } from "../../../lib/localStore";
+import { readMediaProcessing, readNoteDraft, readNoteDraftUserRefs, readSecFromStorage, saveNoteDraft, saveNoteDraftUserRefs } from "../../../lib/localStore";
 import Uploader from "../../Uploader/Uploader";
-import { logError } from "../../../lib/logger";
+import { logError, logWarning } from "../../../lib/logger";
 import Lnbc from "../../Lnbc/Lnbc";
 import { decodeIdentifier } from "../../../lib/keys";
 import { useSettingsContext } from "../../../contexts/SettingsContext";
@@ -50,11 +53,20 @@ import SimpleArticlePreview from "../../ArticlePreview/SimpleArticlePreview";
 import ArticleHighlight from "../../ArticleHighlight/ArticleHighlight";
 import DOMPurify from "dompurify";
 import { useAppContext } from "../../../contexts/AppContext";
-import UploaderBlossom from "../../Uploader/UploaderBlossom";
+import UploadQueue from "../../Uploader/UploadQueue";
+import { enqueueUpload, hasPendingUploads, removeUpload } from "../../../lib/uploadManager";
+import { imetaTag, processMedia } from "../../../lib/mediaProcessing";
 import ParsedNote from "../../ParsedNote/ParsedNote";
 import LiveEventPreview from "../../LiveVideo/LiveEventPreview";
 import { StreamingData, getStreamingEvent } from "../../../lib/streaming";
 import { fetchUserProfile } from "../../../handleFeeds";
+import PollEditor from "../../PollEditor/PollEditor";
+import { sendPoll } from "../../../lib/polls";
+import SchedulePicker, { isValidScheduleTime } from "../../SchedulePicker/SchedulePicker";
+import { schedulePost } from "../../../lib/scheduledPosts";
+import { longDate } from "../../../lib/dates";
+import ZapSplitEditor from "../../ZapSplitEditor/ZapSplitEditor";
+import { zapSplitTags } from "../../../lib/zap";
 
 type AutoSizedTextArea = HTMLTextAreaElement & { _baseScrollHeight: number };
 
@@ -116,7 +128,23 @@ const EditBox: Component<{
 
   const [isConfirmEditorClose, setConfirmEditorClose] = createSignal(false);
 
-  const [fileToUpload, setFileToUpload] = createSignal<File | undefined>();
+  // Uploads belong to the draft they were added to, so they find their way back after a reload
+  const uploadOwner = () => `note_${account?.publicKey || ''}_${props.replyToNote?.noteId || ''}`;
+
+  const [processingCount, setProcessingCount] = createSignal(0);
+
+  const isUploading = () => processingCount() > 0 || hasPendingUploads(uploadOwner());
+
+  // imeta values of uploaded files by url, and poster frames by the id of their video's upload
+  const [uploadedMedia, setUploadedMedia] = createStore<Record<string, { jobId: string, meta?: MediaMeta }>>({});
+  const [posterUrls, setPosterUrls] = createStore<Record<string, string>>({});
+
+  const [pollDraft, setPollDraft] = createSignal<PollDraft | undefined>();
+
+  const [zapSplitDraft, setZapSplitDraft] = createSignal<ZapSplit[] | undefined>();
+
+  const [isScheduling, setIsScheduling] = createSignal(false);
+  const [publishAt, setPublishAt] = createSignal<number | undefined>();
 
   const [relayHints, setRelayHints] = createStore<Record<string, string>>({});
 
@@ -133,7 +161,7 @@ const EditBox: Component<{
   };
 
   const noteHasCashu = (text: string) => {
-    const r =/(\s+|\r\n|\r|\n|^)cashuA[a-zA-Z0-9]+/;
+    const r =/(\s+|\r\n|\r|\n|^)cashu[AB][a-zA-Z0-9]+/;
     const test = r.test(text);
 
     return test
@@ -265,10 +293,6 @@ const EditBox: Component<{
       return false;
     }
 
-    if (fileToUpload()) {
-      return;
-    }
-
     const previousChar = textArea.value[textArea.selectionStart - 1];
 
     const mentionSeparators = ['Enter', 'Space', 'Comma', 'Tab'];
@@ -500,10 +524,7 @@ const EditBox: Component<{
 
     setIsDroppable(false);
 
-    let draggedData = e.dataTransfer;
-    let file = draggedData?.files[0];
-
-    file && isSupportedFileType(file) && setFileToUpload(file);
+    queueUploads(e.dataTransfer?.files);
 
   };
 
@@ -533,9 +554,7 @@ const EditBox: Component<{
   const onPaste = (e:ClipboardEvent) => {
     if (e.clipboardData?.files && e.clipboardData.files.length > 0) {
       e.preventDefault();
-      const file = e.clipboardData.files[0];
-
-      file && isSupportedFileType(file) && setFileToUpload(file);
+      queueUploads(e.clipboardData.files);
       return false;
     }
   }
@@ -659,8 +678,6 @@ const EditBox: Component<{
     if (fileUpload) {
       fileUpload.value = '';
     }
-
-    setFileToUpload(undefined);
   };
 
   const clearEditor = () => {
@@ -672,6 +689,12 @@ const EditBox: Component<{
     setEmojiInput(false);
     setEmojiQuery('')
     setEmojiResults(() => []);
+    setPollDraft(undefined);
+    setZapSplitDraft(undefined);
+    setIsScheduling(false);
+    setPublishAt(undefined);
+    setUploadedMedia(reconcile({}));
+    setPosterUrls(reconcile({}));
 
     resetUpload();
 
@@ -705,7 +728,7 @@ const EditBox: Component<{
   const [isPostingInProgress, setIsPostingInProgress] = createSignal(false);
 
   const postNote = async () => {
-    if (!account || !account.hasPublicKey() || fileToUpload()) {
+    if (!account || !account.hasPublicKey() || isUploading()) {
       return;
     }
 
@@ -730,6 +753,25 @@ const EditBox: Component<{
       return;
     }
 
+    const poll = pollDraft();
+
+    if (poll && poll.options.filter(o => o.trim().length > 0).length < pollMinOptions) {
+      toast?.sendWarning(intl.formatMessage(tPoll.invalid));
+      return;
+    }
+
+    if (isScheduling() && !isValidScheduleTime(publishAt())) {
+      toast?.sendWarning(intl.formatMessage(tScheduled.tooSoon));
+      return;
+    }
+
+    const splits = zapSplitDraft();
+
+    if (splits && splits.length > 0 && !splits.some(s => s.weight > 0)) {
+      toast?.sendWarning(intl.formatMessage(tZapSplits.noWeight));
+      return;
+    }
+
     let userRelays = await (new Promise<Record<string, string[]>>(resolve => {
       const uids = Object.values(userRefs).map(u => u.pubkey);
       const subId = `users_relays_${APP_ID}`;
@@ -892,9 +934,47 @@ const EditBox: Component<{
       });
       tags = [...tags, ...relayTags];
 
+      if (splits) {
+        tags = [...tags, ...zapSplitTags(splits, account.activeRelays[0]?.url)];
+      }
+
+      Object.entries(uploadedMedia).forEach(([url, { jobId, meta }]) => {
+        if (meta && messageToSend.includes(url)) {
+          tags.push(imetaTag(url, meta, posterUrls[jobId]));
+        }
+      });
+
       setIsPostingInProgress(true);
 
-      const { success, reasons, note } = await sendNote(messageToSend, account?.proxyThroughPrimal || false, account.activeRelays, tags, account.relaySettings);
+      const time = publishAt();
+
+      if (isScheduling() && time) {
+        const { success } = await schedulePost(
+          { kind: Kind.Text, content: messageToSend, tags, created_at: 0 },
+          time,
+          {
+            relays: account.activeRelays,
+            relaySettings: account.relaySettings,
+            proxy: account.proxyThroughPrimal || false,
+          },
+        );
+
+        setIsPostingInProgress(false);
+
+        if (!success) {
+          toast?.sendWarning(intl.formatMessage(tScheduled.failed));
+          return;
+        }
+
+        toast?.sendSuccess(intl.formatMessage(tScheduled.success, { date: longDate(Math.floor(time / 1_000)) }));
+        saveNoteDraft(account.publicKey, '', rep?.noteId);
+        clearEditor();
+        return;
+      }
+
+      const { success, reasons, note } = poll ?
+        await sendPoll(messageToSend, poll, account.publicKey || '', account?.proxyThroughPrimal || false, account.activeRelays, tags, account.relaySettings) :
+        await sendNote(messageToSend, account?.proxyThroughPrimal || false, account.activeRelays, tags, account.relaySettings);
 
       if (success) {
 
@@ -1459,11 +1539,6 @@ const EditBox: Component<{
   };
 
   const onInput = (e: InputEvent) => {
-    if (fileToUpload()) {
-      e.preventDefault();
-      return false;
-    }
-
     if (textArea) {
       setMessage(textArea.value);
     }
@@ -1634,12 +1709,74 @@ const EditBox: Component<{
       return;
     }
 
-    const file = fileUpload.files ? fileUpload.files[0] : null;
+    queueUploads(fileUpload.files);
+    resetUpload();
+  }
 
-    // @ts-ignore fileUpload.value assignment
-    file && isSupportedFileType(file) && setFileToUpload(file);
+  let locationPrompt = Promise.resolve();
 
-  }
+  // Asked one file at a time, the confirm modal holds a single question
+  const confirmUploadWithLocation = (file: File) => {
+    const answer = locationPrompt.then(() => new Promise<boolean>((resolve) => {
+      if (!app) {
+        resolve(false);
+        return;
+      }
+
+      const answerWith = (upload: boolean) => () => {
+        app.actions.closeConfirmModal();
+        resolve(upload);
+      };
+
+      app.actions.openConfirmModal({
+        title: intl.formatMessage(tUpload.locationNotRemoved, { file: file.name }),
+        description: intl.formatMessage(tUpload.locationNotRemovedPrompt),
+        confirmLabel: intl.formatMessage(tUpload.uploadAnyway),
+        abortLabel: intl.formatMessage(tUpload.skipFile),
+        onConfirm: answerWith(true),
+        onAbort: answerWith(false),
+      });
+    }));
+
+    locationPrompt = answer.then(() => {});
+
+    return answer;
+  };
+
+  const queueUploads = (files: FileList | null | undefined) => {
+    if (!files || !account?.publicKey) return;
+
+    const options = {
+      owner: uploadOwner(),
+      uploader: account.publicKey,
+      servers: account.blossomServers,
+      membershipTier: account.membershipStatus.tier,
+    };
+
+    const settings = readMediaProcessing(account.publicKey);
+
+    Array.from(files).filter(isSupportedFileType).forEach(async (file) => {
+      setProcessingCount(c => c + 1);
+
+      try {
+        const processed = await processMedia(file, settings);
+        const id = enqueueUpload(processed.file, { ...options, meta: processed.meta });
+
+        if (processed.poster) {
+          enqueueUpload(processed.poster, { ...options, meta: processed.posterMeta, posterFor: id });
+        }
+      } catch (e) {
+        logWarning('Failed to process media: ', file.name, e);
+
+        // The original may still hold the location the user wanted removed
+        const upload = settings.stripLocation ? await confirmUploadWithLocation(file) : true;
+
+        upload && enqueueUpload(file, options);
+      } finally {
+        setProcessingCount(c => c - 1);
+      }
+    });
+  };
 
   const [isPickingEmoji, setIsPickingEmoji] = createSignal(false);
 
@@ -1764,7 +1901,6 @@ const EditBox: Component<{
             onInput={onInput}
             ref={textArea}
             onPaste={onPaste}
-            readOnly={fileToUpload() !== undefined}
           >
           </textarea>
           <Show when={props.context}>
@@ -1783,29 +1919,31 @@ const EditBox: Component<{
         >
           {renderMessage()}
           <div class={styles.uploader}>
-            <UploaderBlossom
-              publicKey={account?.publicKey}
-              nip05={account?.activeUser?.nip05}
-              file={fileToUpload()}
-              onFail={() => {
-                toast?.sendWarning(intl.formatMessage(tUpload.fail, {
-                  file: fileToUpload()?.name,
-                }));
-                resetUpload();
-              }}
-              onRefuse={(reason: string) => {
-                if (reason === 'file_too_big_100') {
+            <UploadQueue
+              owner={uploadOwner()}
+              onFail={(job: UploadJob) => {
+                if (job.error === 'file_too_big_100') {
                   toast?.sendWarning(intl.formatMessage(tUpload.fileTooBigRegular));
+                  removeUpload(job.id);
+                  return;
                 }
-                if (reason === 'file_too_big_1024') {
+                if (job.error === 'file_too_big_1024') {
                   toast?.sendWarning(intl.formatMessage(tUpload.fileTooBigPremium));
+                  removeUpload(job.id);
+                  return;
                 }
-                resetUpload();
-              }}
-              onCancel={() => {
-                resetUpload();
+                toast?.sendWarning(intl.formatMessage(tUpload.fail, {
+                  file: job.name,
+                }));
               }}
-              onSuccsess={(url:string) => {
+              onSuccess={(url: string, job: UploadJob) => {
+                if (job.posterFor) {
+                  setPosterUrls(job.posterFor, url);
+                  return;
+                }
+
+                setUploadedMedia(url, { jobId: job.id, meta: job.meta });
+
                 insertAtCursor(` ${url} `);
 
                 onExpandableTextareaInput(new InputEvent('input'));
@@ -1851,6 +1989,35 @@ const EditBox: Component<{
       </div>
 
 
+      <Show when={pollDraft()}>
+        {(draft) => (
+          <PollEditor
+            draft={draft()}
+            onChange={setPollDraft}
+            onRemove={() => setPollDraft(undefined)}
+          />
+        )}
+      </Show>
+
+      <Show when={zapSplitDraft()}>
+        {(splits) => (
+          <ZapSplitEditor
+            splits={splits()}
+            onChange={setZapSplitDraft}
+            onRemove={() => setZapSplitDraft(undefined)}
+          />
+        )}
+      </Show>
+
+      <Show when={isScheduling()}>
+        <div class={styles.schedule}>
+          <SchedulePicker
+            publishAt={publishAt()}
+            onChange={setPublishAt}
+          />
+        </div>
+      </Show>
+
       <Show when={isMentioning()}>
         <div
           class={styles.searchSuggestions}
@@ -1922,6 +2089,7 @@ const EditBox: Component<{
               onChange={onUpload}
               ref={fileUpload}
               hidden={true}
+              multiple={true}
               accept="image/*,video/*,audio/*"
             />
             <label for={`upload-${instanceId}`} class={`attach_icon ${styles.attachIcon}`}>
@@ -1951,13 +2119,57 @@ const EditBox: Component<{
               />
             </Show>
           </div>
+          <Show when={!pollDraft()}>
+            <div class={styles.editorOption}>
+              <ButtonGhost
+                highlight={isScheduling()}
+                onClick={() => setIsScheduling(v => !v)}
+              >
+                <div
+                  title={intl.formatMessage(tScheduled.scheduleLater)}
+                  class={`schedule_icon ${styles.scheduleIcon} ${isScheduling() ? styles.highlight : ''}`}
+                ></div>
+              </ButtonGhost>
+            </div>
+          </Show>
+          <Show when={!props.replyToNote && !isScheduling()}>
+            <div class={styles.editorOption}>
+              <ButtonGhost
+                highlight={pollDraft() !== undefined}
+                onClick={() => {
+                  setPollDraft(p => p ? undefined : {
+                    options: ['', ''],
+                    type: 'singlechoice',
+                    duration: day,
+                    zapWeighted: false,
+                  });
+                }}>
+                <div
+                  title={intl.formatMessage(tPoll.add)}
+                  class={`poll_icon ${styles.pollIcon} ${pollDraft() ? styles.highlight : ''}`}
+                ></div>
+              </ButtonGhost>
+            </div>
+          </Show>
+          <div class={styles.editorOption}>
+            <ButtonGhost
+              highlight={zapSplitDraft() !== undefined}
+              onClick={() => {
+                setZapSplitDraft(s => s ? undefined : [{ pubkey: account?.publicKey || '', weight: 1 }]);
+              }}>
+              <div
+                title={intl.formatMessage(tZapSplits.split)}
+                class={`zap_split_icon ${styles.zapSplitIcon} ${zapSplitDraft() ? styles.highlight : ''}`}
+              ></div>
+            </ButtonGhost>
+          </div>
         </div>
         <div class={styles.editorDescision}>
           <ButtonPrimary
             onClick={postNote}
-            disabled={isPostingInProgress() || fileToUpload() || message().trim().length === 0}
+            disabled={isPostingInProgress() || isUploading() || message().trim().length === 0}
           >
-            {intl.formatMessage(tActions.notePostNew)}
+            {intl.formatMessage(isScheduling() ? tScheduled.schedule : tActions.notePostNew)}
           </ButtonPrimary>
           <ButtonSecondary onClick={closeEditor}>
             {intl.formatMessage(tActions.cancel)}
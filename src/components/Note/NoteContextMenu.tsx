@@ -4,7 +4,7 @@ import { MenuItem, NostrRelaySignedEvent, PrimalArticle, PrimalNote } from '../.
 import styles from './Note.module.scss';
 import { useIntl } from '@cookbook/solid-intl';
 import { authorName, userName } from '../../stores/profile';
-import { note as t, actions as tActions, toast as tToast, toast } from '../../translations';
+import { note as t, actions as tActions, toast as tToast, toast, publishStatus as tPublishStatus } from '../../translations';
 import { hookForDev } from '../../lib/devTools';
 import PrimalMenu from '../PrimalMenu/PrimalMenu';
 import { useAccountContext } from '../../contexts/AccountContext';
@@ -22,6 +22,7 @@ import ReportContentModal from '../ReportContentModal/ReportContentModal';
 import { encodeCoordinate } from '../../stores/megaFeed';
 import Longform from '../../pages/Longform';
 import { urlEncode } from '../../utils';
+import PublishStatusModal from '../PublishStatus/PublishStatusModal';
 
 const NoteContextMenu: Component<{
   data: NoteContextMenuInfo,
@@ -41,6 +42,7 @@ const NoteContextMenu: Component<{
   const [confirmMuteUser, setConfirmMuteUser] = createSignal(false);
   const [confirmMuteThread, setConfirmMuteThread] = createSignal(false);
   const [confirmRequestDelete, setConfirmRequestDelete] = createSignal(false);
+  const [publishStatusFor, setPublishStatusFor] = createSignal<string>();
 
   const [orientation, setOrientation] = createSignal<'down' | 'up'>('down')
 
@@ -374,6 +376,19 @@ const NoteContextMenu: Component<{
     ];
   };
 
+  const publishStatusContextMenu: () => MenuItem[] = () => {
+    return [
+      {
+        label: intl.formatMessage(tPublishStatus.menuLabel),
+        action: () => {
+          setPublishStatusFor(() => note()?.msg.id);
+          props.onClose();
+        },
+        icon: 'broadcast',
+      },
+    ];
+  };
+
 
   const requestDeleteContextMenu: () => MenuItem[] = () => {
     // if (!note() || (note().user.pubkey !== account?.publicKey)) return [];
@@ -393,7 +408,7 @@ const NoteContextMenu: Component<{
 
   const noteContext = () => account?.publicKey !== note()?.pubkey ?
       [ ...noteContextForEveryone(), ...noteContextForOtherPeople()] :
-      [ ...noteContextForMe(), ...noteContextForEveryone(), ...requestDeleteContextMenu()];
+      [ ...noteContextForMe(), ...noteContextForEveryone(), ...publishStatusContextMenu(), ...requestDeleteContextMenu()];
 
   let context: HTMLDivElement | undefined;
 
@@ -414,6 +429,11 @@ const NoteContextMenu: Component<{
         onClose={() => setConfirmReportContent(undefined)}
       />
 
+      <PublishStatusModal
+        eventId={publishStatusFor()}
+        onClose={() => setPublishStatusFor(undefined)}
+      />
+
       <ConfirmModal
         open={confirmMuteUser()}
         description={intl.formatMessage(tActions.muteUserConfirm, { name: authorName(note()?.user) })}
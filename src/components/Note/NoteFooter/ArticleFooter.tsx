@@ -8,11 +8,11 @@ import { useToastContext } from '../../Toaster/Toaster';
 import { useIntl } from '@cookbook/solid-intl';
 
 import { truncateNumber } from '../../../lib/notifications';
-import { canUserReceiveZaps, lastZapError, zapArticle } from '../../../lib/zap';
+import { canUserReceiveZaps, lastZapError, lastZapSplits, zapArticle } from '../../../lib/zap';
 import { useSettingsContext } from '../../../contexts/SettingsContext';
 
 import zapMD from '../../../assets/lottie/zap_md_2.json';
-import { toast as t } from '../../../translations';
+import { toast as t, zapSplits as tZapSplits } from '../../../translations';
 import PrimalMenu from '../../PrimalMenu/PrimalMenu';
 import { hookForDev } from '../../../lib/devTools';
 import { getScreenCordinates } from '../../../utils';
@@ -296,6 +296,20 @@ const ArticleFooter: Component<{
     }, 10);
   };
 
+  // Split zaps count as done when anyone got paid, report who wasn't
+  const reportZapSplitFailures = () => {
+    const failed = lastZapSplits.filter(r => !r.success).length;
+
+    if (failed === 0) return;
+
+    app?.actions.openConfirmModal({
+      title: intl.formatMessage(tZapSplits.partial, { paid: lastZapSplits.length - failed, total: lastZapSplits.length }),
+      description: lastZapError,
+      confirmLabel: "ok",
+      onConfirm: app.actions.closeConfirmModal,
+    });
+  };
+
   const doQuickZap = async () => {
     if (!account?.hasPublicKey()) {
       account?.actions.showGetStarted();
@@ -334,6 +348,7 @@ const ArticleFooter: Component<{
           message,
         });
 
+        reportZapSplitFailures();
         return;
       } else {
         app?.actions.openConfirmModal({
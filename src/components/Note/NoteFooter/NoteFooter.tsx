@@ -10,11 +10,11 @@ import FullEmojiPicker from '../../FullEmojiPicker/FullEmojiPicker';
 import { normalizeReactionEmoji } from '../../../lib/reactions';
 
 import { truncateNumber } from '../../../lib/notifications';
-import { canUserReceiveZaps, lastZapError, zapNote } from '../../../lib/zap';
+import { canUserReceiveZaps, lastZapError, lastZapSplits, zapNote } from '../../../lib/zap';
 import { useSettingsContext } from '../../../contexts/SettingsContext';
 
 import zapMD from '../../../assets/lottie/zap_md_2.json';
-import { toast as t } from '../../../translations';
+import { toast as t, zapSplits as tZapSplits } from '../../../translations';
 import PrimalMenu from '../../PrimalMenu/PrimalMenu';
 import { hookForDev } from '../../../lib/devTools';
 import { determineOrient, getScreenCordinates, isPhone } from '../../../utils';
@@ -462,6 +462,20 @@ const NoteFooter: Component<{
     }, 10);
   };
 
+  // Split zaps count as done when anyone got paid, report who wasn't
+  const reportZapSplitFailures = () => {
+    const failed = lastZapSplits.filter(r => !r.success).length;
+
+    if (failed === 0) return;
+
+    app?.actions.openConfirmModal({
+      title: intl.formatMessage(tZapSplits.partial, { paid: lastZapSplits.length - failed, total: lastZapSplits.length }),
+      description: lastZapError,
+      confirmLabel: "ok",
+      onConfirm: app.actions.closeConfirmModal,
+    });
+  };
+
   const doQuickZap = async () => {
     if (!account?.hasPublicKey()) {
       account?.actions.showGetStarted();
@@ -507,6 +521,7 @@ const NoteFooter: Component<{
           message,
         });
 
+        reportZapSplitFailures();
         return;
       } else {
         app?.actions.openConfirmModal({
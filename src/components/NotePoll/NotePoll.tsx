@@ -0,0 +1,213 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, createMemo, createSignal, For, onCleanup, onMount, Show } from 'solid-js';
+
+import { poll as t } from '../../translations';
+import { NostrRelaySignedEvent, PrimalNote } from '../../types/primal';
+import { isPollEnded, parsePoll, sendPollResponse, subscribeToPollResults, tallyPoll } from '../../lib/polls';
+import { getZapServerPubkey, zapNote } from '../../lib/zap';
+import { dateFuture } from '../../lib/dates';
+import { hookForDev } from '../../lib/devTools';
+import { useAccountContext } from '../../contexts/AccountContext';
+import { useSettingsContext } from '../../contexts/SettingsContext';
+import { useToastContext } from '../Toaster/Toaster';
+import { Kind } from '../../constants';
+
+import styles from './NotePoll.module.scss';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+
+const NotePoll: Component<{ id?: string, note: PrimalNote }> = (props) => {
+
+  const intl = useIntl();
+  const account = useAccountContext();
+  const settings = useSettingsContext();
+  const toast = useToastContext();
+
+  const poll = createMemo(() => parsePoll(props.note.msg));
+
+  const [votes, setVotes] = createSignal<NostrRelaySignedEvent[]>([]);
+  const [selected, setSelected] = createSignal<string[]>([]);
+  const [isVoting, setIsVoting] = createSignal(false);
+  const [zapper, setZapper] = createSignal<string>();
+
+  const isZapPoll = () => poll()?.kind === Kind.ZapPoll;
+
+  const zapAmount = () => settings?.defaultZap.amount || 10;
+
+  const tally = createMemo(() => {
+    const p = poll();
+    return p ? tallyPoll(p, votes(), account?.publicKey, zapper()) : undefined;
+  });
+
+  const isEnded = () => {
+    const p = poll();
+    return p ? isPollEnded(p) : true;
+  };
+
+  // Zap polls can be voted on again, more sats make the vote count more
+  const showResults = () =>
+    isEnded() || (!isZapPoll() && (tally()?.mine.length || 0) > 0);
+
+  const status = () => {
+    const endsAt = poll()?.endsAt;
+
+    if (isEnded()) return intl.formatMessage(t.ended);
+
+    return endsAt ?
+      intl.formatMessage(t.endsIn, { time: dateFuture(endsAt, 'long').label }) :
+      undefined;
+  };
+
+  const total = () => Object.values(tally()?.totals || {}).reduce((acc, n) => acc + n, 0);
+
+  const share = (id: string) => {
+    const sum = total();
+    return sum === 0 ? 0 : Math.round(((tally()?.totals[id] || 0) / sum) * 100);
+  };
+
+  onMount(() => {
+    const p = poll();
+
+    if (!p) return;
+
+    if (p.kind === Kind.ZapPoll) {
+      getZapServerPubkey(props.note.user).then(pubkey => setZapper(pubkey || undefined));
+    }
+
+    const unsub = subscribeToPollResults(p, account?.activeRelays || [], setVotes);
+
+    onCleanup(unsub);
+  });
+
+  const toggle = (id: string) => {
+    if (poll()?.type === 'multiplechoice' && !isZapPoll()) {
+      setSelected(s => s.includes(id) ? s.filter(o => o !== id) : [ ...s, id ]);
+      return;
+    }
+
+    setSelected([id]);
+  };
+
+  const vote = async () => {
+    const p = poll();
+
+    if (!p || !account || selected().length === 0) return;
+
+    if (!account.hasPublicKey()) {
+      account.actions.showGetStarted();
+      return;
+    }
+
+    setIsVoting(true);
+
+    if (p.kind === Kind.ZapPoll) {
+      const success = await zapNote(
+        props.note,
+        account.publicKey,
+        zapAmount(),
+        '',
+        account.activeRelays,
+        account.activeNWC,
+        account.activeWalletType,
+        selected()[0],
+      );
+
+      !success && toast?.sendWarning(intl.formatMessage(t.voteFailed));
+      setIsVoting(false);
+      return;
+    }
+
+    const { success, note } = await sendPollResponse(
+      p,
+      selected(),
+      account.proxyThroughPrimal || false,
+      account.activeRelays,
+      account.relaySettings,
+    );
+
+    if (success && note) {
+      setVotes(v => [ ...v, note ]);
+    }
+    else {
+      toast?.sendWarning(intl.formatMessage(t.voteFailed));
+    }
+
+    setIsVoting(false);
+  };
+
+  const amount = (id: string) => {
+    const n = tally()?.totals[id] || 0;
+
+    return isZapPoll() ?
+      intl.formatMessage(t.sats, { number: n.toLocaleString() }) :
+      `${share(id)}%`;
+  };
+
+  return (
+    <Show when={poll()}>
+      <div
+        id={props.id}
+        class={styles.poll}
+        onClick={(e: MouseEvent) => {
+          // Keep clicks from opening the note's thread
+          e.preventDefault();
+          e.stopPropagation();
+        }}
+      >
+        <Show when={poll()?.type === 'multiplechoice' && !isZapPoll() && !showResults()}>
+          <div class={styles.hint}>{intl.formatMessage(t.pickMany)}</div>
+        </Show>
+
+        <For each={poll()?.options}>
+          {(option) => (
+            <Show
+              when={!showResults()}
+              fallback={
+                <div class={`${styles.result} ${tally()?.mine.includes(option.id) ? styles.mine : ''}`}>
+                  <div class={styles.bar} style={`width: ${share(option.id)}%`}></div>
+                  <div class={styles.label}>{option.label}</div>
+                  <div class={styles.amount}>{amount(option.id)}</div>
+                </div>
+              }
+            >
+              <button
+                class={`${styles.option} ${selected().includes(option.id) ? styles.selected : ''}`}
+                onClick={() => toggle(option.id)}
+                disabled={isVoting()}
+              >
+                <Show when={isZapPoll()}>
+                  <div class={styles.bar} style={`width: ${share(option.id)}%`}></div>
+                </Show>
+                <div class={styles.label}>{option.label}</div>
+                <Show when={isZapPoll()}>
+                  <div class={styles.amount}>{amount(option.id)}</div>
+                </Show>
+              </button>
+            </Show>
+          )}
+        </For>
+
+        <div class={styles.footer}>
+          <div class={styles.summary}>
+            {intl.formatMessage(t.votes, { number: tally()?.voters || 0 })}
+            <Show when={status()}>
+              <span>·</span>
+              {status()}
+            </Show>
+          </div>
+          <Show when={!showResults()}>
+            <ButtonPrimary
+              onClick={vote}
+              disabled={isVoting() || selected().length === 0}
+            >
+              {isZapPoll() ?
+                intl.formatMessage(t.zapVote, { amount: zapAmount() }) :
+                intl.formatMessage(t.vote)}
+            </ButtonPrimary>
+          </Show>
+        </div>
+      </div>
+    </Show>
+  );
+}
+
+export default hookForDev(NotePoll);
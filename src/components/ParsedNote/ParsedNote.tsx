@@ -78,6 +78,8 @@ import { StreamingData } from '../../lib/streaming';
 import LiveEventPreview from '../LiveVideo/LiveEventPreview';
 import ExternalLiveEventPreview from '../LiveVideo/ExternalLiveEventPreview';
 import NoteVideo from './NoteVideo';
+import NotePoll from '../NotePoll/NotePoll';
+import { isPollKind } from '../../lib/polls';
 
 const groupGridLimit = 5;
 
@@ -1981,6 +1983,9 @@ const ParsedNote: Component<{
           ... <span class="linkish">{intl.formatMessage(actions.seeMore)}</span>
         </span>
       </Show>
+      <Show when={!props.veryShort && isPollKind(props.note.msg.kind)}>
+        <NotePoll note={props.note} />
+      </Show>
     </div>
   );
 };
@@ -0,0 +1,119 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, For, Show } from 'solid-js';
+
+import { poll as t } from '../../translations';
+import { PollDraft, PollType } from '../../types/primal';
+import { day, hour, pollDurations, pollMaxOptions, pollMinOptions } from '../../constants';
+import { hookForDev } from '../../lib/devTools';
+
+import styles from './PollEditor.module.scss';
+import CheckBox from '../Checkbox/CheckBox';
+import ButtonLink from '../Buttons/ButtonLink';
+
+const PollEditor: Component<{
+  id?: string,
+  draft: PollDraft,
+  onChange: (draft: PollDraft) => void,
+  onRemove: () => void,
+}> = (props) => {
+
+  const intl = useIntl();
+
+  const update = (changes: Partial<PollDraft>) => props.onChange({ ...props.draft, ...changes });
+
+  const setOption = (index: number, value: string) =>
+    update({ options: props.draft.options.map((o, i) => i === index ? value : o) });
+
+  const removeOption = (index: number) =>
+    update({ options: props.draft.options.filter((_, i) => i !== index) });
+
+  const durationLabel = (duration: number) =>
+    duration < day ?
+      intl.formatMessage(t.hours, { number: duration / hour }) :
+      intl.formatMessage(t.days, { number: duration / day });
+
+  const types: { type: PollType, label: string }[] = [
+    { type: 'singlechoice', label: intl.formatMessage(t.singleChoice) },
+    { type: 'multiplechoice', label: intl.formatMessage(t.multipleChoice) },
+  ];
+
+  return (
+    <div id={props.id} class={styles.pollEditor}>
+      <For each={props.draft.options}>
+        {(option, index) => (
+          <div class={styles.option}>
+            <input
+              class={styles.optionInput}
+              value={option}
+              maxLength={100}
+              placeholder={intl.formatMessage(t.option, { number: index() + 1 })}
+              onInput={(e) => setOption(index(), e.currentTarget.value)}
+            />
+            <Show when={props.draft.options.length > pollMinOptions}>
+              <button
+                class={styles.removeOption}
+                onClick={() => removeOption(index())}
+              >
+                <div class={styles.closeIcon}></div>
+              </button>
+            </Show>
+          </div>
+        )}
+      </For>
+
+      <Show when={props.draft.options.length < pollMaxOptions}>
+        <ButtonLink onClick={() => update({ options: [ ...props.draft.options, '' ] })}>
+          {intl.formatMessage(t.addOption)}
+        </ButtonLink>
+      </Show>
+
+      <Show when={!props.draft.zapWeighted}>
+        <div class={styles.choices}>
+          <For each={types}>
+            {({ type, label }) => (
+              <button
+                class={props.draft.type === type ? styles.selected : ''}
+                onClick={() => update({ type })}
+              >
+                {label}
+              </button>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <div class={styles.durations}>
+        <div class={styles.caption}>{intl.formatMessage(t.duration)}</div>
+        <div class={styles.choices}>
+          <For each={pollDurations}>
+            {(duration) => (
+              <button
+                class={props.draft.duration === duration ? styles.selected : ''}
+                onClick={() => update({ duration })}
+              >
+                {durationLabel(duration)}
+              </button>
+            )}
+          </For>
+        </div>
+      </div>
+
+      <div class={styles.zapWeighted}>
+        <CheckBox
+          checked={props.draft.zapWeighted}
+          onChange={(zapWeighted: boolean) => update({ zapWeighted })}
+          label={intl.formatMessage(t.zapWeighted)}
+        />
+        <div class={styles.help}>{intl.formatMessage(t.zapWeightedHelp)}</div>
+      </div>
+
+      <div class={styles.footer}>
+        <ButtonLink onClick={props.onRemove}>
+          {intl.formatMessage(t.remove)}
+        </ButtonLink>
+      </div>
+    </div>
+  );
+}
+
+export default hookForDev(PollEditor);
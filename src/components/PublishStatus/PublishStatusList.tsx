@@ -0,0 +1,104 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, For, Show } from 'solid-js';
+
+import { publishStatus as t } from '../../translations';
+import { PublishQueueEntry, RelayPublishStatus } from '../../types/primal';
+import { removeFromPublishQueue, retryPublishNow } from '../../lib/publishQueue';
+import { date } from '../../lib/dates';
+import { hookForDev } from '../../lib/devTools';
+
+import styles from './PublishStatus.module.scss';
+import ButtonLink from '../Buttons/ButtonLink';
+
+const statusClass: Record<RelayPublishStatus, string> = {
+  'pending': styles.pending,
+  'ok': styles.ok,
+  'sent': styles.ok,
+  'notice': styles.warning,
+  'auth-required': styles.warning,
+  'timeout': styles.warning,
+  'rejected': styles.failed,
+  'error': styles.failed,
+};
+
+const PublishStatusList: Component<{
+  id?: string,
+  entries: PublishQueueEntry[],
+}> = (props) => {
+
+  const intl = useIntl();
+
+  const preview = (entry: PublishQueueEntry) => {
+    const content = entry.event.content || '';
+
+    return content.length > 80 ? `${content.slice(0, 80)}...` : content;
+  };
+
+  return (
+    <div id={props.id} class={styles.publishStatusList}>
+      <Show
+        when={props.entries.length > 0}
+        fallback={<div class={styles.empty}>{intl.formatMessage(t.empty)}</div>}
+      >
+        <For each={props.entries}>
+          {entry => (
+            <div class={styles.entry}>
+              <div class={styles.entryHeader}>
+                <div class={styles.entryInfo}>
+                  <span class={styles.kind}>
+                    {intl.formatMessage(t.kind, { kind: entry.event.kind })}
+                  </span>
+                  <span class={styles.time}>
+                    {date(entry.event.created_at).label}
+                  </span>
+                  <span class={`${styles.state} ${styles[entry.state]}`}>
+                    {intl.formatMessage(t.state[entry.state])}
+                  </span>
+                </div>
+
+                <div class={styles.entryActions}>
+                  <Show when={['retrying', 'failed'].includes(entry.state)}>
+                    <ButtonLink onClick={() => retryPublishNow(entry.id)}>
+                      {intl.formatMessage(t.retry)}
+                    </ButtonLink>
+                  </Show>
+                  <Show when={entry.state !== 'publishing'}>
+                    <ButtonLink onClick={() => removeFromPublishQueue(entry.id)}>
+                      {intl.formatMessage(t.remove)}
+                    </ButtonLink>
+                  </Show>
+                </div>
+              </div>
+
+              <Show when={preview(entry).length > 0}>
+                <div class={styles.preview}>{preview(entry)}</div>
+              </Show>
+
+              <Show when={entry.state === 'retrying' && entry.nextAttemptAt > 0}>
+                <div class={styles.nextAttempt}>
+                  {intl.formatMessage(t.nextAttempt, {
+                    time: new Date(entry.nextAttemptAt).toLocaleTimeString(),
+                  })}
+                </div>
+              </Show>
+
+              <For each={Object.keys(entry.relays)}>
+                {url => (
+                  <div class={styles.relayResult}>
+                    <div class={`${styles.statusDot} ${statusClass[entry.relays[url].status]}`}></div>
+                    <span class={styles.relayUrl} title={url}>{url}</span>
+                    <span class={styles.relayStatus} title={entry.relays[url].message || ''}>
+                      {intl.formatMessage(t.relay[entry.relays[url].status])}
+                    </span>
+                  </div>
+                )}
+              </For>
+            </div>
+          )}
+        </For>
+      </Show>
+    </div>
+  );
+}
+
+export default hookForDev(PublishStatusList);
@@ -0,0 +1,45 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, Show } from 'solid-js';
+
+import { publishStatus as t } from '../../translations';
+import { publishQueue } from '../../lib/publishQueue';
+import { hookForDev } from '../../lib/devTools';
+
+import styles from './PublishStatus.module.scss';
+import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
+import PublishStatusList from './PublishStatusList';
+
+const PublishStatusModal: Component<{
+  id?: string,
+  eventId?: string,
+  onClose: () => void,
+}> = (props) => {
+
+  const intl = useIntl();
+
+  const entry = () => props.eventId ? publishQueue[props.eventId] : undefined;
+
+  return (
+    <AdvancedSearchDialog
+      open={props.eventId !== undefined}
+      setOpen={(isOpen: boolean) => !isOpen && props.onClose()}
+      title={
+        <div class={styles.title}>
+          {intl.formatMessage(t.title)}
+        </div>
+      }
+      triggerClass={styles.hidden}
+    >
+      <div id={props.id} class={styles.publishStatusModal}>
+        <Show
+          when={entry()}
+          fallback={<div class={styles.empty}>{intl.formatMessage(t.notTracked)}</div>}
+        >
+          {e => <PublishStatusList entries={[e()]} />}
+        </Show>
+      </div>
+    </AdvancedSearchDialog>
+  );
+}
+
+export default hookForDev(PublishStatusModal);
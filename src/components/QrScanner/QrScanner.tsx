@@ -0,0 +1,163 @@
+import { Component, Show, createEffect, createSignal, onCleanup } from 'solid-js';
+import { logWarning } from '../../lib/logger';
+import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+
+import styles from './QrScanner.module.scss';
+
+type QrScannerProps = {
+  open: boolean;
+  onScan: (value: string) => void;
+  onClose: () => void;
+};
+
+// Barcode Detection API, not part of TypeScript's DOM types yet
+interface BarcodeDetector {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorWindow = Window & {
+  BarcodeDetector?: new (options?: { formats: string[] }) => BarcodeDetector;
+};
+
+// Frames are scaled down to this width for the JS decoder, which is slow on full camera frames
+const fallbackFrameWidth = 640;
+
+/**
+ * Decodes with jsQR where the browser has no BarcodeDetector (Safari, Firefox)
+ */
+const fallbackDetector = async (): Promise<BarcodeDetector> => {
+  const { default: jsQR } = await import('jsqr');
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return {
+    detect: async (source) => {
+      const video = source as HTMLVideoElement;
+
+      if (!context || !video.videoWidth) return [];
+
+      const scale = Math.min(1, fallbackFrameWidth / video.videoWidth);
+
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+      return code ? [{ rawValue: code.data }] : [];
+    },
+  };
+};
+
+/**
+ * Reads a QR code from the camera with the browser's BarcodeDetector, or jsQR where it is missing
+ */
+const QrScanner: Component<QrScannerProps> = (props) => {
+  const [error, setError] = createSignal('');
+
+  let video: HTMLVideoElement | undefined;
+  let stream: MediaStream | undefined;
+  let frame: number | undefined;
+
+  const stop = () => {
+    frame !== undefined && cancelAnimationFrame(frame);
+    frame = undefined;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = undefined;
+  };
+
+  const start = async () => {
+    setError('');
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('QR scanning is not supported by this browser. Paste the code instead.');
+      return;
+    }
+
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+    } catch (e) {
+      logWarning('[QrScanner] Camera not available:', e);
+      setError('Could not access the camera. Check the browser permissions.');
+      return;
+    }
+
+    // Closed while waiting for camera permission
+    if (!props.open || !video) {
+      stop();
+      return;
+    }
+
+    video.srcObject = stream;
+    await video.play();
+
+    const Detector = (window as BarcodeDetectorWindow).BarcodeDetector;
+    let detector: BarcodeDetector;
+
+    try {
+      detector = Detector ? new Detector({ formats: ['qr_code'] }) : await fallbackDetector();
+    } catch (e) {
+      logWarning('[QrScanner] No QR decoder available:', e);
+      stop();
+      setError('QR scanning is not supported by this browser. Paste the code instead.');
+      return;
+    }
+
+    const scan = async () => {
+      if (!stream || !video) return;
+
+      try {
+        const codes = await detector.detect(video);
+
+        if (codes.length > 0 && codes[0].rawValue) {
+          stop();
+          props.onScan(codes[0].rawValue);
+          return;
+        }
+      } catch (e) {
+        logWarning('[QrScanner] Detection failed:', e);
+      }
+
+      frame = requestAnimationFrame(scan);
+    };
+
+    scan();
+  };
+
+  createEffect(() => {
+    if (props.open) {
+      start();
+    } else {
+      stop();
+    }
+  });
+
+  onCleanup(stop);
+
+  return (
+    <AdvancedSearchDialog
+      open={props.open}
+      setOpen={(open: boolean) => !open && props.onClose()}
+      triggerClass="hidden"
+      title={<div>Scan QR Code</div>}
+    >
+      <div class={styles.scanner}>
+        <Show
+          when={!error()}
+          fallback={<div class={styles.error}>{error()}</div>}
+        >
+          <video ref={video} class={styles.video} muted playsinline />
+          <div class={styles.hint}>Point the camera at an invoice, address or LNURL code</div>
+        </Show>
+        <ButtonSecondary onClick={props.onClose}>
+          Cancel
+        </ButtonSecondary>
+      </div>
+    </AdvancedSearchDialog>
+  );
+};
+
+export default QrScanner;
@@ -3,7 +3,7 @@ import { Component, createSignal, Show } from 'solid-js';
 import { useAccountContext } from '../../contexts/AccountContext';
 import { useAppContext } from '../../contexts/AppContext';
 import { hookForDev } from '../../lib/devTools';
-import { PrimalArticle } from '../../types/primal';
+import { PostSchedule, PrimalArticle, ZapSplit } from '../../types/primal';
 import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
 
 import styles from './ReadsMentionDialog.module.scss';
@@ -15,6 +15,11 @@ import { TextField } from '@kobalte/core/text-field';
 import ButtonSecondary from '../Buttons/ButtonSecondary';
 import { ArticleEdit } from '../../pages/ReadsEditor';
 import ArticlePreview from '../ArticlePreview/ArticlePreview';
+import CheckBox from '../Checkbox/CheckBox';
+import SchedulePicker, { isValidScheduleTime } from '../SchedulePicker/SchedulePicker';
+import { useToastContext } from '../Toaster/Toaster';
+import { scheduled as tScheduled, zapSplits as tZapSplits } from '../../translations';
+import ZapSplitEditor from '../ZapSplitEditor/ZapSplitEditor';
 
 
 const ReadsPublishDialog: Component<{
@@ -23,7 +28,9 @@ const ReadsPublishDialog: Component<{
   setOpen?: (v: boolean) => void,
   article: PrimalArticle,
   articleData: ArticleEdit,
-  onPublish: (promote: boolean) => void,
+  onPublish: (promote: boolean, schedule?: PostSchedule) => void,
+  zapSplits?: ZapSplit[],
+  setZapSplits: (splits: ZapSplit[] | undefined) => void,
 }> = (props) => {
 
   const intl = useIntl();
@@ -35,6 +42,32 @@ const ReadsPublishDialog: Component<{
   const [promotion, setPromotion] = createSignal('');
   const [showPromotion, setShowPromotion] = createSignal(false);
 
+  const toast = useToastContext();
+
+  const [isScheduling, setIsScheduling] = createSignal(false);
+  const [publishAt, setPublishAt] = createSignal<number | undefined>();
+
+  const publish = () => {
+    const time = publishAt();
+
+    if (props.zapSplits && props.zapSplits.length > 0 && !props.zapSplits.some(s => s.weight > 0)) {
+      toast?.sendWarning(intl.formatMessage(tZapSplits.noWeight));
+      return;
+    }
+
+    if (!isScheduling()) {
+      props.onPublish(showPromotion());
+      return;
+    }
+
+    if (!time || !isValidScheduleTime(time)) {
+      toast?.sendWarning(intl.formatMessage(tScheduled.tooSoon));
+      return;
+    }
+
+    props.onPublish(showPromotion(), { publishAt: time });
+  };
+
   return (
     <AdvancedSearchDialog
       triggerClass="hidden"
@@ -69,6 +102,35 @@ const ReadsPublishDialog: Component<{
           Add a short note to promote your article in the main feed
         </CheckBox2> */}
 
+        <CheckBox
+          checked={props.zapSplits !== undefined}
+          onChange={(checked: boolean) => props.setZapSplits(checked ? [{ pubkey: account?.publicKey || '', weight: 1 }] : undefined)}
+          label={intl.formatMessage(tZapSplits.split)}
+        />
+
+        <Show when={props.zapSplits}>
+          {(splits) => (
+            <ZapSplitEditor
+              splits={splits()}
+              onChange={props.setZapSplits}
+              onRemove={() => props.setZapSplits(undefined)}
+            />
+          )}
+        </Show>
+
+        <CheckBox
+          checked={isScheduling()}
+          onChange={setIsScheduling}
+          label={intl.formatMessage(tScheduled.scheduleLater)}
+        />
+
+        <Show when={isScheduling()}>
+          <SchedulePicker
+            publishAt={publishAt()}
+            onChange={setPublishAt}
+          />
+        </Show>
+
         <div class={styles.actions}>
           <ButtonSecondary
             onClick={() => props.setOpen && props.setOpen(false)}
@@ -78,9 +140,9 @@ const ReadsPublishDialog: Component<{
             Cancel
           </ButtonSecondary>
           <ButtonPrimary
-            onClick={() => props.onPublish(showPromotion())}
+            onClick={publish}
           >
-            Publish
+            {isScheduling() ? intl.formatMessage(tScheduled.schedule) : 'Publish'}
           </ButtonPrimary>
         </div>
       </div>
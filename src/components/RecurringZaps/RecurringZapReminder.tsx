@@ -0,0 +1,84 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { useNavigate } from '@solidjs/router';
+import { Component, For, Show } from 'solid-js';
+
+import { recurringZaps as t } from '../../translations';
+import { shortDate } from '../../lib/dates';
+import { hookForDev } from '../../lib/devTools';
+import {
+  dismissRecurringZapReminders,
+  payRecurringZapNow,
+  recurringZapReminders,
+  recurringZaps,
+  skipRecurringZap,
+} from '../../lib/recurringZaps';
+import { recurringZapPrice } from './RecurringZaps';
+
+import styles from './RecurringZaps.module.scss';
+import ButtonLink from '../Buttons/ButtonLink';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
+
+const RecurringZapReminder: Component<{ id?: string }> = (props) => {
+
+  const intl = useIntl();
+  const navigate = useNavigate();
+
+  const onManage = () => {
+    dismissRecurringZapReminders();
+    navigate('/settings/zaps');
+  };
+
+  return (
+    <AdvancedSearchDialog
+      open={recurringZapReminders().length > 0}
+      setOpen={(open: boolean) => !open && dismissRecurringZapReminders()}
+      title={
+        <div class={styles.promptTitle}>
+          {intl.formatMessage(t.reminderTitle)}
+        </div>
+      }
+      triggerClass={styles.hidden}
+    >
+      <div id={props.id} class={styles.prompt}>
+        <For each={recurringZapReminders()}>
+          {id => (
+            <Show when={recurringZaps[id]}>
+              {zap => (
+                <div class={styles.reminder}>
+                  <div class={styles.details}>
+                    {intl.formatMessage(t.reminder, {
+                      tier: zap().tierTitle,
+                      name: zap().recipientName,
+                      price: recurringZapPrice(zap()),
+                      date: shortDate(Math.floor(zap().nextDueAt / 1_000)),
+                    })}
+                  </div>
+                  <div class={styles.actions}>
+                    <ButtonLink onClick={() => payRecurringZapNow(id)}>
+                      {intl.formatMessage(t.payNow)}
+                    </ButtonLink>
+                    <ButtonLink onClick={() => skipRecurringZap(id)}>
+                      {intl.formatMessage(t.skip)}
+                    </ButtonLink>
+                  </div>
+                </div>
+              )}
+            </Show>
+          )}
+        </For>
+        <div class={styles.promptActions}>
+          <ButtonPrimary onClick={dismissRecurringZapReminders}>
+            {intl.formatMessage(t.ok)}
+          </ButtonPrimary>
+          <ButtonSecondary onClick={onManage} light={true}>
+            {intl.formatMessage(t.manage)}
+          </ButtonSecondary>
+        </div>
+      </div>
+    </AdvancedSearchDialog>
+  );
+}
+
+export default hookForDev(RecurringZapReminder);
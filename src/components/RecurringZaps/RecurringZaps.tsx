@@ -0,0 +1,122 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, For, Show } from 'solid-js';
+
+import { recurringZaps as t } from '../../translations';
+import { RecurringZap } from '../../types/primal';
+import { shortDate } from '../../lib/dates';
+import { hookForDev } from '../../lib/devTools';
+import {
+  cancelRecurringZap,
+  ownRecurringZaps,
+  payRecurringZapNow,
+  removeRecurringZap,
+  skipRecurringZap,
+} from '../../lib/recurringZaps';
+import { useAppContext } from '../../contexts/AppContext';
+import { useToastContext } from '../Toaster/Toaster';
+
+import styles from './RecurringZaps.module.scss';
+import ButtonLink from '../Buttons/ButtonLink';
+
+export const recurringZapPrice = (zap: RecurringZap) => `${zap.amount} ${zap.unit} ${zap.cadence}`;
+
+const RecurringZaps: Component<{ id?: string }> = (props) => {
+
+  const intl = useIntl();
+  const app = useAppContext();
+  const toast = useToastContext();
+
+  const zaps = () => ownRecurringZaps().sort((a, b) =>
+    a.state === b.state ? a.nextDueAt - b.nextDueAt : a.state === 'active' ? -1 : 1
+  );
+
+  const onCancel = (zap: RecurringZap) => {
+    app?.actions.openConfirmModal({
+      title: intl.formatMessage(t.cancel),
+      description: intl.formatMessage(t.cancelConfirm, { name: zap.recipientName }),
+      confirmLabel: intl.formatMessage(t.cancel),
+      onConfirm: async () => {
+        const cancelled = await cancelRecurringZap(zap.id);
+
+        !cancelled && toast?.sendWarning(intl.formatMessage(t.cancelFailed));
+        app.actions.closeConfirmModal();
+      },
+      onAbort: app?.actions.closeConfirmModal,
+    });
+  };
+
+  return (
+    <div id={props.id} class={styles.recurringZaps}>
+      <div class={styles.description}>
+        {intl.formatMessage(t.description)}
+      </div>
+
+      <For
+        each={zaps()}
+        fallback={<div class={styles.empty}>{intl.formatMessage(t.empty)}</div>}
+      >
+        {zap => (
+          <div class={styles.subscription}>
+            <div class={styles.header}>
+              <div class={styles.name}>{zap.recipientName}</div>
+              <div class={styles.tier}>{zap.tierTitle}</div>
+              <Show when={zap.state === 'cancelled'}>
+                <div class={styles.badge}>{intl.formatMessage(t.cancelled)}</div>
+              </Show>
+            </div>
+
+            <div class={styles.details}>
+              {recurringZapPrice(zap)}
+              <Show when={zap.state === 'active'}>
+                &nbsp;&middot;&nbsp;
+                {intl.formatMessage(t.nextDue, { date: shortDate(Math.floor(zap.nextDueAt / 1_000)) })}
+              </Show>
+            </div>
+
+            <div class={styles.actions}>
+              <Show
+                when={zap.state === 'active'}
+                fallback={
+                  <ButtonLink onClick={() => removeRecurringZap(zap.id)}>
+                    {intl.formatMessage(t.remove)}
+                  </ButtonLink>
+                }
+              >
+                <ButtonLink onClick={() => payRecurringZapNow(zap.id)}>
+                  {intl.formatMessage(t.payNow)}
+                </ButtonLink>
+                <ButtonLink onClick={() => skipRecurringZap(zap.id)}>
+                  {intl.formatMessage(t.skip)}
+                </ButtonLink>
+                <ButtonLink onClick={() => onCancel(zap)}>
+                  {intl.formatMessage(t.cancel)}
+                </ButtonLink>
+              </Show>
+            </div>
+
+            <Show when={zap.history.length > 0}>
+              <div class={styles.caption}>{intl.formatMessage(t.history)}</div>
+              <For each={zap.history}>
+                {renewal => (
+                  <div class={styles.renewal} data-status={renewal.status}>
+                    <div>
+                      {intl.formatMessage(t.renewal, {
+                        date: shortDate(Math.floor(renewal.dueAt / 1_000)),
+                        status: intl.formatMessage(t.statuses[renewal.status]),
+                      })}
+                    </div>
+                    <Show when={renewal.status === 'paid' && renewal.amount > 0}>
+                      <div>{intl.formatMessage(t.sats, { amount: renewal.amount })}</div>
+                    </Show>
+                  </div>
+                )}
+              </For>
+            </Show>
+          </div>
+        )}
+      </For>
+    </div>
+  );
+}
+
+export default hookForDev(RecurringZaps);
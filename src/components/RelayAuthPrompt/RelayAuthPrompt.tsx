@@ -0,0 +1,66 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, createEffect, createSignal, on } from 'solid-js';
+
+import { relayAuth as t } from '../../translations';
+import { answerRelayAuthRequest, relayAuthRequests } from '../../lib/relayAuth';
+import { hookForDev } from '../../lib/devTools';
+
+import styles from './RelayAuthPrompt.module.scss';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
+import CheckBox from '../Checkbox/CheckBox';
+
+const RelayAuthPrompt: Component<{ id?: string }> = (props) => {
+
+  const intl = useIntl();
+
+  const [remember, setRemember] = createSignal(false);
+
+  // One relay at a time, the next one shows up once this one is answered
+  const relay = () => relayAuthRequests()[0];
+
+  createEffect(on(relay, () => setRemember(false)));
+
+  const onAnswer = (approve: boolean) => {
+    const url = relay();
+
+    url && answerRelayAuthRequest(url, approve, remember());
+  };
+
+  return (
+    <AdvancedSearchDialog
+      open={relay() !== undefined}
+      setOpen={(open: boolean) => !open && onAnswer(false)}
+      title={
+        <div class={styles.title}>
+          {intl.formatMessage(t.title)}
+        </div>
+      }
+      triggerClass={styles.hidden}
+    >
+      <div id={props.id} class={styles.prompt}>
+        <div class={styles.description}>
+          {intl.formatMessage(t.description, { relay: relay() || '' })}
+        </div>
+        <div class={styles.remember}>
+          <CheckBox
+            checked={remember()}
+            onChange={setRemember}
+            label={intl.formatMessage(t.remember)}
+          />
+        </div>
+        <div class={styles.actions}>
+          <ButtonPrimary onClick={() => onAnswer(true)}>
+            {intl.formatMessage(t.approve)}
+          </ButtonPrimary>
+          <ButtonSecondary onClick={() => onAnswer(false)} light={true}>
+            {intl.formatMessage(t.decline)}
+          </ButtonSecondary>
+        </div>
+      </div>
+    </AdvancedSearchDialog>
+  );
+}
+
+export default hookForDev(RelayAuthPrompt);
@@ -0,0 +1,34 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { A } from '@solidjs/router';
+import { Component, Show } from 'solid-js';
+
+import { relayOnly as t } from '../../translations';
+import { cacheUnavailable } from '../../sockets';
+import { hookForDev } from '../../lib/devTools';
+
+import styles from './RelayOnlyBanner.module.scss';
+
+const RelayOnlyBanner: Component<{ id?: string }> = (props) => {
+
+  const intl = useIntl();
+
+  return (
+    <Show when={cacheUnavailable()}>
+      <div id={props.id} class={styles.banner} role="status">
+        <div class={styles.text}>
+          <div class={styles.title}>
+            {intl.formatMessage(t.title)}
+          </div>
+          <div class={styles.description}>
+            {intl.formatMessage(t.description)}
+          </div>
+        </div>
+        <A href="/settings/network" class={styles.link}>
+          {intl.formatMessage(t.settings)}
+        </A>
+      </div>
+    </Show>
+  );
+}
+
+export default hookForDev(RelayOnlyBanner);
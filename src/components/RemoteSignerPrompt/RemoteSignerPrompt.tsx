@@ -0,0 +1,66 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, createEffect, on } from 'solid-js';
+
+import { login as tLogin, confirmDefaults } from '../../translations';
+import { remoteSignerStatus, setRemoteSignerStatus } from '../../lib/remoteSigner';
+import { useToastContext } from '../Toaster/Toaster';
+import { hookForDev } from '../../lib/devTools';
+
+import styles from './RemoteSignerPrompt.module.scss';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
+
+const RemoteSignerPrompt: Component<{ id?: string }> = (props) => {
+
+  const intl = useIntl();
+  const toaster = useToastContext();
+
+  createEffect(on(() => remoteSignerStatus().state, (state, prev) => {
+    if (state === 'timeout' && prev !== 'timeout') {
+      toaster?.sendWarning(intl.formatMessage(tLogin.remoteTimeout));
+    }
+  }));
+
+  const isOpen = () => remoteSignerStatus().state === 'auth';
+
+  const onOpenSigner = () => {
+    const url = remoteSignerStatus().authUrl;
+
+    url && window.open(url, '_blank', 'noopener');
+  };
+
+  const onDismiss = () => {
+    // The request keeps waiting for the signer in the background
+    setRemoteSignerStatus((status) => ({ ...status, state: 'pending' }));
+  };
+
+  return (
+    <AdvancedSearchDialog
+      open={isOpen()}
+      setOpen={(open: boolean) => !open && onDismiss()}
+      title={
+        <div class={styles.title}>
+          {intl.formatMessage(tLogin.remoteApproveTitle)}
+        </div>
+      }
+      triggerClass={styles.hidden}
+    >
+      <div id={props.id} class={styles.prompt}>
+        <div class={styles.description}>
+          {intl.formatMessage(tLogin.remoteApprove, { method: remoteSignerStatus().method || '' })}
+        </div>
+        <div class={styles.actions}>
+          <ButtonPrimary onClick={onOpenSigner}>
+            {intl.formatMessage(tLogin.remoteApproveOpen)}
+          </ButtonPrimary>
+          <ButtonSecondary onClick={onDismiss} light={true}>
+            {intl.formatMessage(confirmDefaults.abort)}
+          </ButtonSecondary>
+        </div>
+      </div>
+    </AdvancedSearchDialog>
+  );
+}
+
+export default hookForDev(RemoteSignerPrompt);
@@ -0,0 +1,53 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component } from 'solid-js';
+
+import { scheduled as t } from '../../translations';
+import { scheduledPostMinDelay } from '../../constants';
+import { hookForDev } from '../../lib/devTools';
+
+import styles from './SchedulePicker.module.scss';
+
+const pad = (n: number) => `${n}`.padStart(2, '0');
+
+// datetime-local inputs work with local time without a timezone
+export const toDateTimeInput = (time: number) => {
+  const d = new Date(time);
+
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const fromDateTimeInput = (value: string) => {
+  const time = new Date(value).getTime();
+
+  return isNaN(time) ? undefined : time;
+};
+
+export const isValidScheduleTime = (time: number | undefined) =>
+  time !== undefined && time - Date.now() >= scheduledPostMinDelay;
+
+const SchedulePicker: Component<{
+  id?: string,
+  publishAt?: number,
+  onChange: (publishAt: number | undefined) => void,
+}> = (props) => {
+
+  const intl = useIntl();
+
+  return (
+    <div id={props.id} class={styles.schedulePicker}>
+      <label class={styles.time}>
+        <span>{intl.formatMessage(t.publishAt)}</span>
+        <input
+          type="datetime-local"
+          value={props.publishAt ? toDateTimeInput(props.publishAt) : ''}
+          min={toDateTimeInput(Date.now() + scheduledPostMinDelay)}
+          onChange={(e) => props.onChange(fromDateTimeInput(e.currentTarget.value))}
+        />
+      </label>
+
+      <div class={styles.help}>{intl.formatMessage(t.localHelp)}</div>
+    </div>
+  );
+}
+
+export default hookForDev(SchedulePicker);
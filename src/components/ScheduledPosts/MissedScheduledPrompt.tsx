@@ -0,0 +1,62 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { useNavigate } from '@solidjs/router';
+import { Component } from 'solid-js';
+
+import { scheduled as t } from '../../translations';
+import { dismissMissedScheduledPosts, missedScheduledPosts, publishScheduledPostNow } from '../../lib/scheduledPosts';
+import { hookForDev } from '../../lib/devTools';
+
+import styles from './ScheduledPosts.module.scss';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
+
+const MissedScheduledPrompt: Component<{ id?: string }> = (props) => {
+
+  const intl = useIntl();
+  const navigate = useNavigate();
+
+  const onPublish = () => {
+    const ids = [ ...missedScheduledPosts() ];
+
+    dismissMissedScheduledPosts();
+    ids.forEach(publishScheduledPostNow);
+  };
+
+  const onReview = () => {
+    dismissMissedScheduledPosts();
+    navigate('/myarticles/scheduled');
+  };
+
+  return (
+    <AdvancedSearchDialog
+      open={missedScheduledPosts().length > 0}
+      setOpen={(open: boolean) => !open && dismissMissedScheduledPosts()}
+      title={
+        <div class={styles.promptTitle}>
+          {intl.formatMessage(t.missedTitle)}
+        </div>
+      }
+      triggerClass={styles.hidden}
+    >
+      <div id={props.id} class={styles.prompt}>
+        <div class={styles.description}>
+          {intl.formatMessage(t.missedDescription, { number: missedScheduledPosts().length })}
+        </div>
+        <div class={styles.actions}>
+          <ButtonPrimary onClick={onPublish}>
+            {intl.formatMessage(t.publishNow)}
+          </ButtonPrimary>
+          <ButtonSecondary onClick={onReview} light={true}>
+            {intl.formatMessage(t.review)}
+          </ButtonSecondary>
+          <ButtonSecondary onClick={dismissMissedScheduledPosts} light={true}>
+            {intl.formatMessage(t.later)}
+          </ButtonSecondary>
+        </div>
+      </div>
+    </AdvancedSearchDialog>
+  );
+}
+
+export default hookForDev(MissedScheduledPrompt);
@@ -0,0 +1,150 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, createSignal, For, Show } from 'solid-js';
+
+import { scheduled as t } from '../../translations';
+import { ScheduledPost } from '../../types/primal';
+import { Kind } from '../../constants';
+import { longDate } from '../../lib/dates';
+import { hookForDev } from '../../lib/devTools';
+import { publishScheduledPostNow, removeScheduledPost, updateScheduledPost } from '../../lib/scheduledPosts';
+import { useToastContext } from '../Toaster/Toaster';
+import { fromDateTimeInput, isValidScheduleTime, toDateTimeInput } from '../SchedulePicker/SchedulePicker';
+
+import styles from './ScheduledPosts.module.scss';
+import ButtonLink from '../Buttons/ButtonLink';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+
+const ScheduledPostEntry: Component<{ post: ScheduledPost }> = (props) => {
+
+  const intl = useIntl();
+  const toast = useToastContext();
+
+  const [isEditing, setIsEditing] = createSignal(false);
+  const [isBusy, setIsBusy] = createSignal(false);
+  const [content, setContent] = createSignal('');
+  const [publishAt, setPublishAt] = createSignal<number | undefined>();
+
+  const isArticle = () => props.post.event.kind === Kind.LongForm;
+
+  const title = () => isArticle() ?
+    props.post.event.tags.find(t => t[0] === 'title')?.[1] || '' :
+    props.post.event.content;
+
+  const startEditing = () => {
+    setContent(props.post.event.content);
+    setPublishAt(props.post.publishAt);
+    setIsEditing(true);
+  };
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsBusy(true);
+
+    const success = await action();
+
+    setIsBusy(false);
+
+    !success && toast?.sendWarning(intl.formatMessage(t.updateFailed));
+
+    return success;
+  };
+
+  const save = async () => {
+    const time = publishAt();
+
+    if (!isValidScheduleTime(time)) {
+      toast?.sendWarning(intl.formatMessage(t.tooSoon));
+      return;
+    }
+
+    const changes = isArticle() ?
+      { publishAt: time } :
+      { publishAt: time, content: content() };
+
+    const success = await run(() => updateScheduledPost(props.post.id, changes));
+
+    success && setIsEditing(false);
+  };
+
+  return (
+    <div class={styles.entry}>
+      <div class={styles.header}>
+        <div class={styles.kind}>
+          {intl.formatMessage(isArticle() ? t.article : t.note)}
+        </div>
+        <div class={styles.time}>
+          {longDate(Math.floor(props.post.publishAt / 1_000))}
+        </div>
+        <Show when={props.post.state === 'missed'}>
+          <div class={`${styles.badge} ${styles.missed}`}>{intl.formatMessage(t.missed)}</div>
+        </Show>
+      </div>
+
+      <Show
+        when={isEditing()}
+        fallback={<div class={styles.content}>{title()}</div>}
+      >
+        <Show when={!isArticle()}>
+          <textarea
+            class={styles.contentInput}
+            rows={4}
+            value={content()}
+            onInput={(e) => setContent(e.currentTarget.value)}
+          />
+        </Show>
+        <input
+          class={styles.timeInput}
+          type="datetime-local"
+          value={publishAt() ? toDateTimeInput(publishAt()!) : ''}
+          onChange={(e) => setPublishAt(fromDateTimeInput(e.currentTarget.value))}
+        />
+      </Show>
+
+      <div class={styles.actions}>
+        <Show
+          when={isEditing()}
+          fallback={
+            <>
+              <ButtonLink onClick={startEditing} disabled={isBusy()}>
+                {intl.formatMessage(t.edit)}
+              </ButtonLink>
+              <ButtonLink onClick={() => run(() => publishScheduledPostNow(props.post.id))} disabled={isBusy()}>
+                {intl.formatMessage(t.publishNow)}
+              </ButtonLink>
+              <ButtonLink onClick={() => run(() => removeScheduledPost(props.post.id))} disabled={isBusy()}>
+                {intl.formatMessage(t.remove)}
+              </ButtonLink>
+            </>
+          }
+        >
+          <ButtonSecondary onClick={() => setIsEditing(false)} light={true}>
+            {intl.formatMessage(t.cancel)}
+          </ButtonSecondary>
+          <ButtonPrimary onClick={save} disabled={isBusy()}>
+            {intl.formatMessage(t.save)}
+          </ButtonPrimary>
+        </Show>
+      </div>
+    </div>
+  );
+};
+
+const ScheduledPostList: Component<{ id?: string, posts: ScheduledPost[] }> = (props) => {
+
+  const intl = useIntl();
+
+  return (
+    <div id={props.id} class={styles.scheduledPosts}>
+      <Show
+        when={props.posts.length > 0}
+        fallback={<div class={styles.empty}>{intl.formatMessage(t.empty)}</div>}
+      >
+        <For each={props.posts}>
+          {post => <ScheduledPostEntry post={post} />}
+        </For>
+      </Show>
+    </div>
+  );
+}
+
+export default hookForDev(ScheduledPostList);
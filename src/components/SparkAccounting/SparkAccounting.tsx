@@ -0,0 +1,151 @@
+import { Component, For, Show, createSignal } from 'solid-js';
+import { useSparkWallet } from '../../contexts/SparkWalletContext';
+import { formatFiatAmount } from '../../lib/currency';
+import { logError } from '../../lib/logger';
+import {
+  SparkAccountingRow,
+  SparkPaymentCategory,
+  accountingCSV,
+  accountingJSON,
+  accountingRows,
+  downloadAccountingFile,
+  fetchAllSparkPayments,
+  monthlySummary,
+} from '../../lib/spark/sparkAccounting';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+import CurrencyDropdown from '../CurrencyDropdown/CurrencyDropdown';
+import { useToastContext } from '../Toaster/Toaster';
+
+import styles from './SparkAccounting.module.scss';
+
+const categories: { key: SparkPaymentCategory, label: string }[] = [
+  { key: 'zap', label: 'Zaps' },
+  { key: 'invoice', label: 'Invoices' },
+  { key: 'lightning_address', label: 'Lightning address' },
+];
+
+const SparkAccounting: Component = () => {
+  const sparkWallet = useSparkWallet();
+  const toast = useToastContext();
+
+  const [currency, setCurrency] = createSignal(
+    sparkWallet.store.displayCurrency === 'SATS' ? 'USD' : sparkWallet.store.displayCurrency,
+  );
+  const [rows, setRows] = createSignal<SparkAccountingRow[]>();
+  const [isLoading, setIsLoading] = createSignal(false);
+
+  const loadRows = async () => {
+    setIsLoading(true);
+
+    try {
+      const payments = await fetchAllSparkPayments();
+      setRows(await accountingRows(payments, currency()));
+    } catch (error) {
+      logError('[SparkAccounting] Failed to load payments:', error);
+      toast?.sendWarning('Failed to load payment history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changeCurrency = (value: string) => {
+    setCurrency(value);
+    rows() && loadRows();
+  };
+
+  const summary = () => monthlySummary(rows() || []);
+
+  const missingRates = () => (rows() || []).filter(r => r.fiatStatus === 'unpriced').length;
+
+  const fileName = (extension: string) =>
+    `spark-payments-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  const exportCSV = () => {
+    downloadAccountingFile(fileName('csv'), accountingCSV(rows() || []), 'text/csv');
+    toast?.sendSuccess('Payments exported');
+  };
+
+  const exportJSON = () => {
+    downloadAccountingFile(fileName('json'), accountingJSON(rows() || []), 'application/json');
+    toast?.sendSuccess('Payments exported');
+  };
+
+  return (
+    <div class={styles.accounting}>
+      <div class={styles.toolbar}>
+        <div class={styles.currency}>
+          <span>Fiat currency</span>
+          <CurrencyDropdown value={currency()} onChange={changeCurrency} />
+        </div>
+        <ButtonSecondary onClick={loadRows} disabled={isLoading()}>
+          {isLoading() ? 'Loading...' : rows() ? 'Reload' : 'Load payment history'}
+        </ButtonSecondary>
+      </div>
+
+      <Show when={rows()}>
+        <div class={styles.exportActions}>
+          <ButtonPrimary onClick={exportCSV} disabled={isLoading()}>
+            Export CSV
+          </ButtonPrimary>
+          <ButtonSecondary onClick={exportJSON} disabled={isLoading()}>
+            Export JSON
+          </ButtonSecondary>
+        </div>
+
+        <Show when={missingRates() > 0 && currency() !== 'SATS'}>
+          <div class={styles.note}>
+            {missingRates()} payment(s) have no known {currency()} rate and are exported without a fiat value, marked as unpriced.
+          </div>
+        </Show>
+
+        <Show
+          when={summary().length > 0}
+          fallback={<div class={styles.note}>No completed payments yet</div>}
+        >
+          <For each={summary()}>
+            {month => (
+              <div class={styles.month}>
+                <div class={styles.monthTitle}>{month.month}</div>
+                <table class={styles.summaryTable}>
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>Income (sats)</th>
+                      <th>Spending (sats)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <For each={categories}>
+                      {category => (
+                        <tr>
+                          <td>{category.label}</td>
+                          <td>{month.income[category.key].toLocaleString()}</td>
+                          <td>{month.spending[category.key].toLocaleString()}</td>
+                        </tr>
+                      )}
+                    </For>
+                    <tr>
+                      <td>Fees</td>
+                      <td></td>
+                      <td>{month.fees.toLocaleString()}</td>
+                    </tr>
+                    <Show when={currency() !== 'SATS'}>
+                      <tr class={styles.fiatRow}>
+                        <td>{currency()}</td>
+                        <td>{formatFiatAmount(month.fiatIncome, currency())}</td>
+                        <td>{formatFiatAmount(month.fiatSpending, currency())}</td>
+                      </tr>
+                    </Show>
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </For>
+        </Show>
+      </Show>
+    </div>
+  );
+};
+
+export default SparkAccounting;
@@ -0,0 +1,188 @@
+import { Component, Show, createSignal } from 'solid-js';
+import { hookForDev } from '../../lib/devTools';
+import { logError } from '../../lib/logger';
+import {
+  MIN_WALLET_PIN_LENGTH,
+  SparkGuardLimits,
+  SparkGuardMethod,
+  disableSparkGuard,
+  enableSparkPinGuard,
+  enableSparkWebAuthnGuard,
+  isWebAuthnSupported,
+  lockSparkWallet,
+  sparkGuard,
+  todaySparkSpending,
+  updateSparkGuardLimits,
+} from '../../lib/spark/sparkSpendingGuard';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+import TextInput from '../TextInput/TextInput';
+import { useToastContext } from '../Toaster/Toaster';
+
+import styles from './SparkSpendingGuard.module.scss';
+
+const SparkSpendingGuardSettings: Component<{ id?: string }> = (props) => {
+  const toast = useToastContext();
+
+  const [method, setMethod] = createSignal<SparkGuardMethod>('pin');
+  const [pin, setPin] = createSignal('');
+  const [pinConfirm, setPinConfirm] = createSignal('');
+  const [perPaymentLimit, setPerPaymentLimit] = createSignal(`${sparkGuard.settings.perPaymentLimit}`);
+  const [dailyLimit, setDailyLimit] = createSignal(`${sparkGuard.settings.dailyLimit}`);
+  const [autoLockMinutes, setAutoLockMinutes] = createSignal(`${sparkGuard.settings.autoLockMinutes}`);
+  const [isSaving, setIsSaving] = createSignal(false);
+
+  const limits = (): SparkGuardLimits | undefined => {
+    const values = {
+      perPaymentLimit: parseInt(perPaymentLimit()),
+      dailyLimit: parseInt(dailyLimit()),
+      autoLockMinutes: parseInt(autoLockMinutes()),
+    };
+
+    if (Object.values(values).some(v => isNaN(v) || v < 0)) return;
+
+    return values;
+  };
+
+  const pinError = () => {
+    if (method() !== 'pin') return '';
+    if (pin().length < MIN_WALLET_PIN_LENGTH) return `PIN must be at least ${MIN_WALLET_PIN_LENGTH} digits`;
+    if (pin() !== pinConfirm()) return 'PINs do not match';
+    return '';
+  };
+
+  const withSaving = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error: any) {
+      logError('[SparkGuard] Failed to update spending protection:', error);
+      toast?.sendWarning(error?.message || 'Failed to update spending protection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onEnable = () => withSaving(async () => {
+    const values = limits();
+
+    if (!values) {
+      toast?.sendWarning('Please enter valid limits');
+      return;
+    }
+
+    if (method() === 'webauthn') {
+      await enableSparkWebAuthnGuard(values);
+    } else {
+      if (pinError()) {
+        toast?.sendWarning(pinError());
+        return;
+      }
+      await enableSparkPinGuard(pin(), values);
+    }
+
+    setPin('');
+    setPinConfirm('');
+    toast?.sendSuccess('Spending protection is on');
+  });
+
+  const onSaveLimits = () => withSaving(async () => {
+    const values = limits();
+
+    if (!values) {
+      toast?.sendWarning('Please enter valid limits');
+      return;
+    }
+
+    if (await updateSparkGuardLimits(values)) {
+      toast?.sendSuccess('Spending limits saved');
+    }
+  });
+
+  const onDisable = () => withSaving(async () => {
+    if (await disableSparkGuard()) {
+      toast?.sendSuccess('Spending protection is off');
+    }
+  });
+
+  return (
+    <div id={props.id} class={styles.settings}>
+      <div class={styles.note}>
+        Ask for a PIN or security key before larger payments and zaps, and lock the wallet
+        when nobody is using it. Useful on a shared computer.
+      </div>
+
+      <div class={styles.limits}>
+        <label>
+          <span>Confirm payments above (sats)</span>
+          <TextInput type="number" value={perPaymentLimit()} onChange={setPerPaymentLimit} />
+        </label>
+        <label>
+          <span>Confirm when today's spending exceeds (sats)</span>
+          <TextInput type="number" value={dailyLimit()} onChange={setDailyLimit} />
+        </label>
+        <label>
+          <span>Lock after inactivity (minutes, 0 to never lock)</span>
+          <TextInput type="number" value={autoLockMinutes()} onChange={setAutoLockMinutes} />
+        </label>
+      </div>
+
+      <Show
+        when={sparkGuard.settings.enabled}
+        fallback={
+          <>
+            <div class={styles.methods}>
+              <label>
+                <input
+                  type="radio"
+                  checked={method() === 'pin'}
+                  onChange={() => setMethod('pin')}
+                />
+                Wallet PIN
+              </label>
+              <Show when={isWebAuthnSupported()}>
+                <label>
+                  <input
+                    type="radio"
+                    checked={method() === 'webauthn'}
+                    onChange={() => setMethod('webauthn')}
+                  />
+                  Security key or device unlock (WebAuthn)
+                </label>
+              </Show>
+            </div>
+
+            <Show when={method() === 'pin'}>
+              <div class={styles.limits}>
+                <TextInput type="password" value={pin()} onChange={setPin} placeholder="New wallet PIN" />
+                <TextInput type="password" value={pinConfirm()} onChange={setPinConfirm} placeholder="Repeat PIN" />
+              </div>
+            </Show>
+
+            <ButtonPrimary onClick={onEnable} disabled={isSaving() || !!pinError()}>
+              Turn on spending protection
+            </ButtonPrimary>
+          </>
+        }
+      >
+        <div class={styles.status}>
+          Protected by {sparkGuard.settings.method === 'webauthn' ? 'a security key' : 'a wallet PIN'}.
+          Spent today: {todaySparkSpending().toLocaleString()} sats.
+        </div>
+        <div class={styles.actions}>
+          <ButtonPrimary onClick={onSaveLimits} disabled={isSaving()}>
+            Save limits
+          </ButtonPrimary>
+          <ButtonSecondary onClick={lockSparkWallet} disabled={sparkGuard.locked}>
+            Lock now
+          </ButtonSecondary>
+          <ButtonSecondary onClick={onDisable} disabled={isSaving()}>
+            Turn off
+          </ButtonSecondary>
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default hookForDev(SparkSpendingGuardSettings);
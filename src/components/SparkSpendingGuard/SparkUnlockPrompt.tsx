@@ -0,0 +1,126 @@
+import { Component, Show, createEffect, createSignal, onCleanup, onMount } from 'solid-js';
+import { hookForDev } from '../../lib/devTools';
+import {
+  cancelSparkUnlock,
+  confirmSparkPin,
+  confirmSparkWebAuthn,
+  noteSparkActivity,
+  sparkGuard,
+} from '../../lib/spark/sparkSpendingGuard';
+import AdvancedSearchDialog from '../AdvancedSearch/AdvancedSearchDialog';
+import ButtonPrimary from '../Buttons/ButtonPrimary';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+import TextInput from '../TextInput/TextInput';
+
+import styles from './SparkSpendingGuard.module.scss';
+
+const activityEvents = ['pointerdown', 'keydown'];
+
+const SparkUnlockPrompt: Component<{ id?: string }> = (props) => {
+
+  let pinInput: HTMLInputElement | undefined;
+
+  const [pin, setPin] = createSignal('');
+  const [error, setError] = createSignal('');
+  const [isChecking, setIsChecking] = createSignal(false);
+
+  // Any interaction with the app counts as activity for the auto-lock
+  onMount(() => {
+    activityEvents.forEach(e => window.addEventListener(e, noteSparkActivity, { passive: true }));
+    noteSparkActivity();
+  });
+
+  onCleanup(() => {
+    activityEvents.forEach(e => window.removeEventListener(e, noteSparkActivity));
+  });
+
+  createEffect(() => {
+    if (sparkGuard.request) {
+      setPin('');
+      setError('');
+      sparkGuard.settings.method === 'pin' && setTimeout(() => pinInput?.focus(), 200);
+    }
+  });
+
+  const isWebAuthn = () => sparkGuard.settings.method === 'webauthn';
+
+  const onConfirm = async () => {
+    setIsChecking(true);
+    setError('');
+
+    try {
+      const confirmed = isWebAuthn() ?
+        await confirmSparkWebAuthn() :
+        await confirmSparkPin(pin());
+
+      if (!confirmed) {
+        setPin('');
+        setError(isWebAuthn() ? 'Could not verify you, please try again' : 'PIN is incorrect');
+      }
+    } catch (e: any) {
+      setError(e?.message || 'Could not verify you, please try again');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const onKeyUp = (e: KeyboardEvent) => {
+    if (e.code === 'Enter' && pin().length > 0) {
+      onConfirm();
+    }
+  };
+
+  return (
+    <AdvancedSearchDialog
+      open={!!sparkGuard.request}
+      setOpen={(isOpen: boolean) => !isOpen && cancelSparkUnlock()}
+      title={
+        <div class={styles.title}>
+          Confirm with your wallet {isWebAuthn() ? 'key' : 'PIN'}
+        </div>
+      }
+      triggerClass={styles.hidden}
+    >
+      <div id={props.id} class={styles.prompt}>
+        <div class={styles.description}>
+          {sparkGuard.request?.reason}
+        </div>
+
+        <Show when={sparkGuard.request?.amount}>
+          <div class={styles.amount}>
+            {sparkGuard.request?.amount?.toLocaleString()} sats
+          </div>
+        </Show>
+
+        <Show when={!isWebAuthn()}>
+          <TextInput
+            type="password"
+            ref={pinInput}
+            value={pin()}
+            onKeyUp={onKeyUp}
+            onChange={(val: string) => setPin(val)}
+            placeholder="Wallet PIN"
+          />
+        </Show>
+
+        <Show when={error()}>
+          <div class={styles.error}>{error()}</div>
+        </Show>
+
+        <div class={styles.actions}>
+          <ButtonPrimary
+            onClick={onConfirm}
+            disabled={isChecking() || (!isWebAuthn() && pin().length === 0)}
+          >
+            {isChecking() ? 'Checking...' : isWebAuthn() ? 'Use security key' : 'Confirm'}
+          </ButtonPrimary>
+          <ButtonSecondary onClick={cancelSparkUnlock} light={true}>
+            Cancel
+          </ButtonSecondary>
+        </div>
+      </div>
+    </AdvancedSearchDialog>
+  );
+}
+
+export default hookForDev(SparkUnlockPrompt);
@@ -0,0 +1,185 @@
+import { Component, For, Show, createEffect, createSignal } from 'solid-js';
+import { useAccountContext } from '../../contexts/AccountContext';
+import { useSparkWallet } from '../../contexts/SparkWalletContext';
+import { hexToNpub } from '../../lib/keys';
+import { logError } from '../../lib/logger';
+import {
+  IncomingZap,
+  ZapReceiptIssue,
+  addZapsFromPayments,
+  loadZapInbox,
+  republishZapReceipt,
+  zapInbox,
+} from '../../lib/spark/sparkZapReceipt';
+import ButtonSecondary from '../Buttons/ButtonSecondary';
+import { useToastContext } from '../Toaster/Toaster';
+
+import styles from './SparkZapInbox.module.scss';
+
+const issueLabels: Record<ZapReceiptIssue, string> = {
+  missing_bolt11: 'Payment has no bolt11 invoice',
+  invalid_zap_request: 'Zap request is malformed',
+  bad_signature: 'Zap request signature is invalid',
+  amount_mismatch: 'Paid amount differs from the zap request',
+  description_hash_mismatch: 'Invoice description hash does not match the zap request',
+  not_published: 'Receipt was not published to any relay',
+};
+
+const SparkZapInbox: Component = () => {
+  const account = useAccountContext();
+  const sparkWallet = useSparkWallet();
+  const toast = useToastContext();
+
+  const [onlyProblems, setOnlyProblems] = createSignal(false);
+  const [expanded, setExpanded] = createSignal<string>();
+  const [republishing, setRepublishing] = createSignal<string>();
+
+  createEffect(() => {
+    account?.publicKey && loadZapInbox(account.publicKey);
+  });
+
+  const hasProblems = (zap: IncomingZap) =>
+    zap.issues.length > 0 || zap.relays.some(r => r.status === 'failed');
+
+  const zaps = () => zapInbox.zaps.filter(z => !onlyProblems() || hasProblems(z));
+
+  const problemCount = () => zapInbox.zaps.filter(hasProblems).length;
+
+  const canRepublish = (zap: IncomingZap) =>
+    zap.receiptData && !zap.issues.includes('bad_signature') &&
+    (zap.issues.includes('not_published') || zap.relays.some(r => r.status === 'failed'));
+
+  const formatDate = (timestamp: number) => {
+    const milliseconds = timestamp < 10000000000 ? timestamp * 1000 : timestamp;
+    return new Date(milliseconds).toLocaleString();
+  };
+
+  const sender = (zap: IncomingZap) =>
+    zap.zapRequest?.pubkey ? `${hexToNpub(zap.zapRequest.pubkey).slice(0, 16)}…` : 'Unknown sender';
+
+  const zappedEvent = (zap: IncomingZap) =>
+    zap.zapRequest?.tags.find(t => t[0] === 'e' || t[0] === 'a')?.[1];
+
+  const handleScan = () => {
+    if (!account?.publicKey) return;
+
+    const added = addZapsFromPayments(account.publicKey, sparkWallet.store.payments);
+    toast?.sendInfo(added > 0 ? `Found ${added} zap(s) in payment history` : 'No new zaps in payment history');
+  };
+
+  const handleRepublish = async (zap: IncomingZap) => {
+    if (!account?.publicKey) return;
+
+    setRepublishing(zap.paymentId);
+
+    try {
+      const updated = await republishZapReceipt(account.publicKey, zap.paymentId, account.activeRelays);
+      const failed = updated.relays.filter(r => r.status === 'failed').length;
+
+      if (failed > 0) {
+        toast?.sendWarning(`Receipt republished, ${failed} relay(s) still failing`);
+      } else {
+        toast?.sendSuccess('Receipt republished');
+      }
+    } catch (error: any) {
+      logError('[SparkZapInbox] Failed to republish receipt:', error);
+      toast?.sendWarning(`Failed to republish receipt: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setRepublishing(undefined);
+    }
+  };
+
+  return (
+    <div class={styles.zapInbox}>
+      <div class={styles.toolbar}>
+        <div class={styles.summary}>
+          {zapInbox.zaps.length} incoming zap(s), {problemCount()} with problems
+        </div>
+        <label class={styles.filter}>
+          <input
+            type="checkbox"
+            checked={onlyProblems()}
+            onChange={(e) => setOnlyProblems(e.currentTarget.checked)}
+          />
+          Only problems
+        </label>
+        <ButtonSecondary onClick={handleScan}>
+          Check payment history
+        </ButtonSecondary>
+      </div>
+
+      <For
+        each={zaps()}
+        fallback={<div class={styles.empty}>No incoming zaps recorded yet</div>}
+      >
+        {zap => (
+          <div class={styles.zap} data-problem={hasProblems(zap)}>
+            <div class={styles.header}>
+              <div class={styles.amount}>+{zap.amountSats.toLocaleString()} sats</div>
+              <div class={styles.sender}>{sender(zap)}</div>
+              <div class={styles.date}>{formatDate(zap.timestamp)}</div>
+            </div>
+
+            <Show when={zap.zapRequest?.content}>
+              <div class={styles.comment}>{zap.zapRequest?.content}</div>
+            </Show>
+
+            <Show when={zappedEvent(zap)}>
+              <div class={styles.detail}>Zapped event: {zappedEvent(zap)}</div>
+            </Show>
+
+            <Show when={zap.issues.length > 0}>
+              <div class={styles.issues}>
+                <For each={zap.issues}>
+                  {issue => <div class={styles.issue}>{issueLabels[issue]}</div>}
+                </For>
+              </div>
+            </Show>
+
+            <Show when={zap.relays.length > 0}>
+              <div class={styles.relays}>
+                <For each={zap.relays}>
+                  {relay => (
+                    <div class={styles.relay} data-status={relay.status} title={relay.error || ''}>
+                      <span class={styles.relayStatus}>{relay.status === 'published' ? '✓' : '✗'}</span>
+                      {relay.url}
+                      <Show when={relay.error}>
+                        <span class={styles.relayError}>{relay.error}</span>
+                      </Show>
+                    </div>
+                  )}
+                </For>
+              </div>
+            </Show>
+
+            <div class={styles.actions}>
+              <Show when={canRepublish(zap)}>
+                <ButtonSecondary
+                  onClick={() => handleRepublish(zap)}
+                  disabled={republishing() === zap.paymentId}
+                >
+                  {republishing() === zap.paymentId ? 'Republishing...' : 'Republish receipt'}
+                </ButtonSecondary>
+              </Show>
+              <button
+                class={styles.toggle}
+                onClick={() => setExpanded(id => id === zap.paymentId ? undefined : zap.paymentId)}
+              >
+                {expanded() === zap.paymentId ? 'Hide zap request' : 'Show zap request'}
+              </button>
+            </div>
+
+            <Show when={expanded() === zap.paymentId}>
+              <pre class={styles.raw}>{JSON.stringify(zap.zapRequest, null, 2)}</pre>
+              <Show when={zap.receipt}>
+                <div class={styles.detail}>Receipt id: {zap.receipt?.id}</div>
+              </Show>
+            </Show>
+          </div>
+        )}
+      </For>
+    </div>
+  );
+};
+
+export default SparkZapInbox;
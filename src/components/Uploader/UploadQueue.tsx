@@ -0,0 +1,85 @@
+import { Component, createEffect, For, Show } from 'solid-js';
+import { Progress } from '@kobalte/core/progress';
+import { useIntl } from '@cookbook/solid-intl';
+
+import styles from './Uploader.module.scss';
+import { hookForDev } from '../../lib/devTools';
+import { cancelUpload, ownerUploads, removeUpload, retryUpload } from '../../lib/uploadManager';
+import { upload as tUpload } from '../../translations';
+import { UploadJob } from '../../types/primal';
+import ButtonGhost from '../Buttons/ButtonGhost';
+
+const UploadQueue: Component<{
+  id?: string,
+  owner: string,
+  onSuccess: (url: string, job: UploadJob) => void,
+  onFail?: (job: UploadJob) => void,
+}> = (props) => {
+  const intl = useIntl();
+
+  const jobs = () => ownerUploads(props.owner);
+
+  let reportedFailures: string[] = [];
+
+  // Finished uploads are handed over once and leave the queue
+  createEffect(() => {
+    jobs().forEach((job) => {
+      if (job.status === 'done' && job.url) {
+        props.onSuccess(job.url, { ...job });
+        removeUpload(job.id);
+        return;
+      }
+
+      if (job.status === 'failed' && !reportedFailures.includes(job.id)) {
+        reportedFailures.push(job.id);
+        props.onFail && props.onFail({ ...job });
+      }
+    });
+  });
+
+  const statusLabel = (job: UploadJob) => {
+    switch (job.status) {
+      case 'queued':
+        return intl.formatMessage(tUpload.queued);
+      case 'paused':
+        return intl.formatMessage(tUpload.paused);
+      case 'failed':
+        return intl.formatMessage(tUpload.failed);
+      default:
+        return `${job.progress}%`;
+    }
+  };
+
+  return (
+    <div id={props.id} class={styles.uploadQueue}>
+      <For each={jobs().filter(j => j.status !== 'done')}>
+        {job => (
+          <Progress value={job.progress} class={styles.uploadProgress}>
+            <div class={styles.progressLabelContainer}>
+              <Progress.Label class={styles.progressLabel}>{job.name}</Progress.Label>
+              <div class={styles.progressValue}>
+                <Show when={job.status === 'failed' || job.status === 'paused'}>
+                  <button class={styles.retryButton} onClick={() => retryUpload(job.id)}>
+                    {intl.formatMessage(tUpload.retry)}
+                  </button>
+                </Show>
+                {statusLabel(job)}
+              </div>
+            </div>
+            <div class={styles.progressTrackContainer}>
+              <Progress.Track class={styles.progressTrack}>
+                <Progress.Fill class={`${styles.progressFill}`} />
+              </Progress.Track>
+
+              <ButtonGhost onClick={() => cancelUpload(job.id)}>
+                <div class={styles.iconClose}></div>
+              </ButtonGhost>
+            </div>
+          </Progress>
+        )}
+      </For>
+    </div>
+  );
+}
+
+export default hookForDev(UploadQueue);
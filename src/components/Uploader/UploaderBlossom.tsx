@@ -1,11 +1,12 @@
 import { Component, createEffect, createSignal, JSXElement, on, onCleanup, onMount, Show } from 'solid-js';
 import { Progress } from '@kobalte/core/progress';
+import { useIntl } from '@cookbook/solid-intl';
 
 import styles from './Uploader.module.scss';
 import { uploadServer } from '../../uploadSocket';
 import { createStore } from 'solid-js/store';
 import { NostrEOSE, NostrEvent, NostrEventContent, NostrEventType, NostrMediaUploaded } from '../../types/primal';
-import { readUploadTime, saveUploadTime } from '../../lib/localStore';
+import { readMediaProcessing, readUploadTime, saveUploadTime } from '../../lib/localStore';
 import { startTimes, uploadMediaCancel, uploadMediaChunk, uploadMediaConfirm } from '../../lib/media';
 import { encodeAuthorizationHeader, sha256, uuidv4 } from '../../utils';
 import { Kind, primalBlossom, uploadLimit } from '../../constants';
@@ -15,10 +16,13 @@ import { APP_ID } from '../../App';
 import { subsTo } from '../../sockets';
 import { getReplacableEvent } from '../../lib/notes';
 
-import { BlossomClient, SignedEvent, BlobDescriptor, fetchWithTimeout } from "blossom-client-sdk";
+import { BlossomClient, SignedEvent, fetchWithTimeout } from "blossom-client-sdk";
 import { signEvent } from '../../lib/nostrAPI';
 import { logInfo, logWarning } from '../../lib/logger';
 import { useToastContext } from '../Toaster/Toaster';
+import { mirrorUpload } from '../../lib/uploadManager';
+import { locationNotRemoved, processMedia, stripLocation } from '../../lib/mediaProcessing';
+import { upload as tUpload } from '../../translations';
 
 const MB = 1024 * 1024;
 
@@ -47,6 +51,7 @@ const UploaderBlossom: Component<{
 }> = (props) => {
   const account = useAccountContext();
   const toaster = useToastContext();
+  const intl = useIntl();
 
   let progressFill: HTMLDivElement | undefined;
 
@@ -74,7 +79,7 @@ const UploaderBlossom: Component<{
       const response = JSON.parse(uploadState.xhr?.responseText || '{}');
       props.onSuccsess && props.onSuccsess(response.url, props.uploadId);
 
-      mirrorUpload(response);
+      mirrorUpload(response, account?.blossomServers.slice(1) || []);
       resetUpload();
       return;
     }
@@ -105,23 +110,6 @@ const UploaderBlossom: Component<{
     }));
   };
 
-  const mirrorUpload = async (blob: BlobDescriptor) => {
-    const mirrors = account?.blossomServers.slice(1) || [];
-    if (mirrors.length === 0) return;
-
-    let auth = await BlossomClient.createUploadAuth(signEvent, blob.sha256, { message: 'media upload mirroring'});
-    setUploadState('auth', () => ({ ...auth }));
-
-    for (let server of mirrors) {
-      try {
-        BlossomClient.mirrorBlob(server, blob, { auth });
-      } catch {
-        logWarning('Failed to mirror to: ', server)
-      }
-    }
-
-  };
-
   const clearXHR = () => {
     const xhr = uploadState.xhr;
     if (!xhr) return;
@@ -178,7 +166,29 @@ const UploaderBlossom: Component<{
     const xhr = uploadState.xhr;
     if (!xhr) return;
 
+    const processing = readMediaProcessing(account?.publicKey);
+
     try {
+      if (file.type.startsWith('image/')) {
+        file = (await processMedia(file, processing)).file;
+      }
+      else if (processing.stripLocation) {
+        file = await stripLocation(file);
+      }
+    } catch (e) {
+      logWarning('Failed to process media: ', file.name, e);
+
+      // Never upload a file that may still hold the location the user wanted removed
+      if (processing.stripLocation) {
+        toaster?.sendWarning(intl.formatMessage(tUpload.locationNotRemoved, { file: file.name }));
+        props.onRefuse && props.onRefuse(locationNotRemoved, props.uploadId);
+        resetUpload();
+        return;
+      }
+    }
+
+    try {
+
       const auth = await BlossomClient.createUploadAuth(signEvent, file, { message: 'media upload' });
 
       setUploadState('auth', () => ({ ...auth }));
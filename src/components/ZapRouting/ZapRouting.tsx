@@ -0,0 +1,158 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, For, Show } from 'solid-js';
+
+import { zapRouting as t } from '../../translations';
+import { ZapWallet } from '../../types/primal';
+import { longDate } from '../../lib/dates';
+import { hookForDev } from '../../lib/devTools';
+import {
+  clearZapRoutingLog,
+  spentToday,
+  updateZapRoutingPolicy,
+  zapRoutingLog,
+  zapRoutingPolicy,
+} from '../../lib/zapRouting';
+
+import styles from './ZapRouting.module.scss';
+import ButtonLink from '../Buttons/ButtonLink';
+import CheckBox from '../Checkbox/CheckBox';
+
+const ZapRouting: Component<{ id?: string }> = (props) => {
+
+  const intl = useIntl();
+
+  const walletName = (wallet: ZapWallet) => intl.formatMessage(t.wallets[wallet]);
+
+  const amountOf = (value: string) => {
+    const amount = parseInt(value);
+
+    return isNaN(amount) || amount < 0 ? 0 : amount;
+  };
+
+  const move = (index: number, by: number) => {
+    let order = [ ...zapRoutingPolicy.order ];
+    const [wallet] = order.splice(index, 1);
+
+    order.splice(Math.min(Math.max(index + by, 0), order.length), 0, wallet);
+
+    updateZapRoutingPolicy({ order });
+  };
+
+  const setLimit = (wallet: ZapWallet, value: string) => {
+    updateZapRoutingPolicy({
+      dailyLimits: { ...zapRoutingPolicy.dailyLimits, [wallet]: amountOf(value) },
+    });
+  };
+
+  return (
+    <div id={props.id} class={styles.zapRouting}>
+      <CheckBox
+        checked={zapRoutingPolicy.enabled}
+        onChange={(enabled: boolean) => updateZapRoutingPolicy({ enabled })}
+        label={intl.formatMessage(t.enabled)}
+      />
+      <div class={styles.description}>
+        {intl.formatMessage(t.description)}
+      </div>
+
+      <Show when={zapRoutingPolicy.enabled}>
+        <div class={styles.caption}>{intl.formatMessage(t.order)}</div>
+        <For each={zapRoutingPolicy.order}>
+          {(wallet, index) => (
+            <div class={styles.row}>
+              <div class={styles.label}>{index() + 1}. {walletName(wallet)}</div>
+              <div class={styles.actions}>
+                <ButtonLink onClick={() => move(index(), -1)} disabled={index() === 0}>
+                  {intl.formatMessage(t.up)}
+                </ButtonLink>
+                <ButtonLink onClick={() => move(index(), 1)} disabled={index() === zapRoutingPolicy.order.length - 1}>
+                  {intl.formatMessage(t.down)}
+                </ButtonLink>
+              </div>
+            </div>
+          )}
+        </For>
+
+        <div class={styles.caption}>{intl.formatMessage(t.smallZaps)}</div>
+        <div class={styles.row}>
+          <select
+            value={zapRoutingPolicy.smallZapWallet || ''}
+            onChange={(e) => updateZapRoutingPolicy({ smallZapWallet: (e.currentTarget.value || null) as ZapWallet | null })}
+          >
+            <option value="">{intl.formatMessage(t.noPreference)}</option>
+            <For each={zapRoutingPolicy.order}>
+              {wallet => <option value={wallet}>{walletName(wallet)}</option>}
+            </For>
+          </select>
+          <div class={styles.label}>{intl.formatMessage(t.under)}</div>
+          <input
+            type="number"
+            min={0}
+            value={zapRoutingPolicy.smallZapThreshold}
+            onChange={(e) => updateZapRoutingPolicy({ smallZapThreshold: amountOf(e.currentTarget.value) })}
+          />
+          <div class={styles.label}>sats</div>
+        </div>
+
+        <CheckBox
+          checked={zapRoutingPolicy.fallback}
+          onChange={(fallback: boolean) => updateZapRoutingPolicy({ fallback })}
+          label={intl.formatMessage(t.fallback)}
+        />
+
+        <div class={styles.caption}>{intl.formatMessage(t.limits)}</div>
+        <For each={zapRoutingPolicy.order}>
+          {wallet => (
+            <div class={styles.row}>
+              <div class={styles.label}>{walletName(wallet)}</div>
+              <input
+                type="number"
+                min={0}
+                placeholder={intl.formatMessage(t.noLimit)}
+                value={zapRoutingPolicy.dailyLimits[wallet] || ''}
+                onChange={(e) => setLimit(wallet, e.currentTarget.value)}
+              />
+              <div class={styles.spent}>
+                {intl.formatMessage(t.spentToday, { amount: spentToday(wallet) })}
+              </div>
+            </div>
+          )}
+        </For>
+      </Show>
+
+      <div class={styles.caption}>{intl.formatMessage(t.log)}</div>
+      <Show
+        when={zapRoutingLog.length > 0}
+        fallback={<div class={styles.description}>{intl.formatMessage(t.emptyLog)}</div>}
+      >
+        <For each={zapRoutingLog}>
+          {entry => (
+            <div class={styles.logEntry}>
+              <div class={styles.row}>
+                <div class={styles.label}>{entry.amount.toLocaleString()} sats</div>
+                <div class={entry.wallet ? styles.paid : styles.failed}>
+                  {entry.wallet ?
+                    intl.formatMessage(t.paidBy, { wallet: walletName(entry.wallet) }) :
+                    intl.formatMessage(t.notPaid)}
+                </div>
+                <div class={styles.spent}>{longDate(Math.floor(entry.at / 1_000))}</div>
+              </div>
+              <For each={entry.attempts.filter(a => a.error)}>
+                {attempt => (
+                  <div class={styles.attempt}>
+                    {walletName(attempt.wallet)}: {attempt.error}
+                  </div>
+                )}
+              </For>
+            </div>
+          )}
+        </For>
+        <ButtonLink onClick={clearZapRoutingLog}>
+          {intl.formatMessage(t.clearLog)}
+        </ButtonLink>
+      </Show>
+    </div>
+  );
+}
+
+export default hookForDev(ZapRouting);
@@ -0,0 +1,129 @@
+import { useIntl } from '@cookbook/solid-intl';
+import { Component, createEffect, createSignal, For, Show } from 'solid-js';
+import { createStore } from 'solid-js/store';
+
+import { zapSplits as t } from '../../translations';
+import { ZapSplit } from '../../types/primal';
+import { APP_ID } from '../../App';
+import { fetchUserProfile } from '../../handleNotes';
+import { hookForDev } from '../../lib/devTools';
+import { hexToNpub, npubToHex } from '../../lib/keys';
+import { userName } from '../../stores/profile';
+import { useAccountContext } from '../../contexts/AccountContext';
+import { useToastContext } from '../Toaster/Toaster';
+
+import styles from './ZapSplitEditor.module.scss';
+import ButtonLink from '../Buttons/ButtonLink';
+
+const toPubkey = (value: string) =>
+  /^[0-9a-f]{64}$/.test(value) ? value : npubToHex(value);
+
+const ZapSplitEditor: Component<{
+  id?: string,
+  splits: ZapSplit[],
+  onChange: (splits: ZapSplit[]) => void,
+  onRemove: () => void,
+}> = (props) => {
+
+  const intl = useIntl();
+  const account = useAccountContext();
+  const toast = useToastContext();
+
+  const [recipient, setRecipient] = createSignal('');
+  const [names, setNames] = createStore<Record<string, string>>({});
+
+  createEffect(() => {
+    props.splits.forEach(({ pubkey }) => {
+      if (names[pubkey] !== undefined) return;
+
+      setNames(pubkey, () => '');
+
+      fetchUserProfile(account?.publicKey, pubkey, `zap_split_name_${pubkey}_${APP_ID}`).
+        then(user => setNames(pubkey, () => userName(user))).
+        catch(() => {});
+    });
+  });
+
+  const totalWeight = () => props.splits.reduce((acc, s) => acc + s.weight, 0);
+
+  const share = (weight: number) =>
+    totalWeight() > 0 ? Math.round(weight * 100 / totalWeight()) : 0;
+
+  const setWeight = (index: number, value: string) => {
+    const weight = Math.max(parseInt(value) || 0, 0);
+
+    props.onChange(props.splits.map((s, i) => i === index ? { ...s, weight } : s));
+  };
+
+  const addRecipient = () => {
+    const pubkey = toPubkey(recipient().trim());
+
+    if (!pubkey) {
+      toast?.sendWarning(intl.formatMessage(t.invalidRecipient));
+      return;
+    }
+
+    setRecipient('');
+
+    if (props.splits.find(s => s.pubkey === pubkey)) return;
+
+    props.onChange([ ...props.splits, { pubkey, weight: 1 } ]);
+  };
+
+  return (
+    <div id={props.id} class={styles.zapSplitEditor}>
+      <div class={styles.caption}>{intl.formatMessage(t.caption)}</div>
+
+      <For each={props.splits}>
+        {(split, index) => (
+          <div class={styles.recipient}>
+            <div class={styles.name}>
+              {names[split.pubkey] || hexToNpub(split.pubkey).slice(0, 16)}
+            </div>
+            <input
+              class={styles.weightInput}
+              type="number"
+              min={0}
+              value={split.weight}
+              onInput={(e) => setWeight(index(), e.currentTarget.value)}
+            />
+            <div class={styles.share}>{share(split.weight)}%</div>
+            <button
+              class={styles.removeRecipient}
+              onClick={() => props.onChange(props.splits.filter((_, i) => i !== index()))}
+            >
+              <div class={styles.closeIcon}></div>
+            </button>
+          </div>
+        )}
+      </For>
+
+      <div class={styles.recipient}>
+        <input
+          class={styles.recipientInput}
+          value={recipient()}
+          placeholder={intl.formatMessage(t.recipient)}
+          onInput={(e) => setRecipient(e.currentTarget.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addRecipient()}
+        />
+        <ButtonLink onClick={addRecipient} disabled={recipient().trim().length === 0}>
+          {intl.formatMessage(t.add)}
+        </ButtonLink>
+      </div>
+
+      <div class={styles.help}>{intl.formatMessage(t.help)}</div>
+
+      <Show when={props.splits.length > 0 && totalWeight() === 0}>
+        <div class={styles.warning}>{intl.formatMessage(t.noWeight)}</div>
+      </Show>
+
+      <div class={styles.footer}>
+        <ButtonLink onClick={props.onRemove}>
+          {intl.formatMessage(t.remove)}
+        </ButtonLink>
+      </div>
+    </div>
+  );
+}
+
+export default hookForDev(ZapSplitEditor);
@@ -96,26 +96,39 @@ export enum Kind  {
   EventDeletion = 5,
   Repost = 6,
   Reaction = 7,
+  Seal = 13,
+  PrivateDirectMessage = 14,
   Image = 20,
+  PollResponse = 1_018,
   ChannelCreation = 40,
   ChannelMetadata = 41,
   ChannelMessage = 42,
   ChannelHideMessage = 43,
   ChannelMuteUser = 44,
 
+  GiftWrap = 1_059,
+  Poll = 1_068,
   LiveChatMessage = 1_311,
   ReportContent = 1_984,
 
+  ZapPoll = 6_969,
   Subscribe = 7_001,
   Unsubscribe = 7_002,
+  CashuToken = 7_375,
+  CashuHistory = 7_376,
+  Nutzap = 9_321,
   Highlight = 9_802,
   Zap = 9_735,
 
   MuteList = 10_000,
   RelayList = 10_002,
   Bookmarks = 10_003,
+  NutzapInfo = 10_019,
+  DMRelayList = 10_050,
   Blossom = 10_063,
+  NWCInfo = 13_194,
   TierList = 17_000,
+  CashuWallet = 17_375,
   StreamMuteList = 10_555,
 
   CategorizedPeople = 30_000,
@@ -123,7 +136,14 @@ export enum Kind  {
   Settings = 30_078,
   LiveEvent = 30_311,
 
+  NWCRequest = 23_194,
+  NWCResponse = 23_195,
+  NWCNotification = 23_196,
+  NWCNotificationV2 = 23_197,
+  NostrConnect = 24_133,
+
   Draft = 31_234,
+  LiveChatModeration = 31_311,
   DVM = 31_990,
   Tier = 37_001,
 
@@ -188,6 +208,66 @@ export enum Kind  {
 
 export const relayConnectingTimeout = 1000;
 
+export const remoteSignerTimeout = 30 * second;
+export const remoteSignerAuthTimeout = 5 * minute;
+
+export const outboxMaxConnections = 12;
+export const outboxRelaysPerUser = 2;
+export const outboxIdleTimeout = 2 * minute;
+export const outboxRelayListTTL = 30 * minute;
+export const outboxRelayListTimeout = 3 * second;
+
+export const publishTimeout = 8 * second;
+export const publishRetryBase = 5 * second;
+export const publishRetryMax = 10 * minute;
+export const publishMaxAttempts = 8;
+export const publishQueueRetention = 7 * 24 * 60 * minute;
+
+export const uploadChunkSize = 1024 * 1024;
+export const uploadChunkTimeout = 30 * second;
+export const uploadChunkAttempts = 5;
+export const uploadConcurrency = 2;
+export const uploadRetention = 24 * 60 * minute;
+
+export const cacheReconnectBase = 250;
+export const cacheReconnectMax = 30 * second;
+export const cacheFailoverThreshold = 2;
+export const cacheEndpointCooldown = 2 * minute;
+export const cacheProbeTimeout = 5 * second;
+export const cacheStallTimeout = 20 * second;
+export const cacheOutageThreshold = 10 * second;
+
+export const relayFallbackTimeout = 6 * second;
+export const relayFallbackMaxAuthors = 500;
+
+export const eventStoreMaxSize = 50 * 1024 * 1024;
+export const eventStoreTrimRatio = 0.8;
+export const eventStoreFlushDelay = 2 * second;
+
+export const pollMinOptions = 2;
+export const pollMaxOptions = 10;
+export const pollDurations = [hour, 6 * hour, day, 3 * day, week];
+
+export const scheduledPostMinDelay = minute;
+export const scheduledPostMissedGrace = minute;
+// Timers are re-armed at least this often, long timeouts overflow and drift while asleep
+export const scheduledPostMaxTimer = hour;
+
+export const recurringZapReminder = day;
+export const recurringZapRetry = hour;
+export const recurringZapMaxTimer = hour;
+
+export const zapRoutingLogLimit = 100;
+
+export const nwcRequestTimeout = 15_000;
+// Payments can take a while to route
+export const nwcPaymentTimeout = 60_000;
+export const nwcTransactionsLimit = 20;
+
+export const cashuDefaultMint = 'https://mint.minibits.cash/Bitcoin';
+// How far back to look for nutzaps the first time a wallet is checked
+export const nutzapLookback = 30 * day;
+
 export enum NotificationType {
   NEW_USER_FOLLOWED_YOU = 1,//
   USER_UNFOLLOWED_YOU = 2,//
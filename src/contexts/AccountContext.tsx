@@ -37,6 +37,15 @@ import { clearSec, getStorage, getStoredProfile, readBookmarks, readEmojiHistory
 import { invalidateCache } from "../lib/reactionCache";
 import { connectRelays, connectToRelay, getDefaultRelays, getPreConfiguredRelays } from "../lib/relays";
 import { getPublicKey } from "../lib/nostrAPI";
+import { disconnectRemoteSigner, restoreRemoteSigner } from "../lib/remoteSigner";
+import { resumePublishQueue, setPublishQueueRelays } from "../lib/publishQueue";
+import { resumeUploads } from "../lib/uploadManager";
+import { loadRelayAuthPolicies } from "../lib/relayAuth";
+import { resumeScheduledPosts } from "../lib/scheduledPosts";
+import { resumeRecurringZaps, setRecurringZapWallet } from "../lib/recurringZaps";
+import { loadCashuWallet } from "../lib/cashu/cashuWallet";
+import { loadZapRouting } from "../lib/zapRouting";
+import { loadNWCBudgets } from "../lib/nwc";
 import EnterPinModal from "../components/EnterPinModal/EnterPinModal";
 import CreateAccountModal from "../components/CreateAccountModal/CreateAccountModal";
 import LoginModal from "../components/LoginModal/LoginModal";
@@ -142,6 +151,7 @@ export type AccountContextStore = {
     addToAllowlist: (pubkey: string | undefined, then?: () => void) => void,
     removeFromAllowlist: (pubkey: string | undefined) => void,
     setSec: (sec: string | undefined, force?: boolean) => void,
+    setRemoteSignerLogin: (pubkey: string) => void,
     logout: () => void,
     showGetStarted: () => void,
     saveEmoji: (emoji: EmojiOption) => void,
@@ -480,6 +490,22 @@ export function AccountProvider(props: { children: JSXElement }) {
     updateStore('publicKey', () => undefined);
     localStorage.removeItem('pubkey');
     clearSec();
+    disconnectRemoteSigner();
+  };
+
+  const setRemoteSignerLogin = (pubkey: string) => {
+    updateStore('sec', () => undefined);
+    storeSec(undefined);
+
+    setPublicKey(pubkey);
+
+    const storedUser = getStoredProfile(pubkey);
+
+    if (storedUser) {
+      updateStore('activeUser', () => ({...storedUser}));
+    }
+
+    updateAccountProfile(pubkey);
   };
 
   const setSec = (sec: string | undefined, force?: boolean) => {
@@ -689,6 +715,14 @@ export function AccountProvider(props: { children: JSXElement }) {
     const win = window as NostrWindow;
     const nostr = win.nostr;
 
+    // A paired remote signer takes precedence over both the extension and a stored nsec
+    const remoteSession = restoreRemoteSigner();
+
+    if (remoteSession) {
+      setRemoteSignerLogin(remoteSession.userPubkey);
+      return;
+    }
+
     const storedKey = localStorage.getItem('pubkey');
 
     if (storedKey) {
@@ -1930,6 +1964,51 @@ export function AccountProvider(props: { children: JSXElement }) {
 
 // EFFECTS --------------------------------------
 
+  onMount(() => {
+    resumePublishQueue();
+  });
+
+  createEffect(on(() => store.publicKey, (pubkey) => {
+    pubkey && resumeUploads(pubkey);
+  }));
+
+  createEffect(() => {
+    setPublishQueueRelays(store.relays);
+  });
+
+  createEffect(() => {
+    loadRelayAuthPolicies(store.publicKey);
+  });
+
+  createEffect(() => {
+    loadZapRouting(store.publicKey);
+  });
+
+  createEffect(() => {
+    loadNWCBudgets(store.publicKey);
+  });
+
+  createEffect(() => {
+    resumeScheduledPosts(store.publicKey);
+  });
+
+  createEffect(() => {
+    resumeRecurringZaps(store.publicKey);
+  });
+
+  createEffect(() => {
+    setRecurringZapWallet({
+      relays: store.activeRelays,
+      nwc: store.activeNWC,
+      walletType: store.activeWalletType,
+    });
+  });
+
+  createEffect(on(
+    () => [store.publicKey, Object.keys(store.relaySettings).length > 0],
+    () => loadCashuWallet(store.publicKey, Object.keys(store.relaySettings)),
+  ));
+
   createEffect(() => {
     const pubkey = store.publicKey;
 
@@ -2410,6 +2489,7 @@ const [store, updateStore] = createStore<AccountContextStore>({
     addToAllowlist,
     removeFromAllowlist,
     setSec,
+    setRemoteSignerLogin,
     logout,
     showGetStarted,
     saveEmoji,
@@ -1,4 +1,4 @@
-import { createStore } from "solid-js/store";
+import { createStore, reconcile } from "solid-js/store";
 import { Kind } from "../constants";
 import {
   createContext,
@@ -7,18 +7,21 @@ import {
   useContext
 } from "solid-js";
 import {
+  cacheUnavailable,
   isConnected,
   subsTo
 } from "../sockets";
 import {
   ContextChildren,
   DirectMessage,
+  DMProtocol,
   FeedPage,
   NostrEventContent,
   NostrMentionContent,
   NostrMessageEncryptedContent,
   NostrNoteActionsContent,
   NostrNoteContent,
+  NostrRelaySignedEvent,
   NostrStatsContent,
   NostrUserContent,
   NoteActions,
@@ -28,22 +31,36 @@ import {
   UserRelation,
 } from "../types/primal";
 import { APP_ID } from "../App";
-import { markAllAsRead, resetMessageCount, subscribeToMessagesStats, unsubscribeToMessagesStats } from "../lib/messages";
+import { fetchDMRelays, markAllAsRead, resetMessageCount, subscribeToMessagesStats, unsubscribeToMessagesStats, unwrapDirectMessage, wrapDirectMessage } from "../lib/messages";
+import { publishToRelayUrls, subscribeOnRelayUrls } from "../lib/relays";
 import { useAccountContext } from "./AccountContext";
 import { convertToUser, emptyUser } from "../stores/profile";
 import { getUserProfiles } from "../lib/profile";
 import { getEvents } from "../lib/feed";
 import { nip19 } from "../lib/nTools";
 import { convertToNotes } from "../stores/note";
-import { importEvents, sanitize, sendEvent } from "../lib/notes";
+import { broadcastThroughPrimal, importEvents, sanitize, sendEvent } from "../lib/notes";
 import { decrypt, encrypt } from "../lib/nostrAPI";
 import { saveLastDMConversations, saveLastDMRelation } from "../lib/localStore";
 import { useAppContext } from "./AppContext";
 import { calculateDMContactsOffset, calculateDMConversationOffset, handleSubscriptionAsync } from "../utils";
-import { DMContact, emptyPaging, fetchDMContacts, fetchDMConversation, fetchDMConversationNew, PaginationInfo } from "../megaFeeds";
+import {
+  DMContact,
+  emptyPaging,
+  fetchDMContacts,
+  fetchDMConversation,
+  fetchDMConversationNew,
+  fetchRelayDMContacts,
+  fetchRelayDMConversation,
+  FeedPaging,
+  PaginationInfo,
+} from "../megaFeeds";
 import { logError, logWarning } from "../lib/logger";
 import { fetchUserProfile } from "../handleNotes";
 import { hexToNpub } from "../lib/keys";
+import { useToastContext } from "../components/Toaster/Toaster";
+import { useIntl } from "@cookbook/solid-intl";
+import { messages as tMessages } from "../translations";
 
 
 export type DMCount = {
@@ -67,6 +84,10 @@ export type DMStore = {
   conversationPaging: PaginationInfo,
   isFetchingMessages: boolean,
 
+  privateMessages: Record<string, DirectMessage[]>,
+  dmRelays: Record<string, string[]>,
+  dmProtocol: DMProtocol,
+
   referecedUsers: Record<string, PrimalUser>,
   referecedNotes: Record<string, PrimalNote>,
   referecedReads: Record<string, PrimalArticle>,
@@ -86,6 +107,7 @@ export type DMStore = {
     sendMessage: (reciever: string, message: DirectMessage) => Promise<boolean>,
     resetAllMessages: () => Promise<boolean>,
     resetRelation: () => void,
+    setDmProtocol: (protocol: DMProtocol) => void,
   },
 
 };
@@ -111,6 +133,10 @@ export const emptyDMStore: () => Omit<DMStore, 'actions'> = () => ({
   conversationPaging: { ...emptyPaging() },
   isFetchingMessages: false,
 
+  privateMessages: {},
+  dmRelays: {},
+  dmProtocol: 'nip04',
+
   referecedUsers: {},
   referecedNotes: {},
   referecedReads: {},
@@ -131,6 +157,8 @@ export const DMProvider = (props: { children: ContextChildren }) => {
 
   const account = useAccountContext();
   const app = useAppContext();
+  const toaster = useToastContext();
+  const intl = useIntl();
 
   let unsubFromDMCount: (() => void) | undefined;
 
@@ -168,6 +196,8 @@ const setDmContacts = (contacts: DMContact[], relation: UserRelation, opts?: { u
       sort((a, b) => b.dmInfo.latest_at - a.dmInfo.latest_at);
   }
 
+  sorted = mergePrivateContacts(sorted, relation);
+
   updateStore('dmContacts', relation, () => [ ...sorted ]);
 
   const selected = contacts.find(c => c.pubkey === store.lastConversationContact?.pubkey);
@@ -205,14 +235,26 @@ const setDmRelation2 = (relation: UserRelation) => {
   replaceContacts(relation);
 }
 
+// Contacts come from the user's own relays while the cache is down
+const fetchContacts = (relation: UserRelation, paging: FeedPaging) => {
+  if (cacheUnavailable() && account?.publicKey) {
+    return fetchRelayDMContacts(account.relays, account.publicKey, relation, account.following);
+  }
+
+  return fetchDMContacts(
+    account?.publicKey,
+    relation,
+    `dm_contacts_${relation}_${APP_ID}`,
+    paging,
+  );
+};
+
 const replaceContacts = async (relation: UserRelation) => {
 
   const existing = store.dmContacts[relation] || [];
 
-  const { dmContacts, paging } = await fetchDMContacts(
-    account?.publicKey,
+  const { dmContacts, paging } = await fetchContacts(
     relation,
-    `dm_contacts_${relation}_${APP_ID}`,
     {
       limit: existing.length,
     }
@@ -226,10 +268,8 @@ const refreshContacts = async (relation: UserRelation) => {
 
   const existing = store.dmContacts[relation] || [];
 
-  const { dmContacts, paging } = await fetchDMContacts(
-    account?.publicKey,
+  const { dmContacts, paging } = await fetchContacts(
     relation,
-    `dm_contacts_${relation}_${APP_ID}`,
     {
       limit: existing.length,
     }
@@ -246,10 +286,8 @@ const getContacts = async (relation: UserRelation) => {
   const since = store.contactsPaging.since || 0;
   const offset = calculateDMContactsOffset(existing, store.conversationPaging)
 
-  const { dmContacts, paging } = await fetchDMContacts(
-    account?.publicKey,
+  const { dmContacts, paging } = await fetchContacts(
     relation,
-    `dm_contacts_${relation}_${APP_ID}`,
     {
       limit: 20,
       since,
@@ -270,10 +308,8 @@ const getContactsNextPage = async (relation: UserRelation) => {
 
   if (since === 0) return;
 
-  const { dmContacts, paging } = await fetchDMContacts(
-    account?.publicKey,
+  const { dmContacts, paging } = await fetchContacts(
     relation,
-    `dm_contacts_${relation}_${APP_ID}`,
     {
       limit: 20,
       since,
@@ -328,6 +364,9 @@ const selectContact = async (pubkey: string) => {
 
   await resetContactMessages(contact.pubkey, relation);
 
+  openPrivateInbox();
+  pickProtocolFor(contact.pubkey);
+
   updateStore('lastConversationContact', () => ({ ...contact }));
   saveLastDMConversations(account.publicKey, pubkey);
 
@@ -414,6 +453,7 @@ const decryptMessages = async (contact: string, encrypted: NostrMessageEncrypted
         content: sanitize(content),
         created_at: eMsg.created_at,
         id: eMsg.id,
+        protocol: 'nip04',
       };
 
       newMessages.push(msg);
@@ -518,24 +558,27 @@ const getConversation = async (contact: string | null | undefined) => {
   const subId = `dm_conversation_ ${APP_ID}`;
 
   const since = store.conversationPaging.since || 0;
-  const offset = calculateDMConversationOffset(store.messages, store.conversationPaging)
-
-  const { encryptedMessages, paging } = await fetchDMConversation(
-    account.publicKey,
-    contact,
-    subId,
-    {
-      limit: 20,
-      since,
-      offset
-    }
-  );
+  const offset = calculateDMConversationOffset(legacyMessages(), store.conversationPaging)
+
+  const { encryptedMessages, paging } = cacheUnavailable() && account.publicKey ?
+    await fetchRelayDMConversation(account.relays, account.publicKey, contact, { limit: 20, until: since }) :
+    await fetchDMConversation(
+      account.publicKey,
+      contact,
+      subId,
+      {
+        limit: 20,
+        since,
+        offset
+      }
+    );
 
   updateStore('encryptedMessages', () => [...encryptedMessages]);
   updateStore('conversationPaging', () => ({ ...paging }));
 
   decryptMessages(contact, store.encryptedMessages, (newMessages) => {
-    updateStore('messages', (conv) => [ ...conv, ...newMessages ]);
+    updateStore('messages', (conv) => mergeMessages([ ...conv, ...newMessages ]));
+    insertPrivateMessages(contact);
     updateStore('isFetchingMessages', () => false);
   });
 };
@@ -556,16 +599,18 @@ const getConversationNewMessages = async (contact: string | null | undefined) =>
   const since = store.conversationPaging.until || 0;
   // const offset = calculateDMConversationOffset(store.messages, store.conversationPaging)
 
-  const { encryptedMessages, paging } = await fetchDMConversationNew(
-    account?.publicKey,
-    contact,
-    subId,
-    {
-      limit: 20,
-      since,
-      offset: 0,
-    }
-  );
+  const { encryptedMessages, paging } = cacheUnavailable() && account?.publicKey ?
+    await fetchRelayDMConversation(account.relays, account.publicKey, contact, { limit: 20 }) :
+    await fetchDMConversationNew(
+      account?.publicKey,
+      contact,
+      subId,
+      {
+        limit: 20,
+        since,
+        offset: 0,
+      }
+    );
 
   updateStore('encryptedMessages', () => [...encryptedMessages]);
   updateStore('conversationPaging', () => ({ ...paging }));
@@ -574,7 +619,7 @@ const getConversationNewMessages = async (contact: string | null | undefined) =>
     const existing = store.messages.map(m => m.id);
     const filtered = newMessages.filter(m => !existing.includes(m.id));
 
-    updateStore('messages', (conv) => [ ...filtered, ...conv ]);
+    updateStore('messages', (conv) => mergeMessages([ ...filtered, ...conv ]));
     updateStore('isFetchingMessages', () => false);
 
     resetContactMessages(contact, store.lastConversationRelation);
@@ -622,6 +667,10 @@ const sendMessage = async (receiver: string, message: DirectMessage) => {
     return false;
   }
 
+  if (store.dmProtocol === 'nip17') {
+    return await sendPrivateMessage(receiver, message);
+  }
+
   try {
     const content = await encrypt(receiver, message.content);
 
@@ -640,7 +689,7 @@ const sendMessage = async (receiver: string, message: DirectMessage) => {
       const unsub = subsTo(subId, {
         onEose: () => {
           unsub();
-          const msg = { ...message, content: sanitize(message.content) };
+          const msg: DirectMessage = { ...message, content: sanitize(message.content), protocol: 'nip04' };
           addToConversation([msg]);
 
           refreshContacts(store.lastConversationRelation);
@@ -657,6 +706,288 @@ const sendMessage = async (receiver: string, message: DirectMessage) => {
   }
 };
 
+// NIP-17 ----------------------------------------
+
+let unsubFromPrivateInbox: (() => void) | undefined;
+let privateInboxOwner = '';
+let seenGiftWraps = new Set<string>();
+let privateContacts: Record<string, DMContact> = {};
+
+// Protocols the user picked by hand, per contact
+let chosenProtocols: Record<string, DMProtocol> = {};
+
+const userRelayUrls = (mode: 'read' | 'write') => {
+  const settings = account?.relaySettings || {};
+
+  return Object.keys(settings).filter(url => settings[url]?.[mode]);
+};
+
+const getDMRelays = async (pubkey: string) => {
+  if (store.dmRelays[pubkey]) return store.dmRelays[pubkey];
+
+  const relays = await fetchDMRelays(pubkey, `dm_relays_${pubkey}_${APP_ID}`);
+
+  updateStore('dmRelays', () => ({ [pubkey]: relays }));
+
+  return relays;
+};
+
+const pickProtocolFor = async (pubkey: string) => {
+  if (chosenProtocols[pubkey]) {
+    updateStore('dmProtocol', () => chosenProtocols[pubkey]);
+    return;
+  }
+
+  const relays = await getDMRelays(pubkey);
+
+  // The user may have picked one, or moved on to another contact, in the meantime
+  if (chosenProtocols[pubkey] || store.lastConversationContact?.pubkey !== pubkey) return;
+
+  // Only default to NIP-17 when the contact advertises where they expect to receive gift wraps
+  updateStore('dmProtocol', () => relays.length > 0 ? 'nip17' : 'nip04');
+};
+
+const setDmProtocol = (protocol: DMProtocol) => {
+  const pubkey = store.lastConversationContact?.pubkey;
+
+  if (pubkey) {
+    chosenProtocols[pubkey] = protocol;
+  }
+
+  updateStore('dmProtocol', () => protocol);
+};
+
+const legacyMessages = () => store.messages.filter(m => m.protocol === 'nip04');
+
+const mergeMessages = (messages: DirectMessage[]) => {
+  const unique = messages.reduce<Record<string, DirectMessage>>((acc, m) => ({ ...acc, [m.id]: m }), {});
+
+  return Object.values(unique).sort((a, b) => b.created_at - a.created_at);
+};
+
+const oldestLoadedMessage = () => {
+  // With no more legacy pages to load everything older is already on screen
+  if (!store.conversationPaging.since) return 0;
+
+  const legacy = legacyMessages();
+
+  return legacy.length > 0 ? legacy[legacy.length - 1].created_at : 0;
+};
+
+const insertPrivateMessages = (contact: string) => {
+  if (store.lastConversationContact?.pubkey !== contact) return;
+
+  const oldest = oldestLoadedMessage();
+  const messages = (store.privateMessages[contact] || []).filter(m => m.created_at >= oldest);
+
+  if (messages.length === 0) return;
+
+  updateStore('messages', (conv) => mergeMessages([ ...conv, ...messages ]));
+};
+
+const mergePrivateContacts = (contacts: DMContact[], relation: UserRelation) => {
+  let merged = [ ...contacts ];
+
+  Object.values(privateContacts).forEach((pc) => {
+    const isFollowing = account?.following.includes(pc.pubkey);
+
+    if ((relation === 'follows') !== !!isFollowing && relation !== 'any') return;
+
+    const index = merged.findIndex(c => c.pubkey === pc.pubkey);
+
+    if (index > -1) {
+      const existing = merged[index];
+
+      if (existing.dmInfo.latest_at < pc.dmInfo.latest_at) {
+        merged[index] = { ...existing, dmInfo: { ...existing.dmInfo, latest_at: pc.dmInfo.latest_at } };
+      }
+      return;
+    }
+
+    const position = merged.findIndex(c => c.dmInfo.latest_at < pc.dmInfo.latest_at);
+
+    if (position < 0) {
+      merged.push({ ...pc });
+    }
+    else {
+      merged.splice(position, 0, { ...pc });
+    }
+  });
+
+  return merged;
+};
+
+const trackPrivateContact = async (pubkey: string, latest_at: number, eventId: string) => {
+  const existing = privateContacts[pubkey];
+
+  if (existing) {
+    if (existing.dmInfo.latest_at < latest_at) {
+      privateContacts[pubkey] = { ...existing, dmInfo: { ...existing.dmInfo, latest_at, latest_event_id: eventId } };
+    }
+  }
+  else {
+    privateContacts[pubkey] = {
+      pubkey,
+      user: { ...emptyUser(pubkey) },
+      dmInfo: { cnt: 0, latest_at, latest_event_id: eventId },
+    };
+
+    try {
+      const user = await fetchUserProfile(account?.publicKey, pubkey, `dm_private_contact_${pubkey}_${APP_ID}`);
+      privateContacts[pubkey] = { ...privateContacts[pubkey], user };
+    } catch (e) {
+      logWarning('Failed to fetch profile for private DM contact: ', pubkey, e);
+    }
+  }
+
+  const relation = store.lastConversationRelation;
+  updateStore('dmContacts', relation, (cs) => mergePrivateContacts(cs, relation));
+};
+
+const addPrivateMessage = (contact: string, message: DirectMessage) => {
+  const existing = store.privateMessages[contact] || [];
+
+  if (existing.find(m => m.id === message.id)) return;
+
+  updateStore('privateMessages', () => ({ [contact]: mergeMessages([ ...existing, message ]) }));
+
+  if (store.lastConversationContact?.pubkey === contact && message.created_at >= oldestLoadedMessage()) {
+    updateStore('messages', (conv) => mergeMessages([ ...conv, message ]));
+  }
+
+  trackPrivateContact(contact, message.created_at, message.id);
+};
+
+const handleGiftWrap = async (wrap: NostrRelaySignedEvent) => {
+  const me = account?.publicKey;
+
+  if (!me || seenGiftWraps.has(wrap.id)) return;
+
+  seenGiftWraps.add(wrap.id);
+
+  try {
+    const rumor = await unwrapDirectMessage(wrap);
+
+    const participants = Array.from(new Set([
+      rumor.pubkey,
+      ...rumor.tags.filter(t => t[0] === 'p').map(t => t[1]),
+    ])).filter(pk => pk !== me);
+
+    // Group conversations are not supported yet
+    if (participants.length > 1) return;
+
+    const contact = participants[0] || me;
+
+    const content = sanitize(rumor.content);
+    const message: DirectMessage = {
+      id: rumor.id,
+      sender: rumor.pubkey,
+      content,
+      created_at: rumor.created_at,
+      protocol: 'nip17',
+    };
+
+    if (content.includes('nostr:')) {
+      await parseForMentions([message]);
+    }
+
+    addPrivateMessage(contact, message);
+  } catch (e) {
+    logWarning('Failed to unwrap private message: ', wrap.id, e);
+  }
+};
+
+const openPrivateInbox = async () => {
+  const pubkey = account?.publicKey;
+
+  if (!pubkey || privateInboxOwner === pubkey) return;
+
+  closePrivateInbox();
+  privateInboxOwner = pubkey;
+
+  const dmRelays = await getDMRelays(pubkey);
+  const urls = dmRelays.length > 0 ? dmRelays : userRelayUrls('read');
+
+  unsubFromPrivateInbox = subscribeOnRelayUrls(
+    urls,
+    [{ kinds: [Kind.GiftWrap], '#p': [pubkey] }],
+    account?.relays || [],
+    handleGiftWrap,
+  );
+};
+
+const closePrivateInbox = () => {
+  unsubFromPrivateInbox && unsubFromPrivateInbox();
+  unsubFromPrivateInbox = undefined;
+  privateInboxOwner = '';
+  seenGiftWraps = new Set<string>();
+  privateContacts = {};
+  updateStore('privateMessages', reconcile({}));
+};
+
+const publishGiftWrap = async (wrap: NostrRelaySignedEvent, urls: string[]) => {
+  if (account?.proxyThroughPrimal) {
+    try {
+      return await broadcastThroughPrimal(wrap, urls);
+    } catch (e) {
+      logError('Failed to broadcast gift wrap: ', e);
+      return false;
+    }
+  }
+
+  const accepted = await publishToRelayUrls(wrap, urls, account?.relays);
+
+  return accepted.length > 0;
+};
+
+const sendPrivateMessage = async (receiver: string, message: DirectMessage) => {
+  const sender = account?.publicKey;
+
+  if (!sender) return false;
+
+  try {
+    const receiverRelays = await getDMRelays(receiver);
+
+    // NIP-17: without a kind 10050 list the receiver is not listening for gift wraps anywhere
+    if (receiverRelays.length === 0) {
+      logWarning('Receiver has no DM relay list, not sending NIP-17 message: ', receiver);
+      chosenProtocols[receiver] = 'nip04';
+      if (store.lastConversationContact?.pubkey === receiver) {
+        updateStore('dmProtocol', () => 'nip04');
+      }
+      toaster?.sendWarning(intl.formatMessage(tMessages.nip17Unavailable));
+      return false;
+    }
+
+    const { rumor, receiverWrap, senderWrap } = await wrapDirectMessage(sender, receiver, message.content);
+
+    const senderRelays = await getDMRelays(sender);
+
+    const success = await publishGiftWrap(receiverWrap, receiverRelays);
+
+    if (!success) return false;
+
+    seenGiftWraps.add(senderWrap.id);
+    publishGiftWrap(
+      senderWrap,
+      senderRelays.length > 0 ? senderRelays : userRelayUrls('write'),
+    );
+
+    addPrivateMessage(receiver, {
+      id: rumor.id,
+      sender,
+      content: sanitize(message.content),
+      created_at: rumor.created_at,
+      protocol: 'nip17',
+    });
+
+    return true;
+  } catch (reason) {
+    logError('Failed to send private message: ', reason);
+    return false;
+  }
+};
+
 const resetAllMessages = async () => {
   return await markAllAsRead(`dm_all_read_${APP_ID}`);
 };
@@ -774,6 +1105,13 @@ createEffect(() => {
   }
 });
 
+createEffect(on(() => account?.publicKey, (v, p) => {
+  if (v === p) return;
+
+  chosenProtocols = {};
+  closePrivateInbox();
+}, { defer: true }));
+
 createEffect(on(() => store.lastConversationContact?.dmInfo.cnt, (v, p) => {
   if (!v || v === p || (p && v < p)) return;
 
@@ -799,6 +1137,7 @@ createEffect(on(() => store.lastConversationContact?.dmInfo.cnt, (v, p) => {
       sendMessage,
       resetAllMessages,
       resetRelation,
+      setDmProtocol,
     },
   });
 
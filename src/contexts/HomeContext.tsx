@@ -1,4 +1,4 @@
-import { createContext, createEffect, useContext } from "solid-js";
+import { createContext, createEffect, on, useContext } from "solid-js";
 import { createStore, reconcile, unwrap } from "solid-js/store";
 import { APP_ID } from "../App";
 import { minKnownProfiles } from "../constants";
@@ -11,7 +11,16 @@ import {
   SelectionOption,
 } from "../types/primal";
 import { useAccountContext } from "./AccountContext";
-import { emptyPaging, fetchMegaFeed, fetchScoredContent, filterAndSortNotes, PaginationInfo } from "../megaFeeds";
+import {
+  emptyPaging,
+  fetchMegaFeed,
+  fetchRelayFollowingFeed,
+  fetchScoredContent,
+  filterAndSortNotes,
+  PaginationInfo,
+  readStoredMegaFeed,
+} from "../megaFeeds";
+import { cacheUnavailable } from "../sockets";
 import { saveStoredFeed } from "../lib/localStore";
 import { calculateNotesOffset } from "../utils";
 
@@ -160,6 +169,9 @@ export const HomeProvider = (props: { children: ContextChildren }) => {
       return;
     }
 
+    // New notes come in through a fresh fetch while on relays only
+    if (cacheUnavailable()) return;
+
     let since = store.paging.future.until || store.paging.notes.until || 0;
 
     const lastPageNotes = store.futureNotes.length > 0 ?
@@ -201,14 +213,58 @@ export const HomeProvider = (props: { children: ContextChildren }) => {
     clearFuture();
   };
 
+  // Bumped on every first page fetch, so a late read from the event store doesn't land on newer notes
+  let hydration = 0;
+  let showingStoredNotes = false;
+
+  const showStoredNotes = async (pubkey: string, spec: string) => {
+    const attempt = ++hydration;
+
+    const stored = await readStoredMegaFeed(pubkey, spec);
+
+    if (!stored || attempt !== hydration || store.notes.length > 0) return;
+
+    showingStoredNotes = true;
+    updateStore('notes', () => filterAndSortNotes(stored.notes, stored.paging));
+  };
+
+  const dropStoredNotes = () => {
+    hydration++;
+
+    if (!showingStoredNotes) return;
+
+    showingStoredNotes = false;
+    updateStore('notes', () => []);
+  };
+
   const fetchNotes = async (spec: string, until = 0, includeIsFetching = true) => {
 
     updateStore('isFetching' , () => includeIsFetching);
 
     const pubkey = account?.publicKey || minKnownProfiles.names['primal'];
 
+    if (until === 0) {
+      showStoredNotes(pubkey, spec);
+    }
+
     const offset = calculateNotesOffset(store.notes, store.paging.notes);
 
+    if (cacheUnavailable()) {
+      // Only the following feed can be built without the cache
+      const { notes, paging } = await fetchRelayFollowingFeed(
+        account?.relays || [],
+        account?.following || [],
+        { until, limit: 20 },
+      );
+
+      until === 0 && dropStoredNotes();
+
+      updateStore('paging', 'notes', () => ({ ...paging }));
+      updateStore('notes', (ns) => [ ...ns, ...filterAndSortNotes(notes, paging)]);
+      updateStore('isFetching', () => false);
+      return;
+    }
+
     const { notes, paging } = await fetchMegaFeed(
       pubkey,
       spec,
@@ -222,6 +278,8 @@ export const HomeProvider = (props: { children: ContextChildren }) => {
 
     const sortedNotes = filterAndSortNotes(notes, paging);
 
+    until === 0 && dropStoredNotes();
+
     updateStore('paging', 'notes', () => ({ ...paging }));
     updateStore('notes', (ns) => [ ...ns, ...sortedNotes]);
     updateStore('isFetching', () => false);
@@ -314,6 +372,13 @@ export const HomeProvider = (props: { children: ContextChildren }) => {
     },
   });
 
+// EFFECTS --------------------------------------
+
+  // Reload the feed whenever we switch to or from relay-only mode
+  createEffect(on(cacheUnavailable, () => {
+    refetchSelectedFeed();
+  }, { defer: true }));
+
 // RENDER -------------------------------------
 
   return (
@@ -60,7 +60,10 @@ import { readRecomendedUsers, saveRecomendedUsers } from "../lib/localStore";
 import { fetchUserZaps } from "../handleFeeds";
 import { convertToUser } from "../stores/profile";
 import ProfileAbout from "../components/ProfileAbout/ProfileAbout";
-import { emptyPaging, fetchMegaFeed, filterAndSortDrafts, filterAndSortNotes, filterAndSortReads, filterAndSortZaps, MegaFeedResults, PaginationInfo } from "../megaFeeds";
+import { emptyPaging, fetchMegaFeed, fetchOutboxNotes, fetchRelayProfileNotes, filterAndSortDrafts, filterAndSortNotes, filterAndSortReads, filterAndSortZaps, MegaFeedResults, PaginationInfo, readStoredMegaFeed } from "../megaFeeds";
+import { fetchMetadataFromRelays } from "../lib/relayFallback";
+import { queryStoredEvents, readStoredEvent, storeEvents } from "../lib/eventStore";
+import { cacheUnavailable } from "../sockets";
 import { calculateReadsOffset, handleSubscription } from "../utils";
 import { decrypt44 } from "../lib/nostrAPI";
 import { updatePage } from "../services/StoreService";
@@ -297,6 +300,30 @@ export const ProfileProvider = (props: { children: ContextChildren }) => {
 
 // ACTIONS --------------------------------------
 
+  // Bumped on every first page fetch, so a late read from the event store doesn't land on newer notes
+  let hydration = 0;
+  let showingStoredNotes = false;
+
+  const showStoredNotes = async (specification: string) => {
+    const attempt = ++hydration;
+
+    const stored = await readStoredMegaFeed(account?.publicKey, specification);
+
+    if (!stored || attempt !== hydration || store.notes.length > 0) return;
+
+    showingStoredNotes = true;
+    updateStore('notes', () => filterAndSortNotes(stored.notes, stored.paging));
+  };
+
+  const dropStoredNotes = () => {
+    hydration++;
+
+    if (!showingStoredNotes) return;
+
+    showingStoredNotes = false;
+    updateStore('notes', () => []);
+  };
+
   const getProfileMegaFeed = async (pubkey: string | undefined, tab: string, until = 0, limit = 20, offset = 0, minwords = 0) => {
     if (!pubkey) return;
 
@@ -310,6 +337,21 @@ export const ProfileProvider = (props: { children: ContextChildren }) => {
 
       updateStore('isFetching', () => true);
 
+      if (until === 0) {
+        showStoredNotes(JSON.stringify(specification));
+      }
+
+      if (cacheUnavailable()) {
+        const { notes, paging } = await fetchRelayProfileNotes(account?.relays || [], pubkey, false, { limit, until });
+
+        until === 0 && dropStoredNotes();
+
+        updateStore('paging', 'notes', () => ({ ...paging }));
+        updateStore('notes', (ns) => [ ...ns, ...filterAndSortNotes(notes, paging)]);
+        updateStore('isFetching', () => false);
+        return;
+      }
+
       const { notes, paging } = await fetchMegaFeed(
         account?.publicKey,
         JSON.stringify(specification),
@@ -321,9 +363,22 @@ export const ProfileProvider = (props: { children: ContextChildren }) => {
         },
       );
 
-      const sortedNotes = filterAndSortNotes(notes, paging);
+      let sortedNotes = filterAndSortNotes(notes, paging);
+      let notesPaging = paging;
 
-      updateStore('paging', 'notes', () => ({ ...paging }));
+      // The cache server doesn't have this author's notes, ask their own relays.
+      // An empty later page is just the end of the feed.
+      if (sortedNotes.length === 0 && until === 0) {
+        const outbox = await fetchOutboxNotes(pubkey, { limit, until });
+        const known = store.notes.map(n => n.post.id);
+
+        sortedNotes = filterAndSortNotes(outbox.notes, outbox.paging).filter(n => !known.includes(n.post.id));
+        notesPaging = outbox.paging;
+      }
+
+      until === 0 && dropStoredNotes();
+
+      updateStore('paging', 'notes', () => ({ ...notesPaging }));
       updateStore('notes', (ns) => [ ...ns, ...sortedNotes]);
       updateStore('isFetching', () => false);
       return;
@@ -339,6 +394,15 @@ export const ProfileProvider = (props: { children: ContextChildren }) => {
 
       updateStore('isFetchingReplies', () => true);
 
+      if (cacheUnavailable()) {
+        const { notes, paging } = await fetchRelayProfileNotes(account?.relays || [], pubkey, true, { limit, until });
+
+        updateStore('paging', 'replies', () => ({ ...paging }));
+        updateStore('replies', (ns) => [ ...ns, ...filterAndSortNotes(notes, paging)]);
+        updateStore('isFetchingReplies', () => false);
+        return;
+      }
+
       const { notes, paging } = await fetchMegaFeed(
         account?.publicKey,
         JSON.stringify(specification),
@@ -876,6 +940,24 @@ export const ProfileProvider = (props: { children: ContextChildren }) => {
         updateStore('commonFollowers', () => []);
       });
 
+      showStoredProfile(profileKey);
+
+      if (cacheUnavailable()) {
+        // Without the cache there are no stats, scored notes or common followers to show
+        const metadata = await fetchMetadataFromRelays(account?.relays || [], [profileKey]) as NostrEventContent[];
+
+        storeEvents(metadata);
+        metadata.forEach(handleProfileInfoEvent);
+        handleProfileInfoEose();
+
+        batch(() => {
+          updateStore('isFetchingSidebarNotes', () => false);
+          updateStore('isFetchingSidebarArticles', () => false);
+          updateStore('isProfileFollowing', () => (account?.following || []).includes(profileKey));
+        });
+        return;
+      }
+
       const profileInfoId = `profile_info_${APP_ID}`;
       const profileScoredId = `profile_scored_${APP_ID}`;
       const profileCommonFollowersId = `profile_common_followers_${APP_ID}`;
@@ -883,7 +965,10 @@ export const ProfileProvider = (props: { children: ContextChildren }) => {
       handleSubscription(
         profileInfoId,
         () => getUserProfileInfo(profileKey, account?.publicKey, profileInfoId),
-        handleProfileInfoEvent,
+        (content: NostrEventContent) => {
+          storeEvents([content]);
+          handleProfileInfoEvent(content);
+        },
         handleProfileInfoEose,
       );
 
@@ -925,6 +1010,19 @@ export const ProfileProvider = (props: { children: ContextChildren }) => {
     }
   }
 
+  /**
+   * Shows the stored metadata and stats of a profile until the cache answers.
+   */
+  const showStoredProfile = async (pubkey: string) => {
+    const [metadata] = await queryStoredEvents({ authors: [pubkey], kinds: [Kind.Metadata], limit: 1 });
+    const stats = await readStoredEvent(`${Kind.UserStats}:${pubkey}`);
+
+    if (store.profileKey !== pubkey || store.isProfileFetched) return;
+
+    metadata && handleProfileInfoEvent(metadata);
+    stats && handleProfileInfoEvent(stats);
+  };
+
   const resetProfile = () => {
     updateStore('sidebarNotes', () => ({ ...emptyPage }));
     updateStore('sidebarArticles', () => ({ ...emptyPage }));
@@ -4,6 +4,7 @@ import { breezWallet, BreezWalletState, BreezPaymentInfo } from '../lib/breezWal
 import { loadEncryptedSeed, saveEncryptedSeed, loadSparkConfig, saveSparkConfig, isSparkWalletConfigured, SparkWalletConfig } from '../lib/spark/sparkStorage';
 import { publishBackup, fetchBackup, syncToRelays, syncFromRelays, hasBackup } from '../lib/spark/sparkBackup';
 import { publishZapReceiptForPayment, handleIncomingZap } from '../lib/spark/sparkZapReceipt';
+import { requestSparkUnlock, sparkGuard } from '../lib/spark/sparkSpendingGuard';
 import { useAccountContext } from './AccountContext';
 import { useZapNotification } from './ZapNotificationContext';
 import { logError, logInfo, logWarning } from '../lib/logger';
@@ -207,6 +208,13 @@ export const SparkWalletProvider: ParentComponent = (props) => {
   // Event listener ID for cleanup
   let eventListenerId: string | null = null;
 
+  /**
+   * Keep the balance hidden while the spending guard has the wallet locked
+   */
+  createEffect(() => {
+    setStore('isBalanceHidden', sparkGuard.locked || loadBalanceVisibility());
+  });
+
   /**
    * Auto-connect on mount if wallet is configured
    */
@@ -895,6 +903,11 @@ export const SparkWalletProvider: ParentComponent = (props) => {
    * Toggle balance visibility
    */
   const toggleBalanceVisibility = () => {
+    if (sparkGuard.locked) {
+      requestSparkUnlock('Unlock your wallet to show the balance.');
+      return;
+    }
+
     const newVisibility = !store.isBalanceHidden;
     setStore('isBalanceHidden', newVisibility);
     try {
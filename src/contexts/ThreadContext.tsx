@@ -14,6 +14,7 @@ import {
 import {
   ContextChildren,
   FeedPage,
+  MegaFeedPage,
   NostrEventContent,
   NostrMentionContent,
   NostrNoteActionsContent,
@@ -30,6 +31,10 @@ import { useAccountContext } from "./AccountContext";
 import { getEventQuoteStats, getEventZaps, parseLinkPreviews, setLinkPreviews } from "../lib/notes";
 import { handleSubscription, parseBolt11 } from "../utils";
 import { getUserProfiles } from "../lib/profile";
+import { fetchThreadFromRelays } from "../lib/relayFallback";
+import { readStoredPage, storePage } from "../lib/eventStore";
+import { emptyMegaFeedPage, pageResolve, updateFeedPage } from "../megaFeeds";
+import { cacheUnavailable } from "../sockets";
 
 export type ThreadContextStore = {
   primaryNote: PrimalNote | undefined,
@@ -105,17 +110,71 @@ export const ThreadProvider = (props: { children: ContextChildren }) => {
     updateStore('isFetching', () => false);
   };
 
+  // Bumped on every thread fetch, so a late read from the event store doesn't land on newer notes
+  let hydration = 0;
+  let showingStoredThread = false;
+
+  const threadPageKey = (noteId: string) => `thread:${account?.publicKey || ''}:${noteId}`;
+
+  const showStoredThread = async (noteId: string) => {
+    const attempt = ++hydration;
+
+    const events = await readStoredPage(threadPageKey(noteId));
+
+    if (!events || attempt !== hydration || store.notes.length > 0) return;
+
+    let page: MegaFeedPage = { ...emptyMegaFeedPage() };
+
+    events.forEach(e => updateFeedPage(page, e));
+
+    const { notes, users } = pageResolve(page);
+
+    showingStoredThread = true;
+    updateStore('users', () => [ ...users ]);
+    updateStore('notes', () => sortByRecency(notes));
+  };
+
+  const dropStoredThread = () => {
+    hydration++;
+
+    if (!showingStoredThread) return;
+
+    showingStoredThread = false;
+    updateStore('notes', () => []);
+  };
+
   const fetchNotes = (noteId: string, until = 0, limit = 100) => {
     clearNotes();
     updateStore('noteId', noteId)
 
+    showStoredThread(noteId);
+
+    if (cacheUnavailable()) {
+      fetchThreadFromRelays(account?.relays || [], noteId).then((events) => {
+        events.forEach(e => handleThreadEvent(e as NostrEventContent));
+        dropStoredThread();
+        handleThreadEose();
+      });
+
+      updateStore('isFetching', () => true);
+      return;
+    }
+
     const threadId = `thread_${APP_ID}`;
+    let received: NostrEventContent[] = [];
 
     handleSubscription(
       threadId,
       () => getThread(account?.publicKey, noteId, threadId),
-      handleThreadEvent,
-      handleThreadEose,
+      (content: NostrEventContent) => {
+        received.push(content);
+        handleThreadEvent(content);
+      },
+      () => {
+        storePage(threadPageKey(noteId), received);
+        dropStoredThread();
+        handleThreadEose();
+      },
     )
 
     fetchTopZaps(noteId);
@@ -183,7 +242,7 @@ export const ThreadProvider = (props: { children: ContextChildren }) => {
       return;
     }
 
-    if ([Kind.Text, Kind.Repost].includes(content.kind)) {
+    if ([Kind.Text, Kind.Repost, Kind.Poll, Kind.ZapPoll].includes(content.kind)) {
       const message = content as NostrNoteContent;
 
       if (store.lastNote?.id !== message.id) {
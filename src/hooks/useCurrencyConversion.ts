@@ -1,5 +1,6 @@
 import { getFiatValue } from '@getalby/lightning-tools';
 import { createSignal, createEffect, on } from 'solid-js';
+import { recordFiatRate } from '../lib/currency';
 
 /**
  * Hook to convert satoshis to fiat currency
@@ -25,6 +26,7 @@ export function useCurrencyConversion(sats: () => number, currency: () => string
 
       getFiatValue({ satoshi: currentSats, currency: currentCurrency })
         .then((value: number) => {
+          currentSats > 0 && recordFiatRate(currentCurrency, value / currentSats);
           setFiatValue(value);
           setIsLoading(false);
         })
@@ -18,12 +18,17 @@ import initBreezSDK, {
   EventListener,
   PrepareSendPaymentRequest,
   PrepareSendPaymentResponse,
+  SendPaymentOptions,
+  OnchainConfirmationSpeed,
+  LnurlWithdrawRequestDetails,
+  LnurlAuthRequestDetails,
   LightningAddressInfo,
   RegisterLightningAddressRequest,
   CheckLightningAddressRequest,
 } from '@breeztech/breez-sdk-spark/web';
 import { logError, logInfo, logWarning } from './logger';
 import { clearBreezStorage, needsStorageMigration } from './clearBreezStorage';
+import { authorizeSparkSpend, recordSparkSpend, spendNotConfirmed } from './spark/sparkSpendingGuard';
 import '../lib/resetBreezWallet'; // Load emergency reset utility
 
 /**
@@ -293,6 +298,8 @@ class BreezWalletService {
 
       const prepareResponse: PrepareSendPaymentResponse = await this.sdk!.prepareSendPayment(prepareRequest);
 
+      await this.authorizeSpend(Number(prepareResponse.amount));
+
       // Execute the payment
       const sendRequest: SendPaymentRequest = {
         prepareResponse,
@@ -300,6 +307,8 @@ class BreezWalletService {
 
       const response: SendPaymentResponse = await this.sdk!.sendPayment(sendRequest);
 
+      recordSparkSpend(Number(prepareResponse.amount));
+
       logInfo('[BreezWallet] Payment sent successfully');
 
       // Update balance after payment
@@ -533,17 +542,131 @@ class BreezWalletService {
     await this.ensureConnected();
 
     try {
+      await this.authorizeSpend(prepareResponse.amountSats);
+
       const request = {
         prepareResponse,
       };
 
-      return await this.sdk!.lnurlPay(request);
+      const response = await this.sdk!.lnurlPay(request);
+
+      recordSparkSpend(prepareResponse.amountSats);
+
+      return response;
     } catch (error) {
       logError('[BreezWallet] Failed to execute LNURL pay:', error);
       throw error;
     }
   }
 
+  /**
+   * Prepare a payment to any destination the SDK can pay
+   * (invoice, Spark address or invoice, bitcoin address)
+   * @param paymentRequest - Payment destination
+   * @param amountSats - Amount in sats, required when the destination carries none
+   * @returns Prepared payment, including fee quotes
+   */
+  async preparePayment(paymentRequest: string, amountSats?: number): Promise<PrepareSendPaymentResponse> {
+    await this.ensureConnected();
+
+    try {
+      const request: PrepareSendPaymentRequest = { paymentRequest };
+
+      if (amountSats) {
+        request.amount = BigInt(amountSats);
+      }
+
+      return await this.sdk!.prepareSendPayment(request);
+    } catch (error) {
+      logError('[BreezWallet] Failed to prepare payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a prepared payment
+   * @param prepareResponse - Response from preparePayment
+   * @param confirmationSpeed - Speed for onchain payments
+   * @returns Payment info
+   */
+  async sendPreparedPayment(
+    prepareResponse: PrepareSendPaymentResponse,
+    confirmationSpeed: OnchainConfirmationSpeed = 'medium'
+  ): Promise<BreezPaymentInfo> {
+    await this.ensureConnected();
+
+    try {
+      await this.authorizeSpend(Number(prepareResponse.amount));
+
+      const request: SendPaymentRequest = { prepareResponse };
+
+      if (prepareResponse.paymentMethod.type === 'bitcoinAddress') {
+        const options: SendPaymentOptions = { type: 'bitcoinAddress', confirmationSpeed };
+        request.options = options;
+      }
+
+      const response: SendPaymentResponse = await this.sdk!.sendPayment(request);
+
+      recordSparkSpend(Number(prepareResponse.amount));
+
+      logInfo(`[BreezWallet] ${prepareResponse.paymentMethod.type} payment sent`);
+
+      await this.syncBalance();
+
+      return this.mapPaymentToInfo(response.payment);
+    } catch (error) {
+      logError('[BreezWallet] Payment failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim funds from an LNURL-withdraw voucher into the wallet
+   * @param amountSats - Amount in sats, within the voucher's limits
+   * @param withdrawRequest - LNURL withdraw details (from parseInput)
+   * @returns Received payment info, if it completed in time
+   */
+  async lnurlWithdraw(
+    amountSats: number,
+    withdrawRequest: LnurlWithdrawRequestDetails
+  ): Promise<BreezPaymentInfo | undefined> {
+    await this.ensureConnected();
+
+    try {
+      const response = await this.sdk!.lnurlWithdraw({
+        amountSats,
+        withdrawRequest,
+        completionTimeoutSecs: 30,
+      });
+
+      await this.syncBalance();
+
+      return response.payment ? this.mapPaymentToInfo(response.payment) : undefined;
+    } catch (error) {
+      logError('[BreezWallet] Failed to execute LNURL withdraw:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Log in to a service with LNURL-auth
+   * @param authRequest - LNURL auth details (from parseInput)
+   */
+  async lnurlAuth(authRequest: LnurlAuthRequestDetails): Promise<void> {
+    await this.ensureConnected();
+
+    try {
+      const status = await this.sdk!.lnurlAuth(authRequest);
+
+      if (status.type === 'errorStatus') {
+        throw new Error(status.errorDetails.reason);
+      }
+    } catch (error) {
+      logError('[BreezWallet] Failed to execute LNURL auth:', error);
+      throw error;
+    }
+  }
+
   /**
    * Generate a new BIP39 mnemonic seed phrase
    * Note: This uses the browser's crypto.getRandomValues() for entropy
@@ -638,6 +761,18 @@ class BreezWalletService {
     }
   }
 
+  /**
+   * Ask the spending guard before money leaves the wallet
+   * @throws Error if the user did not confirm the payment
+   */
+  private async authorizeSpend(amountSats: number): Promise<void> {
+    if (!await authorizeSparkSpend(amountSats)) {
+      const error = new Error('Payment was not confirmed');
+      error.name = spendNotConfirmed;
+      throw error;
+    }
+  }
+
   /**
    * Ensure SDK is connected, throw error if not
    */
@@ -0,0 +1,686 @@
+import { CheckStateEnum, getDecodedToken, MeltQuoteState } from "@cashu/cashu-ts";
+import { createStore, reconcile, unwrap } from "solid-js/store";
+import { Kind, nutzapLookback } from "../../constants";
+import { CashuHistoryEntry, CashuPendingMelt, CashuProof, CashuTokenEvent, CashuWalletState, NostrRelayEvent, NostrRelaySignedEvent } from "../../types/primal";
+import { readCashuPendingMelts, saveCashuPendingMelts } from "../localStore";
+import { logInfo, logWarning } from "../logger";
+import { decrypt44, encrypt44, signEvent } from "../nostrAPI";
+import { fetchFromOutbox, fetchRelayLists } from "../outbox";
+import { publishEvent } from "../publishQueue";
+import { fetchFromRelayUrls } from "../relays";
+import {
+  amountWithInputFee,
+  lockedTo,
+  lockProofs,
+  meltProofs,
+  mintProofs,
+  newP2pkPrivkey,
+  p2pkKey,
+  p2pkPubkeyOf,
+  proofsAmount,
+  proofStates,
+  reissueProofs,
+  requestMeltQuote,
+  requestMintQuote,
+  splitProofs,
+  unlockProofs,
+} from "./proofs";
+
+/**
+ * NIP-60 ecash wallet. Proofs live in encrypted token events on the user's relays,
+ * every spend publishes a new token event with the change and deletes the spent ones.
+ * NIP-61 nutzaps are locked to a wallet key published in the kind 10019 event.
+ */
+
+export type NutzapInfo = {
+  relays: string[],
+  mints: string[],
+  pubkey: string,
+};
+
+export type NutzapTarget = {
+  id: string,
+  kind: number,
+  relay?: string,
+};
+
+const emptyWallet = (): CashuWalletState => ({
+  pubkey: '',
+  privkey: '',
+  mints: [],
+  relays: [],
+  tokens: {},
+  history: [],
+  pendingMelts: [],
+  isLoaded: false,
+  isFetching: false,
+});
+
+export const [cashuWallet, setCashuWallet] = createStore<CashuWalletState>(emptyWallet());
+
+// Used when the user has no NIP-65 relay list
+let fallbackRelays: string[] = [];
+
+let pending: Promise<any> = Promise.resolve();
+
+// Spends replace token events, running them one at a time keeps proofs from being used twice
+const serialized = <T>(action: () => Promise<T>) => {
+  const run = pending.then(action, action);
+  pending = run.catch(() => {});
+  return run;
+};
+
+const now = () => Math.floor(Date.now() / 1_000);
+
+export const normalizeMintUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+const ownRelayUrls = async (pubkey: string) => {
+  const lists = await fetchRelayLists([pubkey]);
+  const write = lists[pubkey]?.write || [];
+
+  return write.length > 0 ? write : fallbackRelays;
+};
+
+const encryptToSelf = (content: any) =>
+  encrypt44(cashuWallet.pubkey, JSON.stringify(content));
+
+const decryptFromSelf = async (event: NostrRelaySignedEvent) =>
+  JSON.parse(await decrypt44(event.pubkey, event.content));
+
+const publish = async (template: NostrRelayEvent, urls?: string[]) => {
+  const signed = await signEvent(template);
+
+  if (!signed) throw('event_not_signed');
+
+  // The publish queue keeps retrying if no relay takes it right away
+  publishEvent(signed, urls || await ownRelayUrls(cashuWallet.pubkey)).
+    catch(e => logWarning('No relay accepted wallet event yet: ', signed.id, e));
+
+  return signed;
+};
+
+// LOADING --------------------------------------
+
+const parseToken = async (event: NostrRelaySignedEvent) => {
+  const content = await decryptFromSelf(event);
+
+  const token: CashuTokenEvent = {
+    id: event.id,
+    mint: content.mint,
+    proofs: content.proofs || [],
+    created_at: event.created_at,
+  };
+
+  return { token, del: (content.del || []) as string[] };
+};
+
+const parseHistory = async (event: NostrRelaySignedEvent): Promise<CashuHistoryEntry> => {
+  const tags: string[][] = await decryptFromSelf(event);
+
+  const marked = (list: string[][], marker: string) =>
+    list.filter(t => t[0] === 'e' && t[3] === marker).map(t => t[1]);
+
+  return {
+    id: event.id,
+    direction: tags.find(t => t[0] === 'direction')?.[1] === 'out' ? 'out' : 'in',
+    amount: parseInt(tags.find(t => t[0] === 'amount')?.[1] || '0'),
+    created: marked(tags, 'created'),
+    destroyed: marked(tags, 'destroyed'),
+    redeemed: marked(event.tags, 'redeemed'),
+    counterparty: event.tags.find(t => t[0] === 'p')?.[1],
+    created_at: event.created_at,
+  };
+};
+
+const latest = (events: NostrRelaySignedEvent[], kind: number) =>
+  events.filter(e => e.kind === kind).sort((a, b) => b.created_at - a.created_at)[0];
+
+/**
+ * Reads the user's wallet, tokens and recent history from their relays.
+ * An empty result means the user has no wallet yet.
+ */
+export const loadCashuWallet = async (pubkey: string | undefined, relays: string[] = []) => {
+  fallbackRelays = relays;
+  setCashuWallet(reconcile(emptyWallet()));
+
+  if (!pubkey) return;
+
+  setCashuWallet({ pubkey, isFetching: true });
+
+  const urls = await ownRelayUrls(pubkey);
+
+  // Without relays an existing wallet would look missing and could get replaced
+  if (urls.length === 0) {
+    setCashuWallet({ isFetching: false });
+    return;
+  }
+
+  const events = await fetchFromRelayUrls(urls, [
+    { kinds: [Kind.CashuWallet, Kind.NutzapInfo], authors: [pubkey] },
+    { kinds: [Kind.CashuToken], authors: [pubkey] },
+    { kinds: [Kind.CashuHistory], authors: [pubkey], limit: 50 },
+    { kinds: [Kind.EventDeletion], authors: [pubkey], '#k': [`${Kind.CashuToken}`] },
+  ]);
+
+  // The user switched accounts in the meantime
+  if (cashuWallet.pubkey !== pubkey) return;
+
+  let privkey = '';
+  let mints: string[] = [];
+
+  const walletEvent = latest(events, Kind.CashuWallet);
+
+  if (walletEvent) {
+    try {
+      const tags: string[][] = await decryptFromSelf(walletEvent);
+
+      privkey = tags.find(t => t[0] === 'privkey')?.[1] || '';
+      mints = [ ...tags, ...walletEvent.tags ].filter(t => t[0] === 'mint').map(t => normalizeMintUrl(t[1]));
+    } catch (e) {
+      logWarning('Failed to decrypt cashu wallet: ', e);
+    }
+  }
+
+  const infoEvent = latest(events, Kind.NutzapInfo);
+  const nutzapRelays = infoEvent?.tags.filter(t => t[0] === 'relay').map(t => t[1]) || [];
+
+  let deleted = new Set(
+    events.filter(e => e.kind === Kind.EventDeletion).flatMap(e => e.tags.filter(t => t[0] === 'e').map(t => t[1])),
+  );
+
+  let tokens: Record<string, CashuTokenEvent> = {};
+
+  for (const event of events.filter(e => e.kind === Kind.CashuToken)) {
+    try {
+      const { token, del } = await parseToken(event);
+
+      del.forEach(id => deleted.add(id));
+      tokens[token.id] = token;
+    } catch (e) {
+      logWarning('Failed to decrypt cashu token: ', event.id, e);
+    }
+  }
+
+  deleted.forEach(id => delete tokens[id]);
+
+  let history: CashuHistoryEntry[] = [];
+
+  for (const event of events.filter(e => e.kind === Kind.CashuHistory)) {
+    try {
+      history.push(await parseHistory(event));
+    } catch (e) {
+      logWarning('Failed to decrypt cashu history: ', event.id, e);
+    }
+  }
+
+  setCashuWallet({
+    privkey,
+    mints: Array.from(new Set(mints)),
+    relays: nutzapRelays.length > 0 ? nutzapRelays : urls.slice(0, 4),
+    tokens,
+    history: history.sort((a, b) => b.created_at - a.created_at),
+    pendingMelts: readCashuPendingMelts(pubkey),
+    isLoaded: true,
+    isFetching: false,
+  });
+
+  cashuWallet.pendingMelts.length > 0 && settlePendingMelts().
+    catch(e => logWarning('Failed to settle pending cashu payments: ', e));
+
+  privkey && receiveNutzaps().
+    then(amount => amount > 0 && logInfo('Claimed nutzaps: ', amount)).
+    catch(e => logWarning('Failed to claim nutzaps: ', e));
+};
+
+// STATE ----------------------------------------
+
+export const cashuBalance = (mint?: string) =>
+  Object.values(cashuWallet.tokens).
+    filter(t => !mint || t.mint === mint).
+    reduce((acc, t) => acc + proofsAmount(t.proofs), 0);
+
+// Tokens can be in mints the user has since removed, those still count
+export const cashuMints = () =>
+  Array.from(new Set([ ...cashuWallet.mints, ...Object.values(cashuWallet.tokens).map(t => t.mint) ]));
+
+const tokensOf = (mint: string) =>
+  Object.values(unwrap(cashuWallet.tokens)).filter(t => t.mint === mint);
+
+const proofsOf = (tokens: CashuTokenEvent[]) =>
+  tokens.flatMap(t => t.proofs.map(p => ({ ...p })));
+
+const publishWallet = async (privkey: string, mints: string[], relays: string[]) => {
+  await publish({
+    kind: Kind.CashuWallet,
+    content: await encryptToSelf([['privkey', privkey], ...mints.map(m => ['mint', m])]),
+    tags: [],
+    created_at: now(),
+  });
+
+  await publish({
+    kind: Kind.NutzapInfo,
+    content: '',
+    tags: [
+      ...relays.map(r => ['relay', r]),
+      ...mints.map(m => ['mint', m, 'sat']),
+      ['pubkey', p2pkPubkeyOf(privkey)],
+    ],
+    created_at: now(),
+  });
+
+  setCashuWallet({ privkey, mints, relays });
+};
+
+const createWallet = async (mints: string[]) => {
+  if (!cashuWallet.isLoaded) throw('wallet_not_loaded');
+
+  if (cashuWallet.privkey) return;
+
+  const relays = cashuWallet.relays.length > 0 ?
+    [ ...cashuWallet.relays ] :
+    (await ownRelayUrls(cashuWallet.pubkey)).slice(0, 4);
+
+  await publishWallet(newP2pkPrivkey(), mints.map(normalizeMintUrl), relays);
+};
+
+const includeMints = async (mints: string[]) => {
+  const missing = mints.map(normalizeMintUrl).filter(m => !cashuWallet.mints.includes(m));
+
+  if (missing.length === 0) return;
+
+  await publishWallet(cashuWallet.privkey, [ ...cashuWallet.mints, ...missing ], [ ...cashuWallet.relays ]);
+};
+
+/**
+ * Publishes the proofs as a new token event and deletes the token events they replace.
+ */
+const replaceTokens = async (mint: string, proofs: CashuProof[], replaced: string[]) => {
+  let created: string | undefined;
+
+  if (proofs.length > 0) {
+    const event = await publish({
+      kind: Kind.CashuToken,
+      content: await encryptToSelf({ mint, proofs, del: replaced }),
+      tags: [],
+      created_at: now(),
+    });
+
+    created = event.id;
+    setCashuWallet('tokens', event.id, { id: event.id, mint, proofs, created_at: event.created_at });
+  }
+
+  if (replaced.length > 0) {
+    replaced.forEach(id => setCashuWallet('tokens', id, undefined!));
+
+    await publish({
+      kind: Kind.EventDeletion,
+      content: '',
+      tags: [ ...replaced.map(id => ['e', id]), ['k', `${Kind.CashuToken}`] ],
+      created_at: now(),
+    });
+  }
+
+  return created;
+};
+
+const recordHistory = async (entry: Omit<CashuHistoryEntry, 'id' | 'created_at'>) => {
+  try {
+    const content = [
+      ['direction', entry.direction],
+      ['amount', `${entry.amount}`],
+      ['unit', 'sat'],
+      ...entry.created.map(id => ['e', id, '', 'created']),
+      ...entry.destroyed.map(id => ['e', id, '', 'destroyed']),
+    ];
+
+    const event = await publish({
+      kind: Kind.CashuHistory,
+      content: await encryptToSelf(content),
+      tags: [
+        ...entry.redeemed.map(id => ['e', id, '', 'redeemed']),
+        ...(entry.counterparty ? [['p', entry.counterparty]] : []),
+      ],
+      created_at: now(),
+    });
+
+    setCashuWallet('history', (history) => [{ ...entry, id: event.id, created_at: event.created_at }, ...history]);
+  } catch (e) {
+    logWarning('Failed to record cashu history: ', e);
+  }
+};
+
+const savePendingMelts = (melts: CashuPendingMelt[]) => {
+  setCashuWallet('pendingMelts', melts);
+  saveCashuPendingMelts(cashuWallet.pubkey, melts);
+};
+
+/**
+ * Settles a melt the mint didn't confirm as paid by asking it which of the proofs were spent.
+ * Unspent proofs go back into the wallet. While any proof is still pending at the mint the melt
+ * stays aside, out of the balance, to be checked again later.
+ * Resolves with the sats the melt spent, or undefined while it is pending.
+ */
+const settleMelt = async (melt: CashuPendingMelt) => {
+  const others = () => cashuWallet.pendingMelts.filter(m => m.quote !== melt.quote);
+  let states: (CheckStateEnum | undefined)[];
+
+  try {
+    states = await proofStates(melt.mint, melt.proofs);
+  } catch (e) {
+    logWarning('Failed to check cashu proofs: ', melt.mint, e);
+    return undefined;
+  }
+
+  if (states.some(s => s !== CheckStateEnum.SPENT && s !== CheckStateEnum.UNSPENT)) return undefined;
+
+  const unspent = melt.proofs.filter((_, i) => states[i] === CheckStateEnum.UNSPENT);
+  const spent = proofsAmount(melt.proofs) - proofsAmount(unspent);
+  const restoredId = await replaceTokens(melt.mint, unspent, []);
+
+  savePendingMelts(others());
+
+  if (spent > 0) {
+    await recordHistory({
+      direction: 'out',
+      amount: spent,
+      created: [ ...melt.created, ...(restoredId ? [restoredId] : []) ],
+      destroyed: melt.destroyed,
+      redeemed: [],
+    });
+  }
+
+  return spent;
+};
+
+// ACTIONS --------------------------------------
+
+export const createCashuWallet = (mints: string[]) =>
+  serialized(() => createWallet(mints));
+
+export const addCashuMint = (url: string) =>
+  serialized(() => includeMints([url]));
+
+export const removeCashuMint = (url: string) =>
+  serialized(() => publishWallet(
+    cashuWallet.privkey,
+    cashuWallet.mints.filter(m => m !== url),
+    [ ...cashuWallet.relays ],
+  ));
+
+/**
+ * Claims a cashu token (`cashuA` or `cashuB`) into the wallet, creating the wallet
+ * first if needed. Resolves with the amount received.
+ */
+export const redeemCashuToken = (encoded: string) =>
+  serialized(async () => {
+    const token = getDecodedToken(encoded.trim());
+
+    if (token.unit && token.unit !== 'sat') throw('unsupported_unit');
+
+    const entries = token.token.filter(entry => entry.proofs.length > 0);
+    const mints = entries.map(entry => normalizeMintUrl(entry.mint));
+
+    if (mints.length === 0) throw('empty_token');
+
+    await createWallet(mints);
+
+    let amount = 0;
+    let created: string[] = [];
+
+    for (const entry of entries) {
+      const mint = normalizeMintUrl(entry.mint);
+      const proofs = await reissueProofs(mint, entry.proofs);
+      const id = await replaceTokens(mint, proofs, []);
+
+      id && created.push(id);
+      amount += proofsAmount(proofs);
+    }
+
+    await includeMints(mints);
+    await recordHistory({ direction: 'in', amount, created, destroyed: [], redeemed: [] });
+
+    logInfo('Redeemed cashu token: ', amount);
+
+    return amount;
+  });
+
+/**
+ * Pays a Lightning invoice from the first mint that holds enough to cover it and the fee.
+ */
+export const meltCashu = (invoice: string) =>
+  serialized(async () => {
+    let mint: string | undefined;
+    let quote = '';
+    let amount = 0;
+    let fee = 0;
+
+    // Each mint quotes the invoice in its own terms, the first one that can cover it pays
+    for (const candidate of cashuMints().filter(m => cashuBalance(m) > 0)) {
+      try {
+        const meltQuote = await requestMeltQuote(candidate, invoice);
+
+        if (cashuBalance(candidate) >= meltQuote.amount + meltQuote.fee_reserve) {
+          mint = candidate;
+          quote = meltQuote.quote;
+          amount = meltQuote.amount;
+          fee = meltQuote.fee_reserve;
+          break;
+        }
+      } catch (e) {
+        logWarning('Failed to get melt quote: ', candidate, e);
+      }
+    }
+
+    if (!mint) throw('insufficient_balance');
+
+    const tokens = tokensOf(mint);
+    const sendAmount = await amountWithInputFee(mint, amount + fee);
+    const { send, change } = await splitProofs(mint, proofsOf(tokens), sendAmount);
+
+    // The old token events are spent from here on, keep the change before paying
+    const changeId = await replaceTokens(mint, change, tokens.map(t => t.id));
+
+    const melt: CashuPendingMelt = {
+      mint,
+      quote,
+      amount,
+      fee,
+      proofs: send,
+      destroyed: tokens.map(t => t.id),
+      created: changeId ? [changeId] : [],
+      created_at: now(),
+    };
+
+    // Kept aside until the mint tells what became of the proofs, even if the app is closed meanwhile
+    savePendingMelts([ ...cashuWallet.pendingMelts, melt ]);
+
+    let result: Awaited<ReturnType<typeof meltProofs>> | undefined;
+
+    try {
+      result = await meltProofs(mint, quote, send, fee);
+    } catch (e) {
+      logWarning('Failed to melt cashu proofs: ', e);
+    }
+
+    if (result?.state === MeltQuoteState.PAID) {
+      const returnedId = await replaceTokens(mint, result.change, []);
+      const spent = sendAmount - proofsAmount(result.change);
+
+      savePendingMelts(cashuWallet.pendingMelts.filter(m => m.quote !== quote));
+
+      await recordHistory({
+        direction: 'out',
+        amount: spent,
+        created: [ ...melt.created, ...(returnedId ? [returnedId] : []) ],
+        destroyed: melt.destroyed,
+        redeemed: [],
+      });
+
+      return { amount, fee: spent - amount };
+    }
+
+    // The mint may have taken the proofs without confirming the payment
+    const spent = await settleMelt(melt);
+
+    if (spent === undefined) throw('payment_pending');
+    if (spent === 0) throw('payment_failed');
+
+    return { amount, fee: spent - amount };
+  });
+
+/**
+ * Checks again on melts the mint hadn't confirmed, returning unspent proofs to the wallet.
+ */
+export const settlePendingMelts = () =>
+  serialized(async () => {
+    for (const melt of [ ...cashuWallet.pendingMelts ]) {
+      await settleMelt(melt);
+    }
+  });
+
+/**
+ * Mints ecash by paying the mint's invoice, usually from the Spark wallet.
+ */
+export const mintCashu = (url: string, amount: number, payInvoice: (invoice: string) => Promise<any>) =>
+  serialized(async () => {
+    const mint = normalizeMintUrl(url);
+
+    await createWallet([mint]);
+
+    const { request, quote } = await requestMintQuote(mint, amount);
+
+    if (!request) throw('mint_quote_failed');
+
+    await payInvoice(request);
+
+    const proofs = await mintProofs(mint, amount, quote);
+    const id = await replaceTokens(mint, proofs, []);
+
+    await includeMints([mint]);
+    await recordHistory({ direction: 'in', amount, created: id ? [id] : [], destroyed: [], redeemed: [] });
+
+    return amount;
+  });
+
+// NUTZAPS --------------------------------------
+
+export const fetchNutzapInfo = async (pubkey: string): Promise<NutzapInfo | undefined> => {
+  const events = await fetchFromOutbox(pubkey, [{ kinds: [Kind.NutzapInfo], authors: [pubkey] }]);
+  const info = latest(events, Kind.NutzapInfo);
+
+  if (!info) return undefined;
+
+  const p2pk = info.tags.find(t => t[0] === 'pubkey')?.[1];
+
+  if (!p2pk) return undefined;
+
+  return {
+    relays: info.tags.filter(t => t[0] === 'relay').map(t => t[1]),
+    mints: info.tags.filter(t => t[0] === 'mint').map(t => normalizeMintUrl(t[1])),
+    pubkey: p2pkKey(p2pk),
+  };
+};
+
+/**
+ * Sends ecash locked to the recipient's wallet key, from a mint the recipient accepts.
+ */
+export const sendNutzap = (recipient: string, amount: number, comment = '', target?: NutzapTarget) =>
+  serialized(async () => {
+    const info = await fetchNutzapInfo(recipient);
+
+    if (!info) throw('no_nutzap_info');
+
+    const mint = info.mints.find(m => cashuBalance(m) >= amount);
+
+    if (!mint) throw('no_common_mint');
+
+    const tokens = tokensOf(mint);
+    const proofs = proofsOf(tokens);
+    const { locked, change } = await lockProofs(mint, proofs, amount, info.pubkey);
+
+    const changeId = await replaceTokens(mint, change, tokens.map(t => t.id));
+
+    const nutzap = await publish({
+      kind: Kind.Nutzap,
+      content: comment,
+      tags: [
+        ...locked.map(p => ['proof', JSON.stringify(p)]),
+        ['u', mint],
+        ['p', recipient],
+        ...(target ? [['e', target.id, target.relay || ''], ['k', `${target.kind}`]] : []),
+      ],
+      created_at: now(),
+    }, info.relays.length > 0 ? info.relays : undefined);
+
+    await recordHistory({
+      direction: 'out',
+      // Includes the mint's input fee
+      amount: proofsAmount(proofs) - proofsAmount(change),
+      created: changeId ? [changeId] : [],
+      destroyed: tokens.map(t => t.id),
+      redeemed: [],
+      counterparty: recipient,
+    });
+
+    return nutzap;
+  });
+
+/**
+ * Claims nutzaps sent to the wallet since the last one claimed.
+ * Resolves with the amount received.
+ */
+export const receiveNutzaps = () =>
+  serialized(async () => {
+    const { privkey, pubkey } = cashuWallet;
+
+    if (!privkey || cashuWallet.mints.length === 0) return 0;
+
+    const redeemed = new Set(cashuWallet.history.flatMap(h => h.redeemed));
+    const lastRedeemed = cashuWallet.history.find(h => h.redeemed.length > 0)?.created_at;
+
+    const events = await fetchFromRelayUrls([ ...cashuWallet.relays ], [{
+      kinds: [Kind.Nutzap],
+      '#p': [pubkey],
+      '#u': [ ...cashuWallet.mints ],
+      since: lastRedeemed || now() - Math.floor(nutzapLookback / 1_000),
+    }]);
+
+    const key = p2pkPubkeyOf(privkey).slice(-64);
+    let total = 0;
+
+    for (const event of events.sort((a, b) => a.created_at - b.created_at)) {
+      if (redeemed.has(event.id)) continue;
+
+      const mint = normalizeMintUrl(event.tags.find(t => t[0] === 'u')?.[1] || '');
+
+      if (!cashuWallet.mints.includes(mint)) continue;
+
+      const proofs = event.tags.
+        filter(t => t[0] === 'proof').
+        map(t => { try { return JSON.parse(t[1]) as CashuProof } catch { return undefined } }).
+        filter(p => p && lockedTo(p)?.slice(-64) === key) as CashuProof[];
+
+      if (proofs.length === 0) continue;
+
+      try {
+        const claimed = await reissueProofs(mint, unlockProofs(proofs, privkey));
+        const id = await replaceTokens(mint, claimed, []);
+        const amount = proofsAmount(claimed);
+
+        await recordHistory({
+          direction: 'in',
+          amount,
+          created: id ? [id] : [],
+          destroyed: [],
+          redeemed: [event.id],
+          counterparty: event.pubkey,
+        });
+
+        total += amount;
+      } catch (e) {
+        logWarning('Failed to claim nutzap: ', event.id, e);
+      }
+    }
+
+    return total;
+  });
@@ -0,0 +1,338 @@
+import { CashuMint, CheckStateEnum, Keys, MeltQuoteState, MintKeys, MintKeyset, SerializedBlindedSignature } from "@cashu/cashu-ts";
+import { schnorr, secp256k1 } from "@noble/curves/secp256k1";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, concatBytes, randomBytes } from "@noble/hashes/utils";
+import { CashuProof } from "../../types/primal";
+
+/**
+ * Low level mint operations against the v1 mint API. cashu-ts only blinds random
+ * secrets, so outputs are built here to be able to lock them to a key (NUT-11) for nutzaps.
+ */
+
+type BlindedOutput = {
+  amount: number,
+  B_: string,
+  r: bigint,
+  secret: string,
+};
+
+const mints: Record<string, CashuMint> = {};
+
+// Keysets the mint currently signs sats with
+const activeKeysets: Record<string, Promise<MintKeys>> = {};
+
+// Input fee of every keyset of a mint, in parts per thousand sats per proof (NUT-02)
+const keysetFees: Record<string, Promise<Record<string, number>>> = {};
+
+export const mintFor = (url: string) => {
+  if (!mints[url]) {
+    mints[url] = new CashuMint(url);
+  }
+
+  return mints[url];
+};
+
+export const proofsAmount = (proofs: CashuProof[]) =>
+  proofs.reduce((acc, p) => acc + p.amount, 0);
+
+// Mints only sign powers of two
+export const splitAmount = (amount: number) => {
+  let chunks: number[] = [];
+
+  for (let i = 0; i < 32; i++) {
+    const chunk = Math.pow(2, i);
+
+    if (Math.floor(amount / chunk) % 2 === 1) {
+      chunks.push(chunk);
+    }
+  }
+
+  return chunks;
+};
+
+const randomSecret = () => bytesToHex(randomBytes(32));
+
+// NIP-61 pubkeys may be published without the compressed key prefix
+export const p2pkKey = (pubkey: string) =>
+  pubkey.length === 64 ? `02${pubkey}` : pubkey;
+
+export const newP2pkPrivkey = () => bytesToHex(schnorr.utils.randomPrivateKey());
+
+export const p2pkPubkeyOf = (privkey: string) =>
+  p2pkKey(bytesToHex(schnorr.getPublicKey(privkey)));
+
+const hashDomain = new TextEncoder().encode('Secp256k1_HashToCurve_Cashu_');
+
+/**
+ * Maps a secret to a point on the curve (NUT-00)
+ */
+const hashToCurve = (secret: string) => {
+  const message = sha256(concatBytes(hashDomain, new TextEncoder().encode(secret)));
+
+  for (let counter = 0; counter < 2 ** 16; counter++) {
+    const counterBytes = new Uint8Array(4);
+    new DataView(counterBytes.buffer).setUint32(0, counter, true);
+
+    const x = sha256(concatBytes(message, counterBytes));
+
+    try {
+      return secp256k1.ProjectivePoint.fromHex(concatBytes(new Uint8Array([0x02]), x));
+    } catch {
+      // Not on the curve, try the next counter
+    }
+  }
+
+  throw('no_valid_point');
+};
+
+const lockedSecret = (pubkey: string) =>
+  JSON.stringify(['P2PK', { nonce: randomSecret(), data: p2pkKey(pubkey) }]);
+
+export const lockedTo = (proof: CashuProof) => {
+  try {
+    const [kind, { data }] = JSON.parse(proof.secret);
+
+    return kind === 'P2PK' && typeof data === 'string' ? data : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const blindOutput = (amount: number, secret: string): BlindedOutput => {
+  const Y = hashToCurve(secret);
+  const r = secp256k1.utils.normPrivateKeyToScalar(secp256k1.utils.randomPrivateKey());
+  const B_ = Y.add(secp256k1.ProjectivePoint.BASE.multiply(r));
+
+  return { amount, B_: B_.toHex(true), r, secret };
+};
+
+const randomOutputs = (amount: number) =>
+  splitAmount(amount).map(a => blindOutput(a, randomSecret()));
+
+const activeKeyset = (url: string) => {
+  if (!activeKeysets[url]) {
+    activeKeysets[url] = mintFor(url).getKeys().then(({ keysets }) => {
+      const keyset = keysets.find(k => k.unit === 'sat');
+
+      if (!keyset) throw('no_sat_keyset');
+
+      return keyset;
+    });
+
+    activeKeysets[url].catch(() => delete activeKeysets[url]);
+  }
+
+  return activeKeysets[url];
+};
+
+const keysFor = async (url: string, id: string) => {
+  const active = await activeKeyset(url);
+
+  if (active.id === id) return active.keys;
+
+  const { keysets } = await mintFor(url).getKeys(id);
+  const keyset = keysets.find(k => k.id === id);
+
+  if (!keyset) throw('unknown_keyset');
+
+  return keyset.keys;
+};
+
+const feesOf = (url: string) => {
+  if (!keysetFees[url]) {
+    keysetFees[url] = mintFor(url).getKeySets().then(({ keysets }) =>
+      (keysets as (MintKeyset & { input_fee_ppk?: number })[]).reduce<Record<string, number>>(
+        (acc, k) => ({ ...acc, [k.id]: k.input_fee_ppk || 0 }),
+        {},
+      ),
+    );
+
+    keysetFees[url].catch(() => delete keysetFees[url]);
+  }
+
+  return keysetFees[url];
+};
+
+/**
+ * Fee the mint keeps for spending the proofs, rounded up to a whole sat
+ */
+export const inputFee = async (url: string, proofs: { id: string }[]) => {
+  const fees = await feesOf(url);
+  const ppk = proofs.reduce((acc, p) => acc + (fees[p.id] || 0), 0);
+
+  return Math.ceil(ppk / 1_000);
+};
+
+/**
+ * Amount of fresh proofs to split out so that spending them still leaves `amount`
+ * after their own input fee
+ */
+export const amountWithInputFee = async (url: string, amount: number) => {
+  const { id } = await activeKeyset(url);
+  let total = amount;
+
+  for (let i = 0; i < 8; i++) {
+    const fee = await inputFee(url, splitAmount(total).map(() => ({ id })));
+
+    if (total - fee >= amount) return total;
+
+    total = amount + fee;
+  }
+
+  return total;
+};
+
+const serialize = async (url: string, outputs: BlindedOutput[]) => {
+  const { id } = await activeKeyset(url);
+
+  return outputs.map(({ amount, B_ }) => ({ amount, B_, id }));
+};
+
+// C = C_ - rK
+const unblind = (signature: SerializedBlindedSignature, output: BlindedOutput, keys: Keys) => {
+  const K = secp256k1.ProjectivePoint.fromHex(keys[signature.amount]);
+
+  return secp256k1.ProjectivePoint.fromHex(signature.C_).subtract(K.multiply(output.r));
+};
+
+const signOutputs = async (url: string, signatures: SerializedBlindedSignature[] | undefined, outputs: BlindedOutput[]) => {
+  if (!signatures || signatures.length === 0) return [];
+
+  const keys = await keysFor(url, signatures[0].id);
+
+  return signatures.map((s, i): CashuProof => ({
+    id: s.id,
+    amount: s.amount,
+    secret: outputs[i].secret,
+    C: unblind(s, outputs[i], keys).toHex(true),
+  }));
+};
+
+const swap = async (url: string, proofs: CashuProof[], outputs: BlindedOutput[]) => {
+  const { signatures } = await mintFor(url).split({
+    inputs: proofs,
+    outputs: await serialize(url, outputs),
+  });
+
+  return await signOutputs(url, signatures, outputs);
+};
+
+// What is left of the proofs once `amount` and the mint's input fee are taken out
+const changeAmount = async (url: string, proofs: CashuProof[], amount: number) => {
+  const change = proofsAmount(proofs) - amount - await inputFee(url, proofs);
+
+  if (change < 0) throw('insufficient_balance');
+
+  return change;
+};
+
+/**
+ * Swaps proofs for fresh ones, which invalidates the originals.
+ * This is how received tokens are claimed, minus the mint's input fee.
+ */
+export const reissueProofs = async (url: string, proofs: CashuProof[]) =>
+  swap(url, proofs, randomOutputs(await changeAmount(url, proofs, 0)));
+
+/**
+ * Splits proofs into `amount` worth that only the holder of `pubkey` can spend, and change.
+ */
+export const lockProofs = async (url: string, proofs: CashuProof[], amount: number, pubkey: string) => {
+  const locked = splitAmount(amount).map(a => blindOutput(a, lockedSecret(pubkey)));
+  const change = randomOutputs(await changeAmount(url, proofs, amount));
+
+  const result = await swap(url, proofs, [ ...locked, ...change ]);
+
+  return {
+    locked: result.slice(0, locked.length),
+    change: result.slice(locked.length),
+  };
+};
+
+/**
+ * Splits proofs into exactly `amount` and change.
+ */
+export const splitProofs = async (url: string, proofs: CashuProof[], amount: number) => {
+  const send = randomOutputs(amount);
+  const change = randomOutputs(await changeAmount(url, proofs, amount));
+
+  const result = await swap(url, proofs, [ ...send, ...change ]);
+
+  return {
+    send: result.slice(0, send.length),
+    change: result.slice(send.length),
+  };
+};
+
+export const unlockProofs = (proofs: CashuProof[], privkey: string) =>
+  proofs.map(proof => {
+    const signature = schnorr.sign(sha256(new TextEncoder().encode(proof.secret)), privkey);
+
+    return { ...proof, witness: JSON.stringify({ signatures: [bytesToHex(signature)] }) };
+  });
+
+export const requestMintQuote = (url: string, amount: number) =>
+  mintFor(url).createMintQuote({ unit: 'sat', amount });
+
+/**
+ * Collects proofs for a paid mint quote. Mints can take a moment to notice the payment.
+ */
+export const mintProofs = async (url: string, amount: number, quote: string, attempts = 5) => {
+  const outputs = randomOutputs(amount);
+  let reason: any;
+
+  for (let i = 0; i < attempts; i++) {
+    try {
+      const { signatures } = await mintFor(url).mint({ quote, outputs: await serialize(url, outputs) });
+
+      return await signOutputs(url, signatures, outputs);
+    } catch (e) {
+      reason = e;
+      await new Promise(resolve => setTimeout(resolve, 2_000));
+    }
+  }
+
+  throw(reason || 'mint_failed');
+};
+
+/**
+ * Asks the mint what paying the invoice costs, in sats and fee reserve.
+ */
+export const requestMeltQuote = (url: string, invoice: string) =>
+  mintFor(url).createMeltQuote({ unit: 'sat', request: invoice });
+
+/**
+ * Pays a melt quote with the proofs. Unused fee reserve comes back as change (NUT-08).
+ * The payment can still be in flight when this returns, `state` is then PENDING.
+ */
+export const meltProofs = async (url: string, quote: string, proofs: CashuProof[], feeReserve: number) => {
+  const blanks = Array.from(
+    { length: Math.max(Math.ceil(Math.log2(Math.max(feeReserve, 1))), 1) },
+    () => blindOutput(1, randomSecret()),
+  );
+
+  const result = await mintFor(url).melt({
+    quote,
+    inputs: proofs,
+    outputs: await serialize(url, blanks),
+  });
+
+  const change = await signOutputs(url, result.change, blanks);
+
+  return { state: result.state as MeltQuoteState, change };
+};
+
+/**
+ * State of each proof at the mint, in the order of `proofs`
+ */
+export const proofStates = async (url: string, proofs: CashuProof[]) => {
+  const Ys = proofs.map(p => hashToCurve(p.secret).toHex(true));
+  const { states } = await mintFor(url).check({ Ys });
+
+  return Ys.map(Y => states.find(s => s.Y === Y)?.state);
+};
+
+export const spentProofs = async (url: string, proofs: CashuProof[]) => {
+  const states = await proofStates(url, proofs);
+
+  return proofs.filter((_, i) => states[i] === CheckStateEnum.SPENT);
+};
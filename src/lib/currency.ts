@@ -98,3 +98,77 @@ export const formatFiatAmount = (amount: number, currency: string): string => {
 
   return `${symbolProps.symbol}${formattedNumber}`
 }
+
+// Rates seen per day, so payments can be priced at the rate of the day they were made
+const fiatRatesKey = 'spark_fiat_rates'
+
+type FiatRates = Record<string, Record<string, number>>
+
+const rateDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10)
+
+const readFiatRates = (): FiatRates => {
+  try {
+    return JSON.parse(localStorage.getItem(fiatRatesKey) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+const storeFiatRate = (currency: string, day: string, ratePerSat: number) => {
+  if (currency === 'SATS' || !isFinite(ratePerSat) || ratePerSat <= 0) return
+
+  const rates = readFiatRates()
+
+  rates[currency] = { ...rates[currency], [day]: ratePerSat }
+
+  localStorage.setItem(fiatRatesKey, JSON.stringify(rates))
+}
+
+/**
+ * Remember the value of one sat in `currency` for today
+ */
+export const recordFiatRate = (currency: string, ratePerSat: number) => {
+  storeFiatRate(currency, rateDay(Date.now()), ratePerSat)
+}
+
+// Currencies mempool.space keeps a price history for
+const historicalCurrencies = ['USD', 'EUR', 'GBP', 'CAD', 'CHF', 'AUD', 'JPY']
+
+export const hasFiatRateHistory = (currency: string) => historicalCurrencies.includes(currency)
+
+/**
+ * Look up the value of one sat in `currency` on the day of `timestamp` (ms) in
+ * mempool.space's price history and remember it. Resolves with undefined when
+ * the history doesn't cover that currency or day.
+ */
+export const fetchHistoricalFiatRate = async (currency: string, timestamp: number) => {
+  if (!hasFiatRateHistory(currency)) return undefined
+
+  const day = rateDay(timestamp)
+  const time = Math.floor(new Date(day).getTime() / 1_000)
+
+  const response = await fetch(`https://mempool.space/api/v1/historical-price?currency=${currency}&timestamp=${time}`)
+
+  if (!response.ok) throw new Error(`Price history request failed: ${response.status}`)
+
+  const body = await response.json()
+  const price = body?.prices?.[0]
+
+  // The closest known price has to be from that day
+  if (!price || typeof price[currency] !== 'number' || rateDay(price.time * 1_000) !== day) return undefined
+
+  storeFiatRate(currency, day, price[currency] / 100_000_000)
+
+  return fiatRateAt(currency, timestamp)
+}
+
+/**
+ * Value of one sat in `currency` on the day of `timestamp` (ms), if a rate
+ * was seen that day. `day` says which day the rate is from.
+ */
+export const fiatRateAt = (currency: string, timestamp: number) => {
+  const day = rateDay(timestamp)
+  const rate = readFiatRates()[currency]?.[day]
+
+  return rate === undefined ? undefined : { day, rate }
+}
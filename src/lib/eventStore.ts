@@ -0,0 +1,348 @@
+import { eventStoreFlushDelay, eventStoreMaxSize, eventStoreTrimRatio } from "../constants";
+import { NostrEventContent, StoredEvent, StoredPage } from "../types/primal";
+import { openDatabase, requestToPromise, withStore, withTransaction } from "./idb";
+import { logInfo, logWarning } from "./logger";
+
+/**
+ * Local copy of the events we've seen, so feeds, threads and profiles
+ * can be shown straight away and while offline.
+ *
+ * Signed events are stored under their id. Primal cache kinds (stats, actions,
+ * mentions...) have no id, so they're keyed by kind and the event they describe.
+ * Pages remember which events a response was made of, in order.
+ */
+
+export type StoredEventFilter = {
+  keys?: string[],
+  authors?: string[],
+  kinds?: number[],
+  tag?: [string, string],
+  until?: number,
+  limit?: number,
+};
+
+type StoreUsage = {
+  key: string,
+  size: number,
+};
+
+const usageKey = 'usage';
+
+let pendingEvents: Record<string, StoredEvent> = {};
+let pendingPages: Record<string, StoredPage> = {};
+let flushTimeout: ReturnType<typeof setTimeout> | undefined;
+
+// Approximate until the first trim, overwritten events are counted twice
+let usage: number | undefined;
+
+const database = () => openDatabase('primal_events', 1, (db) => {
+  if (!db.objectStoreNames.contains('events')) {
+    const events = db.createObjectStore('events', { keyPath: 'key' });
+
+    events.createIndex('pubkey', 'pubkey');
+    events.createIndex('kind', 'kind');
+    events.createIndex('tags', 'tags', { multiEntry: true });
+    events.createIndex('created_at', 'created_at');
+    events.createIndex('storedAt', 'storedAt');
+  }
+
+  if (!db.objectStoreNames.contains('pages')) {
+    db.createObjectStore('pages', { keyPath: 'key' });
+  }
+
+  if (!db.objectStoreNames.contains('meta')) {
+    db.createObjectStore('meta', { keyPath: 'key' });
+  }
+});
+
+const referencedEvent = (content: NostrEventContent) => {
+  try {
+    const parsed = JSON.parse(content.content || '{}');
+
+    return (parsed.event_id || parsed.id || parsed.pubkey) as string | undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const isSigned = (content: NostrEventContent) =>
+  !!(content as { sig?: string }).sig;
+
+export const storedEventKey = (content: NostrEventContent) => {
+  if (content.id && isSigned(content)) return content.id;
+
+  const ref = referencedEvent(content);
+
+  return ref ? `${content.kind}:${ref}` : undefined;
+};
+
+const indexedTags = (content: NostrEventContent) => {
+  if (!isSigned(content)) {
+    const ref = referencedEvent(content);
+    return ref ? [`e:${ref}`] : [];
+  }
+
+  return (content.tags || []).
+    filter(t => t[0]?.length === 1 && t[1]).
+    map(t => `${t[0]}:${t[1]}`);
+};
+
+const toStoredEvent = (key: string, content: NostrEventContent, storedAt: number): StoredEvent => ({
+  key,
+  event: { ...content },
+  pubkey: content.pubkey || '',
+  kind: content.kind,
+  created_at: content.created_at || 0,
+  tags: indexedTags(content),
+  size: JSON.stringify(content).length,
+  storedAt,
+});
+
+// WRITING --------------------------------------
+
+const scheduleFlush = () => {
+  if (flushTimeout !== undefined) return;
+
+  flushTimeout = setTimeout(flush, eventStoreFlushDelay);
+};
+
+const flush = async () => {
+  flushTimeout = undefined;
+
+  const events = Object.values(pendingEvents);
+  const pages = Object.values(pendingPages);
+
+  pendingEvents = {};
+  pendingPages = {};
+
+  if (events.length === 0 && pages.length === 0) return;
+
+  const written = events.reduce((acc, e) => acc + e.size, 0);
+
+  try {
+    if (usage === undefined) {
+      const saved = await withStore<StoreUsage | undefined>(database(), 'meta', 'readonly', store => store.get(usageKey));
+      usage = saved?.size || 0;
+    }
+
+    usage += written;
+
+    const size = usage;
+
+    await withTransaction(database(), ['events', 'pages', 'meta'], 'readwrite', (transaction) => {
+      const eventStore = transaction.objectStore('events');
+      const pageStore = transaction.objectStore('pages');
+
+      events.forEach(e => eventStore.put(e));
+      pages.forEach(p => pageStore.put(p));
+
+      transaction.objectStore('meta').put({ key: usageKey, size });
+    });
+  } catch (e) {
+    logWarning('Failed to persist events: ', e);
+    return;
+  }
+
+  if (usage > eventStoreMaxSize) {
+    trim();
+  }
+};
+
+/**
+ * Removes the events stored longest ago until the store is back under
+ * `eventStoreTrimRatio` of its size limit, along with pages saved before them.
+ */
+const trim = async () => {
+  const entries: { key: string, size: number, storedAt: number }[] = [];
+
+  try {
+    await withTransaction(database(), ['events'], 'readonly', (transaction) => {
+      const request = transaction.objectStore('events').index('storedAt').openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+
+        if (!cursor) return;
+
+        const { key, size, storedAt } = cursor.value as StoredEvent;
+
+        entries.push({ key, size, storedAt });
+        cursor.continue();
+      };
+    });
+  } catch (e) {
+    logWarning('Failed to read event store size: ', e);
+    return;
+  }
+
+  let total = entries.reduce((acc, e) => acc + e.size, 0);
+
+  const target = eventStoreMaxSize * eventStoreTrimRatio;
+  const evicted: string[] = [];
+  let cutoff = 0;
+
+  for (let i = 0; i < entries.length && total > target; i++) {
+    evicted.push(entries[i].key);
+    total -= entries[i].size;
+    cutoff = entries[i].storedAt;
+  }
+
+  usage = total;
+
+  try {
+    const pages = evicted.length > 0 ?
+      await withStore<StoredPage[]>(database(), 'pages', 'readonly', store => store.getAll()) :
+      [];
+
+    await withTransaction(database(), ['events', 'pages', 'meta'], 'readwrite', (transaction) => {
+      const eventStore = transaction.objectStore('events');
+      const pageStore = transaction.objectStore('pages');
+
+      evicted.forEach(key => eventStore.delete(key));
+      pages.filter(p => p.storedAt <= cutoff).forEach(p => pageStore.delete(p.key));
+
+      transaction.objectStore('meta').put({ key: usageKey, size: total });
+    });
+
+    evicted.length > 0 && logInfo(`Evicted ${evicted.length} stored events`);
+  } catch (e) {
+    logWarning('Failed to trim the event store: ', e);
+  }
+};
+
+export const storeEvents = (contents: NostrEventContent[]) => {
+  const storedAt = Date.now();
+
+  const keys = contents.map((content) => {
+    const key = storedEventKey(content);
+
+    if (key) {
+      pendingEvents[key] = toStoredEvent(key, content, storedAt);
+    }
+
+    return key;
+  });
+
+  scheduleFlush();
+
+  return keys;
+};
+
+/**
+ * Stores the events of a response and remembers them as one page,
+ * to be replayed by `readStoredPage`.
+ */
+export const storePage = (pageKey: string, contents: NostrEventContent[]) => {
+  const keys = storeEvents(contents);
+
+  pendingPages[pageKey] = {
+    key: pageKey,
+    entries: contents.map((content, i) => keys[i] || { ...content }),
+    storedAt: Date.now(),
+  };
+
+  scheduleFlush();
+};
+
+// READING --------------------------------------
+
+const getStoredEvents = async (keys: string[]) => {
+  const missing = keys.filter(k => !pendingEvents[k]);
+
+  const stored: Record<string, StoredEvent> = {};
+
+  if (missing.length > 0) {
+    const db = await database();
+    const store = db.transaction('events', 'readonly').objectStore('events');
+
+    const found = await Promise.all(missing.map(k => requestToPromise<StoredEvent | undefined>(store.get(k))));
+
+    found.forEach(e => { if (e) stored[e.key] = e; });
+  }
+
+  return keys.reduce<StoredEvent[]>((acc, k) => {
+    const e = pendingEvents[k] || stored[k];
+    return e ? [ ...acc, e ] : acc;
+  }, []);
+};
+
+export const readStoredEvent = async (key: string) => {
+  try {
+    const [stored] = await getStoredEvents([key]);
+    return stored?.event;
+  } catch (e) {
+    logWarning('Failed to read stored event: ', e);
+    return undefined;
+  }
+};
+
+/**
+ * Returns the events of a stored page in the order they originally arrived,
+ * skipping ones that have since been evicted.
+ */
+export const readStoredPage = async (pageKey: string) => {
+  try {
+    const page = pendingPages[pageKey] ||
+      await withStore<StoredPage | undefined>(database(), 'pages', 'readonly', store => store.get(pageKey));
+
+    if (!page) return undefined;
+
+    const keys = page.entries.filter(e => typeof e === 'string') as string[];
+    const events = await getStoredEvents(keys);
+
+    const byKey = events.reduce<Record<string, NostrEventContent>>(
+      (acc, e) => ({ ...acc, [e.key]: e.event }),
+      {},
+    );
+
+    return page.entries.reduce<NostrEventContent[]>((acc, entry) => {
+      const content = typeof entry === 'string' ? byKey[entry] : entry;
+      return content ? [ ...acc, content ] : acc;
+    }, []);
+  } catch (e) {
+    logWarning('Failed to read stored page: ', e);
+    return undefined;
+  }
+};
+
+export const queryStoredEvents = async (filter: StoredEventFilter) => {
+  try {
+    const db = await database();
+    const store = db.transaction('events', 'readonly').objectStore('events');
+
+    const getAll = (index: string, values: (string | number)[]) =>
+      Promise.all(values.map(v => requestToPromise<StoredEvent[]>(store.index(index).getAll(v)))).
+        then(results => results.flat());
+
+    let candidates: StoredEvent[] = [];
+
+    if (filter.keys) {
+      candidates = await getStoredEvents(filter.keys);
+    }
+    else if (filter.tag) {
+      candidates = await getAll('tags', [`${filter.tag[0]}:${filter.tag[1]}`]);
+    }
+    else if (filter.authors) {
+      candidates = await getAll('pubkey', filter.authors);
+    }
+    else if (filter.kinds) {
+      candidates = await getAll('kind', filter.kinds);
+    }
+    else {
+      const range = filter.until ? IDBKeyRange.upperBound(filter.until) : undefined;
+      candidates = await requestToPromise<StoredEvent[]>(store.index('created_at').getAll(range));
+    }
+
+    const matching = candidates.filter(e =>
+      (!filter.authors || filter.authors.includes(e.pubkey)) &&
+      (!filter.kinds || filter.kinds.includes(e.kind)) &&
+      (!filter.tag || e.tags.includes(`${filter.tag[0]}:${filter.tag[1]}`)) &&
+      (!filter.until || e.created_at <= filter.until)
+    ).sort((a, b) => b.created_at - a.created_at);
+
+    return (filter.limit ? matching.slice(0, filter.limit) : matching).map(e => e.event);
+  } catch (e) {
+    logWarning('Failed to query stored events: ', e);
+    return [];
+  }
+};
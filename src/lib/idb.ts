@@ -0,0 +1,69 @@
+/**
+ * Minimal promise wrappers around IndexedDB.
+ */
+
+const connections: Record<string, Promise<IDBDatabase>> = {};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void,
+) => {
+  if (connections[name] !== undefined) return connections[name];
+
+  connections[name] = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject('indexeddb-unavailable');
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+
+    request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject('indexeddb-blocked');
+  }).catch((e) => {
+    delete connections[name];
+    throw(e);
+  });
+
+  return connections[name];
+};
+
+export const withStore = async <T>(
+  db: Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const store = (await db).transaction(storeName, mode).objectStore(storeName);
+
+  return await requestToPromise(action(store));
+};
+
+/**
+ * Runs several requests in one transaction, resolving once it has committed.
+ */
+export const withTransaction = async (
+  db: Promise<IDBDatabase>,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => void,
+) => {
+  const transaction = (await db).transaction(storeNames, mode);
+
+  return await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+
+    action(transaction);
+  });
+};
@@ -1,6 +1,6 @@
 import { TopicStat } from "../megaFeeds";
 import { convertToUser, userName } from "../stores/profile";
-import { EmojiOption, NostrRelays, NostrStats, PrimalArticleFeed, PrimalDVM, PrimalFeed, PrimalUser, SelectionOption, SenderMessageCount, UserRelation, UserStats } from "../types/primal";
+import { EmojiOption, NostrRelays, NostrStats, PrimalArticleFeed, PrimalDVM, PrimalFeed, PrimalUser, RelayAuthPolicy, RemoteSignerSession, SelectionOption, MediaProcessingSettings, SenderMessageCount, UserRelation, UserStats, ZapRoutingLogEntry, ZapRoutingPolicy, ZapSpend, ZapWallet, NWCBudget, CashuPendingMelt } from "../types/primal";
 import { StreamingData } from "./streaming";
 
 export type ZapAnimationSettings = {
@@ -61,6 +61,17 @@ export type LocalStore = {
   liveStreams: StreamingData[] | undefined,
   liveAuthors: PrimalUser[] | undefined,
   zapAnimations: ZapAnimationSettings | undefined,
+  relayAuthPolicies: Record<string, RelayAuthPolicy> | undefined,
+  zapRouting: ZapRoutingStore | undefined,
+  nwcBudgets: Record<string, NWCBudget> | undefined,
+  cashuPendingMelts: CashuPendingMelt[] | undefined,
+  mediaProcessing: MediaProcessingSettings | undefined,
+};
+
+export type ZapRoutingStore = {
+  policy: ZapRoutingPolicy,
+  log: ZapRoutingLogEntry[],
+  spent: Partial<Record<ZapWallet, ZapSpend>>,
 };
 
 export type UploadTime = {
@@ -125,6 +136,11 @@ export const emptyStorage: LocalStore = {
     minAmount: 1000,
     direction: 'both',
   },
+  relayAuthPolicies: {},
+  zapRouting: undefined,
+  nwcBudgets: {},
+  cashuPendingMelts: [],
+  mediaProcessing: undefined,
 }
 
 export const storageName = (pubkey?: string) => {
@@ -260,6 +276,50 @@ export const readPrimalRelaySettings = (pubkey: string | undefined) => {
   return store.usePrimalRelay || false;
 }
 
+export const saveRelayAuthPolicies = (pubkey: string | undefined, policies: Record<string, RelayAuthPolicy>) => {
+  if (!pubkey) {
+    return;
+  }
+
+  const store = getStorage(pubkey);
+
+  store.relayAuthPolicies = { ...policies };
+
+  setStorage(pubkey, store);
+}
+
+export const readRelayAuthPolicies = (pubkey: string | undefined) => {
+  if (!pubkey) {
+    return {};
+  }
+
+  const store = getStorage(pubkey);
+
+  return store.relayAuthPolicies || {};
+}
+
+export const saveZapRouting = (pubkey: string | undefined, zapRouting: ZapRoutingStore) => {
+  if (!pubkey) {
+    return;
+  }
+
+  const store = getStorage(pubkey);
+
+  store.zapRouting = { ...zapRouting };
+
+  setStorage(pubkey, store);
+}
+
+export const readZapRouting = (pubkey: string | undefined) => {
+  if (!pubkey) {
+    return undefined;
+  }
+
+  const store = getStorage(pubkey);
+
+  return store.zapRouting;
+}
+
 export const saveLikes = (pubkey: string | undefined, likes: string[]) => {
   if (!pubkey) {
     return;
@@ -625,6 +685,24 @@ export const clearSec = () => {
   localStorage.removeItem('primalSec');
 };
 
+export const readRemoteSignerSession = () => {
+  try {
+    const session = localStorage.getItem('primalRemoteSigner');
+
+    return session ? JSON.parse(session) as RemoteSignerSession : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const saveRemoteSignerSession = (session: RemoteSignerSession) => {
+  localStorage.setItem('primalRemoteSigner', JSON.stringify(session));
+};
+
+export const clearRemoteSignerSession = () => {
+  localStorage.removeItem('primalRemoteSigner');
+};
+
 export const getStoredProfile = (pubkey: string) => {
   const store = getStorage(pubkey)
   const user = store.userProfile;
@@ -869,6 +947,77 @@ export const loadNWCActive = (pubkey: string) => {
   return store.nwcActive
 };
 
+export const saveNWCBudgets = (pubkey: string | undefined, budgets: Record<string, NWCBudget>) => {
+  if (!pubkey) {
+    return;
+  }
+
+  const store = getStorage(pubkey);
+
+  store.nwcBudgets = { ...budgets };
+
+  setStorage(pubkey, store);
+}
+
+export const readNWCBudgets = (pubkey: string | undefined) => {
+  if (!pubkey) {
+    return {};
+  }
+
+  const store = getStorage(pubkey);
+
+  return store.nwcBudgets || {};
+}
+
+export const saveCashuPendingMelts = (pubkey: string | undefined, melts: CashuPendingMelt[]) => {
+  if (!pubkey) {
+    return;
+  }
+
+  const store = getStorage(pubkey);
+
+  store.cashuPendingMelts = [ ...melts ];
+
+  setStorage(pubkey, store);
+}
+
+export const readCashuPendingMelts = (pubkey: string | undefined) => {
+  if (!pubkey) {
+    return [];
+  }
+
+  const store = getStorage(pubkey);
+
+  return store.cashuPendingMelts || [];
+}
+
+export const defaultMediaProcessing: MediaProcessingSettings = {
+  stripLocation: true,
+  preset: 'original',
+};
+
+export const saveMediaProcessing = (pubkey: string | undefined, settings: MediaProcessingSettings) => {
+  if (!pubkey) {
+    return;
+  }
+
+  const store = getStorage(pubkey);
+
+  store.mediaProcessing = { ...settings };
+
+  setStorage(pubkey, store);
+}
+
+export const readMediaProcessing = (pubkey: string | undefined) => {
+  if (!pubkey) {
+    return { ...defaultMediaProcessing };
+  }
+
+  const store = getStorage(pubkey);
+
+  return { ...defaultMediaProcessing, ...store.mediaProcessing };
+}
+
 export const saveNWCActive = (pubkey: string, name?: string, uri?: string) => {
   let store = getStorage(pubkey);
 
@@ -0,0 +1,543 @@
+import { MediaMeta, MediaPreset, MediaProcessingSettings } from "../types/primal";
+import { sha256 } from "../utils";
+import { logWarning } from "./logger";
+
+/**
+ * Prepares media on the device before it is uploaded: removes location
+ * metadata, scales images down to the chosen preset and collects the values
+ * for the note's `imeta` tag. Videos also get a poster frame.
+ *
+ * Removing the location fails closed: a file it can't be removed from is
+ * rejected with `locationNotRemoved`, for the user to decide about.
+ */
+
+export type ProcessedMedia = {
+  file: File,
+  meta: MediaMeta,
+  poster?: File,
+  posterMeta?: MediaMeta,
+};
+
+export const mediaPresets: Record<Exclude<MediaPreset, 'original'>, { maxSize: number, quality: number }> = {
+  high: { maxSize: 2560, quality: 0.9 },
+  balanced: { maxSize: 1920, quality: 0.82 },
+  small: { maxSize: 1280, quality: 0.7 },
+};
+
+// Animated gifs and formats canvas can't write are left alone
+const resizableTypes = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const locationNotRemoved = 'location_not_removed';
+
+const posterTimeout = 10_000;
+
+// BLURHASH -------------------------------------
+
+const base83 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+const encode83 = (value: number, length: number) => {
+  let result = '';
+
+  for (let i = 1; i <= length; i++) {
+    result += base83[Math.floor(value / Math.pow(83, length - i)) % 83];
+  }
+
+  return result;
+};
+
+const sRGBToLinear = (value: number) => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const linearToSRGB = (value: number) => {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308 ?
+    Math.round(v * 12.92 * 255 + 0.5) :
+    Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+};
+
+const signPow = (value: number, exp: number) => Math.sign(value) * Math.pow(Math.abs(value), exp);
+
+/**
+ * Encodes RGBA pixels as a blurhash, see https://github.com/woltapp/blurhash
+ */
+export const encodeBlurhash = (pixels: Uint8ClampedArray, width: number, height: number, componentsX = 4, componentsY = 3) => {
+  const factors: number[][] = [];
+
+  for (let y = 0; y < componentsY; y++) {
+    for (let x = 0; x < componentsX; x++) {
+      const normalisation = x === 0 && y === 0 ? 1 : 2;
+      let r = 0, g = 0, b = 0;
+
+      for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+          const basis = normalisation * Math.cos(Math.PI * x * i / width) * Math.cos(Math.PI * y * j / height);
+          const index = 4 * (i + j * width);
+
+          r += basis * sRGBToLinear(pixels[index]);
+          g += basis * sRGBToLinear(pixels[index + 1]);
+          b += basis * sRGBToLinear(pixels[index + 2]);
+        }
+      }
+
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+
+  let hash = encode83((componentsX - 1) + (componentsY - 1) * 9, 1);
+  let maximumValue = 1;
+
+  if (ac.length > 0) {
+    const actualMax = Math.max(...ac.map(f => Math.max(...f.map(Math.abs))));
+    const quantisedMax = Math.floor(Math.max(0, Math.min(82, Math.floor(actualMax * 166 - 0.5))));
+
+    maximumValue = (quantisedMax + 1) / 166;
+    hash += encode83(quantisedMax, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+
+  hash += encode83((linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]), 4);
+
+  const quantise = (value: number) =>
+    Math.floor(Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5))));
+
+  ac.forEach(([r, g, b]) => {
+    hash += encode83(quantise(r) * 19 * 19 + quantise(g) * 19 + quantise(b), 2);
+  });
+
+  return hash;
+};
+
+const blurhashOf = (source: CanvasImageSource, width: number, height: number) => {
+  // A tiny copy is plenty for a blurhash
+  const w = Math.max(1, Math.round(32 * Math.min(1, width / height)));
+  const h = Math.max(1, Math.round(32 * Math.min(1, height / width)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+
+  const context = canvas.getContext('2d');
+
+  if (!context) return;
+
+  context.drawImage(source, 0, 0, w, h);
+
+  return encodeBlurhash(context.getImageData(0, 0, w, h).data, w, h);
+};
+
+// METADATA -------------------------------------
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+
+  parts.forEach((p) => {
+    result.set(p, offset);
+    offset += p.length;
+  });
+
+  return result;
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Reads the orientation from an Exif segment, 1 when it has none
+ */
+const exifOrientation = (segment: Uint8Array) => {
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const tiff = 6;
+
+  if (segment.length < tiff + 8) return 1;
+
+  const littleEndian = ascii(segment, tiff, 2) === 'II';
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+
+  if (ifd + 2 > segment.length) return 1;
+
+  const entries = view.getUint16(ifd, littleEndian);
+
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+
+    if (entry + 12 > segment.length) break;
+
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      return view.getUint16(entry + 8, littleEndian);
+    }
+  }
+
+  return 1;
+};
+
+/**
+ * Exif segment holding nothing but the orientation,
+ * so photos don't turn sideways once the rest is gone
+ */
+const orientationSegment = (orientation: number) => new Uint8Array([
+  0xFF, 0xE1, 0x00, 0x22,
+  0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // Exif\0\0
+  0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08, // big endian TIFF header
+  0x00, 0x01, // one entry
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, (orientation >> 8) & 0xFF, orientation & 0xFF, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00, // no next IFD
+]);
+
+/**
+ * Drops Exif, XMP and IPTC segments from a JPEG without re-encoding it
+ */
+const stripJpegMetadata = async (file: File) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return file;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation = 1;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+    const marker = bytes[offset + 1];
+
+    // Image data starts here, the rest is kept as is
+    if (marker === 0xDA) break;
+
+    const length = (bytes[offset + 2] << 8) + bytes[offset + 3];
+    const segment = bytes.subarray(offset, offset + 2 + length);
+    const data = segment.subarray(4);
+
+    const isExif = marker === 0xE1 && ascii(data, 0, 4) === 'Exif';
+    const isXmp = marker === 0xE1 && ascii(data, 0, 28) === 'http://ns.adobe.com/xap/1.0/';
+    const isIptc = marker === 0xED;
+
+    if (isExif) {
+      orientation = exifOrientation(data);
+    }
+
+    if (!isExif && !isXmp && !isIptc) {
+      kept.push(segment);
+    }
+
+    offset += 2 + length;
+  }
+
+  if (orientation !== 1) {
+    // Right after the JFIF header, when there is one
+    const position = kept[1] && kept[1][1] === 0xE0 ? 2 : 1;
+    kept.splice(position, 0, orientationSegment(orientation));
+  }
+
+  kept.push(bytes.subarray(offset));
+
+  return new File([concat(kept)], file.name, { type: file.type, lastModified: file.lastModified });
+};
+
+/**
+ * Drops the eXIf chunk and XMP text from a PNG
+ */
+const stripPngMetadata = async (file: File) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  if (ascii(bytes, 1, 3) !== 'PNG') return file;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const chunk = bytes.subarray(offset, offset + 12 + length);
+
+    const isXmp = type === 'iTXt' && ascii(bytes, offset + 8, 17) === 'XML:com.adobe.xmp';
+
+    if (type !== 'eXIf' && !isXmp) {
+      kept.push(chunk);
+    }
+
+    offset += 12 + length;
+  }
+
+  return new File([concat(kept)], file.name, { type: file.type, lastModified: file.lastModified });
+};
+
+/**
+ * Finds a top level box of an MP4/QuickTime file, reading only box headers
+ */
+const findTopLevelBox = async (file: File, name: string) => {
+  let offset = 0;
+
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    const type = String.fromCharCode(header.getUint8(4), header.getUint8(5), header.getUint8(6), header.getUint8(7));
+
+    let size = header.getUint32(0);
+
+    if (size === 1) size = Number(header.getBigUint64(8));
+    if (size === 0) size = file.size - offset;
+    if (size < 8) return;
+
+    if (type === name) return { start: offset, end: offset + size };
+
+    offset += size;
+  }
+};
+
+// ISO 6709 coordinates, as in '+46.0567+014.5058+295.000/'
+const iso6709 = /[+-]\d{1,3}\.\d+[+-]\d{1,3}\.\d+(?:[+-]\d+(?:\.\d+)?)?\/?/g;
+
+/**
+ * Blanks the recorded location in a video's metadata. Values are overwritten
+ * in place so none of the offsets into the media data change.
+ */
+const stripVideoLocation = async (file: File) => {
+  const moov = await findTopLevelBox(file, 'moov');
+
+  if (!moov) return file;
+
+  const bytes = new Uint8Array(await file.slice(moov.start, moov.end).arrayBuffer());
+
+  // A single byte encoding keeps string positions equal to byte positions
+  const text = new TextDecoder('latin1').decode(bytes);
+
+  let changed = false;
+
+  for (let match of text.matchAll(iso6709)) {
+    const start = match.index || 0;
+
+    for (let i = 0; i < match[0].length; i++) {
+      const c = match[0][i];
+
+      if (c >= '0' && c <= '9') bytes[start + i] = 0x30;
+    }
+
+    changed = true;
+  }
+
+  if (!changed) return file;
+
+  return new File(
+    [file.slice(0, moov.start), bytes, file.slice(moov.end)],
+    file.name,
+    { type: file.type, lastModified: file.lastModified },
+  );
+};
+
+/**
+ * Gifs have no Exif, but can carry XMP in an application extension
+ */
+const gifHasXmp = async (file: File) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  return new TextDecoder('latin1').decode(bytes).includes('XMP DataXMP');
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string, type: string, quality: number) =>
+  new Promise<File | undefined>((resolve) => {
+    canvas.toBlob((blob) => {
+      resolve(blob ? new File([blob], name, { type: blob.type }) : undefined);
+    }, type, quality);
+  });
+
+/**
+ * Draws the image anew, which leaves all its metadata behind. Formats the
+ * browser can't write, like HEIC, come out as JPEG.
+ */
+const reencodeImage = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const type = resizableTypes.includes(file.type) ? file.type : 'image/jpeg';
+  const name = type === file.type ? file.name : `${file.name.replace(/\.[^.]+$/, '')}.jpg`;
+
+  // Browsers fall back to PNG for types they can't write
+  const reencoded = await canvasToFile(canvas, name, type, 0.92);
+
+  if (!reencoded || reencoded.type !== type) throw(locationNotRemoved);
+
+  return reencoded;
+};
+
+/**
+ * Removes location metadata from images and videos.
+ * @throws `locationNotRemoved` when the file may still hold a location
+ */
+export const stripLocation = async (file: File) => {
+  try {
+    if (file.type === 'image/jpeg') return await stripJpegMetadata(file);
+    if (file.type === 'image/png') return await stripPngMetadata(file);
+    if (['video/mp4', 'video/quicktime'].includes(file.type)) return await stripVideoLocation(file);
+
+    if (file.type === 'image/gif') {
+      if (await gifHasXmp(file)) throw(locationNotRemoved);
+      return file;
+    }
+
+    if (file.type.startsWith('image/')) return await reencodeImage(file);
+  } catch (e) {
+    logWarning('Failed to strip media metadata: ', file.name, e);
+    throw(locationNotRemoved);
+  }
+
+  // Other videos can't be rewritten here
+  if (file.type.startsWith('video/')) throw(locationNotRemoved);
+
+  return file;
+};
+
+// IMAGES ---------------------------------------
+
+/**
+ * Scales an image down to the preset. Drawing it anew leaves all metadata behind.
+ * Returns nothing when that wouldn't make the file any smaller.
+ */
+const resizeImage = async (file: File, bitmap: ImageBitmap, preset: Exclude<MediaPreset, 'original'>) => {
+  const { maxSize, quality } = mediaPresets[preset];
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  const resized = await canvasToFile(canvas, file.name, file.type, quality);
+
+  if (!resized || (scale === 1 && resized.size >= file.size)) return;
+
+  return { file: resized, width: canvas.width, height: canvas.height };
+};
+
+// VIDEOS ---------------------------------------
+
+/**
+ * Grabs a frame a little into the video to use as its poster
+ */
+const videoPoster = (file: File) => new Promise<{ poster: File, width: number, height: number, blurhash?: string } | undefined>((resolve) => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+
+  const finish = (result?: { poster: File, width: number, height: number, blurhash?: string }) => {
+    clearTimeout(timer);
+    URL.revokeObjectURL(url);
+    video.removeAttribute('src');
+    resolve(result);
+  };
+
+  const timer = setTimeout(() => finish(), posterTimeout);
+
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'metadata';
+
+  video.addEventListener('loadedmetadata', () => {
+    video.currentTime = Math.min(1, video.duration / 10 || 0);
+  }, { once: true });
+
+  video.addEventListener('seeked', async () => {
+    const width = video.videoWidth;
+    const height = video.videoHeight;
+
+    if (!width || !height) {
+      finish();
+      return;
+    }
+
+    const scale = Math.min(1, 1280 / Math.max(width, height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const name = `${file.name.replace(/\.[^.]+$/, '')}-poster.jpg`;
+    const poster = await canvasToFile(canvas, name, 'image/jpeg', 0.8);
+
+    finish(poster && { poster, width, height, blurhash: blurhashOf(canvas, canvas.width, canvas.height) });
+  }, { once: true });
+
+  video.addEventListener('error', () => finish(), { once: true });
+
+  video.src = url;
+});
+
+// PIPELINE -------------------------------------
+
+const metaOf = async (file: File, width?: number, height?: number, blurhash?: string): Promise<MediaMeta> => ({
+  m: file.type,
+  x: await sha256(file),
+  size: file.size,
+  dim: width && height ? `${width}x${height}` : undefined,
+  blurhash,
+});
+
+export const processMedia = async (original: File, settings: MediaProcessingSettings): Promise<ProcessedMedia> => {
+  if (original.type.startsWith('video/')) {
+    const file = settings.stripLocation ? await stripLocation(original) : original;
+    const frame = await videoPoster(file);
+
+    return {
+      file,
+      meta: await metaOf(file, frame?.width, frame?.height, frame?.blurhash),
+      poster: frame?.poster,
+      posterMeta: frame && await metaOf(frame.poster, frame.width, frame.height, frame.blurhash),
+    };
+  }
+
+  if (!original.type.startsWith('image/')) {
+    return { file: original, meta: await metaOf(original) };
+  }
+
+  let bitmap: ImageBitmap | undefined;
+
+  try {
+    bitmap = await createImageBitmap(original);
+  } catch (e) {
+    logWarning('Failed to decode image: ', original.name, e);
+  }
+
+  if (!bitmap) {
+    const file = settings.stripLocation ? await stripLocation(original) : original;
+    return { file, meta: await metaOf(file) };
+  }
+
+  const resized = settings.preset !== 'original' && resizableTypes.includes(original.type) ?
+    await resizeImage(original, bitmap, settings.preset) :
+    undefined;
+
+  const file = resized?.file || (settings.stripLocation ? await stripLocation(original) : original);
+  const width = resized?.width || bitmap.width;
+  const height = resized?.height || bitmap.height;
+  const blurhash = blurhashOf(bitmap, bitmap.width, bitmap.height);
+
+  bitmap.close();
+
+  return { file, meta: await metaOf(file, width, height, blurhash) };
+};
+
+/**
+ * Builds a NIP-92 `imeta` tag for an uploaded file
+ */
+export const imetaTag = (url: string, meta: MediaMeta, poster?: string) => [
+  'imeta',
+  `url ${url}`,
+  `m ${meta.m}`,
+  `x ${meta.x}`,
+  `size ${meta.size}`,
+  ...(meta.dim ? [`dim ${meta.dim}`] : []),
+  ...(meta.blurhash ? [`blurhash ${meta.blurhash}`] : []),
+  ...(poster ? [`image ${poster}`] : []),
+];
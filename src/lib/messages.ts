@@ -1,7 +1,9 @@
 import { Kind } from "../constants";
-import { sendMessage } from "../sockets";
-import { UserRelation } from "../types/primal";
-import { signEvent } from "./nostrAPI";
+import { sendMessage, subsTo } from "../sockets";
+import { NostrEventContent, NostrRelaySignedEvent, PrivateDirectMessageRumor, UserRelation } from "../types/primal";
+import { decrypt44, encrypt44, signEvent } from "./nostrAPI";
+import { finalizeEvent, generatePrivateKey, getEventHash, nip44, verifyEvent } from "./nTools";
+import { getReplacableEvent } from "./notes";
 
 
 export const subscribeToMessagesStats = (pubkey: string, subid: string) => {
@@ -133,3 +135,103 @@ export const markAllAsRead = async (subid: string) => {
     return false;
   }
 }
+
+// NIP-17 -------------------------------------------------------------------
+
+const twoDays = 2 * 24 * 60 * 60;
+
+const unixNow = () => Math.floor((new Date()).getTime() / 1000);
+
+// Seals and gift wraps carry a randomized timestamp so relays can't correlate them with the rumor
+const randomPastTimestamp = () => unixNow() - Math.floor(Math.random() * twoDays);
+
+export const giftWrapTimeSkew = twoDays;
+
+export const createRumor = (sender: string, receiver: string, content: string, tags: string[][] = []) => {
+  const rumor = {
+    kind: Kind.PrivateDirectMessage,
+    pubkey: sender,
+    content,
+    tags: [['p', receiver], ...tags],
+    created_at: unixNow(),
+  };
+
+  return { ...rumor, id: getEventHash(rumor) } as PrivateDirectMessageRumor;
+};
+
+export const createSeal = async (rumor: PrivateDirectMessageRumor, recipient: string) => {
+  const content = await encrypt44(recipient, JSON.stringify(rumor));
+
+  return await signEvent({
+    kind: Kind.Seal,
+    content,
+    tags: [],
+    created_at: randomPastTimestamp(),
+  });
+};
+
+export const createGiftWrap = (seal: NostrRelaySignedEvent, recipient: string) => {
+  const sk = generatePrivateKey();
+  const key = nip44.getConversationKey(sk, recipient);
+
+  return finalizeEvent({
+    kind: Kind.GiftWrap,
+    content: nip44.v2.encrypt(JSON.stringify(seal), key),
+    tags: [['p', recipient]],
+    created_at: randomPastTimestamp(),
+  }, sk) as NostrRelaySignedEvent;
+};
+
+/**
+ * Builds a kind 14 rumor and gift wraps it twice: once for the receiver
+ * and once for the sender, so the message shows up in both inboxes.
+ */
+export const wrapDirectMessage = async (sender: string, receiver: string, content: string) => {
+  const rumor = createRumor(sender, receiver, content);
+
+  const receiverWrap = createGiftWrap(await createSeal(rumor, receiver), receiver);
+  const senderWrap = createGiftWrap(await createSeal(rumor, sender), sender);
+
+  return { rumor, receiverWrap, senderWrap };
+};
+
+export const unwrapDirectMessage = async (wrap: NostrRelaySignedEvent) => {
+  if (wrap.kind !== Kind.GiftWrap) throw('not-a-gift-wrap');
+
+  const seal: NostrRelaySignedEvent = JSON.parse(await decrypt44(wrap.pubkey, wrap.content));
+
+  if (seal.kind !== Kind.Seal || !verifyEvent(seal)) throw('invalid-seal');
+
+  const rumor: PrivateDirectMessageRumor = JSON.parse(await decrypt44(seal.pubkey, seal.content));
+
+  if (rumor.kind !== Kind.PrivateDirectMessage) throw('unsupported-rumor-kind');
+
+  // Prevents sender impersonation, the rumor must be authored by whoever signed the seal
+  if (rumor.pubkey !== seal.pubkey) throw('rumor-author-mismatch');
+
+  return rumor;
+};
+
+export const extractDMRelays = (tags: string[][]) => {
+  return tags.reduce<string[]>((acc, t) => t[0] === 'relay' && t[1] ? [ ...acc, t[1] ] : acc, []);
+};
+
+export const fetchDMRelays = (pubkey: string, subid: string) => {
+  return new Promise<string[]>((resolve) => {
+    let relays: string[] = [];
+
+    const unsub = subsTo(subid, {
+      onEvent: (_, content: NostrEventContent) => {
+        if (content.kind === Kind.DMRelayList) {
+          relays = extractDMRelays(content.tags || []);
+        }
+      },
+      onEose: () => {
+        unsub();
+        resolve(relays);
+      },
+    });
+
+    getReplacableEvent(pubkey, Kind.DMRelayList, subid);
+  });
+};
@@ -1,6 +1,7 @@
 import {
   finalizeEvent,
   generateSecretKey as generatePrivateKey,
+  getEventHash,
   getPublicKey,
   verifyEvent
 } from 'nostr-tools';
@@ -40,6 +41,7 @@ export {
   RelayFactory,
   relayInit,
   getPublicKey,
+  getEventHash,
   verifyEvent,
   finalizeEvent,
 }
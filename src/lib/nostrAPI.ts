@@ -8,6 +8,7 @@ import {
   WebLnExtension,
  } from "../types/primal";
 import { PrimalNostr } from "./PrimalNostr";
+import { getActiveRemoteSigner } from "./remoteSigner";
 
 
 type QueueItem = {
@@ -76,7 +77,7 @@ const enqueueWebLn = async <T>(action: (webln: WebLnExtension) => Promise<T>) =>
 
 const enqueueNostr = async <T>(action: (nostr: NostrExtension) => Promise<T>) => {
   const win = window as NostrWindow;
-  const nostr = win.nostr || PrimalNostr();
+  const nostr = getActiveRemoteSigner() || win.nostr || PrimalNostr();
 
   if (nostr === undefined) {
     throw('no_nostr_extension');
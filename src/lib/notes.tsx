@@ -1,4 +1,4 @@
-import { Relay, relayInit } from "../lib/nTools";
+import { Relay } from "../lib/nTools";
 import { createStore, unwrap } from "solid-js/store";
 import LinkPreview from "../components/LinkPreview/LinkPreview";
 import { addrRegex, appleMusicRegex, emojiRegex, hashtagRegex, interpunctionRegex, Kind, linebreakRegex, lnRegex, lnUnifiedRegex, mixCloudRegex, nostrNestsRegex, noteRegexLocal, profileRegex, rumbleRegex, soundCloudRegex, spotifyRegex, tagMentionRegex, tidalEmbedRegex, twitchPlayerRegex, twitchRegex, urlRegex, urlRegexG, wavlakeRegex, youtubeRegex, zapStreamEmbedRegex } from "../constants";
@@ -11,6 +11,8 @@ import { encrypt44, signEvent } from "./nostrAPI";
 import { ArticleEdit } from "../pages/ReadsEditor";
 import ExternalLiveEventPreview from "../components/LiveVideo/ExternalLiveEventPreview";
 import { APP_ID } from "../App";
+import { outboxReadRelays, taggedPubkeys } from "./outbox";
+import { publishEvent } from "./publishQueue";
 
 const getLikesStorageKey = () => {
   const key = localStorage.getItem('pubkey') || 'anon';
@@ -453,14 +455,24 @@ export const proxyEvent = async (event: NostrEvent, relays: Relay[], relaySettin
     relays.filter((relay) => (relaySettings[relay.url] || { read: true, write: true }).write) :
     [...relays];
 
-  const publishRelays = new Set<string>([ ...userRelays.map(r => r.url), ...hintRelayUrls]);
+  // Tagged users' read relays, so replies and mentions reach them
+  const outboxUrls = await outboxReadRelays(taggedPubkeys(signedNote), [ ...userRelays.map(r => r.url), ...hintRelayUrls]);
 
-  const promise = new Promise<boolean>((resolve, reject) => {
-    if (!signedNote) {
-      reject("Note not signed");
-      return;
-    }
+  const publishRelays = new Set<string>([ ...userRelays.map(r => r.url), ...hintRelayUrls, ...outboxUrls]);
+
+  try {
+    await publishEvent(signedNote, Array.from(publishRelays), 'primal');
+
+    return { success: true, note: signedNote } as SendNoteResult;
+  }
+  catch (e) {
+    logError('Failed to publish the note: ', e);
+    return { success: false, reasons: [e], note: signedNote} as SendNoteResult;
+  }
+}
 
+export const broadcastThroughPrimal = (signedNote: NostrRelaySignedEvent, relayUrls: string[]) => {
+  return new Promise<boolean>((resolve, reject) => {
     const subId = `publish_event_${signedNote.id}`;
 
     const unsub = subsTo(subId, {
@@ -481,20 +493,10 @@ export const proxyEvent = async (event: NostrEvent, relays: Relay[], relaySettin
     sendMessage(JSON.stringify([
       "REQ",
       subId,
-      { cache: ["broadcast_events", { events: [signedNote], relays: Array.from(publishRelays) }]}
+      { cache: ["broadcast_events", { events: [signedNote], relays: relayUrls }]}
     ]));
   });
-
-  try {
-    await Promise.race([promise]);
-
-    return { success: true, note: signedNote } as SendNoteResult;
-  }
-  catch (e) {
-    logError('Failed to publish the note: ', e);
-    return { success: false, reasons: [e], note: signedNote} as SendNoteResult;
-  }
-}
+};
 
 export const sendNote = async (text: string, shouldProxy: boolean, relays: Relay[], tags: string[][], relaySettings?: NostrRelays) => {
   const event = {
@@ -507,16 +509,14 @@ export const sendNote = async (text: string, shouldProxy: boolean, relays: Relay
   return await sendEvent(event, relays, relaySettings, shouldProxy);
 }
 
-export const sendArticle = async (articleData: ArticleEdit, shouldProxy: boolean, relays: Relay[], tags: string[][], relaySettings?: NostrRelays) => {
-  const time = Math.floor((new Date()).getTime() / 1000);
-
+export const articleEvent = (articleData: ArticleEdit, tags: string[][], time = Math.floor((new Date()).getTime() / 1000)) => {
   const articleTags = [...(articleData.msg?.tags || [])];
 
   const pubTime = articleTags.find(t => t[0] === 'published_at')
 
   let timeTags = pubTime ? [[...pubTime] ]: [["published_at", `${time}`]]
 
-  const event = {
+  return {
     content: articleData.content,
     kind: Kind.LongForm,
     tags: [
@@ -525,6 +525,10 @@ export const sendArticle = async (articleData: ArticleEdit, shouldProxy: boolean
     ],
     created_at: time,
   };
+};
+
+export const sendArticle = async (articleData: ArticleEdit, shouldProxy: boolean, relays: Relay[], tags: string[][], relaySettings?: NostrRelays) => {
+  const event = articleEvent(articleData, tags);
 
   return await sendEvent(event, relays, relaySettings, shouldProxy);
 }
@@ -726,27 +730,13 @@ export const broadcastEvent = async (event: NostrRelaySignedEvent, shouldProxy:
   }
 };
 
-export const sendEvent = async (event: NostrEvent, relays: Relay[], relaySettings: NostrRelays | undefined, shouldProxy: boolean) => {
-
-  if (shouldProxy) {
-    return await proxyEvent(event, relays, relaySettings);
-  }
-
-  let signedNote: NostrRelaySignedEvent | undefined;
-
-  try {
-    signedNote = await signEvent(event);
-    if (!signedNote) throw('event_not_signed');
-  } catch (reason) {
-    logError('Failed to send event: ', reason);
-    return { success: false , reasons: [reason]} as SendNoteResult;
-  }
-
-  let responses = [];
-  let reasons: string[] = [];
-
+/**
+ * Relays a signed event should go to: the user's write relays, hints from its `e` tags
+ * and the read relays of the users it tags.
+ */
+export const publishUrlsFor = async (signedNote: NostrRelaySignedEvent, relays: Relay[], relaySettings: NostrRelays | undefined) => {
   // Relay hints fromm `e` tags
-  const hintRelayUrls = event.tags.reduce((acc, t) => {
+  const hintRelayUrls = signedNote.tags.reduce<string[]>((acc, t) => {
     if (
       t[0] === 'e' &&
       t[2] &&
@@ -759,85 +749,46 @@ export const sendEvent = async (event: NostrEvent, relays: Relay[], relaySetting
     return [...acc];
   }, []);
 
-  let relaysActual = [...relays];
-
-  if (relaysActual.length === 0) {
-    relaysActual = Object.keys(relaySettings || {});
-  }
-
-  for (let i = 0;i < relaysActual.length;i++) {
-
-    const relay = relaysActual[i];
-
+  const writeRelayUrls = relays.reduce<string[]>((acc, relay) => {
     const settings = (relaySettings && relaySettings[relay.url]) || { read: true, write: true };
 
-    if (!settings.write) {
-      continue;
-    }
-
-    responses.push(new Promise<string>(async (resolve, reject) => {
-      const timeout = setTimeout(() => {
-        logError(`Publishing note to ${relay.url} has timed out`);
-        reasons.push('timeout');
-        reject('timeout');
-      }, 8_000);
+    return settings.write ? [ ...acc, relay.url ] : acc;
+  }, relays.length === 0 ? Object.keys(relaySettings || {}) : []);
 
-      try {
-        logInfo('publishing to relay: ', relay, signedNote)
+  // Tagged users' read relays, so replies and mentions reach them
+  const outboxUrls = await outboxReadRelays(taggedPubkeys(signedNote), [ ...writeRelayUrls, ...hintRelayUrls]);
 
-        await relay.publish(signedNote);
+  return Array.from(new Set([ ...writeRelayUrls, ...hintRelayUrls, ...outboxUrls ]));
+};
 
-        logInfo(`${relay.url} has accepted our event`);
-        clearTimeout(timeout);
-        resolve('success');
+export const sendEvent = async (event: NostrEvent, relays: Relay[], relaySettings: NostrRelays | undefined, shouldProxy: boolean) => {
 
-      } catch (e) {
-        logError(`Failed publishing note to ${relay.url}: `, e);
-        clearTimeout(timeout);
-        reasons.push(`${e}`);
-        reject(e);
-      }
-    }));
+  if (shouldProxy) {
+    return await proxyEvent(event, relays, relaySettings);
   }
 
-  for (let i = 0;i < hintRelayUrls.length;i++) {
-    const url = hintRelayUrls[i];
-
-    try {
-      new Promise<string>(async (resolve, reject) => {
-        const relay = relayInit(url);
-        await relay.connect();
-
-        try {
-          logInfo('publishing to relay hint: ', relay)
-
-          await relay.publish(signedNote);
-
-          logInfo(`hint ${relay.url} has accepted our event`);
-          resolve('success');
-
-        } catch (e) {
-          logError(`Failed publishing note to hint ${relay.url}: `, e);
-          reject('success');
-        }
-
-        relay.close();
-      });
+  let signedNote: NostrRelaySignedEvent | undefined;
 
-    } catch (err) {
-      logError('REALY ERROR: ', err)
-    }
+  try {
+    signedNote = await signEvent(event);
+    if (!signedNote) throw('event_not_signed');
+  } catch (reason) {
+    logError('Failed to send event: ', reason);
+    return { success: false , reasons: [reason]} as SendNoteResult;
   }
 
+  const publishUrls = await publishUrlsFor(signedNote, relays, relaySettings);
+
   try {
-    await Promise.any(responses);
+    const url = await publishEvent(signedNote, publishUrls, 'relays', relays);
+
+    logInfo(`${url} has accepted our event`);
 
     return { success: true, note: signedNote } as SendNoteResult;
   }
   catch (e) {
     logError('Failed to publish the note: ', e);
     return await proxyEvent(event, relays, relaySettings);
-    // return { success: false, reasons, note: signedNote} as SendNoteResult;
   }
 }
 
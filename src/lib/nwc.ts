@@ -0,0 +1,434 @@
+import { createStore, reconcile, unwrap } from "solid-js/store";
+import { Kind, nwcPaymentTimeout, nwcRequestTimeout, nwcTransactionsLimit } from "../constants";
+import { NostrRelaySignedEvent, NWCBudget, NWCBudgetPeriod, NWCCapabilities, NWCConnectionState, NWCEncryption, NWCMethod, NWCTransaction } from "../types/primal";
+import { hexToBytes, parseBolt11 } from "../utils";
+import { readNWCBudgets, saveNWCBudgets } from "./localStore";
+import { logWarning } from "./logger";
+import { finalizeEvent, getPublicKey, nip04, nip44, relayInit } from "./nTools";
+import { decrypt } from "./nostrAPI";
+import { fetchFromRelayUrls, subscribeOnRelayUrls } from "./relays";
+import { decodeNWCUri, NWCConfig } from "./wallet";
+
+/**
+ * NIP-47 client. Each connection advertises the methods it supports in its info
+ * event, requests are only sent for those. Payments are checked against the
+ * connection's budget first.
+ */
+
+export const [nwcConnections, setNWCConnections] = createStore<Record<string, NWCConnectionState>>({});
+
+export const [nwcBudgets, setNWCBudgets] = createStore<Record<string, NWCBudget>>({});
+
+let budgetsOwner: string | undefined;
+
+// Info events rarely change, keyed by wallet service pubkey
+let capabilitiesCache: Record<string, NWCCapabilities> = {};
+
+export const nwcConfigOf = async (pubkey: string, nwcEnc: string) =>
+  decodeNWCUri(await decrypt(pubkey, nwcEnc));
+
+export const fetchNWCCapabilities = async (config: NWCConfig, force = false) => {
+  if (!force && capabilitiesCache[config.pubkey]) {
+    return capabilitiesCache[config.pubkey];
+  }
+
+  const events = await fetchFromRelayUrls(
+    config.relays,
+    [{ kinds: [Kind.NWCInfo], authors: [config.pubkey] }],
+  );
+
+  const info = events.sort((a, b) => b.created_at - a.created_at)[0];
+
+  if (!info) throw('nwc_no_info');
+
+  const tagValues = (name: string) =>
+    (info.tags.find(t => t[0] === name)?.[1] || '').split(' ').filter(v => v.length > 0);
+
+  const encryption = tagValues('encryption') as NWCEncryption[];
+
+  const capabilities: NWCCapabilities = {
+    methods: `${info.content}`.split(/\s+/).filter(m => m.length > 0) as NWCMethod[],
+    notifications: tagValues('notifications'),
+    // Wallets that predate the tag only speak NIP-04
+    encryption: encryption.length > 0 ? encryption : ['nip04'],
+  };
+
+  capabilitiesCache[config.pubkey] = capabilities;
+
+  return capabilities;
+};
+
+const encryptionFor = (capabilities: NWCCapabilities): NWCEncryption =>
+  capabilities.encryption.includes('nip44_v2') ? 'nip44_v2' : 'nip04';
+
+const encryptContent = async (config: NWCConfig, encryption: NWCEncryption, content: string) => {
+  const secret = hexToBytes(config.secret);
+
+  if (encryption === 'nip44_v2') {
+    return nip44.v2.encrypt(content, nip44.v2.utils.getConversationKey(secret, config.pubkey));
+  }
+
+  return await nip04.encrypt(secret, config.pubkey, content);
+};
+
+const decryptContent = async (config: NWCConfig, encryption: NWCEncryption, content: string) => {
+  const secret = hexToBytes(config.secret);
+
+  if (encryption === 'nip44_v2') {
+    return nip44.v2.decrypt(content, nip44.v2.utils.getConversationKey(secret, config.pubkey));
+  }
+
+  return await nip04.decrypt(secret, config.pubkey, content);
+};
+
+type NWCResponse = {
+  result?: any,
+  error?: { code: string, message?: string },
+};
+
+/**
+ * Resolves with the wallet's response, errors included. Rejects only when no response arrived,
+ * in which case the wallet may or may not have acted on the request.
+ */
+const sendRequest = (config: NWCConfig, request: NostrRelaySignedEvent, encryption: NWCEncryption, timeout: number) =>
+  new Promise<NWCResponse>((resolve, reject) => {
+    let relays: any[] = [];
+    let failed = 0;
+    let done = false;
+
+    const finish = (action: () => void) => {
+      if (done) return;
+      done = true;
+
+      clearTimeout(timer);
+      relays.forEach(r => r.close());
+      action();
+    };
+
+    const timer = setTimeout(() => finish(() => reject('nwc_timeout')), timeout);
+
+    const onRelayFailed = (url: string, reason: any) => {
+      logWarning('NWC relay failed: ', url, reason);
+
+      failed += 1;
+
+      if (failed === config.relays.length) {
+        finish(() => reject('nwc_unreachable'));
+      }
+    };
+
+    config.relays.forEach(async (url) => {
+      try {
+        const relay = relayInit(url);
+
+        await relay.connect();
+
+        if (done) {
+          relay.close();
+          return;
+        }
+
+        relays.push(relay);
+
+        relay.subscribe(
+          [{ kinds: [Kind.NWCResponse], authors: [config.pubkey], '#e': [request.id] }],
+          {
+            async onevent(event) {
+              try {
+                const response: NWCResponse = JSON.parse(await decryptContent(config, encryption, event.content));
+
+                finish(() => resolve(response));
+              } catch (e) {
+                logWarning('Failed to read NWC response: ', e);
+              }
+            },
+          },
+        );
+
+        await relay.publish(request);
+      } catch (e) {
+        onRelayFailed(url, e);
+      }
+    });
+  });
+
+const walletError = (response: NWCResponse) =>
+  response.error?.message || response.error?.code || 'nwc_error';
+
+const prepareRequest = async (config: NWCConfig, method: NWCMethod, params: Record<string, any>) => {
+  if (config.relays.length === 0) throw('nwc_no_relays');
+
+  const capabilities = await fetchNWCCapabilities(config);
+
+  if (!capabilities.methods.includes(method)) throw('nwc_unsupported_method');
+
+  const encryption = encryptionFor(capabilities);
+
+  const tags = [['p', config.pubkey]];
+
+  if (encryption !== 'nip04') {
+    tags.push(['encryption', encryption]);
+  }
+
+  const request = finalizeEvent({
+    kind: Kind.NWCRequest,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content: await encryptContent(config, encryption, JSON.stringify({ method, params })),
+  }, hexToBytes(config.secret));
+
+  return { request, encryption };
+};
+
+/**
+ * Sends a NIP-47 request and resolves with its result.
+ * Fails with the wallet's error message, or if the wallet doesn't support `method`.
+ */
+export const nwcRequest = async (config: NWCConfig, method: NWCMethod, params: Record<string, any> = {}, timeout = nwcRequestTimeout) => {
+  const { request, encryption } = await prepareRequest(config, method, params);
+  const response = await sendRequest(config, request, encryption, timeout);
+
+  if (response.error) throw(walletError(response));
+
+  return response.result;
+};
+
+// Budgets -----------------------------------------------------------------
+
+const sats = (msats: number | undefined) => Math.floor((msats || 0) / 1_000);
+
+const periodStart = (period: NWCBudgetPeriod) => {
+  const now = new Date();
+
+  switch (period) {
+    case 'daily':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    case 'weekly':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay()).getTime();
+    case 'monthly':
+      return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    default:
+      return 0;
+  }
+};
+
+const persistBudgets = () => {
+  saveNWCBudgets(budgetsOwner, { ...unwrap(nwcBudgets) });
+};
+
+export const loadNWCBudgets = (pubkey: string | undefined) => {
+  budgetsOwner = pubkey;
+
+  setNWCBudgets(reconcile(readNWCBudgets(pubkey)));
+};
+
+export const nwcBudgetSpent = (name: string) => {
+  const budget = nwcBudgets[name];
+
+  return budget && budget.since === periodStart(budget.period) ? budget.spent : 0;
+};
+
+export const setNWCBudget = (name: string, limit: number, period: NWCBudgetPeriod) => {
+  const spent = nwcBudgets[name]?.period === period ? nwcBudgetSpent(name) : 0;
+
+  setNWCBudgets(name, () => ({ limit, period, spent, since: periodStart(period) }));
+  persistBudgets();
+};
+
+export const removeNWCBudget = (name: string) => {
+  const { [name]: _, ...rest } = unwrap(nwcBudgets);
+
+  setNWCBudgets(reconcile(rest));
+  persistBudgets();
+};
+
+const recordSpend = (name: string, amount: number) => {
+  const budget = nwcBudgets[name];
+
+  if (!budget) return;
+
+  setNWCBudgets(name, {
+    spent: Math.max(0, nwcBudgetSpent(name) + amount),
+    since: periodStart(budget.period),
+  });
+  persistBudgets();
+};
+
+/**
+ * Counts `amount` as spent before the payment is sent, so payments made
+ * at the same time can't go over the budget together.
+ */
+const reserveBudget = (name: string, amount: number) => {
+  const limit = nwcBudgets[name]?.limit || 0;
+
+  if (limit > 0 && nwcBudgetSpent(name) + amount > limit) {
+    throw('nwc_budget_exceeded');
+  }
+
+  recordSpend(name, amount);
+};
+
+/**
+ * Sends a payment against a reservation of `amount`. The reservation is only
+ * given back when the request never went out or the wallet answered with an
+ * error. Without an answer (a timeout) the wallet may still have paid.
+ * Fees are added once known.
+ */
+const payWithinBudget = async (
+  name: string,
+  amount: number,
+  config: NWCConfig,
+  method: NWCMethod,
+  params: Record<string, any>,
+) => {
+  reserveBudget(name, amount);
+
+  let prepared: Awaited<ReturnType<typeof prepareRequest>>;
+
+  try {
+    prepared = await prepareRequest(config, method, params);
+  } catch (e) {
+    recordSpend(name, -amount);
+    throw e;
+  }
+
+  const response = await sendRequest(config, prepared.request, prepared.encryption, nwcPaymentTimeout);
+
+  if (response.error) {
+    recordSpend(name, -amount);
+    throw(walletError(response));
+  }
+
+  recordSpend(name, sats(response.result?.fees_paid));
+
+  return response.result as { preimage: string, fees_paid?: number };
+};
+
+// Methods -----------------------------------------------------------------
+
+/**
+ * Pays the invoice through connection `name`. `amount` (sats) is only
+ * needed for invoices that don't carry one.
+ */
+export const nwcPayInvoice = async (name: string, config: NWCConfig, invoice: string, amount?: number) => {
+  const invoiceAmount = Math.floor(parseBolt11(invoice) || 0);
+  const total = invoiceAmount || amount || 0;
+
+  const params = invoiceAmount ? { invoice } : { invoice, amount: total * 1_000 };
+
+  return await payWithinBudget(name, total, config, 'pay_invoice', params);
+};
+
+export const nwcPayKeysend = async (name: string, config: NWCConfig, pubkey: string, amount: number) => {
+  return await payWithinBudget(name, amount, config, 'pay_keysend', { pubkey, amount: amount * 1_000 });
+};
+
+export const nwcGetBalance = async (config: NWCConfig) => {
+  const result = await nwcRequest(config, 'get_balance');
+
+  return sats(result?.balance);
+};
+
+export const nwcMakeInvoice = async (config: NWCConfig, amount: number, description = '') => {
+  const result = await nwcRequest(config, 'make_invoice', { amount: amount * 1_000, description });
+
+  return result as NWCTransaction;
+};
+
+export const nwcLookupInvoice = async (config: NWCConfig, invoiceOrHash: string) => {
+  const params = invoiceOrHash.startsWith('ln') ?
+    { invoice: invoiceOrHash } :
+    { payment_hash: invoiceOrHash };
+
+  const result = await nwcRequest(config, 'lookup_invoice', params);
+
+  return result as NWCTransaction;
+};
+
+export const nwcListTransactions = async (config: NWCConfig, limit = nwcTransactionsLimit, offset = 0) => {
+  const result = await nwcRequest(config, 'list_transactions', { limit, offset });
+
+  return (result?.transactions || []) as NWCTransaction[];
+};
+
+// Connection state --------------------------------------------------------
+
+/**
+ * Reloads capabilities, balance and recent transactions of connection `name`
+ * for whatever the wallet supports.
+ */
+export const refreshNWCConnection = async (name: string, config: NWCConfig) => {
+  setNWCConnections(name, (state) => ({
+    ...state,
+    transactions: state?.transactions || [],
+    isLoading: true,
+    error: undefined,
+  }));
+
+  try {
+    const capabilities = await fetchNWCCapabilities(config, true);
+
+    setNWCConnections(name, { capabilities });
+
+    if (capabilities.methods.includes('get_balance')) {
+      const balance = await nwcGetBalance(config);
+      setNWCConnections(name, { balance });
+    }
+
+    if (capabilities.methods.includes('list_transactions')) {
+      const transactions = await nwcListTransactions(config);
+      setNWCConnections(name, 'transactions', reconcile(transactions));
+    }
+  } catch (e) {
+    logWarning('Failed to refresh NWC connection: ', name, e);
+    setNWCConnections(name, { error: `${e}` });
+  }
+
+  setNWCConnections(name, { isLoading: false });
+};
+
+/**
+ * Listens for payment notifications of connection `name`, keeping its
+ * balance and history current. Returns a function that stops listening.
+ */
+export const watchNWCNotifications = (name: string, config: NWCConfig) => {
+  const capabilities = capabilitiesCache[config.pubkey];
+
+  if (!capabilities || capabilities.notifications.length === 0) {
+    return () => {};
+  }
+
+  const encryption = encryptionFor(capabilities);
+  const clientPubkey = getPublicKey(hexToBytes(config.secret));
+
+  return subscribeOnRelayUrls(
+    config.relays,
+    [{
+      kinds: [encryption === 'nip44_v2' ? Kind.NWCNotificationV2 : Kind.NWCNotification],
+      authors: [config.pubkey],
+      '#p': [clientPubkey],
+      since: Math.floor(Date.now() / 1000),
+    }],
+    [],
+    async (event) => {
+      try {
+        const { notification } = JSON.parse(await decryptContent(config, encryption, event.content));
+
+        if (!notification?.payment_hash) return;
+
+        const transactions = nwcConnections[name]?.transactions || [];
+
+        setNWCConnections(name, 'transactions', [
+          notification,
+          ...transactions.filter(t => t.payment_hash !== notification.payment_hash),
+        ]);
+
+        if (capabilities.methods.includes('get_balance')) {
+          setNWCConnections(name, { balance: await nwcGetBalance(config) });
+        }
+      } catch (e) {
+        logWarning('Failed to read NWC notification: ', e);
+      }
+    },
+  );
+};
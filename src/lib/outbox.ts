@@ -0,0 +1,281 @@
+import { Kind, outboxIdleTimeout, outboxMaxConnections, outboxRelayListTTL, outboxRelaysPerUser, outboxRelayListTimeout } from "../constants";
+import { cacheUnavailable, subsTo } from "../sockets";
+import { relayInit, Relay, utils } from "./nTools";
+import { extractRelayConfigFromTags, getUsersRelayInfo } from "./profile";
+import { fetchFromRelayUrls } from "./relays";
+import { logInfo, logWarning } from "./logger";
+import { attachRelayAuth } from "./relayAuth";
+import { APP_ID } from "../App";
+
+export type OutboxRelayList = {
+  read: string[],
+  write: string[],
+  fetchedAt: number,
+};
+
+type PooledRelay = {
+  relay: Relay,
+  lastUsed: number,
+  idleTimeout?: ReturnType<typeof setTimeout>,
+};
+
+const relayLists: Record<string, OutboxRelayList> = {};
+
+const pool: Record<string, PooledRelay> = {};
+const pendingConnections: Record<string, Promise<Relay | undefined>> = {};
+
+const isUsableRelayUrl = (url: string) => {
+  try {
+    const u = new URL(url);
+    return u.protocol === 'wss:' && !u.hostname.endsWith('.onion') && u.hostname !== 'localhost';
+  } catch (e) {
+    return false;
+  }
+};
+
+const normalizeUrls = (urls: string[]) =>
+  Array.from(new Set(urls.filter(isUsableRelayUrl).map(utils.normalizeURL)));
+
+// RELAY LISTS ----------------------------------
+
+export const getCachedRelayList = (pubkey: string) => {
+  const list = relayLists[pubkey];
+
+  if (!list || Date.now() - list.fetchedAt > outboxRelayListTTL) return undefined;
+
+  return list;
+};
+
+const rememberRelayList = (pubkey: string, tags: string[][], fetchedAt: number) => {
+  const config = extractRelayConfigFromTags(tags) as Record<string, { read: boolean, write: boolean }>;
+  const urls = Object.keys(config);
+
+  const known = relayLists[pubkey];
+
+  // Relays may hand out older versions of the list
+  if (known && known.fetchedAt === fetchedAt && known.read.length + known.write.length > 0) return;
+
+  relayLists[pubkey] = {
+    read: normalizeUrls(urls.filter(u => config[u].read)),
+    write: normalizeUrls(urls.filter(u => config[u].write)),
+    fetchedAt,
+  };
+};
+
+/**
+ * Asks the given relays directly, for when the cache server is unreachable.
+ * Users without a list are not remembered, the cache may know better later.
+ */
+const fetchRelayListsFromRelays = async (pubkeys: string[], relays: Relay[]) => {
+  const connected = relays.filter(r => r.connected);
+  const fetchedAt = Date.now();
+
+  const events = await fetchFromRelayUrls(
+    connected.map(r => r.url),
+    [{ kinds: [Kind.UserRelays], authors: pubkeys }],
+    connected,
+    outboxRelayListTimeout,
+  );
+
+  events.
+    sort((a, b) => b.created_at - a.created_at).
+    forEach(e => rememberRelayList(e.pubkey, e.tags, fetchedAt));
+};
+
+/**
+ * Resolves kind 10002 relay lists for the given users, asking the cache
+ * server only for the ones we don't already know about.
+ */
+export const fetchRelayLists = async (pubkeys: string[], relays: Relay[] = []) => {
+  const missing = Array.from(new Set(pubkeys)).filter(pk => !getCachedRelayList(pk));
+
+  const pick = () => pubkeys.reduce<Record<string, OutboxRelayList>>((acc, pk) => {
+    const list = relayLists[pk];
+    return list ? { ...acc, [pk]: list } : acc;
+  }, {});
+
+  if (missing.length === 0) return pick();
+
+  if (cacheUnavailable()) {
+    await fetchRelayListsFromRelays(missing, relays);
+    return pick();
+  }
+
+  return new Promise<Record<string, OutboxRelayList>>((resolve) => {
+    const subId = `outbox_relays_${APP_ID}_${missing[0].slice(0, 8)}`;
+    const fetchedAt = Date.now();
+
+    const done = () => {
+      clearTimeout(timeout);
+      unsub();
+
+      // Remember users without a list so we don't keep asking for them
+      missing.forEach(pk => {
+        if (!relayLists[pk] || relayLists[pk].fetchedAt < fetchedAt) {
+          relayLists[pk] = { read: [], write: [], fetchedAt };
+        }
+      });
+
+      resolve(pick());
+    };
+
+    const timeout = setTimeout(done, outboxRelayListTimeout);
+
+    const unsub = subsTo(subId, {
+      onEvent: (_, content) => {
+        if (content.kind !== Kind.UserRelays || !content.pubkey) return;
+
+        rememberRelayList(content.pubkey, content.tags || [], fetchedAt);
+      },
+      onEose: done,
+      onNotice: done,
+    });
+
+    getUsersRelayInfo(missing, subId);
+  });
+};
+
+// POOL -----------------------------------------
+
+const release = (url: string) => {
+  const pooled = pool[url];
+
+  if (!pooled) return;
+
+  pooled.lastUsed = Date.now();
+  clearTimeout(pooled.idleTimeout);
+
+  pooled.idleTimeout = setTimeout(() => {
+    logInfo('Closing idle outbox relay: ', url);
+    pooled.relay.close();
+    delete pool[url];
+  }, outboxIdleTimeout);
+};
+
+const evictLeastRecentlyUsed = (keep: string[]) => {
+  const candidates = Object.keys(pool)
+    .filter(url => !keep.includes(url))
+    .sort((a, b) => pool[a].lastUsed - pool[b].lastUsed);
+
+  const url = candidates[0];
+
+  if (!url) return false;
+
+  clearTimeout(pool[url].idleTimeout);
+  pool[url].relay.close();
+  delete pool[url];
+
+  return true;
+};
+
+const connect = (url: string) => {
+  if (pendingConnections[url] !== undefined) return pendingConnections[url];
+
+  pendingConnections[url] = (async () => {
+    try {
+      const relay = relayInit(url);
+      attachRelayAuth(relay);
+      await relay.connect();
+
+      relay.onclose = () => {
+        if (pool[url]?.relay === relay) {
+          clearTimeout(pool[url].idleTimeout);
+          delete pool[url];
+        }
+      };
+
+      pool[url] = { relay, lastUsed: Date.now() };
+
+      return relay;
+    } catch (e) {
+      logWarning('Failed to connect to outbox relay ', url, e);
+      return undefined;
+    } finally {
+      delete pendingConnections[url];
+    }
+  })();
+
+  return pendingConnections[url];
+};
+
+/**
+ * Returns connected relays for the given urls from a shared pool. The pool
+ * never holds more than `outboxMaxConnections` sockets; the least recently
+ * used ones are closed to make room and idle ones are closed on a timer.
+ */
+export const acquireOutboxRelays = async (urls: string[]) => {
+  const wanted = normalizeUrls(urls).slice(0, outboxMaxConnections);
+  const relays: Relay[] = [];
+
+  for (let i = 0; i < wanted.length; i++) {
+    const url = wanted[i];
+    const pooled = pool[url];
+
+    if (pooled && pooled.relay.connected) {
+      clearTimeout(pooled.idleTimeout);
+      pooled.lastUsed = Date.now();
+      relays.push(pooled.relay);
+      continue;
+    }
+
+    if (Object.keys(pool).length >= outboxMaxConnections && !evictLeastRecentlyUsed(wanted)) {
+      break;
+    }
+
+    const relay = await connect(url);
+
+    relay && relays.push(relay);
+  }
+
+  return relays;
+};
+
+export const releaseOutboxRelays = (relays: Relay[]) => {
+  relays.forEach(r => release(utils.normalizeURL(r.url)));
+};
+
+// ROUTING --------------------------------------
+
+/**
+ * Picks up to `outboxRelaysPerUser` read relays for each tagged user,
+ * skipping relays the event is already going to.
+ */
+export const outboxReadRelays = async (pubkeys: string[], exclude: string[] = []) => {
+  if (pubkeys.length === 0) return [];
+
+  const lists = await fetchRelayLists(pubkeys);
+  const skip = exclude.map(utils.normalizeURL);
+
+  const urls = pubkeys.reduce<string[]>((acc, pk) => {
+    const read = (lists[pk]?.read || []).filter(u => !skip.includes(u));
+
+    return [ ...acc, ...read.slice(0, outboxRelaysPerUser) ];
+  }, []);
+
+  return Array.from(new Set(urls)).slice(0, outboxMaxConnections);
+};
+
+export const taggedPubkeys = (event: { tags: string[][], pubkey?: string }) =>
+  Array.from(new Set(event.tags.reduce<string[]>((acc, t) =>
+    t[0] === 'p' && t[1] && t[1] !== event.pubkey ? [ ...acc, t[1] ] : acc,
+    [],
+  )));
+
+/**
+ * Fetches events authored by `pubkey` directly from that user's write relays.
+ * Resolves with whatever arrived once every relay has sent EOSE or the timeout passes.
+ */
+export const fetchFromOutbox = async (pubkey: string, filters: any[], timeout = 6_000, relays: Relay[] = []) => {
+  const lists = await fetchRelayLists([pubkey], relays);
+  const urls = (lists[pubkey]?.write || []).slice(0, outboxRelaysPerUser * 2);
+
+  if (urls.length === 0) return [];
+
+  const outboxRelays = await acquireOutboxRelays(urls);
+
+  try {
+    return await fetchFromRelayUrls(outboxRelays.map(r => r.url), filters, outboxRelays, timeout);
+  } finally {
+    releaseOutboxRelays(outboxRelays);
+  }
+};
@@ -0,0 +1,251 @@
+import { Kind } from "../constants";
+import { NostrRelays, NostrRelaySignedEvent, PollDraft, PollOption, PollTally, PollType, PrimalPoll } from "../types/primal";
+import { parseBolt11 } from "../utils";
+import { logWarning } from "./logger";
+import { sendEvent } from "./notes";
+import { Relay, utils } from "./nTools";
+import { subscribeOnRelayUrls } from "./relays";
+
+/**
+ * Polls as described by NIP-88 (kind 1068, answered with kind 1018 responses)
+ * and zap polls from NIP-69 (kind 6969, where every vote is a zap and
+ * options are weighted by the sats they received).
+ */
+
+type PollEvent = {
+  id: string,
+  pubkey: string,
+  kind: number,
+  content: string,
+  tags: string[][],
+};
+
+const optionId = () => Math.random().toString(36).slice(2, 11);
+
+export const isPollKind = (kind: number) => [Kind.Poll, Kind.ZapPoll].includes(kind);
+
+export const isPollEnded = (poll: PrimalPoll) =>
+  poll.endsAt !== undefined && poll.endsAt <= Math.floor(Date.now() / 1_000);
+
+const pollTags = (draft: PollDraft, pubkey: string, relays: string[]) => {
+  const options = draft.options.map(o => o.trim()).filter(o => o.length > 0);
+  const endsAt = `${Math.floor((Date.now() + draft.duration) / 1_000)}`;
+
+  if (draft.zapWeighted) {
+    return [
+      ...options.map((label, i) => ['poll_option', `${i}`, label]),
+      ['closed_at', endsAt],
+      ['p', pubkey],
+    ];
+  }
+
+  return [
+    ...options.map(label => ['option', optionId(), label]),
+    ['polltype', draft.type],
+    ['endsAt', endsAt],
+    ...relays.map(url => ['relay', url]),
+  ];
+};
+
+export const sendPoll = async (
+  question: string,
+  draft: PollDraft,
+  pubkey: string,
+  shouldProxy: boolean,
+  relays: Relay[],
+  tags: string[][],
+  relaySettings?: NostrRelays,
+) => {
+  const event = {
+    content: question,
+    kind: draft.zapWeighted ? Kind.ZapPoll : Kind.Poll,
+    tags: [ ...tags, ...pollTags(draft, pubkey, relays.map(r => r.url)) ],
+    created_at: Math.floor((new Date()).getTime() / 1000),
+  };
+
+  return await sendEvent(event, relays, relaySettings, shouldProxy);
+};
+
+export const parsePoll = (event: PollEvent): PrimalPoll | undefined => {
+  if (!isPollKind(event.kind)) return;
+
+  const isZapPoll = event.kind === Kind.ZapPoll;
+  const optionTag = isZapPoll ? 'poll_option' : 'option';
+  const endTag = isZapPoll ? 'closed_at' : 'endsAt';
+
+  const options = event.tags.reduce<PollOption[]>((acc, t) =>
+    t[0] === optionTag && t[1] && !acc.find(o => o.id === t[1]) ?
+      [ ...acc, { id: t[1], label: t[2] || '' }] :
+      acc,
+    [],
+  );
+
+  if (options.length === 0) return;
+
+  const endsAt = parseInt(event.tags.find(t => t[0] === endTag)?.[1] || '');
+  const type = event.tags.find(t => t[0] === 'polltype')?.[1] as PollType | undefined;
+
+  return {
+    id: event.id,
+    pubkey: event.pubkey,
+    kind: event.kind as Kind.Poll | Kind.ZapPoll,
+    question: event.content,
+    options,
+    type: type === 'multiplechoice' ? 'multiplechoice' : 'singlechoice',
+    endsAt: isNaN(endsAt) ? undefined : endsAt,
+    relays: event.tags.filter(t => t[0] === 'relay' && t[1]).map(t => t[1]),
+  };
+};
+
+// TALLY ----------------------------------------
+
+const isBeforeEnd = (poll: PrimalPoll, event: NostrRelaySignedEvent) =>
+  poll.endsAt === undefined || event.created_at <= poll.endsAt;
+
+/**
+ * Counts the latest response of every voter, ignoring ones sent after the poll ended.
+ */
+const tallyResponses = (poll: PrimalPoll, events: NostrRelaySignedEvent[], pubkey?: string): PollTally => {
+  const latest = events.reduce<Record<string, NostrRelaySignedEvent>>((acc, e) => {
+    if (e.kind !== Kind.PollResponse || !isBeforeEnd(poll, e)) return acc;
+
+    const known = acc[e.pubkey];
+    return !known || known.created_at < e.created_at ? { ...acc, [e.pubkey]: e } : acc;
+  }, {});
+
+  const ids = poll.options.map(o => o.id);
+
+  return Object.values(latest).reduce<PollTally>((tally, e) => {
+    const picked = Array.from(new Set(e.tags.
+      filter(t => t[0] === 'response' && ids.includes(t[1])).
+      map(t => t[1])));
+
+    const votes = poll.type === 'singlechoice' ? picked.slice(0, 1) : picked;
+
+    if (votes.length === 0) return tally;
+
+    votes.forEach(id => { tally.totals[id] = (tally.totals[id] || 0) + 1; });
+
+    return {
+      totals: tally.totals,
+      voters: tally.voters + 1,
+      mine: e.pubkey === pubkey ? votes : tally.mine,
+    };
+  }, { totals: {}, voters: 0, mine: [] });
+};
+
+const zapRequest = (receipt: NostrRelaySignedEvent) => {
+  try {
+    return JSON.parse(receipt.tags.find(t => t[0] === 'description')?.[1] || '{}') as NostrRelaySignedEvent;
+  } catch (e) {
+    logWarning('Failed to parse zap request of a poll vote: ', e);
+    return undefined;
+  }
+};
+
+/**
+ * Sums the sats zapped to each option, as declared by the `poll_option` tag of the zap request.
+ * Only receipts signed by the poll author's LNURL server (`zapper`) are counted,
+ * anyone else could publish receipts for payments that never happened.
+ */
+const tallyZaps = (poll: PrimalPoll, events: NostrRelaySignedEvent[], pubkey?: string, zapper?: string): PollTally => {
+  const ids = poll.options.map(o => o.id);
+  const voters = new Set<string>();
+  const counted = new Set<string>();
+
+  return events.reduce<PollTally>((tally, receipt) => {
+    if (
+      !zapper ||
+      receipt.kind !== Kind.Zap ||
+      receipt.pubkey !== zapper ||
+      counted.has(receipt.id) ||
+      !isBeforeEnd(poll, receipt)
+    ) return tally;
+
+    const request = zapRequest(receipt);
+    const option = request?.tags?.find(t => t[0] === 'poll_option')?.[1];
+    const bolt11 = receipt.tags.find(t => t[0] === 'bolt11')?.[1] || '';
+    const sats = parseBolt11(bolt11) || 0;
+
+    if (!request || !option || !ids.includes(option) || sats === 0) return tally;
+
+    // The invoice has to be for the amount the voter asked to zap (in msats)
+    const amount = request.tags?.find(t => t[0] === 'amount')?.[1];
+
+    if (amount !== undefined && parseInt(amount) !== Math.round(sats * 1_000)) return tally;
+
+    counted.add(receipt.id);
+
+    tally.totals[option] = (tally.totals[option] || 0) + sats;
+    voters.add(request.pubkey);
+
+    return {
+      totals: tally.totals,
+      voters: voters.size,
+      mine: request.pubkey === pubkey && !tally.mine.includes(option) ?
+        [ ...tally.mine, option ] :
+        tally.mine,
+    };
+  }, { totals: {}, voters: 0, mine: [] });
+};
+
+export const tallyPoll = (poll: PrimalPoll, events: NostrRelaySignedEvent[], pubkey?: string, zapper?: string) =>
+  poll.kind === Kind.ZapPoll ?
+    tallyZaps(poll, events, pubkey, zapper) :
+    tallyResponses(poll, events, pubkey);
+
+// RESULTS --------------------------------------
+
+/**
+ * Keeps a subscription open for votes on the poll, on the user's relays
+ * and the ones the poll asked to be answered on. `onResults` receives
+ * every vote collected so far whenever a new one arrives.
+ */
+export const subscribeToPollResults = (
+  poll: PrimalPoll,
+  relays: Relay[],
+  onResults: (events: NostrRelaySignedEvent[]) => void,
+) => {
+  const events: Record<string, NostrRelaySignedEvent> = {};
+
+  const urls = Array.from(new Set([
+    ...relays.filter(r => r.connected).map(r => utils.normalizeURL(r.url)),
+    ...poll.relays.map(utils.normalizeURL),
+  ]));
+
+  const kind = poll.kind === Kind.ZapPoll ? Kind.Zap : Kind.PollResponse;
+
+  return subscribeOnRelayUrls(
+    urls,
+    [{ kinds: [kind], '#e': [poll.id] }],
+    relays,
+    (event) => {
+      events[event.id] = event;
+      onResults(Object.values(events));
+    },
+    () => onResults(Object.values(events)),
+  );
+};
+
+/**
+ * Answers a NIP-88 poll. A newer response from the same user replaces the older one.
+ */
+export const sendPollResponse = async (
+  poll: PrimalPoll,
+  optionIds: string[],
+  shouldProxy: boolean,
+  relays: Relay[],
+  relaySettings?: NostrRelays,
+) => {
+  const event = {
+    content: '',
+    kind: Kind.PollResponse,
+    tags: [
+      poll.relays[0] ? ['e', poll.id, poll.relays[0]] : ['e', poll.id],
+      ...optionIds.map(id => ['response', id]),
+    ],
+    created_at: Math.floor((new Date()).getTime() / 1000),
+  };
+
+  return await sendEvent(event, relays, relaySettings, shouldProxy);
+};
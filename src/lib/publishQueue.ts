@@ -0,0 +1,334 @@
+import { createStore, unwrap } from "solid-js/store";
+import { publishMaxAttempts, publishQueueRetention, publishRetryBase, publishRetryMax, publishTimeout } from "../constants";
+import { NostrRelaySignedEvent, PublishQueueEntry, RelayPublishResult, RelayPublishStatus } from "../types/primal";
+import { openDatabase, withStore } from "./idb";
+import { logInfo, logWarning } from "./logger";
+import { Relay, utils } from "./nTools";
+import { acquireOutboxRelays, releaseOutboxRelays } from "./outbox";
+import { broadcastThroughPrimal } from "./notes";
+
+export const [publishQueue, setPublishQueue] = createStore<Record<string, PublishQueueEntry>>({});
+
+const retryable: RelayPublishStatus[] = ['pending', 'notice', 'auth-required', 'timeout', 'error'];
+const accepted: RelayPublishStatus[] = ['ok', 'sent'];
+
+const retryTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+const noticeListeners = new WeakMap<Relay, Set<(message: string) => void>>();
+
+let connectedRelays: Relay[] = [];
+
+const database = () => openDatabase('primal_publish_queue', 1, (db) => {
+  if (!db.objectStoreNames.contains('events')) {
+    db.createObjectStore('events', { keyPath: 'id' });
+  }
+});
+
+const persist = (id: string) => {
+  const entry = publishQueue[id];
+
+  if (!entry) return;
+
+  // Store a plain copy, IndexedDB can't clone solid's proxies
+  const copy = JSON.parse(JSON.stringify(unwrap(entry)));
+
+  withStore(database(), 'events', 'readwrite', store => store.put(copy)).
+    catch(e => logWarning('Failed to persist publish queue entry: ', e));
+};
+
+const forget = (id: string) => {
+  withStore(database(), 'events', 'readwrite', store => store.delete(id)).
+    catch(e => logWarning('Failed to remove publish queue entry: ', e));
+};
+
+/**
+ * Relays the queue should reuse instead of opening new sockets.
+ * Kept in sync with the account's connected relays.
+ */
+export const setPublishQueueRelays = (relays: Relay[]) => {
+  connectedRelays = [ ...relays ];
+};
+
+export const classifyPublishError = (reason: any): RelayPublishResult => {
+  const message = `${reason}`;
+  const at = Date.now();
+
+  if (message.startsWith('duplicate:')) return { status: 'ok', message, at };
+  if (message.startsWith('auth-required:')) return { status: 'auth-required', message, at };
+  if (message === 'timeout') return { status: 'timeout', at };
+  if (/^(blocked|invalid|pow|restricted):/.test(message)) return { status: 'rejected', message, at };
+
+  return { status: 'error', message, at };
+};
+
+const listenForNotices = (relay: Relay, listener: (message: string) => void) => {
+  let listeners = noticeListeners.get(relay);
+
+  if (!listeners) {
+    const all = new Set<(message: string) => void>();
+    const original = relay.onnotice;
+
+    relay.onnotice = (message: string) => {
+      all.forEach(l => l(message));
+      original && original.call(relay, message);
+    };
+
+    noticeListeners.set(relay, all);
+    listeners = all;
+  }
+
+  listeners.add(listener);
+
+  return () => { listeners?.delete(listener) };
+};
+
+/**
+ * Publishes to a single relay and reports what the relay said about it.
+ * A NOTICE that arrives while we wait for OK is kept as the likely explanation.
+ */
+export const publishToRelay = (relay: Relay, event: NostrRelaySignedEvent, timeout = publishTimeout) =>
+  new Promise<RelayPublishResult>((resolve) => {
+    let notice: string | undefined;
+
+    const stopListening = listenForNotices(relay, (message) => { notice = message; });
+
+    const done = (result: RelayPublishResult) => {
+      clearTimeout(timer);
+      stopListening();
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      done(notice ?
+        { status: 'notice', message: notice, at: Date.now() } :
+        { status: 'timeout', at: Date.now() }
+      );
+    }, timeout);
+
+    relay.publish(event).
+      then(() => done({ status: 'ok', at: Date.now() })).
+      catch((reason: any) => done(classifyPublishError(reason)));
+  });
+
+const recordResult = (id: string, url: string, result: RelayPublishResult) => {
+  if (!publishQueue[id]) return;
+
+  setPublishQueue(id, 'relays', url, () => ({ ...result }));
+};
+
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(publishRetryBase * Math.pow(2, attempts - 1), publishRetryMax);
+
+  // Jitter so relays coming back up don't get everything at once
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+};
+
+const scheduleRetry = (id: string, delay: number) => {
+  clearTimeout(retryTimers[id]);
+
+  retryTimers[id] = setTimeout(() => {
+    delete retryTimers[id];
+    attempt(id).catch(e => logWarning('Publish attempt failed: ', id, e));
+  }, Math.max(delay, 0));
+};
+
+const settle = (id: string) => {
+  const entry = publishQueue[id];
+
+  if (!entry) return;
+
+  const statuses = Object.values(entry.relays).map(r => r.status);
+  const attempts = entry.attempts + 1;
+
+  if (!statuses.some(s => retryable.includes(s))) {
+    const state = statuses.some(s => accepted.includes(s)) ? 'done' : 'failed';
+
+    setPublishQueue(id, () => ({ attempts, state, nextAttemptAt: 0 }));
+    persist(id);
+    return;
+  }
+
+  if (attempts >= publishMaxAttempts) {
+    setPublishQueue(id, () => ({ attempts, state: 'failed', nextAttemptAt: 0 }));
+    persist(id);
+    return;
+  }
+
+  const delay = retryDelay(attempts);
+
+  setPublishQueue(id, () => ({ attempts, state: 'retrying', nextAttemptAt: Date.now() + delay }));
+  persist(id);
+
+  logInfo(`Retrying publish of ${id} in ${delay}ms`);
+  scheduleRetry(id, delay);
+};
+
+const attemptOnRelays = async (entry: PublishQueueEntry, urls: string[], relays: Relay[], onAccepted: (url: string) => void) => {
+  const findConnected = (url: string) =>
+    relays.find(r => utils.normalizeURL(r.url) === utils.normalizeURL(url) && r.connected);
+
+  const missing = urls.filter(u => !findConnected(u));
+  const borrowed = await acquireOutboxRelays(missing);
+
+  await Promise.all(urls.map(async (url) => {
+    const relay = findConnected(url) ||
+      borrowed.find(r => utils.normalizeURL(r.url) === utils.normalizeURL(url));
+
+    if (!relay) {
+      recordResult(entry.id, url, { status: 'error', message: 'connection failed', at: Date.now() });
+      return;
+    }
+
+    const result = await publishToRelay(relay, entry.event);
+
+    recordResult(entry.id, url, result);
+
+    if (accepted.includes(result.status)) onAccepted(url);
+  }));
+
+  releaseOutboxRelays(borrowed);
+};
+
+const attemptThroughPrimal = async (entry: PublishQueueEntry, urls: string[], onAccepted: (url: string) => void) => {
+  try {
+    await broadcastThroughPrimal(entry.event, urls);
+
+    urls.forEach(url => recordResult(entry.id, url, { status: 'sent', at: Date.now() }));
+    onAccepted(urls[0] || '');
+  } catch (e) {
+    urls.forEach(url => recordResult(entry.id, url, { status: 'error', message: `${e}`, at: Date.now() }));
+  }
+};
+
+const attempt = async (id: string, relays = connectedRelays, onAccepted = (_: string) => {}) => {
+  const entry = publishQueue[id];
+
+  if (!entry) return;
+
+  clearTimeout(retryTimers[id]);
+
+  const urls = Object.keys(entry.relays).filter(url => retryable.includes(entry.relays[url].status));
+
+  setPublishQueue(id, 'state', () => 'publishing');
+
+  if (entry.via === 'primal') {
+    await attemptThroughPrimal(entry, urls, onAccepted);
+  }
+  else {
+    await attemptOnRelays(entry, urls, relays, onAccepted);
+  }
+
+  settle(id);
+};
+
+/**
+ * Queues a signed event for the given relays and makes the first attempt.
+ * Resolves as soon as one relay accepts it and rejects if none did;
+ * failed relays keep being retried in the background either way.
+ */
+export const publishEvent = (
+  event: NostrRelaySignedEvent,
+  urls: string[],
+  via: 'relays' | 'primal' = 'relays',
+  relays: Relay[] = connectedRelays,
+) => {
+  const existing = publishQueue[event.id];
+  const now = Date.now();
+
+  const relayResults = urls.reduce<Record<string, RelayPublishResult>>((acc, url) => ({
+    ...acc,
+    [url]: acc[url] || { status: 'pending', at: now },
+  }), existing ? { ...existing.relays } : {});
+
+  setPublishQueue(event.id, () => ({
+    id: event.id,
+    event: { ...event },
+    via,
+    relays: relayResults,
+    attempts: existing?.attempts || 0,
+    nextAttemptAt: 0,
+    createdAt: existing?.createdAt || now,
+    state: 'publishing',
+  }));
+
+  persist(event.id);
+
+  return new Promise<string>((resolve, reject) => {
+    attempt(event.id, relays, resolve).then(() => reject('no_relay_accepted'), reject);
+  });
+};
+
+export const retryPublishNow = (id: string) => {
+  const entry = publishQueue[id];
+
+  if (!entry || entry.state === 'publishing') return;
+
+  if (entry.state === 'failed') {
+    setPublishQueue(id, () => ({ attempts: 0 }));
+  }
+
+  attempt(id).catch(e => logWarning('Publish attempt failed: ', id, e));
+};
+
+/**
+ * Retries events a relay turned away with `auth-required`,
+ * once we've authenticated to it.
+ */
+export const retryAuthRequired = (url: string) => {
+  const normalized = utils.normalizeURL(url);
+
+  Object.values(publishQueue).forEach((entry) => {
+    const needsAuth = Object.keys(entry.relays).some(u =>
+      utils.normalizeURL(u) === normalized && entry.relays[u].status === 'auth-required'
+    );
+
+    if (!needsAuth || entry.state === 'publishing') return;
+
+    if (entry.state === 'failed') {
+      setPublishQueue(entry.id, () => ({ attempts: 0 }));
+    }
+
+    attempt(entry.id).catch(e => logWarning('Publish attempt failed: ', entry.id, e));
+  });
+};
+
+export const removeFromPublishQueue = (id: string) => {
+  clearTimeout(retryTimers[id]);
+  delete retryTimers[id];
+
+  setPublishQueue(id, undefined!);
+  forget(id);
+};
+
+/**
+ * Loads the queue saved by previous sessions and picks up unfinished events
+ * where they left off. Finished entries are dropped after a week.
+ */
+export const resumePublishQueue = async () => {
+  let entries: PublishQueueEntry[] = [];
+
+  try {
+    entries = await withStore(database(), 'events', 'readonly', store => store.getAll());
+  } catch (e) {
+    logWarning('Failed to read the publish queue: ', e);
+    return;
+  }
+
+  const now = Date.now();
+
+  entries.forEach((entry) => {
+    const isFinished = ['done', 'failed'].includes(entry.state);
+
+    if (isFinished && now - entry.createdAt > publishQueueRetention) {
+      forget(entry.id);
+      return;
+    }
+
+    if (publishQueue[entry.id]) return;
+
+    setPublishQueue(entry.id, () => ({ ...entry }));
+
+    if (!isFinished) {
+      scheduleRetry(entry.id, (entry.nextAttemptAt || now) - now);
+    }
+  });
+};
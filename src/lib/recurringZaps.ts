@@ -0,0 +1,413 @@
+import { getSatoshiValue } from "@getalby/lightning-tools";
+import { createSignal } from "solid-js";
+import { createStore, reconcile, unwrap } from "solid-js/store";
+import { APP_ID } from "../App";
+import { Kind, recurringZapMaxTimer, recurringZapReminder, recurringZapRetry } from "../constants";
+import { fetchUserProfile } from "../handleNotes";
+import { userName } from "../stores/profile";
+import { NostrRelaySignedEvent, PrimalUser, RecurringZap, RecurringZapCadence, RecurringZapRenewal } from "../types/primal";
+import { openDatabase, withStore } from "./idb";
+import { logInfo, logWarning } from "./logger";
+import { signEvent } from "./nostrAPI";
+import { Relay } from "./nTools";
+import { publishEvent } from "./publishQueue";
+import { zapSubscription } from "./zap";
+
+/**
+ * Subscriptions to a creator's tier (NIP-88) are renewed by zapping the
+ * subscribe event again once per cadence. Renewals are paid by the app while
+ * it's open; ones that came due while it was closed are paid on the next start,
+ * but only once, however many periods were missed. Every open tab arms the
+ * same timers, so a renewal is claimed across tabs before it's paid.
+ */
+
+export type RecurringZapWallet = {
+  relays: Relay[],
+  nwc?: string[],
+  walletType?: 'nwc' | 'breez' | null,
+};
+
+export const recurringZapCadences: RecurringZapCadence[] = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'];
+
+export const [recurringZaps, setRecurringZaps] = createStore<Record<string, RecurringZap>>({});
+
+// Renewals coming up within the reminder window
+export const [recurringZapReminders, setRecurringZapReminders] = createSignal<string[]>([]);
+
+let wallet: RecurringZapWallet = { relays: [] };
+
+// Account whose subscriptions are loaded
+let owner: string | undefined;
+
+const timers: Record<string, ReturnType<typeof setTimeout>> = {};
+
+const renewing: Set<string> = new Set();
+
+const database = () => openDatabase('primal_recurring_zaps', 1, (db) => {
+  if (!db.objectStoreNames.contains('zaps')) {
+    db.createObjectStore('zaps', { keyPath: 'id' });
+  }
+});
+
+const persist = (id: string) => {
+  const zap = recurringZaps[id];
+
+  if (!zap) return;
+
+  const copy = JSON.parse(JSON.stringify(unwrap(zap)));
+
+  return withStore(database(), 'zaps', 'readwrite', store => store.put(copy)).
+    catch(e => logWarning('Failed to persist recurring zap: ', e));
+};
+
+const update = (id: string, changes: Partial<RecurringZap>) => {
+  setRecurringZaps(id, (zap) => ({ ...zap, ...changes }));
+  return persist(id);
+};
+
+const isOwn = (zap: RecurringZap | undefined): zap is RecurringZap =>
+  !!zap && !!owner && zap.pubkey === owner;
+
+/**
+ * Subscriptions of the logged in account
+ */
+export const ownRecurringZaps = () => Object.values(recurringZaps).filter(isOwn);
+
+export const setRecurringZapWallet = (value: RecurringZapWallet) => {
+  const hadRelays = wallet.relays.length > 0;
+
+  wallet = { ...value };
+
+  if (!hadRelays && wallet.relays.length > 0) {
+    ownRecurringZaps().forEach(zap => arm(zap.id));
+  }
+};
+
+export const cadenceOf = (cadence: string | undefined): RecurringZapCadence =>
+  recurringZapCadences.find(c => c === cadence) || 'monthly';
+
+export const nextDueDate = (from: number, cadence: RecurringZapCadence) => {
+  const date = new Date(from);
+
+  switch (cadence) {
+    case 'daily':
+      date.setDate(date.getDate() + 1);
+      break;
+    case 'weekly':
+      date.setDate(date.getDate() + 7);
+      break;
+    case 'quarterly':
+      date.setMonth(date.getMonth() + 3);
+      break;
+    case 'yearly':
+      date.setFullYear(date.getFullYear() + 1);
+      break;
+    default:
+      date.setMonth(date.getMonth() + 1);
+  }
+
+  return date.getTime();
+};
+
+const nextDueAfter = (dueAt: number, cadence: RecurringZapCadence, now: number) => {
+  let next = nextDueDate(dueAt, cadence);
+
+  while (next <= now) {
+    next = nextDueDate(next, cadence);
+  }
+
+  return next;
+};
+
+const exchangeRateFor = async (unit: string) => {
+  if (unit !== 'USD') return undefined;
+
+  return { USD: { sats: await getSatoshiValue({ amount: 1, currency: 'USD' }) } };
+};
+
+const renewalSats = (zap: RecurringZap, exchangeRate?: Record<string, Record<string, number>>) => {
+  const amount = parseFloat(zap.amount) || 0;
+
+  if (zap.unit === 'msat') return Math.floor(amount / 1_000);
+  if (zap.unit === 'USD') return Math.ceil(amount * (exchangeRate?.USD?.sats || 0));
+
+  return amount;
+};
+
+const record = (id: string, renewal: RecurringZapRenewal, changes: Partial<RecurringZap> = {}) => {
+  const zap = recurringZaps[id];
+
+  if (!zap) return;
+
+  return update(id, { ...changes, history: [ renewal, ...zap.history ] });
+};
+
+const dropReminder = (id: string) => {
+  setRecurringZapReminders(ids => ids.filter(i => i !== id));
+};
+
+// RENEWALS -------------------------------------
+
+/**
+ * Runs the renewal while holding a lock shared by all tabs of the app
+ */
+const withRenewalLock = async (id: string, run: () => Promise<void>) => {
+  if (!navigator.locks) return await run();
+
+  await navigator.locks.request(`recurring_zap_${id}`, run);
+};
+
+const pay = async (id: string) => {
+  const zap = recurringZaps[id];
+
+  if (!isOwn(zap) || zap.state !== 'active') return;
+
+  let stored: RecurringZap | undefined;
+
+  try {
+    stored = await withStore(database(), 'zaps', 'readonly', store => store.get(id));
+  } catch (e) {
+    logWarning('Failed to read recurring zap: ', id, e);
+    return;
+  }
+
+  // Another tab has renewed it, or tried to, while this one waited for the lock
+  if (
+    !stored ||
+    stored.state !== 'active' ||
+    stored.nextDueAt > zap.nextDueAt ||
+    (stored.lastAttemptAt || 0) > (zap.lastAttemptAt || 0)
+  ) {
+    setRecurringZaps(id, stored ? reconcile(stored) : undefined!);
+    return;
+  }
+
+  const now = Date.now();
+  const dueAt = zap.nextDueAt;
+
+  await update(id, { lastAttemptAt: now });
+
+  let amount = 0;
+  let success = false;
+
+  try {
+    const exchangeRate = await exchangeRateFor(zap.unit);
+    const recipient = await fetchUserProfile(zap.pubkey, zap.recipient, `recurring_zap_${id}_${APP_ID}`);
+
+    amount = renewalSats(zap, exchangeRate);
+
+    success = await zapSubscription(
+      unwrap(zap.subscription),
+      recipient,
+      zap.pubkey,
+      wallet.relays,
+      exchangeRate,
+      wallet.nwc,
+      wallet.walletType,
+    );
+  } catch (e) {
+    logWarning('Failed to renew subscription: ', id, e);
+  }
+
+  logInfo('Subscription renewal: ', id, success ? 'paid' : 'failed');
+
+  await record(
+    id,
+    { dueAt, at: Date.now(), amount, status: success ? 'paid' : 'failed' },
+    success ? { nextDueAt: nextDueAfter(dueAt, zap.cadence, Date.now()), lastAttemptAt: undefined } : {},
+  );
+};
+
+const renew = async (id: string) => {
+  const zap = recurringZaps[id];
+
+  if (!isOwn(zap) || zap.state !== 'active' || renewing.has(id)) return;
+
+  // Relays are not known yet, timers are armed again once they are
+  if (wallet.relays.length === 0) return;
+
+  renewing.add(id);
+  dropReminder(id);
+
+  try {
+    await withRenewalLock(id, () => pay(id));
+  } catch (e) {
+    logWarning('Failed to claim subscription renewal: ', id, e);
+  }
+
+  renewing.delete(id);
+  arm(id);
+};
+
+const arm = (id: string) => {
+  const zap = recurringZaps[id];
+
+  clearTimeout(timers[id]);
+
+  if (!isOwn(zap) || zap.state !== 'active') return;
+
+  const now = Date.now();
+  const remindAt = zap.nextDueAt - recurringZapReminder;
+
+  if (remindAt <= now && zap.remindedFor !== zap.nextDueAt) {
+    update(id, { remindedFor: zap.nextDueAt });
+    setRecurringZapReminders(ids => ids.includes(id) ? ids : [ ...ids, id ]);
+  }
+
+  // A failed renewal is retried after a while, not on every tick
+  const payAt = zap.lastAttemptAt && zap.lastAttemptAt >= zap.nextDueAt ?
+    zap.lastAttemptAt + recurringZapRetry :
+    zap.nextDueAt;
+
+  if (payAt <= now) {
+    renew(id);
+    return;
+  }
+
+  const wakeAt = zap.remindedFor === zap.nextDueAt ? payAt : Math.min(payAt, remindAt);
+
+  timers[id] = setTimeout(() => arm(id), Math.min(Math.max(wakeAt - now, 0), recurringZapMaxTimer));
+};
+
+// ACTIONS --------------------------------------
+
+/**
+ * Start tracking a subscription whose first period was just paid.
+ */
+export const addRecurringZap = (
+  subscription: NostrRelaySignedEvent,
+  recipient: PrimalUser,
+  tierTitle: string,
+  exchangeRate?: Record<string, Record<string, number>>,
+) => {
+  const [, amount, unit, cadence] = subscription.tags.find(t => t[0] === 'amount') || [];
+
+  if (!amount) return;
+
+  const now = Date.now();
+
+  const zap: RecurringZap = {
+    id: subscription.id,
+    pubkey: subscription.pubkey,
+    subscription,
+    recipient: recipient.pubkey,
+    recipientName: userName(recipient),
+    tierTitle,
+    amount,
+    unit: unit || 'sats',
+    cadence: cadenceOf(cadence),
+    nextDueAt: nextDueDate(now, cadenceOf(cadence)),
+    state: 'active',
+    history: [],
+    createdAt: now,
+  };
+
+  setRecurringZaps(zap.id, () => ({ ...zap }));
+  record(zap.id, { dueAt: now, at: now, amount: renewalSats(zap, exchangeRate), status: 'paid' });
+  arm(zap.id);
+};
+
+export const payRecurringZapNow = (id: string) => {
+  const zap = recurringZaps[id];
+
+  if (!zap || zap.state !== 'active') return;
+
+  update(id, { lastAttemptAt: undefined, nextDueAt: Math.min(zap.nextDueAt, Date.now()) });
+  renew(id);
+};
+
+export const skipRecurringZap = (id: string) => {
+  const zap = recurringZaps[id];
+
+  if (!zap || zap.state !== 'active' || renewing.has(id)) return;
+
+  dropReminder(id);
+
+  record(
+    id,
+    { dueAt: zap.nextDueAt, at: Date.now(), amount: 0, status: 'skipped' },
+    { nextDueAt: nextDueAfter(zap.nextDueAt, zap.cadence, Date.now()), lastAttemptAt: undefined },
+  );
+
+  arm(id);
+};
+
+/**
+ * Stops renewals and lets the creator know by publishing an unsubscribe event.
+ */
+export const cancelRecurringZap = async (id: string) => {
+  const zap = recurringZaps[id];
+
+  if (!zap) return false;
+
+  try {
+    const unsubscribe = await signEvent({
+      kind: Kind.Unsubscribe,
+      content: '',
+      created_at: Math.floor(Date.now() / 1_000),
+      tags: [
+        ['p', zap.recipient],
+        ['e', zap.id],
+      ],
+    });
+
+    if (!unsubscribe) throw('event_not_signed');
+
+    publishEvent(unsubscribe, wallet.relays.map(r => r.url)).
+      catch(e => logWarning('No relay accepted unsubscribe yet: ', id, e));
+  } catch (reason) {
+    logWarning('Failed to cancel subscription: ', reason);
+    return false;
+  }
+
+  clearTimeout(timers[id]);
+  dropReminder(id);
+  update(id, { state: 'cancelled' });
+
+  return true;
+};
+
+export const removeRecurringZap = (id: string) => {
+  clearTimeout(timers[id]);
+  delete timers[id];
+
+  dropReminder(id);
+  setRecurringZaps(id, undefined!);
+
+  withStore(database(), 'zaps', 'readwrite', store => store.delete(id)).
+    catch(e => logWarning('Failed to remove recurring zap: ', e));
+};
+
+export const dismissRecurringZapReminders = () => {
+  setRecurringZapReminders([]);
+};
+
+/**
+ * Loads the user's subscriptions and arms their timers.
+ */
+export const resumeRecurringZaps = async (pubkey: string | undefined) => {
+  Object.keys(timers).forEach(id => clearTimeout(timers[id]));
+  setRecurringZaps(reconcile({}));
+  setRecurringZapReminders([]);
+
+  owner = pubkey;
+
+  if (!pubkey) return;
+
+  let zaps: RecurringZap[] = [];
+
+  try {
+    zaps = await withStore(database(), 'zaps', 'readonly', store => store.getAll());
+  } catch (e) {
+    logWarning('Failed to read recurring zaps: ', e);
+    return;
+  }
+
+  // The account changed while reading
+  if (owner !== pubkey) return;
+
+  zaps.filter(z => z.pubkey === pubkey).forEach((zap) => {
+    setRecurringZaps(zap.id, () => ({ ...zap }));
+    arm(zap.id);
+  });
+};
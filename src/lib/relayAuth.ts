@@ -0,0 +1,116 @@
+import { createSignal } from "solid-js";
+import { createStore, reconcile, unwrap } from "solid-js/store";
+import { NostrRelayEvent, RelayAuthPolicy, RelayAuthState, RelayAuthStatus } from "../types/primal";
+import { readRelayAuthPolicies, saveRelayAuthPolicies } from "./localStore";
+import { logInfo, logWarning } from "./logger";
+import { signEvent } from "./nostrAPI";
+import { Relay, utils, verifyEvent } from "./nTools";
+import { retryAuthRequired } from "./publishQueue";
+
+/**
+ * NIP-42 relay authentication. Relays send an AUTH challenge and we answer
+ * with a kind 22242 event signed by the active signer, depending on the
+ * policy the user picked for that relay.
+ */
+
+export const [relayAuth, setRelayAuth] = createStore<Record<string, RelayAuthState>>({});
+
+export const [relayAuthPolicies, setRelayAuthPolicies] = createStore<Record<string, RelayAuthPolicy>>({});
+
+// Relays waiting for the user to decide, in the order they asked
+export const [relayAuthRequests, setRelayAuthRequests] = createSignal<string[]>([]);
+
+const challenged: Record<string, Relay> = {};
+
+let policiesOwner: string | undefined;
+
+const updateStatus = (url: string, status: RelayAuthStatus, error?: string) => {
+  setRelayAuth(url, () => ({ status, error, at: Date.now() }));
+};
+
+export const loadRelayAuthPolicies = (pubkey: string | undefined) => {
+  policiesOwner = pubkey;
+  setRelayAuthPolicies(reconcile(readRelayAuthPolicies(pubkey)));
+};
+
+export const relayAuthPolicy = (url: string): RelayAuthPolicy =>
+  relayAuthPolicies[utils.normalizeURL(url)] || 'ask';
+
+export const setRelayAuthPolicy = (url: string, policy: RelayAuthPolicy) => {
+  setRelayAuthPolicies(utils.normalizeURL(url), () => policy);
+  saveRelayAuthPolicies(policiesOwner, { ...unwrap(relayAuthPolicies) });
+};
+
+export const isRelayAuthenticated = (url: string) =>
+  relayAuth[utils.normalizeURL(url)]?.status === 'authenticated';
+
+const authenticate = async (url: string) => {
+  const relay = challenged[url];
+
+  if (!relay) return;
+
+  updateStatus(url, 'authenticating');
+
+  try {
+    await relay.auth(async (template: NostrRelayEvent) => {
+      const signed = await signEvent(template);
+
+      // Never answer a challenge with an unsigned or broken event
+      if (!signed || !verifyEvent(signed)) throw('auth_event_not_signed');
+
+      return signed;
+    });
+
+    delete challenged[url];
+    updateStatus(url, 'authenticated');
+    logInfo('Authenticated to relay ', url);
+
+    // Writes the relay refused before we were authenticated can go through now
+    retryAuthRequired(url);
+  } catch (e) {
+    logWarning('Failed to authenticate to relay ', url, e);
+    updateStatus(url, 'failed', `${e}`);
+  }
+};
+
+/**
+ * Starts listening for AUTH challenges on the relay.
+ * Needs to be called before the relay connects, challenges are usually sent right away.
+ */
+export const attachRelayAuth = (relay: Relay) => {
+  relay._onauth = () => {
+    const url = utils.normalizeURL(relay.url);
+    const policy = relayAuthPolicy(url);
+
+    challenged[url] = relay;
+
+    if (policy === 'never') {
+      updateStatus(url, 'declined');
+      return;
+    }
+
+    // Relays approved earlier in the session are answered again after a reconnect
+    if (policy === 'always' || relayAuth[url]?.status === 'authenticated') {
+      authenticate(url);
+      return;
+    }
+
+    updateStatus(url, 'challenged');
+    setRelayAuthRequests(urls => urls.includes(url) ? urls : [ ...urls, url ]);
+  };
+};
+
+export const answerRelayAuthRequest = (url: string, approve: boolean, remember = false) => {
+  setRelayAuthRequests(urls => urls.filter(u => u !== url));
+
+  if (remember) {
+    setRelayAuthPolicy(url, approve ? 'always' : 'never');
+  }
+
+  if (approve) {
+    authenticate(url);
+    return;
+  }
+
+  updateStatus(url, 'declined');
+};
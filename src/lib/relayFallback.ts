@@ -0,0 +1,136 @@
+import { Kind, relayFallbackMaxAuthors, relayFallbackTimeout } from "../constants";
+import { NostrRelaySignedEvent } from "../types/primal";
+import { Relay } from "./nTools";
+import { fetchFromOutbox } from "./outbox";
+import { fetchFromRelayUrls } from "./relays";
+
+/**
+ * Plain NIP-01 queries used while the caching service is unreachable.
+ * Everything here goes to the user's own relays and returns raw events;
+ * stats, scores and other cache-only data are simply left out.
+ */
+
+type RelayPaging = {
+  until?: number,
+  limit?: number,
+};
+
+const query = (relays: Relay[], filters: any[]) => {
+  const connected = relays.filter(r => r.connected);
+
+  if (connected.length === 0) return Promise.resolve([]);
+
+  return fetchFromRelayUrls(connected.map(r => r.url), filters, connected, relayFallbackTimeout);
+};
+
+const pagedFilter = (filter: any, paging?: RelayPaging) => {
+  const f = { ...filter, limit: paging?.limit || 20 };
+
+  if (paging?.until) f.until = paging.until;
+
+  return f;
+};
+
+const newestPerAuthor = (events: NostrRelaySignedEvent[]) => {
+  const latest = events.reduce<Record<string, NostrRelaySignedEvent>>((acc, e) => {
+    const known = acc[e.pubkey];
+    return !known || known.created_at < e.created_at ? { ...acc, [e.pubkey]: e } : acc;
+  }, {});
+
+  return Object.values(latest);
+};
+
+export const isReplyEvent = (event: { kind: number, tags?: string[][] }) =>
+  event.kind === Kind.Text &&
+  (event.tags || []).some(t => t[0] === 'e' && t[3] !== 'mention');
+
+export const fetchMetadataFromRelays = async (relays: Relay[], pubkeys: string[]) => {
+  const authors = Array.from(new Set(pubkeys)).slice(0, relayFallbackMaxAuthors);
+
+  if (authors.length === 0) return [];
+
+  const events = await query(relays, [{ kinds: [Kind.Metadata], authors }]);
+
+  return newestPerAuthor(events);
+};
+
+/**
+ * Adds the newest kind 0 of every author so the views can show names and avatars.
+ */
+const withMetadata = async (relays: Relay[], events: NostrRelaySignedEvent[], extraPubkeys: string[] = []) => {
+  const metadata = await fetchMetadataFromRelays(relays, [ ...events.map(e => e.pubkey), ...extraPubkeys ]);
+
+  return [ ...events, ...metadata ];
+};
+
+export const fetchFollowingFeedFromRelays = async (relays: Relay[], following: string[], paging?: RelayPaging) => {
+  const authors = following.slice(0, relayFallbackMaxAuthors);
+
+  if (authors.length === 0) return [];
+
+  const notes = await query(relays, [
+    pagedFilter({ kinds: [Kind.Text, Kind.Repost, Kind.Poll, Kind.ZapPoll], authors }, paging),
+  ]);
+
+  return await withMetadata(relays, notes);
+};
+
+/**
+ * Notes by a single author, from the user's relays and the author's own write relays.
+ * Asks for more than a page since replies and top level notes get split afterwards.
+ */
+export const fetchAuthorNotesFromRelays = async (relays: Relay[], pubkey: string, paging?: RelayPaging) => {
+  const filter = pagedFilter({ kinds: [Kind.Text, Kind.Repost, Kind.Poll, Kind.ZapPoll], authors: [pubkey] }, {
+    ...paging,
+    limit: (paging?.limit || 20) * 3,
+  });
+
+  const [fromOwn, fromOutbox] = await Promise.all([
+    query(relays, [filter]),
+    fetchFromOutbox(pubkey, [filter], relayFallbackTimeout, relays),
+  ]);
+
+  const unique = [ ...fromOwn, ...fromOutbox ].reduce<Record<string, NostrRelaySignedEvent>>(
+    (acc, e) => ({ ...acc, [e.id]: e }),
+    {},
+  );
+
+  return await withMetadata(relays, Object.values(unique), [pubkey]);
+};
+
+/**
+ * The note itself, its direct replies and the notes it replies to.
+ */
+export const fetchThreadFromRelays = async (relays: Relay[], noteId: string) => {
+  const events = await query(relays, [
+    { ids: [noteId] },
+    { kinds: [Kind.Text], '#e': [noteId], limit: 100 },
+  ]);
+
+  const note = events.find(e => e.id === noteId);
+
+  const parentIds = (note?.tags || []).
+    filter(t => t[0] === 'e' && t[1] && t[3] !== 'mention' && !events.find(e => e.id === t[1])).
+    map(t => t[1]);
+
+  const parents = parentIds.length > 0 ?
+    await query(relays, [{ ids: parentIds }]) :
+    [];
+
+  return await withMetadata(relays, [ ...events, ...parents ]);
+};
+
+/**
+ * Recent kind 4 messages sent or received by the user.
+ */
+export const fetchDirectMessagesFromRelays = (relays: Relay[], pubkey: string, limit = 500) =>
+  query(relays, [
+    { kinds: [Kind.EncryptedDirectMessage], '#p': [pubkey], limit },
+    { kinds: [Kind.EncryptedDirectMessage], authors: [pubkey], limit },
+  ]);
+
+export const fetchConversationFromRelays = (relays: Relay[], pubkey: string, contact: string, paging?: RelayPaging) =>
+  query(relays, [
+    pagedFilter({ kinds: [Kind.EncryptedDirectMessage], authors: [pubkey], '#p': [contact] }, paging),
+    pagedFilter({ kinds: [Kind.EncryptedDirectMessage], authors: [contact], '#p': [pubkey] }, paging),
+  ]);
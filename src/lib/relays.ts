@@ -1,8 +1,9 @@
-import { relayInit, Relay } from "../lib/nTools";
+import { relayInit, Relay, utils } from "../lib/nTools";
 import { relayConnectingTimeout } from "../constants";
 import { sendMessage } from "../sockets";
-import { NostrRelays } from "../types/primal";
-import { logError, logInfo } from "./logger";
+import { NostrRelays, NostrRelaySignedEvent } from "../types/primal";
+import { logError, logInfo, logWarning } from "./logger";
+import { attachRelayAuth } from "./relayAuth";
 
 let reconnAttempts: Record<string, number> = {};
 
@@ -55,6 +56,8 @@ export const connectToRelay: ConnectToRelay =
     //   onFail(relay, 'failed connection');
     // })
 
+    attachRelayAuth(relay);
+
     relay.onclose = () => {
       logInfo('Relay connection closed: ', relay);
       onFail(relay, tryReconnecting ? 'disconnect' : 'close');
@@ -111,6 +114,137 @@ export const getDefaultRelays = (subid: string) => {
   ]))
 };
 
+/**
+ * Returns a connected relay for each url, reusing the ones already in `pool`.
+ * Relays opened here are returned separately so the caller can close them.
+ */
+const borrowRelays = async (urls: string[], pool: Relay[]) => {
+  const borrowed: Relay[] = [];
+  const opened: Relay[] = [];
+
+  const normalized = Array.from(new Set(urls.map(utils.normalizeURL)));
+
+  for (let i = 0; i < normalized.length; i++) {
+    const url = normalized[i];
+    const existing = pool.find(r => utils.normalizeURL(r.url) === url);
+
+    if (existing) {
+      borrowed.push(existing);
+      continue;
+    }
+
+    try {
+      const relay = relayInit(url);
+      attachRelayAuth(relay);
+      await relay.connect();
+      borrowed.push(relay);
+      opened.push(relay);
+    } catch (e) {
+      logWarning('Failed to connect to relay ', url, e);
+    }
+  }
+
+  return { borrowed, opened };
+};
+
+export const publishToRelayUrls = async (event: NostrRelaySignedEvent, urls: string[], pool: Relay[] = []) => {
+  const { borrowed, opened } = await borrowRelays(urls, pool);
+
+  const results = await Promise.allSettled(borrowed.map(relay => new Promise<string>(async (resolve, reject) => {
+    const timeout = setTimeout(() => {
+      logError(`Publishing event to ${relay.url} has timed out`);
+      reject('timeout');
+    }, 8_000);
+
+    try {
+      await relay.publish(event);
+      clearTimeout(timeout);
+      resolve(relay.url);
+    } catch (e) {
+      logError(`Failed publishing event to ${relay.url}: `, e);
+      clearTimeout(timeout);
+      reject(e);
+    }
+  })));
+
+  opened.forEach(r => r.close());
+
+  return results.reduce<string[]>((acc, r) => r.status === 'fulfilled' ? [...acc, r.value] : acc, []);
+};
+
+export const subscribeOnRelayUrls = (
+  urls: string[],
+  filters: any[],
+  pool: Relay[],
+  onEvent: (event: NostrRelaySignedEvent) => void,
+  onEose?: () => void,
+) => {
+  let closed = false;
+  let subs: { close: () => void }[] = [];
+  let opened: Relay[] = [];
+
+  borrowRelays(urls, pool).then((relays) => {
+    opened = relays.opened;
+
+    if (closed) {
+      opened.forEach(r => r.close());
+      return;
+    }
+
+    let pendingEose = relays.borrowed.length;
+
+    if (pendingEose === 0) {
+      onEose && onEose();
+      return;
+    }
+
+    subs = relays.borrowed.map(relay => relay.subscribe(filters, {
+      onevent: (event: NostrRelaySignedEvent) => onEvent(event),
+      oneose: () => {
+        pendingEose -= 1;
+        if (pendingEose === 0) {
+          onEose && onEose();
+        }
+      },
+    }));
+  });
+
+  return () => {
+    closed = true;
+    subs.forEach(s => s.close());
+    opened.forEach(r => r.close());
+  };
+};
+
+/**
+ * One-off query against the given relays. Resolves with the unique events
+ * received once every relay has sent EOSE or the timeout passes.
+ */
+export const fetchFromRelayUrls = (urls: string[], filters: any[], pool: Relay[] = [], timeout = 6_000) =>
+  new Promise<NostrRelaySignedEvent[]>((resolve) => {
+    let events: Record<string, NostrRelaySignedEvent> = {};
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+
+      clearTimeout(timer);
+      unsub();
+      resolve(Object.values(events));
+    };
+
+    const timer = setTimeout(finish, timeout);
+
+    const unsub = subscribeOnRelayUrls(
+      urls,
+      filters,
+      pool,
+      (event) => { events[event.id] = event; },
+      finish,
+    );
+  });
+
 export const getDefaultBlossomServers = (subid: string) => {
   sendMessage(JSON.stringify([
     "REQ",
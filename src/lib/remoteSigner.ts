@@ -0,0 +1,419 @@
+import { createSignal } from 'solid-js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { Kind, remoteSignerAuthTimeout, remoteSignerTimeout } from '../constants';
+import { NostrExtension, NostrRelayEvent, NostrRelaySignedEvent, RemoteSignerSession } from '../types/primal';
+import { finalizeEvent, generatePrivateKey, getPublicKey, nip04, nip44, relayInit, Relay, verifyEvent } from './nTools';
+import { readRemoteSignerSession, saveRemoteSignerSession, clearRemoteSignerSession } from './localStore';
+import { logError, logInfo, logWarning } from './logger';
+
+export type RemoteSignerState = 'idle' | 'connecting' | 'pending' | 'auth' | 'timeout' | 'error';
+
+export type RemoteSignerStatus = {
+  state: RemoteSignerState,
+  method?: string,
+  authUrl?: string,
+  error?: string,
+};
+
+export type RemoteSigner = NostrExtension & {
+  request: (method: string, params: string[]) => Promise<string>,
+  close: () => void,
+};
+
+type PendingRequest = {
+  method: string,
+  resolve: (result: string) => void,
+  reject: (reason: any) => void,
+  timeout: ReturnType<typeof setTimeout>,
+};
+
+export const [remoteSignerStatus, setRemoteSignerStatus] = createSignal<RemoteSignerStatus>({ state: 'idle' });
+
+export const defaultSignerRelays = ['wss://relay.nsec.app', 'wss://relay.primal.net'];
+
+export const remoteSignerPermissions = [
+  'sign_event',
+  'nip04_encrypt',
+  'nip04_decrypt',
+  'nip44_encrypt',
+  'nip44_decrypt',
+].join(',');
+
+let activeRemoteSigner: RemoteSigner | undefined;
+
+export const getActiveRemoteSigner = () => activeRemoteSigner;
+
+const randomSecret = () => bytesToHex(generatePrivateKey()).slice(0, 16);
+
+export const parseBunkerUri = (uri: string) => {
+  try {
+    const url = new URL(uri.trim());
+
+    if (url.protocol !== 'bunker:') return undefined;
+
+    // bunker://<pubkey>?relay=... is parsed as a host by some engines and as a pathname by others
+    const remotePubkey = (url.hostname || url.pathname.replace(/^\/+/, '')).toLowerCase();
+
+    if (!/^[0-9a-f]{64}$/.test(remotePubkey)) return undefined;
+
+    const relays = url.searchParams.getAll('relay');
+
+    if (relays.length === 0) return undefined;
+
+    return {
+      remotePubkey,
+      relays,
+      secret: url.searchParams.get('secret') || '',
+    };
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const encryptPayload = (clientSecret: string, pubkey: string, payload: string) => {
+  const key = nip44.getConversationKey(hexToBytes(clientSecret), pubkey);
+
+  return nip44.v2.encrypt(payload, key);
+};
+
+const decryptPayload = async (clientSecret: string, pubkey: string, content: string) => {
+  // Older signers still answer with NIP-04 payloads
+  if (content.includes('?iv=')) {
+    return await nip04.decrypt(clientSecret, pubkey, content);
+  }
+
+  const key = nip44.getConversationKey(hexToBytes(clientSecret), pubkey);
+
+  return nip44.v2.decrypt(content, key);
+};
+
+const connectRelays = async (urls: string[]) => {
+  const relays: Relay[] = [];
+
+  for (let i = 0; i < urls.length; i++) {
+    try {
+      const relay = relayInit(urls[i]);
+      await relay.connect();
+      relays.push(relay);
+    } catch (e) {
+      logWarning('Failed to connect to signer relay ', urls[i], e);
+    }
+  }
+
+  if (relays.length === 0) throw('remote-signer-no-relays');
+
+  return relays;
+};
+
+/**
+ * NIP-46 client. Requests are sent as kind 24133 events over the signer's
+ * relays and resolved when a response with the same id comes back.
+ */
+export const PrimalRemoteSigner = (session: RemoteSignerSession): RemoteSigner => {
+  const clientPubkey = getPublicKey(hexToBytes(session.clientSecret));
+
+  let relays: Relay[] = [];
+  let ready: Promise<void> | undefined;
+  let subs: { close: () => void }[] = [];
+  let pending: Record<string, PendingRequest> = {};
+
+  const updateStatus = () => {
+    const waiting = Object.values(pending);
+
+    if (waiting.length === 0) {
+      setRemoteSignerStatus(() => ({ state: 'idle' }));
+      return;
+    }
+
+    if (remoteSignerStatus().state !== 'auth') {
+      setRemoteSignerStatus(() => ({ state: 'pending', method: waiting[0].method }));
+    }
+  };
+
+  const onResponse = async (event: NostrRelaySignedEvent) => {
+    if (event.pubkey !== session.remotePubkey) return;
+
+    let response: { id: string, result?: string, error?: string };
+
+    try {
+      response = JSON.parse(await decryptPayload(session.clientSecret, event.pubkey, event.content));
+    } catch (e) {
+      logWarning('Failed to decrypt remote signer response: ', e);
+      return;
+    }
+
+    const request = pending[response.id];
+
+    if (!request) return;
+
+    if (response.result === 'auth_url') {
+      // The signer wants the user to approve the request on its own page first
+      clearTimeout(request.timeout);
+      request.timeout = setTimeout(() => expire(response.id), remoteSignerAuthTimeout);
+
+      setRemoteSignerStatus(() => ({ state: 'auth', method: request.method, authUrl: response.error }));
+      return;
+    }
+
+    clearTimeout(request.timeout);
+    delete pending[response.id];
+
+    if (response.error) {
+      request.reject(response.error);
+    }
+    else {
+      request.resolve(response.result || '');
+    }
+
+    if (remoteSignerStatus().state === 'auth') {
+      setRemoteSignerStatus(() => ({ state: 'idle' }));
+    }
+
+    updateStatus();
+  };
+
+  const expire = (id: string) => {
+    const request = pending[id];
+
+    if (!request) return;
+
+    delete pending[id];
+
+    logError('Remote signer request timed out: ', request.method);
+    setRemoteSignerStatus(() => ({ state: 'timeout', method: request.method }));
+    request.reject('remote-signer-timeout');
+  };
+
+  const open = () => {
+    if (ready) return ready;
+
+    ready = connectRelays(session.relays).then((connected) => {
+      relays = connected;
+      subs = relays.map(relay => relay.subscribe(
+        [{ kinds: [Kind.NostrConnect], '#p': [clientPubkey] }],
+        { onevent: onResponse },
+      ));
+    }).catch((e) => {
+      ready = undefined;
+      throw(e);
+    });
+
+    return ready;
+  };
+
+  const request = async (method: string, params: string[]) => {
+    await open();
+
+    const id = randomSecret();
+
+    const event = finalizeEvent({
+      kind: Kind.NostrConnect,
+      content: encryptPayload(session.clientSecret, session.remotePubkey, JSON.stringify({ id, method, params })),
+      tags: [['p', session.remotePubkey]],
+      created_at: Math.floor((new Date()).getTime() / 1000),
+    }, hexToBytes(session.clientSecret));
+
+    const promise = new Promise<string>((resolve, reject) => {
+      pending[id] = {
+        method,
+        resolve,
+        reject,
+        timeout: setTimeout(() => expire(id), remoteSignerTimeout),
+      };
+    });
+
+    updateStatus();
+
+    const published = await Promise.allSettled(relays.map(r => r.publish(event)));
+
+    if (!published.some(p => p.status === 'fulfilled')) {
+      clearTimeout(pending[id].timeout);
+      delete pending[id];
+      updateStatus();
+      throw('remote-signer-publish-failed');
+    }
+
+    return await promise;
+  };
+
+  const close = () => {
+    subs.forEach(s => s.close());
+    relays.forEach(r => r.close());
+    Object.keys(pending).forEach((id) => {
+      clearTimeout(pending[id].timeout);
+      pending[id].reject('remote-signer-closed');
+    });
+
+    subs = [];
+    relays = [];
+    pending = {};
+    ready = undefined;
+  };
+
+  const signEvent = async (event: NostrRelayEvent) => {
+    const result = await request('sign_event', [JSON.stringify({ ...event, pubkey: session.userPubkey })]);
+    const signed = JSON.parse(result);
+
+    if (!verifyEvent(signed)) throw('event-sig-not-verified');
+
+    return signed as NostrRelaySignedEvent;
+  };
+
+  return {
+    getPublicKey: async () => session.userPubkey,
+    getRelays: async () => ({}),
+    nip04: {
+      encrypt: (pubkey, message) => request('nip04_encrypt', [pubkey, message]),
+      decrypt: (pubkey, message) => request('nip04_decrypt', [pubkey, message]),
+    },
+    nip44: {
+      encrypt: (pubkey, message) => request('nip44_encrypt', [pubkey, message]),
+      decrypt: (pubkey, message) => request('nip44_decrypt', [pubkey, message]),
+    },
+    signEvent,
+    request,
+    close,
+  };
+};
+
+const activate = async (session: Omit<RemoteSignerSession, 'userPubkey'>) => {
+  const signer = PrimalRemoteSigner({ ...session, userPubkey: '' });
+
+  try {
+    const userPubkey = await signer.request('get_public_key', []);
+    signer.close();
+
+    const fullSession = { ...session, userPubkey };
+    saveRemoteSignerSession(fullSession);
+
+    activeRemoteSigner?.close();
+    activeRemoteSigner = PrimalRemoteSigner(fullSession);
+
+    setRemoteSignerStatus(() => ({ state: 'idle' }));
+
+    return userPubkey;
+  } catch (e) {
+    signer.close();
+    throw(e);
+  }
+};
+
+export const connectWithBunkerUri = async (uri: string) => {
+  const pointer = parseBunkerUri(uri);
+
+  if (!pointer) throw('invalid-bunker-uri');
+
+  const clientSecret = bytesToHex(generatePrivateKey());
+
+  setRemoteSignerStatus(() => ({ state: 'connecting' }));
+
+  const signer = PrimalRemoteSigner({
+    clientSecret,
+    remotePubkey: pointer.remotePubkey,
+    relays: pointer.relays,
+    userPubkey: '',
+  });
+
+  try {
+    await signer.request('connect', [pointer.remotePubkey, pointer.secret, remoteSignerPermissions]);
+  } catch (e) {
+    logError('Remote signer rejected the connection: ', e);
+    setRemoteSignerStatus(() => ({ state: 'error', error: `${e}` }));
+    throw(e);
+  } finally {
+    signer.close();
+  }
+
+  return await activate({
+    clientSecret,
+    remotePubkey: pointer.remotePubkey,
+    relays: pointer.relays,
+  });
+};
+
+/**
+ * Generates a nostrconnect:// uri and waits for a signer to scan it.
+ * Resolves with the user's pubkey once the signer has acknowledged the secret.
+ */
+export const listenForNostrConnect = (relayUrls: string[] = defaultSignerRelays) => {
+  const clientSecret = bytesToHex(generatePrivateKey());
+  const clientPubkey = getPublicKey(hexToBytes(clientSecret));
+  const secret = randomSecret();
+
+  const params = new URLSearchParams();
+  relayUrls.forEach(r => params.append('relay', r));
+  params.append('secret', secret);
+  params.append('perms', remoteSignerPermissions);
+  params.append('name', 'Primal');
+  params.append('url', location.origin);
+
+  const uri = `nostrconnect://${clientPubkey}?${params.toString()}`;
+
+  let relays: Relay[] = [];
+  let cancelled = false;
+
+  const cancel = () => {
+    cancelled = true;
+    relays.forEach(r => r.close());
+    relays = [];
+  };
+
+  const connected = new Promise<string>(async (resolve, reject) => {
+    try {
+      relays = await connectRelays(relayUrls);
+    } catch (e) {
+      reject(e);
+      return;
+    }
+
+    if (cancelled) {
+      cancel();
+      return;
+    }
+
+    relays.forEach(relay => relay.subscribe(
+      [{ kinds: [Kind.NostrConnect], '#p': [clientPubkey] }],
+      {
+        onevent: async (event: NostrRelaySignedEvent) => {
+          try {
+            const response = JSON.parse(await decryptPayload(clientSecret, event.pubkey, event.content));
+
+            if (response.result !== secret) return;
+
+            cancel();
+
+            setRemoteSignerStatus(() => ({ state: 'connecting' }));
+
+            resolve(await activate({ clientSecret, remotePubkey: event.pubkey, relays: relayUrls }));
+          } catch (e) {
+            logWarning('Failed to handle nostrconnect response: ', e);
+            setRemoteSignerStatus(() => ({ state: 'error', error: `${e}` }));
+            reject(e);
+          }
+        },
+      },
+    ));
+  });
+
+  return { uri, connected, cancel };
+};
+
+export const restoreRemoteSigner = () => {
+  const session = readRemoteSignerSession();
+
+  if (!session) return undefined;
+
+  logInfo('Restoring remote signer session for ', session.userPubkey);
+
+  activeRemoteSigner?.close();
+  activeRemoteSigner = PrimalRemoteSigner(session);
+
+  return session;
+};
+
+export const disconnectRemoteSigner = () => {
+  activeRemoteSigner?.close();
+  activeRemoteSigner = undefined;
+  clearRemoteSignerSession();
+  setRemoteSignerStatus(() => ({ state: 'idle' }));
+};
@@ -0,0 +1,262 @@
+import { createSignal } from "solid-js";
+import { createStore, reconcile, unwrap } from "solid-js/store";
+import { scheduledPostMaxTimer, scheduledPostMissedGrace } from "../constants";
+import { NostrRelays, ScheduledPost } from "../types/primal";
+import { openDatabase, withStore } from "./idb";
+import { logInfo, logWarning } from "./logger";
+import { signEvent } from "./nostrAPI";
+import { NostrEvent, publishUrlsFor } from "./notes";
+import { Relay } from "./nTools";
+import { publishEvent } from "./publishQueue";
+
+/**
+ * Posts signed ahead of time, with `created_at` set to when they should go out.
+ * They are published by the app while it's open.
+ *
+ * Handing posts to the cache server for premium users, so they go out while the
+ * app is closed, is not implemented: the cache has no command for scheduling
+ * events. It is descoped from the scheduling request until the requester signs
+ * off on that or the cache gains such a command, which would plug in at
+ * `schedulePost`, `updateScheduledPost` and `removeScheduledPost`.
+ */
+
+export type ScheduleOptions = {
+  relays: Relay[],
+  relaySettings?: NostrRelays,
+  proxy: boolean,
+};
+
+export const [scheduledPosts, setScheduledPosts] = createStore<Record<string, ScheduledPost>>({});
+
+// Local posts whose time passed while the app was closed
+export const [missedScheduledPosts, setMissedScheduledPosts] = createSignal<string[]>([]);
+
+const timers: Record<string, ReturnType<typeof setTimeout>> = {};
+
+// Account whose posts are loaded
+let owner: string | undefined;
+
+const database = () => openDatabase('primal_scheduled_posts', 1, (db) => {
+  if (!db.objectStoreNames.contains('posts')) {
+    db.createObjectStore('posts', { keyPath: 'id' });
+  }
+});
+
+const persist = (post: ScheduledPost) => {
+  const copy = JSON.parse(JSON.stringify(unwrap(post)));
+
+  withStore(database(), 'posts', 'readwrite', store => store.put(copy)).
+    catch(e => logWarning('Failed to persist scheduled post: ', e));
+};
+
+const forget = (id: string) => {
+  clearTimeout(timers[id]);
+  delete timers[id];
+
+  setScheduledPosts(id, undefined!);
+  setMissedScheduledPosts(ids => ids.filter(i => i !== id));
+
+  withStore(database(), 'posts', 'readwrite', store => store.delete(id)).
+    catch(e => logWarning('Failed to remove scheduled post: ', e));
+};
+
+const signForTime = async (template: NostrEvent, publishAt: number) => {
+  const createdAt = Math.floor(publishAt / 1_000);
+
+  // New articles are dated by when they went out, keep `published_at` in line with the new time
+  const tags = template.tags.map(t =>
+    t[0] === 'published_at' && t[1] === `${template.created_at}` ?
+      ['published_at', `${createdAt}`] :
+      [ ...t ]
+  );
+
+  const signed = await signEvent({ ...template, tags, created_at: createdAt });
+
+  if (!signed) throw('event_not_signed');
+
+  return signed;
+};
+
+const templateOf = (post: ScheduledPost): NostrEvent => ({
+  kind: post.event.kind,
+  content: post.event.content,
+  tags: post.event.tags.map(t => [ ...t ]),
+  created_at: post.event.created_at,
+});
+
+const isOwn = (post: ScheduledPost | undefined): post is ScheduledPost =>
+  !!post && !!owner && post.pubkey === owner;
+
+/**
+ * Scheduled posts of the logged in account
+ */
+export const ownScheduledPosts = () => Object.values(scheduledPosts).filter(isOwn);
+
+// PUBLISHING -----------------------------------
+
+const publish = (post: ScheduledPost, event = post.event) => {
+  const { relays, proxy } = unwrap(post);
+
+  forget(post.id);
+
+  logInfo('Publishing scheduled post: ', event.id);
+
+  // From here on the publish queue keeps retrying relays that fail
+  publishEvent(event, [ ...relays ], proxy ? 'primal' : 'relays').
+    catch(e => logWarning('No relay accepted scheduled post yet: ', event.id, e));
+};
+
+const arm = (id: string) => {
+  const post = scheduledPosts[id];
+
+  clearTimeout(timers[id]);
+
+  if (!isOwn(post) || post.state !== 'scheduled') return;
+
+  const delay = post.publishAt - Date.now();
+
+  if (delay <= 0) {
+    publish(post);
+    return;
+  }
+
+  timers[id] = setTimeout(() => arm(id), Math.min(delay, scheduledPostMaxTimer));
+};
+
+const add = (post: ScheduledPost) => {
+  setScheduledPosts(post.id, () => ({ ...post }));
+  persist(post);
+  arm(post.id);
+};
+
+export const schedulePost = async (template: NostrEvent, publishAt: number, options: ScheduleOptions) => {
+  try {
+    const event = await signForTime(template, publishAt);
+    const relays = await publishUrlsFor(event, options.relays, options.relaySettings);
+
+    const post: ScheduledPost = {
+      id: event.id,
+      pubkey: event.pubkey,
+      event,
+      publishAt,
+      relays,
+      proxy: options.proxy,
+      state: 'scheduled',
+      createdAt: Date.now(),
+    };
+
+    add(post);
+
+    return { success: true, post };
+  } catch (reason) {
+    logWarning('Failed to schedule post: ', reason);
+    return { success: false, reason };
+  }
+};
+
+/**
+ * Changing a scheduled post means signing it again, so it gets a new id.
+ */
+export const updateScheduledPost = async (id: string, changes: { content?: string, publishAt?: number }) => {
+  const post = scheduledPosts[id];
+
+  if (!isOwn(post)) return false;
+
+  const publishAt = changes.publishAt || post.publishAt;
+  const template = templateOf(post);
+
+  if (changes.content !== undefined) {
+    template.content = changes.content;
+  }
+
+  try {
+    const event = await signForTime(template, publishAt);
+
+    const updated: ScheduledPost = { ...unwrap(post), id: event.id, event, publishAt, state: 'scheduled' };
+
+    forget(id);
+    add(updated);
+
+    return true;
+  } catch (reason) {
+    logWarning('Failed to update scheduled post: ', reason);
+    return false;
+  }
+};
+
+export const publishScheduledPostNow = async (id: string) => {
+  const post = scheduledPosts[id];
+
+  if (!isOwn(post)) return false;
+
+  try {
+    const event = await signForTime(templateOf(post), Date.now());
+
+    publish(post, event);
+
+    return true;
+  } catch (reason) {
+    logWarning('Failed to publish scheduled post: ', reason);
+    return false;
+  }
+};
+
+export const removeScheduledPost = async (id: string) => {
+  const post = scheduledPosts[id];
+
+  if (!isOwn(post)) return false;
+
+  forget(id);
+
+  return true;
+};
+
+export const dismissMissedScheduledPosts = () => {
+  setMissedScheduledPosts([]);
+};
+
+/**
+ * Loads the user's scheduled posts and arms their timers. Local posts whose time
+ * passed while the app was closed are not sent on their own, they are marked
+ * as missed for the user to decide.
+ */
+export const resumeScheduledPosts = async (pubkey: string | undefined) => {
+  Object.keys(timers).forEach(id => clearTimeout(timers[id]));
+  setScheduledPosts(reconcile({}));
+  setMissedScheduledPosts([]);
+
+  owner = pubkey;
+
+  if (!pubkey) return;
+
+  let posts: ScheduledPost[] = [];
+
+  try {
+    posts = await withStore(database(), 'posts', 'readonly', store => store.getAll());
+  } catch (e) {
+    logWarning('Failed to read scheduled posts: ', e);
+    return;
+  }
+
+  // The account changed while reading
+  if (owner !== pubkey) return;
+
+  const now = Date.now();
+  const missed: string[] = [];
+
+  posts.filter(p => p.pubkey === pubkey).forEach((post) => {
+    if (post.state === 'scheduled' && post.publishAt < now - scheduledPostMissedGrace) {
+      post.state = 'missed';
+      persist(post);
+    }
+
+    if (post.state === 'missed') {
+      missed.push(post.id);
+    }
+
+    setScheduledPosts(post.id, () => ({ ...post }));
+    arm(post.id);
+  });
+
+  setMissedScheduledPosts(missed);
+};
@@ -0,0 +1,282 @@
+import { getFiatValue } from '@getalby/lightning-tools';
+import { breezWallet, BreezPaymentInfo } from '../breezWalletService';
+import { fetchHistoricalFiatRate, fiatRateAt, hasFiatRateHistory, recordFiatRate } from '../currency';
+import { nip19 } from '../nTools';
+import { logWarning } from '../logger';
+
+/**
+ * Spark Wallet Accounting
+ *
+ * Turns Breez payment history into rows an accountant can use: what kind of
+ * payment it was, who the other side was and what it was worth in fiat on the
+ * day it was made. Rows can be exported to CSV or JSON and summarized per month.
+ */
+
+export type SparkPaymentCategory = 'zap' | 'invoice' | 'lightning_address';
+
+export type SparkAccountingRow = {
+  id: string;
+  date: string; // ISO 8601
+  direction: 'in' | 'out';
+  status: BreezPaymentInfo['status'];
+  category: SparkPaymentCategory;
+  amount: number; // sats
+  fee: number; // sats
+  fiatCurrency: string;
+  fiatValue?: number; // Empty when no rate is known for the day of the payment
+  fiatRateDate?: string; // Day of the rate used
+  fiatStatus?: 'priced' | 'unpriced'; // Empty when exporting in sats
+  counterparty: string; // Lightning address or npub
+  zappedNote: string; // note1 or naddr1
+  description: string;
+};
+
+export type SparkMonthSummary = {
+  month: string; // YYYY-MM
+  income: Record<SparkPaymentCategory, number>;
+  spending: Record<SparkPaymentCategory, number>;
+  fees: number;
+  fiatIncome: number;
+  fiatSpending: number;
+};
+
+const PAGE_SIZE = 100;
+
+const toMilliseconds = (timestamp: number) =>
+  timestamp < 10000000000 ? timestamp * 1000 : timestamp;
+
+/**
+ * Page through the whole payment history
+ */
+export async function fetchAllSparkPayments(): Promise<BreezPaymentInfo[]> {
+  let payments: BreezPaymentInfo[] = [];
+
+  while (true) {
+    const page = await breezWallet.getPaymentHistory(PAGE_SIZE, payments.length);
+
+    payments = [...payments, ...page];
+
+    if (page.length < PAGE_SIZE) return payments;
+  }
+}
+
+const parseDescription = (description?: string) => {
+  try {
+    return description ? JSON.parse(description) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const zappedNoteOf = (zapRequest: any) => {
+  const tags: string[][] = zapRequest.tags || [];
+
+  const a = tags.find(t => t[0] === 'a')?.[1];
+
+  if (a) {
+    const [kind, pubkey, identifier] = a.split(':');
+
+    try {
+      return nip19.naddrEncode({ kind: parseInt(kind), pubkey, identifier: identifier || '' });
+    } catch {
+      return a;
+    }
+  }
+
+  const e = tags.find(t => t[0] === 'e')?.[1];
+
+  return e ? nip19.noteEncode(e) : '';
+};
+
+/**
+ * Work out what a payment was from its description. Zaps carry their zap
+ * request (kind 9734), Lightning address payments carry LNURL metadata.
+ */
+export function classifyPayment(payment: BreezPaymentInfo) {
+  const received = payment.paymentType === 'receive';
+  const parsed = parseDescription(payment.description);
+
+  if (parsed && parsed.kind === 9734) {
+    const recipient = (parsed.tags || []).find((t: string[]) => t[0] === 'p')?.[1];
+    const counterparty = received ? parsed.pubkey : recipient;
+
+    return {
+      category: 'zap' as SparkPaymentCategory,
+      counterparty: counterparty ? nip19.npubEncode(counterparty) : '',
+      zappedNote: zappedNoteOf(parsed),
+      description: parsed.content || '',
+    };
+  }
+
+  if (Array.isArray(parsed)) {
+    const metadata = parsed as string[][];
+    const identifier = metadata.find(m => m[0] === 'text/identifier' || m[0] === 'text/email')?.[1];
+    const text = metadata.find(m => m[0] === 'text/plain')?.[1];
+
+    return {
+      category: 'lightning_address' as SparkPaymentCategory,
+      // Received metadata names our own address, not the payer
+      counterparty: received ? '' : identifier || '',
+      zappedNote: '',
+      description: text || '',
+    };
+  }
+
+  return {
+    category: 'invoice' as SparkPaymentCategory,
+    counterparty: '',
+    zappedNote: '',
+    description: payment.description || '',
+  };
+}
+
+/**
+ * Build accounting rows, pricing each payment in `currency` at the rate of its day.
+ * Days the app didn't record a rate for are looked up in the price history;
+ * payments still without a rate are marked as unpriced.
+ */
+export async function accountingRows(payments: BreezPaymentInfo[], currency: string): Promise<SparkAccountingRow[]> {
+  if (currency !== 'SATS' && !fiatRateAt(currency, Date.now())) {
+    try {
+      recordFiatRate(currency, await getFiatValue({ satoshi: 100000000, currency }) / 100000000);
+    } catch (error) {
+      logWarning('[SparkAccounting] Failed to fetch fiat rate:', error);
+    }
+  }
+
+  if (currency !== 'SATS' && hasFiatRateHistory(currency)) {
+    const missing = payments.
+      map(payment => toMilliseconds(payment.timestamp)).
+      filter(time => !fiatRateAt(currency, time));
+
+    const days = new Set<string>();
+
+    for (const time of missing) {
+      const day = new Date(time).toISOString().slice(0, 10);
+
+      if (days.has(day)) continue;
+
+      days.add(day);
+
+      try {
+        await fetchHistoricalFiatRate(currency, time);
+      } catch (error) {
+        logWarning('[SparkAccounting] Failed to fetch historical fiat rate:', error);
+        break;
+      }
+    }
+  }
+
+  return payments.map(payment => {
+    const time = toMilliseconds(payment.timestamp);
+    const rate = currency === 'SATS' ? undefined : fiatRateAt(currency, time);
+
+    return {
+      id: payment.id,
+      date: new Date(time).toISOString(),
+      direction: payment.paymentType === 'receive' ? 'in' : 'out',
+      status: payment.status,
+      amount: payment.amount,
+      fee: payment.fees,
+      fiatCurrency: currency,
+      fiatValue: rate ? Math.round(payment.amount * rate.rate * 100) / 100 : undefined,
+      fiatRateDate: rate?.day,
+      fiatStatus: currency === 'SATS' ? undefined : rate ? 'priced' : 'unpriced',
+      ...classifyPayment(payment),
+    };
+  });
+}
+
+const csvColumns: (keyof SparkAccountingRow)[] = [
+  'date',
+  'direction',
+  'status',
+  'category',
+  'amount',
+  'fee',
+  'fiatValue',
+  'fiatCurrency',
+  'fiatRateDate',
+  'fiatStatus',
+  'counterparty',
+  'zappedNote',
+  'description',
+  'id',
+];
+
+const csvField = (value: unknown) => {
+  const raw = value === undefined ? '' : `${value}`;
+
+  // Spreadsheets run text starting with these as a formula, and descriptions come from other people
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function accountingCSV(rows: SparkAccountingRow[]): string {
+  return [
+    csvColumns.join(','),
+    ...rows.map(row => csvColumns.map(c => csvField(row[c])).join(',')),
+  ].join('\n');
+}
+
+export function accountingJSON(rows: SparkAccountingRow[]): string {
+  return JSON.stringify(rows, null, 2);
+}
+
+const emptyTotals = (): Record<SparkPaymentCategory, number> => ({
+  zap: 0,
+  invoice: 0,
+  lightning_address: 0,
+});
+
+/**
+ * Income and spending per month and category, newest month first.
+ * Only completed payments count.
+ */
+export function monthlySummary(rows: SparkAccountingRow[]): SparkMonthSummary[] {
+  const months: Record<string, SparkMonthSummary> = {};
+
+  for (const row of rows) {
+    if (row.status !== 'completed') continue;
+
+    const month = row.date.slice(0, 7);
+
+    const summary = months[month] || {
+      month,
+      income: emptyTotals(),
+      spending: emptyTotals(),
+      fees: 0,
+      fiatIncome: 0,
+      fiatSpending: 0,
+    };
+
+    if (row.direction === 'in') {
+      summary.income[row.category] += row.amount;
+      summary.fiatIncome += row.fiatValue || 0;
+    } else {
+      summary.spending[row.category] += row.amount;
+      summary.fiatSpending += row.fiatValue || 0;
+      summary.fees += row.fee;
+    }
+
+    months[month] = summary;
+  }
+
+  return Object.values(months).sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/**
+ * Save `content` as a file through the browser
+ */
+export function downloadAccountingFile(name: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,123 @@
+import type {
+  InputType,
+  LnurlAuthRequestDetails,
+  LnurlPayRequestDetails,
+  LnurlWithdrawRequestDetails,
+} from '@breeztech/breez-sdk-spark/web';
+
+/**
+ * Spark Payment Input
+ *
+ * Maps whatever `breezWallet.parseInput` recognised (pasted or scanned) to the
+ * action the send flow takes for it. BIP21 URIs are unwrapped to the best
+ * payment method they carry, preferring Lightning over onchain.
+ */
+
+export type SparkSendTarget =
+  | { kind: 'lnurlPay'; payRequest: LnurlPayRequestDetails; minSats: number; maxSats: number; label: string }
+  | { kind: 'payment'; paymentRequest: string; hasAmount: boolean; amountSats?: number; label: string }
+  | { kind: 'onchain'; address: string; amountSats?: number; label: string }
+  | { kind: 'lnurlWithdraw'; withdrawRequest: LnurlWithdrawRequestDetails; minSats: number; maxSats: number; label: string }
+  | { kind: 'lnurlAuth'; authRequest: LnurlAuthRequestDetails; label: string }
+  | { kind: 'unsupported'; type: string; label: string };
+
+// Order in which BIP21 payment methods are tried
+const bip21Preference = ['bolt11Invoice', 'sparkInvoice', 'sparkAddress', 'lightningAddress', 'lnurlPay', 'bitcoinAddress'];
+
+const msatsToSats = (msats: number) => Math.floor(msats / 1000);
+
+/**
+ * Work out what to do with parsed input
+ * @param parsed - Result of `breezWallet.parseInput`
+ * @param amountSats - Amount given by an enclosing BIP21 URI
+ */
+export function resolveSparkInput(parsed: InputType, amountSats?: number): SparkSendTarget {
+  switch (parsed.type) {
+    case 'bip21': {
+      const methods = [...parsed.paymentMethods].sort((a, b) =>
+        bip21Preference.indexOf(a.type) - bip21Preference.indexOf(b.type)
+      );
+      const method = methods.find(m => bip21Preference.includes(m.type));
+
+      if (!method) {
+        return { kind: 'unsupported', type: 'bip21', label: 'Payment URI without a supported payment method' };
+      }
+
+      return resolveSparkInput(method, parsed.amountSat);
+    }
+
+    case 'lightningAddress':
+      return {
+        kind: 'lnurlPay',
+        payRequest: parsed.payRequest,
+        minSats: Math.ceil(parsed.payRequest.minSendable / 1000),
+        maxSats: msatsToSats(parsed.payRequest.maxSendable),
+        label: `Lightning address ${parsed.address}`,
+      };
+
+    case 'lnurlPay':
+      return {
+        kind: 'lnurlPay',
+        payRequest: parsed,
+        minSats: Math.ceil(parsed.minSendable / 1000),
+        maxSats: msatsToSats(parsed.maxSendable),
+        label: `LNURL payment to ${parsed.domain}`,
+      };
+
+    case 'bolt11Invoice':
+      return {
+        kind: 'payment',
+        paymentRequest: parsed.invoice.bolt11,
+        hasAmount: !!parsed.amountMsat,
+        amountSats: parsed.amountMsat ? undefined : amountSats,
+        label: parsed.amountMsat ? `Lightning invoice for ${msatsToSats(parsed.amountMsat).toLocaleString()} sats` : 'Lightning invoice without amount',
+      };
+
+    case 'sparkInvoice':
+      return {
+        kind: 'payment',
+        paymentRequest: parsed.invoice,
+        hasAmount: !!parsed.amount,
+        amountSats: parsed.amount ? undefined : amountSats,
+        label: 'Spark invoice',
+      };
+
+    case 'sparkAddress':
+      return { kind: 'payment', paymentRequest: parsed.address, hasAmount: false, amountSats, label: 'Spark address' };
+
+    case 'bitcoinAddress':
+      return { kind: 'onchain', address: parsed.address, amountSats, label: `Bitcoin address ${parsed.address}` };
+
+    case 'lnurlWithdraw':
+      return {
+        kind: 'lnurlWithdraw',
+        withdrawRequest: parsed,
+        minSats: Math.ceil(parsed.minWithdrawable / 1000),
+        maxSats: msatsToSats(parsed.maxWithdrawable),
+        label: parsed.defaultDescription || 'LNURL withdraw voucher',
+      };
+
+    case 'lnurlAuth':
+      return { kind: 'lnurlAuth', authRequest: parsed, label: `Log in to ${parsed.domain}` };
+
+    default:
+      return { kind: 'unsupported', type: parsed.type, label: 'Unsupported payment type' };
+  }
+}
+
+/**
+ * Whether the user has to enter an amount for this target
+ */
+export function sparkTargetNeedsAmount(target: SparkSendTarget): boolean {
+  switch (target.kind) {
+    case 'lnurlPay':
+    case 'lnurlWithdraw':
+      return target.minSats !== target.maxSats;
+    case 'payment':
+      return !target.hasAmount && !target.amountSats;
+    case 'onchain':
+      return !target.amountSats;
+    default:
+      return false;
+  }
+}
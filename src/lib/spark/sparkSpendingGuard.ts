@@ -0,0 +1,406 @@
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, randomBytes } from '@noble/hashes/utils';
+import { createStore } from 'solid-js/store';
+import { logError, logInfo, logWarning } from '../logger';
+
+/**
+ * Spark Spending Guard
+ *
+ * Asks for a wallet PIN, or a WebAuthn authenticator, before the Spark wallet
+ * pays more than a set amount at once or per day, and locks the wallet after
+ * a period of inactivity. Every outgoing payment in `breezWalletService` goes
+ * through `authorizeSparkSpend`, so zaps and the send flow are covered alike.
+ *
+ * This protects against someone else using an unlocked browser, not against
+ * anyone able to read the seed from this device.
+ */
+
+export type SparkGuardMethod = 'pin' | 'webauthn';
+
+// Name of the error thrown when the user turns down a payment
+export const spendNotConfirmed = 'spend_not_confirmed';
+
+export const isSpendNotConfirmed = (error: any) => error?.name === spendNotConfirmed;
+
+export type SparkSpendingGuardSettings = {
+  enabled: boolean;
+  method: SparkGuardMethod;
+  pinHash?: string;
+  pinSalt?: string;
+  credentialId?: string;
+  perPaymentLimit: number; // sats, larger payments need confirmation
+  dailyLimit: number; // sats, spending past this today needs confirmation
+  autoLockMinutes: number; // 0 to never lock
+  failedAttempts: number;
+  blockedUntil?: number;
+};
+
+export type SparkUnlockRequest = {
+  reason: string;
+  amount?: number;
+};
+
+type SparkSpend = {
+  at: number;
+  amount: number;
+};
+
+const SETTINGS_KEY = 'spark_spending_guard';
+const SPENDING_LOG_KEY = 'spark_spending_log';
+
+const PIN_ITERATIONS = 100_000;
+export const MIN_WALLET_PIN_LENGTH = 4;
+
+// Wrong PINs allowed before further attempts are blocked for a while
+const MAX_FAILED_ATTEMPTS = 5;
+const BLOCK_DURATION = 5 * 60 * 1_000;
+
+const defaultSettings: SparkSpendingGuardSettings = {
+  enabled: false,
+  method: 'pin',
+  perPaymentLimit: 1_000,
+  dailyLimit: 10_000,
+  autoLockMinutes: 5,
+  failedAttempts: 0,
+};
+
+function loadSettings(): SparkSpendingGuardSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...defaultSettings, ...JSON.parse(stored) } : { ...defaultSettings };
+  } catch (error) {
+    logError('[SparkGuard] Failed to load settings:', error);
+    return { ...defaultSettings };
+  }
+}
+
+const initialSettings = loadSettings();
+
+export const [sparkGuard, setSparkGuard] = createStore<{
+  settings: SparkSpendingGuardSettings;
+  locked: boolean;
+  request?: SparkUnlockRequest;
+}>({
+  settings: initialSettings,
+  // A reload must not skip the lock
+  locked: initialSettings.enabled && initialSettings.autoLockMinutes > 0,
+});
+
+let resolveRequest: ((authorized: boolean) => void) | undefined;
+
+// Unlock prompts are shown one at a time
+let requestQueue: Promise<unknown> = Promise.resolve();
+
+let lockTimeout: ReturnType<typeof setTimeout> | undefined;
+
+function saveSettings(changes: Partial<SparkSpendingGuardSettings>) {
+  setSparkGuard('settings', (settings) => ({ ...settings, ...changes }));
+
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(sparkGuard.settings));
+  } catch (error) {
+    logError('[SparkGuard] Failed to save settings:', error);
+  }
+}
+
+function loadSpendingLog(): SparkSpend[] {
+  try {
+    return JSON.parse(localStorage.getItem(SPENDING_LOG_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+const startOfToday = () => new Date().setHours(0, 0, 0, 0);
+
+async function hashPin(pin: string, salt: string): Promise<string> {
+  const hash = await pbkdf2Async(sha256, pin, salt, { c: PIN_ITERATIONS, dkLen: 32 });
+  return bytesToHex(hash);
+}
+
+const toBase64 = (bytes: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+/**
+ * Whether this browser can use a platform authenticator or security key
+ */
+export function isWebAuthnSupported(): boolean {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+/**
+ * Sats sent from the Spark wallet since midnight
+ */
+export function todaySparkSpending(): number {
+  const since = startOfToday();
+  return loadSpendingLog().filter(s => s.at >= since).reduce((sum, s) => sum + s.amount, 0);
+}
+
+/**
+ * Add a sent payment to today's total
+ */
+export function recordSparkSpend(amount: number) {
+  const since = startOfToday();
+  const log = [...loadSpendingLog().filter(s => s.at >= since), { at: Date.now(), amount }];
+
+  try {
+    localStorage.setItem(SPENDING_LOG_KEY, JSON.stringify(log));
+  } catch (error) {
+    logWarning('[SparkGuard] Failed to record spending:', error);
+  }
+}
+
+// LOCKING --------------------------------------
+
+export function lockSparkWallet() {
+  if (!sparkGuard.settings.enabled) return;
+
+  clearTimeout(lockTimeout);
+  setSparkGuard('locked', true);
+  logInfo('[SparkGuard] Wallet locked');
+}
+
+/**
+ * Restarts the inactivity countdown. Called on user interaction.
+ */
+export function noteSparkActivity() {
+  clearTimeout(lockTimeout);
+
+  const { enabled, autoLockMinutes } = sparkGuard.settings;
+
+  if (!enabled || autoLockMinutes <= 0 || sparkGuard.locked) return;
+
+  lockTimeout = setTimeout(lockSparkWallet, autoLockMinutes * 60 * 1_000);
+}
+
+function unlock() {
+  setSparkGuard('locked', false);
+  noteSparkActivity();
+}
+
+// AUTHORIZATION --------------------------------
+
+/**
+ * Shows the unlock prompt and resolves once the user confirmed or gave up
+ */
+export function requestSparkUnlock(reason: string, amount?: number): Promise<boolean> {
+  if (!sparkGuard.settings.enabled) return Promise.resolve(true);
+
+  const request = requestQueue.then(() => new Promise<boolean>((resolve) => {
+    resolveRequest = resolve;
+    setSparkGuard('request', { reason, amount });
+  }));
+
+  requestQueue = request;
+
+  return request;
+}
+
+/**
+ * Checks a payment against the lock and the limits, prompting when needed
+ * @param amount - Amount about to be sent, in sats
+ * @returns Whether the payment may go ahead
+ */
+export async function authorizeSparkSpend(amount: number): Promise<boolean> {
+  const { enabled, perPaymentLimit, dailyLimit } = sparkGuard.settings;
+
+  if (!enabled) return true;
+
+  let reason = '';
+
+  if (sparkGuard.locked) {
+    reason = 'Your wallet is locked.';
+  } else if (amount > perPaymentLimit) {
+    reason = `This payment is above your ${perPaymentLimit.toLocaleString()} sats limit.`;
+  } else if (todaySparkSpending() + amount > dailyLimit) {
+    reason = `This payment takes today's spending past your ${dailyLimit.toLocaleString()} sats limit.`;
+  }
+
+  if (!reason) {
+    noteSparkActivity();
+    return true;
+  }
+
+  return requestSparkUnlock(reason, amount);
+}
+
+function finishRequest(authorized: boolean) {
+  const resolve = resolveRequest;
+
+  resolveRequest = undefined;
+  setSparkGuard('request', undefined);
+
+  if (authorized) unlock();
+
+  resolve && resolve(authorized);
+}
+
+export function cancelSparkUnlock() {
+  finishRequest(false);
+}
+
+/**
+ * Confirms the pending request with the wallet PIN
+ * @returns Whether the PIN was right
+ */
+export async function confirmSparkPin(pin: string): Promise<boolean> {
+  const { pinHash, pinSalt, blockedUntil } = sparkGuard.settings;
+
+  if (blockedUntil && blockedUntil > Date.now()) {
+    throw new Error('Too many wrong attempts, try again in a few minutes');
+  }
+
+  if (!pinHash || !pinSalt || await hashPin(pin, pinSalt) !== pinHash) {
+    const failedAttempts = sparkGuard.settings.failedAttempts + 1;
+
+    saveSettings(failedAttempts >= MAX_FAILED_ATTEMPTS ?
+      { failedAttempts: 0, blockedUntil: Date.now() + BLOCK_DURATION } :
+      { failedAttempts },
+    );
+
+    return false;
+  }
+
+  saveSettings({ failedAttempts: 0, blockedUntil: undefined });
+  finishRequest(true);
+
+  return true;
+}
+
+/**
+ * Confirms the pending request with the registered authenticator.
+ * There is no server to check the signature, so the assertion is only
+ * accepted when the authenticator verified the user itself.
+ */
+export async function confirmSparkWebAuthn(): Promise<boolean> {
+  const credentialId = sparkGuard.settings.credentialId;
+
+  if (!credentialId) return false;
+
+  try {
+    const credential = await navigator.credentials.get({
+      publicKey: {
+        challenge: randomBytes(32),
+        allowCredentials: [{ type: 'public-key', id: fromBase64(credentialId) }],
+        userVerification: 'required',
+        timeout: 60_000,
+      },
+    }) as PublicKeyCredential | null;
+
+    if (!credential || toBase64(credential.rawId) !== credentialId) return false;
+
+    const { authenticatorData } = credential.response as AuthenticatorAssertionResponse;
+
+    // User verified flag
+    if ((new Uint8Array(authenticatorData)[32] & 0x04) === 0) return false;
+
+    finishRequest(true);
+    return true;
+  } catch (error) {
+    logWarning('[SparkGuard] WebAuthn confirmation failed:', error);
+    return false;
+  }
+}
+
+// SETTINGS -------------------------------------
+
+export type SparkGuardLimits = Pick<SparkSpendingGuardSettings, 'perPaymentLimit' | 'dailyLimit' | 'autoLockMinutes'>;
+
+/**
+ * Turns the guard on, protected by a PIN
+ */
+export async function enableSparkPinGuard(pin: string, limits: SparkGuardLimits) {
+  if (pin.length < MIN_WALLET_PIN_LENGTH) {
+    throw new Error(`PIN must be at least ${MIN_WALLET_PIN_LENGTH} digits`);
+  }
+
+  const pinSalt = bytesToHex(randomBytes(16));
+  const pinHash = await hashPin(pin, pinSalt);
+
+  saveSettings({
+    ...limits,
+    enabled: true,
+    method: 'pin',
+    pinHash,
+    pinSalt,
+    credentialId: undefined,
+    failedAttempts: 0,
+    blockedUntil: undefined,
+  });
+
+  unlock();
+  logInfo('[SparkGuard] Enabled with PIN');
+}
+
+/**
+ * Turns the guard on, protected by a newly registered WebAuthn credential
+ */
+export async function enableSparkWebAuthnGuard(limits: SparkGuardLimits) {
+  if (!isWebAuthnSupported()) {
+    throw new Error('This browser does not support WebAuthn');
+  }
+
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: randomBytes(32),
+      rp: { name: 'Primal' },
+      user: {
+        id: randomBytes(16),
+        name: 'spark-wallet',
+        displayName: 'Spark wallet',
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 },
+        { type: 'public-key', alg: -257 },
+      ],
+      authenticatorSelection: { userVerification: 'required' },
+      timeout: 60_000,
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('No credential was created');
+  }
+
+  saveSettings({
+    ...limits,
+    enabled: true,
+    method: 'webauthn',
+    pinHash: undefined,
+    pinSalt: undefined,
+    credentialId: toBase64(credential.rawId),
+    failedAttempts: 0,
+    blockedUntil: undefined,
+  });
+
+  unlock();
+  logInfo('[SparkGuard] Enabled with WebAuthn');
+}
+
+/**
+ * Changes limits, after confirming it's the owner making the change
+ */
+export async function updateSparkGuardLimits(limits: SparkGuardLimits): Promise<boolean> {
+  if (!await requestSparkUnlock('Confirm to change your spending limits.')) return false;
+
+  saveSettings(limits);
+  noteSparkActivity();
+
+  return true;
+}
+
+/**
+ * Turns the guard off, after confirming it's the owner making the change
+ */
+export async function disableSparkGuard(): Promise<boolean> {
+  if (!await requestSparkUnlock('Confirm to turn off spending protection.')) return false;
+
+  clearTimeout(lockTimeout);
+  saveSettings({ ...defaultSettings });
+  setSparkGuard('locked', false);
+
+  logInfo('[SparkGuard] Disabled');
+  return true;
+}
@@ -1,5 +1,6 @@
 import { xchacha20poly1305 } from '@noble/ciphers/chacha.js';
 import { sha256 } from '@noble/hashes/sha256';
+import { scryptAsync } from '@noble/hashes/scrypt';
 import { encrypt as nip04Encrypt, decrypt as nip04Decrypt, getPublicKey } from '../nostrAPI';
 import { logError, logInfo, logWarning } from '../logger';
 
@@ -381,3 +382,173 @@ export function getEncryptionVersion(pubkey: string): string | null {
   const config = loadSparkConfig(pubkey);
   return config?.encryptionVersion || null;
 }
+
+/**
+ * Passphrase Backup File
+ *
+ * Standalone backup that only needs the passphrase to restore, so it survives
+ * a nostr key rotation. The key is derived with scrypt (memory-hard) and the
+ * seed is sealed with XChaCha20-Poly1305. KDF parameters travel with the file
+ * so they can be raised later without breaking older backups.
+ */
+
+export const PASSPHRASE_BACKUP_TYPE = 'spark-wallet-passphrase-backup';
+export const PASSPHRASE_BACKUP_VERSION = 3;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const SCRYPT_PARAMS = { N: 2 ** 17, r: 8, p: 1 };
+const SALT_LENGTH = 16;
+
+export type PassphraseBackup = {
+  type: typeof PASSPHRASE_BACKUP_TYPE;
+  version: number;
+  kdf: {
+    name: 'scrypt';
+    N: number;
+    r: number;
+    p: number;
+    salt: string; // hex encoded
+  };
+  cipher: typeof SPARK_ENCRYPTION_VERSION;
+  nonce: string; // hex encoded
+  ciphertext: string; // hex encoded
+  checksum: string; // sha256 of everything above, hex encoded
+  createdAt: number;
+  createdBy: string;
+  network?: SparkWalletConfig['network'];
+  lud16?: string;
+};
+
+function passphraseBackupChecksum(backup: Omit<PassphraseBackup, 'checksum'>): string {
+  const { kdf, nonce, ciphertext, createdAt, createdBy } = backup;
+  const payload = [
+    backup.type,
+    backup.version,
+    kdf.name,
+    kdf.N,
+    kdf.r,
+    kdf.p,
+    kdf.salt,
+    backup.cipher,
+    nonce,
+    ciphertext,
+    createdAt,
+    createdBy,
+  ].join(':');
+
+  return bytesToHex(sha256(new TextEncoder().encode(payload)));
+}
+
+async function derivePassphraseKey(
+  passphrase: string,
+  kdf: PassphraseBackup['kdf']
+): Promise<Uint8Array> {
+  return scryptAsync(passphrase.normalize('NFKD'), hexToBytes(kdf.salt), {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: KEY_LENGTH,
+    maxmem: 2 ** 30,
+  });
+}
+
+/**
+ * Check whether parsed file contents are a passphrase backup
+ */
+export function isPassphraseBackup(data: any): data is PassphraseBackup {
+  return data?.type === PASSPHRASE_BACKUP_TYPE;
+}
+
+/**
+ * Create a passphrase protected backup of the seed
+ * @param seed - BIP39 mnemonic seed phrase
+ * @param passphrase - User chosen passphrase
+ * @param config - Wallet config, its network and lightning address are kept as metadata
+ * @returns Backup ready to be serialized to a file
+ */
+export async function createPassphraseBackup(
+  seed: string,
+  passphrase: string,
+  config?: SparkWalletConfig | null
+): Promise<PassphraseBackup> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const kdf = {
+    name: 'scrypt' as const,
+    ...SCRYPT_PARAMS,
+    salt: bytesToHex(randomBytes(SALT_LENGTH)),
+  };
+
+  const key = await derivePassphraseKey(passphrase, kdf);
+  const encrypted = encryptWithXChaCha(seed, key);
+
+  const backup = {
+    type: PASSPHRASE_BACKUP_TYPE,
+    version: PASSPHRASE_BACKUP_VERSION,
+    kdf,
+    cipher: SPARK_ENCRYPTION_VERSION,
+    nonce: encrypted.nonce,
+    ciphertext: encrypted.ciphertext,
+    createdAt: Date.now(),
+    createdBy: 'Primal',
+    network: config?.network,
+    lud16: config?.lud16,
+  } as const;
+
+  logInfo('[SparkStorage] Passphrase backup created');
+
+  return { ...backup, checksum: passphraseBackupChecksum(backup) };
+}
+
+/**
+ * Restore the seed from a passphrase backup. Does not need any nostr key.
+ * @param backup - Parsed backup file
+ * @param passphrase - Passphrase the backup was created with
+ * @returns Decrypted BIP39 mnemonic seed phrase
+ */
+export async function restorePassphraseBackup(
+  backup: PassphraseBackup,
+  passphrase: string
+): Promise<string> {
+  if (!isPassphraseBackup(backup)) {
+    throw new Error('Not a passphrase protected wallet backup');
+  }
+
+  if (backup.version > PASSPHRASE_BACKUP_VERSION) {
+    throw new Error(`Backup version ${backup.version} is not supported, please update the app`);
+  }
+
+  if (backup.kdf?.name !== 'scrypt' || backup.cipher !== SPARK_ENCRYPTION_VERSION) {
+    throw new Error('Unsupported backup encryption');
+  }
+
+  const { checksum, ...rest } = backup;
+
+  if (passphraseBackupChecksum(rest) !== checksum) {
+    throw new Error('Backup file is corrupted (checksum mismatch)');
+  }
+
+  const key = await derivePassphraseKey(passphrase, backup.kdf);
+
+  let seed: string;
+
+  try {
+    seed = decryptWithXChaCha(
+      { version: backup.cipher, nonce: backup.nonce, ciphertext: backup.ciphertext },
+      key
+    );
+  } catch (error) {
+    logWarning('[SparkStorage] Failed to decrypt passphrase backup:', error);
+    throw new Error('Wrong passphrase');
+  }
+
+  if (!validateMnemonic(seed)) {
+    throw new Error('Backup does not contain a valid seed phrase');
+  }
+
+  logInfo('[SparkStorage] Passphrase backup restored');
+
+  return seed;
+}
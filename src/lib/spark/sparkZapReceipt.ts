@@ -1,6 +1,11 @@
+import { createStore } from 'solid-js/store';
+// @ts-ignore
+import { decode } from 'light-bolt11-decoder';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
 import { signEvent, getPublicKey } from '../nostrAPI';
 import { logError, logInfo, logWarning } from '../logger';
-import { Relay } from '../nTools';
+import { Relay, relayInit, utils, verifyEvent } from '../nTools';
 import { NostrRelaySignedEvent } from '../../types/primal';
 import { BreezPaymentInfo } from '../breezWalletService';
 
@@ -14,6 +19,9 @@ import { BreezPaymentInfo } from '../breezWalletService';
  */
 
 const ZAP_RECEIPT_KIND = 9735;
+const RELAY_PUBLISH_TIMEOUT = 10000;
+const ZAP_INBOX_KEY_PREFIX = 'spark_zap_inbox_';
+const ZAP_INBOX_LIMIT = 200;
 
 export type ZapReceiptData = {
   bolt11: string; // BOLT11 invoice
@@ -24,6 +32,37 @@ export type ZapReceiptData = {
   paymentHash?: string; // Payment hash
 };
 
+export type ZapReceiptRelayStatus = {
+  url: string;
+  status: 'published' | 'failed';
+  error?: string;
+  at: number;
+};
+
+export type ZapReceiptIssue =
+  | 'missing_bolt11'
+  | 'invalid_zap_request'
+  | 'bad_signature'
+  | 'amount_mismatch'
+  | 'description_hash_mismatch'
+  | 'not_published';
+
+export type IncomingZap = {
+  paymentId: string;
+  amountSats: number;
+  timestamp: number;
+  zapRequest?: NostrRelaySignedEvent;
+  receiptData?: ZapReceiptData;
+  receipt?: NostrRelaySignedEvent;
+  relays: ZapReceiptRelayStatus[];
+  issues: ZapReceiptIssue[];
+};
+
+export type ZapReceiptPublication = {
+  event: NostrRelaySignedEvent;
+  relays: ZapReceiptRelayStatus[];
+};
+
 /**
  * Parse zap request from BOLT11 invoice description
  * The description should be a JSON-encoded kind 9734 zap request event
@@ -103,6 +142,58 @@ async function createZapReceiptEvent(
   return event;
 }
 
+/**
+ * Relays the zapper asked the receipt to be published to
+ */
+function zapRequestRelays(description: string): string[] {
+  try {
+    const relaysTag = JSON.parse(description).tags?.find((t: string[]) => t[0] === 'relays');
+    return relaysTag ? relaysTag.slice(1).filter((url: string) => url.startsWith('wss://')) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function publishToRelay(relay: Relay, event: NostrRelaySignedEvent): Promise<ZapReceiptRelayStatus> {
+  try {
+    await relay.connect();
+
+    // Wait for the relay's OK, a relay that rejects the receipt must not count as published
+    await Promise.race([
+      relay.publish(event),
+      new Promise((_, reject) => setTimeout(() => reject(new Error('Timed out')), RELAY_PUBLISH_TIMEOUT)),
+    ]);
+
+    logInfo(`[SparkZapReceipt] Published to ${relay.url}`);
+    return { url: relay.url, status: 'published', at: Date.now() };
+  } catch (error: any) {
+    logWarning(`[SparkZapReceipt] Failed to publish to ${relay.url}:`, error);
+    return { url: relay.url, status: 'failed', error: error?.message || `${error}`, at: Date.now() };
+  }
+}
+
+/**
+ * Publish to connected relays, and to any other urls through short lived connections
+ */
+async function publishToRelays(
+  event: NostrRelaySignedEvent,
+  relays: Relay[],
+  urls: string[] = []
+): Promise<ZapReceiptRelayStatus[]> {
+  const known = relays.map(r => utils.normalizeURL(r.url));
+  const others = [...new Set(urls.map(utils.normalizeURL))].filter(url => !known.includes(url));
+
+  return Promise.all([
+    ...relays.map(relay => publishToRelay(relay, event)),
+    ...others.map(async (url) => {
+      const relay = relayInit(url);
+      const status = await publishToRelay(relay, event);
+      relay.close();
+      return status;
+    }),
+  ]);
+}
+
 /**
  * Publish zap receipt to relays
  * @param zapData - Zap receipt data
@@ -114,7 +205,7 @@ export async function publishZapReceipt(
   zapData: ZapReceiptData,
   relays: Relay[],
   walletPubkey?: string
-): Promise<void> {
+): Promise<ZapReceiptPublication> {
   try {
     logInfo('[SparkZapReceipt] Publishing zap receipt...');
 
@@ -133,29 +224,17 @@ export async function publishZapReceipt(
       throw new Error('Failed to sign zap receipt event');
     }
 
-    // Publish to all relays
-    let successCount = 0;
-    let failCount = 0;
-
-    const publishPromises = relays.map(async (relay) => {
-      try {
-        await relay.connect();
-        relay.publish(signedEvent);
-        successCount++;
-        logInfo(`[SparkZapReceipt] Published to ${relay.url}`);
-      } catch (error) {
-        failCount++;
-        logWarning(`[SparkZapReceipt] Failed to publish to ${relay.url}:`, error);
-      }
-    });
-
-    await Promise.all(publishPromises);
+    // Publish to our relays and to the ones the zapper asked for
+    const statuses = await publishToRelays(signedEvent, relays, zapRequestRelays(zapData.description));
+    const successCount = statuses.filter(s => s.status === 'published').length;
 
     if (successCount === 0) {
       throw new Error('Failed to publish zap receipt to any relay');
     }
 
-    logInfo(`[SparkZapReceipt] Zap receipt published to ${successCount}/${relays.length} relays`);
+    logInfo(`[SparkZapReceipt] Zap receipt published to ${successCount}/${statuses.length} relays`);
+
+    return { event: signedEvent, relays: statuses };
   } catch (error) {
     logError('[SparkZapReceipt] Failed to publish zap receipt:', error);
     throw error;
@@ -287,14 +366,38 @@ export async function handleIncomingZap(
       return;
     }
 
-    // Check if this is a zap and publish receipt
-    const published = await publishZapReceiptForPayment(payment, pubkey, relays, pubkey);
+    const zapRequest = payment.description ? parseZapRequest(payment.description) : null;
 
-    if (published) {
-      logInfo('[SparkZapReceipt] Incoming zap receipt published');
-    } else {
+    if (!zapRequest) {
       logInfo('[SparkZapReceipt] Incoming payment was not a zap');
+      return;
     }
+
+    const issues = zapPaymentIssues(payment, zapRequest);
+    const receiptData = createZapReceiptFromPayment(payment, pubkey) || undefined;
+
+    let incoming: IncomingZap = {
+      paymentId: payment.id,
+      amountSats: payment.amount,
+      timestamp: payment.timestamp,
+      zapRequest,
+      receiptData,
+      relays: [],
+      issues,
+    };
+
+    // NIP-57: no receipt for a request that is not signed by the zapper
+    if (receiptData && !issues.includes('bad_signature')) {
+      try {
+        const { event, relays: statuses } = await publishZapReceipt(receiptData, relays, pubkey);
+        incoming = { ...incoming, receipt: event, relays: statuses };
+        logInfo('[SparkZapReceipt] Incoming zap receipt published');
+      } catch (error) {
+        logWarning('[SparkZapReceipt] Incoming zap receipt not published:', error);
+      }
+    }
+
+    saveIncomingZap(pubkey, withPublicationIssue(incoming));
   } catch (error) {
     logError('[SparkZapReceipt] Failed to handle incoming zap:', error);
   }
@@ -396,3 +499,196 @@ export function getZappedEventId(receiptEvent: NostrRelaySignedEvent): string |
     return null;
   }
 }
+
+/**
+ * Zap Inbox
+ *
+ * Keeps a local record of incoming zaps, the receipt published for each of them,
+ * which relays took it, and what was wrong with the payment, so failed receipts
+ * can be found and published again.
+ */
+
+export const [zapInbox, setZapInbox] = createStore<{ pubkey?: string, zaps: IncomingZap[] }>({ zaps: [] });
+
+function getZapInboxKey(pubkey: string): string {
+  return `${ZAP_INBOX_KEY_PREFIX}${pubkey}`;
+}
+
+/**
+ * Things that make an incoming zap payment, or a receipt for it, invalid under NIP-57
+ * @param payment - Received payment info
+ * @param zapRequest - Zap request (kind 9734) taken from the payment description
+ * @returns List of issues, empty if the zap checks out
+ */
+export function zapPaymentIssues(payment: BreezPaymentInfo, zapRequest: any): ZapReceiptIssue[] {
+  const issues: ZapReceiptIssue[] = [];
+
+  if (!zapRequest || !Array.isArray(zapRequest.tags) || !zapRequest.tags.find((t: string[]) => t[0] === 'p')) {
+    return ['invalid_zap_request'];
+  }
+
+  try {
+    if (!verifyEvent(zapRequest)) {
+      issues.push('bad_signature');
+    }
+  } catch {
+    issues.push('bad_signature');
+  }
+
+  const amountTag = zapRequest.tags.find((t: string[]) => t[0] === 'amount');
+  if (amountTag && parseInt(amountTag[1], 10) !== payment.amount * 1000) {
+    issues.push('amount_mismatch');
+  }
+
+  if (!payment.invoice) {
+    issues.push('missing_bolt11');
+    return issues;
+  }
+
+  try {
+    const descriptionHash = decode(payment.invoice).sections.find((s: any) => s.name === 'description_hash')?.value;
+    const expected = bytesToHex(sha256(new TextEncoder().encode(payment.description || '')));
+
+    if (descriptionHash && descriptionHash !== expected) {
+      issues.push('description_hash_mismatch');
+    }
+  } catch (error) {
+    logWarning('[SparkZapReceipt] Failed to decode zap invoice:', error);
+  }
+
+  return issues;
+}
+
+function withPublicationIssue(zap: IncomingZap): IncomingZap {
+  const published = zap.relays.some(r => r.status === 'published');
+  const issues = zap.issues.filter(i => i !== 'not_published');
+
+  return { ...zap, issues: published ? issues : [...issues, 'not_published'] };
+}
+
+function persistZapInbox(pubkey: string): void {
+  try {
+    localStorage.setItem(getZapInboxKey(pubkey), JSON.stringify(zapInbox.zaps));
+  } catch (error) {
+    logWarning('[SparkZapReceipt] Failed to save zap inbox:', error);
+  }
+}
+
+/**
+ * Load the zap inbox of a user
+ * @param pubkey - User's Nostr public key
+ */
+export function loadZapInbox(pubkey: string): void {
+  if (zapInbox.pubkey === pubkey) return;
+
+  let zaps: IncomingZap[] = [];
+
+  try {
+    zaps = JSON.parse(localStorage.getItem(getZapInboxKey(pubkey)) || '[]');
+  } catch (error) {
+    logWarning('[SparkZapReceipt] Failed to read zap inbox:', error);
+  }
+
+  setZapInbox({ pubkey, zaps });
+}
+
+function saveIncomingZap(pubkey: string, zap: IncomingZap): void {
+  loadZapInbox(pubkey);
+
+  const zaps = [zap, ...zapInbox.zaps.filter(z => z.paymentId !== zap.paymentId)].
+    sort((a, b) => b.timestamp - a.timestamp).
+    slice(0, ZAP_INBOX_LIMIT);
+
+  setZapInbox('zaps', zaps);
+  persistZapInbox(pubkey);
+}
+
+/**
+ * Add incoming zaps from payment history that the inbox has not seen,
+ * e.g. ones received before the inbox existed or while the app was closed
+ * @param pubkey - User's Nostr public key
+ * @param payments - Payment history
+ * @returns Number of zaps added
+ */
+export function addZapsFromPayments(pubkey: string, payments: BreezPaymentInfo[]): number {
+  loadZapInbox(pubkey);
+
+  let added = 0;
+
+  payments.forEach((payment) => {
+    if (payment.paymentType !== 'receive' || payment.status !== 'completed') return;
+    if (zapInbox.zaps.find(z => z.paymentId === payment.id)) return;
+
+    const zapRequest = payment.description ? parseZapRequest(payment.description) : null;
+    if (!zapRequest) return;
+
+    saveIncomingZap(pubkey, withPublicationIssue({
+      paymentId: payment.id,
+      amountSats: payment.amount,
+      timestamp: payment.timestamp,
+      zapRequest,
+      receiptData: createZapReceiptFromPayment(payment, pubkey) || undefined,
+      relays: [],
+      issues: zapPaymentIssues(payment, zapRequest),
+    }));
+
+    added++;
+  });
+
+  return added;
+}
+
+/**
+ * Publish the receipt of an incoming zap again, to the relays that did not take it.
+ * A receipt that was never created is created now.
+ * @param pubkey - User's Nostr public key
+ * @param paymentId - Id of the incoming payment
+ * @param relays - Relays to publish to
+ */
+export async function republishZapReceipt(pubkey: string, paymentId: string, relays: Relay[]): Promise<IncomingZap> {
+  loadZapInbox(pubkey);
+
+  const zap = zapInbox.zaps.find(z => z.paymentId === paymentId);
+
+  if (!zap) {
+    throw new Error('Zap not found in inbox');
+  }
+
+  if (!zap.receiptData) {
+    throw new Error('Payment has no invoice or zap request to build a receipt from');
+  }
+
+  if (zap.issues.includes('bad_signature')) {
+    throw new Error('Zap request signature is invalid, a receipt would not be accepted');
+  }
+
+  let updated: IncomingZap;
+
+  if (!zap.receipt) {
+    const { event, relays: statuses } = await publishZapReceipt(zap.receiptData, relays, pubkey);
+    updated = { ...zap, receipt: event, relays: statuses };
+  } else {
+    const published = zap.relays.filter(r => r.status === 'published').map(r => r.url);
+    const pending = relays.filter(r => !published.includes(r.url));
+    const pendingUrls = [
+      ...zap.relays.filter(r => r.status === 'failed').map(r => r.url),
+      ...zapRequestRelays(zap.receiptData.description),
+    ].filter(url => !published.includes(url));
+
+    const statuses = await publishToRelays(zap.receipt, pending, pendingUrls);
+
+    updated = {
+      ...zap,
+      relays: [
+        ...zap.relays.filter(r => !statuses.find(s => s.url === r.url)),
+        ...statuses,
+      ],
+    };
+  }
+
+  updated = withPublicationIssue(updated);
+
+  saveIncomingZap(pubkey, updated);
+
+  return updated;
+}
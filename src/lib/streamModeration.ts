@@ -0,0 +1,349 @@
+import { APP_ID } from "../App";
+import { Kind } from "../constants";
+import { sendMessage, subsTo } from "../sockets";
+import { NostrEventContent, NostrRelays, NostrRelaySignedEvent } from "../types/primal";
+import { sendEvent } from "./notes";
+import { Relay } from "./nTools";
+import { subscribeOnRelayUrls } from "./relays";
+
+/**
+ * Chat moderation for live streams.
+ *
+ * The host and everyone tagged as a Host or Moderator in the live event's
+ * `p` tags publish their moderation state for a stream as a replaceable
+ * event, keyed by the stream's coordinate. Viewers merge the states of all
+ * moderators and apply them to the chat; states signed by anyone else are
+ * ignored. Lifted bans and hides are published as `unban` and `unhide`
+ * entries, so one moderator can undo what another one did.
+ */
+
+export type StreamModeration = {
+  hidden: string[],
+  unhidden: string[],
+  banned: string[],
+  unbanned: string[],
+  timeouts: Record<string, { from: number, until: number }>,
+  slowMode: number, // seconds between messages of a user, 0 when off
+  followersOnly: boolean,
+  pinned?: string,
+  updatedAt: number,
+};
+
+export type StreamModerationAction =
+  { type: 'hide', id: string, hidden: boolean } |
+  { type: 'pin', id?: string } |
+  { type: 'timeout', pubkey: string, duration: number } |
+  { type: 'ban', pubkey: string, banned: boolean } |
+  { type: 'slowMode', seconds: number } |
+  { type: 'followersOnly', enabled: boolean };
+
+type ChatEntry = {
+  id?: string,
+  pubkey?: string,
+  created_at?: number,
+  kind: number,
+};
+
+export const slowModeOptions = [0, 10, 30, 60];
+
+export const streamTimeoutDuration = 10 * 60;
+
+export const emptyStreamModeration = (): StreamModeration => ({
+  hidden: [],
+  unhidden: [],
+  banned: [],
+  unbanned: [],
+  timeouts: {},
+  slowMode: 0,
+  followersOnly: false,
+  updatedAt: 0,
+});
+
+const now = () => Math.floor(Date.now() / 1_000);
+
+/**
+ * Pubkeys allowed to moderate the stream: its author and participants
+ * with the Host or Moderator role
+ */
+export const streamModerators = (event: NostrEventContent | undefined) => {
+  if (!event) return [];
+
+  const tagged = (event.tags || []).
+    filter(t => t[0] === 'p' && ['host', 'moderator'].includes((t[3] || '').toLowerCase())).
+    map(t => t[1]);
+
+  return [event.pubkey, ...tagged].filter((pk, i, all): pk is string => !!pk && all.indexOf(pk) === i);
+};
+
+export const moderationFromEvent = (event: NostrRelaySignedEvent): StreamModeration => {
+  const moderation = emptyStreamModeration();
+
+  event.tags.forEach(t => {
+    switch (t[0]) {
+      case 'hide':
+        moderation.hidden.push(t[1]);
+        break;
+      case 'unhide':
+        moderation.unhidden.push(t[1]);
+        break;
+      case 'ban':
+        moderation.banned.push(t[1]);
+        break;
+      case 'unban':
+        moderation.unbanned.push(t[1]);
+        break;
+      case 'timeout':
+        moderation.timeouts[t[1]] = { from: parseInt(t[2]) || 0, until: parseInt(t[3]) || 0 };
+        break;
+      case 'slow_mode':
+        moderation.slowMode = parseInt(t[1]) || 0;
+        break;
+      case 'followers_only':
+        moderation.followersOnly = true;
+        break;
+      case 'pin':
+        moderation.pinned = t[1];
+        break;
+    }
+  });
+
+  moderation.updatedAt = event.created_at;
+
+  return moderation;
+};
+
+const toggled = (current: string[], added: string[], removed: string[]) =>
+  [...new Set([...current.filter(v => !removed.includes(v)), ...added.filter(v => !removed.includes(v))])];
+
+/**
+ * Combines the states of the stream with the given coordinate published by
+ * its moderators. Bans and hides are applied in the order they were published,
+ * except for the host's own, which always win. Timeouts add up and chat
+ * settings come from the latest state.
+ * @param moderators - Host first, as returned by `streamModerators`
+ */
+export const mergeModeration = (
+  events: NostrRelaySignedEvent[],
+  moderators: string[],
+  coordinate: string,
+): StreamModeration => {
+  const host = moderators[0];
+
+  const states = events.
+    filter(e => moderators.includes(e.pubkey) && e.tags.some(t => t[0] === 'd' && t[1] === coordinate)).
+    sort((a, b) => a.created_at - b.created_at).
+    map(e => ({ host: e.pubkey === host, state: moderationFromEvent(e) }));
+
+  const merged = states.reduce<StreamModeration>((acc, { state }) => {
+    const timeouts = { ...acc.timeouts };
+
+    Object.entries(state.timeouts).forEach(([pubkey, timeout]) => {
+      if (!timeouts[pubkey] || timeouts[pubkey].until < timeout.until) {
+        timeouts[pubkey] = timeout;
+      }
+    });
+
+    return {
+      hidden: toggled(acc.hidden, state.hidden, state.unhidden),
+      unhidden: [],
+      banned: toggled(acc.banned, state.banned, state.unbanned),
+      unbanned: [],
+      timeouts,
+      slowMode: state.slowMode,
+      followersOnly: state.followersOnly,
+      pinned: state.pinned,
+      updatedAt: state.updatedAt,
+    };
+  }, emptyStreamModeration());
+
+  const hostState = states.find(s => s.host)?.state;
+
+  if (!hostState) return merged;
+
+  return {
+    ...merged,
+    hidden: toggled(merged.hidden, hostState.hidden, hostState.unhidden),
+    banned: toggled(merged.banned, hostState.banned, hostState.unbanned),
+  };
+};
+
+/**
+ * Drops bans and hides from a moderator's own state that other moderators
+ * have since lifted, so publishing it again doesn't bring them back.
+ */
+export const currentOwnModeration = (own: StreamModeration, merged: StreamModeration): StreamModeration => ({
+  ...own,
+  hidden: own.hidden.filter(id => merged.hidden.includes(id)),
+  unhidden: own.unhidden.filter(id => !merged.hidden.includes(id)),
+  banned: own.banned.filter(pk => merged.banned.includes(pk)),
+  unbanned: own.unbanned.filter(pk => !merged.banned.includes(pk)),
+});
+
+export const applyModerationAction = (state: StreamModeration, action: StreamModerationAction): StreamModeration => {
+  switch (action.type) {
+    case 'hide':
+      return {
+        ...state,
+        hidden: toggled(state.hidden, action.hidden ? [action.id] : [], action.hidden ? [] : [action.id]),
+        unhidden: toggled(state.unhidden, action.hidden ? [] : [action.id], action.hidden ? [action.id] : []),
+      };
+    case 'pin':
+      return { ...state, pinned: action.id };
+    case 'timeout': {
+      const from = now();
+      return { ...state, timeouts: { ...state.timeouts, [action.pubkey]: { from, until: from + action.duration } } };
+    }
+    case 'ban':
+      return {
+        ...state,
+        banned: toggled(state.banned, action.banned ? [action.pubkey] : [], action.banned ? [] : [action.pubkey]),
+        unbanned: toggled(state.unbanned, action.banned ? [] : [action.pubkey], action.banned ? [action.pubkey] : []),
+      };
+    case 'slowMode':
+      return { ...state, slowMode: action.seconds };
+    case 'followersOnly':
+      return { ...state, followersOnly: action.enabled };
+  }
+};
+
+export const sendStreamModeration = async (
+  state: StreamModeration,
+  coordinate: string,
+  shouldProxy: boolean,
+  relays: Relay[],
+  relaySettings?: NostrRelays,
+) => {
+  const time = now();
+
+  // Expired timeouts don't need to be carried over
+  const timeouts = Object.entries(state.timeouts).filter(([_, t]) => t.until > time);
+
+  const event = {
+    kind: Kind.LiveChatModeration,
+    content: '',
+    created_at: time,
+    tags: [
+      ['d', coordinate],
+      ['a', coordinate],
+      ...state.hidden.map(id => ['hide', id]),
+      ...state.unhidden.map(id => ['unhide', id]),
+      ...state.banned.map(pk => ['ban', pk]),
+      ...state.unbanned.map(pk => ['unban', pk]),
+      ...timeouts.map(([pk, t]) => ['timeout', pk, `${t.from}`, `${t.until}`]),
+      ...(state.slowMode > 0 ? [['slow_mode', `${state.slowMode}`]] : []),
+      ...(state.followersOnly ? [['followers_only']] : []),
+      ...(state.pinned ? [['pin', state.pinned]] : []),
+    ],
+  };
+
+  return await sendEvent(event, relays, relaySettings, shouldProxy);
+};
+
+/**
+ * Listens for moderation states of a stream on the user's relays
+ */
+export const subscribeToStreamModeration = (
+  coordinate: string,
+  relays: Relay[],
+  onEvent: (event: NostrRelaySignedEvent) => void,
+) => subscribeOnRelayUrls(
+  relays.map(r => r.url),
+  [{ kinds: [Kind.LiveChatModeration], '#a': [coordinate] }],
+  relays,
+  onEvent,
+);
+
+/**
+ * Whether `follower` follows `pubkey`, according to the cache
+ */
+export const fetchIsFollowing = (follower: string, pubkey: string) =>
+  new Promise<boolean>((resolve) => {
+    const subId = `stream_follower_${follower}_${APP_ID}`;
+    let isFollowing = false;
+
+    const unsub = subsTo(subId, {
+      onEvent: (_, content) => {
+        isFollowing = JSON.parse(content?.content || 'false');
+      },
+      onEose: () => {
+        unsub();
+        resolve(isFollowing);
+      },
+      onNotice: () => {
+        unsub();
+        resolve(false);
+      },
+    });
+
+    sendMessage(JSON.stringify([
+      "REQ",
+      subId,
+      {cache: ["is_user_following", { pubkey: follower, user_pubkey: pubkey }]},
+    ]));
+  });
+
+/**
+ * Chat entries viewers get to see. Moderators' own messages are never filtered.
+ * @param entries - Chat, newest first
+ * @param followsHost - Known follow status of authors, for followers-only chat
+ */
+export const moderateChat = <T extends ChatEntry>(
+  entries: T[],
+  moderation: StreamModeration,
+  moderators: string[],
+  followsHost: Record<string, boolean>,
+) => {
+  const lastShown: Record<string, number> = {};
+
+  const allowed = [...entries].reverse().filter(entry => {
+    const { id = '', pubkey = '', created_at = 0 } = entry;
+
+    if (entry.kind !== Kind.LiveChatMessage || moderators.includes(pubkey)) return true;
+
+    if (moderation.hidden.includes(id) || moderation.banned.includes(pubkey)) return false;
+
+    const timeout = moderation.timeouts[pubkey];
+
+    if (timeout && created_at >= timeout.from && created_at < timeout.until) return false;
+
+    if (moderation.followersOnly && !followsHost[pubkey]) return false;
+
+    const last = lastShown[pubkey];
+
+    if (moderation.slowMode > 0 && last !== undefined && created_at - last < moderation.slowMode) return false;
+
+    lastShown[pubkey] = created_at;
+
+    return true;
+  });
+
+  return allowed.reverse();
+};
+
+/**
+ * Why the user can't post in the chat right now, if they can't
+ */
+export const chatRestriction = (
+  pubkey: string,
+  moderation: StreamModeration,
+  moderators: string[],
+  followsHost: boolean,
+  lastMessageAt?: number,
+) => {
+  if (moderators.includes(pubkey)) return;
+
+  if (moderation.banned.includes(pubkey)) return 'You are banned from this chat';
+
+  const timeout = moderation.timeouts[pubkey];
+  const time = now();
+
+  if (timeout && timeout.until > time) {
+    return `You are timed out for ${Math.ceil((timeout.until - time) / 60)} more minutes`;
+  }
+
+  if (moderation.followersOnly && !followsHost) return 'Only followers of the host can chat';
+
+  if (moderation.slowMode > 0 && lastMessageAt && time - lastMessageAt < moderation.slowMode) {
+    return `Slow mode is on, wait ${moderation.slowMode - (time - lastMessageAt)} seconds`;
+  }
+};
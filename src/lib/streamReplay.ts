@@ -0,0 +1,156 @@
+import { Kind } from "../constants";
+import { NostrEventContent, NostrRelaySignedEvent, NostrUserZaps } from "../types/primal";
+import { Relay } from "./nTools";
+import { fetchFromRelayUrls } from "./relays";
+import { convertToZap } from "./zap";
+
+/**
+ * Replay of an ended live stream's recording. The recording is assumed to
+ * start at the live event's `starts` time, so an event created at
+ * `starts + t` is shown once playback reaches `t` seconds.
+ */
+
+export type ReplayChapter = {
+  offset: number, // seconds from the start of the recording
+  sats: number,
+  zaps: number,
+};
+
+type ReplayEntry = {
+  id?: string,
+  kind: number,
+  created_at?: number,
+  amount?: number,
+  tags?: string[][],
+};
+
+// Zaps are summed over windows of this many seconds to find spikes
+const chapterWindow = 60;
+
+const maxChapters = 8;
+
+// History is loaded newest first in pages of this size, up to `maxHistoryPages` per relay
+const historyPageSize = 500;
+
+const maxHistoryPages = 40;
+
+export const replayWindow = (event: NostrEventContent | undefined) => {
+  const tags = event?.tags || [];
+  const starts = parseInt((tags.find(t => t[0] === 'starts') || [])[1] || '');
+  const ends = parseInt((tags.find(t => t[0] === 'ends') || [])[1] || '');
+
+  return {
+    starts: isNaN(starts) ? undefined : starts,
+    ends: isNaN(ends) ? undefined : ends,
+  };
+};
+
+/**
+ * Chat entries that happened up to the playback position
+ * @param entries - Chat, newest first
+ */
+export const replayedChat = <T extends ReplayEntry>(entries: T[], starts: number, position: number) => {
+  const until = starts + position;
+
+  return entries.filter(e => (e.created_at || 0) <= until);
+};
+
+const zapAmount = (entry: ReplayEntry) => {
+  if (entry.kind === -1) return entry.amount || 0;
+
+  try {
+    return convertToZap(entry as NostrUserZaps).amount;
+  } catch (e) {
+    return 0;
+  }
+};
+
+/**
+ * Marks the moments of the recording where zaps spiked: windows whose total
+ * stands well above the stream's average, keeping the biggest ones
+ */
+export const zapChapters = (entries: ReplayEntry[], starts: number, ends?: number): ReplayChapter[] => {
+  const windows = entries.reduce<Record<number, ReplayChapter>>((acc, e) => {
+    if (e.kind !== Kind.Zap && e.kind !== -1) return acc;
+
+    const time = e.created_at || 0;
+
+    if (time < starts || (ends && time > ends)) return acc;
+
+    const index = Math.floor((time - starts) / chapterWindow);
+    const chapter = acc[index] || { offset: index * chapterWindow, sats: 0, zaps: 0 };
+
+    return {
+      ...acc,
+      [index]: { ...chapter, sats: chapter.sats + zapAmount(e), zaps: chapter.zaps + 1 },
+    };
+  }, {});
+
+  const lastWindow = Math.floor(((ends || 0) - starts) / chapterWindow);
+  const totals = Object.values(windows).map(w => w.sats);
+  const count = Math.max(lastWindow + 1, totals.length);
+
+  if (totals.length === 0) return [];
+
+  const mean = totals.reduce((acc, s) => acc + s, 0) / count;
+  const deviation = Math.sqrt(totals.reduce((acc, s) => acc + (s - mean) ** 2, 0) / count);
+
+  return Object.values(windows).
+    filter(w => w.sats > 0 && w.sats >= mean + 2 * deviation).
+    sort((a, b) => b.sats - a.sats).
+    slice(0, maxChapters).
+    sort((a, b) => a.offset - b.offset);
+};
+
+/**
+ * Pages backwards through one relay's history of the stream, until a page
+ * comes back short or the start of the stream is reached
+ */
+const fetchRelayStreamHistory = async (
+  url: string,
+  coordinate: string,
+  starts: number,
+  ends: number | undefined,
+  relays: Relay[],
+  events: Record<string, NostrRelaySignedEvent>,
+) => {
+  let until = ends;
+
+  for (let page = 0; page < maxHistoryPages; page++) {
+    const batch = await fetchFromRelayUrls(
+      [url],
+      [{
+        kinds: [Kind.LiveChatMessage, Kind.Zap],
+        '#a': [coordinate],
+        since: starts,
+        ...(until ? { until } : {}),
+        limit: historyPageSize,
+      }],
+      relays,
+    );
+
+    batch.forEach(e => { events[e.id] = e; });
+
+    if (batch.length < historyPageSize) return;
+
+    // `until` is inclusive, events sharing the oldest second come again and are deduped by id
+    const oldest = Math.min(...batch.map(e => e.created_at));
+
+    if (oldest <= starts || oldest === until) return;
+
+    until = oldest;
+  }
+};
+
+/**
+ * Chat messages and zaps of the stream from the user's relays, which hold
+ * more of the history than the live feed. Each relay is paged on its own,
+ * since they hold different parts of the history.
+ */
+export const fetchStreamHistory = async (coordinate: string, starts: number, ends: number | undefined, relays: Relay[]) => {
+  const events: Record<string, NostrRelaySignedEvent> = {};
+
+  await Promise.all(relays.map(r => fetchRelayStreamHistory(r.url, coordinate, starts, ends, relays, events)));
+
+  return Object.values(events);
+};
@@ -2,9 +2,11 @@ import { APP_ID } from "../App";
 import { Kind } from "../constants";
 import { emptyMegaFeedPage, pageResolve, updateFeedPage } from "../megaFeeds";
 import { sendMessage, subsTo } from "../sockets";
-import { MegaFeedPage, NostrEventContent } from "../types/primal";
+import { MegaFeedPage, NostrEventContent, NostrRelays, NostrRelaySignedEvent } from "../types/primal";
 import { getEvents } from "./feed";
-import { getReplacableEvent } from "./notes";
+import { generateIdentifier, getReplacableEvent, NostrEvent, sendEvent, sendNote } from "./notes";
+import { nip19, Relay } from "./nTools";
+import { fetchFromRelayUrls } from "./relays";
 
 export type StreamingData = {
   id?: string,
@@ -181,3 +183,167 @@ export const findStreamByHost = async (identifier: string | undefined, host_pubk
     ]));
   })
 }
+
+// LIVE STUDIO ----------------------------------
+
+export type LiveEventStatus = 'planned' | 'live' | 'ended';
+
+export type LiveEventRole = 'Host' | 'Speaker' | 'Moderator' | 'Participant';
+
+export type LiveEventParticipant = {
+  pubkey: string,
+  role: LiveEventRole,
+  relay?: string,
+};
+
+export type LiveEventDraft = {
+  identifier: string,
+  title: string,
+  summary: string,
+  image: string,
+  hashtags: string[],
+  streaming: string,
+  recording: string,
+  starts?: number,
+  ends?: number,
+  status: LiveEventStatus,
+  participants: LiveEventParticipant[],
+};
+
+export const liveEventRoles: LiveEventRole[] = ['Host', 'Speaker', 'Moderator', 'Participant'];
+
+// Statuses a live event can move to from each status
+export const liveEventTransitions: Record<LiveEventStatus, LiveEventStatus[]> = {
+  planned: ['live', 'ended'],
+  live: ['ended'],
+  ended: [],
+};
+
+export const emptyLiveEventDraft = (host: string): LiveEventDraft => ({
+  identifier: '',
+  title: '',
+  summary: '',
+  image: '',
+  hashtags: [],
+  streaming: '',
+  recording: '',
+  status: 'planned',
+  participants: [{ pubkey: host, role: 'Host' }],
+});
+
+const tagValue = (tags: string[][], name: string) => (tags.find(t => t[0] === name) || [])[1];
+
+const liveEventRoleOf = (role: string | undefined): LiveEventRole =>
+  liveEventRoles.find(r => r.toLowerCase() === (role || '').toLowerCase()) || 'Participant';
+
+const liveEventStatusOf = (status: string | undefined): LiveEventStatus =>
+  status === 'live' || status === 'ended' ? status : 'planned';
+
+export const liveEventDraftFromEvent = (event: NostrEventContent | NostrRelaySignedEvent): LiveEventDraft => {
+  const tags = event.tags || [];
+  const starts = parseInt(tagValue(tags, 'starts') || '');
+  const ends = parseInt(tagValue(tags, 'ends') || '');
+
+  return {
+    identifier: tagValue(tags, 'd') || '',
+    title: tagValue(tags, 'title') || '',
+    summary: tagValue(tags, 'summary') || '',
+    image: tagValue(tags, 'image') || '',
+    hashtags: tags.filter(t => t[0] === 't').map(t => t[1]),
+    streaming: tagValue(tags, 'streaming') || '',
+    recording: tagValue(tags, 'recording') || '',
+    starts: isNaN(starts) ? undefined : starts,
+    ends: isNaN(ends) ? undefined : ends,
+    status: liveEventStatusOf(tagValue(tags, 'status')),
+    participants: tags.filter(t => t[0] === 'p').map(t => ({
+      pubkey: t[1],
+      relay: t[2] || undefined,
+      role: liveEventRoleOf(t[3]),
+    })),
+  };
+};
+
+/**
+ * Moves the draft to a new status, stamping the start or end time
+ */
+export const transitionLiveEvent = (draft: LiveEventDraft, status: LiveEventStatus): LiveEventDraft => {
+  const now = Math.floor(Date.now() / 1_000);
+
+  if (status === 'live') {
+    return { ...draft, status, starts: draft.starts && draft.starts <= now ? draft.starts : now, ends: undefined };
+  }
+
+  if (status === 'ended') {
+    return { ...draft, status, ends: now };
+  }
+
+  return { ...draft, status };
+};
+
+export const liveEventFromDraft = (draft: LiveEventDraft, time = Math.floor(Date.now() / 1_000)): NostrEvent => {
+  const identifier = draft.identifier || `${generateIdentifier(draft.title) || 'stream'}-${time}`;
+
+  const optional = (name: string, value: string | number | undefined) =>
+    value === undefined || value === '' ? [] : [[name, `${value}`]];
+
+  return {
+    kind: Kind.LiveEvent,
+    content: '',
+    created_at: time,
+    tags: [
+      ['d', identifier],
+      ...optional('title', draft.title),
+      ...optional('summary', draft.summary),
+      ...optional('image', draft.image),
+      ...optional('streaming', draft.streaming),
+      ...optional('recording', draft.recording),
+      ...optional('starts', draft.starts),
+      ...optional('ends', draft.ends),
+      ['status', draft.status],
+      ...draft.hashtags.map(t => ['t', t]),
+      ...draft.participants.map(p => ['p', p.pubkey, p.relay || '', p.role]),
+    ],
+  };
+};
+
+export const sendLiveEvent = async (draft: LiveEventDraft, shouldProxy: boolean, relays: Relay[], relaySettings?: NostrRelays) => {
+  return await sendEvent(liveEventFromDraft(draft), relays, relaySettings, shouldProxy);
+};
+
+export const liveEventAddress = (event: NostrRelaySignedEvent) => {
+  const identifier = tagValue(event.tags, 'd') || '';
+
+  return {
+    coordinate: `${Kind.LiveEvent}:${event.pubkey}:${identifier}`,
+    naddr: nip19.naddrEncode({ kind: Kind.LiveEvent, pubkey: event.pubkey, identifier }),
+  };
+};
+
+/**
+ * Posts a note to the host's followers linking to the live event
+ */
+export const announceLiveEvent = async (text: string, event: NostrRelaySignedEvent, shouldProxy: boolean, relays: Relay[], relaySettings?: NostrRelays) => {
+  const { coordinate, naddr } = liveEventAddress(event);
+
+  return await sendNote(`${text}\n\nnostr:${naddr}`, shouldProxy, relays, [['a', coordinate, '', 'mention']], relaySettings);
+};
+
+/**
+ * Live events published by the host, newest version of each
+ */
+export const fetchHostLiveEvents = async (host: string, relays: Relay[]) => {
+  const events = await fetchFromRelayUrls(
+    relays.map(r => r.url),
+    [{ kinds: [Kind.LiveEvent], authors: [host] }],
+    relays,
+  );
+
+  const latest = events.reduce<Record<string, NostrRelaySignedEvent>>((acc, event) => {
+    const id = tagValue(event.tags, 'd') || '';
+    const known = acc[id];
+
+    return !known || known.created_at < event.created_at ? { ...acc, [id]: event } : acc;
+  }, {});
+
+  return Object.values(latest).sort((a, b) => b.created_at - a.created_at);
+};
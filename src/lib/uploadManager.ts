@@ -0,0 +1,544 @@
+import { createStore, unwrap } from "solid-js/store";
+import { BlobDescriptor, BlossomClient, fetchWithTimeout } from "blossom-client-sdk";
+import {
+  Kind,
+  primalBlossom,
+  uploadChunkAttempts,
+  uploadChunkSize,
+  uploadChunkTimeout,
+  uploadConcurrency,
+  uploadLimit,
+  uploadRetention,
+} from "../constants";
+import { MediaMeta, NostrEOSE, NostrEvent, NostrEventContent, NostrEventType, NostrMediaUploaded, UploadJob } from "../types/primal";
+import { uploadServer } from "../uploadSocket";
+import { encodeAuthorizationHeader, sha256, uuidv4 } from "../utils";
+import { openDatabase, withStore } from "./idb";
+import { logInfo, logWarning } from "./logger";
+import { uploadMediaCancel, uploadMediaChunk, uploadMediaConfirm } from "./media";
+import { signEvent } from "./nostrAPI";
+
+/**
+ * Background upload queue.
+ *
+ * Files going to Primal's server are sent in chunks over the upload socket,
+ * so an interrupted upload continues from the last chunk the server confirmed.
+ * Other Blossom servers take a file in a single request, so those start over.
+ * Jobs and their files are kept in IndexedDB until the uploaded url is used,
+ * which lets uploads survive a page reload.
+ */
+
+const MB = 1024 * 1024;
+
+export type UploadOptions = {
+  owner: string,
+  uploader: string,
+  servers: string[],
+  membershipTier?: string,
+  meta?: MediaMeta,
+  posterFor?: string,
+};
+
+export const [uploadQueue, setUploadQueue] = createStore<Record<string, UploadJob>>({});
+
+// Files of unfinished uploads
+const files: Record<string, File> = {};
+
+// Stops the transfer currently running for an upload
+const aborts: Record<string, () => void> = {};
+
+let listeningForNetwork = false;
+
+const database = () => openDatabase('primal_uploads', 1, (db) => {
+  if (!db.objectStoreNames.contains('uploads')) {
+    db.createObjectStore('uploads', { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains('files')) {
+    db.createObjectStore('files');
+  }
+});
+
+const persist = (id: string) => {
+  const job = uploadQueue[id];
+
+  if (!job) return;
+
+  const copy = JSON.parse(JSON.stringify(unwrap(job)));
+
+  withStore(database(), 'uploads', 'readwrite', store => store.put(copy)).
+    catch(e => logWarning('Failed to persist upload: ', e));
+};
+
+const persistFile = (id: string, file: File) => {
+  withStore(database(), 'files', 'readwrite', store => store.put(file, id)).
+    catch(e => logWarning('Failed to persist upload file: ', e));
+};
+
+const forgetFile = (id: string) => {
+  delete files[id];
+
+  withStore(database(), 'files', 'readwrite', store => store.delete(id)).
+    catch(e => logWarning('Failed to remove upload file: ', e));
+};
+
+const forget = (id: string) => {
+  forgetFile(id);
+
+  withStore(database(), 'uploads', 'readwrite', store => store.delete(id)).
+    catch(e => logWarning('Failed to remove upload: ', e));
+};
+
+const updateJob = (id: string, changes: Partial<UploadJob>) => {
+  if (!uploadQueue[id]) return;
+
+  setUploadQueue(id, () => changes);
+  persist(id);
+};
+
+export const uploadSizeLimit = (server: string, membershipTier?: string) => {
+  if (server !== primalBlossom) return;
+
+  if (membershipTier === 'premium') return uploadLimit.premium;
+  if (membershipTier === 'premium-legend') return uploadLimit.premiumLegend;
+
+  return uploadLimit.regular;
+};
+
+/**
+ * Copies an uploaded blob to the user's other Blossom servers
+ */
+export const mirrorUpload = async (blob: BlobDescriptor, mirrors: string[]) => {
+  if (mirrors.length === 0) return;
+
+  const auth = await BlossomClient.createUploadAuth(signEvent, blob.sha256, { message: 'media upload mirroring'});
+
+  await Promise.all(mirrors.map(server =>
+    BlossomClient.mirrorBlob(server, blob, { auth }).
+      catch(() => logWarning('Failed to mirror to: ', server))
+  ));
+};
+
+// CHUNKED UPLOADS ------------------------------
+
+const openUploadSocket = () => new Promise<WebSocket>((resolve, reject) => {
+  const socket = new WebSocket(uploadServer);
+
+  socket.addEventListener('open', () => resolve(socket), { once: true });
+  socket.addEventListener('error', () => reject('connection_lost'), { once: true });
+});
+
+/**
+ * Sends a request over the upload socket and waits for the server's answer.
+ * Resolves with the uploaded media event if the server sent one.
+ */
+const uploadRequest = (socket: WebSocket, subId: string, send: () => Promise<boolean>) =>
+  new Promise<NostrMediaUploaded | undefined>((resolve, reject) => {
+    let uploaded: NostrMediaUploaded | undefined;
+
+    const done = (finish: () => void) => {
+      clearTimeout(timer);
+      socket.removeEventListener('message', onMessage);
+      socket.removeEventListener('close', onClose);
+      finish();
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      const message: NostrEvent | NostrEOSE = JSON.parse(event.data);
+      const [type, subscriptionId, content] = message as [NostrEventType, string, NostrEventContent | undefined];
+
+      if (subscriptionId !== subId) return;
+
+      if (type === 'EVENT' && content?.kind === Kind.Uploaded) {
+        uploaded = content as NostrMediaUploaded;
+      }
+
+      if (type === 'EOSE') done(() => resolve(uploaded));
+
+      if (type === 'NOTICE') done(() => reject('upload_rejected'));
+    };
+
+    const onClose = () => done(() => reject('connection_lost'));
+
+    const timer = setTimeout(() => done(() => reject('connection_lost')), uploadChunkTimeout);
+
+    socket.addEventListener('message', onMessage);
+    socket.addEventListener('close', onClose);
+
+    send().then(sent => !sent && done(() => reject('signing_failed')));
+  });
+
+const readChunk = (chunk: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+
+  reader.readAsDataURL(chunk);
+});
+
+const uploadChunked = async (id: string, file: File): Promise<BlobDescriptor> => {
+  const { uploader, uploadId, chunkSize } = uploadQueue[id];
+
+  const socket = await openUploadSocket();
+  let isAborted = false;
+
+  aborts[id] = () => {
+    isAborted = true;
+    socket.close();
+  };
+
+  try {
+    const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+
+    for (let index = 0; index < chunkCount; index++) {
+      if (isAborted) throw('cancelled');
+
+      if (uploadQueue[id]?.uploadedChunks.includes(index)) continue;
+
+      const offset = index * chunkSize;
+      const data = await readChunk(file.slice(offset, offset + chunkSize));
+      const subId = `up_${index}_${uploadId}`;
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await uploadRequest(socket, subId, () =>
+            uploadMediaChunk(uploader, subId, uploadId, data, offset, file.size, socket, index)
+          );
+          break;
+        } catch (reason) {
+          // A dropped connection pauses the whole upload, the server refusing a chunk is worth a retry
+          if (reason !== 'upload_rejected' || attempt >= uploadChunkAttempts) throw(reason);
+        }
+      }
+
+      const uploadedChunks = [...(uploadQueue[id]?.uploadedChunks || []), index];
+
+      // The last percent is left for the server to confirm the upload
+      updateJob(id, { uploadedChunks, progress: Math.floor(99 * uploadedChunks.length / chunkCount) });
+    }
+
+    const fileSha = uploadQueue[id]?.sha256 || await sha256(file);
+    const subId = `up_comp_${uploadId}`;
+
+    const uploaded = await uploadRequest(socket, subId, () =>
+      uploadMediaConfirm(uploader, subId, uploadId, file.size, fileSha, socket)
+    );
+
+    if (!uploaded?.content) throw('upload_rejected');
+
+    return {
+      url: uploaded.content,
+      sha256: fileSha,
+      size: file.size,
+      type: file.type,
+      uploaded: Math.floor(Date.now() / 1_000),
+    };
+  } finally {
+    socket.close();
+  }
+};
+
+const cancelOnServer = async (job: UploadJob) => {
+  try {
+    const socket = await openUploadSocket();
+
+    await uploadMediaCancel(job.uploader, `up_c_${job.uploadId}`, job.uploadId, socket);
+
+    socket.close();
+  } catch (e) {
+    logWarning('Failed to cancel upload on the server: ', e);
+  }
+};
+
+// BLOSSOM UPLOADS ------------------------------
+
+/**
+ * Prefers the server's media endpoint, which optimizes what it gets,
+ * and falls back to the plain upload endpoint
+ */
+const findUploadEndpoint = async (server: string, file: File, headers: Record<string, string>) => {
+  const base = server.endsWith('/') ? server : `${server}/`;
+
+  let checkHeaders: Record<string, string> = {
+    ...headers,
+    "X-Content-Length": `${file.size}`,
+  };
+
+  if (file.type) checkHeaders["X-Content-Type"] = file.type;
+
+  for (let endpoint of ['media', 'upload']) {
+    try {
+      const check = await fetchWithTimeout(`${base}${endpoint}`, {
+        method: "HEAD",
+        headers: checkHeaders,
+        timeout: 3_000,
+      });
+
+      if (check.status === 200) return `${base}${endpoint}`;
+    } catch (e) {
+      logWarning('Failed media upload check: ', e);
+    }
+  }
+
+  throw(navigator.onLine ? `Failed to upload to ${server}` : 'connection_lost');
+};
+
+const uploadToBlossom = async (id: string, file: File) => {
+  const server = uploadQueue[id].servers[0];
+
+  const auth = await BlossomClient.createUploadAuth(signEvent, file, { message: 'media upload' });
+  const fileSha = uploadQueue[id]?.sha256 || await sha256(file);
+
+  const headers = {
+    "X-SHA-256": fileSha,
+    "Authorization": encodeAuthorizationHeader(auth),
+    'Content-Type': file.type,
+  };
+
+  const uploadUrl = await findUploadEndpoint(server, file, headers);
+
+  return await new Promise<BlobDescriptor>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    aborts[id] = () => xhr.abort();
+
+    xhr.open('PUT', uploadUrl, true);
+
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.addEventListener('progress', (e: ProgressEvent) => {
+      if (!e.lengthComputable) return;
+
+      setUploadQueue(id, 'progress', () => Math.floor(99 * e.loaded / e.total));
+    });
+
+    xhr.addEventListener('load', () => {
+      if (xhr.status >= 300) {
+        reject(xhr.statusText || 'Error while uploading. Check your media server settings.');
+        return;
+      }
+
+      try {
+        resolve(JSON.parse(xhr.responseText || '{}'));
+      } catch (e) {
+        reject('invalid_response');
+      }
+    });
+
+    xhr.addEventListener('error', () => reject('connection_lost'));
+    xhr.addEventListener('abort', () => reject('cancelled'));
+
+    xhr.send(file);
+  });
+};
+
+// QUEUE ----------------------------------------
+
+const runUpload = async (id: string) => {
+  const job = uploadQueue[id];
+  const file = files[id];
+
+  if (!job || !file) return;
+
+  updateJob(id, { status: 'uploading', error: undefined });
+
+  try {
+    if (!job.sha256) {
+      updateJob(id, { sha256: await sha256(file) });
+    }
+
+    const blob = job.transport === 'chunked' ?
+      await uploadChunked(id, file) :
+      await uploadToBlossom(id, file);
+
+    // Cancelled while finishing up
+    if (!uploadQueue[id]) return;
+
+    // Servers may optimize what they get, the stored blob is what the url serves
+    const meta = job.meta && { ...job.meta, x: blob.sha256 || job.meta.x, size: blob.size || job.meta.size };
+
+    updateJob(id, { status: 'done', progress: 100, url: blob.url, meta });
+    forgetFile(id);
+
+    mirrorUpload(blob, job.servers.slice(1));
+  } catch (reason) {
+    if (!uploadQueue[id] || reason === 'cancelled') return;
+
+    const isOffline = reason === 'connection_lost' || !navigator.onLine;
+
+    logWarning('Upload interrupted: ', job.name, reason);
+
+    updateJob(id, { status: isOffline ? 'paused' : 'failed', error: `${reason}` });
+  } finally {
+    delete aborts[id];
+    processQueue();
+  }
+};
+
+const processQueue = () => {
+  const jobs = Object.values(uploadQueue);
+  const running = jobs.filter(j => j.status === 'uploading').length;
+
+  jobs.
+    filter(j => j.status === 'queued' && files[j.id]).
+    sort((a, b) => a.createdAt - b.createdAt).
+    slice(0, Math.max(0, uploadConcurrency - running)).
+    forEach(job => runUpload(job.id));
+};
+
+const resumePaused = () => {
+  Object.values(uploadQueue).forEach((job) => {
+    if (job.status === 'paused' && files[job.id]) {
+      updateJob(job.id, { status: 'queued' });
+    }
+  });
+
+  processQueue();
+};
+
+const listenForNetwork = () => {
+  if (listeningForNetwork) return;
+
+  listeningForNetwork = true;
+
+  window.addEventListener('online', () => {
+    logInfo('Back online, resuming uploads');
+    resumePaused();
+  });
+};
+
+/**
+ * Adds a file to the queue and returns the id of its upload.
+ * Files over the server's size limit fail right away with `file_too_big_<limit>`.
+ */
+export const enqueueUpload = (file: File, options: UploadOptions) => {
+  const servers = options.servers.length > 0 ? options.servers : [primalBlossom];
+  const limit = uploadSizeLimit(servers[0], options.membershipTier);
+  const id = uuidv4();
+
+  const job: UploadJob = {
+    id,
+    owner: options.owner,
+    uploader: options.uploader,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    servers,
+    transport: servers[0] === primalBlossom ? 'chunked' : 'blossom',
+    uploadId: uuidv4(),
+    chunkSize: uploadChunkSize,
+    uploadedChunks: [],
+    progress: 0,
+    status: 'queued',
+    meta: options.meta,
+    posterFor: options.posterFor,
+    createdAt: Date.now(),
+  };
+
+  if (limit && file.size > MB * limit) {
+    setUploadQueue(id, () => ({ ...job, status: 'failed', error: `file_too_big_${limit}` }));
+    return id;
+  }
+
+  files[id] = file;
+
+  setUploadQueue(id, () => job);
+  persist(id);
+  persistFile(id, file);
+
+  listenForNetwork();
+  processQueue();
+
+  return id;
+};
+
+export const retryUpload = (id: string) => {
+  const job = uploadQueue[id];
+
+  if (!job || !files[id] || !['failed', 'paused'].includes(job.status)) return;
+
+  // The server turned the upload down, so start a fresh one
+  if (job.status === 'failed') {
+    updateJob(id, { uploadId: uuidv4(), uploadedChunks: [], progress: 0 });
+  }
+
+  updateJob(id, { status: 'queued', error: undefined });
+  processQueue();
+};
+
+export const removeUpload = (id: string) => {
+  setUploadQueue(id, undefined!);
+  forget(id);
+};
+
+export const cancelUpload = (id: string) => {
+  const job = uploadQueue[id];
+
+  if (!job) return;
+
+  aborts[id] && aborts[id]();
+
+  if (job.transport === 'chunked' && job.uploadedChunks.length > 0 && job.status !== 'done') {
+    cancelOnServer(job);
+  }
+
+  removeUpload(id);
+  processQueue();
+};
+
+export const ownerUploads = (owner: string) =>
+  Object.values(uploadQueue).
+    filter(j => j.owner === owner).
+    sort((a, b) => a.createdAt - b.createdAt);
+
+export const hasPendingUploads = (owner: string) =>
+  ownerUploads(owner).some(j => j.status !== 'done' && j.status !== 'failed');
+
+/**
+ * Loads the user's uploads saved by previous sessions and continues the
+ * unfinished ones. Uploads nobody picked up are dropped after a day.
+ */
+export const resumeUploads = async (uploader: string) => {
+  let jobs: UploadJob[] = [];
+
+  try {
+    jobs = await withStore(database(), 'uploads', 'readonly', store => store.getAll());
+  } catch (e) {
+    logWarning('Failed to read the upload queue: ', e);
+    return;
+  }
+
+  const now = Date.now();
+
+  for (let job of jobs) {
+    if (job.uploader !== uploader || uploadQueue[job.id]) continue;
+
+    if (now - job.createdAt > uploadRetention) {
+      forget(job.id);
+      continue;
+    }
+
+    if (job.status !== 'done') {
+      try {
+        const file = await withStore<File | undefined>(database(), 'files', 'readonly', store => store.get(job.id));
+
+        if (!file) {
+          forget(job.id);
+          continue;
+        }
+
+        files[job.id] = file;
+      } catch (e) {
+        logWarning('Failed to read upload file: ', e);
+        continue;
+      }
+    }
+
+    const status = ['uploading', 'paused'].includes(job.status) ? 'queued' : job.status;
+
+    setUploadQueue(job.id, () => ({ ...job, status }));
+  }
+
+  listenForNetwork();
+  processQueue();
+};
@@ -1,8 +1,6 @@
 import { APP_ID } from "../App";
 import { Kind } from "../constants";
-import { logInfo } from "./logger";
-import { Relay, relayInit } from "./nTools";
-import { decrypt, signEvent } from "./nostrAPI";
+import { signEvent } from "./nostrAPI";
 import { sendMessage, subTo } from "./sockets";
 
 
@@ -169,49 +167,3 @@ export const decodeNWCUri = (uri: string) => {
 
   return res;
 };
-
-export const sendNWCInfoEvent = async (nwcConfig: NWCConfig) => {
-  let relays: Relay[] = [];
-  let relayConnections = []
-
-  for (let i = 0; i < nwcConfig.relays.length; i++) {
-    const relayUri = nwcConfig.relays[i];
-
-    const relay = relayInit(relayUri);
-
-    relay.connect().then(() => {
-      const sub = relay.subscribe([{ kinds: [13194], authors: [nwcConfig.pubkey]}], {
-        onevent(event) {
-          logInfo('GOT EVENT: ', event);
-        },
-        oneose() {
-          sub.close();
-          relay.close();
-        }
-      })
-    });
-  }
-};
-
-export const sendNWCPayInvoice = async (nwcConfig: NWCConfig, invoice: string) => {
-  let relays: Relay[] = [];
-  let relayConnections = []
-
-  for (let i = 0; i < nwcConfig.relays.length; i++) {
-    const relayUri = nwcConfig.relays[i];
-
-    const relay = relayInit(relayUri);
-
-    relay.connect().then(() => {
-      const sub = relay.subscribe([{ kinds: [13194], authors: [nwcConfig.pubkey]}], {
-        onevent(event) {
-          logInfo('GOT EVENT: ', event);
-        },
-        oneose() {
-          sub.close();
-          relay.close();
-        }
-      })
-    });
-  }
-};
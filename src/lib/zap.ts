@@ -1,17 +1,29 @@
 import { bech32 } from "@scure/base";
-import { nip04, nip19, nip47, nip57, Relay, relayInit, utils } from "../lib/nTools";
+import { nip19, nip57, Relay, utils } from "../lib/nTools";
 import { Tier } from "../components/SubscribeToAuthorModal/SubscribeToAuthorModal";
 import { Kind } from "../constants";
-import { MegaFeedPage, NostrRelaySignedEvent, NostrUserZaps, PrimalArticle, PrimalDVM, PrimalNote, PrimalUser, PrimalZap, TopZap } from "../types/primal";
+import { MegaFeedPage, NostrRelaySignedEvent, NostrUserZaps, NostrWindow, PrimalArticle, PrimalDVM, PrimalNote, PrimalUser, PrimalZap, TopZap, ZapRouteAttempt, ZapSplit, ZapSplitResult, ZapWallet } from "../types/primal";
 import { logError, logWarning } from "./logger";
-import { decrypt, enableWebLn, encrypt, sendPayment, signEvent } from "./nostrAPI";
-import { decodeNWCUri } from "./wallet";
-import { hexToBytes, parseBolt11 } from "../utils";
+import { enableWebLn, encrypt, sendPayment, signEvent } from "./nostrAPI";
+import { nwcConfigOf, nwcPayInvoice } from "./nwc";
+import { parseBolt11 } from "../utils";
 import { convertToUser } from "../stores/profile";
 import { StreamingData } from "./streaming";
+import { outboxReadRelays } from "./outbox";
+import { logZapRoute, zapRoute, zapRoutingPolicy } from "./zapRouting";
+import { fetchUserProfile } from "../handleNotes";
+import { APP_ID } from "../App";
+import { userName } from "../stores/profile";
+import { isSpendNotConfirmed } from "./spark/sparkSpendingGuard";
 
 export let lastZapError: string = "";
 
+// The user turned down the last payment, nothing else should be tried
+let zapRefused = false;
+
+// Per recipient outcome of the last split zap, empty when the last zap wasn't split
+export let lastZapSplits: ZapSplitResult[] = [];
+
 export const zapOverBreez = async (invoice: string, recipientPubkey?: string): Promise<boolean> => {
   try {
     const { breezWallet } = await import('./breezWalletService');
@@ -71,6 +83,11 @@ export const zapOverBreez = async (invoice: string, recipientPubkey?: string): P
       return false;
     }
   } catch (error: any) {
+    // Nothing left the wallet, e.g. when the spending guard was cancelled
+    (window as any).__sparkWalletContext?.actions.clearPendingPayment();
+
+    if (isSpendNotConfirmed(error)) throw(error);
+
     logError('Failed Breez payment: ', error);
     console.error('Failed Breez payment: ', error);
     lastZapError = error?.message || 'Unknown Breez payment error';
@@ -78,84 +95,257 @@ export const zapOverBreez = async (invoice: string, recipientPubkey?: string): P
   }
 };
 
-export const zapOverNWC = async (pubkey: string, nwcEnc: string, invoice: string) => {
-  let promises: Promise<boolean>[] = [];
-  let relays: Relay[] = [];
-  let result: boolean = false;
+export const zapOverNWC = async (pubkey: string, nwc: string[], invoice: string) => {
   try {
-    const nwc = await decrypt(pubkey, nwcEnc);
+    const [name, nwcEnc] = nwc;
 
-    const nwcConfig = decodeNWCUri(nwc);
+    const nwcConfig = await nwcConfigOf(pubkey, nwcEnc);
 
-    const request = await nip47.makeNwcRequestEvent(nwcConfig.pubkey, hexToBytes(nwcConfig.secret), invoice)
+    await nwcPayInvoice(name, nwcConfig, invoice);
 
-    if (nwcConfig.relays.length === 0) return false;
+    return true;
+  }
+  catch (e: any) {
+    logError('Failed NWC payment: ', e);
+    lastZapError = e;
+    return false;
+  }
+};
 
-    for (let i = 0; i < nwcConfig.relays.length; i++) {
-      const relay = relayInit(nwcConfig.relays[i]);
+const legacyZapWallet = (nwc?: string[], walletType?: 'nwc' | 'breez' | null): ZapWallet => {
+  if (walletType === 'breez') return 'breez';
 
-      promises.push(new Promise(async (resolve) => {
-        await relay.connect();
+  return nwc && nwc[1] && nwc[1].length > 0 ? 'nwc' : 'webln';
+};
 
-        relays.push(relay);
+const availableZapWallets = async (amount: number, nwc?: string[]) => {
+  let wallets: ZapWallet[] = [];
 
-        const subInfo = relay.subscribe(
-          [{ kinds: [13194], authors: [nwcConfig.pubkey] }],
-          {
-            onevent(event) {
-              const nwcInfo = event.content.split(' ');
-              if (nwcInfo.includes('pay_invoice')) {
+  try {
+    const { breezWallet } = await import('./breezWalletService');
 
-                const subReq = relay.subscribe(
-                  [{ kinds: [23195], ids: [request.id] }],
-                  {
-                    async onevent(eventResponse) {
-                      if (!eventResponse.tags.find(t => t[0] === 'e' && t[1] === request.id)) return;
+    // Spark can't pay without enough balance, skip it instead of failing
+    if (breezWallet.isConnected() && await breezWallet.getBalance() >= amount) {
+      wallets.push('breez');
+    }
+  } catch (e) {
+    logWarning('Failed to check Spark balance: ', e);
+  }
 
-                      const decoded = await nip04.decrypt(hexToBytes(nwcConfig.secret), nwcConfig.pubkey, eventResponse.content);
-                      const content = JSON.parse(decoded);
+  if (nwc && nwc[1] && nwc[1].length > 0) {
+    wallets.push('nwc');
+  }
 
-                      if (content.error) {
-                        logError('Failed NWC payment: ', content.error);
-                        console.error('Failed NWC payment: ', content.error);
-                        subReq.close();
-                        subInfo.close();
-                        resolve(false);
-                        return;
-                      }
+  if ((window as NostrWindow).webln) {
+    wallets.push('webln');
+  }
 
-                      subReq.close();
-                      subInfo.close();
-                      resolve(true);
+  return wallets;
+};
 
-                    },
-                  },
-                );
+const payOver = async (wallet: ZapWallet, invoice: string, sender: string, recipient?: string, nwc?: string[]) => {
+  switch (wallet) {
+    case 'breez':
+      return await zapOverBreez(invoice, recipient);
+    case 'nwc':
+      return nwc ? await zapOverNWC(sender, nwc, invoice) : false;
+    case 'webln':
+      await enableWebLn();
+      await sendPayment(invoice);
+      return true;
+  }
+};
 
-                relay.publish(request);
-              }
-            },
-          },
-        );
-      }));
-    }
+/**
+ * Pays a zap invoice through the wallets picked by the routing policy, falling back
+ * to the next one on failure if the policy allows it. Without a policy the active
+ * wallet pays, as before. Either way the outcome goes to the routing log.
+ */
+export const payZapInvoice = async (
+  invoice: string,
+  sender: string,
+  recipient?: string,
+  nwc?: string[],
+  walletType?: 'nwc' | 'breez' | null,
+) => {
+  const amount = Math.floor(parseBolt11(invoice) || 0);
+
+  const route = zapRoutingPolicy.enabled ?
+    zapRoute(amount, await availableZapWallets(amount, nwc)) :
+    [legacyZapWallet(nwc, walletType)];
 
-    result = await Promise.any(promises);
+  let attempts: ZapRouteAttempt[] = [];
+
+  zapRefused = false;
+
+  if (route.length === 0) {
+    lastZapError = 'No wallet can pay this zap';
   }
-  catch (e: any) {
-    logError('Failed NWC payment init: ', e);
-    console.error('Failed NWC payment init: ', e)
-    lastZapError = e;
-    result = false;
+
+  for (const wallet of route) {
+    lastZapError = '';
+
+    let success = false;
+
+    try {
+      success = await payOver(wallet, invoice, sender, recipient, nwc);
+    } catch (e: any) {
+      lastZapError = e?.message || `${e}`;
+      zapRefused = isSpendNotConfirmed(e);
+    }
+
+    if (success) {
+      logZapRoute({ at: Date.now(), amount, recipient, wallet, attempts: [ ...attempts, { wallet } ] });
+      return true;
+    }
+
+    attempts.push({ wallet, error: lastZapError || 'Payment failed' });
+
+    // A payment the user refused must not go out through another wallet
+    if (zapRefused || !zapRoutingPolicy.fallback) break;
   }
 
-  for (let i = 0; i < relays.length; i++) {
-    const relay = relays[i];
-    relay.close();
+  logZapRoute({ at: Date.now(), amount, recipient, attempts });
+
+  return false;
+};
+
+// Zap receipts should also land on the recipient's read relays
+const zapReceiptRelays = async (relays: Relay[], recipient: string) => {
+  const urls = relays.map(r => r.url);
+
+  return [ ...urls, ...(await outboxReadRelays([recipient], urls)) ];
+};
+
+/**
+ * Reads NIP-57 `zap` tags. Tags without a weight get none, unless no tag has one,
+ * in which case the zap is split equally.
+ */
+export const zapSplits = (tags: string[][]): ZapSplit[] => {
+  const zapTags = tags.filter(t => t[0] === 'zap' && /^[0-9a-f]{64}$/.test(t[1] || ''));
+  const hasWeights = zapTags.some(t => (t[3] || '').length > 0);
+
+  return zapTags.
+    map(t => ({
+      pubkey: t[1],
+      relay: t[2] || undefined,
+      weight: hasWeights ? parseFloat(t[3]) || 0 : 1,
+    })).
+    filter(s => s.weight > 0);
+};
+
+export const zapSplitTags = (splits: ZapSplit[], relay = '') =>
+  splits.
+    filter(s => s.weight > 0).
+    map(s => ['zap', s.pubkey, s.relay || relay, `${s.weight}`]);
+
+/**
+ * Divides `amount` sats by weight. Rounding leftovers go to the biggest share
+ * and recipients whose share rounds down to nothing are dropped.
+ */
+export const splitZapAmount = (amount: number, splits: ZapSplit[]) => {
+  const total = splits.reduce((acc, s) => acc + s.weight, 0);
+
+  if (total <= 0) return [];
+
+  let amounts = splits.map(s => Math.floor(amount * s.weight / total));
+
+  const biggest = amounts.indexOf(Math.max(...amounts));
+  amounts[biggest] += amount - amounts.reduce((acc, a) => acc + a, 0);
+
+  return splits.
+    map((s, i) => ({ ...s, amount: amounts[i] })).
+    filter(s => s.amount > 0);
+};
+
+const fetchZapInvoice = async (callback: string, msats: number, zapReq: any) => {
+  const signedEvent = await signEvent(zapReq);
+
+  const event = encodeURIComponent(JSON.stringify(signedEvent));
+
+  const r2 = await (await fetch(`${callback}?amount=${msats}&nostr=${event}`)).json();
+
+  if (!r2.pr) throw(r2.reason || 'no_invoice');
+
+  return r2.pr as string;
+};
+
+/**
+ * Zaps every recipient of a split its share, with one zap request each.
+ * Invoices are fetched together, then paid one by one from the active wallet.
+ * Succeeds if at least one recipient was paid, `lastZapSplits` has the details.
+ */
+const zapSplit = async (
+  splits: ZapSplit[],
+  eventId: string,
+  coordinate: string | undefined,
+  sender: string,
+  amount: number,
+  comment: string,
+  relays: Relay[],
+  nwc?: string[],
+  walletType?: 'nwc' | 'breez' | null,
+) => {
+  const shares = splitZapAmount(amount, splits);
+
+  lastZapSplits = shares.map(s => ({ pubkey: s.pubkey, amount: s.amount, success: false }));
+
+  const invoices = await Promise.all(shares.map(async (share, index) => {
+    try {
+      const user = await fetchUserProfile(sender, share.pubkey, `zap_split_${share.pubkey}_${APP_ID}`);
+
+      lastZapSplits[index].name = userName(user);
+
+      const callback = await getZapEndpoint(user);
+
+      if (!callback) throw('Recipient can\'t receive zaps');
+
+      const msats = share.amount * 1000;
+
+      const zapReq = nip57.makeZapRequest({
+        profile: share.pubkey,
+        event: eventId,
+        amount: msats,
+        comment,
+        relays: await zapReceiptRelays(relays, share.pubkey),
+      });
+
+      if (coordinate) {
+        zapReq.tags.push(['a', coordinate]);
+      }
+
+      return await fetchZapInvoice(callback, msats, zapReq);
+    } catch (reason) {
+      logWarning('Failed to get split zap invoice: ', share.pubkey, reason);
+      lastZapSplits[index].error = `${reason}`;
+      return undefined;
+    }
+  }));
+
+  for (let i = 0; i < shares.length; i++) {
+    const invoice = invoices[i];
+
+    if (!invoice) continue;
+
+    const success = await payZapInvoice(invoice, sender, shares[i].pubkey, nwc, walletType);
+
+    lastZapSplits[i].success = success;
+
+    if (!success) {
+      lastZapSplits[i].error = lastZapError || 'Payment failed';
+    }
+
+    if (zapRefused) {
+      lastZapSplits.slice(i + 1).forEach(r => r.error = r.error || lastZapError);
+      break;
+    }
   }
 
-  return result;
+  const failed = lastZapSplits.filter(r => !r.success);
 
+  lastZapError = failed.map(r => `${r.name || r.pubkey.slice(0, 8)}: ${r.error}`).join('\n');
+
+  return failed.length < lastZapSplits.length;
 };
 
 export const zapNote = async (
@@ -166,11 +356,21 @@ export const zapNote = async (
   relays: Relay[],
   nwc?: string[],
   walletType?: 'nwc' | 'breez' | null,
+  pollOption?: string,
 ) => {
   if (!sender) {
     return false;
   }
 
+  lastZapSplits = [];
+
+  // Poll votes are always for the poll author
+  const splits = pollOption === undefined ? zapSplits(note.msg.tags) : [];
+
+  if (splits.length > 0) {
+    return await zapSplit(splits, note.id, undefined, sender, amount, comment, relays, nwc, walletType);
+  }
+
   const callback = await getZapEndpoint(note.user);
 
   if (!callback) {
@@ -183,7 +383,7 @@ export const zapNote = async (
     profile: note.pubkey,
     event: note.id,
     amount: sats,
-    relays: relays.map(r => r.url)
+    relays: await zapReceiptRelays(relays, note.pubkey)
   };
 
   if (comment.length > 0) {
@@ -193,6 +393,11 @@ export const zapNote = async (
 
   const zapReq = nip57.makeZapRequest(payload);
 
+  // Votes on zap polls (NIP-69) name the option they are for
+  if (pollOption !== undefined) {
+    zapReq.tags.push(['poll_option', pollOption]);
+  }
+
   try {
     const signedEvent = await signEvent(zapReq);
 
@@ -201,21 +406,7 @@ export const zapNote = async (
     const r2 = await (await fetch(`${callback}?amount=${sats}&nostr=${event}`)).json();
     const pr = r2.pr;
 
-    // Use Breez if it's the active wallet type
-    if (walletType === 'breez') {
-      return await zapOverBreez(pr, note.pubkey);
-    }
-
-    // Use NWC if configured
-    if (nwc && nwc[1] && nwc[1].length > 0) {
-      return await zapOverNWC(sender, nwc[1], pr);
-    }
-
-    // Fallback to WebLN
-    await enableWebLn();
-    await sendPayment(pr);
-
-    return true;
+    return await payZapInvoice(pr, sender, note.pubkey, nwc, walletType);
   } catch (reason) {
     console.error('Failed to zap: ', reason);
     return false;
@@ -235,21 +426,29 @@ export const zapArticle = async (
     return false;
   }
 
+  lastZapSplits = [];
+
+  const a = `${Kind.LongForm}:${note.pubkey}:${(note.msg.tags.find(t => t[0] === 'd') || [])[1]}`;
+
+  const splits = zapSplits(note.msg.tags);
+
+  if (splits.length > 0) {
+    return await zapSplit(splits, note.msg.id, a, sender, amount, comment, relays, nwc, walletType);
+  }
+
   const callback = await getZapEndpoint(note.user);
 
   if (!callback) {
     return false;
   }
 
-  const a = `${Kind.LongForm}:${note.pubkey}:${(note.msg.tags.find(t => t[0] === 'd') || [])[1]}`;
-
   const sats = Math.round(amount * 1000);
 
   let payload = {
     profile: note.pubkey,
     event: note.msg.id,
     amount: sats,
-    relays: relays.map(r => r.url)
+    relays: await zapReceiptRelays(relays, note.pubkey)
   };
 
   if (comment.length > 0) {
@@ -271,21 +470,7 @@ export const zapArticle = async (
     const r2 = await (await fetch(`${callback}?amount=${sats}&nostr=${event}`)).json();
     const pr = r2.pr;
 
-    // Use Breez if it's the active wallet type
-    if (walletType === 'breez') {
-      return await zapOverBreez(pr);
-    }
-
-    // Use NWC if configured
-    if (nwc && nwc[1] && nwc[1].length > 0) {
-      return await zapOverNWC(sender, nwc[1], pr);
-    }
-
-    // Fallback to WebLN
-    await enableWebLn();
-    await sendPayment(pr);
-
-    return true;
+    return await payZapInvoice(pr, sender, note.pubkey, nwc, walletType);
   } catch (reason) {
     console.error('Failed to zap: ', reason);
     return false;
@@ -316,7 +501,7 @@ export const zapProfile = async (
   let payload = {
     profile: profile.pubkey,
     amount: sats,
-    relays: relays.map(r => r.url)
+    relays: await zapReceiptRelays(relays, profile.pubkey)
   };
 
   if (comment.length > 0) {
@@ -333,21 +518,7 @@ export const zapProfile = async (
     const r2 = await (await fetch(`${callback}?amount=${sats}&nostr=${event}`)).json();
     const pr = r2.pr;
 
-    // Use Breez if it's the active wallet type
-    if (walletType === 'breez') {
-      return await zapOverBreez(pr, profile.pubkey);
-    }
-
-    // Use NWC if configured
-    if (nwc && nwc[1] && nwc[1].length > 0) {
-      return await zapOverNWC(sender, nwc[1], pr);
-    }
-
-    // Fallback to WebLN
-    await enableWebLn();
-    await sendPayment(pr);
-
-    return true;
+    return await payZapInvoice(pr, sender, profile.pubkey, nwc, walletType);
   } catch (reason) {
     console.error('Failed to zap: ', reason);
     return false;
@@ -395,7 +566,7 @@ export const zapSubscription = async (
     profile: recipient.pubkey,
     event: subEvent.id,
     amount: sats,
-    relays: relays.map(r => r.url)
+    relays: await zapReceiptRelays(relays, recipient.pubkey)
   };
 
   if (subEvent.content.length > 0) {
@@ -413,21 +584,7 @@ export const zapSubscription = async (
     const r2 = await (await fetch(`${callback}?amount=${sats}&nostr=${event}`)).json();
     const pr = r2.pr;
 
-    // Use Breez if it's the active wallet type
-    if (walletType === 'breez') {
-      return await zapOverBreez(pr);
-    }
-
-    // Use NWC if configured
-    if (nwc && nwc[1] && nwc[1].length > 0) {
-      return await zapOverNWC(sender, nwc[1], pr);
-    }
-
-    // Fallback to WebLN
-    await enableWebLn();
-    await sendPayment(pr);
-
-    return true;
+    return await payZapInvoice(pr, sender, recipient.pubkey, nwc, walletType);
   } catch (reason) {
     console.error('Failed to zap: ', reason);
     return false;
@@ -462,7 +619,7 @@ export const zapDVM = async (
     profile: dvm.pubkey,
     event: dvm.id,
     amount: sats,
-    relays: relays.map(r => r.url)
+    relays: await zapReceiptRelays(relays, dvm.pubkey)
   };
 
   if (comment.length > 0) {
@@ -484,21 +641,7 @@ export const zapDVM = async (
     const r2 = await (await fetch(`${callback}?amount=${sats}&nostr=${event}`)).json();
     const pr = r2.pr;
 
-    // Use Breez if it's the active wallet type
-    if (walletType === 'breez') {
-      return await zapOverBreez(pr);
-    }
-
-    // Use NWC if configured
-    if (nwc && nwc[1] && nwc[1].length > 0) {
-      return await zapOverNWC(sender, nwc[1], pr);
-    }
-
-    // Fallback to WebLN
-    await enableWebLn();
-    await sendPayment(pr);
-
-    return true;
+    return await payZapInvoice(pr, sender, dvm.pubkey, nwc, walletType);
   } catch (reason) {
     console.error('Failed to zap: ', reason);
     return false;
@@ -533,7 +676,7 @@ export const zapStream = async (
     profile: host.pubkey,
     event: stream.event?.id || null,
     amount: sats,
-    relays: relays.map(r => r.url),
+    relays: await zapReceiptRelays(relays, host.pubkey),
   };
 
   if (comment.length > 0) {
@@ -555,30 +698,16 @@ export const zapStream = async (
     const r2 = await (await fetch(`${callback}?amount=${sats}&nostr=${event}`)).json();
     const pr = r2.pr;
 
-    // Use Breez if it's the active wallet type
-    if (walletType === 'breez') {
-      const success = await zapOverBreez(pr);
-      return { success, event: signedEvent };
-    }
-
-    // Use NWC if configured
-    if (nwc && nwc[1] && nwc[1].length > 0) {
-      const success = await zapOverNWC(sender, nwc[1], pr);
-      return { success: true, event: signedEvent };
-    }
-
-    // Fallback to WebLN
-    await enableWebLn();
-    await sendPayment(pr);
+    const success = await payZapInvoice(pr, sender, host.pubkey, nwc, walletType);
 
-    return { success: true, event: signEvent };
+    return { success, event: signedEvent };
   } catch (reason) {
     console.error('Failed to zap: ', reason);
     return { sucess: false };
   }
 }
 
-export const getZapEndpoint = async (user: PrimalUser): Promise<string | null>  => {
+const fetchZapServer = async (user: PrimalUser): Promise<{ callback: string, nostrPubkey: string } | null>  => {
   try {
     let lnurl: string = ''
     let {lud06, lud16} = user;
@@ -601,7 +730,7 @@ export const getZapEndpoint = async (user: PrimalUser): Promise<string | null>
       let body = await res.json()
 
       if (body.allowsNostr && body.nostrPubkey) {
-        return body.callback;
+        return body;
       }
     }
     catch (e) {
@@ -618,6 +747,15 @@ export const getZapEndpoint = async (user: PrimalUser): Promise<string | null>
   return null;
 }
 
+export const getZapEndpoint = async (user: PrimalUser): Promise<string | null>  =>
+  (await fetchZapServer(user))?.callback || null;
+
+/**
+ * Pubkey the user's LNURL server signs zap receipts with.
+ */
+export const getZapServerPubkey = async (user: PrimalUser): Promise<string | null>  =>
+  (await fetchZapServer(user))?.nostrPubkey || null;
+
 export const canUserReceiveZaps = (user: PrimalUser | undefined) => {
   return !!user && (!!user.lud16 || !!user.lud06);
 }
@@ -0,0 +1,97 @@
+import { createStore, reconcile, unwrap } from "solid-js/store";
+import { zapRoutingLogLimit } from "../constants";
+import { ZapRoutingLogEntry, ZapRoutingPolicy, ZapSpend, ZapWallet } from "../types/primal";
+import { readZapRouting, saveZapRouting } from "./localStore";
+
+/**
+ * Decides which wallets pay a zap and in what order, and keeps a log of
+ * which one did. Daily spend is tracked per wallet to enforce limits.
+ */
+
+export const zapWallets: ZapWallet[] = ['breez', 'nwc', 'webln'];
+
+export const defaultZapRoutingPolicy = (): ZapRoutingPolicy => ({
+  enabled: false,
+  order: [ ...zapWallets ],
+  smallZapWallet: 'breez',
+  smallZapThreshold: 1_000,
+  fallback: true,
+  dailyLimits: {},
+});
+
+export const [zapRoutingPolicy, setZapRoutingPolicy] = createStore<ZapRoutingPolicy>(defaultZapRoutingPolicy());
+
+export const [zapRoutingLog, setZapRoutingLog] = createStore<ZapRoutingLogEntry[]>([]);
+
+export const [zapSpend, setZapSpend] = createStore<Partial<Record<ZapWallet, ZapSpend>>>({});
+
+let routingOwner: string | undefined;
+
+const today = () => new Date().toDateString();
+
+const persist = () => {
+  saveZapRouting(routingOwner, {
+    policy: { ...unwrap(zapRoutingPolicy) },
+    log: [ ...unwrap(zapRoutingLog) ],
+    spent: { ...unwrap(zapSpend) },
+  });
+};
+
+export const loadZapRouting = (pubkey: string | undefined) => {
+  routingOwner = pubkey;
+
+  const stored = readZapRouting(pubkey);
+
+  setZapRoutingPolicy(reconcile({ ...defaultZapRoutingPolicy(), ...stored?.policy }));
+  setZapRoutingLog(reconcile(stored?.log || []));
+  setZapSpend(reconcile(stored?.spent || {}));
+};
+
+export const updateZapRoutingPolicy = (policy: Partial<ZapRoutingPolicy>) => {
+  setZapRoutingPolicy(policy);
+  persist();
+};
+
+export const spentToday = (wallet: ZapWallet) => {
+  const spend = zapSpend[wallet];
+
+  return spend && spend.day === today() ? spend.amount : 0;
+};
+
+const withinLimit = (wallet: ZapWallet, amount: number) => {
+  const limit = zapRoutingPolicy.dailyLimits[wallet] || 0;
+
+  return limit <= 0 || spentToday(wallet) + amount <= limit;
+};
+
+/**
+ * Orders the available wallets for a zap of `amount` sats,
+ * leaving out the ones that would go over their daily limit.
+ */
+export const zapRoute = (amount: number, available: ZapWallet[]) => {
+  const { order, smallZapWallet, smallZapThreshold } = zapRoutingPolicy;
+
+  let route = order.filter(w => available.includes(w));
+
+  if (smallZapWallet && amount < smallZapThreshold && route.includes(smallZapWallet)) {
+    route = [smallZapWallet, ...route.filter(w => w !== smallZapWallet)];
+  }
+
+  return route.filter(w => withinLimit(w, amount));
+};
+
+export const logZapRoute = (entry: ZapRoutingLogEntry) => {
+  if (entry.wallet) {
+    const spent = spentToday(entry.wallet);
+
+    setZapSpend(entry.wallet, () => ({ day: today(), amount: spent + entry.amount }));
+  }
+
+  setZapRoutingLog((log) => [entry, ...log].slice(0, zapRoutingLogLimit));
+  persist();
+};
+
+export const clearZapRoutingLog = () => {
+  setZapRoutingLog([]);
+  persist();
+};
@@ -11,6 +11,7 @@ import {
   NostrMessageEncryptedContent,
   NostrNoteActionsContent,
   NostrNoteContent,
+  NostrRelaySignedEvent,
   NostrStatsContent,
   NostrUserContent,
   NoteActions,
@@ -38,7 +39,17 @@ import { getMessageCounts, getNewMessages, getOldMessages } from "./lib/messages
 import { LeaderboardSort } from "./pages/Premium/PremiumLegendLeaderboard";
 import { LegendCustomizationConfig, fetchLeaderboard } from "./lib/premium";
 import { CohortInfo } from "./contexts/AppContext";
-import { nip19 } from './lib/nTools';
+import { nip19, Relay } from './lib/nTools';
+import { fetchFromOutbox } from "./lib/outbox";
+import { readStoredPage, storeEvents, storePage } from "./lib/eventStore";
+import {
+  fetchAuthorNotesFromRelays,
+  fetchConversationFromRelays,
+  fetchDirectMessagesFromRelays,
+  fetchFollowingFeedFromRelays,
+  fetchMetadataFromRelays,
+  isReplyEvent,
+} from "./lib/relayFallback";
 
 export type PaginationInfo = {
   since: number,
@@ -155,21 +166,34 @@ export const fetchMegaFeed = (
 ) => {
     return new Promise<MegaFeedResults>((resolve) => {
       let page: MegaFeedPage = {...emptyMegaFeedPage()};
+      let received: NostrEventContent[] = [];
+
+      const until = paging?.until || 0;
+      const since = paging?.since || 0;
+      const limit = paging?.limit || 0;
 
       const unsub = subsTo(subId, {
         onEose: () => {
           unsub();
+
+          // First pages are kept whole so the feed can be shown before the next fetch returns
+          if (until === 0 && since === 0) {
+            storePage(megaFeedPageKey(pubkey, specification), received);
+          }
+          else {
+            storeEvents(received);
+          }
+
           resolve(pageResolve(page));
         },
         onEvent: (s, content) => {
+          if (!content) return;
+
+          received.push(content);
           updateFeedPage(page, content);
         }
       });
 
-      const until = paging?.until || 0;
-      const since = paging?.since || 0;
-      const limit = paging?.limit || 0;
-
       let offset = 0;
 
       if (typeof paging?.offset === 'number') {
@@ -190,6 +214,178 @@ export const fetchMegaFeed = (
     });
 };
 
+const megaFeedPageKey = (pubkey: string | undefined, specification: any) =>
+  `feed:${pubkey || ''}:${typeof specification === 'string' ? specification : JSON.stringify(specification)}`;
+
+/**
+ * Replays the last first page we got for this feed from the local event store.
+ */
+export const readStoredMegaFeed = async (
+  pubkey: string | undefined,
+  specification: any,
+) => {
+  const events = await readStoredPage(megaFeedPageKey(pubkey, specification));
+
+  if (!events || events.length === 0) return undefined;
+
+  let page: MegaFeedPage = {...emptyMegaFeedPage()};
+
+  events.forEach(e => updateFeedPage(page, e));
+
+  return pageResolve(page);
+};
+
+/**
+ * Builds a notes page straight from the author's write relays,
+ * for profiles the cache server has nothing on.
+ */
+export const fetchOutboxNotes = async (
+  pubkey: string,
+  paging?: FeedPaging,
+) => {
+  const limit = paging?.limit || 20;
+
+  const filter: any = { kinds: [Kind.Text, Kind.Repost], authors: [pubkey], limit };
+
+  if (paging?.until) filter.until = paging.until;
+
+  const events = await fetchFromOutbox(pubkey, [
+    filter,
+    { kinds: [Kind.Metadata], authors: [pubkey], limit: 1 },
+  ]);
+
+  return relayNotesPage(events, paging);
+};
+
+/**
+ * Turns raw relay events into a notes page, newest first.
+ * `include` picks which notes belong on the page.
+ */
+const relayNotesPage = (
+  events: NostrRelaySignedEvent[],
+  paging?: FeedPaging,
+  include = (_: NostrNoteContent) => true,
+) => {
+  const limit = paging?.limit || 20;
+
+  let page: MegaFeedPage = {...emptyMegaFeedPage()};
+
+  events.forEach(e => updateFeedPage(page, e as NostrEventContent));
+
+  const notes = page.notes
+    .filter(n => n.created_at !== paging?.until && include(n))
+    .sort((a, b) => (b.created_at || 0) - (a.created_at || 0))
+    .slice(0, limit);
+
+  page.notes = notes;
+  page.elements = notes.map(n => n.id);
+  page.until = notes[0]?.created_at || 0;
+  page.since = notes[notes.length - 1]?.created_at || 0;
+
+  return pageResolve(page);
+};
+
+// RELAY-ONLY MODE ------------------------------
+
+export const fetchRelayFollowingFeed = async (
+  relays: Relay[],
+  following: string[],
+  paging?: FeedPaging,
+) => {
+  const events = await fetchFollowingFeedFromRelays(relays, following, {
+    until: paging?.until,
+    limit: paging?.limit,
+  });
+
+  return relayNotesPage(events, paging);
+};
+
+export const fetchRelayProfileNotes = async (
+  relays: Relay[],
+  pubkey: string,
+  replies: boolean,
+  paging?: FeedPaging,
+) => {
+  const events = await fetchAuthorNotesFromRelays(relays, pubkey, {
+    until: paging?.until,
+    limit: paging?.limit,
+  });
+
+  return relayNotesPage(events, paging, n => isReplyEvent(n) === replies);
+};
+
+/**
+ * Builds the contact list from the user's recent kind 4 messages.
+ * Unread counts are only known to the cache, so they stay at zero.
+ */
+export const fetchRelayDMContacts = async (
+  relays: Relay[],
+  pubkey: string,
+  relation: UserRelation,
+  following: string[],
+) => {
+  const messages = await fetchDirectMessagesFromRelays(relays, pubkey);
+
+  const contacts = messages.reduce<Record<string, SenderMessageCount>>((acc, m) => {
+    const other = m.pubkey === pubkey ?
+      (m.tags.find(t => t[0] === 'p') || [])[1] :
+      m.pubkey;
+
+    if (!other || other === pubkey) return acc;
+
+    const follows = following.includes(other);
+
+    if ((relation === 'follows' && !follows) || (relation === 'other' && follows)) return acc;
+
+    const known = acc[other];
+
+    if (known && known.latest_at >= m.created_at) return acc;
+
+    return {
+      ...acc,
+      [other]: { cnt: 0, latest_at: m.created_at, latest_event_id: m.id },
+    };
+  }, {});
+
+  const users = await fetchMetadataFromRelays(relays, Object.keys(contacts));
+
+  let page: MegaFeedPage = {...emptyMegaFeedPage()};
+
+  users.forEach(u => updateFeedPage(page, u as NostrEventContent));
+  page.dmContacts = { ...contacts };
+
+  return pageResolve(page);
+};
+
+export const fetchRelayDMConversation = async (
+  relays: Relay[],
+  pubkey: string,
+  contact: string,
+  paging?: FeedPaging,
+) => {
+  const limit = paging?.limit || 20;
+
+  const messages = await fetchConversationFromRelays(relays, pubkey, contact, {
+    until: paging?.until,
+    limit,
+  });
+
+  const encryptedMessages = messages.
+    filter(m => m.created_at !== paging?.until).
+    sort((a, b) => b.created_at - a.created_at).
+    slice(0, limit) as NostrMessageEncryptedContent[];
+
+  return {
+    ...emptyMegaFeedResults(),
+    encryptedMessages,
+    paging: {
+      ...emptyPaging(),
+      until: encryptedMessages[0]?.created_at || 0,
+      since: encryptedMessages[encryptedMessages.length - 1]?.created_at || 0,
+    },
+  } as MegaFeedResults;
+};
+
 export const fetchScoredContent = (
   pubkey: string | undefined,
   selector: string,
@@ -703,7 +899,7 @@ export const updateFeedPage = (page: MegaFeedPage, content: NostrEventContent) =
     return;
   }
 
-  if ([Kind.Text, Kind.Repost].includes(content.kind)) {
+  if ([Kind.Text, Kind.Repost, Kind.Poll, Kind.ZapPoll].includes(content.kind)) {
     const message = content as NostrNoteContent;
 
     let isAlreadyReposted = isRepostInCollection(page.notes, message);
@@ -0,0 +1,376 @@
+import { Component, createEffect, createSignal, For, on, Show } from 'solid-js';
+import { createStore, unwrap } from 'solid-js/store';
+import { useNavigate, useParams } from '@solidjs/router';
+import { useIntl } from '@cookbook/solid-intl';
+import PageCaption from '../components/PageCaption/PageCaption';
+import PageTitle from '../components/PageTitle/PageTitle';
+import ButtonPrimary from '../components/Buttons/ButtonPrimary';
+import ButtonSecondary from '../components/Buttons/ButtonSecondary';
+import CheckBox from '../components/Checkbox/CheckBox';
+import TextInput from '../components/TextInput/TextInput';
+import { useToastContext } from '../components/Toaster/Toaster';
+import { useAccountContext } from '../contexts/AccountContext';
+import { useAppContext } from '../contexts/AppContext';
+import { npubToHex } from '../lib/keys';
+import { logError } from '../lib/logger';
+import { nip19 } from '../lib/nTools';
+import { triggerImportEvents } from '../lib/notes';
+import {
+  announceLiveEvent,
+  emptyLiveEventDraft,
+  fetchHostLiveEvents,
+  LiveEventDraft,
+  liveEventDraftFromEvent,
+  LiveEventRole,
+  liveEventRoles,
+  LiveEventStatus,
+  liveEventTransitions,
+  sendLiveEvent,
+  transitionLiveEvent,
+} from '../lib/streaming';
+import { APP_ID } from '../App';
+import { NostrRelaySignedEvent } from '../types/primal';
+import { liveStudio as t } from '../translations';
+
+import styles from './LiveStudio.module.scss';
+
+// datetime-local inputs work in local time without a timezone
+const toDateInput = (time?: number) => {
+  if (!time) return '';
+
+  const date = new Date(time * 1_000);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+
+  return date.toISOString().slice(0, 16);
+};
+
+const fromDateInput = (value: string) => {
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : Math.floor(time / 1_000);
+};
+
+const shortNpub = (pubkey: string) => {
+  const npub = nip19.npubEncode(pubkey);
+  return `${npub.slice(0, 12)}…${npub.slice(-6)}`;
+};
+
+const LiveStudio: Component = () => {
+  const intl = useIntl();
+  const account = useAccountContext();
+  const app = useAppContext();
+  const toast = useToastContext();
+  const params = useParams();
+  const navigate = useNavigate();
+
+  const [events, setEvents] = createSignal<NostrRelaySignedEvent[]>([]);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [isPublishing, setIsPublishing] = createSignal(false);
+  const [draft, setDraft] = createStore<LiveEventDraft>(emptyLiveEventDraft(''));
+  const [hashtags, setHashtags] = createSignal('');
+  const [newParticipant, setNewParticipant] = createSignal('');
+  const [newParticipantRole, setNewParticipantRole] = createSignal<LiveEventRole>('Speaker');
+  const [announce, setAnnounce] = createSignal(true);
+
+  const isNew = () => !draft.identifier;
+
+  const editDraft = (value: LiveEventDraft) => {
+    // Store setters merge, times missing from the new draft would be kept
+    setDraft({ ...value, starts: value.starts, ends: value.ends });
+    setHashtags(value.hashtags.join(', '));
+  };
+
+  const startNew = () => {
+    editDraft(emptyLiveEventDraft(account?.publicKey || ''));
+    navigate('/live-studio');
+  };
+
+  const loadEvents = async () => {
+    const host = account?.publicKey;
+    if (!host) return;
+
+    setIsLoading(true);
+
+    try {
+      const found = await fetchHostLiveEvents(host, account.activeRelays);
+      setEvents(found);
+
+      const selected = found.find(e => e.tags.find(t => t[0] === 'd' && t[1] === params.identifier));
+
+      // Reloads after relays change must not throw away what is being edited
+      if (selected && draft.identifier !== params.identifier) {
+        editDraft(liveEventDraftFromEvent(selected));
+      }
+    } catch (e) {
+      logError('Failed to load live events: ', e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  createEffect(on(() => account?.publicKey, (pubkey) => {
+    if (!pubkey) return;
+
+    editDraft(emptyLiveEventDraft(pubkey));
+    loadEvents();
+  }));
+
+  createEffect(on(() => account?.activeRelays.length, () => {
+    loadEvents();
+  }, { defer: true }));
+
+  const streamLink = (identifier: string) =>
+    `${app?.actions.profileLink(account?.publicKey, true)}/live/${identifier}`;
+
+  const addParticipant = () => {
+    const value = newParticipant().trim();
+    const pubkey = value.startsWith('npub') || value.startsWith('nprofile') ? npubToHex(value) : value;
+
+    if (!/^[0-9a-f]{64}$/.test(pubkey)) {
+      toast?.sendWarning(intl.formatMessage(t.invalidParticipant));
+      return;
+    }
+
+    if (draft.participants.find(p => p.pubkey === pubkey)) {
+      toast?.sendWarning(intl.formatMessage(t.duplicateParticipant));
+      return;
+    }
+
+    setDraft('participants', (ps) => [ ...ps, { pubkey, role: newParticipantRole() }]);
+    setNewParticipant('');
+  };
+
+  const removeParticipant = (pubkey: string) => {
+    setDraft('participants', (ps) => ps.filter(p => p.pubkey !== pubkey));
+  };
+
+  const publish = async (value: LiveEventDraft) => {
+    if (!account || !value.title.trim()) {
+      toast?.sendWarning(intl.formatMessage(t.missingTitle));
+      return;
+    }
+
+    const wasNew = !value.identifier;
+    const withTags = {
+      ...value,
+      hashtags: hashtags().split(',').map(t => t.trim().replace(/^#/, '')).filter(t => t.length > 0),
+    };
+
+    setIsPublishing(true);
+
+    try {
+      const { success, note } = await sendLiveEvent(withTags, account.proxyThroughPrimal, account.activeRelays, account.relaySettings);
+
+      if (!success || !note) {
+        toast?.sendWarning(intl.formatMessage(t.publishFailed));
+        return;
+      }
+
+      triggerImportEvents([note], `import_live_event_${APP_ID}`);
+
+      const published = liveEventDraftFromEvent(note);
+      editDraft(published);
+      setEvents(es => [note, ...es.filter(e => !e.tags.find(t => t[0] === 'd' && t[1] === published.identifier))]);
+
+      // Followers learn about scheduled streams from a note
+      if (wasNew && published.status === 'planned' && announce()) {
+        const announcement = published.starts ?
+          intl.formatMessage(t.announcement, { date: new Date(published.starts * 1_000).toLocaleString(), title: published.title }) :
+          intl.formatMessage(t.announcementSoon, { title: published.title });
+        const result = await announceLiveEvent(announcement, note, account.proxyThroughPrimal, account.activeRelays, account.relaySettings);
+
+        !result.success && toast?.sendWarning(intl.formatMessage(t.announceFailed));
+      }
+
+      toast?.sendSuccess(intl.formatMessage(wasNew ? t.published : t.updated));
+    } catch (e) {
+      logError('Failed to publish live event: ', e);
+      toast?.sendWarning(intl.formatMessage(t.publishFailed));
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const changeStatus = (status: LiveEventStatus) => {
+    publish(transitionLiveEvent(unwrap(draft), status));
+  };
+
+  return (
+    <div class={styles.studio}>
+      <PageTitle title={intl.formatMessage(t.title)} />
+      <PageCaption title={intl.formatMessage(t.title)} />
+
+      <Show
+        when={account?.publicKey}
+        fallback={<div class={styles.empty}>{intl.formatMessage(t.loggedOut)}</div>}
+      >
+        <div class={styles.events}>
+          <div class={styles.eventsHeader}>
+            <div class={styles.sectionTitle}>{intl.formatMessage(t.yourStreams)}</div>
+            <ButtonSecondary onClick={startNew} light={true} shrink={true}>
+              {intl.formatMessage(t.newStream)}
+            </ButtonSecondary>
+          </div>
+
+          <Show when={!isLoading()} fallback={<div class={styles.empty}>{intl.formatMessage(t.loading)}</div>}>
+            <For each={events()} fallback={<div class={styles.empty}>{intl.formatMessage(t.noStreams)}</div>}>
+              {event => {
+                const item = liveEventDraftFromEvent(event);
+
+                return (
+                  <button
+                    class={`${styles.event} ${item.identifier === draft.identifier ? styles.selected : ''}`}
+                    onClick={() => {
+                      editDraft(item);
+                      navigate(`/live-studio/${item.identifier}`);
+                    }}
+                  >
+                    <span class={styles.eventTitle}>{item.title || item.identifier}</span>
+                    <span class={`${styles.badge} ${styles[item.status]}`}>{intl.formatMessage(t.statuses[item.status])}</span>
+                  </button>
+                );
+              }}
+            </For>
+          </Show>
+        </div>
+
+        <div class={styles.form}>
+          <div class={styles.formHeader}>
+            <div class={styles.sectionTitle}>{isNew() ? intl.formatMessage(t.newStream) : draft.title}</div>
+            <Show when={!isNew()}>
+              <span class={`${styles.badge} ${styles[draft.status]}`}>{intl.formatMessage(t.statuses[draft.status])}</span>
+              <a class={styles.viewLink} href={streamLink(draft.identifier)}>{intl.formatMessage(t.viewStream)}</a>
+            </Show>
+          </div>
+
+          <label class={styles.field}>
+            <span>{intl.formatMessage(t.streamTitle)}</span>
+            <TextInput value={draft.title} onChange={(v: string) => setDraft('title', v)} />
+          </label>
+
+          <label class={styles.field}>
+            <span>{intl.formatMessage(t.summary)}</span>
+            <textarea
+              class={styles.summary}
+              value={draft.summary}
+              onInput={(e) => setDraft('summary', e.currentTarget.value)}
+            />
+          </label>
+
+          <label class={styles.field}>
+            <span>{intl.formatMessage(t.image)}</span>
+            <TextInput value={draft.image} onChange={(v: string) => setDraft('image', v)} />
+          </label>
+          <Show when={draft.image}>
+            <img class={styles.imagePreview} src={draft.image} />
+          </Show>
+
+          <label class={styles.field}>
+            <span>{intl.formatMessage(t.hashtags)}</span>
+            <TextInput value={hashtags()} onChange={setHashtags} />
+          </label>
+
+          <label class={styles.field}>
+            <span>{intl.formatMessage(t.streaming)}</span>
+            <TextInput value={draft.streaming} onChange={(v: string) => setDraft('streaming', v)} />
+          </label>
+
+          <label class={styles.field}>
+            <span>{intl.formatMessage(t.recording)}</span>
+            <TextInput value={draft.recording} onChange={(v: string) => setDraft('recording', v)} />
+          </label>
+
+          <div class={styles.times}>
+            <label class={styles.field}>
+              <span>{intl.formatMessage(t.starts)}</span>
+              <input
+                type="datetime-local"
+                value={toDateInput(draft.starts)}
+                onChange={(e) => setDraft('starts', fromDateInput(e.currentTarget.value))}
+              />
+            </label>
+            <label class={styles.field}>
+              <span>{intl.formatMessage(t.ends)}</span>
+              <input
+                type="datetime-local"
+                value={toDateInput(draft.ends)}
+                onChange={(e) => setDraft('ends', fromDateInput(e.currentTarget.value))}
+              />
+            </label>
+          </div>
+
+          <div class={styles.field}>
+            <span>{intl.formatMessage(t.participants)}</span>
+            <For each={draft.participants}>
+              {participant => (
+                <div class={styles.participant}>
+                  <span class={styles.participantKey}>
+                    {participant.pubkey === account?.publicKey ? intl.formatMessage(t.you) : shortNpub(participant.pubkey)}
+                  </span>
+                  <select
+                    value={participant.role}
+                    onChange={(e) => setDraft(
+                      'participants',
+                      p => p.pubkey === participant.pubkey,
+                      'role',
+                      e.currentTarget.value as LiveEventRole,
+                    )}
+                  >
+                    <For each={liveEventRoles}>
+                      {role => <option value={role}>{role}</option>}
+                    </For>
+                  </select>
+                  <button class={styles.removeButton} onClick={() => removeParticipant(participant.pubkey)}>
+                    {intl.formatMessage(t.remove)}
+                  </button>
+                </div>
+              )}
+            </For>
+            <div class={styles.participant}>
+              <TextInput
+                value={newParticipant()}
+                onChange={setNewParticipant}
+                placeholder={intl.formatMessage(t.participantPlaceholder)}
+              />
+              <select
+                value={newParticipantRole()}
+                onChange={(e) => setNewParticipantRole(e.currentTarget.value as LiveEventRole)}
+              >
+                <For each={liveEventRoles}>
+                  {role => <option value={role}>{role}</option>}
+                </For>
+              </select>
+              <ButtonSecondary onClick={addParticipant} light={true} shrink={true}>
+                {intl.formatMessage(t.add)}
+              </ButtonSecondary>
+            </div>
+          </div>
+
+          <Show when={isNew()}>
+            <CheckBox
+              checked={announce()}
+              onChange={setAnnounce}
+              label={intl.formatMessage(t.announce)}
+            />
+          </Show>
+
+          <div class={styles.actions}>
+            <ButtonPrimary onClick={() => publish(unwrap(draft))} disabled={isPublishing()}>
+              {intl.formatMessage(isPublishing() ? t.publishing : isNew() ? t.publish : t.save)}
+            </ButtonPrimary>
+            <Show when={!isNew()}>
+              <For each={liveEventTransitions[draft.status]}>
+                {status => (
+                  <ButtonSecondary onClick={() => changeStatus(status)} disabled={isPublishing()}>
+                    {intl.formatMessage(t.transitions[status])}
+                  </ButtonSecondary>
+                )}
+              </For>
+            </Show>
+          </div>
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default LiveStudio;
@@ -38,6 +38,7 @@ import ReplyToNote from "../components/ReplyToNote/ReplyToNote";
 import { fetchNotes } from "../handleNotes";
 import { Tier, TierCost } from "../components/SubscribeToAuthorModal/SubscribeToAuthorModal";
 import { zapSubscription } from "../lib/zap";
+import { addRecurringZap } from "../lib/recurringZaps";
 import { useSettingsContext } from "../contexts/SettingsContext";
 import ArticleHighlightComments from "../components/ArticleHighlight/ArticleHighlightComments";
 import ReplyToHighlight from "../components/ReplyToNote/ReplyToHighlight";
@@ -292,7 +293,10 @@ const Longform: Component< { naddr: string } > = (props) => {
 
       if (!isZapped) {
         unsubscribe(note.id);
+        return;
       }
+
+      addRecurringZap(note, a, tier.title, exchangeRate);
     }
   }
 
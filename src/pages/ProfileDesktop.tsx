@@ -49,6 +49,7 @@ import { Tier, TierCost } from '../components/SubscribeToAuthorModal/SubscribeTo
 import { Kind } from '../constants';
 import { getAuthorSubscriptionTiers } from '../lib/feed';
 import { zapSubscription } from '../lib/zap';
+import { addRecurringZap } from '../lib/recurringZaps';
 import { subsTo } from '../sockets';
 import { TransitionGroup } from 'solid-transition-group';
 import ProfileFollowModal from '../components/ProfileFollowModal/ProfileFollowModal';
@@ -613,7 +614,10 @@ const ProfileDesktop: Component = () => {
 
       if (!isZapped) {
         unsubscribe(note.id);
+        return;
       }
+
+      addRecurringZap(note, a, tier.title, exchangeRate);
     }
   }
 
@@ -852,6 +856,14 @@ const ProfileDesktop: Component = () => {
                     <div>{intl.formatMessage(tActions.editProfile)}</div>
                   </ButtonSecondary>
                 </div>
+                <div class={styles.editProfileButton}>
+                  <ButtonSecondary
+                    onClick={() => navigate('/live-studio')}
+                    title={intl.formatMessage(tActions.goLive)}
+                  >
+                    <div>{intl.formatMessage(tActions.goLive)}</div>
+                  </ButtonSecondary>
+                </div>
               </Show>
             </div>
 
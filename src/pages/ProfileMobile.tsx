@@ -42,6 +42,7 @@ import { Tier, TierCost } from '../components/SubscribeToAuthorModal/SubscribeTo
 import { Kind } from '../constants';
 import { getAuthorSubscriptionTiers } from '../lib/feed';
 import { zapSubscription } from '../lib/zap';
+import { addRecurringZap } from '../lib/recurringZaps';
 import { subsTo } from '../sockets';
 import ProfileFollowModal from '../components/ProfileFollowModal/ProfileFollowModal';
 import ProfileCardSkeleton from '../components/Skeleton/ProfileCardSkeleton';
@@ -608,7 +609,10 @@ const ProfileMobile: Component = () => {
 
       if (!isZapped) {
         unsubscribe(note.id);
+        return;
       }
+
+      addRecurringZap(note, a, tier.title, exchangeRate);
     }
   }
 
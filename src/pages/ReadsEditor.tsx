@@ -4,7 +4,7 @@ import styles from './ReadsEditor.module.scss'
 import Wormhole from '../components/Wormhole/Wormhole';
 import CheckBox from '../components/Checkbox/CheckBox';
 import ReadsEditorEditor from '../components/ReadsEditor/ReadsEditorEditor';
-import { NostrNoteContent, NostrRelaySignedEvent, PrimalArticle, PrimalNote, PrimalUser } from '../types/primal';
+import { NostrNoteContent, NostrRelaySignedEvent, PostSchedule, PrimalArticle, PrimalNote, PrimalUser, ZapSplit } from '../types/primal';
 import { createStore } from 'solid-js/store';
 import { referencesToTags } from '../stores/note';
 import { useAccountContext } from '../contexts/AccountContext';
@@ -15,7 +15,7 @@ import ArticlePreviewPhone from '../components/ArticlePreview/ArticlePreviewPhon
 import ArticleShort from '../components/ArticlePreview/ArticleShort';
 import ReadsEditorPreview from '../components/ReadsEditor/ReadsEditorPreview';
 import { decrypt44 } from '../lib/nostrAPI';
-import { importEvents, NostrEvent, sendArticle, sendDeleteEvent, sendDraft, triggerImportEvents } from '../lib/notes';
+import { articleEvent, importEvents, NostrEvent, sendArticle, sendDeleteEvent, sendDraft, triggerImportEvents } from '../lib/notes';
 import { useToastContext } from '../components/Toaster/Toaster';
 import { BeforeLeaveEventArgs, useBeforeLeave, useNavigate, useParams } from '@solidjs/router';
 import { fetchArticles, fetchDrafts } from '../handleNotes';
@@ -23,7 +23,7 @@ import { APP_ID } from '../App';
 import ReadsPublishDialog from '../components/ReadsMentionDialog/ReadsPublishDialog';
 import { readSecFromStorage } from '../lib/localStore';
 import { useIntl } from '@cookbook/solid-intl';
-import { toast as tToast, actions as tActions } from '../translations';
+import { toast as tToast, actions as tActions, scheduled as tScheduled } from '../translations';
 import { subsTo } from '../sockets';
 import ReadsLeaveDialog from '../components/ReadsMentionDialog/ReadsLeaveDialog';
 import PageTitle from '../components/PageTitle/PageTitle';
@@ -34,6 +34,8 @@ import { isIOS } from '../utils';
 import { isAndroid } from '@kobalte/utils';
 import ButtonPrimary from '../components/Buttons/ButtonPrimary';
 import noEditorPhone from '../assets/images/editor-phone-message.png';
+import { schedulePost } from '../lib/scheduledPosts';
+import { zapSplits as readZapSplits, zapSplitTags } from '../lib/zap';
 
 
 export type EditorPreviewMode = 'editor' | 'browser' | 'phone' | 'feed';
@@ -100,6 +102,8 @@ const ReadsEditor: Component = () => {
 
   const [identifier, setIdentifier] = createSignal('');
 
+  const [zapSplits, setZapSplits] = createSignal<ZapSplit[] | undefined>();
+
   const [editor, setEditor] = createSignal<Editor>();
   const [showTableOptions, setShowTableOptions] = createSignal<boolean>(false);
   const [tableOptionsPosition, setTableOptionsPosition] = createSignal<boolean>(false);
@@ -249,6 +253,9 @@ const ReadsEditor: Component = () => {
 
       setIdentifier(() => (r.msg.tags.find(t => t[0] === 'd') || ['d', ''])[1])
 
+      const splits = readZapSplits(r.msg.tags);
+      setZapSplits(splits.length > 0 ? splits : undefined);
+
       setArticle(() => ({
         title: r.title,
         image: r.image,
@@ -306,7 +313,7 @@ const ReadsEditor: Component = () => {
 
   }
 
-  const postArticle = async (promote: boolean) => {
+  const postArticle = async (promote: boolean, schedule?: PostSchedule) => {
     const user = account?.activeUser;
 
     if (!account || !account.hasPublicKey() || !user) {
@@ -352,6 +359,12 @@ const ReadsEditor: Component = () => {
 
     tags.push(['client', 'Primal']);
 
+    const splits = zapSplits();
+
+    if (splits) {
+      tags = [...tags, ...zapSplitTags(splits, account.activeRelays[0]?.url)];
+    }
+
     let articleToPost = {
       ...article,
       content,
@@ -372,6 +385,46 @@ const ReadsEditor: Component = () => {
 
     setIsPublishing(true);
 
+    if (schedule) {
+      const time = Math.floor(schedule.publishAt / 1_000);
+      const lastDraft = lastSaved.draftId;
+
+      const { success } = await schedulePost(
+        articleEvent(articleToPost, tags, time),
+        schedule.publishAt,
+        {
+          relays: account.activeRelays,
+          relaySettings: account.relaySettings,
+          proxy: account.proxyThroughPrimal || false,
+        },
+      );
+
+      if (!success) {
+        setIsPublishing(false);
+        toast?.sendWarning(intl.formatMessage(tScheduled.failed));
+        return;
+      }
+
+      // The scheduled queue holds the article from now on
+      if (lastDraft.length > 0) {
+        sendDeleteEvent(
+          user.pubkey,
+          lastDraft,
+          Kind.Draft,
+          account.activeRelays,
+          account.relaySettings,
+          account.proxyThroughPrimal,
+        );
+      }
+
+      toast?.sendSuccess(intl.formatMessage(tScheduled.success, { date: longDate(time) }));
+      setShowPublishArticle(false);
+      setArticle(() => emptyArticleEdit());
+      setZapSplits(undefined);
+      navigate('/myarticles/scheduled');
+      return;
+    }
+
     const { success, reasons, note } = await sendArticle(articleToPost, account.proxyThroughPrimal || false, account.activeRelays, tags, account.relaySettings);
 
     if (success && note) {
@@ -385,6 +438,7 @@ const ReadsEditor: Component = () => {
           if (note) {
             toast?.sendSuccess(intl.formatMessage(tToast.publishNoteSuccess));
             setArticle(() => emptyArticleEdit());
+            setZapSplits(undefined);
             if (promote) {
               setTimeout(() => {
                 quoteArticle(note);
@@ -813,6 +867,8 @@ const ReadsEditor: Component = () => {
             open={showPublishArticle()}
             setOpen={setShowPublishArticle}
             onPublish={postArticle}
+            zapSplits={zapSplits()}
+            setZapSplits={setZapSplits}
           />
 
           <ReadsPublishSuccessDialog
@@ -10,7 +10,7 @@ import { useNavigate, useParams } from '@solidjs/router';
 import PageCaption from '../components/PageCaption/PageCaption';
 import PageTitle from '../components/PageTitle/PageTitle';
 import StickySidebar from '../components/StickySidebar/StickySidebar';
-import { readsMy, actions as tActions } from '../translations';
+import { readsMy, actions as tActions, scheduled as tScheduled } from '../translations';
 import { isPhone, urlEncode } from '../utils';
 import { useIntl } from '@cookbook/solid-intl';
 import Search from '../components/Search/Search';
@@ -26,6 +26,8 @@ import { APP_ID } from '../App';
 import { shortDate } from '../lib/dates';
 import { useAppContext } from '../contexts/AppContext';
 
+import ScheduledPostList from '../components/ScheduledPosts/ScheduledPostList';
+import { ownScheduledPosts } from '../lib/scheduledPosts';
 import noEditorPhone from '../assets/images/editor-phone-message.png';
 
 
@@ -113,6 +115,10 @@ const ReadsMy: Component = () => {
     }
   }
 
+  // Scheduled posts live in the local queue, nothing to fetch for that tab
+  const sortedScheduledPosts = () =>
+    ownScheduledPosts().sort((a, b) => a.publishAt - b.publishAt);
+
   const processedDrafts = () => {
     if (!account || !account.activeUser || !account.publicKey) return [];
 
@@ -343,6 +349,9 @@ const ReadsMy: Component = () => {
                     <Tabs.Trigger class={styles.profileTab} value="drafts">
                       Drafts ({articleStats().drafts})
                     </Tabs.Trigger>
+                    <Tabs.Trigger class={styles.profileTab} value="scheduled">
+                      {intl.formatMessage(tScheduled.tab, { number: sortedScheduledPosts().length })}
+                    </Tabs.Trigger>
                     <Tabs.Indicator class={styles.profileTabIndicator} />
                   </Tabs.List>
 
@@ -459,6 +468,13 @@ const ReadsMy: Component = () => {
                       </TransitionGroup>
                     </div>
                   </Tabs.Content>
+
+
+                  <Tabs.Content class={styles.tabContent} value="scheduled">
+                    <div class={styles.profileNotes}>
+                      <ScheduledPostList posts={sortedScheduledPosts()} />
+                    </div>
+                  </Tabs.Content>
                 </Tabs>
               </Show>
             </div>
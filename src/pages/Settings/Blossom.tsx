@@ -21,6 +21,10 @@ import ButtonSecondary from '../../components/Buttons/ButtonSecondary';
 import ConfirmModal from '../../components/ConfirmModal/ConfirmModal';
 import { createStore } from 'solid-js/store';
 import { checkBlossomServer } from '../../utils';
+import { readMediaProcessing, saveMediaProcessing } from '../../lib/localStore';
+import { MediaPreset, MediaProcessingSettings } from '../../types/primal';
+import RadioBoxWithDesc from '../../components/Checkbox/RadioBoxWithDesc';
+import { RadioBoxOption } from '../../components/Checkbox/RadioBox';
 
 const Blossom: Component = () => {
 
@@ -37,6 +41,23 @@ const Blossom: Component = () => {
 
   const [serverAvailability, setServerAvailability] = createStore<Record<string, boolean>>({});
 
+  const [mediaProcessing, setMediaProcessing] = createStore<MediaProcessingSettings>(readMediaProcessing(account?.publicKey));
+
+  createEffect(on(() => account?.publicKey, (pubkey) => {
+    setMediaProcessing(() => readMediaProcessing(pubkey));
+  }));
+
+  const updateMediaProcessing = (changes: Partial<MediaProcessingSettings>) => {
+    setMediaProcessing(() => changes);
+    saveMediaProcessing(account?.publicKey, { ...mediaProcessing });
+  };
+
+  const presetOptions = (): RadioBoxOption[] => (['original', 'high', 'balanced', 'small'] as MediaPreset[]).map(preset => ({
+    value: preset,
+    label: intl.formatMessage(t.blossomPage.presets[preset]),
+    description: intl.formatMessage(t.blossomPage.presets[`${preset}Description`]),
+  }));
+
   createEffect(on(() => account?.blossomServers, (bServers) => {
     if (!bServers || hasMirrors()) return;
 
@@ -287,6 +308,29 @@ const Blossom: Component = () => {
           onAbort={() => setConfirmNoMirrors(false)}
         />
       </div>
+
+      <div class={styles.settingsContentBorderless}>
+        <div class={`${styles.bigCaption}`}>
+          {intl.formatMessage(t.blossomPage.mediaProcessing)}
+        </div>
+
+        <div class={styles.moderationDescription}>
+          {intl.formatMessage(t.blossomPage.mediaProcessingDescription)}
+        </div>
+
+        <CheckBox
+          id={'toggleStripLocation'}
+          onChange={(checked: boolean) => updateMediaProcessing({ stripLocation: checked })}
+          checked={mediaProcessing.stripLocation}
+          label={intl.formatMessage(t.blossomPage.stripLocation)}
+        />
+
+        <RadioBoxWithDesc
+          options={presetOptions()}
+          value={mediaProcessing.preset}
+          onChange={(option: RadioBoxOption) => updateMediaProcessing({ preset: option.value as MediaPreset })}
+        />
+      </div>
     </>
   )
 }
@@ -0,0 +1,357 @@
+import { Component, createSignal, For, Show } from 'solid-js';
+import styles from './Settings.module.scss';
+
+import { useIntl } from '@cookbook/solid-intl';
+import { settings as t, cashuWallet as tCashu } from '../../translations';
+import PageCaption from '../../components/PageCaption/PageCaption';
+import PageTitle from '../../components/PageTitle/PageTitle';
+import { A } from '@solidjs/router';
+import ButtonPrimary from '../../components/Buttons/ButtonPrimary';
+import ButtonSecondary from '../../components/Buttons/ButtonSecondary';
+import { useToastContext } from '../../components/Toaster/Toaster';
+import { useSparkWallet } from '../../contexts/SparkWalletContext';
+import { cashuDefaultMint } from '../../constants';
+import { longDate } from '../../lib/dates';
+import { logWarning } from '../../lib/logger';
+import { nip19 } from '../../lib/nTools';
+import {
+  addCashuMint,
+  cashuBalance,
+  cashuMints,
+  cashuWallet,
+  createCashuWallet,
+  meltCashu,
+  mintCashu,
+  receiveNutzaps,
+  redeemCashuToken,
+  removeCashuMint,
+  sendNutzap,
+} from '../../lib/cashu/cashuWallet';
+
+const CashuWallet: Component = () => {
+  const intl = useIntl();
+  const toast = useToastContext();
+  const sparkWallet = useSparkWallet();
+
+  const [isBusy, setIsBusy] = createSignal(false);
+  const [mintUrl, setMintUrl] = createSignal('');
+  const [token, setToken] = createSignal('');
+  const [invoice, setInvoice] = createSignal('');
+  const [sparkAmount, setSparkAmount] = createSignal('');
+  const [sparkMint, setSparkMint] = createSignal('');
+  const [recipient, setRecipient] = createSignal('');
+  const [nutzapAmount, setNutzapAmount] = createSignal('');
+  const [comment, setComment] = createSignal('');
+
+  const run = async <T,>(action: () => Promise<T>, onSuccess: (result: T) => void) => {
+    setIsBusy(true);
+
+    try {
+      onSuccess(await action());
+    } catch (reason) {
+      logWarning('Cashu wallet action failed: ', reason);
+      toast?.sendWarning(intl.formatMessage(tCashu.failed, { reason: `${reason}` }));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const amountOf = (value: string) => {
+    const amount = parseInt(value);
+
+    return isNaN(amount) || amount <= 0 ? 0 : amount;
+  };
+
+  const selectedMint = () => sparkMint() || cashuMints()[0] || cashuDefaultMint;
+
+  const onCreate = () => run(
+    () => createCashuWallet([cashuDefaultMint]),
+    () => toast?.sendSuccess(intl.formatMessage(tCashu.created)),
+  );
+
+  const onAddMint = () => {
+    const url = mintUrl().trim();
+
+    if (!url.startsWith('https://')) {
+      toast?.sendWarning(intl.formatMessage(tCashu.invalidMint));
+      return;
+    }
+
+    run(() => addCashuMint(url), () => setMintUrl(''));
+  };
+
+  const onRedeem = () => run(
+    () => redeemCashuToken(token()),
+    (amount) => {
+      setToken('');
+      toast?.sendSuccess(intl.formatMessage(tCashu.received, { amount }));
+    },
+  );
+
+  const onPay = () => run(
+    () => meltCashu(invoice().trim()),
+    ({ amount }) => {
+      setInvoice('');
+      toast?.sendSuccess(intl.formatMessage(tCashu.paid, { amount }));
+    },
+  );
+
+  const onDeposit = () => {
+    const amount = amountOf(sparkAmount());
+
+    if (!amount) return;
+
+    run(
+      () => mintCashu(selectedMint(), amount, (pr) => sparkWallet.actions.sendPayment(pr)),
+      (minted) => {
+        setSparkAmount('');
+        toast?.sendSuccess(intl.formatMessage(tCashu.received, { amount: minted }));
+      },
+    );
+  };
+
+  const onWithdraw = () => {
+    const amount = amountOf(sparkAmount());
+
+    if (!amount) return;
+
+    run(
+      async () => meltCashu(await sparkWallet.actions.createInvoice(amount, 'Cashu withdrawal')),
+      (result) => {
+        setSparkAmount('');
+        toast?.sendSuccess(intl.formatMessage(tCashu.paid, { amount: result.amount }));
+      },
+    );
+  };
+
+  const onSendNutzap = () => {
+    const amount = amountOf(nutzapAmount());
+    let pubkey = recipient().trim();
+
+    try {
+      const decoded = nip19.decode(pubkey);
+
+      if (decoded.type === 'npub') pubkey = decoded.data;
+      if (decoded.type === 'nprofile') pubkey = decoded.data.pubkey;
+    } catch {
+      // Not bech32, use it as a hex pubkey
+    }
+
+    if (!amount || !/^[0-9a-f]{64}$/.test(pubkey)) {
+      toast?.sendWarning(intl.formatMessage(tCashu.invalidNutzap));
+      return;
+    }
+
+    run(
+      () => sendNutzap(pubkey, amount, comment()),
+      () => {
+        setNutzapAmount('');
+        setComment('');
+        toast?.sendSuccess(intl.formatMessage(tCashu.nutzapSent, { amount }));
+      },
+    );
+  };
+
+  const onCheckNutzaps = () => run(
+    () => receiveNutzaps(),
+    (amount) => toast?.sendInfo(intl.formatMessage(tCashu.nutzapsReceived, { amount })),
+  );
+
+  return (
+    <div>
+      <PageTitle title={`${intl.formatMessage(t.cashuWallet.title)} ${intl.formatMessage(t.title)}`} />
+
+      <PageCaption>
+        <A href='/settings'>{intl.formatMessage(t.index.title)}</A>:&nbsp;
+        <div>{intl.formatMessage(t.cashuWallet.title)}</div>
+      </PageCaption>
+
+      <div class={styles.settingsContent}>
+        <div class={styles.moderationDescription}>
+          {intl.formatMessage(tCashu.description)}
+        </div>
+      </div>
+
+      <Show
+        when={cashuWallet.isLoaded}
+        fallback={
+          <div class={styles.settingsContent}>
+            <div class={styles.settingsDescription}>{intl.formatMessage(tCashu.loading)}</div>
+          </div>
+        }
+      >
+        <Show
+          when={cashuWallet.privkey}
+          fallback={
+            <div class={styles.settingsContent}>
+              <ButtonPrimary onClick={onCreate} disabled={isBusy()}>
+                {intl.formatMessage(tCashu.create)}
+              </ButtonPrimary>
+            </div>
+          }
+        >
+          <div class={styles.settingsContent}>
+            <div class={styles.bigCaption}>
+              {intl.formatMessage(tCashu.balance, { amount: cashuBalance() })}
+            </div>
+
+            <For each={cashuMints()}>
+              {mint => (
+                <div class={styles.mirrorServer}>
+                  <div class={styles.label}>
+                    {mint} ({cashuBalance(mint).toLocaleString()} sats)
+                  </div>
+                  <Show when={cashuWallet.mints.includes(mint)}>
+                    <div class={styles.actions}>
+                      <ButtonSecondary
+                        onClick={() => run(() => removeCashuMint(mint), () => {})}
+                        disabled={isBusy()}
+                        shrink={true}
+                      >
+                        {intl.formatMessage(tCashu.removeMint)}
+                      </ButtonSecondary>
+                    </div>
+                  </Show>
+                </div>
+              )}
+            </For>
+
+            <div class={`${styles.settingsCaption} ${styles.secondCaption}`}>
+              {intl.formatMessage(tCashu.addMint)}
+            </div>
+            <div class={styles.relayInput}>
+              <div class={styles.webIcon}></div>
+              <input
+                type="text"
+                placeholder="https://"
+                value={mintUrl()}
+                onInput={(e) => setMintUrl(e.currentTarget.value)}
+                onChange={onAddMint}
+              />
+              <button onClick={onAddMint} disabled={isBusy()}>
+                <div class={styles.connectIcon}></div>
+              </button>
+            </div>
+          </div>
+
+          <div class={styles.settingsContent}>
+            <div class={styles.settingsCaption}>{intl.formatMessage(tCashu.redeem)}</div>
+            <div class={styles.cashuForm}>
+              <textarea
+                rows={3}
+                placeholder="cashuA..."
+                value={token()}
+                onInput={(e) => setToken(e.currentTarget.value)}
+              />
+              <ButtonPrimary onClick={onRedeem} disabled={isBusy() || !token().trim()}>
+                {intl.formatMessage(tCashu.redeemAction)}
+              </ButtonPrimary>
+            </div>
+
+            <div class={styles.settingsCaption}>{intl.formatMessage(tCashu.pay)}</div>
+            <div class={styles.cashuForm}>
+              <input
+                type="text"
+                placeholder="lnbc..."
+                value={invoice()}
+                onInput={(e) => setInvoice(e.currentTarget.value)}
+              />
+              <ButtonPrimary onClick={onPay} disabled={isBusy() || !invoice().trim()}>
+                {intl.formatMessage(tCashu.payAction)}
+              </ButtonPrimary>
+            </div>
+
+            <Show when={sparkWallet.store.isConnected}>
+              <div class={styles.settingsCaption}>{intl.formatMessage(tCashu.spark)}</div>
+              <div class={styles.cashuForm}>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder={intl.formatMessage(tCashu.amount)}
+                  value={sparkAmount()}
+                  onInput={(e) => setSparkAmount(e.currentTarget.value)}
+                />
+                <select value={selectedMint()} onChange={(e) => setSparkMint(e.currentTarget.value)}>
+                  <For each={cashuWallet.mints}>
+                    {mint => <option value={mint}>{mint}</option>}
+                  </For>
+                </select>
+                <div class={styles.cashuActions}>
+                  <ButtonSecondary onClick={onWithdraw} disabled={isBusy() || !amountOf(sparkAmount())}>
+                    {intl.formatMessage(tCashu.withdraw)}
+                  </ButtonSecondary>
+                  <ButtonPrimary onClick={onDeposit} disabled={isBusy() || !amountOf(sparkAmount())}>
+                    {intl.formatMessage(tCashu.deposit)}
+                  </ButtonPrimary>
+                </div>
+              </div>
+            </Show>
+          </div>
+
+          <div class={styles.settingsContent}>
+            <div class={styles.bigCaption}>{intl.formatMessage(tCashu.nutzaps)}</div>
+            <div class={styles.moderationDescription}>
+              {intl.formatMessage(tCashu.nutzapsDescription)}
+            </div>
+
+            <ButtonSecondary onClick={onCheckNutzaps} disabled={isBusy()}>
+              {intl.formatMessage(tCashu.checkNutzaps)}
+            </ButtonSecondary>
+
+            <div class={`${styles.settingsCaption} ${styles.secondCaption}`}>
+              {intl.formatMessage(tCashu.sendNutzap)}
+            </div>
+            <div class={styles.cashuForm}>
+              <input
+                type="text"
+                placeholder="npub..."
+                value={recipient()}
+                onInput={(e) => setRecipient(e.currentTarget.value)}
+              />
+              <input
+                type="number"
+                min={1}
+                placeholder={intl.formatMessage(tCashu.amount)}
+                value={nutzapAmount()}
+                onInput={(e) => setNutzapAmount(e.currentTarget.value)}
+              />
+              <input
+                type="text"
+                placeholder={intl.formatMessage(tCashu.comment)}
+                value={comment()}
+                onInput={(e) => setComment(e.currentTarget.value)}
+              />
+              <ButtonPrimary onClick={onSendNutzap} disabled={isBusy()}>
+                {intl.formatMessage(tCashu.sendNutzapAction)}
+              </ButtonPrimary>
+            </div>
+          </div>
+
+          <div class={styles.settingsContentBorderless}>
+            <div class={styles.bigCaption}>{intl.formatMessage(tCashu.history)}</div>
+            <Show
+              when={cashuWallet.history.length > 0}
+              fallback={<div class={styles.settingsDescription}>{intl.formatMessage(tCashu.noHistory)}</div>}
+            >
+              <For each={cashuWallet.history}>
+                {entry => (
+                  <div class={styles.mirrorServer}>
+                    <div class={styles.label}>
+                      {entry.direction === 'in' ? '+' : '-'}{entry.amount.toLocaleString()} sats
+                      <Show when={entry.redeemed.length > 0}>
+                        &nbsp;({intl.formatMessage(tCashu.nutzap)})
+                      </Show>
+                    </div>
+                    <div class={styles.settingsDescription}>{longDate(entry.created_at)}</div>
+                  </div>
+                )}
+              </For>
+            </Show>
+          </div>
+        </Show>
+      </Show>
+    </div>
+  );
+};
+
+export default CashuWallet;
@@ -68,6 +68,10 @@ const Menu: Component = () => {
             {intl.formatMessage(t.nwcSettings.title)}
             <div class={styles.chevron}></div>
           </A>
+          <A href="/settings/cashu">
+            {intl.formatMessage(t.cashuWallet.title)}
+            <div class={styles.chevron}></div>
+          </A>
           <A href="/settings/notifications">
             {intl.formatMessage(t.notifications.title)}
             <div class={styles.chevron}></div>
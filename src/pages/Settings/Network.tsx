@@ -2,7 +2,7 @@ import { Component, createEffect, createSignal, For, Match, onMount, Show, Switc
 import { Relay, relayInit } from "../../lib/nTools";
 import styles from './Settings.module.scss';
 
-import { useIntl } from '@cookbook/solid-intl';
+import { MessageDescriptor, useIntl } from '@cookbook/solid-intl';
 import {
   settings as t,
   actions as tActions,
@@ -14,7 +14,16 @@ import { A } from '@solidjs/router';
 import { useAccountContext } from '../../contexts/AccountContext';
 import { getDefaultRelays } from '../../lib/relays';
 import { APP_ID } from '../../App';
-import { isConnected as isSocketConnected, socket, subsTo } from '../../sockets';
+import {
+  cacheEndpointHealth,
+  checkCacheEndpoints,
+  isConnected as isSocketConnected,
+  rankedCacheEndpoints,
+  readCacheFallbacks,
+  saveCacheFallbacks,
+  socket,
+  subsTo,
+} from '../../sockets';
 import { createStore } from 'solid-js/store';
 import ConfirmModal from '../../components/ConfirmModal/ConfirmModal';
 import { interpretBold } from '../../translationHelpers';
@@ -24,6 +33,11 @@ import ButtonLink from '../../components/Buttons/ButtonLink';
 import { logError } from '../../lib/logger';
 import { useSettingsContext } from '../../contexts/SettingsContext';
 import CheckBox from '../../components/Checkbox/CheckBox';
+import PublishStatusList from '../../components/PublishStatus/PublishStatusList';
+import { publishQueue } from '../../lib/publishQueue';
+import { publishStatus as tPublishStatus } from '../../translations';
+import { isRelayAuthenticated, relayAuthPolicy, setRelayAuthPolicy } from '../../lib/relayAuth';
+import { RelayAuthPolicy } from '../../types/primal';
 
 
 const Network: Component = () => {
@@ -36,9 +50,18 @@ const Network: Component = () => {
   const [confirmRemoveRelay, setConfirmRemoveRelay] = createSignal('');
   const [invalidCustomRelay, setInvalidCustomRelay] = createSignal(false);
   const [invalidCachingService, setInvalidCachingService] = createSignal(false);
+  const [invalidFallbackService, setInvalidFallbackService] = createSignal(false);
+  const [cacheFallbacks, setCacheFallbacks] = createSignal<string[]>(readCacheFallbacks());
+
+  const authPolicies: { value: RelayAuthPolicy, label: MessageDescriptor }[] = [
+    { value: 'always', label: t.network.relayAuthAlways },
+    { value: 'ask', label: t.network.relayAuthAsk },
+    { value: 'never', label: t.network.relayAuthNever },
+  ];
 
   let customRelayInput: HTMLInputElement | undefined;
   let cachingServiceInput: HTMLInputElement | undefined;
+  let fallbackServiceInput: HTMLInputElement | undefined;
 
   const relays = () => {
     let settingsRelays = [];
@@ -140,6 +163,10 @@ const Network: Component = () => {
     }
   }
 
+  const outgoingEvents = () => Object.values(publishQueue).
+    filter(e => e.event.pubkey === account?.publicKey).
+    sort((a, b) => b.createdAt - a.createdAt);
+
   const resetRelays = () => {
     account?.actions.resetRelays(recomendedRelays);
   }
@@ -164,6 +191,46 @@ const Network: Component = () => {
     }
   }
 
+  const cacheEndpoints = () => {
+    // Re-rank whenever the list of fallbacks changes
+    cacheFallbacks();
+    return rankedCacheEndpoints();
+  };
+
+  const onFallbackServiceInput = () => {
+    if (!fallbackServiceInput || fallbackServiceInput.value === '') {
+      return;
+    }
+
+    try {
+      const url = new URL(fallbackServiceInput.value);
+      if (!url.origin.startsWith('wss://') && !url.origin.startsWith('ws://')) {
+        throw(new Error('must be a wss'))
+      }
+
+      fallbackServiceInput.value = '';
+
+      const fallbacks = Array.from(new Set([ ...cacheFallbacks(), url.href ]));
+      saveCacheFallbacks(fallbacks);
+      setCacheFallbacks(fallbacks);
+      setInvalidFallbackService(false);
+      checkCacheEndpoints();
+    } catch (e) {
+      logError('invalid fallback caching service input', e);
+      setInvalidFallbackService(true);
+    }
+  };
+
+  const removeFallbackService = (url: string) => {
+    const fallbacks = cacheFallbacks().filter(u => u !== url);
+    saveCacheFallbacks(fallbacks);
+    setCacheFallbacks(fallbacks);
+  };
+
+  onMount(() => {
+    checkCacheEndpoints();
+  });
+
   createEffect(() => {
     const unsub = subsTo(`settings_drs_${APP_ID}`, {
       onEvent: (_, content) => {
@@ -248,6 +315,67 @@ const Network: Component = () => {
       >
         {intl.formatMessage(tActions.restoreCachingService)}
       </ButtonLink>
+
+      <div class={`${styles.settingsCaption} ${styles.secondCaption}`}>
+        <div>
+          {intl.formatMessage(t.network.cacheFailover)}
+        </div>
+        <HelpTip>
+          <span>{intl.formatMessage(t.network.cacheFailoverHelp)}</span>
+        </HelpTip>
+      </div>
+
+      <For each={cacheEndpoints()}>
+        {url => (
+          <div class={`${styles.relayItem} ${styles.extended}`}>
+            <div class={styles.relayEntry}>
+              <Switch fallback={<div class={styles.suspended}></div>}>
+                <Match when={url === socket()?.url && isSocketConnected()}>
+                  <div class={styles.connected}></div>
+                </Match>
+                <Match when={(cacheEndpointHealth[url]?.failures || 0) > 0}>
+                  <div class={styles.disconnected}></div>
+                </Match>
+              </Switch>
+              <div class={styles.webIcon}></div>
+              <span class={styles.relayUrl} title={url}>
+                {url}
+              </span>
+              <Show when={cacheEndpointHealth[url]?.latency !== undefined}>
+                <span class={styles.cacheLatency}>
+                  {intl.formatMessage(t.network.cacheLatency, { latency: cacheEndpointHealth[url]?.latency })}
+                </span>
+              </Show>
+            </div>
+            <Show when={cacheFallbacks().includes(url)}>
+              <button class={styles.remove} onClick={() => removeFallbackService(url)}>
+                {intl.formatMessage(tActions.removeRelay)}
+              </button>
+            </Show>
+          </div>
+        )}
+      </For>
+
+      <div
+        class={styles.relayInput}
+      >
+        <div class={styles.webIcon}></div>
+        <input
+          ref={fallbackServiceInput}
+          type="text"
+          placeholder={intl.formatMessage(tPlaceholders.cachingServiceUrl)}
+          onChange={() => onFallbackServiceInput()}
+        />
+        <button onClick={() => onFallbackServiceInput()}>
+          <div class={styles.connectIcon}></div>
+        </button>
+      </div>
+
+      <Show when={invalidFallbackService()}>
+        <div class={styles.invalidInput}>
+          {intl.formatMessage(tErrors.invalidRelayUrl)}
+        </div>
+      </Show>
     </div>
 
       <div class={styles.settingsContent}>
@@ -288,6 +416,12 @@ const Network: Component = () => {
                 <span class={styles.relayUrl} title={relay.url}>
                   {relay.url}
                 </span>
+                <Show when={isRelayAuthenticated(relay.url)}>
+                  <div
+                    class={styles.lockIcon}
+                    title={intl.formatMessage(t.network.relayAuthenticated)}
+                  ></div>
+                </Show>
               </div>
 
               <div class={styles.remove}>
@@ -319,6 +453,44 @@ const Network: Component = () => {
         </HelpTip>
       </div>
 
+      <Show when={relays().length > 0}>
+        <div class={styles.settingsContentBorderless}>
+          <div class={`${styles.settingsCaption} ${styles.secondCaption}`}>
+            <div>
+              {intl.formatMessage(t.network.relayAuth)}
+            </div>
+            <HelpTip>
+              <span>{intl.formatMessage(t.network.relayAuthHelp)}</span>
+            </HelpTip>
+          </div>
+
+          <For each={relays()}>
+            {relay => (
+              <div class={`${styles.relayItem} ${styles.extended}`}>
+                <div class={styles.relayEntry}>
+                  <div class={styles.webIcon}></div>
+                  <span class={styles.relayUrl} title={relay.url}>
+                    {relay.url}
+                  </span>
+                </div>
+                <div class={styles.authPolicy}>
+                  <For each={authPolicies}>
+                    {policy => (
+                      <button
+                        classList={{ [styles.selected]: relayAuthPolicy(relay.url) === policy.value }}
+                        onClick={() => setRelayAuthPolicy(relay.url, policy.value)}
+                      >
+                        {intl.formatMessage(policy.label)}
+                      </button>
+                    )}
+                  </For>
+                </div>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+
       <div class={styles.settingsContentBorderless}>
         <div class={`${styles.settingsCaption} ${styles.secondCaption}`}>
           {intl.formatMessage(t.network.customRelay)}
@@ -368,6 +540,18 @@ const Network: Component = () => {
         </div>
       </div>
 
+      <div class={styles.settingsContent}>
+        <div class={styles.bigCaption}>
+          {intl.formatMessage(tPublishStatus.sectionTitle)}
+        </div>
+
+        <div class={styles.moderationDescription}>
+          {intl.formatMessage(tPublishStatus.sectionDescription)}
+        </div>
+
+        <PublishStatusList entries={outgoingEvents()} />
+      </div>
+
       <div style="height: 64px"></div>
 
       <ConfirmModal
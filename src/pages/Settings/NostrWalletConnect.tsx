@@ -11,16 +11,18 @@ import logo from "../../assets/icons/logo.svg";
 import nwc from "../../assets/icons/nwc.svg";
 import sparkLogo from "../../assets/icons/spark-logo.svg";
 import NWCItem from '../../components/NWCItem/NWCItem';
+import NWCDetails from '../../components/NWCItem/NWCDetails';
 import AdvancedSearchDialog from '../../components/AdvancedSearch/AdvancedSearchDialog';
 import { TextField } from '@kobalte/core/text-field';
 import { Switch } from '@kobalte/core/switch';
 import ButtonSecondary from '../../components/Buttons/ButtonSecondary';
 import ButtonPrimary from '../../components/Buttons/ButtonPrimary';
-import { logInfo } from '../../lib/logger';
+import { logInfo, logWarning } from '../../lib/logger';
 import { useAccountContext } from '../../contexts/AccountContext';
 import { useSparkWallet } from '../../contexts/SparkWalletContext';
 import { useSettingsContext } from '../../contexts/SettingsContext';
-import { checkPrimalWalletActive, connectPrimalWalletActive, decodeNWCUri, sendNWCInfoEvent } from '../../lib/wallet';
+import { checkPrimalWalletActive, connectPrimalWalletActive, decodeNWCUri } from '../../lib/wallet';
+import { fetchNWCCapabilities } from '../../lib/nwc';
 import { createStore } from 'solid-js/store';
 import { encrypt, decrypt } from '../../lib/nostrAPI';
 import { loadNWC, loadNWCActive, saveNWC, saveNWCActive } from '../../lib/localStore';
@@ -155,7 +157,9 @@ const NostrWalletConnect: Component = () => {
 
     const uriConfig = decodeNWCUri(uri);
 
-    sendNWCInfoEvent(uriConfig);
+    fetchNWCCapabilities(uriConfig, true).catch((e) => {
+      logWarning('Failed to fetch NWC capabilities: ', e);
+    });
 
     updateNWCSettings();
   };
@@ -261,15 +265,18 @@ const NostrWalletConnect: Component = () => {
           />
           <For each={account?.nwcList}>
             {([name, uri]) => (
-              <NWCItem
-                logo={nwc}
-                name={name}
-                desc={'Nostr Wallet Connect'}
-                status={walletStatus[name] || 'active'}
-                onConnect={() => connectToNWCWallet(name, uri)}
-                onRemove={() => removeNWC(name)}
-                onDisconnect={() => disconnectNWC(name)}
-              />
+              <>
+                <NWCItem
+                  logo={nwc}
+                  name={name}
+                  desc={'Nostr Wallet Connect'}
+                  status={walletStatus[name] || 'active'}
+                  onConnect={() => connectToNWCWallet(name, uri)}
+                  onRemove={() => removeNWC(name)}
+                  onDisconnect={() => disconnectNWC(name)}
+                />
+                <NWCDetails name={name} nwcEnc={uri} />
+              </>
             )}
           </For>
           <NWCItem
@@ -7,6 +7,8 @@ import PageCaption from '../../components/PageCaption/PageCaption';
 import { A } from '@solidjs/router';
 import SettingsZap from '../../components/SettingsZap/SettingsZap';
 import PageTitle from '../../components/PageTitle/PageTitle';
+import ZapRouting from '../../components/ZapRouting/ZapRouting';
+import RecurringZaps from '../../components/RecurringZaps/RecurringZaps';
 
 const Zaps: Component = () => {
 
@@ -23,6 +25,18 @@ const Zaps: Component = () => {
       <div class={styles.settingsContent}>
         <SettingsZap />
       </div>
+      <div class={styles.settingsContent}>
+        <div class={styles.bigCaption}>
+          {intl.formatMessage(t.zapRouting)}
+        </div>
+        <ZapRouting />
+      </div>
+      <div class={styles.settingsContent}>
+        <div class={styles.bigCaption}>
+          {intl.formatMessage(t.recurringZaps)}
+        </div>
+        <RecurringZaps />
+      </div>
     </>
   )
 }
@@ -1,4 +1,4 @@
-import { batch, Component, createEffect, createSignal, For, on, onCleanup, Show } from 'solid-js';
+import { batch, Component, createEffect, createMemo, createSignal, For, on, onCleanup, Show } from 'solid-js';
 
 import styles from './StreamPage.module.scss';
 import { toast as t } from '../translations';
@@ -16,7 +16,7 @@ import Avatar from '../components/Avatar/Avatar';
 import { emptyUser, userName } from '../stores/profile';
 import { humanizeNumber } from '../lib/stats';
 import FollowButton from '../components/FollowButton/FollowButton';
-import { createStore } from 'solid-js/store';
+import { createStore, reconcile } from 'solid-js/store';
 import { date } from '../lib/dates';
 import { APP_ID } from '../App';
 import { readData, refreshSocketListeners, removeSocketListeners, socket } from '../sockets';
@@ -41,6 +41,22 @@ import CheckBox from '../components/Checkbox/CheckBox';
 import TopZapModal from '../components/TopZapsModal/TopZapModal';
 import Paginator from '../components/Paginator/Paginator';
 import { Kind } from '../constants';
+import {
+  applyModerationAction,
+  chatRestriction,
+  currentOwnModeration,
+  emptyStreamModeration,
+  fetchIsFollowing,
+  mergeModeration,
+  moderateChat,
+  moderationFromEvent,
+  sendStreamModeration,
+  slowModeOptions,
+  StreamModerationAction,
+  streamModerators,
+  subscribeToStreamModeration,
+} from '../lib/streamModeration';
+import { fetchStreamHistory, replayedChat, replayWindow, zapChapters } from '../lib/streamReplay';
 
 const CHAT_PAGE_SIZE = 25;
 
@@ -229,6 +245,137 @@ const StreamPage: Component = () => {
 
   let mutedEvents: NostrEventContent[]= [];
 
+  // Latest moderation state published by each moderator, keyed by `moderationKey`
+  const [moderationEvents, setModerationEvents] = createStore<Record<string, NostrRelaySignedEvent>>({});
+  const [followsHost, setFollowsHost] = createStore<Record<string, boolean>>({});
+  const [lastMessageAt, setLastMessageAt] = createSignal<number>();
+
+  const moderators = () => streamModerators(streamData.event);
+
+  const isModerator = () => !!account?.publicKey && moderators().includes(account.publicKey);
+
+  const streamCoordinate = () => `${Kind.LiveEvent}:${streamData.pubkey}:${streamData.id}`;
+
+  const moderationKey = (pubkey: string) => `${pubkey}:${streamCoordinate()}`;
+
+  const moderation = createMemo(() => mergeModeration(Object.values(moderationEvents), moderators(), streamCoordinate()));
+
+  createEffect(on(() => [streamData.id, streamData.pubkey, account?.activeRelays.length], () => {
+    setModerationEvents(reconcile({}));
+
+    if (!streamData.id || !streamData.pubkey || !account?.activeRelays.length) return;
+
+    const coordinate = streamCoordinate();
+
+    const unsub = subscribeToStreamModeration(coordinate, account.activeRelays, (event) => {
+      if (!event.tags.some(t => t[0] === 'd' && t[1] === coordinate)) return;
+
+      const key = moderationKey(event.pubkey);
+      const known = moderationEvents[key];
+
+      if (!known || known.created_at < event.created_at) {
+        setModerationEvents(key, () => ({ ...event }));
+      }
+    });
+
+    onCleanup(unsub);
+  }));
+
+  let checkingFollowers: string[] = [];
+
+  // Followers-only chat needs to know who follows the host
+  createEffect(() => {
+    const hostPubkey = streamData.pubkey;
+
+    if (!moderation().followersOnly || !hostPubkey) return;
+
+    const authors = events.reduce<string[]>((acc, e) =>
+      e.kind === Kind.LiveChatMessage && e.pubkey && followsHost[e.pubkey] === undefined && !acc.includes(e.pubkey) ?
+        [...acc, e.pubkey] :
+        acc,
+    []).filter(pk => !checkingFollowers.includes(pk));
+
+    checkingFollowers = [...checkingFollowers, ...authors];
+
+    authors.forEach(async (pubkey) => {
+      const isFollowing = await fetchIsFollowing(pubkey, hostPubkey);
+      setFollowsHost(pubkey, isFollowing);
+    });
+  });
+
+  const visibleEvents = createMemo(() => moderateChat(events, moderation(), moderators(), followsHost));
+
+  // Playback position of the recording, set once the replay of an ended stream starts
+  const [replayTime, setReplayTime] = createSignal<number>();
+
+  const replayStarts = () => streamData.starts || replayWindow(streamData.event).starts;
+
+  createEffect(on(() => streamData.id, () => setReplayTime(undefined)));
+
+  const chatEvents = createMemo(() => {
+    const time = replayTime();
+    const starts = replayStarts();
+
+    if (time === undefined || !starts) return visibleEvents();
+
+    return replayedChat(visibleEvents(), starts, time);
+  });
+
+  const replayChapters = createMemo(() => {
+    const starts = replayStarts();
+
+    if (streamData.status === 'live' || !starts) return [];
+
+    return zapChapters(events, starts, replayWindow(streamData.event).ends);
+  });
+
+  // The live feed only holds the latest part of the chat, relays may have the rest
+  const loadReplayHistory = async () => {
+    const starts = replayStarts();
+
+    if (!starts || !account?.activeRelays.length) return;
+
+    const history = await fetchStreamHistory(streamCoordinate(), starts, replayWindow(streamData.event).ends, account.activeRelays);
+
+    const missing = history.filter(e => !events.find(old => old.id === e.id));
+
+    if (missing.length === 0) return;
+
+    setEvents((old) => [...old, ...missing].sort((a, b) => (b.created_at || 0) - (a.created_at || 0)));
+
+    await userFetcher();
+  };
+
+  const onReplayTime = (time: number) => {
+    if (replayTime() === undefined) {
+      loadReplayHistory();
+    }
+
+    setReplayTime(time);
+  };
+
+  const pinnedMessage = () => {
+    const id = moderation().pinned;
+    return id ? events.find(e => e.id === id) as NostrLiveChat | undefined : undefined;
+  };
+
+  const moderate = async (action: StreamModerationAction) => {
+    if (!account?.publicKey || !isModerator()) return;
+
+    const own = moderationEvents[moderationKey(account.publicKey)];
+    const current = own ? currentOwnModeration(moderationFromEvent(own), moderation()) : emptyStreamModeration();
+    const state = applyModerationAction(current, action);
+
+    const { success, note } = await sendStreamModeration(state, streamCoordinate(), account.proxyThroughPrimal || false, account.activeRelays, account.relaySettings);
+
+    if (!success || !note) {
+      toast?.sendWarning('Failed to publish moderation');
+      return;
+    }
+
+    setModerationEvents(moderationKey(account.publicKey), () => ({ ...note }));
+  };
+
   const fetchMissingUsers = async (pubkeys: string[]) => {
     const subId = `fetch_missing_people_${APP_ID}`;
 
@@ -779,6 +926,19 @@ const StreamPage: Component = () => {
   const sendMessage = async (content: string) => {
     if (!account || content.length === 0) return;
 
+    const restriction = chatRestriction(
+      account.publicKey || '',
+      moderation(),
+      moderators(),
+      account.following.includes(streamData.pubkey || ''),
+      lastMessageAt(),
+    );
+
+    if (restriction) {
+      toast?.sendWarning(restriction);
+      return false;
+    }
+
     const eventCoodrinate = `${Kind.LiveEvent}:${streamData.pubkey}:${streamData.id}`;
 
     const messageEvent = {
@@ -792,6 +952,7 @@ const StreamPage: Component = () => {
     const { success, note } = await sendEvent(messageEvent, account.activeRelays, account.relaySettings, account.proxyThroughPrimal || false);
 
     if (success && note) {
+      setLastMessageAt(note.created_at);
       setEvents((es) => [{ ...note }, ...es ]);
       triggerImportEvents([note], `import_live_message_${APP_ID}`);
       return success;
@@ -1084,7 +1245,14 @@ const StreamPage: Component = () => {
             </div>
 
             <div class={styles.headerActions}>
-              <FollowButton person={host()} thick={true} />
+              <Show
+                when={account?.publicKey && account.publicKey === streamData.pubkey}
+                fallback={<FollowButton person={host()} thick={true} />}
+              >
+                <button class={styles.studioButton} onClick={() => navigate(`/live-studio/${streamData.id}`)}>
+                  Manage stream
+                </button>
+              </Show>
 
               <Show when={!showLiveChat()}>
                 <button class={styles.chatButton} onClick={() => setShowLiveChat(true)}>
@@ -1101,6 +1269,8 @@ const StreamPage: Component = () => {
             src={streamData.url || ''}
             stream={streamData}
             streamAuthor={host() || profile?.userProfile}
+            chapters={replayChapters()}
+            onReplayTime={onReplayTime}
           />
         </div>
 
@@ -1279,6 +1449,31 @@ const StreamPage: Component = () => {
                         }}
                       />
                     </div>
+                    <Show when={isModerator()}>
+                      <div class={styles.title}>
+                        Moderation
+                      </div>
+                      <div class={styles.checkOptions}>
+                        <CheckBox
+                          onChange={(checked: boolean) => moderate({ type: 'followersOnly', enabled: checked })}
+                          checked={moderation().followersOnly}
+                          label="Followers-only chat"
+                        />
+                      </div>
+                      <div class={styles.options}>
+                        <RadioBoxWithDesc
+                          options={slowModeOptions.map(seconds => ({
+                            value: `${seconds}`,
+                            label: seconds === 0 ? 'Slow mode off' : `Slow mode: ${seconds}s`,
+                            description: seconds === 0 ? 'Viewers can send messages as often as they like' : `Viewers can send one message every ${seconds} seconds`,
+                          }))}
+                          value={`${moderation().slowMode}`}
+                          onChange={(option: RadioBoxOption) => {
+                            moderate({ type: 'slowMode', seconds: parseInt(option.value) });
+                          }}
+                        />
+                      </div>
+                    </Show>
                   </div>
                 </Popover.Content>
          			</Popover.Portal>
@@ -1291,7 +1486,16 @@ const StreamPage: Component = () => {
 
         <div class={styles.chatMessages}>
           <Show when={initialLoadDone()}>
-            <For each={events.slice(0, chatMessageLimit())}>
+            <Show when={pinnedMessage()}>
+              {message => (
+                <div class={styles.pinnedMessage}>
+                  <div class={styles.pinnedLabel}>Pinned</div>
+                  {renderChatMessage(message())}
+                </div>
+              )}
+            </Show>
+
+            <For each={chatEvents().slice(0, chatMessageLimit())}>
               {event => renderEvent(event)}
             </For>
 
@@ -1307,6 +1511,15 @@ const StreamPage: Component = () => {
             <ChatMessageDetails
               config={selectedChatMesage()}
               onClose={() => setSelectedChatMessage(undefined)}
+              moderation={isModerator() ? {
+                isAuthorModerator: moderators().includes(selectedChatMesage()?.message.pubkey || ''),
+                isBanned: moderation().banned.includes(selectedChatMesage()?.message.pubkey || ''),
+                isPinned: moderation().pinned === selectedChatMesage()?.message.id,
+              } : undefined}
+              onModerate={(action: StreamModerationAction) => {
+                setSelectedChatMessage(undefined);
+                moderate(action);
+              }}
               onMute={(pubkey: string, unmute?: boolean) => {
 
                 if (unmute) {
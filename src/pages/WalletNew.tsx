@@ -11,6 +11,8 @@ import ButtonSecondary from '../components/Buttons/ButtonSecondary';
 import { TextField } from '@kobalte/core/text-field';
 import AdvancedSearchDialog from '../components/AdvancedSearch/AdvancedSearchDialog';
 import SparkPaymentsList from '../components/SparkPaymentsList/SparkPaymentsList';
+import SparkAccounting from '../components/SparkAccounting/SparkAccounting';
+import SparkZapInbox from '../components/SparkZapInbox/SparkZapInbox';
 import CurrencyDropdown from '../components/CurrencyDropdown/CurrencyDropdown';
 import LightningAddressCard from '../components/LightningAddressCard/LightningAddressCard';
 import LightningFlash from '../components/LightningFlash/LightningFlash';
@@ -19,6 +21,11 @@ import { generateMnemonic } from '@scure/bip39';
 import { wordlist } from '@scure/bip39/wordlists/english.js';
 import { useCurrencyConversion } from '../hooks/useCurrencyConversion';
 import { formatFiatAmount } from '../lib/currency';
+import { isPassphraseBackup, MIN_PASSPHRASE_LENGTH, PassphraseBackup } from '../lib/spark/sparkStorage';
+import { resolveSparkInput, sparkTargetNeedsAmount, SparkSendTarget } from '../lib/spark/sparkInput';
+import QrScanner from '../components/QrScanner/QrScanner';
+import SparkSpendingGuardSettings from '../components/SparkSpendingGuard/SparkSpendingGuardSettings';
+import type { OnchainConfirmationSpeed, PrepareSendPaymentResponse } from '@breeztech/breez-sdk-spark/web';
 
 import styles from './Wallet.module.scss';
 
@@ -40,18 +47,27 @@ const WalletContent: Component = () => {
   const [openCreateDialog, setOpenCreateDialog] = createSignal(false);
   const [openRestoreDialog, setOpenRestoreDialog] = createSignal(false);
   const [restoreMethod, setRestoreMethod] = createSignal<'backup' | 'manual' | 'file' | null>(null);
-  const [activeTab, setActiveTab] = createSignal<'payments' | 'topup'>('payments');
+  const [activeTab, setActiveTab] = createSignal<'payments' | 'topup' | 'zaps' | 'accounting'>('payments');
   const [backupToRelays, setBackupToRelays] = createSignal(false);
   const [showSettings, setShowSettings] = createSignal(false);
   const [hasBackedUpSeed, setHasBackedUpSeed] = createSignal(false);
   const [isRestoring, setIsRestoring] = createSignal(false);
   const [dialogMode, setDialogMode] = createSignal<'create' | 'reveal'>('create');
+  const [openPassphraseExport, setOpenPassphraseExport] = createSignal(false);
+  const [passphrase, setPassphrase] = createSignal('');
+  const [passphraseConfirm, setPassphraseConfirm] = createSignal('');
+  const [isProcessingPassphrase, setIsProcessingPassphrase] = createSignal(false);
+  const [pendingPassphraseBackup, setPendingPassphraseBackup] = createSignal<PassphraseBackup | null>(null);
 
   // Send payment state
   const [paymentInput, setPaymentInput] = createSignal('');
   const [paymentAmount, setPaymentAmount] = createSignal('');
   const [isSendingPayment, setIsSendingPayment] = createSignal(false);
   const [isLightningAddress, setIsLightningAddress] = createSignal(false);
+  const [sendTarget, setSendTarget] = createSignal<SparkSendTarget>();
+  const [onchainQuote, setOnchainQuote] = createSignal<PrepareSendPaymentResponse>();
+  const [onchainSpeed, setOnchainSpeed] = createSignal<OnchainConfirmationSpeed>('medium');
+  const [showScanner, setShowScanner] = createSignal(false);
 
   // Calculate max sendable amount (99% of balance to account for fees)
   const maxSendableAmount = () => Math.floor(sparkWallet.store.balance * 0.99);
@@ -174,6 +190,15 @@ const WalletContent: Component = () => {
       if (data.mnemonic) {
         mnemonic = data.mnemonic;
       }
+      // Format 3: Passphrase protected backup, needs the passphrase instead of a Nostr key
+      else if (isPassphraseBackup(data)) {
+        setMnemonic('');
+        setPassphrase('');
+        setPendingPassphraseBackup(data);
+        toast?.sendInfo('Enter the passphrase this backup was created with');
+        input.value = '';
+        return;
+      }
       // Format 2: Encrypted mnemonic from Jumble/Sparkihonne/Primal (Versions 1 and 2)
       else if (data.encryptedMnemonic && data.type === 'spark-wallet-backup') {
         if (!account?.publicKey) {
@@ -307,10 +332,86 @@ const WalletContent: Component = () => {
     return input.includes('@') && input.includes('.');
   };
 
+  // Until the input is parsed, guess from its shape whether it needs an amount
+  const needsAmount = () => {
+    const target = sendTarget();
+    return target ? sparkTargetNeedsAmount(target) : isLightningAddress();
+  };
+
+  let parseTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  const parsePaymentInput = async (input: string) => {
+    if (!input) {
+      setSendTarget(undefined);
+      return;
+    }
+
+    try {
+      const { breezWallet } = await import('../lib/breezWalletService');
+      const target = resolveSparkInput(await breezWallet.parseInput(input));
+
+      // Input changed while parsing
+      if (paymentInput().trim() !== input) return;
+
+      setSendTarget(target);
+
+      if (target.kind === 'lnurlWithdraw' && !paymentAmount()) {
+        setPaymentAmount(`${target.maxSats}`);
+      }
+    } catch (error) {
+      setSendTarget(undefined);
+    }
+  };
+
+  const resetSendForm = () => {
+    setPaymentInput('');
+    setPaymentAmount('');
+    setIsLightningAddress(false);
+    setSendTarget(undefined);
+    setOnchainQuote(undefined);
+  };
+
   // Handle payment input change
   const handlePaymentInputChange = (value: string) => {
     setPaymentInput(value);
     setIsLightningAddress(checkIsLightningAddress(value.trim()));
+    setSendTarget(undefined);
+    setOnchainQuote(undefined);
+
+    clearTimeout(parseTimeout);
+    parseTimeout = setTimeout(() => parsePaymentInput(value.trim()), 400);
+  };
+
+  const handleScannedInput = (value: string) => {
+    setShowScanner(false);
+    handlePaymentInputChange(value);
+  };
+
+  // Check an outgoing amount against the balance
+  const checkSendAmount = (amount: number, min = 1, max = Infinity): boolean => {
+    if (!amount || amount < min) {
+      toast?.sendWarning(min > 1 ? `Minimum amount is ${min.toLocaleString()} sats` : 'Please enter a valid amount');
+      return false;
+    }
+
+    if (amount > max) {
+      toast?.sendWarning(`Maximum amount is ${max.toLocaleString()} sats`);
+      return false;
+    }
+
+    // Check if amount exceeds balance
+    if (amount > sparkWallet.store.balance) {
+      toast?.sendWarning(`Amount exceeds wallet balance of ${sparkWallet.store.balance.toLocaleString()} sats`);
+      return false;
+    }
+
+    // Warn if sending close to max (may fail due to fees)
+    if (amount > maxSendableAmount()) {
+      toast?.sendWarning('Amount too high. Lightning payments require ~1% fee buffer. Try sending less.');
+      return false;
+    }
+
+    return true;
   };
 
   // Send Payment Handler
@@ -321,69 +422,88 @@ const WalletContent: Component = () => {
       return;
     }
 
-    // If it's a Lightning address, we need an amount
-    if (isLightningAddress()) {
-      const amount = parseInt(paymentAmount());
+    setIsSendingPayment(true);
+    try {
+      // Import breez wallet service
+      const { breezWallet } = await import('../lib/breezWalletService');
 
-      if (!amount || amount < 1) {
-        toast?.sendWarning('Please enter an amount for this Lightning address');
-        return;
-      }
+      // Parse the input to determine what type it is
+      const target = resolveSparkInput(await breezWallet.parseInput(input));
+      setSendTarget(target);
 
-      // Check if amount exceeds balance
-      if (amount > sparkWallet.store.balance) {
-        toast?.sendWarning(`Amount exceeds wallet balance of ${sparkWallet.store.balance.toLocaleString()} sats`);
-        return;
-      }
+      const amountSats = parseInt(paymentAmount());
 
-      // Warn if sending close to max (may fail due to fees)
-      if (amount > maxSendableAmount()) {
-        toast?.sendWarning('Amount too high. Lightning payments require ~1% fee buffer. Try sending less.');
+      if (sparkTargetNeedsAmount(target) && (!amountSats || amountSats < 1)) {
+        toast?.sendWarning('Please enter an amount');
         return;
       }
-    }
 
-    setIsSendingPayment(true);
-    try {
-      // Import breez wallet service
-      const { breezWallet } = await import('../lib/breezWalletService');
+      switch (target.kind) {
+        case 'lnurlPay': {
+          // Handle Lightning address or LNURL pay
+          const sats = sparkTargetNeedsAmount(target) ? amountSats : target.minSats;
+          if (!checkSendAmount(sats, target.minSats, target.maxSats)) return;
 
-      // Parse the input to determine what type it is
-      const parsed = await breezWallet.parseInput(input);
+          // Prepare and execute the LNURL pay
+          const prepareResponse = await breezWallet.prepareLnurlPay(sats, target.payRequest);
+          await breezWallet.lnurlPay(prepareResponse);
 
-      if (parsed.type === 'lightningAddress' || parsed.type === 'lnurlPay') {
-        // Handle Lightning address or LNURL pay
-        const amountSats = parseInt(paymentAmount());
-        if (!amountSats || amountSats < 1) {
-          toast?.sendWarning('Please enter a valid amount');
+          toast?.sendSuccess('Payment sent successfully!');
+          break;
+        }
+        case 'payment': {
+          if (target.hasAmount) {
+            // Handle regular invoice
+            await sparkWallet.actions.sendPayment(target.paymentRequest);
+          } else {
+            const sats = target.amountSats || amountSats;
+            if (!checkSendAmount(sats)) return;
+
+            const prepareResponse = await breezWallet.preparePayment(target.paymentRequest, sats);
+            await breezWallet.sendPreparedPayment(prepareResponse);
+          }
+
+          toast?.sendSuccess('Payment sent successfully!');
+          break;
+        }
+        case 'onchain': {
+          const sats = target.amountSats || amountSats;
+          if (!checkSendAmount(sats)) return;
+
+          // Show the fee quote and let the user confirm
+          setOnchainQuote(await breezWallet.preparePayment(target.address, sats));
           return;
         }
+        case 'lnurlWithdraw': {
+          const sats = sparkTargetNeedsAmount(target) ? amountSats : target.maxSats;
 
-        // Get the pay request details from parsed input
-        // For Lightning addresses, the data is nested in parsed.payRequest
-        const payRequest = parsed.type === 'lightningAddress'
-          ? parsed.payRequest
-          : parsed;
+          if (sats < target.minSats || sats > target.maxSats) {
+            toast?.sendWarning(`This voucher allows ${target.minSats.toLocaleString()} to ${target.maxSats.toLocaleString()} sats`);
+            return;
+          }
 
-        // Prepare the LNURL pay
-        const prepareResponse = await breezWallet.prepareLnurlPay(amountSats, payRequest);
+          await breezWallet.lnurlWithdraw(sats, target.withdrawRequest);
+          toast?.sendSuccess(`Claimed ${sats.toLocaleString()} sats`);
+          break;
+        }
+        case 'lnurlAuth': {
+          const action = target.authRequest.action ? ` (${target.authRequest.action})` : '';
 
-        // Execute the LNURL pay
-        await breezWallet.lnurlPay(prepareResponse);
+          if (!confirm(`Log in to ${target.authRequest.domain}${action} with your Spark wallet key?`)) {
+            return;
+          }
 
-        toast?.sendSuccess('Payment sent successfully!');
-      } else if (parsed.type === 'bolt11Invoice' || parsed.type === 'sparkInvoice') {
-        // Handle regular invoice
-        await sparkWallet.actions.sendPayment(input);
-        toast?.sendSuccess('Payment sent successfully!');
-      } else {
-        toast?.sendWarning('Unsupported payment type. Please use a Lightning invoice or address.');
-        return;
+          await breezWallet.lnurlAuth(target.authRequest);
+          toast?.sendSuccess(`Logged in to ${target.authRequest.domain}`);
+          resetSendForm();
+          return;
+        }
+        default:
+          toast?.sendWarning('Unsupported payment type. Please use a Lightning invoice, address, LNURL or bitcoin address.');
+          return;
       }
 
-      setPaymentInput('');
-      setPaymentAmount('');
-      setIsLightningAddress(false);
+      resetSendForm();
 
       // Refresh payment history
       await sparkWallet.actions.loadPaymentHistory();
@@ -395,6 +515,60 @@ const WalletContent: Component = () => {
     }
   };
 
+  const onchainFee = (speed: OnchainConfirmationSpeed) => {
+    const method = onchainQuote()?.paymentMethod;
+
+    if (method?.type !== 'bitcoinAddress') return 0;
+
+    const quote = speed === 'fast' ? method.feeQuote.speedFast :
+      speed === 'slow' ? method.feeQuote.speedSlow :
+      method.feeQuote.speedMedium;
+
+    return quote.userFeeSat + quote.l1BroadcastFeeSat;
+  };
+
+  const handleSendOnchain = async () => {
+    const quote = onchainQuote();
+    if (!quote) return;
+
+    setIsSendingPayment(true);
+    try {
+      const { breezWallet } = await import('../lib/breezWalletService');
+      await breezWallet.sendPreparedPayment(quote, onchainSpeed());
+
+      toast?.sendSuccess('Onchain payment sent. It will confirm in the next blocks.');
+      resetSendForm();
+
+      await sparkWallet.actions.loadPaymentHistory();
+    } catch (error: any) {
+      console.error('Onchain payment failed:', error);
+      toast?.sendWarning(`Payment failed: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setIsSendingPayment(false);
+    }
+  };
+
+  const amountNote = () => {
+    const target = sendTarget();
+
+    if (target?.kind === 'lnurlWithdraw') {
+      return `Voucher allows ${target.minSats.toLocaleString()} to ${target.maxSats.toLocaleString()} sats`;
+    }
+
+    return `Max: ${maxSendableAmount().toLocaleString()} sats (includes ~1% fee buffer)`;
+  };
+
+  const sendButtonLabel = () => {
+    if (isSendingPayment()) return 'Sending...';
+
+    switch (sendTarget()?.kind) {
+      case 'lnurlWithdraw': return 'Claim Voucher';
+      case 'lnurlAuth': return 'Log In';
+      case 'onchain': return 'Review Onchain Payment';
+      default: return 'Send Payment';
+    }
+  };
+
   // Top Up Handlers
   const topUpPresets = [
     { amount: 10000, label: '10k' },
@@ -667,6 +841,84 @@ const WalletContent: Component = () => {
     }
   };
 
+  const resetPassphrase = () => {
+    setPassphrase('');
+    setPassphraseConfirm('');
+    setPendingPassphraseBackup(null);
+  };
+
+  const handleExportPassphraseBackup = async () => {
+    if (!account?.publicKey) {
+      toast?.sendWarning('Please log in first');
+      return;
+    }
+
+    if (passphrase().length < MIN_PASSPHRASE_LENGTH) {
+      toast?.sendWarning(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+
+    if (passphrase() !== passphraseConfirm()) {
+      toast?.sendWarning('Passphrases do not match');
+      return;
+    }
+
+    setIsProcessingPassphrase(true);
+
+    try {
+      const { loadEncryptedSeed, loadSparkConfig, createPassphraseBackup } = await import('../lib/spark/sparkStorage');
+      const seed = await loadEncryptedSeed(account.publicKey);
+
+      if (!seed) {
+        toast?.sendWarning('No wallet found to export');
+        return;
+      }
+
+      const backup = await createPassphraseBackup(seed, passphrase(), loadSparkConfig(account.publicKey));
+
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `spark-wallet-passphrase-backup-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      resetPassphrase();
+      setOpenPassphraseExport(false);
+      toast?.sendSuccess('Passphrase backup exported. Keep the passphrase safe, it cannot be recovered.');
+    } catch (error: any) {
+      console.error('Passphrase export failed:', error);
+      toast?.sendWarning(`Failed to export wallet: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setIsProcessingPassphrase(false);
+    }
+  };
+
+  const handleUnlockPassphraseBackup = async () => {
+    const backup = pendingPassphraseBackup();
+
+    if (!backup) return;
+
+    setIsProcessingPassphrase(true);
+
+    try {
+      const { restorePassphraseBackup } = await import('../lib/spark/sparkStorage');
+      const seed = await restorePassphraseBackup(backup, passphrase());
+
+      setMnemonic(seed);
+      resetPassphrase();
+      toast?.sendInfo(`Passphrase backup (v${backup.version}) unlocked successfully`);
+    } catch (error: any) {
+      console.error('Failed to unlock passphrase backup:', error);
+      toast?.sendWarning(error?.message || 'Failed to unlock backup');
+    } finally {
+      setIsProcessingPassphrase(false);
+    }
+  };
+
   const handleRevealSeedPhrase = async () => {
     if (!account?.publicKey) {
       toast?.sendWarning('Please log in first');
@@ -1057,6 +1309,18 @@ const WalletContent: Component = () => {
               >
                 Top Up
               </button>
+              <button
+                class={`${styles.tab} ${activeTab() === 'zaps' ? styles.tabActive : ''}`}
+                onClick={() => setActiveTab('zaps')}
+              >
+                Zaps
+              </button>
+              <button
+                class={`${styles.tab} ${activeTab() === 'accounting' ? styles.tabActive : ''}`}
+                onClick={() => setActiveTab('accounting')}
+              >
+                Accounting
+              </button>
             </div>
 
             {/* Tab Content */}
@@ -1066,21 +1330,30 @@ const WalletContent: Component = () => {
                 <div class={styles.sendPaymentSection}>
                   <div class={styles.sectionTitle}>Send Payment</div>
                   <div class={styles.sendPaymentForm}>
-                    <TextField class={styles.invoiceInput}>
-                      <TextField.Input
-                        placeholder="Paste invoice or Lightning address"
-                        value={paymentInput()}
-                        onInput={(e) => {
-                          const value = e.currentTarget.value;
-                          setPaymentInput(value);
-                          setIsLightningAddress(checkIsLightningAddress(value.trim()));
-                        }}
+                    <div class={styles.sendInputRow}>
+                      <TextField class={styles.invoiceInput}>
+                        <TextField.Input
+                          placeholder="Paste invoice, address, LNURL or bitcoin URI"
+                          value={paymentInput()}
+                          onInput={(e) => handlePaymentInputChange(e.currentTarget.value)}
+                          disabled={isSendingPayment()}
+                        />
+                      </TextField>
+                      <ButtonSecondary
+                        onClick={() => setShowScanner(true)}
                         disabled={isSendingPayment()}
-                      />
-                    </TextField>
+                        shrink={true}
+                      >
+                        Scan QR
+                      </ButtonSecondary>
+                    </div>
 
-                    {/* Amount Input for Lightning Addresses */}
-                    <Show when={isLightningAddress()}>
+                    <Show when={sendTarget()}>
+                      <div class={styles.lightningAddressNote}>{sendTarget()?.label}</div>
+                    </Show>
+
+                    {/* Amount Input for inputs without a fixed amount */}
+                    <Show when={needsAmount()}>
                       <div class={styles.amountInputRow}>
                         <TextField class={styles.paymentAmountInput}>
                           <TextField.Input
@@ -1097,17 +1370,52 @@ const WalletContent: Component = () => {
                         <span class={styles.amountUnit}>sats</span>
                       </div>
                       <div class={styles.lightningAddressNote}>
-                        Max: {maxSendableAmount().toLocaleString()} sats (includes ~1% fee buffer)
+                        {amountNote()}
                       </div>
                     </Show>
 
-                    <ButtonPrimary
-                      onClick={handleSendPayment}
-                      disabled={isSendingPayment() || !paymentInput() || (isLightningAddress() && !paymentAmount())}
+                    <Show
+                      when={onchainQuote()}
+                      fallback={
+                        <ButtonPrimary
+                          onClick={handleSendPayment}
+                          disabled={isSendingPayment() || !paymentInput() || (needsAmount() && !paymentAmount())}
+                        >
+                          {sendButtonLabel()}
+                        </ButtonPrimary>
+                      }
                     >
-                      {isSendingPayment() ? 'Sending...' : 'Send Payment'}
-                    </ButtonPrimary>
+                      <div class={styles.onchainSpeeds}>
+                        <For each={['fast', 'medium', 'slow'] as OnchainConfirmationSpeed[]}>
+                          {speed => (
+                            <button
+                              type="button"
+                              class={`${styles.onchainSpeed} ${onchainSpeed() === speed ? styles.selected : ''}`}
+                              onClick={() => setOnchainSpeed(speed)}
+                              disabled={isSendingPayment()}
+                            >
+                              <span>{speed[0].toUpperCase() + speed.slice(1)}</span>
+                              <span>{onchainFee(speed).toLocaleString()} sats fee</span>
+                            </button>
+                          )}
+                        </For>
+                      </div>
+                      <div class={styles.amountInputRow}>
+                        <ButtonSecondary onClick={() => setOnchainQuote(undefined)} disabled={isSendingPayment()}>
+                          Cancel
+                        </ButtonSecondary>
+                        <ButtonPrimary onClick={handleSendOnchain} disabled={isSendingPayment()}>
+                          {isSendingPayment() ? 'Sending...' : 'Send Onchain'}
+                        </ButtonPrimary>
+                      </div>
+                    </Show>
                   </div>
+
+                  <QrScanner
+                    open={showScanner()}
+                    onScan={handleScannedInput}
+                    onClose={() => setShowScanner(false)}
+                  />
                 </div>
 
                 {/* Payment History */}
@@ -1268,7 +1576,19 @@ const WalletContent: Component = () => {
               </div>
             </Show>
 
-            {/* Wallet Settings - Collapsible Section (visible in both tabs) */}
+            <Show when={activeTab() === 'zaps'}>
+              <div class={styles.tabContent}>
+                <SparkZapInbox />
+              </div>
+            </Show>
+
+            <Show when={activeTab() === 'accounting'}>
+              <div class={styles.tabContent}>
+                <SparkAccounting />
+              </div>
+            </Show>
+
+            {/* Wallet Settings - Collapsible Section (visible in all tabs) */}
             <div class={styles.walletSettingsCollapsible}>
               <button
                 class={styles.settingsToggle}
@@ -1289,6 +1609,9 @@ const WalletContent: Component = () => {
                         <ButtonSecondary onClick={handleExportWallet}>
                           Export Wallet
                         </ButtonSecondary>
+                        <ButtonSecondary onClick={() => setOpenPassphraseExport(true)}>
+                          Export with Passphrase
+                        </ButtonSecondary>
                         <ButtonSecondary onClick={handleRevealSeedPhrase}>
                           Reveal Seed Phrase
                         </ButtonSecondary>
@@ -1326,6 +1649,12 @@ const WalletContent: Component = () => {
                     </div>
                   </div>
 
+                  {/* Spending Protection */}
+                  <div class={styles.walletSettings}>
+                    <div class={styles.sectionTitle}>Spending Protection</div>
+                    <SparkSpendingGuardSettings />
+                  </div>
+
                   {/* Nostr Wallet Connect */}
                   <div class={styles.walletSettings}>
                     <div class={styles.sectionTitle}>Nostr Wallet Connect</div>
@@ -1522,6 +1851,7 @@ const WalletContent: Component = () => {
             setBackupToRelays(false);
             setRestoreMethod(null);
             setIsRestoring(false);
+            resetPassphrase();
           }
         }}
         triggerClass="hidden"
@@ -1589,6 +1919,28 @@ const WalletContent: Component = () => {
               </ButtonPrimary>
             </div>
 
+            <Show when={pendingPassphraseBackup()}>
+              <div class={styles.dialogInfo}>
+                This backup is protected with a passphrase and can be restored with any Nostr account.
+              </div>
+              <TextField class={styles.passphraseInput}>
+                <TextField.Input
+                  type="password"
+                  value={passphrase()}
+                  onInput={(e) => setPassphrase(e.currentTarget.value)}
+                  onKeyDown={(e: KeyboardEvent) => e.key === 'Enter' && handleUnlockPassphraseBackup()}
+                  placeholder="Backup passphrase"
+                  disabled={isProcessingPassphrase()}
+                />
+              </TextField>
+              <ButtonSecondary
+                onClick={handleUnlockPassphraseBackup}
+                disabled={isProcessingPassphrase() || !passphrase()}
+              >
+                {isProcessingPassphrase() ? 'Unlocking...' : 'Unlock Backup'}
+              </ButtonSecondary>
+            </Show>
+
             <Show when={mnemonic()}>
               <div class={styles.dialogSuccess}>
                 Wallet file loaded successfully! Click "Restore Wallet" below to continue.
@@ -1606,7 +1958,7 @@ const WalletContent: Component = () => {
             </div>
 
             <div class={styles.dialogInfo}>
-              Your wallet file will be encrypted and stored securely using your Nostr key.
+              The restored seed will be encrypted and stored securely using your current Nostr key.
             </div>
           </Show>
 
@@ -1660,6 +2012,7 @@ const WalletContent: Component = () => {
             onClick={() => {
               if (restoreMethod()) {
                 setRestoreMethod(null);
+                resetPassphrase();
                 setMnemonic('');
                 setShowMnemonic(false);
                 setBackupToRelays(false);
@@ -1696,6 +2049,62 @@ const WalletContent: Component = () => {
           </Show>
         </div>
       </AdvancedSearchDialog>
+
+      {/* Passphrase Backup Export Dialog */}
+      <AdvancedSearchDialog
+        open={openPassphraseExport()}
+        setOpen={(open: boolean) => {
+          setOpenPassphraseExport(open);
+          if (!open) {
+            resetPassphrase();
+          }
+        }}
+        triggerClass="hidden"
+        title={<div>Export with Passphrase</div>}
+      >
+        <div class={styles.dialogContent}>
+          <div class={styles.dialogDescription}>
+            <span>Create a backup file protected by a passphrase of your choice.</span>
+          </div>
+
+          <TextField class={styles.passphraseInput}>
+            <TextField.Input
+              type="password"
+              value={passphrase()}
+              onInput={(e) => setPassphrase(e.currentTarget.value)}
+              placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+              disabled={isProcessingPassphrase()}
+              autofocus
+            />
+          </TextField>
+          <TextField class={styles.passphraseInput}>
+            <TextField.Input
+              type="password"
+              value={passphraseConfirm()}
+              onInput={(e) => setPassphraseConfirm(e.currentTarget.value)}
+              placeholder="Repeat passphrase"
+              disabled={isProcessingPassphrase()}
+            />
+          </TextField>
+
+          <div class={styles.dialogInfo}>
+            The file does not depend on your Nostr key, so it still works after you rotate keys.
+            Anyone with the file and the passphrase can spend your funds, and a forgotten passphrase cannot be recovered.
+          </div>
+        </div>
+
+        <div class={styles.dialogActions}>
+          <ButtonSecondary onClick={() => setOpenPassphraseExport(false)}>
+            Cancel
+          </ButtonSecondary>
+          <ButtonPrimary
+            onClick={handleExportPassphraseBackup}
+            disabled={isProcessingPassphrase() || !passphrase() || !passphraseConfirm()}
+          >
+            {isProcessingPassphrase() ? 'Encrypting...' : 'Export Backup'}
+          </ButtonPrimary>
+        </div>
+      </AdvancedSearchDialog>
       </div>
     </Show>
   );
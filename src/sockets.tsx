@@ -1,8 +1,18 @@
 import { createSignal } from "solid-js";
-import { logError, logInfo } from "./lib/logger";
+import { createStore } from "solid-js/store";
+import { logError, logInfo, logWarning } from "./lib/logger";
 import { NostrEvent, NostrEOSE, NostrEventType, NostrEventContent, PrimalWindow, NostrNotice, NostrEvents } from "./types/primal";
 import pako from 'pako';
 import { APP_ID } from "./App";
+import {
+  cacheEndpointCooldown,
+  cacheFailoverThreshold,
+  cacheProbeTimeout,
+  cacheReconnectBase,
+  cacheReconnectMax,
+  cacheOutageThreshold,
+  cacheStallTimeout,
+} from "./constants";
 
 export const [reconnect, setReconnect] = createSignal(true);
 
@@ -12,6 +22,37 @@ export const [isConnected, setConnected] = createSignal<Boolean>(false);
 
 export const isNotConnected = () => !isConnected();
 
+/**
+ * True once the caching service has been unreachable for a while.
+ * Contexts read this to serve basic views straight from relays.
+ */
+export const [cacheUnavailable, setCacheUnavailable] = createSignal(false);
+
+let outageTimeout: ReturnType<typeof setTimeout> | undefined;
+
+const watchForOutage = () => {
+  if (outageTimeout !== undefined || cacheUnavailable()) return;
+
+  outageTimeout = setTimeout(() => {
+    outageTimeout = undefined;
+
+    if (isConnected()) return;
+
+    logWarning('Caching service is unreachable, switching to relay-only mode');
+    setCacheUnavailable(true);
+  }, cacheOutageThreshold);
+};
+
+const endOutage = () => {
+  clearTimeout(outageTimeout);
+  outageTimeout = undefined;
+
+  if (cacheUnavailable()) {
+    logInfo('Caching service is back, leaving relay-only mode');
+    setCacheUnavailable(false);
+  }
+};
+
 export const setPrimalProtocol = (compression: 'zlib', then: () => void) => {
 
   const subId = `set_protocol_${APP_ID}`;
@@ -30,16 +71,280 @@ export const setPrimalProtocol = (compression: 'zlib', then: () => void) => {
   ]), true);
 }
 
+// CACHE ENDPOINTS ------------------------------
+
+export type CacheEndpointHealth = {
+  failures: number,
+  latency?: number,
+  lastFailureAt?: number,
+  lastConnectedAt?: number,
+};
+
+export const [cacheEndpointHealth, setCacheEndpointHealth] = createStore<Record<string, CacheEndpointHealth>>({});
+
+export const readCacheFallbacks = () => {
+  try {
+    const list = JSON.parse(localStorage.getItem('cacheServers') || '[]');
+    return Array.isArray(list) ? list as string[] : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveCacheFallbacks = (urls: string[]) => {
+  localStorage.setItem('cacheServers', JSON.stringify(urls));
+};
+
+/**
+ * Every known endpoint in order of preference: the one the user picked,
+ * then the ones the build was configured with, then user-added fallbacks.
+ */
+export const getCacheEndpoints = () => {
+  const urls = [
+    localStorage.getItem('cacheServer') || '',
+    ...(import.meta.env.PRIMAL_CACHE_URL || '').split(','),
+    ...readCacheFallbacks(),
+  ].map(u => u.trim()).filter(u => u.length > 0);
+
+  return Array.from(new Set(urls));
+};
+
+const isCoolingDown = (url: string) => {
+  const health = cacheEndpointHealth[url];
+
+  if (!health || health.failures < cacheFailoverThreshold) return false;
+
+  return Date.now() - (health.lastFailureAt || 0) < cacheEndpointCooldown;
+};
+
+export const rankedCacheEndpoints = () => {
+  const urls = getCacheEndpoints();
+
+  return [ ...urls ].sort((a, b) => {
+    const cooling = Number(isCoolingDown(a)) - Number(isCoolingDown(b));
+
+    return cooling !== 0 ? cooling : urls.indexOf(a) - urls.indexOf(b);
+  });
+};
+
+const markFailure = (url: string) => {
+  setCacheEndpointHealth(url, (h) => ({
+    ...(h || { failures: 0 }),
+    failures: (h?.failures || 0) + 1,
+    lastFailureAt: Date.now(),
+  }));
+};
+
+const markSuccess = (url: string, latency: number) => {
+  setCacheEndpointHealth(url, () => ({
+    failures: 0,
+    latency,
+    lastConnectedAt: Date.now(),
+  }));
+};
+
+/**
+ * Opens a throwaway socket to see whether an endpoint is reachable.
+ * Resolves with the time it took to open.
+ */
+export const probeCacheEndpoint = (url: string) => new Promise<number>((resolve, reject) => {
+  const start = Date.now();
+  let ws: WebSocket;
+
+  try {
+    ws = new WebSocket(url);
+  } catch (e) {
+    markFailure(url);
+    reject(e);
+    return;
+  }
+
+  const timeout = setTimeout(() => {
+    ws.close();
+    markFailure(url);
+    reject('timeout');
+  }, cacheProbeTimeout);
+
+  ws.onopen = () => {
+    const latency = Date.now() - start;
+    clearTimeout(timeout);
+    ws.close();
+    setCacheEndpointHealth(url, (h) => ({ ...(h || {}), failures: 0, latency }));
+    resolve(latency);
+  };
+
+  ws.onerror = () => {
+    clearTimeout(timeout);
+    markFailure(url);
+    reject('error');
+  };
+});
+
+export const checkCacheEndpoints = () =>
+  Promise.allSettled(getCacheEndpoints().map(probeCacheEndpoint));
+
+const pickEndpoint = async () => {
+  const ranked = rankedCacheEndpoints();
+  const current = cacheServer;
+
+  // Stay put until the current endpoint has failed a few times in a row
+  if (current && ranked.includes(current) && !isCoolingDown(current)) {
+    return current;
+  }
+
+  for (let i = 0; i < ranked.length; i++) {
+    const url = ranked[i];
+
+    if (url === current) continue;
+
+    try {
+      await probeCacheEndpoint(url);
+      logInfo('Failing over to caching service: ', url);
+      return url;
+    } catch (e) {
+      logWarning('Caching service is not responding: ', url);
+    }
+  }
+
+  return ranked[0] || import.meta.env.PRIMAL_CACHE_URL;
+};
+
+// OPEN REQUESTS --------------------------------
+
+type OpenRequest = {
+  message: string,
+  sentAt: number,
+  // EOSE arrived, but the subscription keeps streaming until it is closed
+  isStreaming: boolean,
+};
+
+const openRequests = new Map<string, OpenRequest>();
+
+// Decompressed messages for `subsTo` listeners
+const messageListeners = new Set<(data: string) => void>();
+
+// Number of `subsTo` listeners per subscription id
+const listenedTo = new Map<string, number>();
+
+let lastMessageAt = 0;
+
+const trackRequest = (message: string) => {
+  if (!message.startsWith('["REQ"') && !message.startsWith('["CLOSE"')) return;
+
+  try {
+    const [type, subId] = JSON.parse(message);
+
+    if (type === 'REQ') {
+      openRequests.set(subId, { message, sentAt: Date.now(), isStreaming: false });
+    }
+    else {
+      openRequests.delete(subId);
+    }
+  } catch (e) {
+    return;
+  }
+};
+
+const dispatchMessage = async (event: MessageEvent) => {
+  lastMessageAt = Date.now();
+
+  const data = await readData(event);
+
+  messageListeners.forEach(listener => {
+    // One broken listener must not keep the message from the others
+    try {
+      listener(data);
+    } catch (e) {
+      logError('Cache message listener failed: ', e);
+    }
+  });
+
+  if (data.startsWith('["EOSE"') || data.startsWith('["NOTICE"')) {
+    try {
+      const [type, subId] = JSON.parse(data);
+      const request = openRequests.get(subId);
+
+      // Subscriptions someone still listens to stay open until CLOSE or unsubscribing
+      if (request && type === 'EOSE' && listenedTo.has(subId)) {
+        request.isStreaming = true;
+      }
+      else {
+        openRequests.delete(subId);
+      }
+    } catch (e) {
+      return;
+    }
+  }
+};
+
+/**
+ * Re-sends subscriptions that were still open when the previous socket
+ * went down, so feeds and live views pick up where they left off.
+ */
+const resumeOpenRequests = () => {
+  const requests = Array.from(openRequests.values());
+
+  if (requests.length === 0) return;
+
+  logInfo(`Re-issuing ${requests.length} open cache requests`);
+
+  requests.forEach(r => {
+    r.sentAt = Date.now();
+    r.isStreaming = false;
+    socket()?.send(r.message);
+  });
+};
+
+// Closes a socket that has stopped answering, which triggers a failover
+const checkForStall = () => {
+  const waiting = Array.from(openRequests.values()).filter(r => !r.isStreaming);
+
+  if (!isConnected() || waiting.length === 0) return;
+
+  const oldest = Math.min(...waiting.map(r => r.sentAt));
+
+  if (lastMessageAt < oldest && Date.now() - oldest > cacheStallTimeout) {
+    logWarning('Caching service stopped responding: ', cacheServer);
+    markFailure(cacheServer);
+    socket()?.close();
+  }
+};
+
+setInterval(checkForStall, cacheStallTimeout / 4);
+
+// CONNECTION -----------------------------------
+
+let openingStartedAt = 0;
+let reconnectAttempts = 0;
+let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+let hasConnectedBefore = false;
+
+const reconnectDelay = () => {
+  const delay = Math.min(cacheReconnectBase * Math.pow(2, reconnectAttempts), cacheReconnectMax);
+
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+};
+
 const onOpen = () => {
+  markSuccess(cacheServer, Date.now() - openingStartedAt);
+  reconnectAttempts = 0;
+
+  const isReconnect = hasConnectedBefore;
+  hasConnectedBefore = true;
+
+  const onReady = () => {
+    setConnected(true);
+    endOutage();
+    isReconnect && resumeOpenRequests();
+  };
+
   const disableBinary = localStorage.getItem('noBinary');
 
   if (disableBinary === 'true') {
-    setConnected(true);
+    onReady();
   }
   else {
-    setPrimalProtocol('zlib', () => {
-      setConnected(true);
-    });
+    setPrimalProtocol('zlib', onReady);
   }
 
   if (localStorage.getItem('devMode') === 'true') {
@@ -54,16 +359,29 @@ const onOpen = () => {
 }
 
 const onClose = () => {
+  const wasConnected = isConnected();
+
   setConnected(false);
 
   socket()?.removeEventListener('open', onOpen);
   socket()?.removeEventListener('close', onClose);
   socket()?.removeEventListener('error', onError);
+  socket()?.removeEventListener('message', dispatchMessage);
+
+  if (!wasConnected) {
+    markFailure(cacheServer);
+  }
+
+  watchForOutage();
 
   if (reconnect()) {
-    setTimeout(() => {
-      connect();
-    }, 200);
+    const delay = reconnectDelay();
+    reconnectAttempts++;
+
+    logInfo(`Reconnecting to caching service in ${delay}ms`);
+
+    clearTimeout(reconnectTimeout);
+    reconnectTimeout = setTimeout(connect, delay);
   }
 }
 
@@ -73,23 +391,42 @@ const onError = (error: Event) => {
 
 export let cacheServer = '';
 
+// Picking the endpoint is async, so a second call could otherwise open another socket meanwhile
+let connecting: Promise<void> | undefined;
+
 export const connect = () => {
-  if (isNotConnected()) {
-    cacheServer =
-      localStorage.getItem('cacheServer') ||
-      import.meta.env.PRIMAL_CACHE_URL;
+  if (connecting) return connecting;
+
+  connecting = openSocket().finally(() => {
+    connecting = undefined;
+  });
 
-    let s = new WebSocket(cacheServer);
-    s.binaryType = 'arraybuffer';
-    setSocket(s);
-    logInfo('CACHE SOCKET: ', socket());
+  return connecting;
+};
 
-    socket()?.addEventListener('open', onOpen);
-    socket()?.addEventListener('close', onClose);
-    socket()?.addEventListener('error', onError);
+const openSocket = async () => {
+  const current = socket();
 
-    setReconnect(() => true);
-  }
+  if (isConnected() || (current && current.readyState === WebSocket.CONNECTING)) return;
+
+  clearTimeout(reconnectTimeout);
+  watchForOutage();
+
+  cacheServer = await pickEndpoint();
+
+  openingStartedAt = Date.now();
+
+  let s = new WebSocket(cacheServer);
+  s.binaryType = 'arraybuffer';
+  setSocket(s);
+  logInfo('CACHE SOCKET: ', socket());
+
+  socket()?.addEventListener('open', onOpen);
+  socket()?.addEventListener('close', onClose);
+  socket()?.addEventListener('error', onError);
+  socket()?.addEventListener('message', dispatchMessage);
+
+  setReconnect(() => true);
 };
 
 export const disconnect = (autoreconnect = true) => {
@@ -98,12 +435,17 @@ export const disconnect = (autoreconnect = true) => {
 };
 
 export const reset = () => {
-  disconnect();
+  // A manual change of service starts from the top of the list
+  cacheServer = '';
+  reconnectAttempts = 0;
+  disconnect(false);
   setTimeout(connect, 1000);
 };
 
 export const sendMessage = (message: string, force = false) => {
   if (isConnected() || force) {
+    !force && trackRequest(message);
+
     const e = new CustomEvent('send', { detail: { message, ws: socket() }});
     socket()?.send(message);
     socket()?.dispatchEvent(e);
@@ -214,9 +556,8 @@ export const subsTo = (
   },
 ) => {
 
-  const listener = async (event: MessageEvent) => {
+  const listener = (data: string) => {
     // try {
-      const data = await readData(event);
       const message: NostrEvent | NostrEOSE | NostrNotice | NostrEvents = JSON.parse(data);
       const [type, subscriptionId] = message;
 
@@ -253,9 +594,26 @@ export const subsTo = (
 
   };
 
-  socket()?.addEventListener('message', listener);
+  // Registered with the dispatcher rather than the socket so it survives a failover
+  messageListeners.add(listener);
+  listenedTo.set(subId, (listenedTo.get(subId) || 0) + 1);
+
+  let isSubscribed = true;
 
   return () => {
-    socket()?.removeEventListener('message', listener);
+    if (!isSubscribed) return;
+
+    isSubscribed = false;
+    messageListeners.delete(listener);
+
+    const count = (listenedTo.get(subId) || 1) - 1;
+
+    if (count > 0) {
+      listenedTo.set(subId, count);
+      return;
+    }
+
+    listenedTo.delete(subId);
+    openRequests.delete(subId);
   };
 };
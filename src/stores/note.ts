@@ -312,7 +312,7 @@ export const convertToNotes: ConvertToNotes = (page, topZaps) => {
 
   const mentions = page.mentions || {};
 
-  const pageMessages = page.messages.filter(m => [Kind.Text, Kind.Repost].includes(m.kind));
+  const pageMessages = page.messages.filter(m => [Kind.Text, Kind.Repost, Kind.Poll, Kind.ZapPoll].includes(m.kind));
 
   return  pageMessages.map((message) => {
     const msg: NostrNoteContent = message.kind === Kind.Repost ? parseKind6(message) : message;
@@ -403,7 +403,7 @@ export const convertToNotes: ConvertToNotes = (page, topZaps) => {
           }
         }
 
-        if ([Kind.Text].includes(m.kind)) {
+        if ([Kind.Text, Kind.Poll, Kind.ZapPoll].includes(m.kind)) {
 
           const mentionStat = page.postStats[id];
 
@@ -716,7 +716,7 @@ export const convertToArticles: ConvertToArticles = (page, topZaps) => {
           }
         }
 
-        if ([Kind.Text].includes(m.kind)) {
+        if ([Kind.Text, Kind.Poll, Kind.ZapPoll].includes(m.kind)) {
 
           const mentionStat = page.postStats[id];
 
@@ -1,3059 +1,4418 @@
-import { MessageDescriptor } from "@cookbook/solid-intl";
-import { NotificationType } from "./constants";
-import { ScopeDescriptor } from "./types/primal";
-
-
-export const account = {
-  alreadyHaveAccount: {
-    id: 'account.alreadyHaveAccount',
-    defaultMessage: 'Already have a Nostr account?',
-    description: 'Already have a Nostr accountlabel',
-  },
-  prominentNostriches: {
-    id: 'actions.prominentNostriches',
-    defaultMessage: 'Prominent Nostriches',
-    description: 'Prominent Nostriches label',
-  },
-  follow: {
-    id: 'actions.follow',
-    defaultMessage: 'follow',
-    description: 'Follow button label',
-  },
-  unfollow: {
-    id: 'actions.unfollow',
-    defaultMessage: 'unfollow',
-    description: 'Unfollow button label',
-  },
-  followAll: {
-    id: 'actions.followAll',
-    defaultMessage: 'follow all',
-    description: 'Follow all button label',
-  },
-  unfollowAll: {
-    id: 'actions.unfollowAll',
-    defaultMessage: 'unfollow all',
-    description: 'Unfollow all button label',
-  },
-  followFailed: {
-    id: 'account.followFailed',
-    defaultMessage: 'Failed to complete the follow possibly due to a network error. Please try again.',
-    description: 'Feedback to user that the follow action has failed',
-  },
-  unfollowFailed: {
-    id: 'account.unfollowFailed',
-    defaultMessage: 'Failed to complete the unfollow possibly due to a network error. Please try again.',
-    description: 'Feedback to user that the unfollow action has failed',
-  },
-  needToLogin: {
-    id: 'account.needToLogin',
-    defaultMessage: 'You need to be signed in to perform this action',
-    description: 'Message to user that an action cannot be preformed without a public key',
-  },
-  createNewDescription: {
-    id: 'account.createNewDescription',
-    defaultMessage: 'New to Nostr? Create your account now and join this magical place. It’s quick and easy!',
-    description: 'Label inviting users to join Nostr',
-  },
-  create: {
-    title: {
-      id: 'settings.account.title',
-      defaultMessage: 'Create Account',
-      description: 'Title of the create account page',
-    },
-    descriptions: {
-      step_one: {
-        id: 'settings.account.descriptions.step_one',
-        defaultMessage: "Let’s start with the basics. Only the username is required!",
-        description: 'Description on step one',
-      },
-      step_two: {
-        id: 'settings.account.descriptions.step_two',
-        defaultMessage: "Tell us a bit more about yourself. Everything on this page is optional!",
-        description: 'Description on step two',
-      },
-      step_three: {
-        id: 'settings.account.descriptions.step_three',
-        defaultMessage: "We found some Nostr accounts for you to follow:",
-        description: 'Description on step three',
-      },
-    }
-  },
-};
-
-export const login = {
-  title: {
-    id: 'login.title',
-    defaultMessage: 'Login',
-    description: 'Login ',
-  },
-  description: {
-    id: 'login.description',
-    defaultMessage: 'Enter your Nostr private key (starting with “nsec”):',
-    description: 'Label describing the login proccess',
-  },
-  invalidNsec: {
-    id: 'login.invalidNsec',
-    defaultMessage: 'Please enter a valid Nostr private key',
-    description: 'Label informing the user of an invalid nsec key',
-  },
-};
-
-export const pin = {
-  title: {
-    id: 'pin.title',
-    defaultMessage: 'Create Pin',
-    description: 'Create Pin modal title',
-  },
-  description: {
-    id: 'pin.description',
-    defaultMessage: 'Create a PIN to secure your account. You will need to enter this PIN every time you login to the Primal web app:',
-    description: 'Label describing what the pin is used for',
-  },
-  enter: {
-    id: 'pin.enter',
-    defaultMessage: 'Enter your PIN to login: ',
-    description: 'Label instructing the user to enter the pin',
-  },
-  enterTitle: {
-    id: 'pin.enterTitle',
-    defaultMessage: 'Enter Pin',
-    description: 'Enter Pin modal title',
-  },
-  reEnter: {
-    id: 'pin.reEnter',
-    defaultMessage: 'Re-type your PIN:',
-    description: 'Label instructing the user to re-enter the pin',
-  },
-  invalidPin: {
-    id: 'pin.invalidPin',
-    defaultMessage: 'PIN must be at least 4 characters',
-    description: 'Label instructing the user on the valid pin requirements',
-  },
-  invalidRePin: {
-    id: 'pin.invalidRePin',
-    defaultMessage: 'PINs don\'t match',
-    description: 'Label instructing the user that the two pins don\'t match',
-  },
-};
-
-export const actions = {
-  resetRelays: {
-    id: 'actions.resetRelays',
-    defaultMessage: 'Reset relays',
-    description: 'Reset relays label',
-  },
-  seeMore: {
-    id: 'actions.seeMore',
-    defaultMessage: 'see more',
-    description: 'See more label',
-  },
-  newNote: {
-    id: 'actions.newNote',
-    defaultMessage: 'New Note',
-    description: 'New note action label',
-  },
-  myArticles: {
-    id: 'actions.newArticle',
-    defaultMessage: 'My Articles',
-    description: 'New article action label',
-  },
-  createPin: {
-    id: 'actions.createPin',
-    defaultMessage: 'Set PIN',
-    description: 'Create PIN action, button label',
-  },
-  optoutPin: {
-    id: 'actions.optoutPin',
-    defaultMessage: 'Continue without a PIN',
-    description: 'opt-out of PIN action, button label',
-  },
-  createAccount: {
-    id: 'actions.createAccount',
-    defaultMessage: 'Create Account',
-    description: 'Create account action, button label',
-  },
-  login: {
-    id: 'actions.login',
-    defaultMessage: 'Login',
-    description: 'Login action, button label',
-  },
-  loginNow: {
-    id: 'actions.loginNow',
-    defaultMessage: 'Login now',
-    description: 'Login Now action, button label',
-  },
-  logout: {
-    id: 'actions.logout',
-    defaultMessage: 'Logout',
-    description: 'Logout action, button label',
-  },
-  getStarted: {
-    id: 'actions.getStarted',
-    defaultMessage: 'Get Started',
-    description: 'Get Started action, button label',
-  },
-  forgotPin: {
-    id: 'actions.forgotPin',
-    defaultMessage: 'I forgot my PIN',
-    description: 'Forgot PIN action, button label',
-  },
-  cancel: {
-    id: 'actions.cancel',
-    defaultMessage: 'Cancel',
-    description: 'Cancel action, button label',
-  },
-  copy: {
-    id: 'actions.copy',
-    defaultMessage: 'copy',
-    description: 'Copy action, button label',
-  },
-  copyPubkey: {
-    id: 'actions.copyPubkey',
-    defaultMessage: 'copy public key',
-    description: 'Copy pubkey action, button label',
-  },
-  copyPrivkey: {
-    id: 'actions.copyPrivkey',
-    defaultMessage: 'copy private key',
-    description: 'Copy private key action, button label',
-  },
-  addFeedToHome: {
-    id: 'actions.addFeedToHome',
-    defaultMessage: 'add this feed to my home page',
-    description: 'Add feed to home, button label',
-  },
-  addFeedToHomeNamed: {
-    id: 'actions.addFeedToHomeNamed',
-    defaultMessage: 'add {name} feed to home page',
-    description: 'Add named feed to home, button label',
-  },
-  disabledAddFeedToHome: {
-    id: 'actions.disabledHomeFeedAdd',
-    defaultMessage: 'Available on your home page',
-    description: 'Add feed to home label, when feed is already added',
-  },
-  removeFromHomeFeedNamed: {
-    id: 'actions.removeFromHomeFeedNamed',
-    defaultMessage: 'remove {name} feed from your home page',
-    description: 'Remove named feed from home, button label',
-  },
-  noteCopyNostrLink: {
-    id: 'actions.noteCopyNostrLink',
-    defaultMessage: 'Copy Nostr link',
-    description: 'Label for the copy Nostr note link context menu item',
-  },
-  noteCopyPrimalLink: {
-    id: 'actions.noteCopyPrimalLink',
-    defaultMessage: 'Copy Primal link',
-    description: 'Label for the copy Primal note link context menu item',
-  },
-  notePostNew: {
-    id: 'actions.notePostNew',
-    defaultMessage: 'Post',
-    description: 'Send new note, button label',
-  },
-  noteReply: {
-    id: 'actions.noteReply',
-    defaultMessage: 'reply to {name}',
-    description: 'Reply to button label',
-  },
-  sendDirectMessage: {
-    id: 'actions.sendDirectMessage',
-    defaultMessage: 'send',
-    description: 'Send direct message action, button label',
-  },
-  save: {
-    id: 'actions.save',
-    defaultMessage: 'save',
-    description: 'Save changes action label',
-  },
-  previous: {
-    id: 'actions.previous',
-    defaultMessage: 'Previous',
-    description: 'Go to previous step action label',
-  },
-  next: {
-    id: 'actions.next',
-    defaultMessage: 'Next',
-    description: 'Go to next step action label',
-  },
-  finish: {
-    id: 'actions.finish',
-    defaultMessage: 'Finish',
-    description: 'Finish the wizard action label',
-  },
-  editProfile: {
-    id: 'actions.editProfile',
-    defaultMessage: 'edit profile',
-    description: 'Edit profile action label',
-  },
-  reportContentConfirmTitle: {
-    id: 'actions.reportContentConfirmTitle',
-    defaultMessage: 'Report abuse?',
-    description: 'Title for report content confirmation',
-  },
-  reportContentConfirmDesc: {
-    id: 'actions.reportContentConfirmDesc',
-    defaultMessage: 'All reports will be publicly visible.',
-    description: 'Description for report content confirmation',
-  },
-  reportUserConfirm: {
-    id: 'actions.reportUserConfirm',
-    defaultMessage: 'Report user {name}?',
-    description: 'Label for report user confirmation',
-  },
-  requestNoteDelete: {
-    id: 'actions.requestNoteDelete',
-    defaultMessage: 'Send ?',
-    description: 'Label for report user confirmation',
-  },
-  muteUserConfirmTitle: {
-    id: 'actions.muteUserConfirmTitle',
-    defaultMessage: 'Mute {name}',
-    description: 'Title for mute user confirmation dialog',
-  },
-  muteUserConfirm: {
-    id: 'actions.muteUserConfirm',
-    defaultMessage: 'Add {name} to your mute list?',
-    description: 'Label for mute user confirmation',
-  },
-  muteThreadConfirm: {
-    id: 'actions.muteUserConfirm',
-    defaultMessage: 'Mute this thread?',
-    description: 'Label for mute thread confirmation',
-  },
-  unmute: {
-    id: 'actions.unmute',
-    defaultMessage: 'unmute',
-    description: 'Label un-mute button',
-  },
-  addToAllowlist: {
-    id: 'actions.addToAllowlist',
-    defaultMessage: 'Add to allowlist',
-    description: 'Label add-to-allowlist button',
-  },
-  addRelay: {
-    id: 'actions.addRelay',
-    defaultMessage: 'add',
-    description: 'Label for add relay action',
-  },
-  removeRelay: {
-    id: 'actions.removeRelay',
-    defaultMessage: 'remove',
-    description: 'Label for remove relay action',
-  },
-  confirmRemoveRelay: {
-    id: 'actions.confirmRemoveRelay',
-    defaultMessage: 'Remove <b>{url}</b> from your relay list? This will disconnect you from the relay.',
-    description: 'Label for remove relay confirmation',
-  },
-  restoreCachingService: {
-    id: 'actions.restoreCachingService',
-    defaultMessage: 'Restore default caching service',
-    description: 'Label for restore default caching service',
-  },
-  restoreBlossomServer: {
-    id: 'actions.restoreBlossomServer',
-    defaultMessage: 'restore default media server',
-    description: 'Label for restore default blossom server',
-  },
-  profileContext: {
-    copyPubkey: {
-      id: 'actions.profileContext.copyPubkey',
-      defaultMessage: 'Copy user public key',
-      description: 'Label for copy user\'s pubkey from profile context menu',
-    },
-    copyLink: {
-      id: 'actions.profileContext.copyLink',
-      defaultMessage: 'Copy user link',
-      description: 'Label for copy user\'s link from profile context menu',
-    },
-    addFeed: {
-      id: 'actions.profileContext.addFeed',
-      defaultMessage: 'Add user feed',
-      description: 'Label for adding user\'s feed to home, from profile context menu',
-    },
-    removeFeed: {
-      id: 'actions.profileContext.removeFeed',
-      defaultMessage: 'Remove user feed',
-      description: 'Label for removing user\'s feed from home, from profile context menu',
-    },
-    muteUser: {
-      id: 'actions.profileContext.muteUser',
-      defaultMessage: 'Mute user',
-      description: 'Label for muting user from profile context menu',
-    },
-    unmuteUser: {
-      id: 'actions.profileContext.unmuteUser',
-      defaultMessage: 'Unmute user',
-      description: 'Label for unmuting user from profile context menu',
-    },
-    followMute: {
-      id: 'actions.profileContext.followMute',
-      defaultMessage: 'Follow user\'s mute list',
-      description: 'Label for following user\'s mute list',
-    },
-    unfollowMute: {
-      id: 'actions.profileContext.unfollowMute',
-      defaultMessage: 'Unfollow user\'s mute list',
-      description: 'Label for unfollowing user\'s mute list',
-    },
-    reportUser: {
-      id: 'actions.profileContext.reportUser',
-      defaultMessage: 'Report user',
-      description: 'Label for reporting user from profile context menu',
-    },
-  },
-  noteVideoContext: {
-    downloadVideo: {
-      id: 'actions.noteVideoContext.downloadVideo',
-      defaultMessage: 'Download Video',
-      description: 'Label for downloading video from context menu',
-    }
-  },
-  streamContext: {
-    copyLink: {
-      id: 'actions.streamContext.copyLink',
-      defaultMessage: 'Copy Stream Link',
-      description: 'Label for copy stream link from context menu',
-    },
-    copyId: {
-      id: 'actions.streamContext.copyId',
-      defaultMessage: 'Copy Stream ID',
-      description: 'Label for copy stream ID from context menu',
-    },
-    copyRaw: {
-      id: 'actions.streamContext.copyRaw',
-      defaultMessage: 'Copy Raw Data',
-      description: 'Label for copy stream raw data from context menu',
-    },
-    muteAuthor: {
-      id: 'actions.streamContext.muteAuthor',
-      defaultMessage: 'Mute User',
-      description: 'Label for muting user from context menu',
-    },
-    unmuteAuthor: {
-      id: 'actions.streamContext.unmuteAuthor',
-      defaultMessage: 'Unmute User',
-      description: 'Label for unmuting user from context menu',
-    },
-    reportContent: {
-      id: 'actions.streamContext.reportContent',
-      defaultMessage: 'Report Content',
-      description: 'Label for reporting user from context menu',
-    },
-    requestDelete: {
-      id: 'actions.streamContext.requestDelete',
-      defaultMessage: 'Request Delete',
-      description: 'Label for edit article from context menu',
-    },
-    quoteStream: {
-      id: 'actions.streamContext.quoteStream',
-      defaultMessage: 'Quote Stream',
-      description: 'Label for quoting stream from context menu',
-    },
-  },
-  noteContext: {
-    reactions: {
-      id: 'actions.noteContext.reactions',
-      defaultMessage: 'Reactions',
-      description: 'Label for note reactions from context menu',
-    },
-    zap: {
-      id: 'actions.noteContext.zapNote',
-      defaultMessage: 'Custom Zap',
-      description: 'Label for note zap from context menu',
-    },
-    copyLink: {
-      id: 'actions.noteContext.copyLink',
-      defaultMessage: 'Copy Note Link',
-      description: 'Label for copy note link from context menu',
-    },
-    copyText: {
-      id: 'actions.noteContext.copytext',
-      defaultMessage: 'Copy Note Text',
-      description: 'Label for copy note text from context menu',
-    },
-    copyId: {
-      id: 'actions.noteContext.copyId',
-      defaultMessage: 'Copy Note ID',
-      description: 'Label for copy note ID from context menu',
-    },
-    copyRaw: {
-      id: 'actions.noteContext.copyRaw',
-      defaultMessage: 'Copy Raw Data',
-      description: 'Label for copy note raw data from context menu',
-    },
-    copyPubkey: {
-      id: 'actions.noteContext.copyPubkey',
-      defaultMessage: 'Copy User Public Key',
-      description: 'Label for copy note author\'s pubkey from context menu',
-    },
-    breadcast: {
-      id: 'actions.noteContext.breadcast',
-      defaultMessage: 'Broadcast Note',
-      description: 'Label for note broadcast from context menu',
-    },
-    muteAuthor: {
-      id: 'actions.noteContext.muteAuthor',
-      defaultMessage: 'Mute User',
-      description: 'Label for muting user from context menu',
-    },
-    unmuteAuthor: {
-      id: 'actions.noteContext.unmuteAuthor',
-      defaultMessage: 'Unmute User',
-      description: 'Label for unmuting user from context menu',
-    },
-    muteThread: {
-      id: 'actions.noteContext.muteThread',
-      defaultMessage: 'Mute Thread',
-      description: 'Label for muting thread from context menu',
-    },
-    unmuteThread: {
-      id: 'actions.noteContext.unmuteThread',
-      defaultMessage: 'Unmute Thread',
-      description: 'Label for unmuting thread from context menu',
-    },
-    editArticle: {
-      id: 'actions.noteContext.editArticle',
-      defaultMessage: 'Edit Article',
-      description: 'Label for edit article from context menu',
-    },
-    reportAuthor: {
-      id: 'actions.noteContext.reportAuthor',
-      defaultMessage: 'Report User',
-      description: 'Label for reporting user from context menu',
-    },
-    reportContent: {
-      id: 'actions.noteContext.reportContent',
-      defaultMessage: 'Report Content',
-      description: 'Label for reporting user from context menu',
-    },
-    repostNote: {
-      id: 'actions.noteContext.repostNote',
-      defaultMessage: 'Repost Note',
-      description: 'Label for reposting note from context menu',
-    },
-    requestDelete: {
-      id: 'actions.noteContext.requestDelete',
-      defaultMessage: 'Request Delete',
-      description: 'Label for edit article from context menu',
-    },
-    requestDeleteRepost: {
-      id: 'actions.noteContext.requestDeleteRepost',
-      defaultMessage: 'Request Delete Repost',
-      description: 'Label for edit article from context menu',
-    },
-    quoteNote: {
-      id: 'actions.noteContext.quoteNote',
-      defaultMessage: 'Quote Note',
-      description: 'Label for quoting note from context menu',
-    },
-  },
-  articleOverviewContext: {
-    edit: {
-      id: 'actions.articleOverviewContext.edit',
-      defaultMessage: 'Edit Article',
-      description: 'Label for editing an article',
-    },
-    editDraft: {
-      id: 'actions.articleOverviewContext.editDraft',
-      defaultMessage: 'Edit Draft',
-      description: 'Label for editing a draft',
-    },
-    quoteArticle: {
-      id: 'actions.articleOverviewContext.quoteArticle',
-      defaultMessage: 'Quote Article',
-      description: 'Label for quoting article from context menu',
-    },
-    shareArticle: {
-      id: 'actions.articleOverviewContext.shareArticle',
-      defaultMessage: 'Copy Article link',
-      description: 'Label for sharing article from context menu',
-    },
-    copyId: {
-      id: 'actions.articleOverviewContext.copyId',
-      defaultMessage: 'Copy Event ID',
-      description: 'Label for copying article from context menu',
-    },
-    copyRawEvent: {
-      id: 'actions.articleOverviewContext.copyRawEvent',
-      defaultMessage: 'Copy Raw Event',
-      description: 'Label for copying raw event from context menu',
-    },
-    unpublish: {
-      id: 'actions.articleOverviewContext.unpublish',
-      defaultMessage: 'Unpublish',
-      description: 'Label for copying raw event from context menu',
-    },
-    delete: {
-      id: 'actions.articleOverviewContext.delete',
-      defaultMessage: 'Request Delete',
-      description: 'Label for copying raw event from context menu',
-    },
-  },
-  zap: {
-    id: 'actions.zap',
-    defaultMessage: 'Zap',
-    description: 'Label for zap',
-  },
-  reactions: {
-    id: 'actions.reactions',
-    defaultMessage: 'Reactions ({count})',
-    description: 'Label for reactions',
-  },
-};
-
-export const branding = {
-  id: 'branding',
-  defaultMessage: 'Primal',
-  description: 'Brand name',
-};
-
-export const downloads = {
-  title: {
-    id: 'downloads.title',
-    defaultMessage: 'Downloads',
-    description: 'Title of the downloads page',
-  },
-  build: {
-    id: 'downloads.build',
-    defaultMessage: 'Build',
-    description: 'Build label',
-  },
-  released: {
-    id: 'downloads.released',
-    defaultMessage: 'released',
-    description: 'Released label',
-  },
-  getApk: {
-    id: 'downloads.getApk',
-    defaultMessage: 'Get APK instead',
-    description: 'APK download label',
-  },
-  callToActionIOSTitle: {
-    id: 'downloads.ctaIOSTitle',
-    defaultMessage: 'Primal iOS',
-    description: 'Title for the iOS downloads\' page call-to-action',
-  },
-  callToActionIOSDescription: {
-    id: 'downloads.ctaAndroidDescription',
-    defaultMessage: 'The app features easy onboarding, fast & snappy UI, ability to explore Nostr, and create & manage custom feeds',
-    description: 'Description for the iOS downloads\' page call-to-action',
-  },
-  callToActionAndroidTitle: {
-    id: 'downloads.ctaAndroidTitle',
-    defaultMessage: 'Primal Android',
-    description: 'Title for the Android downloads\' page call-to-action',
-  },
-  callToActionAndroidDescription: {
-    id: 'downloads.ctaAndroidDescription',
-    defaultMessage: 'The app features easy onboarding, fast & snappy UI, ability to explore Nostr, and create & manage custom feeds',
-    description: 'Description for the Android downloads\' page call-to-action',
-  },
-  callToActionQRTitle: {
-    id: 'downloads.ctaQRTitle',
-    defaultMessage: 'Scan to install app',
-    description: 'Title for the QR code downloads\' page call-to-action',
-  },
-  appStoreCaption: {
-    id: 'downloads.appStoreCaption',
-    defaultMessage: 'TestFlight Available Now',
-    description: 'AppStore promo caption',
-  },
-  playStoreCaption: {
-    id: 'downloads.playStoreCaption',
-    defaultMessage: 'Coming soon to Android',
-    description: 'PlayStore promo caption',
-  },
-  apkDownload: {
-    id: 'downloads.apkDownload',
-    defaultMessage: 'Alpha Build Available Now',
-    description: 'APK download caption',
-  },
-  links: {
-    title: {
-      id: 'downloads.sidebarTitle',
-      defaultMessage: 'Source code',
-      description: 'Daownload sidebar links title',
-    },
-    webApp: {
-      id: 'downloads.webAppLink',
-      defaultMessage: 'Primal Web App',
-      description: 'Label for the link to the web app',
-    },
-    iosApp: {
-      id: 'downloads.iosAppLink',
-      defaultMessage: 'Primal iOS App',
-      description: 'Label for the link to the iOS app',
-    },
-    andApp: {
-      id: 'downloads.andAppLink',
-      defaultMessage: 'Primal Android App',
-      description: 'Label for the link to the Android app',
-    },
-    cachingService: {
-      id: 'downloads.cachingService',
-      defaultMessage: 'Primal Caching Service',
-      description: 'Label for the link to the caching service',
-    },
-    primalServer: {
-      id: 'downloads.primalServer',
-      defaultMessage: 'Primal Server',
-      description: 'Label for the link to the primal server',
-    },
-  },
-};
-
-export const confirmDefaults = {
-  title: {
-    id: 'confirm.title',
-    defaultMessage: 'Are you sure?',
-    description: 'Default title of the confirmation dialog',
-  },
-  confirm: {
-    id: 'confirm.yes',
-    defaultMessage: 'Yes',
-    description: 'Default label for positive response to the confirmation dialog',
-  },
-  abort: {
-    id: 'confirm.no',
-    defaultMessage: 'No',
-    description: 'Default label for negative response to the confirmation dialog',
-  },
-  cancel: {
-    id: 'confirm.cancel',
-    defaultMessage: 'Cancel',
-    description: 'Default label for cancel response to the confirmation dialog',
-  },
-};
-
-export const exploreSidebarCaption = {
-  id: 'explore.sidebar.caption',
-  defaultMessage: 'trending users',
-  description: 'Caption for the explore page sidebar showing a list of trending users',
-};
-
-export const explore = {
-  genericCaption: {
-    id: 'explore.genericCaption',
-    defaultMessage: 'explore',
-    description: 'Generic caption for the explore page',
-  },
-  pageTitle: {
-    id: 'explore.pageTitle',
-    defaultMessage: 'Explore',
-    description: 'Title of the explore page',
-  },
-  title: {
-    id: 'explore.title',
-    defaultMessage: '{timeframe}: {scope}',
-    description: 'Title of the explore page',
-  },
-  statDisplay: {
-    users: {
-      id: 'explore.stats.users',
-      defaultMessage:'Users',
-      description: 'Label for number of users stats',
-    },
-    pubkeys: {
-      id: 'explore.stats.pubkeys',
-      defaultMessage: 'Public Keys',
-      description: 'Label for number of pubkeys stats',
-    },
-    zaps: {
-      id: 'explore.stats.zaps',
-      defaultMessage: 'Zaps',
-      description: 'Label for number of zaps stats',
-    },
-    btcZapped: {
-      id: 'explore.stats.btcZapped',
-      defaultMessage: 'BTC Zapped',
-      description: 'Label for number of zapped bitcoins stats',
-    },
-    pubnotes: {
-      id: 'explore.stats.pubnotes',
-      defaultMessage: 'Public Notes',
-      description: 'Label for number of public notes stats',
-    },
-    reposts: {
-      id: 'explore.stats.reposts',
-      defaultMessage: 'Reposts',
-      description: 'Label for number of repost stats',
-    },
-    reactions: {
-      id: 'explore.stats.reactions',
-      defaultMessage: 'Reactions',
-      description: 'Label for number of reactions stats',
-    },
-    any: {
-      id: 'explore.stats.any',
-      defaultMessage: 'All Events',
-      description: 'Label for number of all stats',
-    },
-  }
-};
-
-export const feedProfile = {
-  id: 'feedProfile',
-  defaultMessage: '{name}\'s feed',
-  description: 'Generic name for a feed created from a profile',
-};
-
-export const feedProfileDesription = {
-  id: 'feedProfileDesription',
-  defaultMessage: 'Notes feed of {name}',
-  description: 'Generic description for a feed created from a profile',
-};
-
-export const feedNewPosts = {
-  id: 'feed.newPosts',
-  defaultMessage: `{number, plural,
-    =0 {}
-    one {# New Note}
-    =99 {99+ New Notes}
-    other {# New Notes}}`,
-  description: 'Label for a button to load new notes',
-};
-
-export const feedback = {
-  dropzone: {
-    id: 'feedback.dropzone',
-    defaultMessage: 'drop file to upload',
-    description: 'Label accompanying the draging file'
-  },
-  uploading: {
-    id: 'feedback.uploading',
-    defaultMessage: 'uploading...',
-    description: 'Label accompanying the uploading spinner'
-  },
-};
-
-export const home = {
-  trending: {
-    id: 'home.sidebar.caption.trending',
-    defaultMessage: 'Trending',
-    description: 'Caption for the home page sidebar showing a list of trending notes',
-  },
-  mostZapped: {
-    id: 'home.sidebar.caption.mostzapped',
-    defaultMessage: 'Most Zapped',
-    description: 'Caption for the home page sidebar showing a list of most zapped notes',
-  },
-  zapPostfix: {
-    id: 'home.sidebar.note.zaps',
-    defaultMessage: '{zaps} zaps, {sats} sats',
-    description: 'Zaps data for a small note on home sidebar',
-  },
-};
-
-export const messages = {
-  title: {
-    id: 'messages.title',
-    defaultMessage: 'Messages',
-    description: 'Title of messages page',
-  },
-  follows: {
-    id: 'messages.follows',
-    defaultMessage: 'follows',
-    description: 'DM relation selection label for follows',
-  },
-  other: {
-    id: 'messages.other',
-    defaultMessage: 'other',
-    description: 'DM relation selection label for other',
-  },
-  markAsRead: {
-    id: 'messages.markAsRead',
-    defaultMessage: 'Mark All Read',
-    description: 'DM mark as read label',
-  },
-  sendComment: {
-    id: 'messages.sendComment',
-    defaultMessage: 'Send a comment...',
-    description: 'Placeholder for comment input',
-  },
-};
-
-export const navBar = {
-  home: {
-    id: 'navbar.home',
-    defaultMessage: 'Home',
-    description: 'Label for the nav bar item link to Home page',
-  },
-  reads: {
-    id: 'navbar.reads',
-    defaultMessage: 'Reads',
-    description: 'Label for the nav bar item link to Reads page',
-  },
-  explore: {
-    id: 'navbar.explore',
-    defaultMessage: 'Explore',
-    description: 'Label for the nav bar item link to Explore page',
-  },
-  messages: {
-    id: 'navbar.messages',
-    defaultMessage: 'Messages',
-    description: 'Label for the nav bar item link to Messages page',
-  },
-  bookmarks: {
-    id: 'navbar.bookmarks',
-    defaultMessage: 'Bookmarks',
-    description: 'Label for the nav bar item link to Bookmarks page',
-  },
-  notifications: {
-    id: 'navbar.notifications',
-    defaultMessage: 'Notifications',
-    description: 'Label for the nav bar item link to Notifications page',
-  },
-  downloads: {
-    id: 'navbar.downloads',
-    defaultMessage: 'Downloads',
-    description: 'Label for the nav bar item link to Downloads page',
-  },
-  premium: {
-    id: 'navbar.premium',
-    defaultMessage: 'Premium',
-    description: 'Label for the nav bar item link to Premium page',
-  },
-  settings: {
-    id: 'navbar.settings',
-    defaultMessage: 'Settings',
-    description: 'Label for the nav bar item link to Settings page',
-  },
-  help: {
-    id: 'navbar.help',
-    defaultMessage: 'Help',
-    description: 'Label for the nav bar item link to Help page',
-  },
-};
-
-export const note = {
-  newPreview: {
-    id: 'note.newPreview',
-    defaultMessage: 'Note preview',
-    description: 'Caption for preview when creating a new note'
-  },
-  mentionIndication: {
-    id: 'note.mentionIndication',
-    defaultMessage: '\[note by {name}\]',
-    description: 'Label indicating that a note has been metioned in the small note display'
-  },
-  reposted: {
-    id: 'note.reposted',
-    defaultMessage: 'Reposted',
-    description: 'Label indicating that the note is a repost',
-  },
-  repostedOthers: {
-    id: 'note.repostedOthers',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one { and # other}
-      other { and # others}}`,
-    description: 'Label indicating that the note is reposted more than once',
-  },
-  reply: {
-    id: 'note.reply',
-    defaultMessage: 'replying to',
-    description: 'Label indicating that the note is a reply',
-  },
-  saveNoteDraft: {
-    title: {
-      id: 'note.saveNoteDraft.title',
-      defaultMessage: 'Save Note Draft?',
-      description: 'Title of the confirmation when the note is canceled',
-    },
-    description: {
-      id: 'note.saveNoteDraft.description',
-      defaultMessage: 'Do you wish to save this note to continue editing it later?',
-      description: 'Description of the confirmation when the note is canceled',
-    },
-    optionYes: {
-      id: 'note.saveNoteDraft.yes',
-      defaultMessage: 'Save',
-      description: 'Confirm saving not as draft',
-    },
-    optionNo: {
-      id: 'note.saveNoteDraft.no',
-      defaultMessage: 'Discard',
-      description: 'Decline saving not as draft',
-    },
-    optionCancel: {
-      id: 'note.saveNoteDraft.cancel',
-      defaultMessage: 'Continue Editing',
-      description: 'Continue editing the note',
-    },
-  },
-};
-
-export const notificationTypeTranslations: Record<string, string> = {
-  [NotificationType.NEW_USER_FOLLOWED_YOU]: 'followed you',
-  [NotificationType.USER_UNFOLLOWED_YOU]: 'unfollowed you',
-
-  [NotificationType.YOUR_POST_WAS_ZAPPED]: 'zapped your',
-  [NotificationType.YOUR_POST_WAS_LIKED]: 'liked your',
-  [NotificationType.YOUR_POST_WAS_REPOSTED]: 'reposted your',
-  [NotificationType.YOUR_POST_WAS_REPLIED_TO]: 'replied to your',
-
-  [NotificationType.REPLY_TO_REPLY]: 'replied in your thread',
-
-  [NotificationType.YOU_WERE_MENTIONED_IN_POST]: 'mentioned you in a',
-  [NotificationType.YOUR_POST_WAS_MENTIONED_IN_POST]: 'mentioned your',
-
-  [NotificationType.POST_YOU_WERE_MENTIONED_IN_WAS_ZAPPED]: 'zapped a note you were mentioned in',
-  [NotificationType.POST_YOU_WERE_MENTIONED_IN_WAS_LIKED]: 'liked a note you were mentioned in',
-  [NotificationType.POST_YOU_WERE_MENTIONED_IN_WAS_REPOSTED]: 'reposted a note you were mentioned in',
-  [NotificationType.POST_YOU_WERE_MENTIONED_IN_WAS_REPLIED_TO]: 'replied to a note you were mentioned in',
-
-  [NotificationType.POST_YOUR_POST_WAS_MENTIONED_IN_WAS_ZAPPED]: 'zapped a note your note was mentioned in',
-  [NotificationType.POST_YOUR_POST_WAS_MENTIONED_IN_WAS_LIKED]: 'liked a note your note was mentioned in',
-  [NotificationType.POST_YOUR_POST_WAS_MENTIONED_IN_WAS_REPOSTED]: 'reposted a note your note was mentioned in',
-  [NotificationType.POST_YOUR_POST_WAS_MENTIONED_IN_WAS_REPLIED_TO]: 'replied to a note your note was mentioned in',
-
-  [NotificationType.YOUR_POST_WAS_HIGHLIGHTED]: 'highlighted your',
-  [NotificationType.YOUR_POST_WAS_BOOKMARKED]: 'bookmarked your',
-  [NotificationType.YOUR_POST_HAD_REACTION]: 'reacted to your',
-
-  [NotificationType.LIVE_EVENT_HAPPENING]: 'is live',
-}
-
-export const notificationsNew: Record<number, MessageDescriptor> = Object.values(NotificationType).reduce((acc, type) => ({
-  ...acc,
-  [type]: {
-    id: `notifications.new.${type}`,
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {and # other}
-      other {and # others}}
-      ${notificationTypeTranslations[type]}`,
-    description: `New Notifiaction label for notifications of type ${type}`,
-  },
-}), {});
-
-export const notificationsOld: Record<number, MessageDescriptor> = Object.values(NotificationType).reduce((acc, type) => ({
-  ...acc,
-  [type]: {
-    id: `notifications.old.${type}`,
-    defaultMessage: `${notificationTypeTranslations[type]}`,
-    description: `Old Notifiaction label for notifications of type ${type}`,
-  },
-}), {});
-
-export const notificationsSidebar = {
-  activities: {
-    id: 'notifications.sidebar.activities',
-    defaultMessage: 'Reactions',
-    description: 'Sidebar activities stats caption on the notification page',
-  },
-  heading: {
-    id: 'notificationsSidebar.heading',
-    defaultMessage: 'Summary',
-    description: 'Sidebar caption on the notification page',
-  },
-  empty: {
-    id: 'notificationsSidebar.empty',
-    defaultMessage: 'No new notifications',
-    description: 'Sidebar caption indicating no new notifications',
-  },
-  followers: {
-    id: 'notificationsSidebar.followers',
-    defaultMessage: 'Followers',
-    description: 'Sidebar follower stats caption on the notification page',
-  },
-  gainedFollowers: {
-    id: 'notificationsSidebar.gainedFollowers',
-    defaultMessage: `new {number, plural,
-      =0 {}
-      one {follower}
-      other {followers}}`,
-    description: 'Sidebar new follower stats description on the notification page',
-  },
-  lostFollowers: {
-    id: 'notificationsSidebar.lostFollowers',
-    defaultMessage: `lost {number, plural,
-      =0 {}
-      one {follower}
-      other {followers}}`,
-    description: 'Sidebar lost follwers stats description on the notification page',
-  },
-  likes: {
-    id: 'notifications.sidebar.likes',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {like}
-      other {likes}}`,
-    description: 'Sidebar likes stats caption on the notification page',
-  },
-  mentions: {
-    id: 'notifications.sidebar.mentions',
-    defaultMessage: 'Mentions',
-    description: 'Sidebar mentions stats caption on the notification page',
-  },
-  mentionsYou: {
-    id: 'notifications.sidebar.mentionsYou',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {mention}
-      other {mentions}} of you`,
-    description: 'Sidebar mentions you stats description on the notification page',
-  },
-  mentionsYourPost: {
-    id: 'notifications.sidebar.mentionsYourPost',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {mention of your note}
-      other {mentions of your notes}}`,
-    description: 'Sidebar mentions your note stats description on the notification page',
-  },
-  replies: {
-    id: 'notifications.sidebar.replies',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {reply}
-      other {replies}}`,
-    description: 'Sidebar replies stats caption on the notification page',
-  },
-  reposts: {
-    id: 'notifications.sidebar.reposts',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {repost}
-      other {reposts}}`,
-    description: 'Sidebar reposts stats caption on the notification page',
-  },
-  other: {
-    id: 'notifications.sidebar.other',
-    defaultMessage: 'Other',
-    description: 'Sidebar other stats caption on the notification page',
-  },
-  zaps: {
-    id: 'notificationsSidebar.zaps',
-    defaultMessage: 'Zaps',
-    description: 'Sidebar zaps stats caption on the notification page',
-  },
-  zapNumber: {
-    id: 'notificationsSidebar.zapNumber',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {zap}
-      other {zaps}}`,
-    description: 'Sidebar zaps stats description on the notification page',
-  },
-  statsNumber: {
-    id: 'notificationsSidebar.statsNumber',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {sat}
-      other {sats}}`,
-    description: 'Sidebar sats stats description on the notification page',
-  },
-};
-
-export const notifications = {
-  title: {
-    id: 'pages.notifications.title',
-    defaultMessage: 'Notifications',
-    description: 'Title of the notifications page',
-  },
-  newNotifs: {
-    id: 'notification.newNotifs',
-    defaultMessage: `{number, plural,
-      =0 {}
-      one {# new notification}
-      =100 {99+ new notifications}
-      other {# new notifications}}`,
-    description: 'Label for a button to load new notifications',
-  },
-  all: {
-    id: 'pages.notifications.all',
-    defaultMessage: 'All',
-    description: 'Title of the All notifications tab',
-  },
-  zaps: {
-    id: 'pages.notifications.zaps',
-    defaultMessage: 'Zaps',
-    description: 'Title of the Zaps notifications tab',
-  },
-  replies: {
-    id: 'pages.notifications.replies',
-    defaultMessage: 'Replies',
-    description: 'Title of the Replies notifications tab',
-  },
-  mentions: {
-    id: 'pages.notifications.mentions',
-    defaultMessage: 'Mentions',
-    description: 'Title of the Mentions notifications tab',
-  },
-  reposts: {
-    id: 'pages.notifications.reposts',
-    defaultMessage: 'Reposts',
-    description: 'Title of the Reposts notifications tab',
-  },
-  reactions: {
-    id: 'pages.notifications.reactions',
-    defaultMessage: 'Reactions',
-    description: 'Title of the Reactions notifications tab',
-  },
-};
-
-export const placeholders = {
-  missingNote: {
-    firstLine: {
-      id: 'placeholders.missingNote.firstLine',
-      defaultMessage: 'We can\'t seem to find this note.',
-      description: 'Placeholder when the note is missing',
-    },
-    secondLine: {
-      id: 'placeholders.missingNote.secondLine',
-      defaultMessage: 'It may have been deleted by the author.',
-      description: 'Placeholder when the note is missing',
-    },
-  },
-  noReactionDetails: {
-    id: 'placeholders.noReactionDetails',
-    defaultMessage: 'No details for rections found',
-    description: 'Placeholder when there are no reaction details in reactions modal',
-  },
-  noLikeDetails: {
-    id: 'placeholders.noLikeDetails',
-    defaultMessage: 'No details for likes found',
-    description: 'Placeholder when there are no like details in reactions modal',
-  },
-  noZapDetails: {
-    id: 'placeholders.noZapDetails',
-    defaultMessage: 'No details for zaps found',
-    description: 'Placeholder when there are no zap details in reactions modal',
-  },
-  noRepostDetails: {
-    id: 'placeholders.noRepostDetails',
-    defaultMessage: 'No details for reposts found',
-    description: 'Placeholder when there are no repost details in reactions modal',
-  },
-  noQuoteDetails: {
-    id: 'placeholders.noQuoteDetails',
-    defaultMessage: 'No details for quotes found',
-    description: 'Placeholder when there are no quote details in reactions modal',
-  },
-  addComment: {
-    id: 'placeholders.addComment',
-    defaultMessage: 'Add a comment...',
-    description: 'Placeholder for adding a comment',
-  },
-  searchByNpub: {
-    id: 'placeholders.searchByNpub',
-    defaultMessage: 'search by npub...',
-    description: 'Placeholder for searching by npub',
-  },
-  addNpub: {
-    id: 'placeholders.addNpub',
-    defaultMessage: 'add npub...',
-    description: 'Placeholder for adding npub',
-  },
-  mustHaveOneCachingService: {
-    id: 'placeholders.mustHaveOneCachingService',
-    defaultMessage: 'At this time, client needs to have at least one caching service to operate. In the future we will add the ability to use Primal without a caching service, but this is not yet supported.',
-    description: 'Description when trying to remove the last caching service from the pool',
-  },
-  cachingPoolHelp: {
-    id: 'placeholders.cachingPoolHelp',
-    defaultMessage: 'Client will randomly connect to one of the caching services in this pool. This helps with fail-over if some of the services are down. You can add or remove services. If you wish to always connect to exatly one caching service, you should leave only one entry in this pool.',
-    description: 'text for caching pool help bubble',
-  },
-  resetRelaysHelp: {
-    id: 'placeholders.resetRelaysHelp',
-    defaultMessage: 'This action will disconnect you from any relays you are currently connected to and connect you to a set of recomended relays.',
-    description: 'text for caching pool help bubble',
-  },
-  comingSoon: {
-    id: 'placeholders.comingSoon',
-    defaultMessage: 'Coming soon. Seriously. Help is on the way. ;)',
-    description: 'Placholder text for missing content',
-  },
-  endOfFeed: {
-    id: 'placeholders.endOfFeed',
-    defaultMessage: 'Your reached the end. You are a quick reader',
-    description: 'Message displayed when user reaches the end of the feed',
-  },
-  guestUserGreeting: {
-    id: 'placeholders.guestUserGreeting',
-    defaultMessage: 'Welcome to nostr!',
-    description: 'Header placeholder for guest user',
-  },
-  noteCallToAction: {
-    id: 'placeholders.callToAction.note',
-    defaultMessage: 'Say something on nostr...',
-    description: 'Placeholder for new note call-to-action',
-  },
-  pageWIPTitle: {
-    id: 'pages.wip.title',
-    defaultMessage: '{title}',
-    description: 'Title of page under construction',
-  },
-  welcomeMessage: {
-    id: 'placeholders.welcomeMessage',
-    defaultMessage: 'Welcome to nostr!',
-    description: 'Default welcome message',
-  },
-  findUser: {
-    id: 'placeholders.findUser',
-    defaultMessage: 'find user',
-    description: 'Find user input placeholder',
-  },
-  findUsers: {
-    id: 'placeholders.findUsers',
-    defaultMessage: 'find users',
-    description: 'Find users input placeholder',
-  },
-  search: {
-    id: 'placeholders.search',
-    defaultMessage: 'Search...',
-    description: 'Search input placeholder',
-  },
-  selectFeed: {
-    id: 'placeholders.selectFeed',
-    defaultMessage: 'Select feed',
-    description: 'Placeholder for feed selection',
-  },
-  pageNotFound: {
-    id: 'placeholders.pageNotFound',
-    defaultMessage: 'Page not found',
-    description: 'Placholder text for missing page',
-  },
-  relayUrl: {
-    id: 'placeholders.relayUrl',
-    defaultMessage: 'wss://relay.url',
-    description: 'Placholder relay url input',
-  },
-  cachingServiceUrl: {
-    id: 'placeholders.cachingServiceUrl',
-    defaultMessage: 'wss://cachingservice.url',
-    description: 'Placholder relay url input',
-  },
-  blossomServerUrl: {
-    id: 'placeholders.blossomServerUrl',
-    defaultMessage: 'enter blossom server url...',
-    description: 'Placholder server url input',
-  },
-};
-
-export const profile = {
-  sidebarCaptionReads: {
-    id: 'profile.sidebar.captionReads',
-    defaultMessage: 'Latest Reads',
-    description: 'Caption for the profile page sidebar showing a list of latest reads by the profile',
-  },
-  sidebarCaptionNotes: {
-    id: 'profile.sidebar.captionNotes',
-    defaultMessage: 'Popular Notes',
-    description: 'Caption for the profile page sidebar showing a list of trending notes by the profile',
-  },
-  sidebarNoNotes: {
-    id: 'profile.sidebar.noNotes',
-    defaultMessage: 'No trending notes',
-    description: 'Placeholde for profile sidebar when the profile is missing trending notes',
-  },
-  title: {
-    id: 'profile.title',
-    defaultMessage: '{name} - Nostr Profile',
-    description: 'Page title for Profile page'
-  },
-  followsYou: {
-    id: 'profile.followsYou',
-    defaultMessage: 'Follows you',
-    description: 'Label indicating that a profile is following your profile',
-  },
-  jointDate: {
-    id: 'profile.joinDate',
-    defaultMessage: 'Joined Nostr on {date}',
-    description: 'Label indicating when the profile joined Nostr (oldest event)',
-  },
-  stats: {
-    gallery: {
-      id: 'profile.gallery',
-      defaultMessage: 'Media',
-      description: 'Label for gallery profile stat',
-    },
-    follow: {
-      id: 'profile.followStats',
-      defaultMessage: 'Following',
-      description: 'Label for following profile stat',
-    },
-    followers: {
-      id: 'profile.stats.followers',
-      defaultMessage: 'Followers',
-      description: 'Label for followers profile stat',
-    },
-    zaps: {
-      id: 'profile.stats.zaps',
-      defaultMessage: 'Zaps',
-      description: 'Label for zaps profile stat',
-    },
-    sats: {
-      id: 'profile.stats.sats',
-      defaultMessage: 'Sats',
-      description: 'Label for sats profile stat',
-    },
-    totalSats: {
-      id: 'profile.stats.totalSats',
-      defaultMessage: 'Total',
-      description: 'Label for total sats profile stat',
-    },
-    articles: {
-      id: 'profile.stats.articles',
-      defaultMessage: 'Reads',
-      description: 'Label for reads profile stat',
-    },
-    notes: {
-      id: 'profile.stats.notes',
-      defaultMessage: 'Notes',
-      description: 'Label for notes profile stat',
-    },
-    replies: {
-      id: 'profile.stats.replies',
-      defaultMessage: 'Replies',
-      description: 'Label for replies profile stat',
-    },
-    relays: {
-      id: 'profile.stats.relays',
-      defaultMessage: 'Relays',
-      description: 'Label for sats profile relays',
-    },
-  },
-  isMuted: {
-    id: 'profile.isMuted',
-    defaultMessage: '{name} is muted',
-    description: 'Label indicating that the profile is muted',
-  },
-  isFiltered: {
-    id: 'profile.isFiltered',
-    defaultMessage: 'This account is hidden per your filter settings.',
-    description: 'Label indicating that the profile is filtered',
-  },
-  noNotes: {
-    id: 'profile.noNotes',
-    defaultMessage: '{name} hasn\'t posted any notes',
-    description: 'Label indicating that the profile has no notes',
-  },
-  noArticles: {
-    id: 'profile.noArticles',
-    defaultMessage: '{name} hasn\'t published any reads',
-    description: 'Label indicating that the profile has no reads',
-  },
-  noReplies: {
-    id: 'profile.noReplies',
-    defaultMessage: '{name} hasn\'t posted any replies',
-    description: 'Label indicating that the profile has no replies',
-  },
-  noFollowers: {
-    id: 'profile.noFollowers',
-    defaultMessage: '{name} has no followers',
-    description: 'Label indicating that the profile has no followers',
-  },
-  noFollows: {
-    id: 'profile.noFollows',
-    defaultMessage: '{name} isn\'t following anyone',
-    description: 'Label indicating that the profile has no followers',
-  },
-  noZaps: {
-    id: 'profile.noZaps',
-    defaultMessage: '{name} zapped no one',
-    description: 'Label indicating that the profile has no zaps',
-  },
-  noRelays: {
-    id: 'profile.noRelays',
-    defaultMessage: '{name} is on no relays',
-    description: 'Label indicating that the profile has no relays',
-  },
-  qrModal: {
-    pubkey: {
-      id: 'profile.qrModal.pubkey',
-      defaultMessage: 'Public key',
-      description: 'Public key tab title in profile qr code modal',
-    },
-    ln: {
-      id: 'profile.qrModal.ln',
-      defaultMessage: 'Lightning address',
-      description: 'Lightning address tab title in profile qr code modal',
-    },
-
-  }
-};
-
-export const search = {
-  followers: {
-    id: 'search.followers',
-    defaultMessage: 'followers',
-    description: 'Followers label for user search results',
-  },
-  invalid: {
-    id: 'search.invalid',
-    defaultMessage: 'Please enter search term.',
-    description: 'Alert letting the user know that the search term is empty',
-  },
-  emptyQueryResult: {
-    id: 'search.emptyQueryResult',
-    defaultMessage: 'type to',
-    description: 'Label shown is search resuls when no term is provided',
-  },
-  searchNostr: {
-    id: 'search.searchNostr',
-    defaultMessage: 'Search nostr',
-    description: 'Label explaining full search action',
-  },
-  sidebarCaption: {
-    id: 'search.sidebarCaption',
-    defaultMessage: 'Users found',
-    description: 'Caption for the search page sidebar showing a list of users',
-  },
-  feedLabel: {
-    id: 'search.feedLabel',
-    defaultMessage: 'Search: {query}',
-    description: 'Label for a search results feed',
-  },
-  title: {
-    id: 'search.title',
-    defaultMessage: 'search for "{query}"',
-    description: 'Title of the Search page',
-  },
-  noResults: {
-    id: 'search.noResults',
-    defaultMessage: 'No results found',
-    description: 'Message shown when no search results were found'
-  },
-};
-
-export const settings = {
-  index: {
-    title: {
-      id: 'settings.index.title',
-      defaultMessage: 'Settings',
-      description: 'Title of the settings page',
-    },
-  },
-  account: {
-    title: {
-      id: 'settings.account.title',
-      defaultMessage: 'Account',
-      description: 'Title of the account settings sub-page',
-    },
-    description: {
-      id: 'settings.account.description',
-      defaultMessage: "You can improve your account security by installing a Nostr browser extension, like {link}. By storing your Nostr private key within a browser extension, you will be able to securely sign into any Nostr web app, including Primal.",
-      description: 'Warning about account security',
-    },
-    pubkey: {
-      id: 'settings.account.pubkey',
-      defaultMessage: 'Your Public Key',
-      description: 'Your public key section caption',
-    },
-    pubkeyDesc: {
-      id: 'settings.account.pubkeyDesc',
-      defaultMessage: 'Anyone on Nostr can find you via your public key. Feel free to share anywhere.',
-      description: 'Label describing the public key',
-    },
-    privkey: {
-      id: 'settings.account.privkey',
-      defaultMessage: 'Your Private Key',
-      description: 'Your private key section caption',
-    },
-    privkeyDesc: {
-      id: 'settings.account.privkeyDesc',
-      defaultMessage: 'This key fully controls your Nostr account. Don’t share it with anyone. Only copy this key to store it securely or to login to another Nostr app.',
-      description: 'Label describing the private key',
-    },
-  },
-  appearance: {
-    title: {
-      id: 'settings.appearance.title',
-      defaultMessage: 'Appearance',
-      description: 'Title of the appearance settings sub-page',
-    },
-    caption: {
-      id: 'settings.appearance.caption',
-      defaultMessage: 'Select a theme',
-      description: 'Caption for theme selection',
-    },
-  },
-  homeFeeds: {
-    title: {
-      id: 'settings.homeFeeds.title',
-      defaultMessage: 'Home Feeds',
-      description: 'Title of the home feeds settings sub-page',
-    },
-    caption: {
-      id: 'settings.homeFeeds.caption',
-      defaultMessage: 'Edit and order your home page feeds',
-      description: 'Caption for home feed ordering',
-    },
-  },
-  readsFeeds: {
-    title: {
-      id: 'settings.readsFeeds.title',
-      defaultMessage: 'Reads Feeds',
-      description: 'Title of the reads feeds settings sub-page',
-    },
-    caption: {
-      id: 'settings.readsFeeds.caption',
-      defaultMessage: 'Edit and order your reads page feeds',
-      description: 'Caption for reads feed ordering',
-    },
-  },
-  moderation: {
-    title: {
-      id: 'settings.filters.title',
-      defaultMessage: 'Content Moderation',
-      description: 'Title of the content filtering settings sub-page',
-    },
-    description: {
-      id: 'settings.filters.description',
-      defaultMessage: 'Primal offers customizable content filtering services. In addition to your own mute list, you may subscribe to other users’ mute lists. Primal runs real time spam detection systems as well as Not-Safe-For-Work content, to which you may also subscribe.',
-      description: 'Description of the content filtering settings sub-page',
-    },
-    shortDescription: {
-      id: 'settings.filters.shortDescription',
-      defaultMessage: 'Subscribe to a user’s mute list by going to their profile page:',
-      description: 'Short Description of the content filtering settings sub-page',
-    },
-    applyFiltering: {
-      id: 'settings.filters.applyFiltering',
-      defaultMessage: 'Apply Content Filtering',
-      description: 'Caption for home feed ordering',
-    },
-    searchFilteredAccount: {
-      id: 'settings.filters.searchFilteredAccount',
-      defaultMessage: 'Search Filtered Accounts',
-      description: 'Caption for home feed ordering',
-    },
-    allowList: {
-      id: 'settings.filters.allowList',
-      defaultMessage: 'My Allowlist',
-      description: 'Caption for home feed ordering',
-    },
-    moderationItem: {
-      id: 'settings.contentModeration.item',
-      defaultMessage: '{name}\'s mute list',
-      description: 'Caption for my mute list algo',
-    },
-    searchForFiltered: {
-      id: 'settings.contentModeration.searchForFiltered',
-      defaultMessage: 'Search to find out if a user account is included in any of the filter lists:',
-      description: 'Description for search for filtered users',
-    },
-    allowListsDescription: {
-      id: 'settings.contentModeration.allowListsDescription',
-      defaultMessage: 'Add user accounts that should be excluded from filtering:',
-      description: 'Description for allow lists',
-    },
-    table: {
-      mutelists: {
-        id: 'settings.contentModeration.table.mutelists',
-        defaultMessage: 'Mute Lists',
-        description: 'Caption for mutelists column on moderation settings page',
-      },
-      algos: {
-        id: 'settings.contentModeration.table.algos',
-        defaultMessage: 'Algorithms',
-        description: 'Caption for algorithms column on moderation settings page',
-      },
-      content: {
-        id: 'settings.contentModeration.table.content',
-        defaultMessage: 'Hide Content',
-        description: 'Caption for content column on moderation settings page',
-      },
-      trending: {
-        id: 'settings.contentModeration.table.trending',
-        defaultMessage: 'Don\'t Recommend',
-        description: 'Caption for trending column on moderation settings page',
-      },
-      trendingHelp: {
-        id: 'settings.contentModeration.table.trendingHelp',
-        defaultMessage: 'Content won\'t be recommended in trending and most-zapped feeds',
-        description: 'Help description for trending filter',
-      },
-      contentHelp: {
-        id: 'settings.contentModeration.table.contentHelp',
-        defaultMessage: 'Content will be hidden from all feeds, threads, and search results',
-        description: 'Help description for content filter',
-      },
-    },
-    algos: {
-      my: {
-        id: 'settings.contentModeration.algos.my',
-        defaultMessage: 'My mute list',
-        description: 'Caption for my mute list algo',
-      },
-      primal_spam: {
-        id: 'settings.contentModeration.algos.spam',
-        defaultMessage: 'Primal spam filter',
-        description: 'Caption for spam algo',
-      },
-      primal_nsfw: {
-        id: 'settings.contentModeration.algos.nsfw',
-        defaultMessage: 'Primal NSFW filter',
-        description: 'Caption for NSFW algo',
-      },
-    },
-  },
-  muted: {
-    title: {
-      id: 'settings.muted.title',
-      defaultMessage: 'Muted Content',
-      description: 'Title of the muted accounts settings sub-page',
-    },
-    emptyUsers: {
-      id: 'settings.muted.emptyUsers',
-      defaultMessage: 'No muted users',
-      description: 'Caption indicating that there are no muted users',
-    },
-    emptyWords: {
-      id: 'settings.muted.emptyWords',
-      defaultMessage: 'No muted words',
-      description: 'Caption indicating that there are no muted users',
-    },
-    emptyHashtags: {
-      id: 'settings.muted.emptyHashtags',
-      defaultMessage: 'No muted hashtags',
-      description: 'Caption indicating that there are no muted users',
-    },
-    emptyThreads: {
-      id: 'settings.muted.emptyThreads',
-      defaultMessage: 'No muted threads',
-      description: 'Caption indicating that there are no muted users',
-    },
-    emptyOther: {
-      id: 'settings.muted.emptyOther',
-      defaultMessage: 'This user didn\'t mute anyone or they use a non-standard mute list',
-      description: 'Caption indicating that there are no muted users on someone else\'s list',
-    },
-  },
-  nwcSettings: {
-    title: {
-      id: 'settings.nwcSettings.title',
-      defaultMessage: 'Connected Wallets',
-      description: 'Title of the nwc settings sub-page',
-    },
-  },
-  blossomPage: {
-    mediaServer: {
-      id: 'settings.blossom.mediaServer',
-      defaultMessage: 'Media Server',
-      description: 'Title of the media server',
-    },
-    mediaMirrors: {
-        id: 'settings.blossom.mediaMirrors',
-        defaultMessage: 'Media Mirrors',
-        description: 'Title of the media mirrors',
-      },
-    mediaMirrorsDescription: {
-      id: 'settings.blossom.mediaMirrorsDescription',
-      defaultMessage: 'You can enable one or more media mirror servers. When enabled, your uploads to the primary media server will be automatically copied to the mirror(s).',
-      description: 'Description for blossom media mirrors',
-    },
-    switchServer: {
-      id: 'settings.blossom.switchServer',
-      defaultMessage: 'Switch media server',
-      description: 'Title of the switching media server section of the Blossom settings sub-page',
-    },
-    addMirror: {
-      id: 'settings.blossom.addMirror',
-      defaultMessage: 'Add media mirror server',
-      description: 'Title of the adding media mirror server section of the Blossom settings sub-page',
-    },
-    suggestedMirrors: {
-      id: 'settings.blossom.suggestedMirrors',
-      defaultMessage: 'Suggested media mirror servers',
-      description: 'Title of the suggested media mirror server list section of the Blossom settings sub-page',
-    },
-  },
-  network: {
-    title: {
-      id: 'settings.network.title',
-      defaultMessage: 'Network',
-      description: 'Title of the network settings sub-page',
-    },
-    relays: {
-      id: 'settings.network.relays',
-      defaultMessage: 'Relays',
-      description: 'Title of the relays section of the network settings sub-page',
-    },
-    myRelays: {
-      id: 'settings.network.myRelays',
-      defaultMessage: 'My relays',
-      description: 'Title of the my relays section of the network settings sub-page',
-    },
-    noMyRelays: {
-      id: 'settings.networks.noMyRelays',
-      defaultMessage: 'Your Nostr account doesn\'t have any relays specified, so we connected you to a default set of relays. To configure your desired set of relays, please select them from the list below.',
-      description: 'Caption informing the user that he has no relays configured',
-    },
-    recomended: {
-      id: 'settings.network.recomended',
-      defaultMessage: 'Recomended Relays',
-      description: 'Title of the recomended relays section of the network settings sub-page',
-    },
-    customRelay: {
-      id: 'settings.network.customRelay',
-      defaultMessage: 'Connect to relay',
-      description: 'Title of the custom relays section of the network settings sub-page',
-    },
-    cachingService: {
-      id: 'settings.network.cachingService',
-      defaultMessage: 'Caching Service',
-      description: 'Title of the caching service section of the network settings sub-page',
-    },
-    connectedCachingService: {
-      id: 'settings.network.connectedCachingService',
-      defaultMessage: 'Connected caching service',
-      description: 'Title of the caching service section of the network settings sub-page',
-    },
-    alternativeCachingService: {
-      id: 'settings.network.alternativeCachingService',
-      defaultMessage: 'Connect to a different caching service',
-      description: 'Title of the alternative caching service section of the Network settings sub-page',
-    },
-    proxyEvents: {
-      id: 'settings.filters.proxyEvents',
-      defaultMessage: 'Use Enhanced Privacy',
-      description: 'Caption for option to proy event publishing through Primal',
-    },
-    proxyDescription: {
-      id: 'settings.filters.proxyDescription',
-      defaultMessage: 'When enabled, your IP address will be visible to the caching service, but not to relays. Your content will be published to your specified relays using the caching service as a proxy. ',
-      description: 'Description of the proxy events settings sub-page',
-    },
-  },
-  relays: {
-    id: 'settings.relays',
-    defaultMessage: 'Relays',
-    description: 'Title of the relays sections of the settings sidebar',
-  },
-  cashingService: {
-    id: 'settings.cashingService',
-    defaultMessage: 'Caching services',
-    description: 'Title of the caching service sections of the settings sidebar',
-  },
-  title: {
-    id: 'settings.title',
-    defaultMessage: 'Settings',
-    description: 'Title of the settings page',
-  },
-  theme: {
-    id: 'settings.sections.theme',
-    defaultMessage: 'Theme',
-    description: 'Title of the theme section on the settings page',
-  },
-  feeds: {
-    id: 'settings.sections.feeds',
-    defaultMessage: 'Home page feeds',
-    description: 'Title of the feeds section on the settings page',
-  },
-  feedsAddNew: {
-    id: 'settings.feedsAddNew',
-    defaultMessage: 'Add New Feed',
-    description: 'Label for the button for adding new feed to the feeds list',
-  },
-  feedsRestore: {
-    id: 'settings.feedsRestore',
-    defaultMessage: 'Restore Default Feeds',
-    description: 'Label for the button for restoring default feeds to the feeds list',
-  },
-  feedsRestoreConfirm: {
-    id: 'settings.feedsRestoreConfirm',
-    defaultMessage: 'Restoring default feeds will erase all your custom feed settings',
-    description: 'Label explaining the impact of restoring default feeds',
-  },
-  zapsRestoreConfirm: {
-    id: 'settings.zapsRestoreConfirm',
-    defaultMessage: 'This action will restore all your zap settings to their default values',
-    description: 'Label explaining the impact of restoring default zaps',
-  },
-  zapEmojiFilterTitle: {
-    id: 'settings.zapEmojiFilterTitle',
-    defaultMessage: 'Select an emoji',
-    description: 'Title for the select emoji modal',
-  },
-  zapEmojiFilterPlaceholder: {
-    id: 'settings.zapEmojiFilterPlaceholder',
-    defaultMessage: 'Search...',
-    description: 'Placeholder for the emoji modal filter',
-  },
-  feedLatest: {
-    id: 'feeds.feedLatest',
-    defaultMessage: 'Latest',
-    description: 'Label for the `latest;following` (active user\'s) feed',
-  },
-  feedLatestWithReplies: {
-    id: 'feeds.feedLatestWithReplies',
-    defaultMessage: 'Latest with Replies',
-    description: 'Label for the `latest;following` with `include_replies` flag (active user\'s) feed',
-  },
-  zaps: {
-    id: 'settings.sections.zaps',
-    defaultMessage: 'Zaps',
-    description: 'Title of the zaps section on the settings page',
-  },
-  blossom: {
-    id: 'settings.sections.blossom',
-    defaultMessage: 'Media Uploads',
-    description: 'Title of the blossom section on the settings page',
-  },
-  devTools: {
-    id: 'settings.sections.devTools',
-    defaultMessage: 'Dev Tools',
-    description: 'Title of the dev tools section on the settings page',
-  },
-  notifications: {
-    title: {
-      id: 'pages.settings.sections.notifications',
-      defaultMessage: 'Notifications',
-      description: 'Title of the notifications section on the settings page',
-    },
-    core: {
-      id: 'settings.sections.notifications.core',
-      defaultMessage: 'Show notifications for:',
-      description: 'Title of the notification settings sub-section for core notifications',
-    },
-    yourMentions: {
-      id: 'settings.sections.notifications.yourMentions',
-      defaultMessage: 'A note you were mentioned in was:',
-      description: 'Title of the notification settings sub-section for notes you were mentioned in',
-    },
-    yourPostMentions: {
-      id: 'settings.sections.notifications.yourPostMentions',
-      defaultMessage: 'A note your note was mentioned in was:',
-      description: 'Title of the notification settings sub-section for notes your note was mentioned in',
-    },
-    additionalNotifs: {
-      id: 'settings.sections.notifications.additionalNotifs',
-      defaultMessage: 'Notification preferences:',
-      description: 'Title of the notification settings sub-section for additional settings',
-    },
-  },
-  profile: {
-    title: {
-      id: 'pages.settings.profile.title',
-      defaultMessage: 'Edit Profile',
-      description: 'Title of the edit profile page',
-    },
-    uploadAvatar: {
-      id: 'pages.settings.profile.uploadAvatar',
-      defaultMessage: 'Upload Avatar',
-      description: 'Label for avatar upload on edit profile page',
-    },
-    uploadBanner: {
-      id: 'pages.settings.profile.uploadBanner',
-      defaultMessage: 'Upload Banner',
-      description: 'Label for banner upload on edit profile page',
-    },
-    displayName: {
-      label: {
-        id: 'pages.settings.profile.displayName.label',
-        defaultMessage: 'Display Name',
-        description: 'Label for display name input on edit profile page',
-      },
-      help: {
-        id: 'pages.settings.profile.displayName.help',
-        defaultMessage: 'Pick a longer display name (e. g. “Satoshi Nakamoto”)',
-        description: 'Help for displayName input on edit profile page',
-      },
-      placeholder : {
-        id: 'pages.settings.profile.displayName.placeholder',
-        defaultMessage: 'Enter display name',
-        description: 'Placeholder for display name input on edit profile page',
-      },
-    },
-    required: {
-      id: 'pages.settings.profile.reqired',
-      defaultMessage: 'required',
-      description: 'Label indicating an input is required',
-    },
-    name: {
-      label: {
-        id: 'pages.settings.profile.name.label',
-        defaultMessage: 'Username',
-        description: 'Label for name input on edit profile page',
-      },
-      help: {
-        id: 'pages.settings.profile.name.help',
-        defaultMessage: 'Pick a short user handle (e. g. “satoshi”)',
-        description: 'Help for name input on edit profile page',
-      },
-      placeholder : {
-        id: 'pages.settings.profile.name.placeholder',
-        defaultMessage: 'Enter username',
-        description: 'Placeholder for name input on edit profile page',
-      },
-      error: {
-        id: 'pages.settings.profile.name.error',
-        defaultMessage: 'Spaces and special characters are not allowed in the username',
-        description: 'Error label for name input on edit profile page',
-      },
-      formError: {
-        id: 'pages.settings.profile.name.formError',
-        defaultMessage: 'Username is not valid',
-        description: 'Error label for invalid form on edit profile page',
-      },
-    },
-    website: {
-      label: {
-        id: 'pages.settings.profile.website.label',
-        defaultMessage: 'Website',
-        description: 'Label for website input on edit profile page',
-      },
-      placeholder : {
-        id: 'pages.settings.profile.website.placeholder',
-        defaultMessage: 'https://www.mysite.com',
-        description: 'Placeholder for website input on edit profile page',
-      },
-    },
-    about: {
-      label: {
-        id: 'pages.settings.profile.about.label',
-        defaultMessage: 'About Me',
-        description: 'Label for about input on edit profile page',
-      },
-      placeholder : {
-        id: 'pages.settings.profile.about.placeholder',
-        defaultMessage: 'Say something about yourself',
-        description: 'Placeholder for about input on edit profile page',
-      },
-    },
-    lud16: {
-      label: {
-        id: 'pages.settings.profile.lud16.label',
-        defaultMessage: 'Bitcoin Lightning Address',
-        description: 'Label for lud16 input on edit profile page',
-      },
-      placeholder : {
-        id: 'pages.settings.profile.lud16.placeholder',
-        defaultMessage: 'Enter your LN address',
-        description: 'Placeholder for lud16 input on edit profile page',
-      },
-    },
-    nip05: {
-      label: {
-        id: 'pages.settings.profile.nip05.label',
-        defaultMessage: 'Verified Nostr Address (NIP-05)',
-        description: 'Label for nip-05 input on edit profile page',
-      },
-      placeholder : {
-        id: 'pages.settings.profile.nip05.placeholder',
-        defaultMessage: 'Enter your NIP-05 Verified Nostr ID',
-        description: 'Placeholder for nip-05 input on edit profile page',
-      },
-    },
-    picture: {
-      label: {
-        id: 'pages.settings.profile.picture.label',
-        defaultMessage: 'Avatar Image Url',
-        description: 'Label for avatar input on edit profile page',
-      },
-      placeholder : {
-        id: 'pages.settings.profile.picture.placeholder',
-        defaultMessage: 'Enter your avatar url',
-        description: 'Placeholder for avatar input on edit profile page',
-      },
-    },
-    banner: {
-      label: {
-        id: 'pages.settings.profile.banner.label',
-        defaultMessage: 'Banner Image Url',
-        description: 'Label for banner input on edit profile page',
-      },
-      placeholder : {
-        id: 'pages.settings.profile.banner.placeholder',
-        defaultMessage: 'Enter your banner url',
-        description: 'Placeholder for banner input on edit profile page',
-      },
-    },
-  },
-};
-
-export const scopeDescriptors: Record<string, ScopeDescriptor> = {
-  follows: {
-    caption: {
-      id: 'explore.scopes.follows.caption',
-      defaultMessage: 'Follows',
-      description: 'Caption for the follows scope',
-    },
-    label: {
-      id: 'explore.scopes.follows.label',
-      defaultMessage: 'my follows',
-      description: 'Label for the follows scope',
-    },
-    description: {
-      id: 'explore.scopes.follows.description',
-      defaultMessage: 'accounts you follow',
-      description: 'Description of the follows scope description',
-    },
-  },
-  tribe: {
-    caption: {
-      id: 'explore.scopes.tribe.caption',
-      defaultMessage: 'Tribe',
-      description: 'Caption for the tribe scope',
-    },
-    label: {
-      id: 'explore.scopes.tribe.label',
-      defaultMessage: 'my tribe',
-      description: 'Label for the tribe scope',
-    },
-    description: {
-      id: 'explore.scopes.tribe.description',
-      defaultMessage: 'accounts you follow <div>+ your followers</div>',
-      description: 'Description of the tribe scope description',
-    },
-  },
-  network: {
-    caption: {
-      id: 'explore.scopes.network.caption',
-      defaultMessage: 'Network',
-      description: 'Caption for the network scope',
-    },
-    label: {
-      id: 'explore.scopes.network.label',
-      defaultMessage: 'my network',
-      description: 'Label for the network scope',
-    },
-    description: {
-      id: 'explore.scopes.network.description',
-      defaultMessage: 'accounts you follow <div>+ everyone they follow</div>',
-      description: 'Description of the network scope description',
-    },
-  },
-  global: {
-    caption: {
-      id: 'explore.scopes.global.caption',
-      defaultMessage: 'Global',
-      description: 'Caption for the global scope',
-    },
-    label: {
-      id: 'explore.scopes.global.label',
-      defaultMessage: 'global',
-      description: 'Label for the global scope',
-    },
-    description: {
-      id: 'explore.scopes.global.description',
-      defaultMessage: 'all accounts on nostr',
-      description: 'Description of the global scope description',
-    },
-  },
-};
-
-export const timeframeDescriptors: Record<string, MessageDescriptor> = {
-  latest: {
-    id: 'explore.timeframes.latest.caption',
-    defaultMessage: 'latest',
-    description: 'Caption for the latest timeframe',
-  },
-  trending: {
-    id: 'explore.timeframes.trending.caption',
-    defaultMessage: 'trending',
-    description: 'Caption for the trending timeframe',
-  },
-  popular: {
-    id: 'explore.timeframes.popular.caption',
-    defaultMessage: 'popular',
-    description: 'Caption for the popular timeframe',
-  },
-  mostzapped: {
-    id: 'explore.timeframes.mostzapped.caption',
-    defaultMessage: 'zapped',
-    description: 'Caption for the mostzapped timeframe',
-  },
-};
-
-export const toastZapFail = {
-  id: 'toast.zapFail',
-  defaultMessage: 'We were unable to send this Zap',
-  description: 'Toast message indicating failed zap',
-};
-
-
-export const toastZapProfile = {
-  id: 'toast.zapProfile',
-  defaultMessage: '{name} zapped successfully',
-  description: 'Toast message indicating successful zap',
-};
-
-export const thread = {
-  sidebar: {
-    id: 'thread.sidebar',
-    defaultMessage: 'Replying to this Note',
-    description: 'Title of the Thread page sidebar',
-  },
-  sidebarMentions: {
-    id: 'thread.sidebarMentions',
-    defaultMessage: 'People in this Note',
-    description: 'Title of the Thread page sidebar',
-  },
-  pageTitle: {
-    id: 'thread.page.title',
-    defaultMessage: 'Note by {name}',
-    description: 'Title of the Thread page sidebar',
-  },
-};
-
-export const toast = {
-  addFeedToHomeSuccess: {
-    id: 'toasts.addFeedToHome.success',
-    defaultMessage: '"{name}" has been added to your home page',
-    description: 'Toast message confirming successfull adding of the feed to home to the list of available feeds',
-  },
-  removeFeedFromHomeSuccess: {
-    id: 'toasts.removeFeedToHome.success',
-    defaultMessage: '"{name}" has been removed from your home page',
-    description: 'Toast message confirming successfull removal of the feed from home\'s list of available feeds',
-  },
-  fileTypeUpsupported: {
-    id: 'toast.unsupportedFileType',
-    defaultMessage: 'You can only upload images and videos. This file type is not supported.',
-    description: 'Feedback when user tries to upload an unsupported file type',
-  },
-  publishNoteSuccess: {
-    id: 'toast.publishNoteSuccess',
-    defaultMessage: 'Note posted successfully',
-    description: 'Toast message confirming successfull publication of the note',
-  },
-  publishNoteTimeout: {
-    id: 'toast.publishNoteTimeout',
-    defaultMessage: 'No relay confirmed reception of your note after 8 seconds',
-    description: 'Toast message indicating that no relay confirmed note reception',
-  },
-  publishNoteFail: {
-    id: 'toast.publishNoteFail',
-    defaultMessage: 'Failed to publish note',
-    description: 'Toast message indicating that note publishing has failed',
-  },
-  noRelays: {
-    id: 'toast.noRelays',
-    defaultMessage: 'You need to declare at least one relay to perform this action',
-    description: 'Toast message indicating user has no relays configured',
-  },
-  noRelaysConnected: {
-    id: 'toast.noRelaysConnected',
-    defaultMessage: '"We are trying to connect to your relays. Please try again in a few moments.',
-    description: 'Toast message indicating user is not connected to aany relay',
-  },
-  noExtension: {
-    id: 'toast.noExtension',
-    defaultMessage: 'Nostr extension is required to send events',
-    description: 'Toast message indicating no extension was found',
-  },
-  streamPrimalLinkCoppied: {
-    id: 'toast.streamPrimalLinkCoppied',
-    defaultMessage: 'Stream link copied',
-    description: 'Confirmation message that the stream\'s link has been copied',
-  },
-  streamIdCoppied: {
-    id: 'toast.streamIdCoppied',
-    defaultMessage: 'Stream id copied',
-    description: 'Confirmation message that the stream\'s id has been copied',
-  },
-  streamRawDataCoppied: {
-    id: 'toast.streamRawDataCoppied',
-    defaultMessage: 'Stream raw data copied',
-    description: 'Confirmation message that the stream\'s raw data has been copied',
-  },
-  streamAuthorNpubCoppied: {
-    id: 'toast.streamAuthorNpubCoppied',
-    defaultMessage: 'Stream author npub copied',
-    description: 'Confirmation message that the stream\'s author npub has been copied',
-  },
-  noteNostrLinkCoppied: {
-    id: 'toast.noteNostrLinkCoppied',
-    defaultMessage: 'Note nostr link copied',
-    description: 'Confirmation message that the note\'s link has been copied',
-  },
-  notePrimalLinkCoppied: {
-    id: 'toast.notePrimalLinkCoppied',
-    defaultMessage: 'Note link copied',
-    description: 'Confirmation message that the note\'s link has been copied',
-  },
-  notePrimalTextCoppied: {
-    id: 'toast.notePrimalTextCoppied',
-    defaultMessage: 'Note text copied',
-    description: 'Confirmation message that the note\'s text has been copied',
-  },
-  noteIdCoppied: {
-    id: 'toast.noteIdCoppied',
-    defaultMessage: 'Note id copied',
-    description: 'Confirmation message that the note\'s id has been copied',
-  },
-  noteRawDataCoppied: {
-    id: 'toast.noteRawDataCoppied',
-    defaultMessage: 'Note raw data copied',
-    description: 'Confirmation message that the note\'s raw data has been copied',
-  },
-  noteAuthorNpubCoppied: {
-    id: 'toast.noteAuthorNpubCoppied',
-    defaultMessage: 'Note author npub copied',
-    description: 'Confirmation message that the note\'s author npub has been copied',
-  },
-  profileNpubCoppied: {
-    id: 'toast.noteAuthorNpubCoppied',
-    defaultMessage: 'User npub copied',
-    description: 'Confirmation message that the user\'s npub has been copied',
-  },
-  noteBroadcastSuccess: {
-    id: 'toast.noteBroadcastSuccess',
-    defaultMessage: 'Note has been broadcasted to your relays',
-    description: 'Confirmation message that the note has been broadcasted',
-  },
-  noteBroadcastFail: {
-    id: 'toast.noteBroadcastFail',
-    defaultMessage: 'We were unable to broadcast this note',
-    description: 'Failure message that the note has not been broadcasted',
-  },
-  repostSuccess: {
-    id: 'toast.repostSuccess',
-    defaultMessage: 'Reposted successfully',
-    description: 'Toast message indicating successfull repost',
-  },
-  repostFailed: {
-    id: 'toast.repostFailed',
-    defaultMessage: 'Failed to repost',
-    description: 'Toast message indicating failed repost',
-  },
-  noteAuthorReported: {
-    id: 'toast.noteAuthorReported',
-    defaultMessage: 'User {name} reported',
-    description: 'Toast message indicating successfull user report',
-  },
-  zapAsGuest: {
-    id: 'toast.zapAsGuest',
-    defaultMessage: 'You must be logged-in to perform a zap',
-    description: 'Toast message indicating user must be logged-in to perform a zap',
-  },
-  zapUnavailable: {
-    id: 'toast.zapUnavailable',
-    defaultMessage: 'Author of this note cannot be zapped because they didn\'t setup their lightning address',
-    description: 'Toast message indicating user cannot receieve a zap',
-  },
-  zapDVMUnavailable: {
-    id: 'toast.zapDVMUnavailable',
-    defaultMessage: 'Author of this note cannot be zapped because they didn\'t setup their lightning address',
-    description: 'Toast message indicating user cannot receieve a zap',
-  },
-  updateProfileSuccess: {
-    id: 'toast.updateProfileSuccess',
-    defaultMessage: 'Profile updated successfully',
-    description: 'Toast message indicating that profile was successfully updated',
-  },
-  updateProfileFail: {
-    id: 'toast.updateProfileFail',
-    defaultMessage: 'Failed to update profile, please try again',
-    description: 'Toast message indicating that profile has failed to updated',
-  },
-};
-
-export const zapCustomOption = {
-  id: 'zap.custom.option',
-  defaultMessage: 'Zap {user} ',
-  description: 'Caption for custom zap amount modal',
-};
-
-export const zapCustomAmount = {
-  id: 'zap.custom.amount',
-  defaultMessage: `Custom amount:`,
-  description: 'Caption for custom zap amount input',
-};
-
-export const errors = {
-  invalidRelayUrl: {
-    id: 'placeholders.invalidRelayUrl',
-    defaultMessage: 'Invalid url',
-    description: 'Error text for invalid url',
-  },
-  invalidServerUrl: {
-      id: 'placeholders.invalidServerUrl',
-      defaultMessage: 'Invalid url',
-      description: 'Error text for invalid url',
-    },
-};
-
-export const unknown = {
-  id: 'unknown',
-  defaultMessage: 'UNKNOWN',
-  description: 'Error text for Unknown',
-};
-
-export const emojiGroups = {
-  preset: {
-    id: 'emoji.recent',
-    defaultMessage: 'Recently Used',
-    description: 'Recently used emoji group title',
-  },
-  face: {
-    id: 'emoji.face',
-    defaultMessage: 'Faces',
-    description: 'Faces emoji group title',
-  },
-};
-
-export const upload = {
-  fail: {
-    id: 'upload.fail',
-    defaultMessage: 'Failed to upload file {file}',
-    description: 'Error feedback when upload fails',
-  },
-  fileTooBigRegular: {
-    id: 'upload.fileTooBigRegular',
-    defaultMessage: 'File too big. Upload limit is 100MB.',
-    description: 'Error feedback when file is too big for regular users',
-  },
-  fileTooBigPremium: {
-    id: 'upload.fileTooBigPremium',
-    defaultMessage: 'File too big. Upload limit is 1GB.',
-    description: 'Error feedback when file is too big for premiumUsers',
-  },
-};
-
-export const landing = {
-  tagline: {
-    id: 'landing.tagline',
-    defaultMessage: 'The Social Bitcoin Wallet',
-    description: 'Landing page tagline',
-  },
-  description: {
-    id: 'landing.description',
-    defaultMessage: 'Open protocols for money and speech are going to change everything. Join the revolution.',
-    description: 'Landing page description',
-  },
-  browserOption: {
-    id: 'landing.browserOption',
-    defaultMessage: 'Continue in browser',
-    description: 'Landing page browser option',
-  },
-};
-
-export const forgotPin = {
-  title: {
-    id: 'forgotPin.title',
-    defaultMessage: 'This action will erase you key',
-    description: 'Forgot pin modal title',
-  },
-  description: {
-    id: 'forgotPin.description',
-    defaultMessage: 'You will still be able to browse Nostr through Primal but you will not be able to take any actions (post notes, likes,...) until you re-login with your private key. Are you sure you wish to continue?',
-    description: 'Explanation of what happens when pin is erased',
-  },
-  confirm: {
-    id: 'forgotPin.confirm',
-    defaultMessage: 'Yes, continue',
-    description: 'Confirm forgot pin action',
-  },
-  abort: {
-    id: 'forgotPin.abort',
-    defaultMessage: 'Cancel',
-    description: 'Abort forgot pin action',
-  },
-};
-
-export const followWarning = {
-  title: {
-    id: 'followWarning.title',
-    defaultMessage: 'This action may result in an error',
-    description: 'Follow error modal title',
-  },
-  description: {
-    id: 'followWarning.description',
-    defaultMessage: 'If you continue, you will end up following just one nostr account. Are you sure you want to continue?',
-    description: 'Explanation of what happens when follow error occurs',
-  },
-  confirm: {
-    id: 'followWarning.confirm',
-    defaultMessage: 'Yes, continue',
-    description: 'Confirm forgot pin action',
-  },
-  abort: {
-    id: 'followWarning.abort',
-    defaultMessage: 'Abort',
-    description: 'Abort forgot pin action',
-  },
-};
-
-export const reads = {
-  pageTitle: {
-    id: 'reads.pageTitle',
-    defaultMessage: 'Reads',
-    description: 'Reads page title',
-  },
-};
-
-export const bookmarks = {
-  pageTitle: {
-    id: 'bookmarks.pageTitle',
-    defaultMessage: 'Bookmarks',
-    description: 'Bookmarks page title',
-  },
-  noBookmarks: {
-    id: 'bookmarks.noBookmarks',
-    defaultMessage: 'You don\'t have any bookmarks',
-    description: 'No bookmarks caption',
-  },
-  confirm: {
-    title: {
-      id: 'bookmarks.confirm.title',
-      defaultMessage: 'Saving First Bookmark',
-      description: 'Follow error modal title',
-    },
-    description: {
-      id: 'bookmarks.confirm.description',
-      defaultMessage: 'You are about to save your first public bookmark. These bookmarks can be seen by other nostr users. Do you wish to continue?',
-      description: 'Explanation of what happens when bookmark error occurs',
-    },
-    confirm: {
-      id: 'bookmarks.confirm.confirm',
-      defaultMessage: 'Save Bookmark',
-      description: 'Confirm forgot pin action',
-    },
-    abort: {
-      id: 'bookmarks.confirm.abort',
-      defaultMessage: 'Cancel',
-      description: 'Abort forgot pin action',
-    },
-    titleZero: {
-      id: 'bookmarks.confirm.title',
-      defaultMessage: 'Removing Last Bookmark',
-      description: 'Follow error modal title',
-    },
-    descriptionZero: {
-      id: 'bookmarks.confirm.description',
-      defaultMessage: 'You are about to remove your last public bookmark. Do you wish to continue?',
-      description: 'Explanation of what happens when bookmark error occurs',
-    },
-    confirmZero: {
-      id: 'bookmarks.confirm.confirm',
-      defaultMessage: 'Remove Bookmark',
-      description: 'Confirm forgot pin action',
-    },
-    abortZero: {
-      id: 'bookmarks.confirm.abort',
-      defaultMessage: 'Cancel',
-      description: 'Abort forgot pin action',
-    },
-  }
-}
-
-export const lnInvoice = {
-  pay: {
-    id: 'lnInvoice.pay',
-    defaultMessage: 'Pay',
-    description: 'Pay invoice action',
-  },
-  title: {
-    id: 'lnInvoice.title',
-    defaultMessage: 'Lightning Invoice',
-    description: 'Lightning Invoice title',
-  },
-  expired: {
-    id: 'lnInvoice.expired',
-    defaultMessage: 'Expired: {date} ago',
-    description: 'Expired time',
-  },
-  expires: {
-    id: 'lnInvoice.expires',
-    defaultMessage: 'Expires: in {date}',
-    description: 'Expires time',
-  },
-  confirm: {
-    title: {
-      id: 'lnInvoice.confirm.title',
-      defaultMessage: 'Are you sure?',
-      description: 'Lightning invoice pay confirmation',
-    },
-    description: {
-      id: 'lnInvoice.confirm.description',
-      defaultMessage: 'Pay {amount}',
-      description: 'Lightning Invoice confirm description',
-    },
-    confirmLabel: {
-      id: 'lnInvoice.confirm.confirmLabel',
-      defaultMessage: 'Yes, pay',
-      description: 'Lightning Invoice confirm button label',
-    },
-    abortLabel: {
-      id: 'lnInvoice.confirm.abortLabel',
-      defaultMessage: 'Cancel',
-      description: 'Lightning Invoice confirm button label',
-    },
-  },
-
-};
-
-export const cashuInvoice = {
-  redeem: {
-    id: 'cashuInvoice.redeem',
-    defaultMessage: 'Reedem',
-    description: 'Reedem ecash action',
-  },
-  pending: {
-    id: 'cashuInvoice.pending',
-    defaultMessage: 'Pending',
-    description: 'Pending ecash',
-  },
-  spent: {
-    id: 'cashuInvoice.spent',
-    defaultMessage: 'Spent',
-    description: 'Spent ecash',
-  },
-  title: {
-    id: 'cashuInvoice.title',
-    defaultMessage: 'Cashu Ecash',
-    description: 'Cashu Ecash title',
-  },
-  mint: {
-    id: 'cashuInvoice.mint',
-    defaultMessage: 'Mint: {url}',
-    description: 'Mint url',
-  },
-  confirm: {
-    title: {
-      id: 'cashuInvoice.confirm.title',
-      defaultMessage: 'Are you sure?',
-      description: 'Cashu invoice pay confirmation',
-    },
-    description: {
-      id: 'cashuInvoice.confirm.description',
-      defaultMessage: 'Redeem {amount}',
-      description: 'Cashu Invoice confirm description',
-    },
-    confirmLabel: {
-      id: 'cashuInvoice.confirm.confirmLabel',
-      defaultMessage: 'Yes, redeem',
-      description: 'Cashu Invoice confirm button label',
-    },
-    abortLabel: {
-      id: 'cashuInvoice.confirm.abortLabel',
-      defaultMessage: 'Cancel',
-      description: 'Cashu Invoice confirm button label',
-    },
-  },
-
-};
-
-export const reactionsModal = {
-  tabs: {
-    likes: {
-      id: 'reactionsModal.tabs.likes',
-      defaultMessage: 'Likes ({count})',
-      description: 'Likes tab label in reactions modal',
-    },
-    zaps: {
-      id: 'reactionsModal.tabs.zaps',
-      defaultMessage: 'Zaps ({count})',
-      description: 'Zaps tab label in reactions modal',
-    },
-    reposts: {
-      id: 'reactionsModal.tabs.reposts',
-      defaultMessage: 'Reposts ({count})',
-      description: 'Reposts tab label in reactions modal',
-    },
-    quotes: {
-      id: 'reactionsModal.tabs.quotes',
-      defaultMessage: 'Quotes ({count})',
-      description: 'Quotes tab label in reactions modal',
-    },
-  },
-};
-
-export const premium = {
-  labels: {
-    foreverPremium: {
-      id: 'pages.premium.labes.foreverPremium',
-      defaultMessage: 'Forever Premium',
-      description: 'Forever Premium perk title',
-    },
-    foreverPremiumDescription: {
-      id: 'pages.premium.labes.foreverPremiumDescription',
-      defaultMessage: 'Premium subscription never expires for legends.',
-      description: 'Forever Premium perk description',
-    },
-    privateBetaBuilds: {
-      id: 'pages.premium.labes.privateBetaBuilds',
-      defaultMessage: 'Private Beta Builds',
-      description: 'Private Beta Builds perk title',
-    },
-    privateBetaBuildsDescription: {
-      id: 'pages.premium.labes.privateBetaBuildsDescription',
-      defaultMessage: 'Get access to new features before they are public.',
-      description: 'Private Beta perk description',
-    },
-    moreMediaSpace: {
-      id: 'pages.premium.labes.moreMediaSpace',
-      defaultMessage: 'Way More Storage',
-      description: 'More Media perk title',
-    },
-    moreMediaSpaceDescription: {
-      id: 'pages.premium.labes.moreMediaSpaceDescription',
-      defaultMessage: 'Get 100GB of Primal Premium media storage.',
-      description: 'More Media perk description',
-    },
-    customLegendProfile: {
-      id: 'pages.premium.labes.customLegendProfile',
-      defaultMessage: 'Legendary Custom Profile',
-      description: 'Legendary Custom Profile perk title',
-    },
-    customLegendDescription: {
-      id: 'pages.premium.labes.customLegendDescription',
-      defaultMessage: 'Option to pick the color of your verified badge and set the glow around your avatar',
-      description: 'Legendary Custom Profile perk description',
-    },
-    legendPageCaption: {
-      id: 'pages.premium.labes.legendPageCaption',
-      defaultMessage: 'Donate $1000 or more to gain:',
-      description: 'Legend page caption',
-    },
-    legendPageExplanation: {
-      id: 'pages.premium.labes.legendPageExplanation',
-      defaultMessage: 'The Legend tier was created to recognize users who have made a significant contribution to Primal.',
-      description: 'Legend page explanation',
-    },
-    supportFirstLine: {
-      id: 'pages.premium.labes.supportFirstLine',
-      defaultMessage: 'Want to get more out of Primal?',
-      description: 'Support label first line',
-    },
-    supportSecondLine: {
-      id: 'pages.premium.labes.supportSecondLine',
-      defaultMessage: 'Check out ',
-      description: 'Support label second line',
-    },
-    supportCaption: {
-      id: 'pages.premium.labes.supportCaption',
-      defaultMessage: 'Be a part of the Nostr revolution and help us continue building for this ecosystem.',
-      description: 'Support page caption',
-    },
-    leaveStars: {
-      id: 'pages.premium.labes.leaveStars',
-      defaultMessage: 'Leave a 5 Star Review',
-      description: 'Support page 5 star review caption',
-    },
-    leaveStarsDescription: {
-      id: 'pages.premium.labes.leaveStarsDescription',
-      defaultMessage: 'App Store reviews really help improve the visibility of Nostr apps at this early stage.',
-      description: 'Support page 5 star review description',
-    },
-    extendSubscription: {
-      id: 'pages.premium.labes.extendSubscription',
-      defaultMessage: 'Extend Subscription',
-      description: 'Support page extend subscription caption',
-    },
-    extendSubscriptionDescription: {
-      id: 'pages.premium.labes.extendSubscriptionDescription',
-      defaultMessage: 'Extend your existing subscription to gain peace of mind and help fund Primal.',
-      description: 'Support page extend subscription description',
-    },
-    becomeLegend: {
-      id: 'pages.premium.labes.becomeLegend',
-      defaultMessage: 'Become a Legend',
-      description: 'Support page become legend caption',
-    },
-    becomeLegendDescription: {
-      id: 'pages.premium.labes.becomeLegendDescription',
-      defaultMessage: 'Donate $1000 or more to gain permanent membership and exclusive perks!',
-      description: 'Support page become legend description',
-    },
-  },
-  actions: {
-    payNow: {
-      id: 'pages.premium.actions.payNow',
-      defaultMessage: 'Pay Now',
-      description: 'Action to pay now',
-    },
-    becomeLegend: {
-      id: 'pages.premium.actions.becomeLegend',
-      defaultMessage: 'Become a Legend Now',
-      description: 'Action that takes user to the Become a Legend page',
-    },
-    getIOS: {
-      id: 'pages.premium.actions.getIOS',
-      defaultMessage: 'Go to iOS App',
-      description: 'Action that takes user to the iOS APP page',
-    },
-    getAndroid: {
-      id: 'pages.premium.actions.getAndroid',
-      defaultMessage: 'Go to Android App',
-      description: 'Action that takes user to the Android App page',
-    },
-    support: {
-      id: 'pages.premium.actions.support',
-      defaultMessage: 'support us',
-      description: 'Action that takes user to the support page',
-    },
-    primalPro: {
-      id: 'pages.premium.actions.primalPro',
-      defaultMessage: 'Primal Pro',
-      description: 'Action that takes user to the Primal Pro dialog',
-    },
-    start: {
-      id: 'pages.premium.actions.start',
-      defaultMessage: 'Find Primal Name',
-      description: 'Find primal name action on the premium page',
-    },
-    back: {
-      id: 'pages.premium.actions.back',
-      defaultMessage: 'Back',
-      description: 'To the previous step on the premium page',
-    },
-    next: {
-      id: 'pages.premium.actions.next',
-      defaultMessage: 'Next',
-      description: 'To the next step on the premium page',
-    },
-    subscribe: {
-      id: 'pages.premium.actions.subscribe',
-      defaultMessage: 'Continue to Payment',
-      description: 'Subscribe action on the premium page',
-    },
-    done: {
-      id: 'pages.premium.actions.done',
-      defaultMessage: 'Done',
-      description: 'Done action on the premium page',
-    },
-    tryAgain: {
-      id: 'pages.premium.actions.tryAgain',
-      defaultMessage: 'Try Again',
-      description: 'Try again action on the premium page',
-    },
-    rename: {
-      id: 'pages.premium.actions.rename',
-      defaultMessage: 'Rename',
-      description: 'To the rename step on the premium page',
-    },
-    changeName: {
-      id: 'pages.premium.actions.changeName',
-      defaultMessage: 'Change Your Primal Name',
-      description: 'Change Primal name action on the premium page',
-    },
-    extendPlan: {
-      id: 'pages.premium.actions.extendPlan',
-      defaultMessage: 'Extend Your Subscription',
-      description: 'Extend your subscription action on the premium page',
-    },
-    renewPlan: {
-      id: 'pages.premium.actions.renewPlan',
-      defaultMessage: 'Renew Your Subscription',
-      description: 'Extend your subscription action on the premium page',
-    },
-    managePremium: {
-      id: 'pages.premium.actions.managePremium',
-      defaultMessage: 'Manage Premium',
-      description: 'Manage your Premium Account',
-    },
-  },
-  title: {
-    general: {
-      id: 'pages.premium.title',
-      defaultMessage: 'Primal {productGroup}',
-      description: 'Title of the premium page',
-    },
-    name: {
-      id: 'pages.premium.name',
-      defaultMessage: 'Choose a primal name',
-      description: 'Title of the premium find name page',
-    },
-    subscription: {
-      id: 'pages.premium.subscription',
-      defaultMessage: 'Congrats!',
-      description: 'Title of the premium subscription page',
-    },
-    subscriptionSubtitle: {
-      id: 'pages.premium.subscriptionSubtitle',
-      defaultMessage: 'Your Primal Name is available',
-      description: 'Subtitle of the premium subscription page',
-    },
-    rename: {
-      id: 'pages.premium.rename',
-      defaultMessage: 'Change your primal name',
-      description: 'Title of the premium rename page',
-    },
-    support: {
-      id: 'pages.premium.support',
-      defaultMessage: 'Support Primal',
-      description: 'Title of the premium support page',
-    },
-    premiums: {
-      id: 'pages.premium.premiums',
-      defaultMessage: 'Premium Users',
-      description: 'Title of the premium leaderboards page',
-    },
-    legends: {
-      id: 'pages.premium.legends',
-      defaultMessage: 'Primal Legends',
-      description: 'Title of the legends leaderboards page',
-    },
-    legend: {
-      id: 'pages.premium.legend',
-      defaultMessage: 'Become a Primal Legend',
-      description: 'Title of the premium legend page',
-    },
-    legendShort: {
-      id: 'pages.premium.legendShort',
-      defaultMessage: 'Primal Legend',
-      description: 'Short title of the premium legend page',
-    },
-    relay: {
-      id: 'pages.premium.relay',
-      defaultMessage: 'Primal Relay',
-      description: 'Title of the premium relay page',
-    },
-    media: {
-      id: 'pages.premium.media',
-      defaultMessage: 'Media Managment',
-      description: 'Title of the premium media managment page',
-    },
-    contacts: {
-      id: 'pages.premium.contacts',
-      defaultMessage: 'Recover Follow List',
-      description: 'Title of the premium recover contacts page',
-    },
-    content: {
-      id: 'pages.premium.content',
-      defaultMessage: 'Content Backup',
-      description: 'Title of the premium content backup page',
-    },
-    og: {
-      id: 'pages.premium.og',
-      defaultMessage: 'Primal OG',
-      description: 'Title of the Primal OG page',
-    },
-    ogLegend: {
-      id: 'pages.premium.ogLegend',
-      defaultMessage: 'Primal Legend',
-      description: 'Title of the Primal Legend page',
-    },
-  },
-  subOptions: {
-    prices: {
-      m7: {
-        id: 'pages.premium.subOption.m7',
-        defaultMessage: '$7/month',
-        description: '$7 per month',
-      },
-      m6: {
-        id: 'pages.premium.subOption.m6',
-        defaultMessage: '$6/month',
-        description: '$6 per month',
-      },
-      m70: {
-        id: 'pages.premium.subOption.m70',
-        defaultMessage: '$69.99/month',
-        description: '$69.99 per month',
-      },
-      y750: {
-        id: 'pages.premium.subOption.y750',
-        defaultMessage: '$750/year',
-        description: '$750 per year',
-      },
-    },
-    durations: {
-      m3: {
-        id: 'pages.premium.duration.m3',
-        defaultMessage: '3 months',
-        description: '3 month duration',
-      },
-      m12: {
-        id: 'pages.premium.duration.m12',
-        defaultMessage: '12 months',
-        description: '12 month duration',
-      },
-      m1: {
-        id: 'pages.premium.duration.m1',
-        defaultMessage: 'monthly',
-        description: 'monthly payments',
-      },
-      y1: {
-        id: 'pages.premium.duration.y1',
-        defaultMessage: 'annually',
-        description: 'annual payments',
-      },
-    },
-    success: {
-      caption: {
-        id: 'pages.premium.success.caption',
-        defaultMessage: 'Success!',
-        description: 'Payment success caption',
-      },
-      m3: {
-        id: 'pages.premium.success.m3',
-        defaultMessage: 'You subscribed to Primal Premium for 3 months.',
-        description: 'Payment success description for 3 month plan',
-      },
-      m12: {
-        id: 'pages.premium.success.m12',
-        defaultMessage: 'You subscribed to Primal Premium for 12 months.',
-        description: 'Payment success description for 12 month plan',
-      },
-      m70: {
-        id: 'pages.premium.success.m70',
-        defaultMessage: 'You subscribed to Primal Pro for 1 month.',
-        description: 'Payment success description for 1 month pro plan',
-      },
-      y750: {
-        id: 'pages.premium.success.y750',
-        defaultMessage: 'You subscribed to Primal Pro for 12 months.',
-        description: 'Payment success description for 12 month pro plan',
-      },
-      legend: {
-        id: 'pages.premium.success.legend',
-        defaultMessage: 'You are now a Primal Legend.',
-        description: 'Payment success description for legends',
-      },
-      donation: {
-        id: 'pages.premium.success.donation',
-        defaultMessage: 'Thank you, Legend!',
-        description: 'Payment success description for additional donations by legends',
-      },
-    },
-    fail: {
-      caption: {
-        id: 'pages.premium.fail.caption',
-        defaultMessage: 'Payment failed!',
-        description: 'Payment failure caption',
-      },
-      description: {
-        id: 'pages.premium.success.description',
-        defaultMessage: 'There was a problem procesing your payment',
-        description: 'Payment failure description',
-      },
-    }
-  },
-  errors: {
-    nameTooShort: {
-      id: 'pages.premium.error.nameTooShort',
-      defaultMessage: 'Name needs to be at least 3 characters long',
-      description: 'Name is too short error',
-    },
-    nameUnavailable: {
-      id: 'pages.premium.error.nameUnavailable',
-      defaultMessage: 'Sorry, that name is currently unavailable',
-      description: 'Name is unavailable error',
-    },
-    nameNotChanged: {
-      id: 'pages.premium.error.nameNotChanged',
-      defaultMessage: 'Failed to change name',
-      description: 'Name is unavailable error',
-    },
-  }
-};
-
-export const readsMy = {
-  pageCaption: {
-    id: 'pages.readsMy.pageCaption',
-    defaultMessage: 'My Articles',
-    description: 'My reads page caption',
-  },
-  noPublishedArticle: {
-    id: 'pages.readsMy.noPublishedArticle',
-    defaultMessage: 'No articles published',
-    description: 'No published articles label',
-  },
-  noDrafts: {
-    id: 'pages.readsMy.noDrafts',
-    defaultMessage: 'You don\'t have any drafts',
-    description: 'No published articles label',
-  },
-
-}
+import { MessageDescriptor } from "@cookbook/solid-intl";
+import { NotificationType } from "./constants";
+import { ScopeDescriptor } from "./types/primal";
+
+
+export const account = {
+  alreadyHaveAccount: {
+    id: 'account.alreadyHaveAccount',
+    defaultMessage: 'Already have a Nostr account?',
+    description: 'Already have a Nostr accountlabel',
+  },
+  prominentNostriches: {
+    id: 'actions.prominentNostriches',
+    defaultMessage: 'Prominent Nostriches',
+    description: 'Prominent Nostriches label',
+  },
+  follow: {
+    id: 'actions.follow',
+    defaultMessage: 'follow',
+    description: 'Follow button label',
+  },
+  unfollow: {
+    id: 'actions.unfollow',
+    defaultMessage: 'unfollow',
+    description: 'Unfollow button label',
+  },
+  followAll: {
+    id: 'actions.followAll',
+    defaultMessage: 'follow all',
+    description: 'Follow all button label',
+  },
+  unfollowAll: {
+    id: 'actions.unfollowAll',
+    defaultMessage: 'unfollow all',
+    description: 'Unfollow all button label',
+  },
+  followFailed: {
+    id: 'account.followFailed',
+    defaultMessage: 'Failed to complete the follow possibly due to a network error. Please try again.',
+    description: 'Feedback to user that the follow action has failed',
+  },
+  unfollowFailed: {
+    id: 'account.unfollowFailed',
+    defaultMessage: 'Failed to complete the unfollow possibly due to a network error. Please try again.',
+    description: 'Feedback to user that the unfollow action has failed',
+  },
+  needToLogin: {
+    id: 'account.needToLogin',
+    defaultMessage: 'You need to be signed in to perform this action',
+    description: 'Message to user that an action cannot be preformed without a public key',
+  },
+  createNewDescription: {
+    id: 'account.createNewDescription',
+    defaultMessage: 'New to Nostr? Create your account now and join this magical place. It’s quick and easy!',
+    description: 'Label inviting users to join Nostr',
+  },
+  create: {
+    title: {
+      id: 'settings.account.title',
+      defaultMessage: 'Create Account',
+      description: 'Title of the create account page',
+    },
+    descriptions: {
+      step_one: {
+        id: 'settings.account.descriptions.step_one',
+        defaultMessage: "Let’s start with the basics. Only the username is required!",
+        description: 'Description on step one',
+      },
+      step_two: {
+        id: 'settings.account.descriptions.step_two',
+        defaultMessage: "Tell us a bit more about yourself. Everything on this page is optional!",
+        description: 'Description on step two',
+      },
+      step_three: {
+        id: 'settings.account.descriptions.step_three',
+        defaultMessage: "We found some Nostr accounts for you to follow:",
+        description: 'Description on step three',
+      },
+    }
+  },
+};
+
+export const login = {
+  title: {
+    id: 'login.title',
+    defaultMessage: 'Login',
+    description: 'Login ',
+  },
+  description: {
+    id: 'login.description',
+    defaultMessage: 'Enter your Nostr private key (starting with “nsec”):',
+    description: 'Label describing the login proccess',
+  },
+  invalidNsec: {
+    id: 'login.invalidNsec',
+    defaultMessage: 'Please enter a valid Nostr private key',
+    description: 'Label informing the user of an invalid nsec key',
+  },
+  useRemoteSigner: {
+    id: 'login.useRemoteSigner',
+    defaultMessage: 'Login with a remote signer (NIP-46)',
+    description: 'Link to switch to the remote signer login',
+  },
+  useNsec: {
+    id: 'login.useNsec',
+    defaultMessage: 'Login with a private key instead',
+    description: 'Link to switch back to the nsec login',
+  },
+  remoteTitle: {
+    id: 'login.remoteTitle',
+    defaultMessage: 'Remote Signer',
+    description: 'Remote signer login title',
+  },
+  remoteDescription: {
+    id: 'login.remoteDescription',
+    defaultMessage: 'Paste a connection string from your signer (starting with “bunker://”):',
+    description: 'Label describing the bunker login',
+  },
+  remoteScan: {
+    id: 'login.remoteScan',
+    defaultMessage: 'Or scan this code with your signer app:',
+    description: 'Label above the nostrconnect QR code',
+  },
+  invalidBunker: {
+    id: 'login.invalidBunker',
+    defaultMessage: 'Please enter a valid bunker:// connection string',
+    description: 'Label informing the user of an invalid bunker uri',
+  },
+  remoteWaiting: {
+    id: 'login.remoteWaiting',
+    defaultMessage: 'Waiting for your signer to respond...',
+    description: 'Status shown while waiting on a remote signer',
+  },
+  remoteTimeout: {
+    id: 'login.remoteTimeout',
+    defaultMessage: 'Your signer did not respond in time',
+    description: 'Status shown when a remote signer request times out',
+  },
+  remoteError: {
+    id: 'login.remoteError',
+    defaultMessage: 'Your signer rejected the request: {error}',
+    description: 'Status shown when a remote signer request fails',
+  },
+  remoteApproveTitle: {
+    id: 'login.remoteApproveTitle',
+    defaultMessage: 'Approval required',
+    description: 'Title of the remote signer approval prompt',
+  },
+  remoteApprove: {
+    id: 'login.remoteApprove',
+    defaultMessage: 'Your signer needs you to approve “{method}” before it can continue.',
+    description: 'Description of the remote signer approval prompt',
+  },
+  remoteApproveOpen: {
+    id: 'login.remoteApproveOpen',
+    defaultMessage: 'Open signer',
+    description: 'Button that opens the remote signer approval page',
+  },
+};
+
+export const pin = {
+  title: {
+    id: 'pin.title',
+    defaultMessage: 'Create Pin',
+    description: 'Create Pin modal title',
+  },
+  description: {
+    id: 'pin.description',
+    defaultMessage: 'Create a PIN to secure your account. You will need to enter this PIN every time you login to the Primal web app:',
+    description: 'Label describing what the pin is used for',
+  },
+  enter: {
+    id: 'pin.enter',
+    defaultMessage: 'Enter your PIN to login: ',
+    description: 'Label instructing the user to enter the pin',
+  },
+  enterTitle: {
+    id: 'pin.enterTitle',
+    defaultMessage: 'Enter Pin',
+    description: 'Enter Pin modal title',
+  },
+  reEnter: {
+    id: 'pin.reEnter',
+    defaultMessage: 'Re-type your PIN:',
+    description: 'Label instructing the user to re-enter the pin',
+  },
+  invalidPin: {
+    id: 'pin.invalidPin',
+    defaultMessage: 'PIN must be at least 4 characters',
+    description: 'Label instructing the user on the valid pin requirements',
+  },
+  invalidRePin: {
+    id: 'pin.invalidRePin',
+    defaultMessage: 'PINs don\'t match',
+    description: 'Label instructing the user that the two pins don\'t match',
+  },
+};
+
+export const actions = {
+  resetRelays: {
+    id: 'actions.resetRelays',
+    defaultMessage: 'Reset relays',
+    description: 'Reset relays label',
+  },
+  seeMore: {
+    id: 'actions.seeMore',
+    defaultMessage: 'see more',
+    description: 'See more label',
+  },
+  newNote: {
+    id: 'actions.newNote',
+    defaultMessage: 'New Note',
+    description: 'New note action label',
+  },
+  myArticles: {
+    id: 'actions.newArticle',
+    defaultMessage: 'My Articles',
+    description: 'New article action label',
+  },
+  createPin: {
+    id: 'actions.createPin',
+    defaultMessage: 'Set PIN',
+    description: 'Create PIN action, button label',
+  },
+  optoutPin: {
+    id: 'actions.optoutPin',
+    defaultMessage: 'Continue without a PIN',
+    description: 'opt-out of PIN action, button label',
+  },
+  createAccount: {
+    id: 'actions.createAccount',
+    defaultMessage: 'Create Account',
+    description: 'Create account action, button label',
+  },
+  login: {
+    id: 'actions.login',
+    defaultMessage: 'Login',
+    description: 'Login action, button label',
+  },
+  loginNow: {
+    id: 'actions.loginNow',
+    defaultMessage: 'Login now',
+    description: 'Login Now action, button label',
+  },
+  logout: {
+    id: 'actions.logout',
+    defaultMessage: 'Logout',
+    description: 'Logout action, button label',
+  },
+  getStarted: {
+    id: 'actions.getStarted',
+    defaultMessage: 'Get Started',
+    description: 'Get Started action, button label',
+  },
+  forgotPin: {
+    id: 'actions.forgotPin',
+    defaultMessage: 'I forgot my PIN',
+    description: 'Forgot PIN action, button label',
+  },
+  cancel: {
+    id: 'actions.cancel',
+    defaultMessage: 'Cancel',
+    description: 'Cancel action, button label',
+  },
+  copy: {
+    id: 'actions.copy',
+    defaultMessage: 'copy',
+    description: 'Copy action, button label',
+  },
+  copyPubkey: {
+    id: 'actions.copyPubkey',
+    defaultMessage: 'copy public key',
+    description: 'Copy pubkey action, button label',
+  },
+  copyPrivkey: {
+    id: 'actions.copyPrivkey',
+    defaultMessage: 'copy private key',
+    description: 'Copy private key action, button label',
+  },
+  addFeedToHome: {
+    id: 'actions.addFeedToHome',
+    defaultMessage: 'add this feed to my home page',
+    description: 'Add feed to home, button label',
+  },
+  addFeedToHomeNamed: {
+    id: 'actions.addFeedToHomeNamed',
+    defaultMessage: 'add {name} feed to home page',
+    description: 'Add named feed to home, button label',
+  },
+  disabledAddFeedToHome: {
+    id: 'actions.disabledHomeFeedAdd',
+    defaultMessage: 'Available on your home page',
+    description: 'Add feed to home label, when feed is already added',
+  },
+  removeFromHomeFeedNamed: {
+    id: 'actions.removeFromHomeFeedNamed',
+    defaultMessage: 'remove {name} feed from your home page',
+    description: 'Remove named feed from home, button label',
+  },
+  noteCopyNostrLink: {
+    id: 'actions.noteCopyNostrLink',
+    defaultMessage: 'Copy Nostr link',
+    description: 'Label for the copy Nostr note link context menu item',
+  },
+  noteCopyPrimalLink: {
+    id: 'actions.noteCopyPrimalLink',
+    defaultMessage: 'Copy Primal link',
+    description: 'Label for the copy Primal note link context menu item',
+  },
+  notePostNew: {
+    id: 'actions.notePostNew',
+    defaultMessage: 'Post',
+    description: 'Send new note, button label',
+  },
+  noteReply: {
+    id: 'actions.noteReply',
+    defaultMessage: 'reply to {name}',
+    description: 'Reply to button label',
+  },
+  sendDirectMessage: {
+    id: 'actions.sendDirectMessage',
+    defaultMessage: 'send',
+    description: 'Send direct message action, button label',
+  },
+  save: {
+    id: 'actions.save',
+    defaultMessage: 'save',
+    description: 'Save changes action label',
+  },
+  previous: {
+    id: 'actions.previous',
+    defaultMessage: 'Previous',
+    description: 'Go to previous step action label',
+  },
+  next: {
+    id: 'actions.next',
+    defaultMessage: 'Next',
+    description: 'Go to next step action label',
+  },
+  finish: {
+    id: 'actions.finish',
+    defaultMessage: 'Finish',
+    description: 'Finish the wizard action label',
+  },
+  editProfile: {
+    id: 'actions.editProfile',
+    defaultMessage: 'edit profile',
+    description: 'Edit profile action label',
+  },
+  goLive: {
+    id: 'actions.goLive',
+    defaultMessage: 'go live',
+    description: 'Opens the studio for hosting live streams',
+  },
+  reportContentConfirmTitle: {
+    id: 'actions.reportContentConfirmTitle',
+    defaultMessage: 'Report abuse?',
+    description: 'Title for report content confirmation',
+  },
+  reportContentConfirmDesc: {
+    id: 'actions.reportContentConfirmDesc',
+    defaultMessage: 'All reports will be publicly visible.',
+    description: 'Description for report content confirmation',
+  },
+  reportUserConfirm: {
+    id: 'actions.reportUserConfirm',
+    defaultMessage: 'Report user {name}?',
+    description: 'Label for report user confirmation',
+  },
+  requestNoteDelete: {
+    id: 'actions.requestNoteDelete',
+    defaultMessage: 'Send ?',
+    description: 'Label for report user confirmation',
+  },
+  muteUserConfirmTitle: {
+    id: 'actions.muteUserConfirmTitle',
+    defaultMessage: 'Mute {name}',
+    description: 'Title for mute user confirmation dialog',
+  },
+  muteUserConfirm: {
+    id: 'actions.muteUserConfirm',
+    defaultMessage: 'Add {name} to your mute list?',
+    description: 'Label for mute user confirmation',
+  },
+  muteThreadConfirm: {
+    id: 'actions.muteUserConfirm',
+    defaultMessage: 'Mute this thread?',
+    description: 'Label for mute thread confirmation',
+  },
+  unmute: {
+    id: 'actions.unmute',
+    defaultMessage: 'unmute',
+    description: 'Label un-mute button',
+  },
+  addToAllowlist: {
+    id: 'actions.addToAllowlist',
+    defaultMessage: 'Add to allowlist',
+    description: 'Label add-to-allowlist button',
+  },
+  addRelay: {
+    id: 'actions.addRelay',
+    defaultMessage: 'add',
+    description: 'Label for add relay action',
+  },
+  removeRelay: {
+    id: 'actions.removeRelay',
+    defaultMessage: 'remove',
+    description: 'Label for remove relay action',
+  },
+  confirmRemoveRelay: {
+    id: 'actions.confirmRemoveRelay',
+    defaultMessage: 'Remove <b>{url}</b> from your relay list? This will disconnect you from the relay.',
+    description: 'Label for remove relay confirmation',
+  },
+  restoreCachingService: {
+    id: 'actions.restoreCachingService',
+    defaultMessage: 'Restore default caching service',
+    description: 'Label for restore default caching service',
+  },
+  restoreBlossomServer: {
+    id: 'actions.restoreBlossomServer',
+    defaultMessage: 'restore default media server',
+    description: 'Label for restore default blossom server',
+  },
+  profileContext: {
+    copyPubkey: {
+      id: 'actions.profileContext.copyPubkey',
+      defaultMessage: 'Copy user public key',
+      description: 'Label for copy user\'s pubkey from profile context menu',
+    },
+    copyLink: {
+      id: 'actions.profileContext.copyLink',
+      defaultMessage: 'Copy user link',
+      description: 'Label for copy user\'s link from profile context menu',
+    },
+    addFeed: {
+      id: 'actions.profileContext.addFeed',
+      defaultMessage: 'Add user feed',
+      description: 'Label for adding user\'s feed to home, from profile context menu',
+    },
+    removeFeed: {
+      id: 'actions.profileContext.removeFeed',
+      defaultMessage: 'Remove user feed',
+      description: 'Label for removing user\'s feed from home, from profile context menu',
+    },
+    muteUser: {
+      id: 'actions.profileContext.muteUser',
+      defaultMessage: 'Mute user',
+      description: 'Label for muting user from profile context menu',
+    },
+    unmuteUser: {
+      id: 'actions.profileContext.unmuteUser',
+      defaultMessage: 'Unmute user',
+      description: 'Label for unmuting user from profile context menu',
+    },
+    followMute: {
+      id: 'actions.profileContext.followMute',
+      defaultMessage: 'Follow user\'s mute list',
+      description: 'Label for following user\'s mute list',
+    },
+    unfollowMute: {
+      id: 'actions.profileContext.unfollowMute',
+      defaultMessage: 'Unfollow user\'s mute list',
+      description: 'Label for unfollowing user\'s mute list',
+    },
+    reportUser: {
+      id: 'actions.profileContext.reportUser',
+      defaultMessage: 'Report user',
+      description: 'Label for reporting user from profile context menu',
+    },
+  },
+  noteVideoContext: {
+    downloadVideo: {
+      id: 'actions.noteVideoContext.downloadVideo',
+      defaultMessage: 'Download Video',
+      description: 'Label for downloading video from context menu',
+    }
+  },
+  streamContext: {
+    copyLink: {
+      id: 'actions.streamContext.copyLink',
+      defaultMessage: 'Copy Stream Link',
+      description: 'Label for copy stream link from context menu',
+    },
+    copyId: {
+      id: 'actions.streamContext.copyId',
+      defaultMessage: 'Copy Stream ID',
+      description: 'Label for copy stream ID from context menu',
+    },
+    copyRaw: {
+      id: 'actions.streamContext.copyRaw',
+      defaultMessage: 'Copy Raw Data',
+      description: 'Label for copy stream raw data from context menu',
+    },
+    muteAuthor: {
+      id: 'actions.streamContext.muteAuthor',
+      defaultMessage: 'Mute User',
+      description: 'Label for muting user from context menu',
+    },
+    unmuteAuthor: {
+      id: 'actions.streamContext.unmuteAuthor',
+      defaultMessage: 'Unmute User',
+      description: 'Label for unmuting user from context menu',
+    },
+    reportContent: {
+      id: 'actions.streamContext.reportContent',
+      defaultMessage: 'Report Content',
+      description: 'Label for reporting user from context menu',
+    },
+    requestDelete: {
+      id: 'actions.streamContext.requestDelete',
+      defaultMessage: 'Request Delete',
+      description: 'Label for edit article from context menu',
+    },
+    quoteStream: {
+      id: 'actions.streamContext.quoteStream',
+      defaultMessage: 'Quote Stream',
+      description: 'Label for quoting stream from context menu',
+    },
+  },
+  noteContext: {
+    reactions: {
+      id: 'actions.noteContext.reactions',
+      defaultMessage: 'Reactions',
+      description: 'Label for note reactions from context menu',
+    },
+    zap: {
+      id: 'actions.noteContext.zapNote',
+      defaultMessage: 'Custom Zap',
+      description: 'Label for note zap from context menu',
+    },
+    copyLink: {
+      id: 'actions.noteContext.copyLink',
+      defaultMessage: 'Copy Note Link',
+      description: 'Label for copy note link from context menu',
+    },
+    copyText: {
+      id: 'actions.noteContext.copytext',
+      defaultMessage: 'Copy Note Text',
+      description: 'Label for copy note text from context menu',
+    },
+    copyId: {
+      id: 'actions.noteContext.copyId',
+      defaultMessage: 'Copy Note ID',
+      description: 'Label for copy note ID from context menu',
+    },
+    copyRaw: {
+      id: 'actions.noteContext.copyRaw',
+      defaultMessage: 'Copy Raw Data',
+      description: 'Label for copy note raw data from context menu',
+    },
+    copyPubkey: {
+      id: 'actions.noteContext.copyPubkey',
+      defaultMessage: 'Copy User Public Key',
+      description: 'Label for copy note author\'s pubkey from context menu',
+    },
+    breadcast: {
+      id: 'actions.noteContext.breadcast',
+      defaultMessage: 'Broadcast Note',
+      description: 'Label for note broadcast from context menu',
+    },
+    muteAuthor: {
+      id: 'actions.noteContext.muteAuthor',
+      defaultMessage: 'Mute User',
+      description: 'Label for muting user from context menu',
+    },
+    unmuteAuthor: {
+      id: 'actions.noteContext.unmuteAuthor',
+      defaultMessage: 'Unmute User',
+      description: 'Label for unmuting user from context menu',
+    },
+    muteThread: {
+      id: 'actions.noteContext.muteThread',
+      defaultMessage: 'Mute Thread',
+      description: 'Label for muting thread from context menu',
+    },
+    unmuteThread: {
+      id: 'actions.noteContext.unmuteThread',
+      defaultMessage: 'Unmute Thread',
+      description: 'Label for unmuting thread from context menu',
+    },
+    editArticle: {
+      id: 'actions.noteContext.editArticle',
+      defaultMessage: 'Edit Article',
+      description: 'Label for edit article from context menu',
+    },
+    reportAuthor: {
+      id: 'actions.noteContext.reportAuthor',
+      defaultMessage: 'Report User',
+      description: 'Label for reporting user from context menu',
+    },
+    reportContent: {
+      id: 'actions.noteContext.reportContent',
+      defaultMessage: 'Report Content',
+      description: 'Label for reporting user from context menu',
+    },
+    repostNote: {
+      id: 'actions.noteContext.repostNote',
+      defaultMessage: 'Repost Note',
+      description: 'Label for reposting note from context menu',
+    },
+    requestDelete: {
+      id: 'actions.noteContext.requestDelete',
+      defaultMessage: 'Request Delete',
+      description: 'Label for edit article from context menu',
+    },
+    requestDeleteRepost: {
+      id: 'actions.noteContext.requestDeleteRepost',
+      defaultMessage: 'Request Delete Repost',
+      description: 'Label for edit article from context menu',
+    },
+    quoteNote: {
+      id: 'actions.noteContext.quoteNote',
+      defaultMessage: 'Quote Note',
+      description: 'Label for quoting note from context menu',
+    },
+  },
+  articleOverviewContext: {
+    edit: {
+      id: 'actions.articleOverviewContext.edit',
+      defaultMessage: 'Edit Article',
+      description: 'Label for editing an article',
+    },
+    editDraft: {
+      id: 'actions.articleOverviewContext.editDraft',
+      defaultMessage: 'Edit Draft',
+      description: 'Label for editing a draft',
+    },
+    quoteArticle: {
+      id: 'actions.articleOverviewContext.quoteArticle',
+      defaultMessage: 'Quote Article',
+      description: 'Label for quoting article from context menu',
+    },
+    shareArticle: {
+      id: 'actions.articleOverviewContext.shareArticle',
+      defaultMessage: 'Copy Article link',
+      description: 'Label for sharing article from context menu',
+    },
+    copyId: {
+      id: 'actions.articleOverviewContext.copyId',
+      defaultMessage: 'Copy Event ID',
+      description: 'Label for copying article from context menu',
+    },
+    copyRawEvent: {
+      id: 'actions.articleOverviewContext.copyRawEvent',
+      defaultMessage: 'Copy Raw Event',
+      description: 'Label for copying raw event from context menu',
+    },
+    unpublish: {
+      id: 'actions.articleOverviewContext.unpublish',
+      defaultMessage: 'Unpublish',
+      description: 'Label for copying raw event from context menu',
+    },
+    delete: {
+      id: 'actions.articleOverviewContext.delete',
+      defaultMessage: 'Request Delete',
+      description: 'Label for copying raw event from context menu',
+    },
+  },
+  zap: {
+    id: 'actions.zap',
+    defaultMessage: 'Zap',
+    description: 'Label for zap',
+  },
+  reactions: {
+    id: 'actions.reactions',
+    defaultMessage: 'Reactions ({count})',
+    description: 'Label for reactions',
+  },
+};
+
+export const branding = {
+  id: 'branding',
+  defaultMessage: 'Primal',
+  description: 'Brand name',
+};
+
+export const downloads = {
+  title: {
+    id: 'downloads.title',
+    defaultMessage: 'Downloads',
+    description: 'Title of the downloads page',
+  },
+  build: {
+    id: 'downloads.build',
+    defaultMessage: 'Build',
+    description: 'Build label',
+  },
+  released: {
+    id: 'downloads.released',
+    defaultMessage: 'released',
+    description: 'Released label',
+  },
+  getApk: {
+    id: 'downloads.getApk',
+    defaultMessage: 'Get APK instead',
+    description: 'APK download label',
+  },
+  callToActionIOSTitle: {
+    id: 'downloads.ctaIOSTitle',
+    defaultMessage: 'Primal iOS',
+    description: 'Title for the iOS downloads\' page call-to-action',
+  },
+  callToActionIOSDescription: {
+    id: 'downloads.ctaAndroidDescription',
+    defaultMessage: 'The app features easy onboarding, fast & snappy UI, ability to explore Nostr, and create & manage custom feeds',
+    description: 'Description for the iOS downloads\' page call-to-action',
+  },
+  callToActionAndroidTitle: {
+    id: 'downloads.ctaAndroidTitle',
+    defaultMessage: 'Primal Android',
+    description: 'Title for the Android downloads\' page call-to-action',
+  },
+  callToActionAndroidDescription: {
+    id: 'downloads.ctaAndroidDescription',
+    defaultMessage: 'The app features easy onboarding, fast & snappy UI, ability to explore Nostr, and create & manage custom feeds',
+    description: 'Description for the Android downloads\' page call-to-action',
+  },
+  callToActionQRTitle: {
+    id: 'downloads.ctaQRTitle',
+    defaultMessage: 'Scan to install app',
+    description: 'Title for the QR code downloads\' page call-to-action',
+  },
+  appStoreCaption: {
+    id: 'downloads.appStoreCaption',
+    defaultMessage: 'TestFlight Available Now',
+    description: 'AppStore promo caption',
+  },
+  playStoreCaption: {
+    id: 'downloads.playStoreCaption',
+    defaultMessage: 'Coming soon to Android',
+    description: 'PlayStore promo caption',
+  },
+  apkDownload: {
+    id: 'downloads.apkDownload',
+    defaultMessage: 'Alpha Build Available Now',
+    description: 'APK download caption',
+  },
+  links: {
+    title: {
+      id: 'downloads.sidebarTitle',
+      defaultMessage: 'Source code',
+      description: 'Daownload sidebar links title',
+    },
+    webApp: {
+      id: 'downloads.webAppLink',
+      defaultMessage: 'Primal Web App',
+      description: 'Label for the link to the web app',
+    },
+    iosApp: {
+      id: 'downloads.iosAppLink',
+      defaultMessage: 'Primal iOS App',
+      description: 'Label for the link to the iOS app',
+    },
+    andApp: {
+      id: 'downloads.andAppLink',
+      defaultMessage: 'Primal Android App',
+      description: 'Label for the link to the Android app',
+    },
+    cachingService: {
+      id: 'downloads.cachingService',
+      defaultMessage: 'Primal Caching Service',
+      description: 'Label for the link to the caching service',
+    },
+    primalServer: {
+      id: 'downloads.primalServer',
+      defaultMessage: 'Primal Server',
+      description: 'Label for the link to the primal server',
+    },
+  },
+};
+
+export const confirmDefaults = {
+  title: {
+    id: 'confirm.title',
+    defaultMessage: 'Are you sure?',
+    description: 'Default title of the confirmation dialog',
+  },
+  confirm: {
+    id: 'confirm.yes',
+    defaultMessage: 'Yes',
+    description: 'Default label for positive response to the confirmation dialog',
+  },
+  abort: {
+    id: 'confirm.no',
+    defaultMessage: 'No',
+    description: 'Default label for negative response to the confirmation dialog',
+  },
+  cancel: {
+    id: 'confirm.cancel',
+    defaultMessage: 'Cancel',
+    description: 'Default label for cancel response to the confirmation dialog',
+  },
+};
+
+export const exploreSidebarCaption = {
+  id: 'explore.sidebar.caption',
+  defaultMessage: 'trending users',
+  description: 'Caption for the explore page sidebar showing a list of trending users',
+};
+
+export const explore = {
+  genericCaption: {
+    id: 'explore.genericCaption',
+    defaultMessage: 'explore',
+    description: 'Generic caption for the explore page',
+  },
+  pageTitle: {
+    id: 'explore.pageTitle',
+    defaultMessage: 'Explore',
+    description: 'Title of the explore page',
+  },
+  title: {
+    id: 'explore.title',
+    defaultMessage: '{timeframe}: {scope}',
+    description: 'Title of the explore page',
+  },
+  statDisplay: {
+    users: {
+      id: 'explore.stats.users',
+      defaultMessage:'Users',
+      description: 'Label for number of users stats',
+    },
+    pubkeys: {
+      id: 'explore.stats.pubkeys',
+      defaultMessage: 'Public Keys',
+      description: 'Label for number of pubkeys stats',
+    },
+    zaps: {
+      id: 'explore.stats.zaps',
+      defaultMessage: 'Zaps',
+      description: 'Label for number of zaps stats',
+    },
+    btcZapped: {
+      id: 'explore.stats.btcZapped',
+      defaultMessage: 'BTC Zapped',
+      description: 'Label for number of zapped bitcoins stats',
+    },
+    pubnotes: {
+      id: 'explore.stats.pubnotes',
+      defaultMessage: 'Public Notes',
+      description: 'Label for number of public notes stats',
+    },
+    reposts: {
+      id: 'explore.stats.reposts',
+      defaultMessage: 'Reposts',
+      description: 'Label for number of repost stats',
+    },
+    reactions: {
+      id: 'explore.stats.reactions',
+      defaultMessage: 'Reactions',
+      description: 'Label for number of reactions stats',
+    },
+    any: {
+      id: 'explore.stats.any',
+      defaultMessage: 'All Events',
+      description: 'Label for number of all stats',
+    },
+  }
+};
+
+export const feedProfile = {
+  id: 'feedProfile',
+  defaultMessage: '{name}\'s feed',
+  description: 'Generic name for a feed created from a profile',
+};
+
+export const feedProfileDesription = {
+  id: 'feedProfileDesription',
+  defaultMessage: 'Notes feed of {name}',
+  description: 'Generic description for a feed created from a profile',
+};
+
+export const feedNewPosts = {
+  id: 'feed.newPosts',
+  defaultMessage: `{number, plural,
+    =0 {}
+    one {# New Note}
+    =99 {99+ New Notes}
+    other {# New Notes}}`,
+  description: 'Label for a button to load new notes',
+};
+
+export const feedback = {
+  dropzone: {
+    id: 'feedback.dropzone',
+    defaultMessage: 'drop file to upload',
+    description: 'Label accompanying the draging file'
+  },
+  uploading: {
+    id: 'feedback.uploading',
+    defaultMessage: 'uploading...',
+    description: 'Label accompanying the uploading spinner'
+  },
+};
+
+export const home = {
+  trending: {
+    id: 'home.sidebar.caption.trending',
+    defaultMessage: 'Trending',
+    description: 'Caption for the home page sidebar showing a list of trending notes',
+  },
+  mostZapped: {
+    id: 'home.sidebar.caption.mostzapped',
+    defaultMessage: 'Most Zapped',
+    description: 'Caption for the home page sidebar showing a list of most zapped notes',
+  },
+  zapPostfix: {
+    id: 'home.sidebar.note.zaps',
+    defaultMessage: '{zaps} zaps, {sats} sats',
+    description: 'Zaps data for a small note on home sidebar',
+  },
+};
+
+export const messages = {
+  title: {
+    id: 'messages.title',
+    defaultMessage: 'Messages',
+    description: 'Title of messages page',
+  },
+  follows: {
+    id: 'messages.follows',
+    defaultMessage: 'follows',
+    description: 'DM relation selection label for follows',
+  },
+  other: {
+    id: 'messages.other',
+    defaultMessage: 'other',
+    description: 'DM relation selection label for other',
+  },
+  markAsRead: {
+    id: 'messages.markAsRead',
+    defaultMessage: 'Mark All Read',
+    description: 'DM mark as read label',
+  },
+  sendComment: {
+    id: 'messages.sendComment',
+    defaultMessage: 'Send a comment...',
+    description: 'Placeholder for comment input',
+  },
+  protocolNip17: {
+    id: 'messages.protocolNip17',
+    defaultMessage: 'NIP-17',
+    description: 'Label for messages sent as NIP-17 gift wraps',
+  },
+  protocolNip04: {
+    id: 'messages.protocolNip04',
+    defaultMessage: 'NIP-04',
+    description: 'Label for messages sent as legacy kind 4 events',
+  },
+  protocolNip17Hint: {
+    id: 'messages.protocolNip17Hint',
+    defaultMessage: 'Private message (NIP-17): sender, receiver and time are hidden from relays',
+    description: 'Explanation of the NIP-17 direct message protocol',
+  },
+  protocolNip04Hint: {
+    id: 'messages.protocolNip04Hint',
+    defaultMessage: 'Legacy message (NIP-04): content is encrypted, but relays can see who is talking to whom',
+    description: 'Explanation of the legacy NIP-04 direct message protocol',
+  },
+  nip17Unavailable: {
+    id: 'messages.nip17Unavailable',
+    defaultMessage: 'This contact has no relays for private messages, so the message was not sent. Switched to legacy messages, send again to deliver it.',
+    description: 'Warning shown when a NIP-17 message cannot be sent because the receiver has no DM relay list',
+  },
+};
+
+export const navBar = {
+  home: {
+    id: 'navbar.home',
+    defaultMessage: 'Home',
+    description: 'Label for the nav bar item link to Home page',
+  },
+  reads: {
+    id: 'navbar.reads',
+    defaultMessage: 'Reads',
+    description: 'Label for the nav bar item link to Reads page',
+  },
+  explore: {
+    id: 'navbar.explore',
+    defaultMessage: 'Explore',
+    description: 'Label for the nav bar item link to Explore page',
+  },
+  messages: {
+    id: 'navbar.messages',
+    defaultMessage: 'Messages',
+    description: 'Label for the nav bar item link to Messages page',
+  },
+  bookmarks: {
+    id: 'navbar.bookmarks',
+    defaultMessage: 'Bookmarks',
+    description: 'Label for the nav bar item link to Bookmarks page',
+  },
+  notifications: {
+    id: 'navbar.notifications',
+    defaultMessage: 'Notifications',
+    description: 'Label for the nav bar item link to Notifications page',
+  },
+  downloads: {
+    id: 'navbar.downloads',
+    defaultMessage: 'Downloads',
+    description: 'Label for the nav bar item link to Downloads page',
+  },
+  premium: {
+    id: 'navbar.premium',
+    defaultMessage: 'Premium',
+    description: 'Label for the nav bar item link to Premium page',
+  },
+  settings: {
+    id: 'navbar.settings',
+    defaultMessage: 'Settings',
+    description: 'Label for the nav bar item link to Settings page',
+  },
+  help: {
+    id: 'navbar.help',
+    defaultMessage: 'Help',
+    description: 'Label for the nav bar item link to Help page',
+  },
+};
+
+export const note = {
+  newPreview: {
+    id: 'note.newPreview',
+    defaultMessage: 'Note preview',
+    description: 'Caption for preview when creating a new note'
+  },
+  mentionIndication: {
+    id: 'note.mentionIndication',
+    defaultMessage: '\[note by {name}\]',
+    description: 'Label indicating that a note has been metioned in the small note display'
+  },
+  reposted: {
+    id: 'note.reposted',
+    defaultMessage: 'Reposted',
+    description: 'Label indicating that the note is a repost',
+  },
+  repostedOthers: {
+    id: 'note.repostedOthers',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one { and # other}
+      other { and # others}}`,
+    description: 'Label indicating that the note is reposted more than once',
+  },
+  reply: {
+    id: 'note.reply',
+    defaultMessage: 'replying to',
+    description: 'Label indicating that the note is a reply',
+  },
+  saveNoteDraft: {
+    title: {
+      id: 'note.saveNoteDraft.title',
+      defaultMessage: 'Save Note Draft?',
+      description: 'Title of the confirmation when the note is canceled',
+    },
+    description: {
+      id: 'note.saveNoteDraft.description',
+      defaultMessage: 'Do you wish to save this note to continue editing it later?',
+      description: 'Description of the confirmation when the note is canceled',
+    },
+    optionYes: {
+      id: 'note.saveNoteDraft.yes',
+      defaultMessage: 'Save',
+      description: 'Confirm saving not as draft',
+    },
+    optionNo: {
+      id: 'note.saveNoteDraft.no',
+      defaultMessage: 'Discard',
+      description: 'Decline saving not as draft',
+    },
+    optionCancel: {
+      id: 'note.saveNoteDraft.cancel',
+      defaultMessage: 'Continue Editing',
+      description: 'Continue editing the note',
+    },
+  },
+};
+
+export const notificationTypeTranslations: Record<string, string> = {
+  [NotificationType.NEW_USER_FOLLOWED_YOU]: 'followed you',
+  [NotificationType.USER_UNFOLLOWED_YOU]: 'unfollowed you',
+
+  [NotificationType.YOUR_POST_WAS_ZAPPED]: 'zapped your',
+  [NotificationType.YOUR_POST_WAS_LIKED]: 'liked your',
+  [NotificationType.YOUR_POST_WAS_REPOSTED]: 'reposted your',
+  [NotificationType.YOUR_POST_WAS_REPLIED_TO]: 'replied to your',
+
+  [NotificationType.REPLY_TO_REPLY]: 'replied in your thread',
+
+  [NotificationType.YOU_WERE_MENTIONED_IN_POST]: 'mentioned you in a',
+  [NotificationType.YOUR_POST_WAS_MENTIONED_IN_POST]: 'mentioned your',
+
+  [NotificationType.POST_YOU_WERE_MENTIONED_IN_WAS_ZAPPED]: 'zapped a note you were mentioned in',
+  [NotificationType.POST_YOU_WERE_MENTIONED_IN_WAS_LIKED]: 'liked a note you were mentioned in',
+  [NotificationType.POST_YOU_WERE_MENTIONED_IN_WAS_REPOSTED]: 'reposted a note you were mentioned in',
+  [NotificationType.POST_YOU_WERE_MENTIONED_IN_WAS_REPLIED_TO]: 'replied to a note you were mentioned in',
+
+  [NotificationType.POST_YOUR_POST_WAS_MENTIONED_IN_WAS_ZAPPED]: 'zapped a note your note was mentioned in',
+  [NotificationType.POST_YOUR_POST_WAS_MENTIONED_IN_WAS_LIKED]: 'liked a note your note was mentioned in',
+  [NotificationType.POST_YOUR_POST_WAS_MENTIONED_IN_WAS_REPOSTED]: 'reposted a note your note was mentioned in',
+  [NotificationType.POST_YOUR_POST_WAS_MENTIONED_IN_WAS_REPLIED_TO]: 'replied to a note your note was mentioned in',
+
+  [NotificationType.YOUR_POST_WAS_HIGHLIGHTED]: 'highlighted your',
+  [NotificationType.YOUR_POST_WAS_BOOKMARKED]: 'bookmarked your',
+  [NotificationType.YOUR_POST_HAD_REACTION]: 'reacted to your',
+
+  [NotificationType.LIVE_EVENT_HAPPENING]: 'is live',
+}
+
+export const notificationsNew: Record<number, MessageDescriptor> = Object.values(NotificationType).reduce((acc, type) => ({
+  ...acc,
+  [type]: {
+    id: `notifications.new.${type}`,
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {and # other}
+      other {and # others}}
+      ${notificationTypeTranslations[type]}`,
+    description: `New Notifiaction label for notifications of type ${type}`,
+  },
+}), {});
+
+export const notificationsOld: Record<number, MessageDescriptor> = Object.values(NotificationType).reduce((acc, type) => ({
+  ...acc,
+  [type]: {
+    id: `notifications.old.${type}`,
+    defaultMessage: `${notificationTypeTranslations[type]}`,
+    description: `Old Notifiaction label for notifications of type ${type}`,
+  },
+}), {});
+
+export const notificationsSidebar = {
+  activities: {
+    id: 'notifications.sidebar.activities',
+    defaultMessage: 'Reactions',
+    description: 'Sidebar activities stats caption on the notification page',
+  },
+  heading: {
+    id: 'notificationsSidebar.heading',
+    defaultMessage: 'Summary',
+    description: 'Sidebar caption on the notification page',
+  },
+  empty: {
+    id: 'notificationsSidebar.empty',
+    defaultMessage: 'No new notifications',
+    description: 'Sidebar caption indicating no new notifications',
+  },
+  followers: {
+    id: 'notificationsSidebar.followers',
+    defaultMessage: 'Followers',
+    description: 'Sidebar follower stats caption on the notification page',
+  },
+  gainedFollowers: {
+    id: 'notificationsSidebar.gainedFollowers',
+    defaultMessage: `new {number, plural,
+      =0 {}
+      one {follower}
+      other {followers}}`,
+    description: 'Sidebar new follower stats description on the notification page',
+  },
+  lostFollowers: {
+    id: 'notificationsSidebar.lostFollowers',
+    defaultMessage: `lost {number, plural,
+      =0 {}
+      one {follower}
+      other {followers}}`,
+    description: 'Sidebar lost follwers stats description on the notification page',
+  },
+  likes: {
+    id: 'notifications.sidebar.likes',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {like}
+      other {likes}}`,
+    description: 'Sidebar likes stats caption on the notification page',
+  },
+  mentions: {
+    id: 'notifications.sidebar.mentions',
+    defaultMessage: 'Mentions',
+    description: 'Sidebar mentions stats caption on the notification page',
+  },
+  mentionsYou: {
+    id: 'notifications.sidebar.mentionsYou',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {mention}
+      other {mentions}} of you`,
+    description: 'Sidebar mentions you stats description on the notification page',
+  },
+  mentionsYourPost: {
+    id: 'notifications.sidebar.mentionsYourPost',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {mention of your note}
+      other {mentions of your notes}}`,
+    description: 'Sidebar mentions your note stats description on the notification page',
+  },
+  replies: {
+    id: 'notifications.sidebar.replies',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {reply}
+      other {replies}}`,
+    description: 'Sidebar replies stats caption on the notification page',
+  },
+  reposts: {
+    id: 'notifications.sidebar.reposts',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {repost}
+      other {reposts}}`,
+    description: 'Sidebar reposts stats caption on the notification page',
+  },
+  other: {
+    id: 'notifications.sidebar.other',
+    defaultMessage: 'Other',
+    description: 'Sidebar other stats caption on the notification page',
+  },
+  zaps: {
+    id: 'notificationsSidebar.zaps',
+    defaultMessage: 'Zaps',
+    description: 'Sidebar zaps stats caption on the notification page',
+  },
+  zapNumber: {
+    id: 'notificationsSidebar.zapNumber',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {zap}
+      other {zaps}}`,
+    description: 'Sidebar zaps stats description on the notification page',
+  },
+  statsNumber: {
+    id: 'notificationsSidebar.statsNumber',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {sat}
+      other {sats}}`,
+    description: 'Sidebar sats stats description on the notification page',
+  },
+};
+
+export const notifications = {
+  title: {
+    id: 'pages.notifications.title',
+    defaultMessage: 'Notifications',
+    description: 'Title of the notifications page',
+  },
+  newNotifs: {
+    id: 'notification.newNotifs',
+    defaultMessage: `{number, plural,
+      =0 {}
+      one {# new notification}
+      =100 {99+ new notifications}
+      other {# new notifications}}`,
+    description: 'Label for a button to load new notifications',
+  },
+  all: {
+    id: 'pages.notifications.all',
+    defaultMessage: 'All',
+    description: 'Title of the All notifications tab',
+  },
+  zaps: {
+    id: 'pages.notifications.zaps',
+    defaultMessage: 'Zaps',
+    description: 'Title of the Zaps notifications tab',
+  },
+  replies: {
+    id: 'pages.notifications.replies',
+    defaultMessage: 'Replies',
+    description: 'Title of the Replies notifications tab',
+  },
+  mentions: {
+    id: 'pages.notifications.mentions',
+    defaultMessage: 'Mentions',
+    description: 'Title of the Mentions notifications tab',
+  },
+  reposts: {
+    id: 'pages.notifications.reposts',
+    defaultMessage: 'Reposts',
+    description: 'Title of the Reposts notifications tab',
+  },
+  reactions: {
+    id: 'pages.notifications.reactions',
+    defaultMessage: 'Reactions',
+    description: 'Title of the Reactions notifications tab',
+  },
+};
+
+export const placeholders = {
+  missingNote: {
+    firstLine: {
+      id: 'placeholders.missingNote.firstLine',
+      defaultMessage: 'We can\'t seem to find this note.',
+      description: 'Placeholder when the note is missing',
+    },
+    secondLine: {
+      id: 'placeholders.missingNote.secondLine',
+      defaultMessage: 'It may have been deleted by the author.',
+      description: 'Placeholder when the note is missing',
+    },
+  },
+  noReactionDetails: {
+    id: 'placeholders.noReactionDetails',
+    defaultMessage: 'No details for rections found',
+    description: 'Placeholder when there are no reaction details in reactions modal',
+  },
+  noLikeDetails: {
+    id: 'placeholders.noLikeDetails',
+    defaultMessage: 'No details for likes found',
+    description: 'Placeholder when there are no like details in reactions modal',
+  },
+  noZapDetails: {
+    id: 'placeholders.noZapDetails',
+    defaultMessage: 'No details for zaps found',
+    description: 'Placeholder when there are no zap details in reactions modal',
+  },
+  noRepostDetails: {
+    id: 'placeholders.noRepostDetails',
+    defaultMessage: 'No details for reposts found',
+    description: 'Placeholder when there are no repost details in reactions modal',
+  },
+  noQuoteDetails: {
+    id: 'placeholders.noQuoteDetails',
+    defaultMessage: 'No details for quotes found',
+    description: 'Placeholder when there are no quote details in reactions modal',
+  },
+  addComment: {
+    id: 'placeholders.addComment',
+    defaultMessage: 'Add a comment...',
+    description: 'Placeholder for adding a comment',
+  },
+  searchByNpub: {
+    id: 'placeholders.searchByNpub',
+    defaultMessage: 'search by npub...',
+    description: 'Placeholder for searching by npub',
+  },
+  addNpub: {
+    id: 'placeholders.addNpub',
+    defaultMessage: 'add npub...',
+    description: 'Placeholder for adding npub',
+  },
+  mustHaveOneCachingService: {
+    id: 'placeholders.mustHaveOneCachingService',
+    defaultMessage: 'At this time, client needs to have at least one caching service to operate. In the future we will add the ability to use Primal without a caching service, but this is not yet supported.',
+    description: 'Description when trying to remove the last caching service from the pool',
+  },
+  cachingPoolHelp: {
+    id: 'placeholders.cachingPoolHelp',
+    defaultMessage: 'Client will randomly connect to one of the caching services in this pool. This helps with fail-over if some of the services are down. You can add or remove services. If you wish to always connect to exatly one caching service, you should leave only one entry in this pool.',
+    description: 'text for caching pool help bubble',
+  },
+  resetRelaysHelp: {
+    id: 'placeholders.resetRelaysHelp',
+    defaultMessage: 'This action will disconnect you from any relays you are currently connected to and connect you to a set of recomended relays.',
+    description: 'text for caching pool help bubble',
+  },
+  comingSoon: {
+    id: 'placeholders.comingSoon',
+    defaultMessage: 'Coming soon. Seriously. Help is on the way. ;)',
+    description: 'Placholder text for missing content',
+  },
+  endOfFeed: {
+    id: 'placeholders.endOfFeed',
+    defaultMessage: 'Your reached the end. You are a quick reader',
+    description: 'Message displayed when user reaches the end of the feed',
+  },
+  guestUserGreeting: {
+    id: 'placeholders.guestUserGreeting',
+    defaultMessage: 'Welcome to nostr!',
+    description: 'Header placeholder for guest user',
+  },
+  noteCallToAction: {
+    id: 'placeholders.callToAction.note',
+    defaultMessage: 'Say something on nostr...',
+    description: 'Placeholder for new note call-to-action',
+  },
+  pageWIPTitle: {
+    id: 'pages.wip.title',
+    defaultMessage: '{title}',
+    description: 'Title of page under construction',
+  },
+  welcomeMessage: {
+    id: 'placeholders.welcomeMessage',
+    defaultMessage: 'Welcome to nostr!',
+    description: 'Default welcome message',
+  },
+  findUser: {
+    id: 'placeholders.findUser',
+    defaultMessage: 'find user',
+    description: 'Find user input placeholder',
+  },
+  findUsers: {
+    id: 'placeholders.findUsers',
+    defaultMessage: 'find users',
+    description: 'Find users input placeholder',
+  },
+  search: {
+    id: 'placeholders.search',
+    defaultMessage: 'Search...',
+    description: 'Search input placeholder',
+  },
+  selectFeed: {
+    id: 'placeholders.selectFeed',
+    defaultMessage: 'Select feed',
+    description: 'Placeholder for feed selection',
+  },
+  pageNotFound: {
+    id: 'placeholders.pageNotFound',
+    defaultMessage: 'Page not found',
+    description: 'Placholder text for missing page',
+  },
+  relayUrl: {
+    id: 'placeholders.relayUrl',
+    defaultMessage: 'wss://relay.url',
+    description: 'Placholder relay url input',
+  },
+  cachingServiceUrl: {
+    id: 'placeholders.cachingServiceUrl',
+    defaultMessage: 'wss://cachingservice.url',
+    description: 'Placholder relay url input',
+  },
+  blossomServerUrl: {
+    id: 'placeholders.blossomServerUrl',
+    defaultMessage: 'enter blossom server url...',
+    description: 'Placholder server url input',
+  },
+};
+
+export const profile = {
+  sidebarCaptionReads: {
+    id: 'profile.sidebar.captionReads',
+    defaultMessage: 'Latest Reads',
+    description: 'Caption for the profile page sidebar showing a list of latest reads by the profile',
+  },
+  sidebarCaptionNotes: {
+    id: 'profile.sidebar.captionNotes',
+    defaultMessage: 'Popular Notes',
+    description: 'Caption for the profile page sidebar showing a list of trending notes by the profile',
+  },
+  sidebarNoNotes: {
+    id: 'profile.sidebar.noNotes',
+    defaultMessage: 'No trending notes',
+    description: 'Placeholde for profile sidebar when the profile is missing trending notes',
+  },
+  title: {
+    id: 'profile.title',
+    defaultMessage: '{name} - Nostr Profile',
+    description: 'Page title for Profile page'
+  },
+  followsYou: {
+    id: 'profile.followsYou',
+    defaultMessage: 'Follows you',
+    description: 'Label indicating that a profile is following your profile',
+  },
+  jointDate: {
+    id: 'profile.joinDate',
+    defaultMessage: 'Joined Nostr on {date}',
+    description: 'Label indicating when the profile joined Nostr (oldest event)',
+  },
+  stats: {
+    gallery: {
+      id: 'profile.gallery',
+      defaultMessage: 'Media',
+      description: 'Label for gallery profile stat',
+    },
+    follow: {
+      id: 'profile.followStats',
+      defaultMessage: 'Following',
+      description: 'Label for following profile stat',
+    },
+    followers: {
+      id: 'profile.stats.followers',
+      defaultMessage: 'Followers',
+      description: 'Label for followers profile stat',
+    },
+    zaps: {
+      id: 'profile.stats.zaps',
+      defaultMessage: 'Zaps',
+      description: 'Label for zaps profile stat',
+    },
+    sats: {
+      id: 'profile.stats.sats',
+      defaultMessage: 'Sats',
+      description: 'Label for sats profile stat',
+    },
+    totalSats: {
+      id: 'profile.stats.totalSats',
+      defaultMessage: 'Total',
+      description: 'Label for total sats profile stat',
+    },
+    articles: {
+      id: 'profile.stats.articles',
+      defaultMessage: 'Reads',
+      description: 'Label for reads profile stat',
+    },
+    notes: {
+      id: 'profile.stats.notes',
+      defaultMessage: 'Notes',
+      description: 'Label for notes profile stat',
+    },
+    replies: {
+      id: 'profile.stats.replies',
+      defaultMessage: 'Replies',
+      description: 'Label for replies profile stat',
+    },
+    relays: {
+      id: 'profile.stats.relays',
+      defaultMessage: 'Relays',
+      description: 'Label for sats profile relays',
+    },
+  },
+  isMuted: {
+    id: 'profile.isMuted',
+    defaultMessage: '{name} is muted',
+    description: 'Label indicating that the profile is muted',
+  },
+  isFiltered: {
+    id: 'profile.isFiltered',
+    defaultMessage: 'This account is hidden per your filter settings.',
+    description: 'Label indicating that the profile is filtered',
+  },
+  noNotes: {
+    id: 'profile.noNotes',
+    defaultMessage: '{name} hasn\'t posted any notes',
+    description: 'Label indicating that the profile has no notes',
+  },
+  noArticles: {
+    id: 'profile.noArticles',
+    defaultMessage: '{name} hasn\'t published any reads',
+    description: 'Label indicating that the profile has no reads',
+  },
+  noReplies: {
+    id: 'profile.noReplies',
+    defaultMessage: '{name} hasn\'t posted any replies',
+    description: 'Label indicating that the profile has no replies',
+  },
+  noFollowers: {
+    id: 'profile.noFollowers',
+    defaultMessage: '{name} has no followers',
+    description: 'Label indicating that the profile has no followers',
+  },
+  noFollows: {
+    id: 'profile.noFollows',
+    defaultMessage: '{name} isn\'t following anyone',
+    description: 'Label indicating that the profile has no followers',
+  },
+  noZaps: {
+    id: 'profile.noZaps',
+    defaultMessage: '{name} zapped no one',
+    description: 'Label indicating that the profile has no zaps',
+  },
+  noRelays: {
+    id: 'profile.noRelays',
+    defaultMessage: '{name} is on no relays',
+    description: 'Label indicating that the profile has no relays',
+  },
+  qrModal: {
+    pubkey: {
+      id: 'profile.qrModal.pubkey',
+      defaultMessage: 'Public key',
+      description: 'Public key tab title in profile qr code modal',
+    },
+    ln: {
+      id: 'profile.qrModal.ln',
+      defaultMessage: 'Lightning address',
+      description: 'Lightning address tab title in profile qr code modal',
+    },
+
+  }
+};
+
+export const search = {
+  followers: {
+    id: 'search.followers',
+    defaultMessage: 'followers',
+    description: 'Followers label for user search results',
+  },
+  invalid: {
+    id: 'search.invalid',
+    defaultMessage: 'Please enter search term.',
+    description: 'Alert letting the user know that the search term is empty',
+  },
+  emptyQueryResult: {
+    id: 'search.emptyQueryResult',
+    defaultMessage: 'type to',
+    description: 'Label shown is search resuls when no term is provided',
+  },
+  searchNostr: {
+    id: 'search.searchNostr',
+    defaultMessage: 'Search nostr',
+    description: 'Label explaining full search action',
+  },
+  sidebarCaption: {
+    id: 'search.sidebarCaption',
+    defaultMessage: 'Users found',
+    description: 'Caption for the search page sidebar showing a list of users',
+  },
+  feedLabel: {
+    id: 'search.feedLabel',
+    defaultMessage: 'Search: {query}',
+    description: 'Label for a search results feed',
+  },
+  title: {
+    id: 'search.title',
+    defaultMessage: 'search for "{query}"',
+    description: 'Title of the Search page',
+  },
+  noResults: {
+    id: 'search.noResults',
+    defaultMessage: 'No results found',
+    description: 'Message shown when no search results were found'
+  },
+};
+
+export const settings = {
+  index: {
+    title: {
+      id: 'settings.index.title',
+      defaultMessage: 'Settings',
+      description: 'Title of the settings page',
+    },
+  },
+  account: {
+    title: {
+      id: 'settings.account.title',
+      defaultMessage: 'Account',
+      description: 'Title of the account settings sub-page',
+    },
+    description: {
+      id: 'settings.account.description',
+      defaultMessage: "You can improve your account security by installing a Nostr browser extension, like {link}. By storing your Nostr private key within a browser extension, you will be able to securely sign into any Nostr web app, including Primal.",
+      description: 'Warning about account security',
+    },
+    pubkey: {
+      id: 'settings.account.pubkey',
+      defaultMessage: 'Your Public Key',
+      description: 'Your public key section caption',
+    },
+    pubkeyDesc: {
+      id: 'settings.account.pubkeyDesc',
+      defaultMessage: 'Anyone on Nostr can find you via your public key. Feel free to share anywhere.',
+      description: 'Label describing the public key',
+    },
+    privkey: {
+      id: 'settings.account.privkey',
+      defaultMessage: 'Your Private Key',
+      description: 'Your private key section caption',
+    },
+    privkeyDesc: {
+      id: 'settings.account.privkeyDesc',
+      defaultMessage: 'This key fully controls your Nostr account. Don’t share it with anyone. Only copy this key to store it securely or to login to another Nostr app.',
+      description: 'Label describing the private key',
+    },
+  },
+  appearance: {
+    title: {
+      id: 'settings.appearance.title',
+      defaultMessage: 'Appearance',
+      description: 'Title of the appearance settings sub-page',
+    },
+    caption: {
+      id: 'settings.appearance.caption',
+      defaultMessage: 'Select a theme',
+      description: 'Caption for theme selection',
+    },
+  },
+  homeFeeds: {
+    title: {
+      id: 'settings.homeFeeds.title',
+      defaultMessage: 'Home Feeds',
+      description: 'Title of the home feeds settings sub-page',
+    },
+    caption: {
+      id: 'settings.homeFeeds.caption',
+      defaultMessage: 'Edit and order your home page feeds',
+      description: 'Caption for home feed ordering',
+    },
+  },
+  readsFeeds: {
+    title: {
+      id: 'settings.readsFeeds.title',
+      defaultMessage: 'Reads Feeds',
+      description: 'Title of the reads feeds settings sub-page',
+    },
+    caption: {
+      id: 'settings.readsFeeds.caption',
+      defaultMessage: 'Edit and order your reads page feeds',
+      description: 'Caption for reads feed ordering',
+    },
+  },
+  moderation: {
+    title: {
+      id: 'settings.filters.title',
+      defaultMessage: 'Content Moderation',
+      description: 'Title of the content filtering settings sub-page',
+    },
+    description: {
+      id: 'settings.filters.description',
+      defaultMessage: 'Primal offers customizable content filtering services. In addition to your own mute list, you may subscribe to other users’ mute lists. Primal runs real time spam detection systems as well as Not-Safe-For-Work content, to which you may also subscribe.',
+      description: 'Description of the content filtering settings sub-page',
+    },
+    shortDescription: {
+      id: 'settings.filters.shortDescription',
+      defaultMessage: 'Subscribe to a user’s mute list by going to their profile page:',
+      description: 'Short Description of the content filtering settings sub-page',
+    },
+    applyFiltering: {
+      id: 'settings.filters.applyFiltering',
+      defaultMessage: 'Apply Content Filtering',
+      description: 'Caption for home feed ordering',
+    },
+    searchFilteredAccount: {
+      id: 'settings.filters.searchFilteredAccount',
+      defaultMessage: 'Search Filtered Accounts',
+      description: 'Caption for home feed ordering',
+    },
+    allowList: {
+      id: 'settings.filters.allowList',
+      defaultMessage: 'My Allowlist',
+      description: 'Caption for home feed ordering',
+    },
+    moderationItem: {
+      id: 'settings.contentModeration.item',
+      defaultMessage: '{name}\'s mute list',
+      description: 'Caption for my mute list algo',
+    },
+    searchForFiltered: {
+      id: 'settings.contentModeration.searchForFiltered',
+      defaultMessage: 'Search to find out if a user account is included in any of the filter lists:',
+      description: 'Description for search for filtered users',
+    },
+    allowListsDescription: {
+      id: 'settings.contentModeration.allowListsDescription',
+      defaultMessage: 'Add user accounts that should be excluded from filtering:',
+      description: 'Description for allow lists',
+    },
+    table: {
+      mutelists: {
+        id: 'settings.contentModeration.table.mutelists',
+        defaultMessage: 'Mute Lists',
+        description: 'Caption for mutelists column on moderation settings page',
+      },
+      algos: {
+        id: 'settings.contentModeration.table.algos',
+        defaultMessage: 'Algorithms',
+        description: 'Caption for algorithms column on moderation settings page',
+      },
+      content: {
+        id: 'settings.contentModeration.table.content',
+        defaultMessage: 'Hide Content',
+        description: 'Caption for content column on moderation settings page',
+      },
+      trending: {
+        id: 'settings.contentModeration.table.trending',
+        defaultMessage: 'Don\'t Recommend',
+        description: 'Caption for trending column on moderation settings page',
+      },
+      trendingHelp: {
+        id: 'settings.contentModeration.table.trendingHelp',
+        defaultMessage: 'Content won\'t be recommended in trending and most-zapped feeds',
+        description: 'Help description for trending filter',
+      },
+      contentHelp: {
+        id: 'settings.contentModeration.table.contentHelp',
+        defaultMessage: 'Content will be hidden from all feeds, threads, and search results',
+        description: 'Help description for content filter',
+      },
+    },
+    algos: {
+      my: {
+        id: 'settings.contentModeration.algos.my',
+        defaultMessage: 'My mute list',
+        description: 'Caption for my mute list algo',
+      },
+      primal_spam: {
+        id: 'settings.contentModeration.algos.spam',
+        defaultMessage: 'Primal spam filter',
+        description: 'Caption for spam algo',
+      },
+      primal_nsfw: {
+        id: 'settings.contentModeration.algos.nsfw',
+        defaultMessage: 'Primal NSFW filter',
+        description: 'Caption for NSFW algo',
+      },
+    },
+  },
+  muted: {
+    title: {
+      id: 'settings.muted.title',
+      defaultMessage: 'Muted Content',
+      description: 'Title of the muted accounts settings sub-page',
+    },
+    emptyUsers: {
+      id: 'settings.muted.emptyUsers',
+      defaultMessage: 'No muted users',
+      description: 'Caption indicating that there are no muted users',
+    },
+    emptyWords: {
+      id: 'settings.muted.emptyWords',
+      defaultMessage: 'No muted words',
+      description: 'Caption indicating that there are no muted users',
+    },
+    emptyHashtags: {
+      id: 'settings.muted.emptyHashtags',
+      defaultMessage: 'No muted hashtags',
+      description: 'Caption indicating that there are no muted users',
+    },
+    emptyThreads: {
+      id: 'settings.muted.emptyThreads',
+      defaultMessage: 'No muted threads',
+      description: 'Caption indicating that there are no muted users',
+    },
+    emptyOther: {
+      id: 'settings.muted.emptyOther',
+      defaultMessage: 'This user didn\'t mute anyone or they use a non-standard mute list',
+      description: 'Caption indicating that there are no muted users on someone else\'s list',
+    },
+  },
+  nwcSettings: {
+    title: {
+      id: 'settings.nwcSettings.title',
+      defaultMessage: 'Connected Wallets',
+      description: 'Title of the nwc settings sub-page',
+    },
+  },
+  cashuWallet: {
+    title: {
+      id: 'settings.cashuWallet.title',
+      defaultMessage: 'Ecash Wallet',
+      description: 'Title of the cashu wallet settings sub-page',
+    },
+  },
+  blossomPage: {
+    mediaServer: {
+      id: 'settings.blossom.mediaServer',
+      defaultMessage: 'Media Server',
+      description: 'Title of the media server',
+    },
+    mediaMirrors: {
+        id: 'settings.blossom.mediaMirrors',
+        defaultMessage: 'Media Mirrors',
+        description: 'Title of the media mirrors',
+      },
+    mediaMirrorsDescription: {
+      id: 'settings.blossom.mediaMirrorsDescription',
+      defaultMessage: 'You can enable one or more media mirror servers. When enabled, your uploads to the primary media server will be automatically copied to the mirror(s).',
+      description: 'Description for blossom media mirrors',
+    },
+    switchServer: {
+      id: 'settings.blossom.switchServer',
+      defaultMessage: 'Switch media server',
+      description: 'Title of the switching media server section of the Blossom settings sub-page',
+    },
+    addMirror: {
+      id: 'settings.blossom.addMirror',
+      defaultMessage: 'Add media mirror server',
+      description: 'Title of the adding media mirror server section of the Blossom settings sub-page',
+    },
+    suggestedMirrors: {
+      id: 'settings.blossom.suggestedMirrors',
+      defaultMessage: 'Suggested media mirror servers',
+      description: 'Title of the suggested media mirror server list section of the Blossom settings sub-page',
+    },
+    mediaProcessing: {
+      id: 'settings.blossom.mediaProcessing',
+      defaultMessage: 'Media Processing',
+      description: 'Title of the media processing section of the Blossom settings sub-page',
+    },
+    mediaProcessingDescription: {
+      id: 'settings.blossom.mediaProcessingDescription',
+      defaultMessage: 'Photos and videos are prepared on your device before they are uploaded.',
+      description: 'Description of the media processing section of the Blossom settings sub-page',
+    },
+    stripLocation: {
+      id: 'settings.blossom.stripLocation',
+      defaultMessage: 'Remove location data from photos and videos',
+      description: 'Label for the option to strip location metadata from uploads',
+    },
+    presets: {
+      original: {
+        id: 'settings.blossom.presets.original',
+        defaultMessage: 'Original',
+        description: 'Label for the upload preset that keeps images as they are',
+      },
+      originalDescription: {
+        id: 'settings.blossom.presets.originalDescription',
+        defaultMessage: 'Upload images at their full size and quality',
+        description: 'Description of the original upload preset',
+      },
+      high: {
+        id: 'settings.blossom.presets.high',
+        defaultMessage: 'High quality',
+        description: 'Label for the high quality upload preset',
+      },
+      highDescription: {
+        id: 'settings.blossom.presets.highDescription',
+        defaultMessage: 'Images up to 2560px, lightly compressed',
+        description: 'Description of the high quality upload preset',
+      },
+      balanced: {
+        id: 'settings.blossom.presets.balanced',
+        defaultMessage: 'Balanced',
+        description: 'Label for the balanced upload preset',
+      },
+      balancedDescription: {
+        id: 'settings.blossom.presets.balancedDescription',
+        defaultMessage: 'Images up to 1920px, good for most posts',
+        description: 'Description of the balanced upload preset',
+      },
+      small: {
+        id: 'settings.blossom.presets.small',
+        defaultMessage: 'Data saver',
+        description: 'Label for the data saver upload preset',
+      },
+      smallDescription: {
+        id: 'settings.blossom.presets.smallDescription',
+        defaultMessage: 'Images up to 1280px, smallest uploads',
+        description: 'Description of the data saver upload preset',
+      },
+    },
+  },
+  network: {
+    title: {
+      id: 'settings.network.title',
+      defaultMessage: 'Network',
+      description: 'Title of the network settings sub-page',
+    },
+    relays: {
+      id: 'settings.network.relays',
+      defaultMessage: 'Relays',
+      description: 'Title of the relays section of the network settings sub-page',
+    },
+    myRelays: {
+      id: 'settings.network.myRelays',
+      defaultMessage: 'My relays',
+      description: 'Title of the my relays section of the network settings sub-page',
+    },
+    noMyRelays: {
+      id: 'settings.networks.noMyRelays',
+      defaultMessage: 'Your Nostr account doesn\'t have any relays specified, so we connected you to a default set of relays. To configure your desired set of relays, please select them from the list below.',
+      description: 'Caption informing the user that he has no relays configured',
+    },
+    recomended: {
+      id: 'settings.network.recomended',
+      defaultMessage: 'Recomended Relays',
+      description: 'Title of the recomended relays section of the network settings sub-page',
+    },
+    customRelay: {
+      id: 'settings.network.customRelay',
+      defaultMessage: 'Connect to relay',
+      description: 'Title of the custom relays section of the network settings sub-page',
+    },
+    cachingService: {
+      id: 'settings.network.cachingService',
+      defaultMessage: 'Caching Service',
+      description: 'Title of the caching service section of the network settings sub-page',
+    },
+    connectedCachingService: {
+      id: 'settings.network.connectedCachingService',
+      defaultMessage: 'Connected caching service',
+      description: 'Title of the caching service section of the network settings sub-page',
+    },
+    alternativeCachingService: {
+      id: 'settings.network.alternativeCachingService',
+      defaultMessage: 'Connect to a different caching service',
+      description: 'Title of the alternative caching service section of the Network settings sub-page',
+    },
+    cacheFailover: {
+      id: 'settings.network.cacheFailover',
+      defaultMessage: 'Fallback caching services',
+      description: 'Title of the fallback caching services section of the Network settings sub-page',
+    },
+    cacheFailoverHelp: {
+      id: 'settings.network.cacheFailoverHelp',
+      defaultMessage: 'If the connected caching service stops responding, Primal switches to the next one on this list that is reachable.',
+      description: 'Help text for the fallback caching services section',
+    },
+    cacheLatency: {
+      id: 'settings.network.cacheLatency',
+      defaultMessage: '{latency}ms',
+      description: 'Connection latency of a caching service',
+    },
+    relayAuth: {
+      id: 'settings.network.relayAuth',
+      defaultMessage: 'Relay authentication',
+      description: 'Caption for the relay authentication section',
+    },
+    relayAuthHelp: {
+      id: 'settings.network.relayAuthHelp',
+      defaultMessage: 'Paid and private relays may ask you to prove who you are before they accept your notes. Choose whether Primal signs in to each relay on its own, asks you first, or never does.',
+      description: 'Help text for the relay authentication section',
+    },
+    relayAuthAlways: {
+      id: 'settings.network.relayAuthAlways',
+      defaultMessage: 'Always',
+      description: 'Relay authentication policy that always signs in',
+    },
+    relayAuthAsk: {
+      id: 'settings.network.relayAuthAsk',
+      defaultMessage: 'Ask',
+      description: 'Relay authentication policy that asks before signing in',
+    },
+    relayAuthNever: {
+      id: 'settings.network.relayAuthNever',
+      defaultMessage: 'Never',
+      description: 'Relay authentication policy that never signs in',
+    },
+    relayAuthenticated: {
+      id: 'settings.network.relayAuthenticated',
+      defaultMessage: 'Authenticated',
+      description: 'Tooltip of the lock badge on relays we are authenticated to',
+    },
+    proxyEvents: {
+      id: 'settings.filters.proxyEvents',
+      defaultMessage: 'Use Enhanced Privacy',
+      description: 'Caption for option to proy event publishing through Primal',
+    },
+    proxyDescription: {
+      id: 'settings.filters.proxyDescription',
+      defaultMessage: 'When enabled, your IP address will be visible to the caching service, but not to relays. Your content will be published to your specified relays using the caching service as a proxy. ',
+      description: 'Description of the proxy events settings sub-page',
+    },
+  },
+  relays: {
+    id: 'settings.relays',
+    defaultMessage: 'Relays',
+    description: 'Title of the relays sections of the settings sidebar',
+  },
+  cashingService: {
+    id: 'settings.cashingService',
+    defaultMessage: 'Caching services',
+    description: 'Title of the caching service sections of the settings sidebar',
+  },
+  title: {
+    id: 'settings.title',
+    defaultMessage: 'Settings',
+    description: 'Title of the settings page',
+  },
+  theme: {
+    id: 'settings.sections.theme',
+    defaultMessage: 'Theme',
+    description: 'Title of the theme section on the settings page',
+  },
+  feeds: {
+    id: 'settings.sections.feeds',
+    defaultMessage: 'Home page feeds',
+    description: 'Title of the feeds section on the settings page',
+  },
+  feedsAddNew: {
+    id: 'settings.feedsAddNew',
+    defaultMessage: 'Add New Feed',
+    description: 'Label for the button for adding new feed to the feeds list',
+  },
+  feedsRestore: {
+    id: 'settings.feedsRestore',
+    defaultMessage: 'Restore Default Feeds',
+    description: 'Label for the button for restoring default feeds to the feeds list',
+  },
+  feedsRestoreConfirm: {
+    id: 'settings.feedsRestoreConfirm',
+    defaultMessage: 'Restoring default feeds will erase all your custom feed settings',
+    description: 'Label explaining the impact of restoring default feeds',
+  },
+  zapRouting: {
+    id: 'settings.zapRouting',
+    defaultMessage: 'Zap Routing',
+    description: 'Caption of the zap routing settings',
+  },
+  recurringZaps: {
+    id: 'settings.recurringZaps',
+    defaultMessage: 'Subscriptions',
+    description: 'Caption of the recurring subscription payments settings',
+  },
+  zapsRestoreConfirm: {
+    id: 'settings.zapsRestoreConfirm',
+    defaultMessage: 'This action will restore all your zap settings to their default values',
+    description: 'Label explaining the impact of restoring default zaps',
+  },
+  zapEmojiFilterTitle: {
+    id: 'settings.zapEmojiFilterTitle',
+    defaultMessage: 'Select an emoji',
+    description: 'Title for the select emoji modal',
+  },
+  zapEmojiFilterPlaceholder: {
+    id: 'settings.zapEmojiFilterPlaceholder',
+    defaultMessage: 'Search...',
+    description: 'Placeholder for the emoji modal filter',
+  },
+  feedLatest: {
+    id: 'feeds.feedLatest',
+    defaultMessage: 'Latest',
+    description: 'Label for the `latest;following` (active user\'s) feed',
+  },
+  feedLatestWithReplies: {
+    id: 'feeds.feedLatestWithReplies',
+    defaultMessage: 'Latest with Replies',
+    description: 'Label for the `latest;following` with `include_replies` flag (active user\'s) feed',
+  },
+  zaps: {
+    id: 'settings.sections.zaps',
+    defaultMessage: 'Zaps',
+    description: 'Title of the zaps section on the settings page',
+  },
+  blossom: {
+    id: 'settings.sections.blossom',
+    defaultMessage: 'Media Uploads',
+    description: 'Title of the blossom section on the settings page',
+  },
+  devTools: {
+    id: 'settings.sections.devTools',
+    defaultMessage: 'Dev Tools',
+    description: 'Title of the dev tools section on the settings page',
+  },
+  notifications: {
+    title: {
+      id: 'pages.settings.sections.notifications',
+      defaultMessage: 'Notifications',
+      description: 'Title of the notifications section on the settings page',
+    },
+    core: {
+      id: 'settings.sections.notifications.core',
+      defaultMessage: 'Show notifications for:',
+      description: 'Title of the notification settings sub-section for core notifications',
+    },
+    yourMentions: {
+      id: 'settings.sections.notifications.yourMentions',
+      defaultMessage: 'A note you were mentioned in was:',
+      description: 'Title of the notification settings sub-section for notes you were mentioned in',
+    },
+    yourPostMentions: {
+      id: 'settings.sections.notifications.yourPostMentions',
+      defaultMessage: 'A note your note was mentioned in was:',
+      description: 'Title of the notification settings sub-section for notes your note was mentioned in',
+    },
+    additionalNotifs: {
+      id: 'settings.sections.notifications.additionalNotifs',
+      defaultMessage: 'Notification preferences:',
+      description: 'Title of the notification settings sub-section for additional settings',
+    },
+  },
+  profile: {
+    title: {
+      id: 'pages.settings.profile.title',
+      defaultMessage: 'Edit Profile',
+      description: 'Title of the edit profile page',
+    },
+    uploadAvatar: {
+      id: 'pages.settings.profile.uploadAvatar',
+      defaultMessage: 'Upload Avatar',
+      description: 'Label for avatar upload on edit profile page',
+    },
+    uploadBanner: {
+      id: 'pages.settings.profile.uploadBanner',
+      defaultMessage: 'Upload Banner',
+      description: 'Label for banner upload on edit profile page',
+    },
+    displayName: {
+      label: {
+        id: 'pages.settings.profile.displayName.label',
+        defaultMessage: 'Display Name',
+        description: 'Label for display name input on edit profile page',
+      },
+      help: {
+        id: 'pages.settings.profile.displayName.help',
+        defaultMessage: 'Pick a longer display name (e. g. “Satoshi Nakamoto”)',
+        description: 'Help for displayName input on edit profile page',
+      },
+      placeholder : {
+        id: 'pages.settings.profile.displayName.placeholder',
+        defaultMessage: 'Enter display name',
+        description: 'Placeholder for display name input on edit profile page',
+      },
+    },
+    required: {
+      id: 'pages.settings.profile.reqired',
+      defaultMessage: 'required',
+      description: 'Label indicating an input is required',
+    },
+    name: {
+      label: {
+        id: 'pages.settings.profile.name.label',
+        defaultMessage: 'Username',
+        description: 'Label for name input on edit profile page',
+      },
+      help: {
+        id: 'pages.settings.profile.name.help',
+        defaultMessage: 'Pick a short user handle (e. g. “satoshi”)',
+        description: 'Help for name input on edit profile page',
+      },
+      placeholder : {
+        id: 'pages.settings.profile.name.placeholder',
+        defaultMessage: 'Enter username',
+        description: 'Placeholder for name input on edit profile page',
+      },
+      error: {
+        id: 'pages.settings.profile.name.error',
+        defaultMessage: 'Spaces and special characters are not allowed in the username',
+        description: 'Error label for name input on edit profile page',
+      },
+      formError: {
+        id: 'pages.settings.profile.name.formError',
+        defaultMessage: 'Username is not valid',
+        description: 'Error label for invalid form on edit profile page',
+      },
+    },
+    website: {
+      label: {
+        id: 'pages.settings.profile.website.label',
+        defaultMessage: 'Website',
+        description: 'Label for website input on edit profile page',
+      },
+      placeholder : {
+        id: 'pages.settings.profile.website.placeholder',
+        defaultMessage: 'https://www.mysite.com',
+        description: 'Placeholder for website input on edit profile page',
+      },
+    },
+    about: {
+      label: {
+        id: 'pages.settings.profile.about.label',
+        defaultMessage: 'About Me',
+        description: 'Label for about input on edit profile page',
+      },
+      placeholder : {
+        id: 'pages.settings.profile.about.placeholder',
+        defaultMessage: 'Say something about yourself',
+        description: 'Placeholder for about input on edit profile page',
+      },
+    },
+    lud16: {
+      label: {
+        id: 'pages.settings.profile.lud16.label',
+        defaultMessage: 'Bitcoin Lightning Address',
+        description: 'Label for lud16 input on edit profile page',
+      },
+      placeholder : {
+        id: 'pages.settings.profile.lud16.placeholder',
+        defaultMessage: 'Enter your LN address',
+        description: 'Placeholder for lud16 input on edit profile page',
+      },
+    },
+    nip05: {
+      label: {
+        id: 'pages.settings.profile.nip05.label',
+        defaultMessage: 'Verified Nostr Address (NIP-05)',
+        description: 'Label for nip-05 input on edit profile page',
+      },
+      placeholder : {
+        id: 'pages.settings.profile.nip05.placeholder',
+        defaultMessage: 'Enter your NIP-05 Verified Nostr ID',
+        description: 'Placeholder for nip-05 input on edit profile page',
+      },
+    },
+    picture: {
+      label: {
+        id: 'pages.settings.profile.picture.label',
+        defaultMessage: 'Avatar Image Url',
+        description: 'Label for avatar input on edit profile page',
+      },
+      placeholder : {
+        id: 'pages.settings.profile.picture.placeholder',
+        defaultMessage: 'Enter your avatar url',
+        description: 'Placeholder for avatar input on edit profile page',
+      },
+    },
+    banner: {
+      label: {
+        id: 'pages.settings.profile.banner.label',
+        defaultMessage: 'Banner Image Url',
+        description: 'Label for banner input on edit profile page',
+      },
+      placeholder : {
+        id: 'pages.settings.profile.banner.placeholder',
+        defaultMessage: 'Enter your banner url',
+        description: 'Placeholder for banner input on edit profile page',
+      },
+    },
+  },
+};
+
+export const scopeDescriptors: Record<string, ScopeDescriptor> = {
+  follows: {
+    caption: {
+      id: 'explore.scopes.follows.caption',
+      defaultMessage: 'Follows',
+      description: 'Caption for the follows scope',
+    },
+    label: {
+      id: 'explore.scopes.follows.label',
+      defaultMessage: 'my follows',
+      description: 'Label for the follows scope',
+    },
+    description: {
+      id: 'explore.scopes.follows.description',
+      defaultMessage: 'accounts you follow',
+      description: 'Description of the follows scope description',
+    },
+  },
+  tribe: {
+    caption: {
+      id: 'explore.scopes.tribe.caption',
+      defaultMessage: 'Tribe',
+      description: 'Caption for the tribe scope',
+    },
+    label: {
+      id: 'explore.scopes.tribe.label',
+      defaultMessage: 'my tribe',
+      description: 'Label for the tribe scope',
+    },
+    description: {
+      id: 'explore.scopes.tribe.description',
+      defaultMessage: 'accounts you follow <div>+ your followers</div>',
+      description: 'Description of the tribe scope description',
+    },
+  },
+  network: {
+    caption: {
+      id: 'explore.scopes.network.caption',
+      defaultMessage: 'Network',
+      description: 'Caption for the network scope',
+    },
+    label: {
+      id: 'explore.scopes.network.label',
+      defaultMessage: 'my network',
+      description: 'Label for the network scope',
+    },
+    description: {
+      id: 'explore.scopes.network.description',
+      defaultMessage: 'accounts you follow <div>+ everyone they follow</div>',
+      description: 'Description of the network scope description',
+    },
+  },
+  global: {
+    caption: {
+      id: 'explore.scopes.global.caption',
+      defaultMessage: 'Global',
+      description: 'Caption for the global scope',
+    },
+    label: {
+      id: 'explore.scopes.global.label',
+      defaultMessage: 'global',
+      description: 'Label for the global scope',
+    },
+    description: {
+      id: 'explore.scopes.global.description',
+      defaultMessage: 'all accounts on nostr',
+      description: 'Description of the global scope description',
+    },
+  },
+};
+
+export const timeframeDescriptors: Record<string, MessageDescriptor> = {
+  latest: {
+    id: 'explore.timeframes.latest.caption',
+    defaultMessage: 'latest',
+    description: 'Caption for the latest timeframe',
+  },
+  trending: {
+    id: 'explore.timeframes.trending.caption',
+    defaultMessage: 'trending',
+    description: 'Caption for the trending timeframe',
+  },
+  popular: {
+    id: 'explore.timeframes.popular.caption',
+    defaultMessage: 'popular',
+    description: 'Caption for the popular timeframe',
+  },
+  mostzapped: {
+    id: 'explore.timeframes.mostzapped.caption',
+    defaultMessage: 'zapped',
+    description: 'Caption for the mostzapped timeframe',
+  },
+};
+
+export const toastZapFail = {
+  id: 'toast.zapFail',
+  defaultMessage: 'We were unable to send this Zap',
+  description: 'Toast message indicating failed zap',
+};
+
+
+export const toastZapProfile = {
+  id: 'toast.zapProfile',
+  defaultMessage: '{name} zapped successfully',
+  description: 'Toast message indicating successful zap',
+};
+
+export const thread = {
+  sidebar: {
+    id: 'thread.sidebar',
+    defaultMessage: 'Replying to this Note',
+    description: 'Title of the Thread page sidebar',
+  },
+  sidebarMentions: {
+    id: 'thread.sidebarMentions',
+    defaultMessage: 'People in this Note',
+    description: 'Title of the Thread page sidebar',
+  },
+  pageTitle: {
+    id: 'thread.page.title',
+    defaultMessage: 'Note by {name}',
+    description: 'Title of the Thread page sidebar',
+  },
+};
+
+export const toast = {
+  addFeedToHomeSuccess: {
+    id: 'toasts.addFeedToHome.success',
+    defaultMessage: '"{name}" has been added to your home page',
+    description: 'Toast message confirming successfull adding of the feed to home to the list of available feeds',
+  },
+  removeFeedFromHomeSuccess: {
+    id: 'toasts.removeFeedToHome.success',
+    defaultMessage: '"{name}" has been removed from your home page',
+    description: 'Toast message confirming successfull removal of the feed from home\'s list of available feeds',
+  },
+  fileTypeUpsupported: {
+    id: 'toast.unsupportedFileType',
+    defaultMessage: 'You can only upload images and videos. This file type is not supported.',
+    description: 'Feedback when user tries to upload an unsupported file type',
+  },
+  publishNoteSuccess: {
+    id: 'toast.publishNoteSuccess',
+    defaultMessage: 'Note posted successfully',
+    description: 'Toast message confirming successfull publication of the note',
+  },
+  publishNoteTimeout: {
+    id: 'toast.publishNoteTimeout',
+    defaultMessage: 'No relay confirmed reception of your note after 8 seconds',
+    description: 'Toast message indicating that no relay confirmed note reception',
+  },
+  publishNoteFail: {
+    id: 'toast.publishNoteFail',
+    defaultMessage: 'Failed to publish note',
+    description: 'Toast message indicating that note publishing has failed',
+  },
+  noRelays: {
+    id: 'toast.noRelays',
+    defaultMessage: 'You need to declare at least one relay to perform this action',
+    description: 'Toast message indicating user has no relays configured',
+  },
+  noRelaysConnected: {
+    id: 'toast.noRelaysConnected',
+    defaultMessage: '"We are trying to connect to your relays. Please try again in a few moments.',
+    description: 'Toast message indicating user is not connected to aany relay',
+  },
+  noExtension: {
+    id: 'toast.noExtension',
+    defaultMessage: 'Nostr extension is required to send events',
+    description: 'Toast message indicating no extension was found',
+  },
+  streamPrimalLinkCoppied: {
+    id: 'toast.streamPrimalLinkCoppied',
+    defaultMessage: 'Stream link copied',
+    description: 'Confirmation message that the stream\'s link has been copied',
+  },
+  streamIdCoppied: {
+    id: 'toast.streamIdCoppied',
+    defaultMessage: 'Stream id copied',
+    description: 'Confirmation message that the stream\'s id has been copied',
+  },
+  streamRawDataCoppied: {
+    id: 'toast.streamRawDataCoppied',
+    defaultMessage: 'Stream raw data copied',
+    description: 'Confirmation message that the stream\'s raw data has been copied',
+  },
+  streamAuthorNpubCoppied: {
+    id: 'toast.streamAuthorNpubCoppied',
+    defaultMessage: 'Stream author npub copied',
+    description: 'Confirmation message that the stream\'s author npub has been copied',
+  },
+  noteNostrLinkCoppied: {
+    id: 'toast.noteNostrLinkCoppied',
+    defaultMessage: 'Note nostr link copied',
+    description: 'Confirmation message that the note\'s link has been copied',
+  },
+  notePrimalLinkCoppied: {
+    id: 'toast.notePrimalLinkCoppied',
+    defaultMessage: 'Note link copied',
+    description: 'Confirmation message that the note\'s link has been copied',
+  },
+  notePrimalTextCoppied: {
+    id: 'toast.notePrimalTextCoppied',
+    defaultMessage: 'Note text copied',
+    description: 'Confirmation message that the note\'s text has been copied',
+  },
+  noteIdCoppied: {
+    id: 'toast.noteIdCoppied',
+    defaultMessage: 'Note id copied',
+    description: 'Confirmation message that the note\'s id has been copied',
+  },
+  noteRawDataCoppied: {
+    id: 'toast.noteRawDataCoppied',
+    defaultMessage: 'Note raw data copied',
+    description: 'Confirmation message that the note\'s raw data has been copied',
+  },
+  noteAuthorNpubCoppied: {
+    id: 'toast.noteAuthorNpubCoppied',
+    defaultMessage: 'Note author npub copied',
+    description: 'Confirmation message that the note\'s author npub has been copied',
+  },
+  profileNpubCoppied: {
+    id: 'toast.noteAuthorNpubCoppied',
+    defaultMessage: 'User npub copied',
+    description: 'Confirmation message that the user\'s npub has been copied',
+  },
+  noteBroadcastSuccess: {
+    id: 'toast.noteBroadcastSuccess',
+    defaultMessage: 'Note has been broadcasted to your relays',
+    description: 'Confirmation message that the note has been broadcasted',
+  },
+  noteBroadcastFail: {
+    id: 'toast.noteBroadcastFail',
+    defaultMessage: 'We were unable to broadcast this note',
+    description: 'Failure message that the note has not been broadcasted',
+  },
+  repostSuccess: {
+    id: 'toast.repostSuccess',
+    defaultMessage: 'Reposted successfully',
+    description: 'Toast message indicating successfull repost',
+  },
+  repostFailed: {
+    id: 'toast.repostFailed',
+    defaultMessage: 'Failed to repost',
+    description: 'Toast message indicating failed repost',
+  },
+  noteAuthorReported: {
+    id: 'toast.noteAuthorReported',
+    defaultMessage: 'User {name} reported',
+    description: 'Toast message indicating successfull user report',
+  },
+  zapAsGuest: {
+    id: 'toast.zapAsGuest',
+    defaultMessage: 'You must be logged-in to perform a zap',
+    description: 'Toast message indicating user must be logged-in to perform a zap',
+  },
+  zapUnavailable: {
+    id: 'toast.zapUnavailable',
+    defaultMessage: 'Author of this note cannot be zapped because they didn\'t setup their lightning address',
+    description: 'Toast message indicating user cannot receieve a zap',
+  },
+  zapDVMUnavailable: {
+    id: 'toast.zapDVMUnavailable',
+    defaultMessage: 'Author of this note cannot be zapped because they didn\'t setup their lightning address',
+    description: 'Toast message indicating user cannot receieve a zap',
+  },
+  updateProfileSuccess: {
+    id: 'toast.updateProfileSuccess',
+    defaultMessage: 'Profile updated successfully',
+    description: 'Toast message indicating that profile was successfully updated',
+  },
+  updateProfileFail: {
+    id: 'toast.updateProfileFail',
+    defaultMessage: 'Failed to update profile, please try again',
+    description: 'Toast message indicating that profile has failed to updated',
+  },
+};
+
+export const zapCustomOption = {
+  id: 'zap.custom.option',
+  defaultMessage: 'Zap {user} ',
+  description: 'Caption for custom zap amount modal',
+};
+
+export const zapCustomAmount = {
+  id: 'zap.custom.amount',
+  defaultMessage: `Custom amount:`,
+  description: 'Caption for custom zap amount input',
+};
+
+export const errors = {
+  invalidRelayUrl: {
+    id: 'placeholders.invalidRelayUrl',
+    defaultMessage: 'Invalid url',
+    description: 'Error text for invalid url',
+  },
+  invalidServerUrl: {
+      id: 'placeholders.invalidServerUrl',
+      defaultMessage: 'Invalid url',
+      description: 'Error text for invalid url',
+    },
+};
+
+export const unknown = {
+  id: 'unknown',
+  defaultMessage: 'UNKNOWN',
+  description: 'Error text for Unknown',
+};
+
+export const emojiGroups = {
+  preset: {
+    id: 'emoji.recent',
+    defaultMessage: 'Recently Used',
+    description: 'Recently used emoji group title',
+  },
+  face: {
+    id: 'emoji.face',
+    defaultMessage: 'Faces',
+    description: 'Faces emoji group title',
+  },
+};
+
+export const upload = {
+  fail: {
+    id: 'upload.fail',
+    defaultMessage: 'Failed to upload file {file}',
+    description: 'Error feedback when upload fails',
+  },
+  fileTooBigRegular: {
+    id: 'upload.fileTooBigRegular',
+    defaultMessage: 'File too big. Upload limit is 100MB.',
+    description: 'Error feedback when file is too big for regular users',
+  },
+  fileTooBigPremium: {
+    id: 'upload.fileTooBigPremium',
+    defaultMessage: 'File too big. Upload limit is 1GB.',
+    description: 'Error feedback when file is too big for premiumUsers',
+  },
+  queued: {
+    id: 'upload.queued',
+    defaultMessage: 'Waiting to upload',
+    description: 'Status of a file waiting in the upload queue',
+  },
+  paused: {
+    id: 'upload.paused',
+    defaultMessage: 'Paused, will resume when back online',
+    description: 'Status of an upload interrupted by a lost connection',
+  },
+  failed: {
+    id: 'upload.failed',
+    defaultMessage: 'Upload failed',
+    description: 'Status of an upload that failed',
+  },
+  retry: {
+    id: 'upload.retry',
+    defaultMessage: 'Retry',
+    description: 'Label for the button that restarts a failed upload',
+  },
+  locationNotRemoved: {
+    id: 'upload.locationNotRemoved',
+    defaultMessage: 'Location data could not be removed from {file}',
+    description: 'Warning shown when location metadata could not be removed from a file before upload',
+  },
+  locationNotRemovedPrompt: {
+    id: 'upload.locationNotRemovedPrompt',
+    defaultMessage: 'It may still show where it was taken. Upload it anyway?',
+    description: 'Question asked when location metadata could not be removed from a file',
+  },
+  uploadAnyway: {
+    id: 'upload.uploadAnyway',
+    defaultMessage: 'Upload anyway',
+    description: 'Label for the button that uploads a file that still has its location data',
+  },
+  skipFile: {
+    id: 'upload.skipFile',
+    defaultMessage: 'Skip file',
+    description: 'Label for the button that leaves a file out of the upload',
+  },
+};
+
+export const landing = {
+  tagline: {
+    id: 'landing.tagline',
+    defaultMessage: 'The Social Bitcoin Wallet',
+    description: 'Landing page tagline',
+  },
+  description: {
+    id: 'landing.description',
+    defaultMessage: 'Open protocols for money and speech are going to change everything. Join the revolution.',
+    description: 'Landing page description',
+  },
+  browserOption: {
+    id: 'landing.browserOption',
+    defaultMessage: 'Continue in browser',
+    description: 'Landing page browser option',
+  },
+};
+
+export const forgotPin = {
+  title: {
+    id: 'forgotPin.title',
+    defaultMessage: 'This action will erase you key',
+    description: 'Forgot pin modal title',
+  },
+  description: {
+    id: 'forgotPin.description',
+    defaultMessage: 'You will still be able to browse Nostr through Primal but you will not be able to take any actions (post notes, likes,...) until you re-login with your private key. Are you sure you wish to continue?',
+    description: 'Explanation of what happens when pin is erased',
+  },
+  confirm: {
+    id: 'forgotPin.confirm',
+    defaultMessage: 'Yes, continue',
+    description: 'Confirm forgot pin action',
+  },
+  abort: {
+    id: 'forgotPin.abort',
+    defaultMessage: 'Cancel',
+    description: 'Abort forgot pin action',
+  },
+};
+
+export const followWarning = {
+  title: {
+    id: 'followWarning.title',
+    defaultMessage: 'This action may result in an error',
+    description: 'Follow error modal title',
+  },
+  description: {
+    id: 'followWarning.description',
+    defaultMessage: 'If you continue, you will end up following just one nostr account. Are you sure you want to continue?',
+    description: 'Explanation of what happens when follow error occurs',
+  },
+  confirm: {
+    id: 'followWarning.confirm',
+    defaultMessage: 'Yes, continue',
+    description: 'Confirm forgot pin action',
+  },
+  abort: {
+    id: 'followWarning.abort',
+    defaultMessage: 'Abort',
+    description: 'Abort forgot pin action',
+  },
+};
+
+export const reads = {
+  pageTitle: {
+    id: 'reads.pageTitle',
+    defaultMessage: 'Reads',
+    description: 'Reads page title',
+  },
+};
+
+export const bookmarks = {
+  pageTitle: {
+    id: 'bookmarks.pageTitle',
+    defaultMessage: 'Bookmarks',
+    description: 'Bookmarks page title',
+  },
+  noBookmarks: {
+    id: 'bookmarks.noBookmarks',
+    defaultMessage: 'You don\'t have any bookmarks',
+    description: 'No bookmarks caption',
+  },
+  confirm: {
+    title: {
+      id: 'bookmarks.confirm.title',
+      defaultMessage: 'Saving First Bookmark',
+      description: 'Follow error modal title',
+    },
+    description: {
+      id: 'bookmarks.confirm.description',
+      defaultMessage: 'You are about to save your first public bookmark. These bookmarks can be seen by other nostr users. Do you wish to continue?',
+      description: 'Explanation of what happens when bookmark error occurs',
+    },
+    confirm: {
+      id: 'bookmarks.confirm.confirm',
+      defaultMessage: 'Save Bookmark',
+      description: 'Confirm forgot pin action',
+    },
+    abort: {
+      id: 'bookmarks.confirm.abort',
+      defaultMessage: 'Cancel',
+      description: 'Abort forgot pin action',
+    },
+    titleZero: {
+      id: 'bookmarks.confirm.title',
+      defaultMessage: 'Removing Last Bookmark',
+      description: 'Follow error modal title',
+    },
+    descriptionZero: {
+      id: 'bookmarks.confirm.description',
+      defaultMessage: 'You are about to remove your last public bookmark. Do you wish to continue?',
+      description: 'Explanation of what happens when bookmark error occurs',
+    },
+    confirmZero: {
+      id: 'bookmarks.confirm.confirm',
+      defaultMessage: 'Remove Bookmark',
+      description: 'Confirm forgot pin action',
+    },
+    abortZero: {
+      id: 'bookmarks.confirm.abort',
+      defaultMessage: 'Cancel',
+      description: 'Abort forgot pin action',
+    },
+  }
+}
+
+export const lnInvoice = {
+  pay: {
+    id: 'lnInvoice.pay',
+    defaultMessage: 'Pay',
+    description: 'Pay invoice action',
+  },
+  title: {
+    id: 'lnInvoice.title',
+    defaultMessage: 'Lightning Invoice',
+    description: 'Lightning Invoice title',
+  },
+  expired: {
+    id: 'lnInvoice.expired',
+    defaultMessage: 'Expired: {date} ago',
+    description: 'Expired time',
+  },
+  expires: {
+    id: 'lnInvoice.expires',
+    defaultMessage: 'Expires: in {date}',
+    description: 'Expires time',
+  },
+  confirm: {
+    title: {
+      id: 'lnInvoice.confirm.title',
+      defaultMessage: 'Are you sure?',
+      description: 'Lightning invoice pay confirmation',
+    },
+    description: {
+      id: 'lnInvoice.confirm.description',
+      defaultMessage: 'Pay {amount}',
+      description: 'Lightning Invoice confirm description',
+    },
+    confirmLabel: {
+      id: 'lnInvoice.confirm.confirmLabel',
+      defaultMessage: 'Yes, pay',
+      description: 'Lightning Invoice confirm button label',
+    },
+    abortLabel: {
+      id: 'lnInvoice.confirm.abortLabel',
+      defaultMessage: 'Cancel',
+      description: 'Lightning Invoice confirm button label',
+    },
+  },
+
+};
+
+export const cashuInvoice = {
+  redeem: {
+    id: 'cashuInvoice.redeem',
+    defaultMessage: 'Reedem',
+    description: 'Reedem ecash action',
+  },
+  pending: {
+    id: 'cashuInvoice.pending',
+    defaultMessage: 'Pending',
+    description: 'Pending ecash',
+  },
+  spent: {
+    id: 'cashuInvoice.spent',
+    defaultMessage: 'Spent',
+    description: 'Spent ecash',
+  },
+  title: {
+    id: 'cashuInvoice.title',
+    defaultMessage: 'Cashu Ecash',
+    description: 'Cashu Ecash title',
+  },
+  mint: {
+    id: 'cashuInvoice.mint',
+    defaultMessage: 'Mint: {url}',
+    description: 'Mint url',
+  },
+  confirm: {
+    title: {
+      id: 'cashuInvoice.confirm.title',
+      defaultMessage: 'Are you sure?',
+      description: 'Cashu invoice pay confirmation',
+    },
+    description: {
+      id: 'cashuInvoice.confirm.description',
+      defaultMessage: 'Redeem {amount}',
+      description: 'Cashu Invoice confirm description',
+    },
+    confirmLabel: {
+      id: 'cashuInvoice.confirm.confirmLabel',
+      defaultMessage: 'Yes, redeem',
+      description: 'Cashu Invoice confirm button label',
+    },
+    abortLabel: {
+      id: 'cashuInvoice.confirm.abortLabel',
+      defaultMessage: 'Cancel',
+      description: 'Cashu Invoice confirm button label',
+    },
+  },
+
+};
+
+export const reactionsModal = {
+  tabs: {
+    likes: {
+      id: 'reactionsModal.tabs.likes',
+      defaultMessage: 'Likes ({count})',
+      description: 'Likes tab label in reactions modal',
+    },
+    zaps: {
+      id: 'reactionsModal.tabs.zaps',
+      defaultMessage: 'Zaps ({count})',
+      description: 'Zaps tab label in reactions modal',
+    },
+    reposts: {
+      id: 'reactionsModal.tabs.reposts',
+      defaultMessage: 'Reposts ({count})',
+      description: 'Reposts tab label in reactions modal',
+    },
+    quotes: {
+      id: 'reactionsModal.tabs.quotes',
+      defaultMessage: 'Quotes ({count})',
+      description: 'Quotes tab label in reactions modal',
+    },
+  },
+};
+
+export const premium = {
+  labels: {
+    foreverPremium: {
+      id: 'pages.premium.labes.foreverPremium',
+      defaultMessage: 'Forever Premium',
+      description: 'Forever Premium perk title',
+    },
+    foreverPremiumDescription: {
+      id: 'pages.premium.labes.foreverPremiumDescription',
+      defaultMessage: 'Premium subscription never expires for legends.',
+      description: 'Forever Premium perk description',
+    },
+    privateBetaBuilds: {
+      id: 'pages.premium.labes.privateBetaBuilds',
+      defaultMessage: 'Private Beta Builds',
+      description: 'Private Beta Builds perk title',
+    },
+    privateBetaBuildsDescription: {
+      id: 'pages.premium.labes.privateBetaBuildsDescription',
+      defaultMessage: 'Get access to new features before they are public.',
+      description: 'Private Beta perk description',
+    },
+    moreMediaSpace: {
+      id: 'pages.premium.labes.moreMediaSpace',
+      defaultMessage: 'Way More Storage',
+      description: 'More Media perk title',
+    },
+    moreMediaSpaceDescription: {
+      id: 'pages.premium.labes.moreMediaSpaceDescription',
+      defaultMessage: 'Get 100GB of Primal Premium media storage.',
+      description: 'More Media perk description',
+    },
+    customLegendProfile: {
+      id: 'pages.premium.labes.customLegendProfile',
+      defaultMessage: 'Legendary Custom Profile',
+      description: 'Legendary Custom Profile perk title',
+    },
+    customLegendDescription: {
+      id: 'pages.premium.labes.customLegendDescription',
+      defaultMessage: 'Option to pick the color of your verified badge and set the glow around your avatar',
+      description: 'Legendary Custom Profile perk description',
+    },
+    legendPageCaption: {
+      id: 'pages.premium.labes.legendPageCaption',
+      defaultMessage: 'Donate $1000 or more to gain:',
+      description: 'Legend page caption',
+    },
+    legendPageExplanation: {
+      id: 'pages.premium.labes.legendPageExplanation',
+      defaultMessage: 'The Legend tier was created to recognize users who have made a significant contribution to Primal.',
+      description: 'Legend page explanation',
+    },
+    supportFirstLine: {
+      id: 'pages.premium.labes.supportFirstLine',
+      defaultMessage: 'Want to get more out of Primal?',
+      description: 'Support label first line',
+    },
+    supportSecondLine: {
+      id: 'pages.premium.labes.supportSecondLine',
+      defaultMessage: 'Check out ',
+      description: 'Support label second line',
+    },
+    supportCaption: {
+      id: 'pages.premium.labes.supportCaption',
+      defaultMessage: 'Be a part of the Nostr revolution and help us continue building for this ecosystem.',
+      description: 'Support page caption',
+    },
+    leaveStars: {
+      id: 'pages.premium.labes.leaveStars',
+      defaultMessage: 'Leave a 5 Star Review',
+      description: 'Support page 5 star review caption',
+    },
+    leaveStarsDescription: {
+      id: 'pages.premium.labes.leaveStarsDescription',
+      defaultMessage: 'App Store reviews really help improve the visibility of Nostr apps at this early stage.',
+      description: 'Support page 5 star review description',
+    },
+    extendSubscription: {
+      id: 'pages.premium.labes.extendSubscription',
+      defaultMessage: 'Extend Subscription',
+      description: 'Support page extend subscription caption',
+    },
+    extendSubscriptionDescription: {
+      id: 'pages.premium.labes.extendSubscriptionDescription',
+      defaultMessage: 'Extend your existing subscription to gain peace of mind and help fund Primal.',
+      description: 'Support page extend subscription description',
+    },
+    becomeLegend: {
+      id: 'pages.premium.labes.becomeLegend',
+      defaultMessage: 'Become a Legend',
+      description: 'Support page become legend caption',
+    },
+    becomeLegendDescription: {
+      id: 'pages.premium.labes.becomeLegendDescription',
+      defaultMessage: 'Donate $1000 or more to gain permanent membership and exclusive perks!',
+      description: 'Support page become legend description',
+    },
+  },
+  actions: {
+    payNow: {
+      id: 'pages.premium.actions.payNow',
+      defaultMessage: 'Pay Now',
+      description: 'Action to pay now',
+    },
+    becomeLegend: {
+      id: 'pages.premium.actions.becomeLegend',
+      defaultMessage: 'Become a Legend Now',
+      description: 'Action that takes user to the Become a Legend page',
+    },
+    getIOS: {
+      id: 'pages.premium.actions.getIOS',
+      defaultMessage: 'Go to iOS App',
+      description: 'Action that takes user to the iOS APP page',
+    },
+    getAndroid: {
+      id: 'pages.premium.actions.getAndroid',
+      defaultMessage: 'Go to Android App',
+      description: 'Action that takes user to the Android App page',
+    },
+    support: {
+      id: 'pages.premium.actions.support',
+      defaultMessage: 'support us',
+      description: 'Action that takes user to the support page',
+    },
+    primalPro: {
+      id: 'pages.premium.actions.primalPro',
+      defaultMessage: 'Primal Pro',
+      description: 'Action that takes user to the Primal Pro dialog',
+    },
+    start: {
+      id: 'pages.premium.actions.start',
+      defaultMessage: 'Find Primal Name',
+      description: 'Find primal name action on the premium page',
+    },
+    back: {
+      id: 'pages.premium.actions.back',
+      defaultMessage: 'Back',
+      description: 'To the previous step on the premium page',
+    },
+    next: {
+      id: 'pages.premium.actions.next',
+      defaultMessage: 'Next',
+      description: 'To the next step on the premium page',
+    },
+    subscribe: {
+      id: 'pages.premium.actions.subscribe',
+      defaultMessage: 'Continue to Payment',
+      description: 'Subscribe action on the premium page',
+    },
+    done: {
+      id: 'pages.premium.actions.done',
+      defaultMessage: 'Done',
+      description: 'Done action on the premium page',
+    },
+    tryAgain: {
+      id: 'pages.premium.actions.tryAgain',
+      defaultMessage: 'Try Again',
+      description: 'Try again action on the premium page',
+    },
+    rename: {
+      id: 'pages.premium.actions.rename',
+      defaultMessage: 'Rename',
+      description: 'To the rename step on the premium page',
+    },
+    changeName: {
+      id: 'pages.premium.actions.changeName',
+      defaultMessage: 'Change Your Primal Name',
+      description: 'Change Primal name action on the premium page',
+    },
+    extendPlan: {
+      id: 'pages.premium.actions.extendPlan',
+      defaultMessage: 'Extend Your Subscription',
+      description: 'Extend your subscription action on the premium page',
+    },
+    renewPlan: {
+      id: 'pages.premium.actions.renewPlan',
+      defaultMessage: 'Renew Your Subscription',
+      description: 'Extend your subscription action on the premium page',
+    },
+    managePremium: {
+      id: 'pages.premium.actions.managePremium',
+      defaultMessage: 'Manage Premium',
+      description: 'Manage your Premium Account',
+    },
+  },
+  title: {
+    general: {
+      id: 'pages.premium.title',
+      defaultMessage: 'Primal {productGroup}',
+      description: 'Title of the premium page',
+    },
+    name: {
+      id: 'pages.premium.name',
+      defaultMessage: 'Choose a primal name',
+      description: 'Title of the premium find name page',
+    },
+    subscription: {
+      id: 'pages.premium.subscription',
+      defaultMessage: 'Congrats!',
+      description: 'Title of the premium subscription page',
+    },
+    subscriptionSubtitle: {
+      id: 'pages.premium.subscriptionSubtitle',
+      defaultMessage: 'Your Primal Name is available',
+      description: 'Subtitle of the premium subscription page',
+    },
+    rename: {
+      id: 'pages.premium.rename',
+      defaultMessage: 'Change your primal name',
+      description: 'Title of the premium rename page',
+    },
+    support: {
+      id: 'pages.premium.support',
+      defaultMessage: 'Support Primal',
+      description: 'Title of the premium support page',
+    },
+    premiums: {
+      id: 'pages.premium.premiums',
+      defaultMessage: 'Premium Users',
+      description: 'Title of the premium leaderboards page',
+    },
+    legends: {
+      id: 'pages.premium.legends',
+      defaultMessage: 'Primal Legends',
+      description: 'Title of the legends leaderboards page',
+    },
+    legend: {
+      id: 'pages.premium.legend',
+      defaultMessage: 'Become a Primal Legend',
+      description: 'Title of the premium legend page',
+    },
+    legendShort: {
+      id: 'pages.premium.legendShort',
+      defaultMessage: 'Primal Legend',
+      description: 'Short title of the premium legend page',
+    },
+    relay: {
+      id: 'pages.premium.relay',
+      defaultMessage: 'Primal Relay',
+      description: 'Title of the premium relay page',
+    },
+    media: {
+      id: 'pages.premium.media',
+      defaultMessage: 'Media Managment',
+      description: 'Title of the premium media managment page',
+    },
+    contacts: {
+      id: 'pages.premium.contacts',
+      defaultMessage: 'Recover Follow List',
+      description: 'Title of the premium recover contacts page',
+    },
+    content: {
+      id: 'pages.premium.content',
+      defaultMessage: 'Content Backup',
+      description: 'Title of the premium content backup page',
+    },
+    og: {
+      id: 'pages.premium.og',
+      defaultMessage: 'Primal OG',
+      description: 'Title of the Primal OG page',
+    },
+    ogLegend: {
+      id: 'pages.premium.ogLegend',
+      defaultMessage: 'Primal Legend',
+      description: 'Title of the Primal Legend page',
+    },
+  },
+  subOptions: {
+    prices: {
+      m7: {
+        id: 'pages.premium.subOption.m7',
+        defaultMessage: '$7/month',
+        description: '$7 per month',
+      },
+      m6: {
+        id: 'pages.premium.subOption.m6',
+        defaultMessage: '$6/month',
+        description: '$6 per month',
+      },
+      m70: {
+        id: 'pages.premium.subOption.m70',
+        defaultMessage: '$69.99/month',
+        description: '$69.99 per month',
+      },
+      y750: {
+        id: 'pages.premium.subOption.y750',
+        defaultMessage: '$750/year',
+        description: '$750 per year',
+      },
+    },
+    durations: {
+      m3: {
+        id: 'pages.premium.duration.m3',
+        defaultMessage: '3 months',
+        description: '3 month duration',
+      },
+      m12: {
+        id: 'pages.premium.duration.m12',
+        defaultMessage: '12 months',
+        description: '12 month duration',
+      },
+      m1: {
+        id: 'pages.premium.duration.m1',
+        defaultMessage: 'monthly',
+        description: 'monthly payments',
+      },
+      y1: {
+        id: 'pages.premium.duration.y1',
+        defaultMessage: 'annually',
+        description: 'annual payments',
+      },
+    },
+    success: {
+      caption: {
+        id: 'pages.premium.success.caption',
+        defaultMessage: 'Success!',
+        description: 'Payment success caption',
+      },
+      m3: {
+        id: 'pages.premium.success.m3',
+        defaultMessage: 'You subscribed to Primal Premium for 3 months.',
+        description: 'Payment success description for 3 month plan',
+      },
+      m12: {
+        id: 'pages.premium.success.m12',
+        defaultMessage: 'You subscribed to Primal Premium for 12 months.',
+        description: 'Payment success description for 12 month plan',
+      },
+      m70: {
+        id: 'pages.premium.success.m70',
+        defaultMessage: 'You subscribed to Primal Pro for 1 month.',
+        description: 'Payment success description for 1 month pro plan',
+      },
+      y750: {
+        id: 'pages.premium.success.y750',
+        defaultMessage: 'You subscribed to Primal Pro for 12 months.',
+        description: 'Payment success description for 12 month pro plan',
+      },
+      legend: {
+        id: 'pages.premium.success.legend',
+        defaultMessage: 'You are now a Primal Legend.',
+        description: 'Payment success description for legends',
+      },
+      donation: {
+        id: 'pages.premium.success.donation',
+        defaultMessage: 'Thank you, Legend!',
+        description: 'Payment success description for additional donations by legends',
+      },
+    },
+    fail: {
+      caption: {
+        id: 'pages.premium.fail.caption',
+        defaultMessage: 'Payment failed!',
+        description: 'Payment failure caption',
+      },
+      description: {
+        id: 'pages.premium.success.description',
+        defaultMessage: 'There was a problem procesing your payment',
+        description: 'Payment failure description',
+      },
+    }
+  },
+  errors: {
+    nameTooShort: {
+      id: 'pages.premium.error.nameTooShort',
+      defaultMessage: 'Name needs to be at least 3 characters long',
+      description: 'Name is too short error',
+    },
+    nameUnavailable: {
+      id: 'pages.premium.error.nameUnavailable',
+      defaultMessage: 'Sorry, that name is currently unavailable',
+      description: 'Name is unavailable error',
+    },
+    nameNotChanged: {
+      id: 'pages.premium.error.nameNotChanged',
+      defaultMessage: 'Failed to change name',
+      description: 'Name is unavailable error',
+    },
+  }
+};
+
+export const readsMy = {
+  pageCaption: {
+    id: 'pages.readsMy.pageCaption',
+    defaultMessage: 'My Articles',
+    description: 'My reads page caption',
+  },
+  noPublishedArticle: {
+    id: 'pages.readsMy.noPublishedArticle',
+    defaultMessage: 'No articles published',
+    description: 'No published articles label',
+  },
+  noDrafts: {
+    id: 'pages.readsMy.noDrafts',
+    defaultMessage: 'You don\'t have any drafts',
+    description: 'No published articles label',
+  },
+
+}
+
+export const publishStatus = {
+  title: {
+    id: 'publishStatus.title',
+    defaultMessage: 'Publish Status',
+    description: 'Title of the publish status dialog',
+  },
+  menuLabel: {
+    id: 'actions.noteContext.publishStatus',
+    defaultMessage: 'Publish Status',
+    description: 'Label for viewing per-relay publish status from context menu',
+  },
+  sectionTitle: {
+    id: 'settings.network.outgoingEvents',
+    defaultMessage: 'Outgoing events',
+    description: 'Title of the publish queue section of the network settings sub-page',
+  },
+  sectionDescription: {
+    id: 'settings.network.outgoingEventsDescription',
+    defaultMessage: 'Everything you publish is queued here until your relays confirm it. Failed relays are retried while Primal is open.',
+    description: 'Description of the publish queue section of the network settings sub-page',
+  },
+  empty: {
+    id: 'publishStatus.empty',
+    defaultMessage: 'Nothing waiting to be published',
+    description: 'Label shown when the publish queue is empty',
+  },
+  notTracked: {
+    id: 'publishStatus.notTracked',
+    defaultMessage: 'This event was not published from this device, so there is no status for it.',
+    description: 'Label shown when there is no publish status for an event',
+  },
+  retry: {
+    id: 'publishStatus.retry',
+    defaultMessage: 'Retry now',
+    description: 'Button retrying a queued event',
+  },
+  remove: {
+    id: 'publishStatus.remove',
+    defaultMessage: 'Remove',
+    description: 'Button removing an event from the publish queue',
+  },
+  nextAttempt: {
+    id: 'publishStatus.nextAttempt',
+    defaultMessage: 'Next attempt {time}',
+    description: 'Label with the time of the next publish attempt',
+  },
+  kind: {
+    id: 'publishStatus.kind',
+    defaultMessage: 'Kind {kind}',
+    description: 'Label with the kind of a queued event',
+  },
+  state: {
+    publishing: {
+      id: 'publishStatus.state.publishing',
+      defaultMessage: 'Publishing',
+      description: 'Publish queue entry state',
+    },
+    retrying: {
+      id: 'publishStatus.state.retrying',
+      defaultMessage: 'Retrying',
+      description: 'Publish queue entry state',
+    },
+    done: {
+      id: 'publishStatus.state.done',
+      defaultMessage: 'Published',
+      description: 'Publish queue entry state',
+    },
+    failed: {
+      id: 'publishStatus.state.failed',
+      defaultMessage: 'Failed',
+      description: 'Publish queue entry state',
+    },
+  },
+  relay: {
+    pending: {
+      id: 'publishStatus.relay.pending',
+      defaultMessage: 'Waiting',
+      description: 'Relay publish result',
+    },
+    ok: {
+      id: 'publishStatus.relay.ok',
+      defaultMessage: 'OK',
+      description: 'Relay publish result',
+    },
+    sent: {
+      id: 'publishStatus.relay.sent',
+      defaultMessage: 'Sent via Primal',
+      description: 'Relay publish result',
+    },
+    notice: {
+      id: 'publishStatus.relay.notice',
+      defaultMessage: 'Notice',
+      description: 'Relay publish result',
+    },
+    'auth-required': {
+      id: 'publishStatus.relay.authRequired',
+      defaultMessage: 'Auth required',
+      description: 'Relay publish result',
+    },
+    timeout: {
+      id: 'publishStatus.relay.timeout',
+      defaultMessage: 'Timed out',
+      description: 'Relay publish result',
+    },
+    rejected: {
+      id: 'publishStatus.relay.rejected',
+      defaultMessage: 'Rejected',
+      description: 'Relay publish result',
+    },
+    error: {
+      id: 'publishStatus.relay.error',
+      defaultMessage: 'Error',
+      description: 'Relay publish result',
+    },
+  },
+};
+
+export const relayOnly = {
+  title: {
+    id: 'relayOnly.title',
+    defaultMessage: 'Relay-only mode',
+    description: 'Title of the banner shown while the caching service is unreachable',
+  },
+  description: {
+    id: 'relayOnly.description',
+    defaultMessage: 'The caching service can\'t be reached, so your following feed, profiles, threads and messages are loaded straight from your relays. Stats, trending, search and notifications will be back once it reconnects.',
+    description: 'Explanation shown in the relay-only mode banner',
+  },
+  settings: {
+    id: 'relayOnly.settings',
+    defaultMessage: 'Network settings',
+    description: 'Link to network settings from the relay-only mode banner',
+  },
+};
+
+export const relayAuth = {
+  title: {
+    id: 'relayAuth.title',
+    defaultMessage: 'Relay authentication',
+    description: 'Title of the relay authentication prompt',
+  },
+  description: {
+    id: 'relayAuth.description',
+    defaultMessage: '{relay} asks you to sign in before it will accept your notes or show you its content. Signing in lets the relay know it is you.',
+    description: 'Description of the relay authentication prompt',
+  },
+  remember: {
+    id: 'relayAuth.remember',
+    defaultMessage: 'Remember my choice for this relay',
+    description: 'Checkbox label in the relay authentication prompt',
+  },
+  approve: {
+    id: 'relayAuth.approve',
+    defaultMessage: 'Sign in',
+    description: 'Approve button of the relay authentication prompt',
+  },
+  decline: {
+    id: 'relayAuth.decline',
+    defaultMessage: 'Not now',
+    description: 'Decline button of the relay authentication prompt',
+  },
+};
+
+export const poll = {
+  add: {
+    id: 'poll.add',
+    defaultMessage: 'Add a poll',
+    description: 'Label of the composer button that adds a poll to the note',
+  },
+  remove: {
+    id: 'poll.remove',
+    defaultMessage: 'Remove poll',
+    description: 'Label of the button that removes the poll from the note',
+  },
+  option: {
+    id: 'poll.option',
+    defaultMessage: 'Option {number}',
+    description: 'Placeholder of a poll option input',
+  },
+  addOption: {
+    id: 'poll.addOption',
+    defaultMessage: 'Add option',
+    description: 'Label of the button that adds another option to the poll',
+  },
+  singleChoice: {
+    id: 'poll.singleChoice',
+    defaultMessage: 'Single choice',
+    description: 'Poll type where voters pick one option',
+  },
+  multipleChoice: {
+    id: 'poll.multipleChoice',
+    defaultMessage: 'Multiple choice',
+    description: 'Poll type where voters can pick several options',
+  },
+  duration: {
+    id: 'poll.duration',
+    defaultMessage: 'Poll length',
+    description: 'Label of the poll length picker',
+  },
+  hours: {
+    id: 'poll.hours',
+    defaultMessage: `{number, plural,
+      one {# hour}
+      other {# hours}}`,
+    description: 'Poll length in hours',
+  },
+  days: {
+    id: 'poll.days',
+    defaultMessage: `{number, plural,
+      one {# day}
+      other {# days}}`,
+    description: 'Poll length in days',
+  },
+  zapWeighted: {
+    id: 'poll.zapWeighted',
+    defaultMessage: 'Vote with zaps',
+    description: 'Checkbox label for polls where votes are zaps',
+  },
+  zapWeightedHelp: {
+    id: 'poll.zapWeightedHelp',
+    defaultMessage: 'Every vote is a zap to you, and options are ranked by the sats they received.',
+    description: 'Explanation of zap weighted polls',
+  },
+  vote: {
+    id: 'poll.vote',
+    defaultMessage: 'Vote',
+    description: 'Label of the button that submits a vote',
+  },
+  zapVote: {
+    id: 'poll.zapVote',
+    defaultMessage: 'Zap {amount} sats to vote',
+    description: 'Label of the button that votes on a zap poll',
+  },
+  pickMany: {
+    id: 'poll.pickMany',
+    defaultMessage: 'Pick one or more options',
+    description: 'Hint shown on multiple choice polls',
+  },
+  votes: {
+    id: 'poll.votes',
+    defaultMessage: `{number, plural,
+      one {# vote}
+      other {# votes}}`,
+    description: 'Number of people who voted on the poll',
+  },
+  sats: {
+    id: 'poll.sats',
+    defaultMessage: '{number} sats',
+    description: 'Amount zapped to a zap poll option',
+  },
+  endsIn: {
+    id: 'poll.endsIn',
+    defaultMessage: 'Ends in {time}',
+    description: 'Time left until the poll closes',
+  },
+  ended: {
+    id: 'poll.ended',
+    defaultMessage: 'Final results',
+    description: 'Label shown once the poll is closed',
+  },
+  voteFailed: {
+    id: 'poll.voteFailed',
+    defaultMessage: 'Your vote could not be sent',
+    description: 'Toast shown when voting fails',
+  },
+  invalid: {
+    id: 'poll.invalid',
+    defaultMessage: 'A poll needs at least two options',
+    description: 'Toast shown when posting a poll without enough options',
+  },
+};
+
+export const scheduled = {
+  schedule: {
+    id: 'scheduled.schedule',
+    defaultMessage: 'Schedule',
+    description: 'Label of the button that schedules a post',
+  },
+  scheduleLater: {
+    id: 'scheduled.scheduleLater',
+    defaultMessage: 'Schedule for later',
+    description: 'Label of the option that turns on scheduling',
+  },
+  publishAt: {
+    id: 'scheduled.publishAt',
+    defaultMessage: 'Publish at',
+    description: 'Label of the scheduled time picker',
+  },
+  localHelp: {
+    id: 'scheduled.localHelp',
+    defaultMessage: 'Keep Primal open at that time. Otherwise you will be asked about it the next time you open it.',
+    description: 'Explanation of locally scheduled posts',
+  },
+  tooSoon: {
+    id: 'scheduled.tooSoon',
+    defaultMessage: 'Pick a time at least a minute from now',
+    description: 'Toast shown when the scheduled time is too soon',
+  },
+  success: {
+    id: 'scheduled.success',
+    defaultMessage: 'Scheduled for {date}',
+    description: 'Toast shown when a post was scheduled',
+  },
+  failed: {
+    id: 'scheduled.failed',
+    defaultMessage: 'Failed to schedule the post',
+    description: 'Toast shown when scheduling fails',
+  },
+  updateFailed: {
+    id: 'scheduled.updateFailed',
+    defaultMessage: 'Failed to update the scheduled post',
+    description: 'Toast shown when changing a scheduled post fails',
+  },
+  tab: {
+    id: 'scheduled.tab',
+    defaultMessage: 'Scheduled ({number})',
+    description: 'Title of the scheduled posts tab',
+  },
+  empty: {
+    id: 'scheduled.empty',
+    defaultMessage: 'You have no scheduled posts',
+    description: 'Shown when there are no scheduled posts',
+  },
+  note: {
+    id: 'scheduled.note',
+    defaultMessage: 'Note',
+    description: 'Type label of a scheduled note',
+  },
+  article: {
+    id: 'scheduled.article',
+    defaultMessage: 'Article',
+    description: 'Type label of a scheduled article',
+  },
+  missed: {
+    id: 'scheduled.missed',
+    defaultMessage: 'Missed',
+    description: 'Label of scheduled posts whose time has passed',
+  },
+  edit: {
+    id: 'scheduled.edit',
+    defaultMessage: 'Edit',
+    description: 'Label of the button that edits a scheduled post',
+  },
+  save: {
+    id: 'scheduled.save',
+    defaultMessage: 'Save',
+    description: 'Label of the button that saves changes to a scheduled post',
+  },
+  cancel: {
+    id: 'scheduled.cancel',
+    defaultMessage: 'Cancel',
+    description: 'Label of the button that discards changes to a scheduled post',
+  },
+  publishNow: {
+    id: 'scheduled.publishNow',
+    defaultMessage: 'Publish now',
+    description: 'Label of the button that publishes a scheduled post right away',
+  },
+  remove: {
+    id: 'scheduled.remove',
+    defaultMessage: 'Delete',
+    description: 'Label of the button that deletes a scheduled post',
+  },
+  missedTitle: {
+    id: 'scheduled.missedTitle',
+    defaultMessage: 'Missed scheduled posts',
+    description: 'Title of the missed scheduled posts prompt',
+  },
+  missedDescription: {
+    id: 'scheduled.missedDescription',
+    defaultMessage: `{number, plural,
+      one {# scheduled post was}
+      other {# scheduled posts were}} not published because Primal was closed at the time.`,
+    description: 'Description of the missed scheduled posts prompt',
+  },
+  review: {
+    id: 'scheduled.review',
+    defaultMessage: 'Review',
+    description: 'Label of the button that opens the scheduled posts',
+  },
+  later: {
+    id: 'scheduled.later',
+    defaultMessage: 'Later',
+    description: 'Label of the button that dismisses the missed scheduled posts prompt',
+  },
+};
+
+export const cashuWallet = {
+  description: {
+    id: 'cashuWallet.description',
+    defaultMessage: 'Ecash stored as encrypted events on your relays (NIP-60). Other users can send you nutzaps to the mints you list here.',
+    description: 'Description of the cashu wallet settings page',
+  },
+  loading: {
+    id: 'cashuWallet.loading',
+    defaultMessage: 'Loading your wallet from your relays...',
+    description: 'Shown while the cashu wallet is loading',
+  },
+  create: {
+    id: 'cashuWallet.create',
+    defaultMessage: 'Create ecash wallet',
+    description: 'Label of the button that creates a cashu wallet',
+  },
+  created: {
+    id: 'cashuWallet.created',
+    defaultMessage: 'Ecash wallet created',
+    description: 'Toast shown when the cashu wallet was created',
+  },
+  balance: {
+    id: 'cashuWallet.balance',
+    defaultMessage: '{amount, number} sats',
+    description: 'Cashu wallet balance',
+  },
+  addMint: {
+    id: 'cashuWallet.addMint',
+    defaultMessage: 'Add a mint',
+    description: 'Caption of the add mint input',
+  },
+  removeMint: {
+    id: 'cashuWallet.removeMint',
+    defaultMessage: 'remove',
+    description: 'Label of the button that removes a mint from the wallet',
+  },
+  invalidMint: {
+    id: 'cashuWallet.invalidMint',
+    defaultMessage: 'Mint url must start with https://',
+    description: 'Warning shown for an invalid mint url',
+  },
+  redeem: {
+    id: 'cashuWallet.redeem',
+    defaultMessage: 'Redeem a token',
+    description: 'Caption of the redeem token form',
+  },
+  redeemAction: {
+    id: 'cashuWallet.redeemAction',
+    defaultMessage: 'Redeem',
+    description: 'Label of the button that redeems a cashu token',
+  },
+  pay: {
+    id: 'cashuWallet.pay',
+    defaultMessage: 'Pay a Lightning invoice',
+    description: 'Caption of the pay invoice form',
+  },
+  payAction: {
+    id: 'cashuWallet.payAction',
+    defaultMessage: 'Pay',
+    description: 'Label of the button that pays an invoice with ecash',
+  },
+  spark: {
+    id: 'cashuWallet.spark',
+    defaultMessage: 'Move sats between Spark and ecash',
+    description: 'Caption of the spark deposit and withdraw form',
+  },
+  amount: {
+    id: 'cashuWallet.amount',
+    defaultMessage: 'Amount in sats',
+    description: 'Placeholder of amount inputs',
+  },
+  deposit: {
+    id: 'cashuWallet.deposit',
+    defaultMessage: 'Mint from Spark',
+    description: 'Label of the button that mints ecash paid by the spark wallet',
+  },
+  withdraw: {
+    id: 'cashuWallet.withdraw',
+    defaultMessage: 'Melt to Spark',
+    description: 'Label of the button that moves ecash to the spark wallet',
+  },
+  nutzaps: {
+    id: 'cashuWallet.nutzaps',
+    defaultMessage: 'Nutzaps',
+    description: 'Caption of the nutzaps section',
+  },
+  nutzapsDescription: {
+    id: 'cashuWallet.nutzapsDescription',
+    defaultMessage: 'Nutzaps are ecash payments locked to your wallet key (NIP-61). They have to be claimed before they show up in your balance.',
+    description: 'Description of the nutzaps section',
+  },
+  checkNutzaps: {
+    id: 'cashuWallet.checkNutzaps',
+    defaultMessage: 'Claim received nutzaps',
+    description: 'Label of the button that claims nutzaps',
+  },
+  nutzapsReceived: {
+    id: 'cashuWallet.nutzapsReceived',
+    defaultMessage: 'Claimed {amount, number} sats in nutzaps',
+    description: 'Toast shown after claiming nutzaps',
+  },
+  sendNutzap: {
+    id: 'cashuWallet.sendNutzap',
+    defaultMessage: 'Send a nutzap',
+    description: 'Caption of the send nutzap form',
+  },
+  sendNutzapAction: {
+    id: 'cashuWallet.sendNutzapAction',
+    defaultMessage: 'Send',
+    description: 'Label of the button that sends a nutzap',
+  },
+  comment: {
+    id: 'cashuWallet.comment',
+    defaultMessage: 'Comment',
+    description: 'Placeholder of the nutzap comment input',
+  },
+  invalidNutzap: {
+    id: 'cashuWallet.invalidNutzap',
+    defaultMessage: 'Enter a valid npub and amount',
+    description: 'Warning shown for an invalid nutzap',
+  },
+  nutzapSent: {
+    id: 'cashuWallet.nutzapSent',
+    defaultMessage: 'Sent a {amount, number} sats nutzap',
+    description: 'Toast shown when a nutzap was sent',
+  },
+  nutzap: {
+    id: 'cashuWallet.nutzap',
+    defaultMessage: 'nutzap',
+    description: 'Label of history entries from nutzaps',
+  },
+  history: {
+    id: 'cashuWallet.history',
+    defaultMessage: 'History',
+    description: 'Caption of the cashu wallet history',
+  },
+  noHistory: {
+    id: 'cashuWallet.noHistory',
+    defaultMessage: 'No transactions yet',
+    description: 'Shown when the cashu wallet has no history',
+  },
+  received: {
+    id: 'cashuWallet.received',
+    defaultMessage: 'Received {amount, number} sats',
+    description: 'Toast shown when ecash was added to the wallet',
+  },
+  paid: {
+    id: 'cashuWallet.paid',
+    defaultMessage: 'Paid {amount, number} sats',
+    description: 'Toast shown when an invoice was paid with ecash',
+  },
+  failed: {
+    id: 'cashuWallet.failed',
+    defaultMessage: 'Ecash wallet error: {reason}',
+    description: 'Toast shown when a cashu wallet action fails',
+  },
+  noWallet: {
+    id: 'cashuWallet.noWallet',
+    defaultMessage: 'Your ecash wallet is still loading',
+    description: 'Toast shown when redeeming before the wallet has loaded',
+  },
+};
+
+export const zapRouting = {
+  enabled: {
+    id: 'zapRouting.enabled',
+    defaultMessage: 'Route zaps across my wallets',
+    description: 'Label of the zap routing toggle',
+  },
+  description: {
+    id: 'zapRouting.description',
+    defaultMessage: 'Pick which wallet pays each zap based on its size, fall back to the next wallet when one fails, and cap what each wallet can spend per day. When off, zaps are paid by the active wallet.',
+    description: 'Description of zap routing',
+  },
+  order: {
+    id: 'zapRouting.order',
+    defaultMessage: 'Wallet order',
+    description: 'Caption of the wallet order list',
+  },
+  up: {
+    id: 'zapRouting.up',
+    defaultMessage: 'Move up',
+    description: 'Moves a wallet up in the routing order',
+  },
+  down: {
+    id: 'zapRouting.down',
+    defaultMessage: 'Move down',
+    description: 'Moves a wallet down in the routing order',
+  },
+  smallZaps: {
+    id: 'zapRouting.smallZaps',
+    defaultMessage: 'Prefer for small zaps',
+    description: 'Caption of the small zap wallet preference',
+  },
+  noPreference: {
+    id: 'zapRouting.noPreference',
+    defaultMessage: 'No preference',
+    description: 'Option for no small zap wallet preference',
+  },
+  under: {
+    id: 'zapRouting.under',
+    defaultMessage: 'under',
+    description: 'Joins the small zap wallet and threshold',
+  },
+  fallback: {
+    id: 'zapRouting.fallback',
+    defaultMessage: 'Try the next wallet when one fails or lacks balance',
+    description: 'Label of the zap routing fallback toggle',
+  },
+  limits: {
+    id: 'zapRouting.limits',
+    defaultMessage: 'Daily spend limits (sats)',
+    description: 'Caption of the daily limits',
+  },
+  noLimit: {
+    id: 'zapRouting.noLimit',
+    defaultMessage: 'No limit',
+    description: 'Placeholder of a daily limit input',
+  },
+  spentToday: {
+    id: 'zapRouting.spentToday',
+    defaultMessage: '{amount, number} sats spent today',
+    description: 'Amount a wallet zapped today',
+  },
+  log: {
+    id: 'zapRouting.log',
+    defaultMessage: 'Routing log',
+    description: 'Caption of the zap routing log',
+  },
+  emptyLog: {
+    id: 'zapRouting.emptyLog',
+    defaultMessage: 'No zaps sent yet',
+    description: 'Shown when the routing log is empty',
+  },
+  paidBy: {
+    id: 'zapRouting.paidBy',
+    defaultMessage: 'Paid by {wallet}',
+    description: 'Routing log entry for a paid zap',
+  },
+  notPaid: {
+    id: 'zapRouting.notPaid',
+    defaultMessage: 'Not paid',
+    description: 'Routing log entry for a failed zap',
+  },
+  clearLog: {
+    id: 'zapRouting.clearLog',
+    defaultMessage: 'Clear log',
+    description: 'Label of the button that clears the routing log',
+  },
+  wallets: {
+    breez: {
+      id: 'zapRouting.wallets.breez',
+      defaultMessage: 'Spark',
+      description: 'Name of the Spark wallet',
+    },
+    nwc: {
+      id: 'zapRouting.wallets.nwc',
+      defaultMessage: 'NWC',
+      description: 'Name of the Nostr Wallet Connect wallet',
+    },
+    webln: {
+      id: 'zapRouting.wallets.webln',
+      defaultMessage: 'WebLN',
+      description: 'Name of the WebLN browser wallet',
+    },
+  },
+};
+
+export const nwcWallet = {
+  showDetails: {
+    id: 'nwcWallet.showDetails',
+    defaultMessage: 'details',
+    description: 'Shows balance, history and budget of an NWC connection',
+  },
+  hideDetails: {
+    id: 'nwcWallet.hideDetails',
+    defaultMessage: 'hide details',
+    description: 'Hides the details of an NWC connection',
+  },
+  balance: {
+    id: 'nwcWallet.balance',
+    defaultMessage: 'Balance',
+    description: 'Caption of an NWC connection balance',
+  },
+  sats: {
+    id: 'nwcWallet.sats',
+    defaultMessage: '{amount, number} sats',
+    description: 'Amount of sats',
+  },
+  loading: {
+    id: 'nwcWallet.loading',
+    defaultMessage: 'Loading...',
+    description: 'Shown while an NWC wallet responds',
+  },
+  notSupported: {
+    id: 'nwcWallet.notSupported',
+    defaultMessage: 'Not shared by this wallet',
+    description: 'Shown when an NWC wallet does not support a method',
+  },
+  refresh: {
+    id: 'nwcWallet.refresh',
+    defaultMessage: 'refresh',
+    description: 'Reloads the details of an NWC connection',
+  },
+  capabilities: {
+    id: 'nwcWallet.capabilities',
+    defaultMessage: 'Capabilities',
+    description: 'Caption of the methods an NWC wallet supports',
+  },
+  budget: {
+    id: 'nwcWallet.budget',
+    defaultMessage: 'Budget',
+    description: 'Caption of the spend budget of an NWC connection',
+  },
+  noBudget: {
+    id: 'nwcWallet.noBudget',
+    defaultMessage: 'No limit',
+    description: 'Placeholder of the budget input',
+  },
+  saveBudget: {
+    id: 'nwcWallet.saveBudget',
+    defaultMessage: 'Save',
+    description: 'Saves the budget of an NWC connection',
+  },
+  spent: {
+    id: 'nwcWallet.spent',
+    defaultMessage: '{spent, number} of {limit, number} sats spent this period',
+    description: 'How much of the budget of an NWC connection is used',
+  },
+  periods: {
+    daily: {
+      id: 'nwcWallet.periods.daily',
+      defaultMessage: 'per day',
+      description: 'Daily budget period',
+    },
+    weekly: {
+      id: 'nwcWallet.periods.weekly',
+      defaultMessage: 'per week',
+      description: 'Weekly budget period',
+    },
+    monthly: {
+      id: 'nwcWallet.periods.monthly',
+      defaultMessage: 'per month',
+      description: 'Monthly budget period',
+    },
+    never: {
+      id: 'nwcWallet.periods.never',
+      defaultMessage: 'in total',
+      description: 'Budget that never resets',
+    },
+  },
+  history: {
+    id: 'nwcWallet.history',
+    defaultMessage: 'Recent transactions',
+    description: 'Caption of the NWC transaction list',
+  },
+  noHistory: {
+    id: 'nwcWallet.noHistory',
+    defaultMessage: 'No transactions yet',
+    description: 'Shown when an NWC wallet has no transactions',
+  },
+  failed: {
+    id: 'nwcWallet.failed',
+    defaultMessage: 'The wallet did not respond: {reason}',
+    description: 'Shown when an NWC request fails',
+  },
+};
+
+export const zapSplits = {
+  add: {
+    id: 'zapSplits.add',
+    defaultMessage: 'Add recipient',
+    description: 'Adds a zap split recipient',
+  },
+  caption: {
+    id: 'zapSplits.caption',
+    defaultMessage: 'Split zaps',
+    description: 'Caption of the zap split editor',
+  },
+  help: {
+    id: 'zapSplits.help',
+    defaultMessage: 'Zaps are divided by weight. Keep yourself on the list to receive a share.',
+    description: 'Explains how zap split weights work',
+  },
+  invalidRecipient: {
+    id: 'zapSplits.invalidRecipient',
+    defaultMessage: 'Enter an npub or a hex public key',
+    description: 'Shown when a zap split recipient is not a valid key',
+  },
+  noWeight: {
+    id: 'zapSplits.noWeight',
+    defaultMessage: 'At least one recipient needs a weight',
+    description: 'Shown when every zap split weight is zero',
+  },
+  partial: {
+    id: 'zapSplits.partial',
+    defaultMessage: 'Zapped {paid, number} of {total, number} recipients',
+    description: 'Title of the report of a partly failed split zap',
+  },
+  recipient: {
+    id: 'zapSplits.recipient',
+    defaultMessage: 'npub of a co-author or a charity',
+    description: 'Placeholder of the zap split recipient input',
+  },
+  remove: {
+    id: 'zapSplits.remove',
+    defaultMessage: 'Remove zap split',
+    description: 'Removes zap splits from the post',
+  },
+  split: {
+    id: 'zapSplits.split',
+    defaultMessage: 'Split zaps with others',
+    description: 'Toggles zap splits when publishing',
+  },
+};
+
+export const recurringZaps = {
+  description: {
+    id: 'recurringZaps.description',
+    defaultMessage: 'Subscriptions to creators are renewed from your wallet while Primal is open. Renewals that came due while it was closed are paid once when you come back.',
+    description: 'Explanation of recurring subscription payments',
+  },
+  empty: {
+    id: 'recurringZaps.empty',
+    defaultMessage: 'You are not subscribed to anyone yet',
+    description: 'Shown when there are no recurring subscriptions',
+  },
+  nextDue: {
+    id: 'recurringZaps.nextDue',
+    defaultMessage: 'Next renewal: {date}',
+    description: 'When a subscription is renewed next',
+  },
+  cancelled: {
+    id: 'recurringZaps.cancelled',
+    defaultMessage: 'Cancelled',
+    description: 'Badge of a cancelled subscription',
+  },
+  payNow: {
+    id: 'recurringZaps.payNow',
+    defaultMessage: 'Pay now',
+    description: 'Pays the upcoming renewal right away',
+  },
+  skip: {
+    id: 'recurringZaps.skip',
+    defaultMessage: 'Skip',
+    description: 'Skips the upcoming renewal',
+  },
+  cancel: {
+    id: 'recurringZaps.cancel',
+    defaultMessage: 'Cancel subscription',
+    description: 'Stops renewing a subscription',
+  },
+  cancelConfirm: {
+    id: 'recurringZaps.cancelConfirm',
+    defaultMessage: 'Stop renewing your subscription to {name}? They will be notified.',
+    description: 'Confirmation of cancelling a subscription',
+  },
+  cancelFailed: {
+    id: 'recurringZaps.cancelFailed',
+    defaultMessage: 'Failed to cancel the subscription',
+    description: 'Toast shown when cancelling a subscription fails',
+  },
+  remove: {
+    id: 'recurringZaps.remove',
+    defaultMessage: 'Remove',
+    description: 'Removes a cancelled subscription from the list',
+  },
+  history: {
+    id: 'recurringZaps.history',
+    defaultMessage: 'Renewals',
+    description: 'Caption of the renewal history',
+  },
+  renewal: {
+    id: 'recurringZaps.renewal',
+    defaultMessage: '{date}: {status}',
+    description: 'Entry of the renewal history',
+  },
+  sats: {
+    id: 'recurringZaps.sats',
+    defaultMessage: '{amount, number} sats',
+    description: 'Amount paid for a renewal',
+  },
+  statuses: {
+    paid: {
+      id: 'recurringZaps.statuses.paid',
+      defaultMessage: 'Paid',
+      description: 'Status of a paid renewal',
+    },
+    skipped: {
+      id: 'recurringZaps.statuses.skipped',
+      defaultMessage: 'Skipped',
+      description: 'Status of a skipped renewal',
+    },
+    failed: {
+      id: 'recurringZaps.statuses.failed',
+      defaultMessage: 'Failed',
+      description: 'Status of a failed renewal',
+    },
+  },
+  reminderTitle: {
+    id: 'recurringZaps.reminderTitle',
+    defaultMessage: 'Upcoming subscription renewals',
+    description: 'Title of the upcoming renewals reminder',
+  },
+  reminder: {
+    id: 'recurringZaps.reminder',
+    defaultMessage: '{tier} for {name}, {price}, due {date}',
+    description: 'Upcoming renewal in the reminder',
+  },
+  ok: {
+    id: 'recurringZaps.ok',
+    defaultMessage: 'OK',
+    description: 'Closes the upcoming renewals reminder',
+  },
+  manage: {
+    id: 'recurringZaps.manage',
+    defaultMessage: 'Manage subscriptions',
+    description: 'Opens the subscription settings from the reminder',
+  },
+};
+
+export const liveStudio = {
+  title: {
+    id: 'liveStudio.title',
+    defaultMessage: 'Live Studio',
+    description: 'Title of the live studio page',
+  },
+  loggedOut: {
+    id: 'liveStudio.loggedOut',
+    defaultMessage: 'Log in to host live streams',
+    description: 'Shown in the live studio to logged out users',
+  },
+  yourStreams: {
+    id: 'liveStudio.yourStreams',
+    defaultMessage: 'Your streams',
+    description: 'Caption of the list of streams of the host',
+  },
+  newStream: {
+    id: 'liveStudio.newStream',
+    defaultMessage: 'New stream',
+    description: 'Starts a new stream draft, and caption of an unpublished draft',
+  },
+  loading: {
+    id: 'liveStudio.loading',
+    defaultMessage: 'Loading...',
+    description: 'Shown while the streams of the host load',
+  },
+  noStreams: {
+    id: 'liveStudio.noStreams',
+    defaultMessage: 'No streams yet',
+    description: 'Shown when the host has no streams',
+  },
+  viewStream: {
+    id: 'liveStudio.viewStream',
+    defaultMessage: 'View stream',
+    description: 'Link to the stream page',
+  },
+  streamTitle: {
+    id: 'liveStudio.streamTitle',
+    defaultMessage: 'Title',
+    description: 'Label of the stream title input',
+  },
+  summary: {
+    id: 'liveStudio.summary',
+    defaultMessage: 'Summary',
+    description: 'Label of the stream summary input',
+  },
+  image: {
+    id: 'liveStudio.image',
+    defaultMessage: 'Image URL',
+    description: 'Label of the stream image input',
+  },
+  hashtags: {
+    id: 'liveStudio.hashtags',
+    defaultMessage: 'Tags, separated by commas',
+    description: 'Label of the stream hashtags input',
+  },
+  streaming: {
+    id: 'liveStudio.streaming',
+    defaultMessage: 'Streaming URL (HLS)',
+    description: 'Label of the streaming url input',
+  },
+  recording: {
+    id: 'liveStudio.recording',
+    defaultMessage: 'Recording URL',
+    description: 'Label of the recording url input',
+  },
+  starts: {
+    id: 'liveStudio.starts',
+    defaultMessage: 'Starts',
+    description: 'Label of the stream start time input',
+  },
+  ends: {
+    id: 'liveStudio.ends',
+    defaultMessage: 'Ends',
+    description: 'Label of the stream end time input',
+  },
+  participants: {
+    id: 'liveStudio.participants',
+    defaultMessage: 'Participants',
+    description: 'Caption of the stream participants',
+  },
+  you: {
+    id: 'liveStudio.you',
+    defaultMessage: 'You',
+    description: 'Participant entry of the host',
+  },
+  remove: {
+    id: 'liveStudio.remove',
+    defaultMessage: 'Remove',
+    description: 'Removes a participant',
+  },
+  participantPlaceholder: {
+    id: 'liveStudio.participantPlaceholder',
+    defaultMessage: 'npub or hex public key',
+    description: 'Placeholder of the new participant input',
+  },
+  add: {
+    id: 'liveStudio.add',
+    defaultMessage: 'Add',
+    description: 'Adds a participant',
+  },
+  announce: {
+    id: 'liveStudio.announce',
+    defaultMessage: 'Announce the scheduled stream to my followers',
+    description: 'Label of the option to announce a planned stream',
+  },
+  publishing: {
+    id: 'liveStudio.publishing',
+    defaultMessage: 'Publishing...',
+    description: 'Publish button label while publishing',
+  },
+  publish: {
+    id: 'liveStudio.publish',
+    defaultMessage: 'Publish',
+    description: 'Publishes a new stream',
+  },
+  save: {
+    id: 'liveStudio.save',
+    defaultMessage: 'Save changes',
+    description: 'Saves changes to a published stream',
+  },
+  invalidParticipant: {
+    id: 'liveStudio.invalidParticipant',
+    defaultMessage: 'Enter an npub or a hex public key',
+    description: 'Warning for an invalid participant key',
+  },
+  duplicateParticipant: {
+    id: 'liveStudio.duplicateParticipant',
+    defaultMessage: 'Already a participant',
+    description: 'Warning for adding a participant twice',
+  },
+  missingTitle: {
+    id: 'liveStudio.missingTitle',
+    defaultMessage: 'Give your stream a title',
+    description: 'Warning for publishing a stream without a title',
+  },
+  publishFailed: {
+    id: 'liveStudio.publishFailed',
+    defaultMessage: 'Failed to publish the live event',
+    description: 'Warning when publishing the stream failed',
+  },
+  announceFailed: {
+    id: 'liveStudio.announceFailed',
+    defaultMessage: 'The stream was published, but the announcement failed',
+    description: 'Warning when the announcement note failed',
+  },
+  published: {
+    id: 'liveStudio.published',
+    defaultMessage: 'Live event published',
+    description: 'Toast after publishing a new stream',
+  },
+  updated: {
+    id: 'liveStudio.updated',
+    defaultMessage: 'Live event updated',
+    description: 'Toast after updating a stream',
+  },
+  announcement: {
+    id: 'liveStudio.announcement',
+    defaultMessage: 'Going live on {date}: {title}',
+    description: 'Note announcing a planned stream with a start time',
+  },
+  announcementSoon: {
+    id: 'liveStudio.announcementSoon',
+    defaultMessage: 'Going live soon: {title}',
+    description: 'Note announcing a planned stream without a start time',
+  },
+  statuses: {
+    planned: {
+      id: 'liveStudio.statuses.planned',
+      defaultMessage: 'Planned',
+      description: 'Status of a planned stream',
+    },
+    live: {
+      id: 'liveStudio.statuses.live',
+      defaultMessage: 'Live',
+      description: 'Status of a live stream',
+    },
+    ended: {
+      id: 'liveStudio.statuses.ended',
+      defaultMessage: 'Ended',
+      description: 'Status of an ended stream',
+    },
+  },
+  transitions: {
+    planned: {
+      id: 'liveStudio.transitions.planned',
+      defaultMessage: 'Plan',
+      description: 'Moves the stream back to planned',
+    },
+    live: {
+      id: 'liveStudio.transitions.live',
+      defaultMessage: 'Go live',
+      description: 'Marks the stream as live',
+    },
+    ended: {
+      id: 'liveStudio.transitions.ended',
+      defaultMessage: 'End stream',
+      description: 'Marks the stream as ended',
+    },
+  },
+};
@@ -33,7 +33,7 @@ export type ReactionSummary = {
 };
 
 export type NostrNoteContent = {
-  kind: Kind.Text | Kind.Repost | Kind.LongForm | Kind.LongFormShell | Kind.Draft | Kind.LiveEvent,
+  kind: Kind.Text | Kind.Repost | Kind.LongForm | Kind.LongFormShell | Kind.Draft | Kind.LiveEvent | Kind.Poll | Kind.ZapPoll,
   content: string,
   id: string,
   created_at?: number,
@@ -512,6 +512,15 @@ export type NostrRelayList= {
   tags?: string[][],
 };
 
+export type NostrDMRelayList= {
+  kind: Kind.DMRelayList,
+  content?: string,
+  created_at?: number,
+  pubkey: string,
+  id?: string,
+  tags?: string[][],
+};
+
 export type NostrImageContent= {
   kind: Kind.Image,
   content?: string,
@@ -619,6 +628,7 @@ export type NostrEventContent =
   NostrMembershipCohortInfo |
   NostrBlossom |
   NostrRelayList |
+  NostrDMRelayList |
   NostrImageContent |
   NostrTopicStats |
   NostrLiveEvent |
@@ -812,6 +822,326 @@ export type NostrExtension = {
   },
 };
 
+export type RemoteSignerSession = {
+  clientSecret: string,
+  remotePubkey: string,
+  relays: string[],
+  userPubkey: string,
+};
+
+export type RelayPublishStatus = 'pending' | 'ok' | 'sent' | 'notice' | 'auth-required' | 'timeout' | 'rejected' | 'error';
+
+export type RelayPublishResult = {
+  status: RelayPublishStatus,
+  message?: string,
+  at: number,
+};
+
+export type PublishQueueEntry = {
+  id: string,
+  event: NostrRelaySignedEvent,
+  via: 'relays' | 'primal',
+  relays: Record<string, RelayPublishResult>,
+  attempts: number,
+  nextAttemptAt: number,
+  createdAt: number,
+  state: 'publishing' | 'retrying' | 'done' | 'failed',
+};
+
+export type MediaPreset = 'original' | 'high' | 'balanced' | 'small';
+
+export type MediaProcessingSettings = {
+  stripLocation: boolean,
+  preset: MediaPreset,
+};
+
+// Values for the file's `imeta` tag
+export type MediaMeta = {
+  m: string,
+  x: string,
+  size: number,
+  dim?: string,
+  blurhash?: string,
+};
+
+export type UploadJobStatus = 'queued' | 'uploading' | 'paused' | 'failed' | 'done';
+
+export type UploadJob = {
+  id: string,
+  owner: string,
+  uploader: string,
+  name: string,
+  type: string,
+  size: number,
+  sha256?: string,
+  servers: string[],
+  transport: 'chunked' | 'blossom',
+  uploadId: string,
+  chunkSize: number,
+  uploadedChunks: number[],
+  progress: number,
+  status: UploadJobStatus,
+  url?: string,
+  error?: string,
+  meta?: MediaMeta,
+  posterFor?: string, // id of the video upload this is the poster frame of
+  createdAt: number,
+};
+
+export type RelayAuthPolicy = 'always' | 'ask' | 'never';
+
+export type RelayAuthStatus = 'challenged' | 'authenticating' | 'authenticated' | 'failed' | 'declined';
+
+export type RelayAuthState = {
+  status: RelayAuthStatus,
+  error?: string,
+  at: number,
+};
+
+export type StoredEvent = {
+  key: string,
+  event: NostrEventContent,
+  pubkey: string,
+  kind: number,
+  created_at: number,
+  tags: string[],
+  size: number,
+  storedAt: number,
+};
+
+export type StoredPage = {
+  key: string,
+  // Keys of stored events, or events that have no key of their own, in the order they arrived
+  entries: (string | NostrEventContent)[],
+  storedAt: number,
+};
+
+export type ScheduledPost = {
+  id: string,
+  pubkey: string,
+  // Signed with `created_at` set to the scheduled time
+  event: NostrRelaySignedEvent,
+  publishAt: number,
+  relays: string[],
+  proxy: boolean,
+  state: 'scheduled' | 'missed',
+  createdAt: number,
+};
+
+export type RecurringZapCadence = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type RecurringZapRenewal = {
+  dueAt: number,
+  at: number,
+  // Sats paid, or what the renewal would have cost
+  amount: number,
+  status: 'paid' | 'skipped' | 'failed',
+};
+
+export type RecurringZap = {
+  // Id of the subscribe event, every renewal is a zap of that event
+  id: string,
+  pubkey: string,
+  subscription: NostrRelaySignedEvent,
+  recipient: string,
+  recipientName: string,
+  tierTitle: string,
+  amount: string,
+  unit: string,
+  cadence: RecurringZapCadence,
+  nextDueAt: number,
+  remindedFor?: number,
+  lastAttemptAt?: number,
+  state: 'active' | 'cancelled',
+  history: RecurringZapRenewal[],
+  createdAt: number,
+};
+
+export type PostSchedule = {
+  publishAt: number,
+};
+
+export type ZapWallet = 'breez' | 'nwc' | 'webln';
+
+export type ZapRoutingPolicy = {
+  // When off, zaps go through the active wallet only
+  enabled: boolean,
+  order: ZapWallet[],
+  // Zaps under the threshold try this wallet first
+  smallZapWallet: ZapWallet | null,
+  smallZapThreshold: number,
+  // Try the next wallet when one fails
+  fallback: boolean,
+  // Sats per wallet per day, 0 or missing means no limit
+  dailyLimits: Partial<Record<ZapWallet, number>>,
+};
+
+export type ZapRouteAttempt = {
+  wallet: ZapWallet,
+  error?: string,
+};
+
+export type ZapRoutingLogEntry = {
+  at: number,
+  amount: number,
+  recipient?: string,
+  // Wallet that paid, missing when none did
+  wallet?: ZapWallet,
+  attempts: ZapRouteAttempt[],
+};
+
+export type ZapSpend = {
+  day: string,
+  amount: number,
+};
+
+// NIP-57 `zap` tag
+export type ZapSplit = {
+  pubkey: string,
+  relay?: string,
+  weight: number,
+};
+
+export type ZapSplitResult = {
+  pubkey: string,
+  name?: string,
+  amount: number,
+  success: boolean,
+  error?: string,
+};
+
+export type NWCMethod = 'pay_invoice' | 'pay_keysend' | 'get_balance' | 'get_info' |
+  'make_invoice' | 'lookup_invoice' | 'list_transactions' | 'multi_pay_invoice' | 'multi_pay_keysend';
+
+export type NWCEncryption = 'nip04' | 'nip44_v2';
+
+export type NWCCapabilities = {
+  methods: NWCMethod[],
+  notifications: string[],
+  encryption: NWCEncryption[],
+};
+
+export type NWCTransaction = {
+  type: 'incoming' | 'outgoing',
+  invoice?: string,
+  description?: string,
+  payment_hash: string,
+  preimage?: string,
+  // Millisats, as NIP-47 sends them
+  amount: number,
+  fees_paid?: number,
+  created_at: number,
+  settled_at?: number,
+};
+
+export type NWCBudgetPeriod = 'daily' | 'weekly' | 'monthly' | 'never';
+
+export type NWCBudget = {
+  // Sats per period, 0 means no budget
+  limit: number,
+  period: NWCBudgetPeriod,
+  spent: number,
+  // Start of the period `spent` counts towards, in ms
+  since: number,
+};
+
+export type NWCConnectionState = {
+  capabilities?: NWCCapabilities,
+  // Sats
+  balance?: number,
+  transactions: NWCTransaction[],
+  isLoading: boolean,
+  error?: string,
+};
+
+export type CashuProof = {
+  id: string,
+  amount: number,
+  secret: string,
+  C: string,
+  // NUT-11 signatures unlocking P2PK proofs
+  witness?: string,
+};
+
+// Content of a NIP-60 token event
+export type CashuTokenEvent = {
+  id: string,
+  mint: string,
+  proofs: CashuProof[],
+  created_at: number,
+};
+
+export type CashuHistoryEntry = {
+  id: string,
+  direction: 'in' | 'out',
+  amount: number,
+  // Token events this change created, destroyed or, for nutzaps, redeemed
+  created: string[],
+  destroyed: string[],
+  redeemed: string[],
+  counterparty?: string,
+  created_at: number,
+};
+
+// Melt whose outcome the mint didn't confirm yet, its proofs don't count towards the balance
+export type CashuPendingMelt = {
+  mint: string,
+  quote: string,
+  amount: number,
+  fee: number,
+  proofs: CashuProof[],
+  destroyed: string[],
+  created: string[],
+  created_at: number,
+};
+
+export type CashuWalletState = {
+  pubkey: string,
+  // Private key that nutzaps are locked to, not the user's nostr key
+  privkey: string,
+  mints: string[],
+  // Relays other users should send nutzaps to
+  relays: string[],
+  tokens: Record<string, CashuTokenEvent>,
+  history: CashuHistoryEntry[],
+  pendingMelts: CashuPendingMelt[],
+  isLoaded: boolean,
+  isFetching: boolean,
+};
+
+export type PollType = 'singlechoice' | 'multiplechoice';
+
+export type PollOption = {
+  id: string,
+  label: string,
+};
+
+export type PollDraft = {
+  options: string[],
+  type: PollType,
+  duration: number,
+  zapWeighted: boolean,
+};
+
+export type PrimalPoll = {
+  id: string,
+  pubkey: string,
+  kind: Kind.Poll | Kind.ZapPoll,
+  question: string,
+  options: PollOption[],
+  type: PollType,
+  endsAt?: number,
+  relays: string[],
+};
+
+export type PollTally = {
+  // Votes for NIP-88 polls, sats for zap polls
+  totals: Record<string, number>,
+  voters: number,
+  // Options picked by the current user
+  mine: string[],
+};
+
 export type WebLnExtension = {
   enable: () => Promise<void>,
   sendPayment: (req: string) => Promise<SendPaymentResponse>;
@@ -1138,11 +1468,23 @@ export type SortedNotifications = Record<number, PrimalNotification[]>;
 export type UserRelation = 'follows' | 'other' | 'any';
 
 
+export type DMProtocol = 'nip04' | 'nip17';
+
 export type DirectMessage = {
   id: string,
   sender: string,
   content: string,
   created_at: number,
+  protocol: DMProtocol,
+};
+
+export type PrivateDirectMessageRumor = {
+  id: string,
+  kind: Kind.PrivateDirectMessage,
+  pubkey: string,
+  content: string,
+  created_at: number,
+  tags: string[][],
 };
 
 export type DirectMessageThread = {
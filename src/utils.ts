@@ -430,7 +430,7 @@ export const msgHasInvoice = (content: string) => {
 };
 
 export const msgHasCashu = (content: string) => {
-  const r =/(\s+|\r\n|\r|\n|^)cashuA[a-zA-Z0-9]+/;
+  const r =/(\s+|\r\n|\r|\n|^)cashu[AB][a-zA-Z0-9]+/;
   const test = r.test(content);
 
   return test